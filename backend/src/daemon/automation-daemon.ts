@@ -46,10 +46,15 @@ class AutomationDaemon {
 
     await connectToDatabase();
 
+    // The daemon runs in its own process, so it receives the API's events
+    // through the shared transport. The durable consumer id lets it pick up
+    // events published while it was down.
+    await eventBus.start({ consumerId: 'automation-daemon' });
+
     // Subscribe to all task events
     eventBus.subscribe('*', async (event: TaskEvent) => {
       await this.handleEvent(event);
-    });
+    }, { shared: true });
 
     this.running = true;
     console.log(`AutomationDaemon: Started with ${this.config.rules.length} rules`);
@@ -76,6 +81,7 @@ class AutomationDaemon {
       await new Promise(resolve => setTimeout(resolve, 100));
     }
 
+    await eventBus.stop();
     await closeDatabase();
     console.log('AutomationDaemon: Shutdown complete');
     process.exit(0);
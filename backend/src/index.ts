@@ -14,18 +14,34 @@ import { workflowsRouter } from './routes/workflows.js';
 import { apiKeysRouter } from './routes/api-keys.js';
 import { activityLogsRouter } from './routes/activity-logs.js';
 import { webhooksRouter } from './routes/webhooks.js';
+import { schedulesRouter } from './routes/schedules.js';
+import { inboundEndpointsRouter } from './routes/inbound-endpoints.js';
+import { notificationsRouter } from './routes/notifications.js';
 import batchJobsRouter from './routes/batch-jobs.js';
 import workflowRunsRouter from './routes/workflow-runs.js';
 import { eventsRouter } from './routes/events.js';
 import { authRouter } from './routes/auth.js';
 import { tagsRouter } from './routes/tags.js';
+import { auditLogsRouter } from './routes/audit-logs.js';
 import { errorHandler } from './middleware/error-handler.js';
 import { requireAuth } from './middleware/auth.js';
+import { authorize } from './middleware/permissions.js';
+import { eventBus } from './services/event-bus.js';
 import { activityLogService } from './services/activity-log.js';
 import { webhookService } from './services/webhook-service.js';
 import { batchJobService } from './services/batch-job-service.js';
+import { externalJobService } from './services/external-job-service.js';
 import { workflowExecutionService } from './services/workflow-execution-service.js';
 import { webhookTaskService } from './services/webhook-task-service.js';
+import { bulkTaskService } from './services/bulk-task-service.js';
+import { taskDependencyService } from './services/task-dependency-service.js';
+import { scheduleService } from './services/schedule-service.js';
+import { workflowTriggerService } from './services/workflow-trigger-service.js';
+import { inboundEndpointService } from './services/inbound-endpoint-service.js';
+import { notificationService } from './services/notification-service.js';
+import { attachmentService } from './services/attachment-service.js';
+import { activityLogRetentionService } from './services/activity-log-retention.js';
+import { auditLogService } from './services/audit-log.js';
 import { setupSwagger } from './swagger.js';
 
 const app = express();
@@ -38,7 +54,23 @@ app.use(cors({
   credentials: true,
 }));
 app.use(morgan('combined'));
-app.use(express.json({ limit: '10mb' }));
+const jsonParser = express.json({ limit: '10mb' });
+// Inbound endpoints verify signatures over the exact bytes that were sent, so
+// their bodies stay raw whatever the content type and are parsed after the check
+const inboundParser = express.raw({ type: () => true, limit: '10mb' });
+// Attachment uploads are read as raw bytes by their route, whatever their type
+const ATTACHMENT_UPLOAD_PATH = /^\/api\/tasks\/[^/?]+\/attachments\/?(\?|$)/;
+app.use((req, res, next) => {
+  if (req.method === 'POST' && ATTACHMENT_UPLOAD_PATH.test(req.url)) {
+    next();
+    return;
+  }
+  if (req.url.startsWith('/api/inbound/')) {
+    inboundParser(req, res, next);
+    return;
+  }
+  jsonParser(req, res, next);
+});
 
 // Health check
 app.get('/health', (_, res) => {
@@ -182,21 +214,67 @@ app.post('/api/workflow-runs/:id/callback/:stepId', async (req, res) => {
   }
 });
 
-// Protected API Routes - require authentication
-app.use('/api/tasks', requireAuth, tasksRouter);
-app.use('/api/lookups', requireAuth, lookupsRouter);
-app.use('/api/field-configs', requireAuth, fieldConfigsRouter);
-app.use('/api/views', requireAuth, viewsRouter);
-app.use('/api/users', requireAuth, usersRouter);
-app.use('/api/external-jobs', requireAuth, externalJobsRouter);
-app.use('/api/workflows', requireAuth, workflowsRouter);
-app.use('/api/auth/api-keys', requireAuth, apiKeysRouter);
-app.use('/api/activity-logs', requireAuth, activityLogsRouter);
-app.use('/api/webhooks', requireAuth, webhooksRouter);
-app.use('/api/batch-jobs', requireAuth, batchJobsRouter);
-app.use('/api/workflow-runs', requireAuth, workflowRunsRouter);
-app.use('/api/events', requireAuth, eventsRouter);
-app.use('/api/tags', requireAuth, tagsRouter);
+// Workflow webhook trigger - the secret token in the URL identifies the trigger step
+app.post('/api/workflow-triggers/:token', async (req, res) => {
+  try {
+    const run = await workflowTriggerService.fireWebhook(req.params.token, req.body);
+
+    res.status(202).json({
+      acknowledged: true,
+      workflowRunId: run._id,
+      rootTaskId: run.rootTaskId,
+    });
+  } catch (error: unknown) {
+    const statusCode = (error as { statusCode?: number }).statusCode;
+    const message = error instanceof Error ? error.message : 'Failed to start workflow';
+
+    if (statusCode === 404 || statusCode === 409) {
+      res.status(statusCode).json({ error: message });
+      return;
+    }
+
+    console.error('[WorkflowTriggers] Webhook trigger error:', error);
+    res.status(500).json({ error: message });
+  }
+});
+
+// Inbound endpoints - requests are signed with the endpoint's secret
+app.post('/api/inbound/:slug', async (req, res) => {
+  try {
+    const result = await inboundEndpointService.receive(req.params.slug, {
+      rawBody: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+      contentType: req.headers['content-type'],
+      headers: req.headers,
+      query: req.query as Record<string, unknown>,
+    });
+
+    res.status(result.statusCode).json(result.body);
+  } catch (error: unknown) {
+    console.error('[Inbound] Delivery error:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to process delivery' });
+  }
+});
+
+// Protected API Routes - require authentication, then the permission
+// configured for the router in middleware/permissions.ts
+app.use('/api/tasks', requireAuth, authorize, tasksRouter);
+app.use('/api/lookups', requireAuth, authorize, lookupsRouter);
+app.use('/api/field-configs', requireAuth, authorize, fieldConfigsRouter);
+app.use('/api/views', requireAuth, authorize, viewsRouter);
+app.use('/api/users', requireAuth, authorize, usersRouter);
+app.use('/api/external-jobs', requireAuth, authorize, externalJobsRouter);
+app.use('/api/workflows', requireAuth, authorize, workflowsRouter);
+app.use('/api/auth/api-keys', requireAuth, authorize, apiKeysRouter);
+app.use('/api/activity-logs', requireAuth, authorize, activityLogsRouter);
+app.use('/api/webhooks', requireAuth, authorize, webhooksRouter);
+app.use('/api/schedules', requireAuth, authorize, schedulesRouter);
+app.use('/api/inbound-endpoints', requireAuth, authorize, inboundEndpointsRouter);
+app.use('/api/notifications', requireAuth, authorize, notificationsRouter);
+app.use('/api/batch-jobs', requireAuth, authorize, batchJobsRouter);
+app.use('/api/workflow-runs', requireAuth, authorize, workflowRunsRouter);
+app.use('/api/events', requireAuth, authorize, eventsRouter);
+app.use('/api/tags', requireAuth, authorize, tagsRouter);
+app.use('/api/audit-logs', requireAuth, authorize, auditLogsRouter);
 
 // Error handling
 app.use(errorHandler);
@@ -205,6 +283,11 @@ app.use(errorHandler);
 const shutdown = async () => {
   console.log('Shutting down gracefully...');
   await batchJobService.shutdown();
+  await externalJobService.shutdown();
+  await workflowExecutionService.shutdown();
+  await scheduleService.shutdown();
+  await activityLogRetentionService.shutdown();
+  await eventBus.stop();
   await closeDatabase();
   process.exit(0);
 };
@@ -217,12 +300,24 @@ const start = async () => {
   try {
     await connectToDatabase();
 
+    // Connect the event bus to the shared transport before anything publishes
+    await eventBus.start();
+
     // Initialize event system services
     activityLogService.initialize();
+    auditLogService.initialize();
     webhookService.initialize();
     batchJobService.initialize();
+    externalJobService.initialize();
     workflowExecutionService.initialize();
     webhookTaskService.initialize();
+    taskDependencyService.initialize();
+    await bulkTaskService.initialize();
+    scheduleService.initialize();
+    workflowTriggerService.initialize();
+    notificationService.initialize();
+    attachmentService.initialize();
+    activityLogRetentionService.initialize();
 
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import type { ApiError } from './error-handler.js';
+import { ALL_PERMISSIONS, authorize, expandScopes, getEffectivePermissions, getRequiredPermission } from './permissions.js';
+
+const request = (fields: Record<string, unknown>) => fields as unknown as Request;
+
+function runAuthorize(req: Request): ApiError | undefined {
+  const next = vi.fn();
+  authorize(req, {} as Response, next);
+  expect(next).toHaveBeenCalledTimes(1);
+  return next.mock.calls[0][0];
+}
+
+describe('expandScopes', () => {
+  it('grants everything for *', () => {
+    expect(expandScopes(['*'])).toEqual(ALL_PERMISSIONS);
+  });
+
+  it('expands resource wildcards and lets write imply read', () => {
+    expect(expandScopes(['tasks:*'])).toEqual(['tasks:read', 'tasks:write']);
+    expect(expandScopes(['webhooks:write'])).toEqual(['webhooks:read', 'webhooks:write']);
+    expect(expandScopes(['users:read'])).toEqual(['users:read']);
+  });
+
+  it('ignores unknown resources and actions', () => {
+    expect(expandScopes(['secrets:read', 'tasks:delete', 'tasks'])).toEqual([]);
+  });
+});
+
+describe('getEffectivePermissions', () => {
+  it('gives users their role, and unknown roles the viewer permissions', () => {
+    const viewer = getEffectivePermissions(request({ user: { role: 'viewer' } }));
+    expect(viewer).toContain('tasks:read');
+    expect(viewer).not.toContain('tasks:write');
+    expect(getEffectivePermissions(request({ user: { role: 'admin' } }))).toEqual(ALL_PERMISSIONS);
+    expect(getEffectivePermissions(request({ user: { role: 'superuser' } }))).toEqual(viewer);
+    expect(getEffectivePermissions(request({}))).toEqual([]);
+  });
+
+  it('gives API keys their scopes, limited to the role of the user they act as', () => {
+    const serviceKey = { scopes: ['users:write'] };
+    expect(getEffectivePermissions(request({ user: { role: 'viewer' }, apiKey: serviceKey })))
+      .toEqual(['users:read', 'users:write']);
+
+    const userKey = { scopes: ['tasks:write', 'users:write'], userId: 'u1' };
+    expect(getEffectivePermissions(request({ user: { role: 'reviewer' }, apiKey: userKey })))
+      .toEqual(['tasks:read', 'tasks:write', 'users:read']);
+  });
+});
+
+describe('getRequiredPermission', () => {
+  it('uses the read permission for safe methods and the write permission otherwise', () => {
+    expect(getRequiredPermission('/api/tasks', 'GET', '/')).toBe('tasks:read');
+    expect(getRequiredPermission('/api/tasks', 'PATCH', '/1')).toBe('tasks:write');
+  });
+
+  it('applies route overrides', () => {
+    expect(getRequiredPermission('/api/webhooks', 'POST', '/preview')).toBe('webhooks:read');
+    expect(getRequiredPermission('/api/activity-logs', 'POST', '/retention/run')).toBe('settings:write');
+    expect(getRequiredPermission('/api/unknown', 'GET', '/')).toBeNull();
+  });
+});
+
+describe('authorize', () => {
+  it('lets callers with the required permission through', () => {
+    expect(runAuthorize(request({ user: { role: 'operator' }, baseUrl: '/api/tasks', method: 'POST', path: '/' })))
+      .toBeUndefined();
+  });
+
+  it('rejects callers missing the permission with a 403 naming it', () => {
+    const error = runAuthorize(request({ user: { role: 'viewer' }, baseUrl: '/api/tasks', method: 'POST', path: '/' }));
+    expect(error?.statusCode).toBe(403);
+    expect(error?.details).toMatchObject({ missingPermission: 'tasks:write', role: 'viewer' });
+  });
+
+  it('denies everyone on routers without a rule', () => {
+    const error = runAuthorize(request({ user: { role: 'admin' }, baseUrl: '/api/unknown', method: 'GET', path: '/' }));
+    expect(error?.statusCode).toBe(403);
+    expect(error?.message).toBe('No permission rule configured for /api/unknown');
+  });
+});
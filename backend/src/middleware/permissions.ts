@@ -0,0 +1,270 @@
+import { Request, Response, NextFunction } from 'express';
+import { createError } from './error-handler.js';
+import { AuditEntityType, Permission, PermissionResource, UserRole } from '../types/index.js';
+
+const RESOURCES: PermissionResource[] = [
+  'tasks',
+  'saved-searches',
+  'workflows',
+  'workflow-runs',
+  'batch-jobs',
+  'external-jobs',
+  'webhooks',
+  'schedules',
+  'users',
+  'api-keys',
+  'settings',
+];
+
+export const ALL_PERMISSIONS: Permission[] = RESOURCES.flatMap(resource => [
+  `${resource}:read` as Permission,
+  `${resource}:write` as Permission,
+]);
+
+// Resources every role can see - the UI needs them to render tasks at all
+const BASE_READ: Permission[] = [
+  'tasks:read',
+  'saved-searches:read',
+  'workflows:read',
+  'workflow-runs:read',
+  'batch-jobs:read',
+  'external-jobs:read',
+  'schedules:read',
+  'users:read',
+  'settings:read',
+];
+
+/**
+ * What each user role is allowed to do
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  operator: [
+    ...BASE_READ,
+    'webhooks:read',
+    'tasks:write',
+    'saved-searches:write',
+    'workflows:write',
+    'workflow-runs:write',
+    'batch-jobs:write',
+    'external-jobs:write',
+    'webhooks:write',
+    'schedules:write',
+  ],
+  reviewer: [
+    ...BASE_READ,
+    'tasks:write',
+    'saved-searches:write',
+  ],
+  viewer: BASE_READ,
+};
+
+interface RoutePermissionOverride {
+  method: string;
+  path: RegExp;
+  permission: Permission;
+}
+
+interface RoutePermissionRule {
+  // Required for GET/HEAD/OPTIONS requests
+  read: Permission;
+  // Required for every other method
+  write: Permission;
+  // Routes whose method alone doesn't say what they do
+  overrides?: RoutePermissionOverride[];
+}
+
+/**
+ * Required permission for every protected router, keyed by mount path.
+ * A router that is mounted behind authorize() without an entry here is
+ * denied to everyone.
+ */
+export const ROUTE_PERMISSIONS: Record<string, RoutePermissionRule> = {
+  '/api/tasks': { read: 'tasks:read', write: 'tasks:write' },
+  '/api/activity-logs': {
+    read: 'tasks:read',
+    write: 'tasks:write',
+    overrides: [
+      // Bulk export for audits covers every task, like the audit log
+      { method: 'GET', path: /^\/export\/?$/, permission: 'settings:read' },
+      { method: 'GET', path: /^\/retention\/?$/, permission: 'settings:read' },
+      // Archives and deletes entries across all tasks
+      { method: 'POST', path: /^\/retention\/run\/?$/, permission: 'settings:write' },
+    ],
+  },
+  '/api/events': { read: 'tasks:read', write: 'tasks:write' },
+  '/api/views': {
+    read: 'saved-searches:read',
+    write: 'saved-searches:write',
+    overrides: [
+      // Only stores the caller's own column layout
+      { method: 'PUT', path: /^\/[^/]+\/preferences\/?$/, permission: 'saved-searches:read' },
+    ],
+  },
+  '/api/workflows': {
+    read: 'workflows:read',
+    write: 'workflows:write',
+    overrides: [
+      // Conversions only - nothing is saved
+      { method: 'POST', path: /^\/(parse|generate)-mermaid\/?$/, permission: 'workflows:read' },
+    ],
+  },
+  '/api/workflow-runs': { read: 'workflow-runs:read', write: 'workflow-runs:write' },
+  '/api/batch-jobs': {
+    read: 'batch-jobs:read',
+    write: 'batch-jobs:write',
+    overrides: [
+      // Reviewing a batch is a decision on its task, not a change to the job setup
+      { method: 'POST', path: /^\/[^/]+\/(review|request-review)\/?$/, permission: 'tasks:write' },
+    ],
+  },
+  '/api/external-jobs': { read: 'external-jobs:read', write: 'external-jobs:write' },
+  '/api/webhooks': {
+    read: 'webhooks:read',
+    write: 'webhooks:write',
+    overrides: [
+      // Renders a request only - nothing is saved or sent
+      { method: 'POST', path: /^\/preview\/?$/, permission: 'webhooks:read' },
+    ],
+  },
+  '/api/inbound-endpoints': { read: 'webhooks:read', write: 'webhooks:write' },
+  // Only ever reads or marks the caller's own notifications
+  '/api/notifications': { read: 'tasks:read', write: 'tasks:read' },
+  '/api/schedules': {
+    read: 'schedules:read',
+    write: 'schedules:write',
+    overrides: [
+      // Computes run times only - nothing is saved
+      { method: 'POST', path: /^\/preview\/?$/, permission: 'schedules:read' },
+    ],
+  },
+  '/api/users': { read: 'users:read', write: 'users:write' },
+  '/api/auth/api-keys': { read: 'api-keys:read', write: 'api-keys:write' },
+  '/api/field-configs': { read: 'settings:read', write: 'settings:write' },
+  '/api/lookups': { read: 'settings:read', write: 'settings:write' },
+  '/api/tags': {
+    read: 'settings:read',
+    write: 'settings:write',
+    overrides: [
+      // Creates missing tags while tagging a task
+      { method: 'POST', path: /^\/ensure\/?$/, permission: 'tasks:write' },
+    ],
+  },
+  // Each entity type's history also needs that entity's read permission (AUDIT_ENTITY_PERMISSIONS)
+  '/api/audit-logs': { read: 'settings:read', write: 'settings:write' },
+};
+
+/**
+ * Permission needed to read the audit history of each entity type - the
+ * same one needed to read the entities themselves
+ */
+export const AUDIT_ENTITY_PERMISSIONS: Record<AuditEntityType, Permission> = {
+  workflow: 'workflows:read',
+  view: 'saved-searches:read',
+  'field-config': 'settings:read',
+  lookup: 'settings:read',
+  webhook: 'webhooks:read',
+  user: 'users:read',
+  team: 'users:read',
+  tag: 'settings:read',
+  'api-key': 'api-keys:read',
+};
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+function isRole(role: string): role is UserRole {
+  return role in ROLE_PERMISSIONS;
+}
+
+/**
+ * Expand API key scopes: `*` grants everything, `<resource>:*` both actions,
+ * and `<resource>:write` implies `<resource>:read`.
+ */
+export function expandScopes(scopes: string[]): Permission[] {
+  const granted = new Set<Permission>();
+
+  for (const scope of scopes) {
+    if (scope === '*') {
+      ALL_PERMISSIONS.forEach(permission => granted.add(permission));
+      continue;
+    }
+
+    const [resource, action] = scope.split(':');
+    if (!RESOURCES.includes(resource as PermissionResource)) continue;
+
+    if (action === 'read' || action === 'write' || action === '*') {
+      granted.add(`${resource}:read` as Permission);
+    }
+    if (action === 'write' || action === '*') {
+      granted.add(`${resource}:write` as Permission);
+    }
+  }
+
+  return ALL_PERMISSIONS.filter(permission => granted.has(permission));
+}
+
+/**
+ * Permissions of the authenticated caller. Users get their role's
+ * permissions (unknown roles are treated as viewers). API keys get their
+ * scopes - limited to the user's role when the key acts as a user.
+ */
+export function getEffectivePermissions(req: Request): Permission[] {
+  if (!req.user) return [];
+
+  const role = req.user.role;
+  const rolePermissions = isRole(role) ? ROLE_PERMISSIONS[role] : ROLE_PERMISSIONS.viewer;
+
+  if (!req.apiKey) {
+    return rolePermissions;
+  }
+
+  const scoped = expandScopes(req.apiKey.scopes || []);
+  if (!req.apiKey.userId) {
+    return scoped;
+  }
+  return scoped.filter(permission => rolePermissions.includes(permission));
+}
+
+export function hasPermission(req: Request, permission: Permission): boolean {
+  return getEffectivePermissions(req).includes(permission);
+}
+
+/**
+ * The permission a request needs, or null if its router has no rule.
+ */
+export function getRequiredPermission(mountPath: string, method: string, path: string): Permission | null {
+  const rule = ROUTE_PERMISSIONS[mountPath];
+  if (!rule) return null;
+
+  const override = rule.overrides?.find(o => o.method === method && o.path.test(path));
+  if (override) return override.permission;
+
+  return READ_METHODS.has(method) ? rule.read : rule.write;
+}
+
+/**
+ * Authorization middleware - mount after requireAuth. Looks up the
+ * router's rule in ROUTE_PERMISSIONS by mount path and rejects callers
+ * without the required permission with a 403 naming it.
+ */
+export function authorize(req: Request, _res: Response, next: NextFunction): void {
+  const required = getRequiredPermission(req.baseUrl, req.method, req.path);
+
+  if (!required) {
+    next(createError(`No permission rule configured for ${req.baseUrl}`, 403, {
+      missingPermission: null,
+    }));
+    return;
+  }
+
+  if (!hasPermission(req, required)) {
+    next(createError(`Missing permission: ${required}`, 403, {
+      missingPermission: required,
+      role: req.user?.role,
+      ...(req.apiKey && { apiKeyScopes: req.apiKey.scopes }),
+    }));
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,36 @@
+/**
+ * Migration: Add workflow_revisions collection
+ *
+ * Stores an immutable snapshot of a workflow definition on every save so
+ * workflow runs can resolve steps against the revision they started with.
+ *
+ * Existing workflows are not backfilled here - the revision service records
+ * their current definition as version 1 the first time they are saved or run.
+ *
+ * Indexes added:
+ * - { workflowId: 1, version: -1 } (unique) - Revision lookups and history listing
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+export const migration: Migration = {
+  id: '2025-12-26-001',
+  name: 'add-workflow-revisions',
+  description: 'Add workflow_revisions collection for versioned workflow definitions',
+  schemaVersion: 9,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.createCollection(db, 'workflow_revisions');
+
+    await migrationHelpers.ensureIndex(db, 'workflow_revisions', { workflowId: 1, version: -1 }, { unique: true });
+    console.log('[Migration] Created workflowId + version unique index on workflow_revisions');
+  },
+
+  async down(db: Db): Promise<void> {
+    await db.collection('workflow_revisions').drop().catch(() => {
+      console.log('[Migration] workflow_revisions collection does not exist');
+    });
+    console.log('[Migration] Dropped workflow_revisions collection');
+  },
+};
@@ -0,0 +1,34 @@
+/**
+ * Migration: Add index for workflow step timeouts
+ *
+ * Workflow step tasks with a timeout (WorkflowStep.timeoutMs / dueOffsetHours)
+ * store their deadline in `timeoutAt`. The workflow execution service polls
+ * for open tasks whose deadline has passed.
+ *
+ * Indexes added:
+ * - { status: 1, timeoutAt: 1 } - Overdue step timeout lookups
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+export const migration: Migration = {
+  id: '2025-12-27-001',
+  name: 'add-task-timeout-index',
+  description: 'Add status + timeoutAt index on tasks for workflow step timeouts',
+  schemaVersion: 10,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.ensureIndex(db, 'tasks', { status: 1, timeoutAt: 1 });
+    console.log('[Migration] Created status + timeoutAt compound index on tasks');
+  },
+
+  async down(db: Db): Promise<void> {
+    try {
+      await db.collection('tasks').dropIndex('status_1_timeoutAt_1');
+      console.log('[Migration] Dropped status + timeoutAt index');
+    } catch {
+      console.log('[Migration] status + timeoutAt index does not exist');
+    }
+  },
+};
@@ -0,0 +1,46 @@
+/**
+ * Migration: Add event outbox collections
+ *
+ * The MongoDB event transport writes every task and workflow run event to
+ * `event_outbox` so other processes (API replicas, the automation daemon)
+ * can read them. Sequence numbers come from the `counters` collection and
+ * durable consumers store their position in `event_consumers`.
+ *
+ * Indexes added:
+ * - event_outbox { seq: 1 } (unique) - Ordered reads after a position
+ * - event_outbox { createdAt: 1 } (TTL, 7 days) - Drop old events
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+const OUTBOX_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+export const migration: Migration = {
+  id: '2025-12-28-001',
+  name: 'add-event-outbox',
+  description: 'Add event_outbox, event_consumers and counters collections for the cross-process event transport',
+  schemaVersion: 11,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.createCollection(db, 'event_outbox');
+    await migrationHelpers.createCollection(db, 'event_consumers');
+    await migrationHelpers.createCollection(db, 'counters');
+
+    await migrationHelpers.ensureIndex(db, 'event_outbox', { seq: 1 }, { unique: true });
+    console.log('[Migration] Created seq unique index on event_outbox');
+
+    await migrationHelpers.ensureIndex(db, 'event_outbox', { createdAt: 1 }, { expireAfterSeconds: OUTBOX_RETENTION_SECONDS });
+    console.log('[Migration] Created createdAt TTL index on event_outbox');
+  },
+
+  async down(db: Db): Promise<void> {
+    for (const name of ['event_outbox', 'event_consumers']) {
+      await db.collection(name).drop().catch(() => {
+        console.log(`[Migration] ${name} collection does not exist`);
+      });
+    }
+    await db.collection<{ _id: string }>('counters').deleteOne({ _id: 'event_outbox' });
+    console.log('[Migration] Dropped event outbox collections');
+  },
+};
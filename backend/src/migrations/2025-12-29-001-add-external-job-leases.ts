@@ -0,0 +1,57 @@
+/**
+ * Migration: Add external job leases
+ *
+ * Claimed external jobs now carry a worker lease (`workerId`,
+ * `leaseExpiresAt`) that the lease reaper checks. Jobs claimed before
+ * leases existed are given one default-length lease starting now, so a job
+ * whose worker is gone is eventually returned to pending instead of
+ * staying in `processing` forever.
+ *
+ * Indexes added:
+ * - { status: 1, leaseExpiresAt: 1 } - Expired lease lookups
+ * - { status: 1, type: 1, createdAt: 1 } - Claim-next by type
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+// Matches DEFAULT_LEASE_MS in services/external-job-service.ts
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+export const migration: Migration = {
+  id: '2025-12-29-001',
+  name: 'add-external-job-leases',
+  description: 'Add lease indexes to external_jobs and lease jobs claimed before leases existed',
+  schemaVersion: 12,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.ensureIndex(db, 'external_jobs', { status: 1, leaseExpiresAt: 1 });
+    console.log('[Migration] Created status + leaseExpiresAt index on external_jobs');
+
+    await migrationHelpers.ensureIndex(db, 'external_jobs', { status: 1, type: 1, createdAt: 1 });
+    console.log('[Migration] Created status + type + createdAt index on external_jobs');
+
+    const result = await db.collection('external_jobs').updateMany(
+      { status: 'processing', leaseExpiresAt: { $exists: false } },
+      {
+        $set: {
+          workerId: null,
+          leaseExpiresAt: new Date(Date.now() + DEFAULT_LEASE_MS),
+          leaseDurationMs: DEFAULT_LEASE_MS,
+        },
+      }
+    );
+    console.log(`[Migration] Leased ${result.modifiedCount} processing external jobs`);
+  },
+
+  async down(db: Db): Promise<void> {
+    for (const name of ['status_1_leaseExpiresAt_1', 'status_1_type_1_createdAt_1']) {
+      try {
+        await db.collection('external_jobs').dropIndex(name);
+        console.log(`[Migration] Dropped ${name} index`);
+      } catch {
+        console.log(`[Migration] ${name} index does not exist`);
+      }
+    }
+  },
+};
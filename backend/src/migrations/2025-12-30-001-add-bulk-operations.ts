@@ -0,0 +1,41 @@
+/**
+ * Migration: Add bulk operations collection
+ *
+ * Bulk task operations on large selections run in the background and
+ * record their progress and per-task results in `bulk_operations`.
+ *
+ * Indexes added:
+ * - bulk_operations { status: 1 } - Find interrupted operations on startup
+ * - bulk_operations { createdById: 1, createdAt: -1 } - A user's recent operations
+ * - bulk_operations { completedAt: 1 } (TTL, 30 days) - Drop finished operations
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+const BULK_OPERATION_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+export const migration: Migration = {
+  id: '2025-12-30-001',
+  name: 'add-bulk-operations',
+  description: 'Add bulk_operations collection for background bulk task operations',
+  schemaVersion: 13,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.createCollection(db, 'bulk_operations');
+
+    await migrationHelpers.ensureIndex(db, 'bulk_operations', { status: 1 });
+    await migrationHelpers.ensureIndex(db, 'bulk_operations', { createdById: 1, createdAt: -1 });
+    console.log('[Migration] Created status and createdById indexes on bulk_operations');
+
+    await migrationHelpers.ensureIndex(db, 'bulk_operations', { completedAt: 1 }, { expireAfterSeconds: BULK_OPERATION_RETENTION_SECONDS });
+    console.log('[Migration] Created completedAt TTL index on bulk_operations');
+  },
+
+  async down(db: Db): Promise<void> {
+    await db.collection('bulk_operations').drop().catch(() => {
+      console.log('[Migration] bulk_operations collection does not exist');
+    });
+    console.log('[Migration] Dropped bulk_operations collection');
+  },
+};
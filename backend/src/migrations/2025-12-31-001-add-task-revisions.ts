@@ -0,0 +1,30 @@
+/**
+ * Migration: Add task revisions
+ *
+ * Every task write now increments `revision`, and PATCH /api/tasks/:id
+ * rejects edits made against an older revision (If-Match / expectedRevision).
+ * Existing tasks start at revision 0.
+ */
+
+import { Db } from 'mongodb';
+import { Migration } from './runner.js';
+
+export const migration: Migration = {
+  id: '2025-12-31-001',
+  name: 'add-task-revisions',
+  description: 'Backfill revision on existing tasks for optimistic concurrency control',
+  schemaVersion: 14,
+
+  async up(db: Db): Promise<void> {
+    const result = await db.collection('tasks').updateMany(
+      { revision: { $exists: false } },
+      { $set: { revision: 0 } }
+    );
+    console.log(`[Migration] Set revision on ${result.modifiedCount} tasks`);
+  },
+
+  async down(db: Db): Promise<void> {
+    await db.collection('tasks').updateMany({}, { $unset: { revision: '' } });
+    console.log('[Migration] Removed revision from tasks');
+  },
+};
@@ -0,0 +1,97 @@
+/**
+ * Migration: Add task dependencies
+ *
+ * Tasks can wait for other tasks (`blockedBy`), with a derived `isBlocked`
+ * flag that views use to leave blocked tasks out. Adds the indexes for
+ * finding dependents and unblocked tasks, and allows the task.blocked /
+ * task.unblocked events in activity_logs.
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+const ACTIVITY_LOGS_VALIDATOR = {
+  $jsonSchema: {
+    bsonType: 'object',
+    required: ['taskId', 'eventType', 'actorType', 'timestamp'],
+    properties: {
+      taskId: {
+        bsonType: 'objectId',
+        description: 'Task this activity relates to - required',
+      },
+      eventType: {
+        bsonType: 'string',
+        enum: [
+          'task.created',
+          'task.updated',
+          'task.deleted',
+          'task.status.changed',
+          'task.assignee.changed',
+          'task.priority.changed',
+          'task.metadata.changed',
+          'task.moved',
+          'task.comment.added',
+          'task.blocked',
+          'task.unblocked',
+        ],
+        description: 'Type of event',
+      },
+      actorId: {
+        bsonType: ['objectId', 'null'],
+        description: 'User or system that triggered the event',
+      },
+      actorType: {
+        bsonType: 'string',
+        enum: ['user', 'system', 'daemon'],
+        description: 'Type of actor',
+      },
+      changes: {
+        bsonType: ['array', 'null'],
+        description: 'Field changes made',
+      },
+      comment: {
+        bsonType: ['string', 'null'],
+        description: 'Optional comment or note',
+      },
+      timestamp: {
+        bsonType: 'date',
+        description: 'When the event occurred',
+      },
+      metadata: {
+        bsonType: ['object', 'null'],
+        description: 'Additional event metadata',
+      },
+    },
+  },
+};
+
+export const migration: Migration = {
+  id: '2026-01-01-001',
+  name: 'add-task-dependencies',
+  description: 'Add task dependency indexes and allow blocked/unblocked activity events',
+  schemaVersion: 15,
+
+  async up(db: Db): Promise<void> {
+    // Dependents of a task
+    await migrationHelpers.ensureIndex(db, 'tasks', { blockedBy: 1 });
+    // Views and list filters that leave out blocked tasks
+    await migrationHelpers.ensureIndex(db, 'tasks', { isBlocked: 1, status: 1 });
+    console.log('[Migration] Created task dependency indexes');
+
+    await migrationHelpers.updateValidator(db, 'activity_logs', ACTIVITY_LOGS_VALIDATOR);
+    console.log('[Migration] Updated activity_logs validator with task.blocked/task.unblocked');
+  },
+
+  async down(db: Db): Promise<void> {
+    const tasks = db.collection('tasks');
+    for (const name of ['blockedBy_1', 'isBlocked_1_status_1']) {
+      try {
+        await tasks.dropIndex(name);
+      } catch {
+        // Index may not exist
+      }
+    }
+    await tasks.updateMany({}, { $unset: { blockedBy: '', isBlocked: '' } });
+    console.log('[Migration] Removed task dependencies');
+  },
+};
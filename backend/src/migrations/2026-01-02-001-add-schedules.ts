@@ -0,0 +1,44 @@
+/**
+ * Migration: Add schedules
+ *
+ * Schedules create tasks from a template or start workflow runs on a cron
+ * expression. Each run (including skipped catch-up runs) is recorded in
+ * `schedule_runs`.
+ *
+ * Indexes added:
+ * - schedules { isActive: 1, nextRunAt: 1 } - Find due schedules
+ * - schedule_runs { scheduleId: 1, scheduledFor: -1 } - A schedule's run history
+ * - schedule_runs { startedAt: 1 } (TTL, 90 days) - Drop old runs
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+const SCHEDULE_RUN_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+export const migration: Migration = {
+  id: '2026-01-02-001',
+  name: 'add-schedules',
+  description: 'Add schedules and schedule_runs collections for cron-scheduled tasks and workflows',
+  schemaVersion: 16,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.createCollection(db, 'schedules');
+    await migrationHelpers.ensureIndex(db, 'schedules', { isActive: 1, nextRunAt: 1 });
+    console.log('[Migration] Created isActive/nextRunAt index on schedules');
+
+    await migrationHelpers.createCollection(db, 'schedule_runs');
+    await migrationHelpers.ensureIndex(db, 'schedule_runs', { scheduleId: 1, scheduledFor: -1 });
+    await migrationHelpers.ensureIndex(db, 'schedule_runs', { startedAt: 1 }, { expireAfterSeconds: SCHEDULE_RUN_RETENTION_SECONDS });
+    console.log('[Migration] Created scheduleId and startedAt TTL indexes on schedule_runs');
+  },
+
+  async down(db: Db): Promise<void> {
+    for (const name of ['schedule_runs', 'schedules']) {
+      await db.collection(name).drop().catch(() => {
+        console.log(`[Migration] ${name} collection does not exist`);
+      });
+    }
+    console.log('[Migration] Dropped schedules and schedule_runs collections');
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * Migration: Add workflow triggers
+ *
+ * Trigger steps can start their workflow on a cron expression, a task event
+ * or an inbound webhook. Cron triggers are backed by schedules that point
+ * back at the workflow step.
+ *
+ * Indexes added:
+ * - workflows { steps.triggerConfig.eventTypes: 1 } - Event triggers matching a task event
+ * - workflows { steps.triggerConfig.webhookToken: 1 } (sparse) - Webhook trigger lookup
+ * - schedules { workflowTrigger.workflowId: 1, workflowTrigger.stepId: 1 } - Schedules behind cron triggers
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+export const migration: Migration = {
+  id: '2026-01-03-001',
+  name: 'add-workflow-triggers',
+  description: 'Add indexes for cron, event and webhook workflow triggers',
+  schemaVersion: 17,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.ensureIndex(db, 'workflows', { 'steps.triggerConfig.eventTypes': 1 });
+    await migrationHelpers.ensureIndex(db, 'workflows', { 'steps.triggerConfig.webhookToken': 1 }, { sparse: true });
+    console.log('[Migration] Created trigger indexes on workflows');
+
+    await migrationHelpers.ensureIndex(db, 'schedules', { 'workflowTrigger.workflowId': 1, 'workflowTrigger.stepId': 1 });
+    console.log('[Migration] Created workflowTrigger index on schedules');
+  },
+
+  async down(db: Db): Promise<void> {
+    for (const [collection, name] of [
+      ['workflows', 'steps.triggerConfig.eventTypes_1'],
+      ['workflows', 'steps.triggerConfig.webhookToken_1'],
+      ['schedules', 'workflowTrigger.workflowId_1_workflowTrigger.stepId_1'],
+    ]) {
+      await db.collection(collection).dropIndex(name).catch(() => {
+        console.log(`[Migration] Index ${name} does not exist on ${collection}`);
+      });
+    }
+  },
+};
@@ -0,0 +1,47 @@
+/**
+ * Migration: Add inbound endpoints
+ *
+ * Inbound endpoints (`POST /api/inbound/:slug`) turn signed requests from
+ * other systems into tasks or workflow runs. Every request is recorded in
+ * `inbound_deliveries`; a delivery holds its sender's external ID in the
+ * unique `dedupeKey` so repeats are not processed twice.
+ *
+ * Indexes added:
+ * - inbound_endpoints { slug: 1 } (unique) - Endpoint lookup by URL
+ * - inbound_deliveries { endpointId: 1, receivedAt: -1 } - An endpoint's delivery log
+ * - inbound_deliveries { dedupeKey: 1 } (unique, sparse) - Deduplicate by external ID
+ * - inbound_deliveries { receivedAt: 1 } (TTL, 30 days) - Drop old deliveries
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+const INBOUND_DELIVERY_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+export const migration: Migration = {
+  id: '2026-01-04-001',
+  name: 'add-inbound-endpoints',
+  description: 'Add inbound_endpoints and inbound_deliveries collections for signed inbound webhooks',
+  schemaVersion: 18,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.createCollection(db, 'inbound_endpoints');
+    await migrationHelpers.ensureIndex(db, 'inbound_endpoints', { slug: 1 }, { unique: true });
+    console.log('[Migration] Created slug index on inbound_endpoints');
+
+    await migrationHelpers.createCollection(db, 'inbound_deliveries');
+    await migrationHelpers.ensureIndex(db, 'inbound_deliveries', { endpointId: 1, receivedAt: -1 });
+    await migrationHelpers.ensureIndex(db, 'inbound_deliveries', { dedupeKey: 1 }, { unique: true, sparse: true });
+    await migrationHelpers.ensureIndex(db, 'inbound_deliveries', { receivedAt: 1 }, { expireAfterSeconds: INBOUND_DELIVERY_RETENTION_SECONDS });
+    console.log('[Migration] Created endpointId, dedupeKey and receivedAt TTL indexes on inbound_deliveries');
+  },
+
+  async down(db: Db): Promise<void> {
+    for (const name of ['inbound_deliveries', 'inbound_endpoints']) {
+      await db.collection(name).drop().catch(() => {
+        console.log(`[Migration] ${name} collection does not exist`);
+      });
+    }
+    console.log('[Migration] Dropped inbound_endpoints and inbound_deliveries collections');
+  },
+};
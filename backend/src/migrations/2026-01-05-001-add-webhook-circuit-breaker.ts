@@ -0,0 +1,74 @@
+/**
+ * Migration: Add webhook circuit breaker
+ *
+ * Webhooks track consecutive failed deliveries and open a circuit once
+ * `failureThreshold` is reached. Open circuits are probed on a schedule, and
+ * the deliveries dead-lettered meanwhile are listed by status for replay.
+ *
+ * Existing webhooks start closed with no failures. The `webhook-alert` tag
+ * put on alert tasks is created, as task tags must exist.
+ *
+ * Indexes added:
+ * - webhooks { circuitState: 1, nextProbeAt: 1 } - Find open circuits due for a probe
+ * - webhook_deliveries { status: 1, createdAt: -1 } - Dead-letter (failed) delivery listing
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+import { WEBHOOK_ALERT_TAG } from '../services/webhook-service.js';
+
+export const migration: Migration = {
+  id: '2026-01-05-001',
+  name: 'add-webhook-circuit-breaker',
+  description: 'Add circuit breaker state to webhooks and indexes for probes and dead-lettered deliveries',
+  schemaVersion: 19,
+
+  async up(db: Db): Promise<void> {
+    const result = await db.collection('webhooks').updateMany(
+      { circuitState: { $exists: false } },
+      { $set: { circuitState: 'closed', consecutiveFailures: 0 } }
+    );
+    console.log(`[Migration] Initialized circuit state on ${result.modifiedCount} webhooks`);
+
+    const now = new Date();
+    await db.collection('tags').updateOne(
+      { name: WEBHOOK_ALERT_TAG.name },
+      { $setOnInsert: { ...WEBHOOK_ALERT_TAG, isActive: true, createdById: null, createdAt: now, updatedAt: now } },
+      { upsert: true }
+    );
+    console.log(`[Migration] Ensured the ${WEBHOOK_ALERT_TAG.name} tag exists`);
+
+    await migrationHelpers.ensureIndex(db, 'webhooks', { circuitState: 1, nextProbeAt: 1 });
+    console.log('[Migration] Created circuitState/nextProbeAt index on webhooks');
+
+    await migrationHelpers.ensureIndex(db, 'webhook_deliveries', { status: 1, createdAt: -1 });
+    console.log('[Migration] Created status/createdAt index on webhook_deliveries');
+  },
+
+  async down(db: Db): Promise<void> {
+    for (const [collection, name] of [
+      ['webhooks', 'circuitState_1_nextProbeAt_1'],
+      ['webhook_deliveries', 'status_1_createdAt_-1'],
+    ]) {
+      await db.collection(collection).dropIndex(name).catch(() => {
+        console.log(`[Migration] Index ${name} does not exist on ${collection}`);
+      });
+    }
+    await db.collection('webhooks').updateMany(
+      {},
+      {
+        $unset: {
+          failureThreshold: '',
+          consecutiveFailures: '',
+          circuitState: '',
+          circuitOpenedAt: '',
+          nextProbeAt: '',
+          probeFailures: '',
+          lastError: '',
+          alertTaskId: '',
+        },
+      }
+    );
+    console.log('[Migration] Removed webhook circuit breaker state and indexes');
+  },
+};
@@ -0,0 +1,39 @@
+/**
+ * Migration: Add notifications
+ *
+ * In-app notifications raised from task, workflow run and batch job events
+ * for the users they concern. Each user's subscriptions live in
+ * `users.preferences.notifications`, so no user data changes here.
+ *
+ * Indexes added:
+ * - notifications { userId: 1, createdAt: -1 } - A user's inbox
+ * - notifications { userId: 1, readAt: 1 } - Unread counts
+ * - notifications { createdAt: 1 } (TTL, 90 days) - Drop old notifications
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+const NOTIFICATION_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+export const migration: Migration = {
+  id: '2026-01-06-001',
+  name: 'add-notifications',
+  description: 'Add notifications collection for the in-app notification center',
+  schemaVersion: 20,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.createCollection(db, 'notifications');
+    await migrationHelpers.ensureIndex(db, 'notifications', { userId: 1, createdAt: -1 });
+    await migrationHelpers.ensureIndex(db, 'notifications', { userId: 1, readAt: 1 });
+    await migrationHelpers.ensureIndex(db, 'notifications', { createdAt: 1 }, { expireAfterSeconds: NOTIFICATION_RETENTION_SECONDS });
+    console.log('[Migration] Created userId/createdAt, userId/readAt and createdAt TTL indexes on notifications');
+  },
+
+  async down(db: Db): Promise<void> {
+    await db.collection('notifications').drop().catch(() => {
+      console.log('[Migration] notifications collection does not exist');
+    });
+    console.log('[Migration] Dropped notifications collection');
+  },
+};
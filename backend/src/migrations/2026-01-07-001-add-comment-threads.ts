@@ -0,0 +1,37 @@
+/**
+ * Migration: Add comment threads and mentions
+ *
+ * Comments (task.comment.added entries in activity_logs) gain a `parentId`
+ * for replies, the `mentions` they resolve to, and an edit history. The
+ * fields are optional, so existing comments stay flat top-level comments.
+ *
+ * Indexes added:
+ * - activity_logs { parentId: 1 } - Replies in a thread
+ * - activity_logs { mentions: 1, timestamp: -1 } - Comments that mention a user
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+export const migration: Migration = {
+  id: '2026-01-07-001',
+  name: 'add-comment-threads',
+  description: 'Add indexes for threaded comment replies and @mentions',
+  schemaVersion: 21,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.ensureIndex(db, 'activity_logs', { parentId: 1 }, { sparse: true });
+    await migrationHelpers.ensureIndex(db, 'activity_logs', { mentions: 1, timestamp: -1 });
+    console.log('[Migration] Created parentId and mentions/timestamp indexes on activity_logs');
+  },
+
+  async down(db: Db): Promise<void> {
+    const activityLogs = db.collection('activity_logs');
+    for (const name of ['parentId_1', 'mentions_1_timestamp_-1']) {
+      await activityLogs.dropIndex(name).catch(() => {
+        console.log(`[Migration] Index ${name} does not exist`);
+      });
+    }
+    console.log('[Migration] Dropped comment thread indexes');
+  },
+};
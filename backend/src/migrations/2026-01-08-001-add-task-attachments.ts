@@ -0,0 +1,95 @@
+/**
+ * Migration: Add task attachments
+ *
+ * Files attached to tasks. The bytes live in the attachment storage driver
+ * (local disk or S3-compatible); the attachments collection holds the
+ * records. Also allows the task.attachment.added / task.attachment.deleted
+ * events in activity_logs.
+ *
+ * Indexes added:
+ * - attachments { taskId: 1, createdAt: -1 } - A task's attachments, newest first
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+const ACTIVITY_LOGS_VALIDATOR = {
+  $jsonSchema: {
+    bsonType: 'object',
+    required: ['taskId', 'eventType', 'actorType', 'timestamp'],
+    properties: {
+      taskId: {
+        bsonType: 'objectId',
+        description: 'Task this activity relates to - required',
+      },
+      eventType: {
+        bsonType: 'string',
+        enum: [
+          'task.created',
+          'task.updated',
+          'task.deleted',
+          'task.status.changed',
+          'task.assignee.changed',
+          'task.priority.changed',
+          'task.metadata.changed',
+          'task.moved',
+          'task.comment.added',
+          'task.attachment.added',
+          'task.attachment.deleted',
+          'task.blocked',
+          'task.unblocked',
+        ],
+        description: 'Type of event',
+      },
+      actorId: {
+        bsonType: ['objectId', 'null'],
+        description: 'User or system that triggered the event',
+      },
+      actorType: {
+        bsonType: 'string',
+        enum: ['user', 'system', 'daemon'],
+        description: 'Type of actor',
+      },
+      changes: {
+        bsonType: ['array', 'null'],
+        description: 'Field changes made',
+      },
+      comment: {
+        bsonType: ['string', 'null'],
+        description: 'Optional comment or note',
+      },
+      timestamp: {
+        bsonType: 'date',
+        description: 'When the event occurred',
+      },
+      metadata: {
+        bsonType: ['object', 'null'],
+        description: 'Additional event metadata',
+      },
+    },
+  },
+};
+
+export const migration: Migration = {
+  id: '2026-01-08-001',
+  name: 'add-task-attachments',
+  description: 'Add attachments collection and allow attachment activity events',
+  schemaVersion: 22,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.createCollection(db, 'attachments');
+    await migrationHelpers.ensureIndex(db, 'attachments', { taskId: 1, createdAt: -1 });
+    console.log('[Migration] Created taskId/createdAt index on attachments');
+
+    await migrationHelpers.updateValidator(db, 'activity_logs', ACTIVITY_LOGS_VALIDATOR);
+    console.log('[Migration] Updated activity_logs validator with task.attachment.added/task.attachment.deleted');
+  },
+
+  async down(db: Db): Promise<void> {
+    // Files in attachment storage are left in place
+    await db.collection('attachments').drop().catch(() => {
+      console.log('[Migration] attachments collection does not exist');
+    });
+    console.log('[Migration] Dropped attachments collection');
+  },
+};
@@ -0,0 +1,36 @@
+/**
+ * Migration: Add activity log retention
+ *
+ * Expired entries are now archived and deleted by event type and age, and
+ * can be exported by time range and actor. No documents change.
+ *
+ * Indexes added:
+ * - activity_logs { eventType: 1, timestamp: 1 } - Expired entries per event type
+ * - activity_logs { actorId: 1, timestamp: 1 } - Exports for one actor
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+export const migration: Migration = {
+  id: '2026-01-09-001',
+  name: 'add-activity-log-retention',
+  description: 'Add indexes for activity log retention and export',
+  schemaVersion: 23,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.ensureIndex(db, 'activity_logs', { eventType: 1, timestamp: 1 });
+    await migrationHelpers.ensureIndex(db, 'activity_logs', { actorId: 1, timestamp: 1 });
+    console.log('[Migration] Created eventType/timestamp and actorId/timestamp indexes on activity_logs');
+  },
+
+  async down(db: Db): Promise<void> {
+    const activityLogs = db.collection('activity_logs');
+    for (const name of ['eventType_1_timestamp_1', 'actorId_1_timestamp_1']) {
+      await activityLogs.dropIndex(name).catch(() => {
+        console.log(`[Migration] Index ${name} does not exist`);
+      });
+    }
+    console.log('[Migration] Dropped activity log retention indexes');
+  },
+};
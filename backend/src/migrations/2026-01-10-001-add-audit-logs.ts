@@ -0,0 +1,37 @@
+/**
+ * Migration: Add audit logs
+ *
+ * Changes to configuration entities - workflows, views, field configs,
+ * lookups, webhooks, users, teams, tags and API keys - with who made them
+ * and the fields they changed. Task changes stay in activity_logs.
+ *
+ * Indexes added:
+ * - audit_logs { entityType: 1, entityId: 1, timestamp: -1 } - An entity's history
+ * - audit_logs { entityType: 1, timestamp: -1 } - Recent changes by entity type
+ * - audit_logs { actorId: 1, timestamp: -1 } - Changes made by a user
+ */
+
+import { Db } from 'mongodb';
+import { Migration, migrationHelpers } from './runner.js';
+
+export const migration: Migration = {
+  id: '2026-01-10-001',
+  name: 'add-audit-logs',
+  description: 'Add audit_logs collection for changes to workflows, settings, users and API keys',
+  schemaVersion: 24,
+
+  async up(db: Db): Promise<void> {
+    await migrationHelpers.createCollection(db, 'audit_logs');
+    await migrationHelpers.ensureIndex(db, 'audit_logs', { entityType: 1, entityId: 1, timestamp: -1 });
+    await migrationHelpers.ensureIndex(db, 'audit_logs', { entityType: 1, timestamp: -1 });
+    await migrationHelpers.ensureIndex(db, 'audit_logs', { actorId: 1, timestamp: -1 });
+    console.log('[Migration] Created entity, entityType/timestamp and actorId/timestamp indexes on audit_logs');
+  },
+
+  async down(db: Db): Promise<void> {
+    await db.collection('audit_logs').drop().catch(() => {
+      console.log('[Migration] audit_logs collection does not exist');
+    });
+    console.log('[Migration] Dropped audit_logs collection');
+  },
+};
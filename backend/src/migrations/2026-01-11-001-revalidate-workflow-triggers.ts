@@ -0,0 +1,65 @@
+/**
+ * Migration: Revalidate workflow triggers
+ *
+ * Cron run times used to be calculated wrongly after a 23-hour DST day, and
+ * condition regexes are now checked for catastrophic backtracking. This
+ * replans every active schedule whose next run is still in the future
+ * (cron triggers included) and lists the decision and event trigger
+ * conditions that no longer validate - those never match until the
+ * workflow is fixed and saved again. Due runs are left for the checker.
+ */
+
+import { Db } from 'mongodb';
+import { Migration } from './runner.js';
+import { nextCronRun } from '../services/cron-expression.js';
+import { validateCondition } from '../services/condition-evaluator.js';
+import { Schedule, Workflow } from '../types/index.js';
+
+export const migration: Migration = {
+  id: '2026-01-11-001',
+  name: 'revalidate-workflow-triggers',
+  description: 'Replan future schedule runs and report conditions that no longer validate',
+  schemaVersion: 25,
+
+  async up(db: Db): Promise<void> {
+    const now = new Date();
+    const schedules = db.collection<Schedule>('schedules');
+    let replanned = 0;
+
+    for await (const schedule of schedules.find({ isActive: true, nextRunAt: { $gt: now } })) {
+      const nextRunAt = nextCronRun(schedule.cronExpression, now, schedule.timezone);
+      if (nextRunAt?.getTime() === schedule.nextRunAt?.getTime()) continue;
+
+      // Leave the schedule alone if the checker claimed it meanwhile
+      const result = await schedules.updateOne(
+        { _id: schedule._id, nextRunAt: schedule.nextRunAt },
+        { $set: { nextRunAt } }
+      );
+      replanned += result.modifiedCount;
+    }
+    console.log(`[Migration] Replanned the next run of ${replanned} schedules`);
+
+    let invalid = 0;
+    for await (const workflow of db.collection<Workflow>('workflows').find({})) {
+      for (const step of workflow.steps || []) {
+        const conditions = step.stepType === 'decision'
+          ? (step.connections || []).map((conn) => conn.condition)
+          : [step.triggerConfig?.condition];
+
+        for (const condition of conditions) {
+          const error = condition ? validateCondition(condition) : null;
+          if (error) {
+            invalid++;
+            console.warn(`[Migration] Workflow "${workflow.name}" (${workflow._id}) step "${step.id}": ${error}`);
+          }
+        }
+      }
+    }
+    console.log(`[Migration] Found ${invalid} conditions that no longer validate`);
+  },
+
+  async down(_db: Db): Promise<void> {
+    // Replanned run times are the correct ones, so there is nothing to undo
+    console.log('[Migration] Rolling back - no changes to revert');
+  },
+};
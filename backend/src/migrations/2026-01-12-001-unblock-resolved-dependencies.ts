@@ -0,0 +1,45 @@
+/**
+ * Migration: Unblock resolved dependencies
+ *
+ * Cancelled and archived blockers now count as resolved, like completed
+ * ones (or whatever TASK_DEPENDENCY_RESOLVED_STATUSES lists). Tasks that were
+ * only held up by such blockers are unblocked here; from now on
+ * TaskDependencyService does it as blockers change status.
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import { Migration } from './runner.js';
+import { taskDependencyService } from '../services/task-dependency-service.js';
+
+export const migration: Migration = {
+  id: '2026-01-12-001',
+  name: 'unblock-resolved-dependencies',
+  description: 'Unblock tasks whose blockers are all completed, cancelled or archived',
+  schemaVersion: 26,
+
+  async up(db: Db): Promise<void> {
+    const tasks = db.collection('tasks');
+    // The same statuses the service uses, TASK_DEPENDENCY_RESOLVED_STATUSES included
+    const resolved = taskDependencyService.getResolvedStatuses();
+    let unblocked = 0;
+
+    for await (const task of tasks.find({ isBlocked: true }).project<{ _id: ObjectId; blockedBy?: ObjectId[] }>({ blockedBy: 1 })) {
+      const openBlockers = task.blockedBy?.length
+        ? await tasks.countDocuments({ _id: { $in: task.blockedBy }, status: { $nin: resolved } })
+        : 0;
+      if (openBlockers > 0) continue;
+
+      const result = await tasks.updateOne(
+        { _id: task._id, isBlocked: true },
+        { $set: { isBlocked: false, updatedAt: new Date() }, $inc: { revision: 1 } }
+      );
+      unblocked += result.modifiedCount;
+    }
+    console.log(`[Migration] Unblocked ${unblocked} tasks whose blockers are all resolved`);
+  },
+
+  async down(_db: Db): Promise<void> {
+    // Re-blocking tasks that may have moved on since would do more harm than good
+    console.log('[Migration] Rolling back - no changes to revert');
+  },
+};
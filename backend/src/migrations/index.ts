@@ -22,6 +22,24 @@ import { migration as removeAdditionalInfo } from './2024-12-24-001-remove-addit
 import { migration as addWaitingStatusLookup } from './2024-12-24-002-add-waiting-status-lookup.js';
 import { migration as addUnassignedView } from './2024-12-24-003-add-unassigned-view.js';
 import { migration as addTaskSortIndexes } from './2025-12-25-001-add-task-sort-indexes.js';
+import { migration as addWorkflowRevisions } from './2025-12-26-001-add-workflow-revisions.js';
+import { migration as addTaskTimeoutIndex } from './2025-12-27-001-add-task-timeout-index.js';
+import { migration as addEventOutbox } from './2025-12-28-001-add-event-outbox.js';
+import { migration as addExternalJobLeases } from './2025-12-29-001-add-external-job-leases.js';
+import { migration as addBulkOperations } from './2025-12-30-001-add-bulk-operations.js';
+import { migration as addTaskRevisions } from './2025-12-31-001-add-task-revisions.js';
+import { migration as addTaskDependencies } from './2026-01-01-001-add-task-dependencies.js';
+import { migration as addSchedules } from './2026-01-02-001-add-schedules.js';
+import { migration as addWorkflowTriggers } from './2026-01-03-001-add-workflow-triggers.js';
+import { migration as addInboundEndpoints } from './2026-01-04-001-add-inbound-endpoints.js';
+import { migration as addWebhookCircuitBreaker } from './2026-01-05-001-add-webhook-circuit-breaker.js';
+import { migration as addNotifications } from './2026-01-06-001-add-notifications.js';
+import { migration as addCommentThreads } from './2026-01-07-001-add-comment-threads.js';
+import { migration as addTaskAttachments } from './2026-01-08-001-add-task-attachments.js';
+import { migration as addActivityLogRetention } from './2026-01-09-001-add-activity-log-retention.js';
+import { migration as addAuditLogs } from './2026-01-10-001-add-audit-logs.js';
+import { migration as revalidateWorkflowTriggers } from './2026-01-11-001-revalidate-workflow-triggers.js';
+import { migration as unblockResolvedDependencies } from './2026-01-12-001-unblock-resolved-dependencies.js';
 
 // Register all migrations in order
 export const migrations: Migration[] = [
@@ -39,4 +57,22 @@ export const migrations: Migration[] = [
   addWaitingStatusLookup,
   addUnassignedView,
   addTaskSortIndexes,
+  addWorkflowRevisions,
+  addTaskTimeoutIndex,
+  addEventOutbox,
+  addExternalJobLeases,
+  addBulkOperations,
+  addTaskRevisions,
+  addTaskDependencies,
+  addSchedules,
+  addWorkflowTriggers,
+  addInboundEndpoints,
+  addWebhookCircuitBreaker,
+  addNotifications,
+  addCommentThreads,
+  addTaskAttachments,
+  addActivityLogRetention,
+  addAuditLogs,
+  revalidateWorkflowTriggers,
+  unblockResolvedDependencies,
 ];
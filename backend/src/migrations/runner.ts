@@ -265,7 +265,7 @@ export const migrationHelpers = {
     db: Db,
     collectionName: string,
     keys: Record<string, 1 | -1 | 'text'>,
-    options?: { unique?: boolean; sparse?: boolean; name?: string }
+    options?: { unique?: boolean; sparse?: boolean; name?: string; expireAfterSeconds?: number }
   ): Promise<void> {
     const collection = db.collection(collectionName);
     try {
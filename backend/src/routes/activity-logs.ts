@@ -1,7 +1,11 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { ObjectId } from 'mongodb';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { createError } from '../middleware/error-handler.js';
 import { activityLogService } from '../services/activity-log.js';
+import { activityLogRetentionService } from '../services/activity-log-retention.js';
+import { ActivityLogEntry } from '../types/index.js';
 
 export const activityLogsRouter = Router();
 
@@ -13,6 +17,21 @@ function toObjectId(id: string): ObjectId {
   return new ObjectId(id);
 }
 
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? toObjectId(req.user.userId) : null;
+}
+
+function toDate(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value as string);
+  if (Number.isNaN(date.getTime())) {
+    throw createError(`${name} must be an ISO 8601 date`, 400);
+  }
+  return date;
+}
+
+const EXPORT_BATCH_SIZE = 500;
+
 // GET /api/activity-logs/task/:taskId - Get activity for a specific task
 activityLogsRouter.get(
   '/task/:taskId',
@@ -82,13 +101,46 @@ activityLogsRouter.get(
   }
 );
 
-// POST /api/activity-logs/task/:taskId/comments - Add a comment to a task
+// GET /api/activity-logs/mentions - Comments that @mention a user (the caller by default)
+activityLogsRouter.get(
+  '/mentions',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { userId: userIdStr, limit = '50', offset = '0' } = req.query;
+      const userId = userIdStr
+        ? toObjectId(userIdStr as string)
+        : getActorId(req);
+
+      if (!userId) {
+        throw createError('userId is required', 400);
+      }
+
+      const result = await activityLogService.getMentions(userId, {
+        limit: parseInt(limit as string, 10),
+        offset: parseInt(offset as string, 10),
+      });
+
+      res.json({
+        data: result.data,
+        pagination: {
+          limit: parseInt(limit as string, 10),
+          offset: parseInt(offset as string, 10),
+          total: result.total,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/activity-logs/task/:taskId/comments - Add a comment (or a reply) to a task
 activityLogsRouter.post(
   '/task/:taskId/comments',
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const taskId = toObjectId(req.params.taskId);
-      const { comment, actorId: actorIdStr, actorType = 'user' } = req.body;
+      const { comment, actorId: actorIdStr, actorType = 'user', parentId } = req.body;
 
       if (!comment || typeof comment !== 'string' || comment.trim().length === 0) {
         throw createError('Comment is required', 400);
@@ -97,22 +149,170 @@ activityLogsRouter.post(
       // Get actor from request body, or fall back to authenticated user
       const actorId = actorIdStr
         ? toObjectId(actorIdStr)
-        : req.user?.userId
-          ? toObjectId(req.user.userId)
-          : null;
+        : getActorId(req);
 
       const entry = await activityLogService.addComment(
         taskId,
         comment.trim(),
         actorId,
-        actorType as 'user' | 'system' | 'daemon'
+        actorType as 'user' | 'system' | 'daemon',
+        { parentId: parentId ? toObjectId(parentId) : null }
       );
 
-      if (!entry) {
-        throw createError('Failed to add comment', 500);
+      res.status(201).json({ data: entry });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/activity-logs/task/:taskId/comments/:commentId - Edit a comment
+activityLogsRouter.patch(
+  '/task/:taskId/comments/:commentId',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const taskId = toObjectId(req.params.taskId);
+      const commentId = toObjectId(req.params.commentId);
+      const { comment } = req.body;
+
+      if (!comment || typeof comment !== 'string' || comment.trim().length === 0) {
+        throw createError('Comment is required', 400);
       }
 
-      res.status(201).json({ data: entry });
+      const entry = await activityLogService.editComment(
+        taskId,
+        commentId,
+        comment.trim(),
+        getActorId(req)
+      );
+
+      res.json({ data: entry });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/activity-logs/task/:taskId/comments/:commentId - Delete a comment
+activityLogsRouter.delete(
+  '/task/:taskId/comments/:commentId',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const taskId = toObjectId(req.params.taskId);
+      const commentId = toObjectId(req.params.commentId);
+
+      await activityLogService.deleteComment(
+        taskId,
+        commentId,
+        getActorId(req),
+        'user',
+        { moderator: req.user?.role === 'admin' }
+      );
+
+      res.json({ success: true, message: 'Comment deleted' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/activity-logs/export - Stream entries for audits (?from=&to=&actorId=&eventTypes=&taskId=&format=ndjson|json)
+activityLogsRouter.get(
+  '/export',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { from, to, actorId, eventTypes, taskId, format = 'ndjson' } = req.query;
+
+      if (format !== 'ndjson' && format !== 'json') {
+        throw createError('format must be ndjson or json', 400);
+      }
+
+      const fromDate = toDate(from, 'from');
+      const toDateValue = toDate(to, 'to');
+      if (fromDate && toDateValue && fromDate >= toDateValue) {
+        throw createError('from must be before to', 400);
+      }
+
+      const cursor = activityLogRetentionService.exportCursor({
+        from: fromDate,
+        to: toDateValue,
+        actorId: actorId ? toObjectId(actorId as string) : undefined,
+        eventTypes: eventTypes
+          ? (Array.isArray(eventTypes) ? eventTypes : [eventTypes]) as string[]
+          : undefined,
+        taskId: taskId ? toObjectId(taskId as string) : undefined,
+      });
+
+      const json = format === 'json';
+      const filename = `activity-logs-${new Date().toISOString().slice(0, 10)}.${json ? 'json' : 'ndjson'}`;
+      res.setHeader('Content-Type', json ? 'application/json' : 'application/x-ndjson');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+      let count = 0;
+      async function* render(batch: ActivityLogEntry[]): AsyncGenerator<string> {
+        for (const entry of await activityLogService.populateActors(batch)) {
+          yield json ? `${count > 0 ? ',\n' : ''}${JSON.stringify(entry)}` : `${JSON.stringify(entry)}\n`;
+          count++;
+        }
+      }
+      async function* lines(): AsyncGenerator<string> {
+        if (json) yield '[\n';
+        let batch: ActivityLogEntry[] = [];
+        for await (const entry of cursor) {
+          batch.push(entry);
+          if (batch.length >= EXPORT_BATCH_SIZE) {
+            yield* render(batch);
+            batch = [];
+          }
+        }
+        yield* render(batch);
+        if (json) yield '\n]\n';
+      }
+
+      // pipeline waits for a slow client to drain and stops reading when it goes away
+      try {
+        await pipeline(Readable.from(lines()), res);
+      } catch (error) {
+        // Headers are gone, so the client can only see a truncated download
+        if ((error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+          console.error('[ActivityLogs] Export failed:', error);
+        }
+      } finally {
+        await cursor.close().catch(() => undefined);
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/activity-logs/retention - Retention policy and the last archive run
+activityLogsRouter.get(
+  '/retention',
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { archiveDir: _archiveDir, ...policy } = activityLogRetentionService.getPolicy();
+      res.json({ data: { policy, lastRun: activityLogRetentionService.getLastRun() } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/activity-logs/retention/run - Archive and delete expired entries now
+activityLogsRouter.post(
+  '/retention/run',
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const run = await activityLogRetentionService.run();
+      if (!run) {
+        throw createError('A retention run is already in progress', 409);
+      }
+      res.json({
+        success: true,
+        message: `Archived ${run.archived} activity logs`,
+        data: run,
+      });
     } catch (error) {
       next(error);
     }
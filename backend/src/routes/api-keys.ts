@@ -3,6 +3,7 @@ import { ObjectId } from 'mongodb';
 import crypto from 'crypto';
 import { getDb } from '../db/connection.js';
 import { createError } from '../middleware/error-handler.js';
+import { publishAuditEvent } from '../services/event-bus.js';
 
 export const apiKeysRouter = Router();
 
@@ -22,6 +23,10 @@ export interface ApiKey {
   isActive: boolean;
 }
 
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? new ObjectId(req.user.userId) : null;
+}
+
 // Generate a secure random API key
 function generateApiKey(): string {
   const prefix = 'cm_ak_';
@@ -133,6 +138,13 @@ apiKeysRouter.post('/', async (req: Request, res: Response, next: NextFunction):
 
     const result = await db.collection<ApiKey>('api_keys').insertOne(newApiKey as ApiKey);
 
+    await publishAuditEvent('api-key', 'created', {
+      entityId: result.insertedId,
+      entityName: name,
+      after: newApiKey,
+      actorId: getActorId(req),
+    });
+
     // Return the full key ONLY on creation
     res.status(201).json({
       data: {
@@ -198,6 +210,17 @@ apiKeysRouter.patch('/:id', async (req: Request, res: Response, next: NextFuncti
       { returnDocument: 'after', projection: { keyHash: 0 } }
     );
 
+    if (result) {
+      const { keyHash: _keyHash, ...before } = existingKey;
+      await publishAuditEvent('api-key', 'updated', {
+        entityId: keyId,
+        entityName: result.name,
+        before,
+        after: result,
+        actorId: getActorId(req),
+      });
+    }
+
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -221,6 +244,15 @@ apiKeysRouter.delete('/:id', async (req: Request, res: Response, next: NextFunct
       { $set: { isActive: false } }
     );
 
+    // Keys are only revoked, so this is recorded as the update it is
+    await publishAuditEvent('api-key', 'updated', {
+      entityId: keyId,
+      entityName: existingKey.name,
+      before: existingKey,
+      after: { ...existingKey, isActive: false },
+      actorId: getActorId(req),
+    });
+
     res.json({ success: true, message: 'API key revoked' });
   } catch (error) {
     next(error);
@@ -252,6 +284,15 @@ apiKeysRouter.post('/:id/regenerate', async (req: Request, res: Response, next:
       .collection<ApiKey>('api_keys')
       .findOne({ _id: keyId }, { projection: { keyHash: 0 } });
 
+    await publishAuditEvent('api-key', 'updated', {
+      entityId: keyId,
+      entityName: existingKey.name,
+      before: existingKey,
+      after: { ...existingKey, keyHash, keyPrefix, lastUsedAt: null },
+      actorId: getActorId(req),
+      metadata: { regenerated: true },
+    });
+
     res.json({
       data: {
         ...updated,
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ObjectId } from 'mongodb';
+import { createMemoryDb, MemoryDb } from '../test-utils/memory-db.js';
+import { errorHandler } from '../middleware/error-handler.js';
+import { attachmentsRouter } from './attachments.js';
+
+let memory: MemoryDb;
+
+// Limits are read when the attachment service is created
+vi.hoisted(() => {
+  process.env.ATTACHMENT_MAX_BYTES = '16';
+  process.env.ATTACHMENT_ALLOWED_TYPES = 'text/plain';
+  process.env.ATTACHMENT_STORAGE = 'local';
+});
+
+vi.mock('../db/connection.js', () => ({ getDb: () => memory.asDb() }));
+vi.mock('../services/event-bus.js', () => ({ publishTaskEvent: vi.fn() }));
+
+describe('POST /api/tasks/:id/attachments', () => {
+  const taskId = new ObjectId();
+  let root: string;
+  let server: Server;
+  let baseUrl: string;
+
+  const upload = (query: string, body: string | ReadableStream, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/api/tasks/${taskId}/attachments${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain', ...headers },
+      body,
+      duplex: 'half',
+    } as RequestInit);
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'attachments-'));
+    process.env.ATTACHMENT_DIR = root;
+
+    const app = express();
+    app.use('/api/tasks/:id/attachments', attachmentsRouter);
+    app.use(errorHandler);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await rm(root, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    memory = createMemoryDb();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await memory.collection('tasks').insertOne({ _id: taskId, title: 'Build' });
+  });
+
+  it('keeps only the base name of the file name', async () => {
+    const res = await upload('?filename=' + encodeURIComponent('..\\..\\etc/passwd'), 'hello');
+
+    expect(res.status).toBe(201);
+    const [attachment] = memory.collection('attachments').docs;
+    expect(attachment.filename).toBe('passwd');
+    expect(attachment.storageKey).toBe(`${taskId}/${attachment._id}`);
+  });
+
+  it('rejects missing and empty file names', async () => {
+    expect((await upload('', 'hello')).status).toBe(400);
+    expect((await upload('?filename=..', 'hello')).status).toBe(400);
+  });
+
+  it('rejects a body over the limit by its Content-Length', async () => {
+    expect((await upload('?filename=big.txt', 'x'.repeat(17))).status).toBe(413);
+    expect(memory.collection('attachments').docs).toHaveLength(0);
+  });
+
+  it('rejects a chunked body once it passes the limit', async () => {
+    const chunks = new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < 4; i++) controller.enqueue(new TextEncoder().encode('x'.repeat(8)));
+        controller.close();
+      },
+    });
+
+    expect((await upload('?filename=big.txt', chunks)).status).toBe(413);
+    expect(memory.collection('attachments').docs).toHaveLength(0);
+  });
+
+  it('rejects types that are not allowed before reading the body', async () => {
+    const res = await upload('?filename=page.html', '<script></script>', { 'Content-Type': 'text/html' });
+
+    expect(res.status).toBe(415);
+  });
+});
@@ -0,0 +1,153 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import path from 'path';
+import { createError } from '../middleware/error-handler.js';
+import { attachmentService } from '../services/attachment-service.js';
+
+// Mounted by the tasks router at /api/tasks/:id/attachments
+export const attachmentsRouter = Router({ mergeParams: true });
+
+// Helper to parse ObjectId safely
+function toObjectId(id: string): ObjectId {
+  if (!ObjectId.isValid(id)) {
+    throw createError('Invalid ID format', 400);
+  }
+  return new ObjectId(id);
+}
+
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? toObjectId(req.user.userId) : null;
+}
+
+// File name from ?filename= or X-Filename (URL-encoded), without any path
+function getFilename(req: Request): string {
+  const raw = (req.query.filename as string | undefined) ?? req.header('X-Filename');
+  if (!raw) {
+    throw createError('filename query parameter or X-Filename header is required', 400);
+  }
+
+  let decoded = raw;
+  try {
+    decoded = decodeURIComponent(raw);
+  } catch {
+    // Use the name as sent
+  }
+
+  // eslint-disable-next-line no-control-regex
+  const filename = path.basename(decoded.replace(/\\/g, '/')).replace(/[\x00-\x1f\x7f"]/g, '').trim().slice(0, 255);
+  if (!filename || filename === '.' || filename === '..') {
+    throw createError('Invalid filename', 400);
+  }
+  return filename;
+}
+
+// The raw request body, rejected as soon as it passes the size limit. The
+// JSON parser skips attachment uploads so any file type arrives intact.
+function readUpload(req: Request, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => createError(`Attachments are limited to ${maxBytes} bytes`, 413);
+
+  if (Number(req.header('Content-Length')) > maxBytes) {
+    return Promise.reject(tooLarge());
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Drain the rest so the 413 response can still be sent
+        req.off('data', onData);
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// Content-Disposition with an ASCII fallback and the UTF-8 name (RFC 6266)
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/[\\"]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+// GET /api/tasks/:id/attachments - List a task's attachments, newest first
+attachmentsRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const taskId = toObjectId(req.params.id);
+    const attachments = await attachmentService.list(taskId);
+    res.json({ data: attachments, limits: attachmentService.getLimits() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/tasks/:id/attachments?filename=report.csv - Upload a file as the raw request body
+attachmentsRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const taskId = toObjectId(req.params.id);
+    const filename = getFilename(req);
+    const contentType = (req.header('Content-Type') || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+
+    // Check the type before reading a body that would be refused anyway
+    if (!attachmentService.isAllowedType(contentType)) {
+      throw createError(`Attachments of type ${contentType} are not allowed`, 415, {
+        allowedTypes: attachmentService.getLimits().allowedTypes,
+      });
+    }
+
+    const data = await readUpload(req, attachmentService.getLimits().maxBytes);
+    const attachment = await attachmentService.upload(
+      taskId,
+      { filename, contentType, data },
+      getActorId(req)
+    );
+
+    res.status(201).json({ data: attachment });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/tasks/:id/attachments/:attachmentId/download - Download an attachment
+attachmentsRouter.get('/:attachmentId/download', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const taskId = toObjectId(req.params.id);
+    const { attachment, stream } = await attachmentService.open(taskId, toObjectId(req.params.attachmentId));
+
+    res.setHeader('Content-Type', attachment.contentType);
+    res.setHeader('Content-Length', attachment.size);
+    res.setHeader('Content-Disposition', contentDisposition(attachment.filename));
+    res.setHeader('ETag', `"${attachment.sha256}"`);
+
+    stream.on('error', (error) => {
+      console.error(`[Attachments] Error streaming ${attachment.storageKey}:`, error);
+      if (res.headersSent) {
+        res.destroy(error);
+      } else {
+        next(error);
+      }
+    });
+    stream.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/tasks/:id/attachments/:attachmentId - Delete an attachment
+attachmentsRouter.delete('/:attachmentId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const taskId = toObjectId(req.params.id);
+    await attachmentService.delete(taskId, toObjectId(req.params.attachmentId), getActorId(req));
+    res.json({ success: true, message: 'Attachment deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,64 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { createError } from '../middleware/error-handler.js';
+import { AUDIT_ENTITY_PERMISSIONS, hasPermission } from '../middleware/permissions.js';
+import { auditLogService } from '../services/audit-log.js';
+import { AuditEntityType } from '../types/index.js';
+
+export const auditLogsRouter = Router();
+
+const ENTITY_TYPES = Object.keys(AUDIT_ENTITY_PERMISSIONS) as AuditEntityType[];
+
+// Helper to parse ObjectId safely
+function toObjectId(id: string): ObjectId {
+  if (!ObjectId.isValid(id)) {
+    throw createError('Invalid ID format', 400);
+  }
+  return new ObjectId(id);
+}
+
+// GET /api/audit-logs - Changes to configuration entities, newest first
+// (?entityType=workflow&entityId=...&actorId=...)
+auditLogsRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { entityType, entityId, actorId, limit = '50', offset = '0' } = req.query;
+
+    const requested = entityType
+      ? (Array.isArray(entityType) ? entityType : [entityType]) as string[]
+      : null;
+
+    const unknown = requested?.filter((type) => !ENTITY_TYPES.includes(type as AuditEntityType));
+    if (unknown && unknown.length > 0) {
+      throw createError(`Unknown entity type: ${unknown.join(', ')}`, 400, { entityTypes: ENTITY_TYPES });
+    }
+
+    // Only the history of entities the caller can read
+    const readable = ENTITY_TYPES.filter((type) => hasPermission(req, AUDIT_ENTITY_PERMISSIONS[type]));
+    if (requested) {
+      const denied = requested.find((type) => !readable.includes(type as AuditEntityType));
+      if (denied) {
+        const permission = AUDIT_ENTITY_PERMISSIONS[denied as AuditEntityType];
+        throw createError(`Missing permission: ${permission}`, 403, { missingPermission: permission });
+      }
+    }
+
+    const result = await auditLogService.getHistory({
+      entityTypes: (requested as AuditEntityType[] | null) ?? readable,
+      entityId: entityId ? toObjectId(entityId as string) : undefined,
+      actorId: actorId ? toObjectId(actorId as string) : undefined,
+      limit: parseInt(limit as string, 10),
+      offset: parseInt(offset as string, 10),
+    });
+
+    res.json({
+      data: result.data,
+      pagination: {
+        limit: parseInt(limit as string, 10),
+        offset: parseInt(offset as string, 10),
+        total: result.total,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -3,6 +3,7 @@ import bcrypt from 'bcryptjs';
 import { z } from 'zod';
 import { getDb } from '../db/connection.js';
 import { generateToken, requireAuth } from '../middleware/auth.js';
+import { getEffectivePermissions } from '../middleware/permissions.js';
 import { ObjectId } from 'mongodb';
 
 const router = Router();
@@ -178,6 +179,16 @@ router.get('/me', requireAuth, async (req: Request, res: Response): Promise<void
   }
 });
 
+// GET /api/auth/permissions - What the caller is allowed to do, so the UI
+// can hide actions that would be rejected
+router.get('/permissions', requireAuth, (req: Request, res: Response): void => {
+  res.json({
+    role: req.user!.role,
+    permissions: getEffectivePermissions(req),
+    ...(req.apiKey && { apiKeyScopes: req.apiKey.scopes }),
+  });
+});
+
 // POST /api/auth/change-password
 router.post('/change-password', requireAuth, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -216,6 +216,7 @@ router.post('/:id/callback', async (req: Request, res: Response): Promise<void>
       success: req.body.success,
       result: req.body.result,
       error: req.body.error,
+      idempotencyKey: (req.headers['idempotency-key'] as string) || undefined,
     };
 
     // Validate required fields
@@ -234,6 +235,8 @@ router.post('/:id/callback', async (req: Request, res: Response): Promise<void>
       acknowledged: true,
       itemId: result.item._id,
       itemStatus: result.item.status,
+      transition: result.transition,
+      duplicate: result.transition === 'duplicate',
       joinSatisfied: result.joinResult !== null,
       joinResult: result.joinResult,
     });
@@ -258,6 +261,32 @@ router.post('/:id/callback', async (req: Request, res: Response): Promise<void>
   }
 });
 
+// ============================================================================
+// Reconcile Counters
+// POST /api/batch-jobs/:id/reconcile
+// ============================================================================
+router.post('/:id/reconcile', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid batch job ID' });
+      return;
+    }
+
+    const result = await batchJobService.reconcileCounters(id);
+    if (!result) {
+      res.status(404).json({ error: 'Batch job not found' });
+      return;
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('[BatchJobs] Reconcile error:', error);
+    res.status(500).json({ error: 'Failed to reconcile batch job counters' });
+  }
+});
+
 // ============================================================================
 // Get Aggregate Result
 // GET /api/batch-jobs/:id/aggregate
@@ -1,17 +1,111 @@
 import { Router, Request, Response } from 'express';
 import { eventBus } from '../services/event-bus.js';
-import { TaskEvent, WorkflowRunEvent } from '../types/index.js';
+import { NotificationEvent, TaskEvent, WorkflowRunEvent } from '../types/index.js';
 
 const router = Router();
 
 // Store active connections for management
 const activeConnections = new Set<Response>();
 
+// Maximum number of missed events replayed to a reconnecting client
+const MAX_REPLAY_EVENTS = 1000;
+
+function formatTaskEvent(event: TaskEvent) {
+  return {
+    id: event.id,
+    type: event.type,
+    taskId: event.taskId.toString(),
+    timestamp: event.timestamp,
+    changes: event.changes,
+    actorType: event.actorType,
+    // Include full task data for optimistic cache updates
+    task: event.task ? {
+      _id: event.task._id.toString(),
+      title: event.task.title,
+      summary: event.task.summary,
+      status: event.task.status,
+      urgency: event.task.urgency,
+      parentId: event.task.parentId?.toString() || null,
+      assigneeId: event.task.assigneeId?.toString() || null,
+      createdById: event.task.createdById?.toString() || null,
+      workflowId: event.task.workflowId?.toString() || null,
+      workflowRunId: event.task.workflowRunId?.toString() || null,
+      taskType: event.task.taskType,
+      batchCounters: event.task.batchCounters,
+      metadata: event.task.metadata,
+      children: (event.task as unknown as Record<string, unknown>).children || [],
+      createdAt: event.task.createdAt,
+      updatedAt: event.task.updatedAt,
+    } : undefined,
+  };
+}
+
+function formatWorkflowRunEvent(event: WorkflowRunEvent) {
+  return {
+    id: event.id,
+    type: event.type,
+    workflowRunId: event.workflowRunId.toString(),
+    timestamp: event.timestamp,
+    stepId: event.stepId,
+    taskId: event.taskId?.toString(),
+    error: event.error,
+    // Include workflow run data for cache updates
+    workflowRun: event.workflowRun ? {
+      _id: event.workflowRun._id.toString(),
+      workflowId: event.workflowRun.workflowId.toString(),
+      status: event.workflowRun.status,
+      currentStepIds: event.workflowRun.currentStepIds,
+      completedStepIds: event.workflowRun.completedStepIds,
+      failedStepId: event.workflowRun.failedStepId,
+      error: event.workflowRun.error,
+      createdAt: event.workflowRun.createdAt,
+      startedAt: event.workflowRun.startedAt,
+      completedAt: event.workflowRun.completedAt,
+    } : undefined,
+  };
+}
+
+function formatNotificationEvent(event: NotificationEvent) {
+  return {
+    id: event.id,
+    type: event.type,
+    timestamp: event.timestamp,
+    unreadCount: event.unreadCount,
+    notification: event.notification ? {
+      ...event.notification,
+      _id: event.notification._id.toString(),
+      userId: event.notification.userId.toString(),
+      taskId: event.notification.taskId?.toString() || null,
+      workflowRunId: event.notification.workflowRunId?.toString() || null,
+      batchJobId: event.notification.batchJobId?.toString() || null,
+      actorId: event.notification.actorId?.toString() || null,
+    } : undefined,
+  };
+}
+
+function isWorkflowRunEvent(event: TaskEvent | WorkflowRunEvent): event is WorkflowRunEvent {
+  return 'workflowRunId' in event;
+}
+
+/**
+ * Parse the client's last seen stream position from the Last-Event-ID
+ * header (sent by EventSource on automatic reconnects) or ?lastEventId=.
+ */
+function getLastEventId(req: Request): number | null {
+  const raw = req.header('Last-Event-ID') ?? req.query.lastEventId;
+  if (typeof raw !== 'string' || raw === '') return null;
+
+  const seq = Number(raw);
+  return Number.isInteger(seq) && seq >= 0 ? seq : null;
+}
+
 /**
  * SSE endpoint for real-time events
  * Clients connect here to receive live updates about tasks, activities, etc.
+ * Events carry their stream position as the SSE id, so a client that
+ * reconnects with Last-Event-ID receives the events it missed.
  */
-router.get('/stream', (req: Request, res: Response) => {
+router.get('/stream', async (req: Request, res: Response) => {
   // Set up SSE headers
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
@@ -33,78 +127,53 @@ router.get('/stream', (req: Request, res: Response) => {
     }
   }, 30000); // Every 30 seconds
 
-  // Subscribe to all task events from the event bus
-  const unsubscribeTask = eventBus.subscribe('*', async (event: TaskEvent) => {
+  const lastEventId = getLastEventId(req);
+  let lastSentSeq = lastEventId ?? 0;
+  // Live events are held back until missed events have been replayed
+  let pending: Array<TaskEvent | WorkflowRunEvent> | null = lastEventId !== null ? [] : null;
+
+  const send = (event: TaskEvent | WorkflowRunEvent) => {
     if (res.writableEnded) return;
+    if (event.seq !== undefined) {
+      // Already sent during replay
+      if (event.seq <= lastSentSeq) return;
+      lastSentSeq = event.seq;
+    }
 
     try {
-      // Send the event to the client
-      const eventData = {
-        id: event.id,
-        type: event.type,
-        taskId: event.taskId.toString(),
-        timestamp: event.timestamp,
-        changes: event.changes,
-        actorType: event.actorType,
-        // Include full task data for optimistic cache updates
-        task: event.task ? {
-          _id: event.task._id.toString(),
-          title: event.task.title,
-          summary: event.task.summary,
-          status: event.task.status,
-          urgency: event.task.urgency,
-          parentId: event.task.parentId?.toString() || null,
-          assigneeId: event.task.assigneeId?.toString() || null,
-          createdById: event.task.createdById?.toString() || null,
-          workflowId: event.task.workflowId?.toString() || null,
-          workflowRunId: event.task.workflowRunId?.toString() || null,
-          taskType: event.task.taskType,
-          batchCounters: event.task.batchCounters,
-          metadata: event.task.metadata,
-          children: (event.task as unknown as Record<string, unknown>).children || [],
-          createdAt: event.task.createdAt,
-          updatedAt: event.task.updatedAt,
-        } : undefined,
-      };
-
-      res.write(`event: ${event.type}\ndata: ${JSON.stringify(eventData)}\n\n`);
+      const eventData = isWorkflowRunEvent(event)
+        ? formatWorkflowRunEvent(event)
+        : formatTaskEvent(event);
+      const idLine = event.seq !== undefined ? `id: ${event.seq}\n` : '';
+
+      res.write(`${idLine}event: ${event.type}\ndata: ${JSON.stringify(eventData)}\n\n`);
     } catch (error) {
-      console.error('[SSE] Error sending task event:', error);
+      console.error(`[SSE] Error sending ${event.type} event:`, error);
     }
-  });
+  };
 
-  // Subscribe to workflow run events for real-time workflow updates
-  const unsubscribeWorkflowRun = eventBus.subscribeWorkflowRun('*', async (event: WorkflowRunEvent) => {
-    if (res.writableEnded) return;
+  const receive = (event: TaskEvent | WorkflowRunEvent) => {
+    if (pending) {
+      pending.push(event);
+    } else {
+      send(event);
+    }
+  };
+
+  // Subscribe to task and workflow run events from every process
+  const unsubscribeTask = eventBus.subscribe('*', receive, { shared: true });
+  const unsubscribeWorkflowRun = eventBus.subscribeWorkflowRun('*', receive, { shared: true });
 
+  // Notification events only go to the user they belong to. They are not
+  // replayed, so they skip the replay queue - clients refetch the unread
+  // count on reconnect.
+  const userId = req.user?.userId;
+  const unsubscribeNotifications = eventBus.subscribeNotifications((event) => {
+    if (res.writableEnded || !userId || event.userId.toString() !== userId) return;
     try {
-      // Send the workflow run event to the client
-      const eventData = {
-        id: event.id,
-        type: event.type,
-        workflowRunId: event.workflowRunId.toString(),
-        timestamp: event.timestamp,
-        stepId: event.stepId,
-        taskId: event.taskId?.toString(),
-        error: event.error,
-        // Include workflow run data for cache updates
-        workflowRun: event.workflowRun ? {
-          _id: event.workflowRun._id.toString(),
-          workflowId: event.workflowRun.workflowId.toString(),
-          status: event.workflowRun.status,
-          currentStepIds: event.workflowRun.currentStepIds,
-          completedStepIds: event.workflowRun.completedStepIds,
-          failedStepId: event.workflowRun.failedStepId,
-          error: event.workflowRun.error,
-          createdAt: event.workflowRun.createdAt,
-          startedAt: event.workflowRun.startedAt,
-          completedAt: event.workflowRun.completedAt,
-        } : undefined,
-      };
-
-      res.write(`event: ${event.type}\ndata: ${JSON.stringify(eventData)}\n\n`);
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(formatNotificationEvent(event))}\n\n`);
     } catch (error) {
-      console.error('[SSE] Error sending workflow run event:', error);
+      console.error(`[SSE] Error sending ${event.type} event:`, error);
     }
   });
 
@@ -113,6 +182,7 @@ router.get('/stream', (req: Request, res: Response) => {
     clearInterval(heartbeatInterval);
     unsubscribeTask();
     unsubscribeWorkflowRun();
+    unsubscribeNotifications();
     activeConnections.delete(res);
     console.log(`[SSE] Client disconnected. Active connections: ${activeConnections.size}`);
   };
@@ -120,6 +190,19 @@ router.get('/stream', (req: Request, res: Response) => {
   req.on('close', cleanup);
   req.on('error', cleanup);
   res.on('error', cleanup);
+
+  if (lastEventId !== null) {
+    try {
+      const missed = await eventBus.replay(lastEventId, MAX_REPLAY_EVENTS);
+      missed.forEach(send);
+    } catch (error) {
+      console.error('[SSE] Error replaying missed events:', error);
+    }
+
+    const queued = pending ?? [];
+    pending = null;
+    queued.forEach(send);
+  }
 });
 
 /**
@@ -128,7 +211,8 @@ router.get('/stream', (req: Request, res: Response) => {
 router.get('/stats', (_req: Request, res: Response) => {
   res.json({
     activeConnections: activeConnections.size,
-    eventBusListeners: eventBus.listenerCount('*'),
+    eventBusListeners: eventBus.listenerCount('*', { shared: true }),
+    transport: eventBus.getTransportStatus(),
   });
 });
 
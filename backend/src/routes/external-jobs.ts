@@ -3,9 +3,14 @@ import { ObjectId, Filter } from 'mongodb';
 import { getDb } from '../db/connection.js';
 import { createError } from '../middleware/error-handler.js';
 import { ExternalJob, ExternalJobStatus, Task } from '../types/index.js';
+import { externalJobService, resolveLeaseMs } from '../services/external-job-service.js';
 
 export const externalJobsRouter = Router();
 
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? new ObjectId(req.user.userId) : null;
+}
+
 // GET /api/external-jobs - List external jobs with filtering
 externalJobsRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -149,7 +154,8 @@ externalJobsRouter.get('/', async (req: Request, res: Response, next: NextFuncti
   }
 });
 
-// GET /api/external-jobs/pending - Get pending jobs for external worker
+// GET /api/external-jobs/pending - List pending jobs (for monitoring - workers
+// should use POST /claim-next, which claims atomically)
 externalJobsRouter.get('/pending', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const db = getDb();
@@ -243,6 +249,7 @@ externalJobsRouter.post('/', async (req: Request, res: Response, next: NextFunct
           externalJobStatus: 'pending',
           updatedAt: now,
         },
+        $inc: { revision: 1 },
       }
     );
 
@@ -256,92 +263,92 @@ externalJobsRouter.post('/', async (req: Request, res: Response, next: NextFunct
   }
 });
 
+// POST /api/external-jobs/claim-next - Atomically claim the oldest due pending job
+// Body: { type?, workerId, leaseSeconds? }. Returns { data: null } when no job is available.
+externalJobsRouter.post('/claim-next', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { type, workerId, leaseSeconds } = req.body;
+
+    if (!workerId) {
+      throw createError('workerId is required', 400);
+    }
+
+    const job = await externalJobService.claimNext(type, String(workerId), resolveLeaseMs(leaseSeconds));
+
+    res.json({ data: job });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // PUT /api/external-jobs/:id/claim - Claim a job for processing
+// Body: { workerId?, leaseSeconds? }. The lease must be renewed with heartbeats.
 externalJobsRouter.put('/:id/claim', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const db = getDb();
     const jobId = new ObjectId(req.params.id);
-    const { workerId: _workerId } = req.body;
+    const { workerId, leaseSeconds } = req.body;
 
-    const now = new Date();
-
-    // Atomically claim the job
-    const result = await db.collection<ExternalJob>('external_jobs').findOneAndUpdate(
-      {
-        _id: jobId,
-        status: 'pending',
-      },
-      {
-        $set: {
-          status: 'processing',
-          startedAt: now,
-          updatedAt: now,
-        },
-        $inc: { attempts: 1 },
-      },
-      { returnDocument: 'after' }
+    const result = await externalJobService.claim(
+      jobId,
+      workerId ? String(workerId) : null,
+      resolveLeaseMs(leaseSeconds)
     );
 
     if (!result) {
       throw createError('Job not found or already claimed', 409);
     }
 
-    // Update task status
-    await db.collection('tasks').updateOne(
-      { _id: result.taskId },
-      {
-        $set: {
-          externalJobStatus: 'processing',
-          status: 'in_progress',
-          updatedAt: now,
-        },
-      }
-    );
-
     res.json({ data: result });
   } catch (error) {
     next(error);
   }
 });
 
-// PUT /api/external-jobs/:id/complete - Mark job as completed
-externalJobsRouter.put('/:id/complete', async (req: Request, res: Response, next: NextFunction) => {
+// PUT /api/external-jobs/:id/heartbeat - Extend the lease on a claimed job
+// Body: { workerId, leaseSeconds? }. Defaults to the lease length used at claim time.
+externalJobsRouter.put('/:id/heartbeat', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const db = getDb();
     const jobId = new ObjectId(req.params.id);
-    const { result: jobResult } = req.body;
+    const { workerId, leaseSeconds } = req.body;
 
-    const now = new Date();
+    if (!workerId) {
+      throw createError('workerId is required', 400);
+    }
 
-    const result = await db.collection<ExternalJob>('external_jobs').findOneAndUpdate(
-      { _id: jobId, status: 'processing' },
-      {
-        $set: {
-          status: 'completed',
-          result: jobResult || {},
-          completedAt: now,
-          updatedAt: now,
-        },
-      },
-      { returnDocument: 'after' }
+    const result = await externalJobService.heartbeat(
+      jobId,
+      String(workerId),
+      leaseSeconds !== undefined ? resolveLeaseMs(leaseSeconds) : undefined
     );
 
     if (!result) {
-      throw createError('Job not found or not in processing state', 409);
+      throw createError('Job not found, not processing, or leased to another worker', 409);
     }
 
-    // Update task
-    await db.collection('tasks').updateOne(
-      { _id: result.taskId },
-      {
-        $set: {
-          status: 'completed',
-          completedAt: now,
-          updatedAt: now,
-        },
-      }
+    res.json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/external-jobs/:id/complete - Mark job as completed
+externalJobsRouter.put('/:id/complete', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const jobId = new ObjectId(req.params.id);
+    const { result: jobResult, workerId } = req.body;
+
+    // A worker whose lease expired must not complete a job someone else now holds
+    const result = await externalJobService.complete(
+      jobId,
+      workerId ? String(workerId) : undefined,
+      jobResult || {},
+      { actorId: getActorId(req) }
     );
 
+    if (!result) {
+      throw createError('Job not found, not in processing state, or leased to another worker', 409);
+    }
+
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -349,48 +356,32 @@ externalJobsRouter.put('/:id/complete', async (req: Request, res: Response, next
 });
 
 // PUT /api/external-jobs/:id/fail - Mark job as failed
+// Body: { workerId, error?, retryAfter? }. Returns the job to pending (after
+// retryAfter seconds) while attempts remain, otherwise fails it and its task.
 externalJobsRouter.put('/:id/fail', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const db = getDb();
     const jobId = new ObjectId(req.params.id);
-    const { error, retryAfter } = req.body;
-
-    const job = await db.collection<ExternalJob>('external_jobs').findOne({ _id: jobId });
+    const { error, retryAfter, workerId } = req.body;
 
-    if (!job) {
-      throw createError('Job not found', 404);
+    let retryAfterMs: number | null = null;
+    if (retryAfter !== undefined && retryAfter !== null) {
+      if (typeof retryAfter !== 'number' || !Number.isFinite(retryAfter) || retryAfter < 0) {
+        throw createError('retryAfter must be a non-negative number of seconds', 400);
+      }
+      retryAfterMs = Math.round(retryAfter * 1000);
     }
 
-    const now = new Date();
-    const canRetry = job.attempts < job.maxAttempts;
-
-    const newStatus: ExternalJobStatus = canRetry ? 'pending' : 'failed';
-    const scheduledFor = canRetry && retryAfter ? new Date(now.getTime() + retryAfter * 1000) : null;
-
-    const result = await db.collection<ExternalJob>('external_jobs').findOneAndUpdate(
-      { _id: jobId },
-      {
-        $set: {
-          status: newStatus,
-          error: error || 'Unknown error',
-          scheduledFor,
-          updatedAt: now,
-        },
-      },
-      { returnDocument: 'after' }
+    // A worker whose lease expired must not fail a job that was reaped or claimed again
+    const result = await externalJobService.fail(
+      jobId,
+      workerId ? String(workerId) : null,
+      error || 'Unknown error',
+      retryAfterMs,
+      { actorId: getActorId(req) }
     );
 
-    // Update task if job has finally failed
-    if (!canRetry) {
-      await db.collection('tasks').updateOne(
-        { _id: job.taskId },
-        {
-          $set: {
-            status: 'failed',
-            updatedAt: now,
-          },
-        }
-      );
+    if (!result) {
+      throw createError('Job not found, not in processing state, or leased to another worker', 409);
     }
 
     res.json({ data: result });
@@ -412,6 +403,7 @@ externalJobsRouter.put('/:id/cancel', async (req: Request, res: Response, next:
       {
         $set: {
           status: 'cancelled',
+          leaseExpiresAt: null,
           updatedAt: now,
         },
       },
@@ -423,15 +415,10 @@ externalJobsRouter.put('/:id/cancel', async (req: Request, res: Response, next:
     }
 
     // Update task
-    await db.collection('tasks').updateOne(
-      { _id: result.taskId },
-      {
-        $set: {
-          externalJobStatus: 'cancelled',
-          status: 'cancelled',
-          updatedAt: now,
-        },
-      }
+    await externalJobService.updateTask(
+      result.taskId,
+      { externalJobStatus: 'cancelled', status: 'cancelled' },
+      { actorId: getActorId(req), actorType: 'user', metadata: { externalJobId: result._id.toString() } }
     );
 
     res.json({ data: result });
@@ -2,10 +2,20 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { ObjectId } from 'mongodb';
 import { getDb } from '../db/connection.js';
 import { createError } from '../middleware/error-handler.js';
+import { publishAuditEvent } from '../services/event-bus.js';
 import { FieldConfig } from '../types/index.js';
 
 export const fieldConfigsRouter = Router();
 
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? new ObjectId(req.user.userId) : null;
+}
+
+// Field configs are named by collection and field path (tasks.status), which never change
+function fieldConfigName(config: Pick<FieldConfig, 'collectionName' | 'fieldPath'>): string {
+  return `${config.collectionName}.${config.fieldPath}`;
+}
+
 // GET /api/field-configs - Get all field configurations
 fieldConfigsRouter.get('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -142,6 +152,13 @@ fieldConfigsRouter.post('/', async (req: Request, res: Response, next: NextFunct
       .collection<FieldConfig>('field_configs')
       .findOne({ _id: result.insertedId });
 
+    await publishAuditEvent('field-config', 'created', {
+      entityId: result.insertedId,
+      entityName: fieldConfigName(newConfig),
+      after: inserted,
+      actorId: getActorId(req),
+    });
+
     res.status(201).json({ data: inserted });
   } catch (error) {
     next(error);
@@ -159,6 +176,7 @@ fieldConfigsRouter.patch('/:id', async (req: Request, res: Response, next: NextF
     delete updates.collectionName; // Shouldn't change
     delete updates.fieldPath; // Shouldn't change
 
+    const before = await db.collection<FieldConfig>('field_configs').findOne({ _id: configId });
     const result = await db.collection<FieldConfig>('field_configs').findOneAndUpdate(
       { _id: configId },
       { $set: updates },
@@ -169,6 +187,14 @@ fieldConfigsRouter.patch('/:id', async (req: Request, res: Response, next: NextF
       throw createError('Field configuration not found', 404);
     }
 
+    await publishAuditEvent('field-config', 'updated', {
+      entityId: configId,
+      entityName: fieldConfigName(result),
+      before,
+      after: result,
+      actorId: getActorId(req),
+    });
+
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -181,12 +207,19 @@ fieldConfigsRouter.delete('/:id', async (req: Request, res: Response, next: Next
     const db = getDb();
     const configId = new ObjectId(req.params.id);
 
-    const result = await db.collection('field_configs').deleteOne({ _id: configId });
+    const deleted = await db.collection<FieldConfig>('field_configs').findOneAndDelete({ _id: configId });
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       throw createError('Field configuration not found', 404);
     }
 
+    await publishAuditEvent('field-config', 'deleted', {
+      entityId: configId,
+      entityName: fieldConfigName(deleted),
+      before: deleted,
+      actorId: getActorId(req),
+    });
+
     res.json({ success: true, message: 'Field configuration deleted' });
   } catch (error) {
     next(error);
@@ -214,6 +247,11 @@ fieldConfigsRouter.put(
         })
       );
 
+      const previous = await db
+        .collection<FieldConfig>('field_configs')
+        .find({ collectionName: req.params.collection })
+        .toArray();
+
       await db.collection('field_configs').bulkWrite(bulkOps);
 
       const configs = await db
@@ -222,6 +260,18 @@ fieldConfigsRouter.put(
         .sort({ displayOrder: 1 })
         .toArray();
 
+      // An update per field config that moved
+      const previousById = new Map(previous.map((config) => [config._id.toString(), config]));
+      for (const config of configs) {
+        await publishAuditEvent('field-config', 'updated', {
+          entityId: config._id,
+          entityName: fieldConfigName(config),
+          before: previousById.get(config._id.toString()),
+          after: config,
+          actorId: getActorId(req),
+        });
+      }
+
       res.json({ data: configs });
     } catch (error) {
       next(error);
@@ -0,0 +1,127 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import { createError } from '../middleware/error-handler.js';
+import { inboundEndpointService } from '../services/inbound-endpoint-service.js';
+import { InboundEndpoint } from '../types/index.js';
+
+export const inboundEndpointsRouter = Router();
+
+// Helper to parse ObjectId safely
+function toObjectId(id: string): ObjectId {
+  if (!ObjectId.isValid(id)) {
+    throw createError('Invalid ID format', 400);
+  }
+  return new ObjectId(id);
+}
+
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? new ObjectId(req.user.userId) : null;
+}
+
+// GET /api/inbound-endpoints - List inbound endpoints
+inboundEndpointsRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { isActive, targetType } = req.query;
+
+    const filter: Record<string, unknown> = {};
+    if (isActive !== undefined) {
+      filter.isActive = isActive === 'true';
+    }
+    if (targetType) {
+      filter.targetType = targetType;
+    }
+
+    const endpoints = await getDb()
+      .collection<InboundEndpoint>('inbound_endpoints')
+      .find(filter)
+      .sort({ name: 1 })
+      .toArray();
+
+    // Hide secrets in the list
+    const sanitized = endpoints.map((endpoint) => ({
+      ...endpoint,
+      secret: endpoint.secret ? `...${endpoint.secret.slice(-4)}` : undefined,
+    }));
+
+    res.json({ data: sanitized });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/inbound-endpoints/:id - Get a single inbound endpoint with its secret
+inboundEndpointsRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const endpoint = await inboundEndpointService.getEndpoint(toObjectId(req.params.id));
+    res.json({ data: endpoint });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/inbound-endpoints - Create an inbound endpoint
+inboundEndpointsRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const endpoint = await inboundEndpointService.createEndpoint(req.body, getActorId(req));
+    res.status(201).json({ data: endpoint });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/inbound-endpoints/:id - Update an inbound endpoint
+inboundEndpointsRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const endpoint = await inboundEndpointService.updateEndpoint(toObjectId(req.params.id), req.body);
+    res.json({ data: endpoint });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/inbound-endpoints/:id - Delete an inbound endpoint and its delivery log
+inboundEndpointsRouter.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await inboundEndpointService.deleteEndpoint(toObjectId(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/inbound-endpoints/:id/rotate-secret - Rotate the signing secret
+inboundEndpointsRouter.post('/:id/rotate-secret', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const secret = await inboundEndpointService.rotateSecret(toObjectId(req.params.id));
+    res.json({ data: { secret } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/inbound-endpoints/:id/deliveries - Delivery log of an endpoint
+inboundEndpointsRouter.get('/:id/deliveries', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { limit = '50', offset = '0', status } = req.query;
+    const endpointId = toObjectId(req.params.id);
+    await inboundEndpointService.getEndpoint(endpointId);
+
+    const result = await inboundEndpointService.listDeliveries(endpointId, {
+      limit: parseInt(limit as string, 10),
+      offset: parseInt(offset as string, 10),
+      status: status as string | undefined,
+    });
+
+    res.json({
+      data: result.data,
+      pagination: {
+        limit: parseInt(limit as string, 10),
+        offset: parseInt(offset as string, 10),
+        total: result.total,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
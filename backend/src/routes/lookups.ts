@@ -2,10 +2,20 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { ObjectId } from 'mongodb';
 import { getDb } from '../db/connection.js';
 import { createError } from '../middleware/error-handler.js';
+import { publishAuditEvent } from '../services/event-bus.js';
 import { LookupValue } from '../types/index.js';
 
 export const lookupsRouter = Router();
 
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? new ObjectId(req.user.userId) : null;
+}
+
+// Lookups are named by type and code (status:in_progress), which never change
+function lookupName(lookup: Pick<LookupValue, 'type' | 'code'>): string {
+  return `${lookup.type}:${lookup.code}`;
+}
+
 // GET /api/lookups - Get all lookups grouped by type
 lookupsRouter.get('/', async (_req: Request, res: Response, next: NextFunction) => {
   try {
@@ -95,6 +105,13 @@ lookupsRouter.post('/', async (req: Request, res: Response, next: NextFunction)
     const result = await db.collection<LookupValue>('lookups').insertOne(newLookup as LookupValue);
     const inserted = await db.collection<LookupValue>('lookups').findOne({ _id: result.insertedId });
 
+    await publishAuditEvent('lookup', 'created', {
+      entityId: result.insertedId,
+      entityName: lookupName(newLookup),
+      after: inserted,
+      actorId: getActorId(req),
+    });
+
     res.status(201).json({ data: inserted });
   } catch (error) {
     next(error);
@@ -112,6 +129,7 @@ lookupsRouter.patch('/:id', async (req: Request, res: Response, next: NextFuncti
     delete updates.type; // Type shouldn't be changed
     delete updates.code; // Code shouldn't be changed
 
+    const before = await db.collection<LookupValue>('lookups').findOne({ _id: lookupId });
     const result = await db.collection<LookupValue>('lookups').findOneAndUpdate(
       { _id: lookupId },
       { $set: updates },
@@ -122,6 +140,14 @@ lookupsRouter.patch('/:id', async (req: Request, res: Response, next: NextFuncti
       throw createError('Lookup not found', 404);
     }
 
+    await publishAuditEvent('lookup', 'updated', {
+      entityId: lookupId,
+      entityName: lookupName(result),
+      before,
+      after: result,
+      actorId: getActorId(req),
+    });
+
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -137,13 +163,22 @@ lookupsRouter.delete('/:id', async (req: Request, res: Response, next: NextFunct
     const result = await db.collection<LookupValue>('lookups').findOneAndUpdate(
       { _id: lookupId },
       { $set: { isActive: false } },
-      { returnDocument: 'after' }
+      { returnDocument: 'before' }
     );
 
     if (!result) {
       throw createError('Lookup not found', 404);
     }
 
+    // Lookups are only deactivated, so this is recorded as the update it is
+    await publishAuditEvent('lookup', 'updated', {
+      entityId: lookupId,
+      entityName: lookupName(result),
+      before: result,
+      after: { ...result, isActive: false },
+      actorId: getActorId(req),
+    });
+
     res.json({ success: true, message: 'Lookup deactivated' });
   } catch (error) {
     next(error);
@@ -167,6 +202,11 @@ lookupsRouter.put('/:type/reorder', async (req: Request, res: Response, next: Ne
       },
     }));
 
+    const previous = await db
+      .collection<LookupValue>('lookups')
+      .find({ type: req.params.type })
+      .toArray();
+
     await db.collection('lookups').bulkWrite(bulkOps);
 
     const lookups = await db
@@ -175,6 +215,18 @@ lookupsRouter.put('/:type/reorder', async (req: Request, res: Response, next: Ne
       .sort({ sortOrder: 1 })
       .toArray();
 
+    // An update per lookup that moved
+    const previousById = new Map(previous.map((lookup) => [lookup._id.toString(), lookup]));
+    for (const lookup of lookups) {
+      await publishAuditEvent('lookup', 'updated', {
+        entityId: lookup._id,
+        entityName: lookupName(lookup),
+        before: previousById.get(lookup._id.toString()),
+        after: lookup,
+        actorId: getActorId(req),
+      });
+    }
+
     res.json({ data: lookups });
   } catch (error) {
     next(error);
@@ -0,0 +1,120 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { createError } from '../middleware/error-handler.js';
+import { notificationService, NOTIFICATION_TYPES } from '../services/notification-service.js';
+import { NotificationPreferences, NotificationType } from '../types/index.js';
+
+export const notificationsRouter = Router();
+
+// Helper to parse ObjectId safely
+function toObjectId(id: string): ObjectId {
+  if (!ObjectId.isValid(id)) {
+    throw createError('Invalid ID format', 400);
+  }
+  return new ObjectId(id);
+}
+
+// Every route works on the caller's own notifications
+function getUserId(req: Request): ObjectId {
+  if (!req.user?.userId || !ObjectId.isValid(req.user.userId)) {
+    throw createError('Notifications need a user account', 403);
+  }
+  return new ObjectId(req.user.userId);
+}
+
+// GET /api/notifications - List the caller's notifications, newest first
+notificationsRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const { unread, limit = '50', offset = '0' } = req.query;
+    const pageLimit = Math.min(parseInt(limit as string, 10) || 50, 200);
+    const pageOffset = parseInt(offset as string, 10) || 0;
+
+    const result = await notificationService.list(userId, {
+      unreadOnly: unread === 'true',
+      limit: pageLimit,
+      offset: pageOffset,
+    });
+
+    res.json({
+      data: result.data,
+      unreadCount: result.unreadCount,
+      pagination: {
+        limit: pageLimit,
+        offset: pageOffset,
+        total: result.total,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/notifications/unread-count - Number of unread notifications
+notificationsRouter.get('/unread-count', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const unreadCount = await notificationService.getUnreadCount(getUserId(req));
+    res.json({ data: { unreadCount } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/notifications/preferences - Which notification types the caller receives
+notificationsRouter.get('/preferences', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const preferences = await notificationService.getPreferences(getUserId(req));
+    res.json({ data: preferences });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/notifications/preferences - Switch notification types on or off
+notificationsRouter.put('/preferences', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const updates = req.body;
+
+    if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
+      throw createError('Body must map notification types to true or false', 400);
+    }
+    for (const [type, enabled] of Object.entries(updates)) {
+      if (!NOTIFICATION_TYPES.includes(type as NotificationType)) {
+        throw createError(`Unknown notification type: ${type}`, 400);
+      }
+      if (typeof enabled !== 'boolean') {
+        throw createError(`${type} must be true or false`, 400);
+      }
+    }
+
+    const preferences = await notificationService.updatePreferences(userId, updates as NotificationPreferences);
+    if (!preferences) {
+      throw createError('User not found', 404);
+    }
+
+    res.json({ data: preferences });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/notifications/read-all - Mark all of the caller's notifications read
+notificationsRouter.post('/read-all', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const unreadCount = await notificationService.markRead(getUserId(req));
+    res.json({ data: { unreadCount } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/notifications/:id/read - Mark one notification read
+notificationsRouter.post('/:id/read', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const unreadCount = await notificationService.markRead(getUserId(req), [toObjectId(req.params.id)]);
+    res.json({ data: { unreadCount } });
+  } catch (error) {
+    next(error);
+  }
+});
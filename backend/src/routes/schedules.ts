@@ -0,0 +1,163 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import { createError } from '../middleware/error-handler.js';
+import { scheduleService } from '../services/schedule-service.js';
+import { validateCron, isValidTimezone, nextCronRuns } from '../services/cron-expression.js';
+import { Schedule } from '../types/index.js';
+
+export const schedulesRouter = Router();
+
+const MAX_PREVIEW_RUNS = 20;
+
+// Helper to parse ObjectId safely
+function toObjectId(id: string): ObjectId {
+  if (!ObjectId.isValid(id)) {
+    throw createError('Invalid ID format', 400);
+  }
+  return new ObjectId(id);
+}
+
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? new ObjectId(req.user.userId) : null;
+}
+
+// GET /api/schedules - List schedules
+schedulesRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { isActive, targetType, limit = '50', offset = '0' } = req.query;
+
+    const filter: Record<string, unknown> = {};
+    if (isActive !== undefined) {
+      filter.isActive = isActive === 'true';
+    }
+    if (targetType) {
+      filter.targetType = targetType;
+    }
+
+    const db = getDb();
+    const [schedules, total] = await Promise.all([
+      db
+        .collection<Schedule>('schedules')
+        .find(filter)
+        .sort({ name: 1 })
+        .skip(parseInt(offset as string, 10))
+        .limit(parseInt(limit as string, 10))
+        .toArray(),
+      db.collection('schedules').countDocuments(filter),
+    ]);
+
+    res.json({
+      data: schedules,
+      pagination: {
+        limit: parseInt(limit as string, 10),
+        offset: parseInt(offset as string, 10),
+        total,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/schedules/preview - Next run times of a cron expression
+// NOTE: This route must come BEFORE /:id routes
+schedulesRouter.post('/preview', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { cronExpression, timezone = 'UTC', count = 5 } = req.body;
+
+    if (typeof cronExpression !== 'string') {
+      throw createError('cronExpression is required', 400);
+    }
+    const cronError = validateCron(cronExpression);
+    if (cronError) {
+      throw createError(`Invalid cron expression: ${cronError}`, 400);
+    }
+    if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+      throw createError(`Unknown timezone: ${String(timezone)}`, 400);
+    }
+
+    const runCount = Math.min(Math.max(parseInt(String(count), 10) || 5, 1), MAX_PREVIEW_RUNS);
+    res.json({ data: { nextRuns: nextCronRuns(cronExpression, new Date(), timezone, runCount) } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/schedules/:id - Get a single schedule
+schedulesRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const schedule = await scheduleService.getSchedule(toObjectId(req.params.id));
+    res.json({ data: schedule });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/schedules - Create a schedule
+schedulesRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const schedule = await scheduleService.createSchedule(req.body, getActorId(req));
+    res.status(201).json({ data: schedule });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/schedules/:id - Update a schedule
+schedulesRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const schedule = await scheduleService.updateSchedule(toObjectId(req.params.id), req.body);
+    res.json({ data: schedule });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/schedules/:id - Delete a schedule and its run history
+schedulesRouter.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const scheduleId = toObjectId(req.params.id);
+    scheduleService.assertNotManaged(await scheduleService.getSchedule(scheduleId));
+    await scheduleService.deleteSchedule(scheduleId);
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/schedules/:id/run - Run a schedule now
+schedulesRouter.post('/:id/run', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = await scheduleService.runNow(toObjectId(req.params.id), getActorId(req));
+    res.json({ data: run });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/schedules/:id/runs - Run history of a schedule
+schedulesRouter.get('/:id/runs', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { limit = '50', offset = '0', status } = req.query;
+    const scheduleId = toObjectId(req.params.id);
+    await scheduleService.getSchedule(scheduleId);
+
+    const result = await scheduleService.listRuns(scheduleId, {
+      limit: parseInt(limit as string, 10),
+      offset: parseInt(offset as string, 10),
+      status: status as string | undefined,
+    });
+
+    res.json({
+      data: result.data,
+      pagination: {
+        limit: parseInt(limit as string, 10),
+        offset: parseInt(offset as string, 10),
+        total: result.total,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
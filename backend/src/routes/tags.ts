@@ -2,10 +2,15 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { ObjectId } from 'mongodb';
 import { getDb } from '../db/connection.js';
 import { createError } from '../middleware/error-handler.js';
+import { publishAuditEvent } from '../services/event-bus.js';
 import { Tag } from '../types/index.js';
 
 export const tagsRouter = Router();
 
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? new ObjectId(req.user.userId) : null;
+}
+
 // GET /api/tags - Get all tags (for API consumers like daemons/agents)
 tagsRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -87,7 +92,7 @@ tagsRouter.post('/', async (req: Request, res: Response, next: NextFunction) =>
       color: color || '#6B7280',
       description: description || null,
       isActive: true,
-      createdById: req.user?.userId ? new ObjectId(req.user.userId) : null,
+      createdById: getActorId(req),
       createdAt: now,
       updatedAt: now,
     };
@@ -95,6 +100,13 @@ tagsRouter.post('/', async (req: Request, res: Response, next: NextFunction) =>
     const result = await db.collection<Tag>('tags').insertOne(newTag as Tag);
     const inserted = await db.collection<Tag>('tags').findOne({ _id: result.insertedId });
 
+    await publishAuditEvent('tag', 'created', {
+      entityId: result.insertedId,
+      entityName: newTag.name,
+      after: inserted,
+      actorId: getActorId(req),
+    });
+
     res.status(201).json({ data: inserted });
   } catch (error) {
     next(error);
@@ -134,6 +146,7 @@ tagsRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction)
 
     updates.updatedAt = new Date();
 
+    const before = await db.collection<Tag>('tags').findOne({ _id: tagId });
     const result = await db.collection<Tag>('tags').findOneAndUpdate(
       { _id: tagId },
       { $set: updates },
@@ -144,6 +157,14 @@ tagsRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction)
       throw createError('Tag not found', 404);
     }
 
+    await publishAuditEvent('tag', 'updated', {
+      entityId: tagId,
+      entityName: result.name,
+      before,
+      after: result,
+      actorId: getActorId(req),
+    });
+
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -164,13 +185,22 @@ tagsRouter.delete('/:id', async (req: Request, res: Response, next: NextFunction
     const result = await db.collection<Tag>('tags').findOneAndUpdate(
       { _id: tagId },
       { $set: { isActive: false, updatedAt: new Date() } },
-      { returnDocument: 'after' }
+      { returnDocument: 'before' }
     );
 
     if (!result) {
       throw createError('Tag not found', 404);
     }
 
+    // Tags are only deactivated, so this is recorded as the update it is
+    await publishAuditEvent('tag', 'updated', {
+      entityId: tagId,
+      entityName: result.name,
+      before: result,
+      after: { ...result, isActive: false },
+      actorId: getActorId(req),
+    });
+
     res.json({ success: true, message: 'Tag deactivated' });
   } catch (error) {
     next(error);
@@ -206,13 +236,20 @@ tagsRouter.post('/ensure', async (req: Request, res: Response, next: NextFunctio
           color: typeof tagInput === 'object' && tagInput.color ? tagInput.color : '#6B7280',
           description: typeof tagInput === 'object' ? tagInput.description : null,
           isActive: true,
-          createdById: req.user?.userId ? new ObjectId(req.user.userId) : null,
+          createdById: getActorId(req),
           createdAt: now,
           updatedAt: now,
         };
 
         const result = await db.collection<Tag>('tags').insertOne(newTag as Tag);
         tag = await db.collection<Tag>('tags').findOne({ _id: result.insertedId });
+
+        await publishAuditEvent('tag', 'created', {
+          entityId: result.insertedId,
+          entityName: normalizedName,
+          after: tag,
+          actorId: getActorId(req),
+        });
       }
 
       if (tag) {
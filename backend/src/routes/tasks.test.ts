@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ObjectId } from 'mongodb';
+import { createMemoryDb, MemoryDb } from '../test-utils/memory-db.js';
+import { errorHandler } from '../middleware/error-handler.js';
+import { publishTaskChangeEvents } from '../services/event-bus.js';
+import { tasksRouter } from './tasks.js';
+
+let memory: MemoryDb;
+
+vi.mock('../db/connection.js', () => ({ getDb: () => memory.asDb() }));
+vi.mock('../services/event-bus.js', () => ({
+  eventBus: { subscribe: vi.fn(), unsubscribe: vi.fn() },
+  publishTaskEvent: vi.fn(),
+  publishTaskChangeEvents: vi.fn(),
+}));
+
+describe('PATCH /api/tasks/:id revisions', () => {
+  const taskId = new ObjectId();
+  let server: Server;
+  let baseUrl: string;
+
+  const patch = (body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/api/tasks/${taskId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  const json = (res: Response) => res.json() as Promise<{ data?: unknown; error?: { details?: unknown } }>;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/tasks', tasksRouter);
+    app.use(errorHandler);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(async () => {
+    memory = createMemoryDb();
+    vi.mocked(publishTaskChangeEvents).mockClear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await memory.collection('tasks').insertOne({ _id: taskId, title: 'Draft', status: 'pending', revision: 3 });
+  });
+
+  it('applies an edit made against the current revision and bumps it', async () => {
+    const res = await patch({ title: 'Final', expectedRevision: 3 });
+
+    expect(res.status).toBe(200);
+    expect((await json(res)).data).toMatchObject({ title: 'Final', revision: 4 });
+    expect(publishTaskChangeEvents).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects an edit made against an older revision with a 409 and the current task', async () => {
+    const res = await patch({ title: 'Stale', expectedRevision: 2 });
+
+    expect(res.status).toBe(409);
+    const { error } = await json(res);
+    expect(error?.details).toMatchObject({
+      expectedRevision: 2,
+      currentRevision: 3,
+      current: { title: 'Draft' },
+      diff: [{ field: 'title', currentValue: 'Draft', requestedValue: 'Stale' }],
+    });
+    expect(await memory.collection('tasks').findOne({ _id: taskId })).toMatchObject({ title: 'Draft', revision: 3 });
+    expect(publishTaskChangeEvents).not.toHaveBeenCalled();
+  });
+
+  it('reads the expected revision from If-Match', async () => {
+    expect((await patch({ title: 'Stale' }, { 'If-Match': 'W/"2"' })).status).toBe(409);
+    expect((await patch({ title: 'Final' }, { 'If-Match': '"3"' })).status).toBe(200);
+    expect((await patch({ title: 'Bad' }, { 'If-Match': 'abc' })).status).toBe(400);
+  });
+
+  it('overwrites without a check when no revision is sent', async () => {
+    const res = await patch({ title: 'Forced' });
+
+    expect(res.status).toBe(200);
+    expect((await json(res)).data).toMatchObject({ title: 'Forced', revision: 4 });
+  });
+});
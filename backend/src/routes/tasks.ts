@@ -3,10 +3,28 @@ import { ObjectId, Filter, Sort, Document, WithId } from 'mongodb';
 import { getDb } from '../db/connection.js';
 import { createError } from '../middleware/error-handler.js';
 import { ReferenceResolver } from '../services/reference-resolver.js';
-import { Task, TaskWithChildren, PaginatedResponse } from '../types/index.js';
-import { publishTaskEvent, computeChanges, getSpecificEventTypes } from '../services/event-bus.js';
+import { FieldValidator } from '../services/field-validator.js';
+import {
+  Task,
+  TaskWithChildren,
+  PaginatedResponse,
+  WorkflowRun,
+  BulkOperationParams,
+  BulkOperationType,
+} from '../types/index.js';
+import { publishTaskEvent, publishTaskChangeEvents } from '../services/event-bus.js';
 import { activityLogService } from '../services/activity-log.js';
 import { workflowExecutionService } from '../services/workflow-execution-service.js';
+import { workflowRevisionService } from '../services/workflow-revision-service.js';
+import {
+  bulkTaskService,
+  BULK_OPERATION_TYPES,
+  BULK_BACKGROUND_THRESHOLD,
+  BULK_MAX_TASKS,
+} from '../services/bulk-task-service.js';
+import { taskDependencyService } from '../services/task-dependency-service.js';
+import { attachmentService } from '../services/attachment-service.js';
+import { attachmentsRouter } from './attachments.js';
 
 export const tasksRouter = Router();
 
@@ -18,6 +36,43 @@ function toObjectId(id: string): ObjectId {
   return new ObjectId(id);
 }
 
+// Revision the client last saw, from an If-Match header ("3" or W/"3") or
+// expectedRevision in the body. Null when the client didn't send one.
+function getExpectedRevision(req: Request): number | null {
+  const ifMatch = req.headers['if-match'];
+  const raw = ifMatch !== undefined && ifMatch !== '*'
+    ? ifMatch.replace(/^W\//, '').replace(/"/g, '')
+    : req.body?.expectedRevision;
+
+  if (raw === undefined || raw === null || raw === '') return null;
+
+  const revision = Number(raw);
+  if (!Number.isInteger(revision) || revision < 0) {
+    throw createError('If-Match / expectedRevision must be a task revision number', 400);
+  }
+  return revision;
+}
+
+// Fields of an update whose requested value differs from the current task
+function diffAgainstCurrent(current: Task, updates: Record<string, unknown>): Array<{ field: string; currentValue: unknown; requestedValue: unknown }> {
+  return Object.keys(updates)
+    .filter(field => JSON.stringify((current as unknown as Record<string, unknown>)[field] ?? null) !== JSON.stringify(updates[field] ?? null))
+    .map(field => ({
+      field,
+      currentValue: (current as unknown as Record<string, unknown>)[field] ?? null,
+      requestedValue: updates[field] ?? null,
+    }));
+}
+
+function conflictError(current: Task, expectedRevision: number, updates: Record<string, unknown>) {
+  return createError('Task was changed by someone else since you loaded it', 409, {
+    expectedRevision,
+    currentRevision: current.revision ?? 0,
+    current,
+    diff: diffAgainstCurrent(current, updates),
+  });
+}
+
 // Helper to resolve {{currentUserId}} placeholder
 function resolveUserPlaceholder(value: string, currentUserId?: string): string {
   if (value === '{{currentUserId}}' && currentUserId) {
@@ -29,7 +84,7 @@ function resolveUserPlaceholder(value: string, currentUserId?: string): string {
 // Helper to build filter from query params
 function buildFilter(query: Record<string, unknown>, currentUserId?: string): Filter<Task> {
   const filter: Filter<Task> = {};
-  const { search, filters, parentId, rootOnly, status, urgency, assigneeId, tags, includeArchived } = query;
+  const { search, filters, parentId, rootOnly, status, urgency, assigneeId, tags, includeArchived, blocked } = query;
 
   // By default, exclude archived tasks unless explicitly requested
   const shouldIncludeArchived = includeArchived === 'true' || includeArchived === true;
@@ -111,6 +166,13 @@ function buildFilter(query: Record<string, unknown>, currentUserId?: string): Fi
     filter.tags = { $in: tagArray };
   }
 
+  // Blocked filter - blocked=false leaves out tasks still waiting on dependencies
+  if (blocked === 'true' || blocked === true) {
+    filter.isBlocked = true;
+  } else if (blocked === 'false' || blocked === false) {
+    filter.isBlocked = { $ne: true };
+  }
+
   // Custom filters
   if (filters && typeof filters === 'object') {
     Object.entries(filters as Record<string, unknown>).forEach(([key, value]) => {
@@ -564,6 +626,7 @@ tasksRouter.get('/:id', async (req: Request, res: Response, next: NextFunction)
       result = resolved;
     }
 
+    res.set('ETag', `"${task.revision ?? 0}"`);
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -724,6 +787,66 @@ tasksRouter.get('/:id/descendants', async (req: Request, res: Response, next: Ne
   }
 });
 
+// /api/tasks/:id/attachments - Files attached to a task
+tasksRouter.use('/:id/attachments', attachmentsRouter);
+
+// GET /api/tasks/:id/dependencies - Tasks this task waits for, and tasks waiting for it
+tasksRouter.get('/:id/dependencies', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { resolveReferences = 'true' } = req.query;
+    const dependencies = await taskDependencyService.getDependencies(toObjectId(req.params.id));
+
+    if (resolveReferences === 'true') {
+      const resolver = new ReferenceResolver();
+      await resolver.loadFieldConfigs('tasks');
+      dependencies.blockedBy = await resolver.resolveDocuments(dependencies.blockedBy);
+      dependencies.blocks = await resolver.resolveDocuments(dependencies.blocks);
+    }
+
+    res.json({ data: dependencies });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/tasks/:id/dependencies - Make this task wait for another task
+tasksRouter.post('/:id/dependencies', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const taskId = toObjectId(req.params.id);
+    const { blockedById } = req.body;
+    if (!blockedById) {
+      throw createError('blockedById is required', 400);
+    }
+    const actorId = req.user?.userId ? toObjectId(req.user.userId) : null;
+
+    const task = await taskDependencyService.addDependency(taskId, toObjectId(blockedById), {
+      actorId,
+      actorType: 'user',
+    });
+
+    res.status(201).json({ data: task });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/tasks/:id/dependencies/:blockedById - Remove a dependency
+tasksRouter.delete('/:id/dependencies/:blockedById', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const actorId = req.user?.userId ? toObjectId(req.user.userId) : null;
+
+    const task = await taskDependencyService.removeDependency(
+      toObjectId(req.params.id),
+      toObjectId(req.params.blockedById),
+      { actorId, actorType: 'user' }
+    );
+
+    res.json({ data: task });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/tasks - Create a new task
 tasksRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -766,6 +889,7 @@ tasksRouter.post('/', async (req: Request, res: Response, next: NextFunction) =>
       tags: taskData.tags || [],
       createdAt: now,
       updatedAt: now,
+      revision: 1,
       dueAt: taskData.dueAt ? new Date(taskData.dueAt) : null,
       metadata: taskData.metadata || {},
       // Task type and execution fields
@@ -777,6 +901,11 @@ tasksRouter.post('/', async (req: Request, res: Response, next: NextFunction) =>
       ...(taskData.externalConfig && { externalConfig: taskData.externalConfig }),
     };
 
+    // Validate against the task field configs
+    const validator = new FieldValidator();
+    await validator.loadFieldConfigs('tasks');
+    await validator.assertValid(newTask, { mode: 'create' });
+
     const result = await db.collection('tasks').insertOne(newTask);
     const insertedTask = await db.collection<Task>('tasks').findOne({ _id: result.insertedId });
 
@@ -815,9 +944,13 @@ tasksRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction
         ? toObjectId(req.user.userId)
         : null;
     const actorType = updates.actorType || 'user';
+    const expectedRevision = getExpectedRevision(req);
     delete updates.silent;
     delete updates.actorId;
     delete updates.actorType;
+    delete updates.expectedRevision;
+    // Revisions only change by being incremented on write
+    delete updates.revision;
 
     // Get original task for change tracking
     const originalTask = await db.collection<Task>('tasks').findOne({ _id: taskId });
@@ -828,6 +961,10 @@ tasksRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction
     // Remove fields that shouldn't be updated directly
     delete updates._id;
     delete updates.createdAt;
+    // Dependencies go through /api/tasks/:id/dependencies so cycles are checked
+    delete updates.blockedBy;
+    delete updates.isBlocked;
+    delete updates.statusBeforeBlocked;
 
     // Protect workflow metadata fields from being cleared accidentally
     // These fields are set by the workflow system and shouldn't be modified via API
@@ -893,56 +1030,43 @@ tasksRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction
       }
     }
 
+    // Reject edits based on an outdated copy of the task
+    if (expectedRevision !== null && (originalTask.revision ?? 0) !== expectedRevision) {
+      throw conflictError(originalTask, expectedRevision, updates);
+    }
+
+    // Validate the fields being written against the task field configs
+    const validator = new FieldValidator();
+    await validator.loadFieldConfigs('tasks');
+    await validator.assertValid(updates, { mode: 'update', original: originalTask });
+
     updates.updatedAt = new Date();
 
+    // With an expected revision, only write if nobody else wrote in between
+    const filter: Filter<Task> = expectedRevision === null
+      ? { _id: taskId }
+      : { _id: taskId, revision: originalTask.revision ?? { $exists: false } };
+
     const result = await db.collection<Task>('tasks').findOneAndUpdate(
-      { _id: taskId },
-      { $set: updates },
+      filter,
+      { $set: updates, $inc: { revision: 1 } },
       { returnDocument: 'after' }
     );
 
     if (!result) {
+      const current = await db.collection<Task>('tasks').findOne({ _id: taskId });
+      if (current && expectedRevision !== null) {
+        throw conflictError(current, expectedRevision, updates);
+      }
       throw createError('Task not found', 404);
     }
 
-    // Publish task.updated event unless silent
+    // Publish task.updated and field-specific events unless silent
     if (!silent) {
-      const changes = computeChanges(originalTask, result);
-      if (changes.length > 0) {
-        // Fields that have their own specific events
-        const fieldsWithSpecificEvents = ['status', 'assigneeId', 'urgency', 'metadata'];
-
-        // Separate changes into those with specific events and those without
-        const genericChanges = changes.filter(c => !fieldsWithSpecificEvents.includes(c.field));
-        const specificEventChanges = changes.filter(c => fieldsWithSpecificEvents.includes(c.field));
-
-        // Publish task.updated only for changes that don't have specific events
-        if (genericChanges.length > 0) {
-          await publishTaskEvent('task.updated', result, {
-            changes: genericChanges,
-            actorId,
-            actorType: actorType as 'user' | 'system' | 'daemon',
-          });
-        }
-
-        // Publish field-specific events
-        if (specificEventChanges.length > 0) {
-          const specificEvents = getSpecificEventTypes(specificEventChanges);
-          for (const eventType of specificEvents) {
-            await publishTaskEvent(eventType, result, {
-              changes: changes.filter(c => {
-                if (eventType === 'task.status.changed') return c.field === 'status';
-                if (eventType === 'task.assignee.changed') return c.field === 'assigneeId';
-                if (eventType === 'task.priority.changed') return c.field === 'urgency';
-                if (eventType === 'task.metadata.changed') return c.field === 'metadata';
-                return false;
-              }),
-              actorId,
-              actorType: actorType as 'user' | 'system' | 'daemon',
-            });
-          }
-        }
-      }
+      await publishTaskChangeEvents(originalTask, result, {
+        actorId,
+        actorType: actorType as 'user' | 'system' | 'daemon',
+      });
     }
 
     // Handle workflow trigger: if triggerWorkflowId was set, start that workflow
@@ -964,6 +1088,7 @@ tasksRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction
             triggerTaskId: taskId.toString(),
             triggerContext,
             inputPayload: result.metadata || {},
+            source: 'task',
           },
           actorId
         );
@@ -973,11 +1098,13 @@ tasksRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction
         // Clear the triggerWorkflowId field (it's a one-time trigger)
         await db.collection<Task>('tasks').updateOne(
           { _id: taskId },
-          { $unset: { triggerWorkflowId: '' } }
+          { $unset: { triggerWorkflowId: '' }, $inc: { revision: 1 } }
         );
 
-        // Update the result to reflect the cleared field and spawned workflow
-        result.triggerWorkflowId = null;
+        // Update the result to reflect the cleared field, the spawned workflow
+        // and the revisions those writes added
+        const refreshed = await db.collection<Task>('tasks').findOne({ _id: taskId });
+        Object.assign(result, refreshed, { triggerWorkflowId: null });
       } catch (workflowError) {
         console.error(`[Tasks] Failed to trigger workflow ${triggerWorkflowId} from task ${taskId}:`, workflowError);
         // Don't fail the task update, just log the error
@@ -985,6 +1112,7 @@ tasksRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction
       }
     }
 
+    res.set('ETag', `"${result.revision ?? 0}"`);
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -1040,6 +1168,7 @@ tasksRouter.put('/:id/move', async (req: Request, res: Response, next: NextFunct
           parentId: newParent ? newParent._id : null,
           updatedAt: now,
         },
+        $inc: { revision: 1 },
       }
     );
 
@@ -1158,9 +1287,10 @@ tasksRouter.post('/:id/rerun', async (req: Request, res: Response, next: NextFun
     let refreshedInput: Record<string, unknown> | undefined;
     if (task.workflowRunId && task.workflowStepId) {
       try {
-        // Get the workflow to find the previous step
-        const workflow = task.workflowId
-          ? await db.collection('workflows').findOne({ _id: task.workflowId })
+        // Get the workflow revision the run is pinned to, to find the previous step
+        const run = await db.collection<WorkflowRun>('workflow_runs').findOne({ _id: task.workflowRunId });
+        const workflow = run
+          ? await workflowRevisionService.getWorkflowAtVersion(run.workflowId, run.workflowVersion)
           : null;
 
         if (workflow?.steps) {
@@ -1249,7 +1379,7 @@ tasksRouter.post('/:id/rerun', async (req: Request, res: Response, next: NextFun
       if (Object.keys($unset).length > 0) {
         await db.collection('tasks').updateOne(
           { _id: taskId },
-          { $unset }
+          { $unset, $inc: { revision: 1 } }
         );
       }
     }
@@ -1261,7 +1391,7 @@ tasksRouter.post('/:id/rerun', async (req: Request, res: Response, next: NextFun
 
     const result = await db.collection<Task>('tasks').findOneAndUpdate(
       { _id: taskId },
-      { $set: updateFields },
+      { $set: updateFields, $inc: { revision: 1 } },
       { returnDocument: 'after' }
     );
 
@@ -1325,6 +1455,7 @@ tasksRouter.delete('/:id', async (req: Request, res: Response, next: NextFunctio
             parentId: task.parentId,
             updatedAt: now,
           },
+          $inc: { revision: 1 },
         }
       );
     }
@@ -1341,9 +1472,10 @@ tasksRouter.delete('/:id', async (req: Request, res: Response, next: NextFunctio
       });
     }
 
-    // Clean up activity logs for deleted tasks
+    // Clean up activity logs and attachments for deleted tasks
     for (const deletedId of deletedTaskIds) {
       await activityLogService.deleteTaskActivity(deletedId);
+      await attachmentService.deleteTaskAttachments(deletedId);
     }
 
     res.json({ success: true, message: 'Task deleted successfully' });
@@ -1422,6 +1554,7 @@ tasksRouter.post('/:id/force-complete-join', async (req: Request, res: Response,
           'metadata.forceCompleted': true,
           'metadata.forceCompletedAt': now,
         },
+        $inc: { revision: 1 },
       }
     );
 
@@ -1435,6 +1568,7 @@ tasksRouter.post('/:id/force-complete-join', async (req: Request, res: Response,
           'batchCounters.processedCount': completedCount,
           'batchCounters.failedCount': failedCount,
         },
+        $inc: { revision: 1 },
       }
     );
 
@@ -1464,58 +1598,85 @@ tasksRouter.post('/:id/force-complete-join', async (req: Request, res: Response,
   }
 });
 
-// POST /api/tasks/bulk - Bulk operations
+// POST /api/tasks/bulk - Apply an operation to many tasks
+// Each task is updated individually and publishes its own events. Selections
+// over BULK_BACKGROUND_THRESHOLD tasks (or with background: true) run as a
+// tracked background operation and return 202 with the operation.
 tasksRouter.post('/bulk', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const db = getDb();
-    const { operation, taskIds, updates } = req.body;
+    const { operation, taskIds, updates, newParentId, tag, background } = req.body;
 
     if (!taskIds || !Array.isArray(taskIds) || taskIds.length === 0) {
       throw createError('taskIds array is required', 400);
     }
+    if (taskIds.length > BULK_MAX_TASKS) {
+      throw createError(`A bulk operation can include at most ${BULK_MAX_TASKS} tasks`, 400);
+    }
+    if (!BULK_OPERATION_TYPES.includes(operation)) {
+      throw createError(`Invalid operation. Supported: ${BULK_OPERATION_TYPES.join(', ')}`, 400);
+    }
 
-    const objectIds = taskIds.map((id: string) => toObjectId(id));
-    const now = new Date();
-
-    let result: Document;
+    // Dedupe while keeping the caller's order
+    const objectIds = [...new Set<string>(taskIds.map(String))].map(id => toObjectId(id));
+    const params: BulkOperationParams = {};
 
-    switch (operation) {
+    switch (operation as BulkOperationType) {
       case 'update':
-        if (!updates || typeof updates !== 'object') {
+        if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
           throw createError('updates object is required for update operation', 400);
         }
-        delete updates._id;
-        delete updates.createdAt;
-        updates.updatedAt = now;
-
-        console.log(`[Bulk Update] Updating ${taskIds.length} tasks with:`, updates);
-        result = await db.collection('tasks').updateMany(
-          { _id: { $in: objectIds } },
-          { $set: updates }
-        );
-        console.log(`[Bulk Update] Result: matched=${result.matchedCount}, modified=${result.modifiedCount}`);
+        params.updates = updates;
         break;
 
-      case 'delete':
-        // Get all descendant IDs for all tasks being deleted
-        const allIdsToDelete = new Set<string>(objectIds.map(id => id.toString()));
+      case 'move':
+        if (newParentId === undefined) {
+          throw createError('newParentId is required for move operation (null moves to root)', 400);
+        }
+        if (newParentId) {
+          const parent = await getDb().collection<Task>('tasks').findOne({ _id: toObjectId(newParentId) });
+          if (!parent) {
+            throw createError('New parent task not found', 404);
+          }
+        }
+        params.newParentId = newParentId ? String(newParentId) : null;
+        break;
 
-        for (const taskId of objectIds) {
-          const descendantIds = await getDescendantIds(db, taskId);
-          descendantIds.forEach(id => allIdsToDelete.add(id.toString()));
+      case 'add-tag':
+      case 'remove-tag':
+        if (typeof tag !== 'string' || !tag.trim()) {
+          throw createError(`tag is required for ${operation} operation`, 400);
         }
+        params.tag = tag.trim();
+        break;
+    }
 
-        const deleteObjectIds = Array.from(allIdsToDelete).map(id => new ObjectId(id));
-        await db.collection('tasks').deleteMany({ _id: { $in: deleteObjectIds } });
+    const actor = {
+      actorId: req.user?.userId ? toObjectId(req.user.userId) : null,
+      actorType: 'user' as const,
+    };
 
-        result = { deletedCount: deleteObjectIds.length };
-        break;
+    if (background === true || objectIds.length > BULK_BACKGROUND_THRESHOLD) {
+      const bulkOperation = await bulkTaskService.start(operation, objectIds, params, actor);
+      res.status(202).json({ success: true, background: true, data: bulkOperation });
+      return;
+    }
+
+    const { summary, results } = await bulkTaskService.run(operation, objectIds, params, actor);
+    res.json({ success: true, background: false, summary, results });
+  } catch (error) {
+    next(error);
+  }
+});
 
-      default:
-        throw createError('Invalid operation. Supported: update, delete', 400);
+// GET /api/tasks/bulk/:operationId - Progress and results of a background bulk operation
+tasksRouter.get('/bulk/:operationId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const bulkOperation = await bulkTaskService.getOperation(toObjectId(req.params.operationId));
+    if (!bulkOperation) {
+      throw createError('Bulk operation not found', 404);
     }
 
-    res.json({ success: true, result });
+    res.json({ data: bulkOperation });
   } catch (error) {
     next(error);
   }
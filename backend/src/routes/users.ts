@@ -2,10 +2,15 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { ObjectId } from 'mongodb';
 import { getDb } from '../db/connection.js';
 import { createError } from '../middleware/error-handler.js';
+import { publishAuditEvent } from '../services/event-bus.js';
 import { User, Team } from '../types/index.js';
 
 export const usersRouter = Router();
 
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? new ObjectId(req.user.userId) : null;
+}
+
 // GET /api/users - Get all users
 usersRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -98,6 +103,13 @@ usersRouter.post('/agents/ensure/:agentId', async (req: Request, res: Response,
 
       const result = await db.collection<User>('users').insertOne(newAgent as User);
       agent = await db.collection<User>('users').findOne({ _id: result.insertedId });
+
+      await publishAuditEvent('user', 'created', {
+        entityId: result.insertedId,
+        entityName: displayName,
+        after: agent,
+        actorId: getActorId(req),
+      });
     }
 
     res.json({ data: agent });
@@ -183,6 +195,13 @@ usersRouter.post('/', async (req: Request, res: Response, next: NextFunction) =>
     const result = await db.collection<User>('users').insertOne(newUser as User);
     const inserted = await db.collection<User>('users').findOne({ _id: result.insertedId });
 
+    await publishAuditEvent('user', 'created', {
+      entityId: result.insertedId,
+      entityName: displayName,
+      after: inserted,
+      actorId: getActorId(req),
+    });
+
     res.status(201).json({ data: inserted });
   } catch (error) {
     next(error);
@@ -213,6 +232,7 @@ usersRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction
       updates.profilePicture = null;
     }
 
+    const before = await db.collection<User>('users').findOne({ _id: userId });
     const result = await db.collection<User>('users').findOneAndUpdate(
       { _id: userId },
       { $set: updates },
@@ -223,6 +243,14 @@ usersRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction
       throw createError('User not found', 404);
     }
 
+    await publishAuditEvent('user', 'updated', {
+      entityId: userId,
+      entityName: result.displayName,
+      before,
+      after: result,
+      actorId: getActorId(req),
+    });
+
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -238,13 +266,22 @@ usersRouter.delete('/:id', async (req: Request, res: Response, next: NextFunctio
     const result = await db.collection<User>('users').findOneAndUpdate(
       { _id: userId },
       { $set: { isActive: false, updatedAt: new Date() } },
-      { returnDocument: 'after' }
+      { returnDocument: 'before' }
     );
 
     if (!result) {
       throw createError('User not found', 404);
     }
 
+    // Users are only deactivated, so this is recorded as the update it is
+    await publishAuditEvent('user', 'updated', {
+      entityId: userId,
+      entityName: result.displayName,
+      before: result,
+      after: { ...result, isActive: false },
+      actorId: getActorId(req),
+    });
+
     res.json({ success: true, message: 'User deactivated' });
   } catch (error) {
     next(error);
@@ -318,6 +355,13 @@ usersRouter.post('/teams', async (req: Request, res: Response, next: NextFunctio
     const result = await db.collection<Team>('teams').insertOne(newTeam as Team);
     const inserted = await db.collection<Team>('teams').findOne({ _id: result.insertedId });
 
+    await publishAuditEvent('team', 'created', {
+      entityId: result.insertedId,
+      entityName: name,
+      after: inserted,
+      actorId: getActorId(req),
+    });
+
     res.status(201).json({ data: inserted });
   } catch (error) {
     next(error);
@@ -339,6 +383,7 @@ usersRouter.patch('/teams/:id', async (req: Request, res: Response, next: NextFu
       updates.memberIds = updates.memberIds.map((id: string) => new ObjectId(id));
     }
 
+    const before = await db.collection<Team>('teams').findOne({ _id: teamId });
     const result = await db.collection<Team>('teams').findOneAndUpdate(
       { _id: teamId },
       { $set: updates },
@@ -349,6 +394,14 @@ usersRouter.patch('/teams/:id', async (req: Request, res: Response, next: NextFu
       throw createError('Team not found', 404);
     }
 
+    await publishAuditEvent('team', 'updated', {
+      entityId: teamId,
+      entityName: result.name,
+      before,
+      after: result,
+      actorId: getActorId(req),
+    });
+
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -361,12 +414,19 @@ usersRouter.delete('/teams/:id', async (req: Request, res: Response, next: NextF
     const db = getDb();
     const teamId = new ObjectId(req.params.id);
 
-    const result = await db.collection('teams').deleteOne({ _id: teamId });
+    const deleted = await db.collection<Team>('teams').findOneAndDelete({ _id: teamId });
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       throw createError('Team not found', 404);
     }
 
+    await publishAuditEvent('team', 'deleted', {
+      entityId: teamId,
+      entityName: deleted.name,
+      before: deleted,
+      actorId: getActorId(req),
+    });
+
     res.json({ success: true, message: 'Team deleted' });
   } catch (error) {
     next(error);
@@ -386,6 +446,7 @@ usersRouter.put('/teams/:id/members', async (req: Request, res: Response, next:
 
     const objectIds = memberIds.map((id: string) => new ObjectId(id));
 
+    const before = await db.collection<Team>('teams').findOne({ _id: teamId });
     const result = await db.collection<Team>('teams').findOneAndUpdate(
       { _id: teamId },
       { $set: { memberIds: objectIds, updatedAt: new Date() } },
@@ -396,6 +457,14 @@ usersRouter.put('/teams/:id/members', async (req: Request, res: Response, next:
       throw createError('Team not found', 404);
     }
 
+    await publishAuditEvent('team', 'updated', {
+      entityId: teamId,
+      entityName: result.name,
+      before,
+      after: result,
+      actorId: getActorId(req),
+    });
+
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -4,9 +4,14 @@ import { getDb } from '../db/connection.js';
 import { createError } from '../middleware/error-handler.js';
 import { View, UserPreference, Task } from '../types/index.js';
 import { ReferenceResolver } from '../services/reference-resolver.js';
+import { publishAuditEvent } from '../services/event-bus.js';
 
 export const viewsRouter = Router();
 
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? new ObjectId(req.user.userId) : null;
+}
+
 // GET /api/views - Get all views
 viewsRouter.get('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -67,6 +72,7 @@ viewsRouter.get('/:id/tasks', async (req: Request, res: Response, next: NextFunc
       page = 1,
       limit = 50,
       resolveReferences = 'true',
+      includeBlocked = 'false',
     } = req.query;
 
     // Get the view
@@ -110,6 +116,12 @@ viewsRouter.get('/:id/tasks', async (req: Request, res: Response, next: NextFunc
       }
     }
 
+    // Views are how agents pick up work, so tasks still waiting on dependencies
+    // are left out unless the view filters on isBlocked itself
+    if (includeBlocked !== 'true' && !view.filters?.isBlocked) {
+      filter.isBlocked = { $ne: true };
+    }
+
     // Build sort from view's sorting config
     const sortSpec: Record<string, 1 | -1> = {};
     if (view.sorting && view.sorting.length > 0) {
@@ -230,6 +242,13 @@ viewsRouter.post('/', async (req: Request, res: Response, next: NextFunction) =>
     const result = await db.collection<View>('views').insertOne(newView as View);
     const inserted = await db.collection<View>('views').findOne({ _id: result.insertedId });
 
+    await publishAuditEvent('view', 'created', {
+      entityId: result.insertedId,
+      entityName: newView.name,
+      after: inserted,
+      actorId: getActorId(req),
+    });
+
     res.status(201).json({ data: inserted });
   } catch (error) {
     next(error);
@@ -278,6 +297,16 @@ viewsRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction
       { returnDocument: 'after' }
     );
 
+    if (result) {
+      await publishAuditEvent('view', 'updated', {
+        entityId: viewId,
+        entityName: result.name,
+        before: existingView,
+        after: result,
+        actorId: getActorId(req),
+      });
+    }
+
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -306,6 +335,13 @@ viewsRouter.delete('/:id', async (req: Request, res: Response, next: NextFunctio
     // Delete the view
     await db.collection('views').deleteOne({ _id: viewId });
 
+    await publishAuditEvent('view', 'deleted', {
+      entityId: viewId,
+      entityName: view.name,
+      before: view,
+      actorId: getActorId(req),
+    });
+
     res.json({ success: true, message: 'View deleted' });
   } catch (error) {
     next(error);
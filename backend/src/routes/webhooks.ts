@@ -2,8 +2,14 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { ObjectId } from 'mongodb';
 import { getDb } from '../db/connection.js';
 import { createError } from '../middleware/error-handler.js';
-import { webhookService } from '../services/webhook-service.js';
-import { Webhook, WebhookTrigger } from '../types/index.js';
+import { publishAuditEvent } from '../services/event-bus.js';
+import {
+  webhookService,
+  DEFAULT_FAILURE_THRESHOLD,
+  RESERVED_WEBHOOK_HEADERS,
+  WEBHOOK_METHODS,
+} from '../services/webhook-service.js';
+import { Webhook, WebhookMethod, WebhookTrigger } from '../types/index.js';
 import crypto from 'crypto';
 
 export const webhooksRouter = Router();
@@ -16,11 +22,74 @@ function toObjectId(id: string): ObjectId {
   return new ObjectId(id);
 }
 
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? toObjectId(req.user.userId) : null;
+}
+
 // Generate a random secret
 function generateSecret(): string {
   return `whsec_${crypto.randomBytes(24).toString('hex')}`;
 }
 
+// How long a rotated-out secret keeps signing deliveries, by default and at most
+const DEFAULT_ROTATION_GRACE_HOURS = 24;
+const MAX_ROTATION_GRACE_HOURS = 7 * 24;
+
+const MAX_BODY_TEMPLATE_LENGTH = 64 * 1024;
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+
+// Validate the request options of a webhook, returning the ones present in the input
+function parseRequestOptions(input: Record<string, unknown>): Partial<Pick<Webhook, 'method' | 'headers' | 'bodyTemplate'>> {
+  const options: Partial<Pick<Webhook, 'method' | 'headers' | 'bodyTemplate'>> = {};
+
+  if (input.method !== undefined) {
+    if (!WEBHOOK_METHODS.includes(input.method as WebhookMethod)) {
+      throw createError(`method must be one of: ${WEBHOOK_METHODS.join(', ')}`, 400);
+    }
+    options.method = input.method as WebhookMethod;
+  }
+
+  if (input.headers !== undefined) {
+    const headers = input.headers ?? {};
+    if (typeof headers !== 'object' || Array.isArray(headers)) {
+      throw createError('headers must be an object of header names to values', 400);
+    }
+    for (const [name, value] of Object.entries(headers)) {
+      if (!HEADER_NAME_PATTERN.test(name)) {
+        throw createError(`Invalid header name: ${name}`, 400);
+      }
+      if (RESERVED_WEBHOOK_HEADERS.includes(name.toLowerCase())) {
+        throw createError(`Header ${name} is set by the webhook service`, 400);
+      }
+      if (typeof value !== 'string' || /[\r\n]/.test(value)) {
+        throw createError(`Header ${name} must be a single-line string`, 400);
+      }
+    }
+    options.headers = Object.keys(headers).length > 0 ? headers as Record<string, string> : null;
+  }
+
+  if (input.bodyTemplate !== undefined) {
+    if (input.bodyTemplate !== null && typeof input.bodyTemplate !== 'string') {
+      throw createError('bodyTemplate must be a string', 400);
+    }
+    if (typeof input.bodyTemplate === 'string' && input.bodyTemplate.length > MAX_BODY_TEMPLATE_LENGTH) {
+      throw createError(`bodyTemplate must be at most ${MAX_BODY_TEMPLATE_LENGTH} characters`, 400);
+    }
+    options.bodyTemplate = input.bodyTemplate?.trim() ? input.bodyTemplate : null;
+  }
+
+  return options;
+}
+
+const MAX_FAILURE_THRESHOLD = 100;
+
+function parseFailureThreshold(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_FAILURE_THRESHOLD) {
+    throw createError(`failureThreshold must be an integer from 1 to ${MAX_FAILURE_THRESHOLD}`, 400);
+  }
+  return value;
+}
+
 // Valid trigger types
 const validTriggers: WebhookTrigger[] = [
   'task.created',
@@ -55,9 +124,10 @@ webhooksRouter.get('/', async (req: Request, res: Response, next: NextFunction)
     ]);
 
     // Hide secrets in list view (show only last 4 chars)
-    const safeWebhooks = webhooks.map((w) => ({
+    const safeWebhooks = webhooks.map(({ previousSecret, ...w }) => ({
       ...w,
       secret: `...${w.secret.slice(-4)}`,
+      ...(previousSecret && { previousSecret: `...${previousSecret.slice(-4)}` }),
     }));
 
     res.json({
@@ -77,12 +147,13 @@ webhooksRouter.get('/', async (req: Request, res: Response, next: NextFunction)
 // NOTE: This route must come BEFORE /:id to prevent 'deliveries' from being parsed as an ID
 webhooksRouter.get('/deliveries', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { limit = '100', offset = '0', status } = req.query;
+    const { limit = '100', offset = '0', status, webhookId } = req.query;
 
     const result = await webhookService.getAllDeliveries({
       limit: parseInt(limit as string, 10),
       offset: parseInt(offset as string, 10),
       status: status as string | undefined,
+      webhookId: webhookId ? toObjectId(webhookId as string) : undefined,
     });
 
     res.json({
@@ -98,6 +169,67 @@ webhooksRouter.get('/deliveries', async (req: Request, res: Response, next: Next
   }
 });
 
+// POST /api/webhooks/deliveries/replay - Put failed (dead-lettered) deliveries back in the retry queue
+// NOTE: This route must come BEFORE /:id routes
+webhooksRouter.post('/deliveries/replay', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { deliveryIds, webhookId, all } = req.body || {};
+
+    if (deliveryIds !== undefined && (!Array.isArray(deliveryIds) || deliveryIds.length === 0)) {
+      throw createError('deliveryIds must be a non-empty list', 400);
+    }
+    if (!deliveryIds && !webhookId && all !== true) {
+      throw createError('Provide deliveryIds, webhookId or all: true', 400);
+    }
+
+    const result = await webhookService.replayDeliveries({
+      deliveryIds: deliveryIds?.map((id: string) => toObjectId(id)),
+      webhookId: webhookId ? toObjectId(webhookId) : undefined,
+    });
+
+    res.json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/webhooks/preview - Render a webhook request against a recent task event
+// NOTE: This route must come BEFORE /:id routes
+webhooksRouter.post('/preview', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { triggers, taskId, webhookId } = req.body;
+    if (triggers !== undefined && !Array.isArray(triggers)) {
+      throw createError('triggers must be a list', 400);
+    }
+
+    const preview = await webhookService.previewRequest(
+      { method: 'POST', headers: null, bodyTemplate: null, ...parseRequestOptions(req.body) },
+      {
+        triggers,
+        taskId: taskId ? toObjectId(taskId) : undefined,
+        webhookId: webhookId ? toObjectId(webhookId) : undefined,
+      }
+    );
+    if (!preview) {
+      throw createError('No matching task event to preview against yet', 404);
+    }
+
+    // Point out a JSON body that won't parse rather than failing the preview
+    let bodyError: string | null = null;
+    if (/json/i.test(preview.request.headers['Content-Type'])) {
+      try {
+        JSON.parse(preview.request.body);
+      } catch (error) {
+        bodyError = `Body is not valid JSON: ${(error as Error).message}`;
+      }
+    }
+
+    res.json({ data: { ...preview, bodyError } });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/webhooks/:id - Get a single webhook
 webhooksRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -154,15 +286,26 @@ webhooksRouter.post('/', async (req: Request, res: Response, next: NextFunction)
       throw createError(`Invalid triggers: ${invalidTriggers.join(', ')}`, 400);
     }
 
+    const requestOptions = parseRequestOptions(req.body);
+    const failureThreshold = req.body.failureThreshold !== undefined
+      ? parseFailureThreshold(req.body.failureThreshold)
+      : DEFAULT_FAILURE_THRESHOLD;
+
     const now = new Date();
     const webhook: Omit<Webhook, '_id'> = {
       name,
       url,
       secret: generateSecret(),
+      method: requestOptions.method ?? 'POST',
+      headers: requestOptions.headers ?? null,
+      bodyTemplate: requestOptions.bodyTemplate ?? null,
       triggers,
       savedSearchId: savedSearchId ? toObjectId(savedSearchId) : null,
       filterQuery: filterQuery || null,
       isActive,
+      failureThreshold,
+      consecutiveFailures: 0,
+      circuitState: 'closed',
       createdById: createdById ? toObjectId(createdById) : null,
       createdAt: now,
       updatedAt: now,
@@ -173,6 +316,13 @@ webhooksRouter.post('/', async (req: Request, res: Response, next: NextFunction)
       .collection<Webhook>('webhooks')
       .findOne({ _id: result.insertedId });
 
+    await publishAuditEvent('webhook', 'created', {
+      entityId: result.insertedId,
+      entityName: name,
+      after: insertedWebhook,
+      actorId: getActorId(req),
+    });
+
     res.status(201).json({ data: insertedWebhook });
   } catch (error) {
     next(error);
@@ -189,6 +339,15 @@ webhooksRouter.patch('/:id', async (req: Request, res: Response, next: NextFunct
     // Remove protected fields
     delete updates._id;
     delete updates.secret;
+    delete updates.previousSecret;
+    delete updates.previousSecretExpiresAt;
+    delete updates.consecutiveFailures;
+    delete updates.circuitState;
+    delete updates.circuitOpenedAt;
+    delete updates.nextProbeAt;
+    delete updates.probeFailures;
+    delete updates.lastError;
+    delete updates.alertTaskId;
     delete updates.createdAt;
     delete updates.createdById;
 
@@ -214,6 +373,12 @@ webhooksRouter.patch('/:id', async (req: Request, res: Response, next: NextFunct
       }
     }
 
+    Object.assign(updates, parseRequestOptions(updates));
+
+    if (updates.failureThreshold !== undefined) {
+      updates.failureThreshold = parseFailureThreshold(updates.failureThreshold);
+    }
+
     // Convert savedSearchId if provided
     if (updates.savedSearchId !== undefined) {
       updates.savedSearchId = updates.savedSearchId ? toObjectId(updates.savedSearchId) : null;
@@ -221,6 +386,7 @@ webhooksRouter.patch('/:id', async (req: Request, res: Response, next: NextFunct
 
     updates.updatedAt = new Date();
 
+    const before = await db.collection<Webhook>('webhooks').findOne({ _id: webhookId });
     const result = await db.collection<Webhook>('webhooks').findOneAndUpdate(
       { _id: webhookId },
       { $set: updates },
@@ -231,6 +397,14 @@ webhooksRouter.patch('/:id', async (req: Request, res: Response, next: NextFunct
       throw createError('Webhook not found', 404);
     }
 
+    await publishAuditEvent('webhook', 'updated', {
+      entityId: webhookId,
+      entityName: result.name,
+      before,
+      after: result,
+      actorId: getActorId(req),
+    });
+
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -243,14 +417,21 @@ webhooksRouter.delete('/:id', async (req: Request, res: Response, next: NextFunc
     const db = getDb();
     const webhookId = toObjectId(req.params.id);
 
-    const result = await db.collection('webhooks').deleteOne({ _id: webhookId });
-    if (result.deletedCount === 0) {
+    const deleted = await db.collection<Webhook>('webhooks').findOneAndDelete({ _id: webhookId });
+    if (!deleted) {
       throw createError('Webhook not found', 404);
     }
 
     // Also delete delivery history
     await db.collection('webhook_deliveries').deleteMany({ webhookId });
 
+    await publishAuditEvent('webhook', 'deleted', {
+      entityId: webhookId,
+      entityName: deleted.name,
+      before: deleted,
+      actorId: getActorId(req),
+    });
+
     res.json({ success: true, message: 'Webhook deleted successfully' });
   } catch (error) {
     next(error);
@@ -258,26 +439,87 @@ webhooksRouter.delete('/:id', async (req: Request, res: Response, next: NextFunc
 });
 
 // POST /api/webhooks/:id/rotate-secret - Rotate webhook secret
+// The old secret keeps signing deliveries alongside the new one for graceHours
 webhooksRouter.post(
   '/:id/rotate-secret',
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const db = getDb();
       const webhookId = toObjectId(req.params.id);
+      const { graceHours = DEFAULT_ROTATION_GRACE_HOURS } = req.body || {};
+
+      if (typeof graceHours !== 'number' || graceHours < 0 || graceHours > MAX_ROTATION_GRACE_HOURS) {
+        throw createError(`graceHours must be a number from 0 to ${MAX_ROTATION_GRACE_HOURS}`, 400);
+      }
+
+      const webhook = await db.collection<Webhook>('webhooks').findOne({ _id: webhookId });
+      if (!webhook) {
+        throw createError('Webhook not found', 404);
+      }
 
+      const now = new Date();
       const newSecret = generateSecret();
+      const previousSecretExpiresAt = graceHours > 0 ? new Date(now.getTime() + graceHours * 60 * 60 * 1000) : null;
 
+      // Only the secret that was current is kept - an earlier one still in its grace window is dropped
       const result = await db.collection<Webhook>('webhooks').findOneAndUpdate(
-        { _id: webhookId },
-        { $set: { secret: newSecret, updatedAt: new Date() } },
+        { _id: webhookId, secret: webhook.secret },
+        {
+          $set: {
+            secret: newSecret,
+            previousSecret: previousSecretExpiresAt ? webhook.secret : null,
+            previousSecretExpiresAt,
+            updatedAt: now,
+          },
+        },
         { returnDocument: 'after' }
       );
 
       if (!result) {
+        throw createError('The secret was rotated by another request', 409);
+      }
+
+      await publishAuditEvent('webhook', 'updated', {
+        entityId: webhookId,
+        entityName: result.name,
+        before: webhook,
+        after: result,
+        actorId: getActorId(req),
+        metadata: { secretRotated: true, graceHours },
+      });
+
+      res.json({ data: { secret: newSecret, previousSecretExpiresAt } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/webhooks/:id/reset-circuit - Close an open circuit and resume deliveries
+webhooksRouter.post(
+  '/:id/reset-circuit',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const db = getDb();
+      const webhookId = toObjectId(req.params.id);
+
+      const before = await db.collection<Webhook>('webhooks').findOne({ _id: webhookId });
+      const found = await webhookService.closeCircuit(webhookId);
+      if (!found) {
         throw createError('Webhook not found', 404);
       }
 
-      res.json({ data: { secret: newSecret } });
+      const webhook = await db.collection<Webhook>('webhooks').findOne({ _id: webhookId });
+
+      await publishAuditEvent('webhook', 'updated', {
+        entityId: webhookId,
+        entityName: webhook?.name,
+        before,
+        after: webhook,
+        actorId: getActorId(req),
+        metadata: { circuitReset: true },
+      });
+      res.json({ data: webhook });
     } catch (error) {
       next(error);
     }
@@ -30,7 +30,17 @@ router.post('/', requireAuth, async (req: Request, res: Response): Promise<void>
       ? new ObjectId(req.user.userId)
       : null;
 
-    const { run, rootTask } = await workflowExecutionService.startWorkflow(input, actorId);
+    // Dry run: walk the workflow graph without creating tasks or firing webhooks
+    if (input.executionOptions?.dryRun) {
+      const result = await workflowExecutionService.simulateWorkflow(input);
+      res.json(result);
+      return;
+    }
+
+    const { run, rootTask } = await workflowExecutionService.startWorkflow(
+      { ...input, source: input.source || 'manual' },
+      actorId
+    );
 
     res.status(201).json({
       run,
@@ -206,6 +216,34 @@ router.post('/:id/cancel', requireAuth, async (req: Request, res: Response): Pro
   }
 });
 
+// ============================================================================
+// Resume Paused Workflow Run
+// POST /api/workflow-runs/:id/resume
+// Requires authentication (JWT or API key)
+// Executes the steps queued while the run was paused (executionOptions.pauseAtSteps)
+// ============================================================================
+router.post('/:id/resume', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid workflow run ID' });
+      return;
+    }
+
+    const actorId = req.user?.userId
+      ? new ObjectId(req.user.userId)
+      : undefined;
+
+    const run = await workflowExecutionService.resumeWorkflowRun(id, actorId);
+    res.json(run);
+  } catch (error: unknown) {
+    console.error('[WorkflowRuns] Resume error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to resume workflow run';
+    res.status(400).json({ error: message });
+  }
+});
+
 // ============================================================================
 // Unified Callback Endpoint
 // POST /api/workflow-runs/:id/callback/:stepId
@@ -2,6 +2,20 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { ObjectId } from 'mongodb';
 import { getDb } from '../db/connection.js';
 import { createError } from '../middleware/error-handler.js';
+import { workflowRevisionService } from '../services/workflow-revision-service.js';
+import { validateCondition } from '../services/condition-evaluator.js';
+import { validateCron, isValidTimezone } from '../services/cron-expression.js';
+import { workflowTriggerService, WORKFLOW_TRIGGER_TYPES } from '../services/workflow-trigger-service.js';
+import { SCHEDULE_CATCH_UP_POLICIES } from '../services/schedule-service.js';
+import { publishAuditEvent } from '../services/event-bus.js';
+import type { AuditAction } from '../types/index.js';
+import type {
+  Workflow as WorkflowDefinition,
+  StepRetryPolicy,
+  StepTimeoutConfig,
+  TaskEventType,
+  WorkflowTriggerConfig,
+} from '../types/index.js';
 
 export const workflowsRouter = Router();
 
@@ -94,10 +108,22 @@ interface WorkflowStep {
   flowId?: string;
   inputMapping?: Record<string, string>;
 
+  // Trigger configuration - how the workflow is started
+  triggerConfig?: WorkflowTriggerConfig;
+
   // Input aggregation
   inputSource?: string;             // Step ID to get input from (default: previous step)
   inputPath?: string;               // JSONPath to extract input from source step
 
+  // Failure handling
+  retryPolicy?: StepRetryPolicy;    // Re-create the step task automatically when it fails
+  onErrorStepId?: string;           // Step to route to once retries are exhausted
+
+  // Timeouts / SLA (agent and manual steps)
+  timeoutMs?: number;               // Time the task may stay open before onTimeout fires
+  dueOffsetHours?: number;          // Sets the task's dueAt; also the timeout when timeoutMs is not set
+  onTimeout?: StepTimeoutConfig;    // What happens on timeout (default: fail the task)
+
   // Legacy fields (kept for compatibility)
   execution?: 'automated' | 'manual';
   type?: 'automated' | 'manual';
@@ -115,11 +141,50 @@ interface Workflow {
   steps: WorkflowStep[];
   mermaidDiagram?: string;
   rootTaskTitleTemplate?: string;
+  version?: number;
   createdAt: Date;
   updatedAt: Date;
   createdById?: ObjectId | null;
 }
 
+// Revisions are written by workflowRevisionService, which works with the
+// shared Workflow type - the local step type carries extra legacy fields
+function toDefinition(workflow: Partial<Workflow>): WorkflowDefinition {
+  return workflow as unknown as WorkflowDefinition;
+}
+
+function getActorId(req: Request): ObjectId | null {
+  return req.user?.userId ? new ObjectId(req.user.userId) : null;
+}
+
+// Workflow as recorded in the audit log, without the webhook trigger tokens
+function auditSnapshot(workflow: Workflow | null | undefined): Workflow | null {
+  if (!workflow) return null;
+  return {
+    ...workflow,
+    steps: (workflow.steps || []).map((step) =>
+      step.triggerConfig ? { ...step, triggerConfig: exportableTriggerConfig(step.triggerConfig) } : step
+    ),
+  };
+}
+
+async function publishWorkflowAudit(
+  req: Request,
+  action: AuditAction,
+  workflowId: ObjectId,
+  versions: { before?: Workflow | null; after?: Workflow | null },
+  metadata?: Record<string, unknown>
+): Promise<void> {
+  await publishAuditEvent('workflow', action, {
+    entityId: workflowId,
+    entityName: (versions.after ?? versions.before)?.name,
+    before: auditSnapshot(versions.before),
+    after: auditSnapshot(versions.after),
+    actorId: getActorId(req),
+    metadata,
+  });
+}
+
 // GET /api/workflows - List all workflows
 workflowsRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -258,6 +323,14 @@ workflowsRouter.get('/ai-prompt-context', async (_req: Request, res: Response, n
 
       // Step type reference
       stepTypes: {
+        trigger: {
+          description: 'Entry point - declares how the workflow starts (manual, cron, task event or inbound webhook)',
+          mermaidShape: '[["Trigger: text"]]',
+          mermaidClass: 'trigger',
+          color: '#64748B',
+          commonFields: ['triggerConfig'],
+          example: { id: 'start', name: 'New intake', stepType: 'trigger', triggerConfig: { type: 'event', eventTypes: ['task.created'], tags: ['intake'] } }
+        },
         agent: {
           description: 'AI-powered automated task executed by the daemon',
           mermaidShape: '["text"]',
@@ -358,7 +431,8 @@ workflowsRouter.get('/ai-prompt-context', async (_req: Request, res: Response, n
           decision: { shape: '{"label"}', example: 'step4{"Is Valid?"}' },
           foreach: { shape: '[["Each: label"]]', example: 'step5[["Each: Process"]]' },
           join: { shape: '[["Join: label"]]', example: 'step6[["Join: Aggregate"]]' },
-          flow: { shape: '[["Run: label"]]', example: 'step7[["Run: Subprocess"]]' }
+          flow: { shape: '[["Run: label"]]', example: 'step7[["Run: Subprocess"]]' },
+          trigger: { shape: '[["Trigger: label"]]', example: 'start[["Trigger: Every morning"]]' }
         },
         connections: {
           simple: 'stepA --> stepB',
@@ -371,7 +445,8 @@ workflowsRouter.get('/ai-prompt-context', async (_req: Request, res: Response, n
           'classDef decision fill:#F59E0B,color:#fff',
           'classDef foreach fill:#10B981,color:#fff',
           'classDef join fill:#6366F1,color:#fff',
-          'classDef flow fill:#EC4899,color:#fff'
+          'classDef flow fill:#EC4899,color:#fff',
+          'classDef trigger fill:#64748B,color:#fff'
         ],
         metadataComment: '%% @step(nodeId): {"key": "value"}'
       },
@@ -628,10 +703,16 @@ Routes workflow to different paths based on conditions evaluated against input d
 - \`label\`: Display label for the branch
 
 **Condition Syntax:**
-- \`field:value\` - Exact match
-- \`field:value1,value2\` - Match any of values
-- \`field:>10\` - Greater than (also <, >=, <=)
-- \`field:!value\` - Not equal
+Expressions evaluated against the step's input (previous step result under \`output\`):
+- \`output.score >= 80\`, \`output.status != 'done'\` - Comparison (==, !=, ===, !==, >, >=, <, <=)
+- \`output.approved && not output.flagged\` - Boolean logic (&&, ||, !, and, or, not, parentheses)
+- \`exists(output.reviewer)\` - Value is present
+- \`len(output.items) > 0\` - Array/string length
+- \`output.tags contains 'vip'\`, \`output.region in ['us', 'eu']\` - Membership
+- \`output.email matches /@example\\.com$/i\` - Regex match
+- \`field:value1,value2\` - Legacy shorthand: match any of values (also \`field:>10\`, \`field:!value\`)
+
+Invalid conditions are rejected when the workflow is saved.
 
 **JSON Example:**
 \`\`\`json
@@ -1066,6 +1147,221 @@ function ensureStepIds(steps: WorkflowStep[]): WorkflowStep[] {
   });
 }
 
+interface ConditionValidationError {
+  stepId: string;
+  stepName: string;
+  connectionIndex: number;
+  condition: string;
+  error: string;
+}
+
+// Decision conditions are parsed on save so a bad expression is rejected
+// up front instead of silently never matching at run time
+function findInvalidConditions(steps: WorkflowStep[]): ConditionValidationError[] {
+  const errors: ConditionValidationError[] = [];
+  for (const step of steps) {
+    if (step.stepType !== 'decision') continue;
+    (step.connections || []).forEach((conn, connectionIndex) => {
+      if (!conn.condition) return;
+      const error = validateCondition(conn.condition);
+      if (error) {
+        errors.push({ stepId: step.id, stepName: step.name, connectionIndex, condition: conn.condition, error });
+      }
+    });
+  }
+  return errors;
+}
+
+function assertValidConditions(steps: WorkflowStep[]): void {
+  const errors = findInvalidConditions(steps);
+  if (errors.length > 0) {
+    const first = errors[0];
+    throw createError(
+      `Invalid condition in step "${first.stepName}": ${first.error}`,
+      400,
+      errors
+    );
+  }
+}
+
+interface FailureHandlingValidationError {
+  stepId: string;
+  stepName: string;
+  field: 'retryPolicy' | 'onErrorStepId' | 'timeoutMs' | 'dueOffsetHours' | 'onTimeout';
+  error: string;
+}
+
+const TIMEOUT_ACTIONS = ['fail', 'reassign', 'escalate', 'route'];
+const URGENCIES = ['low', 'normal', 'high', 'urgent'];
+
+const MAX_RETRY_ATTEMPTS = 20;
+
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function findInvalidFailureHandling(steps: WorkflowStep[]): FailureHandlingValidationError[] {
+  const errors: FailureHandlingValidationError[] = [];
+  const stepIds = new Set(steps.map(step => step.id));
+
+  for (const step of steps) {
+    const policy = step.retryPolicy;
+    if (policy) {
+      const push = (error: string) => errors.push({ stepId: step.id, stepName: step.name, field: 'retryPolicy', error });
+      if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1 || policy.maxAttempts > MAX_RETRY_ATTEMPTS) {
+        push(`maxAttempts must be an integer between 1 and ${MAX_RETRY_ATTEMPTS}`);
+      }
+      if (policy.backoff !== undefined && policy.backoff !== 'fixed' && policy.backoff !== 'exponential') {
+        push('backoff must be "fixed" or "exponential"');
+      }
+      if (policy.delayMs !== undefined && !isNonNegativeNumber(policy.delayMs)) {
+        push('delayMs must be a non-negative number');
+      }
+      if (policy.maxDelayMs !== undefined && !isNonNegativeNumber(policy.maxDelayMs)) {
+        push('maxDelayMs must be a non-negative number');
+      }
+      if (policy.retryOn !== undefined && (!Array.isArray(policy.retryOn) || policy.retryOn.some(p => typeof p !== 'string'))) {
+        push('retryOn must be an array of strings');
+      }
+    }
+
+    if (step.timeoutMs !== undefined && !(isNonNegativeNumber(step.timeoutMs) && step.timeoutMs > 0)) {
+      errors.push({ stepId: step.id, stepName: step.name, field: 'timeoutMs', error: 'must be a positive number' });
+    }
+    if (step.dueOffsetHours !== undefined && !(isNonNegativeNumber(step.dueOffsetHours) && step.dueOffsetHours > 0)) {
+      errors.push({ stepId: step.id, stepName: step.name, field: 'dueOffsetHours', error: 'must be a positive number' });
+    }
+
+    const onTimeout = step.onTimeout;
+    if (onTimeout) {
+      const push = (error: string) => errors.push({ stepId: step.id, stepName: step.name, field: 'onTimeout', error });
+      if (!TIMEOUT_ACTIONS.includes(onTimeout.action)) {
+        push(`action must be one of ${TIMEOUT_ACTIONS.join(', ')}`);
+      } else if (onTimeout.action === 'reassign' && (!onTimeout.escalationAssigneeId || !ObjectId.isValid(onTimeout.escalationAssigneeId))) {
+        push('reassign requires a valid escalationAssigneeId');
+      } else if (onTimeout.action === 'escalate' && onTimeout.urgency && !URGENCIES.includes(onTimeout.urgency)) {
+        push(`urgency must be one of ${URGENCIES.join(', ')}`);
+      } else if (onTimeout.action === 'route') {
+        if (!onTimeout.targetStepId || !stepIds.has(onTimeout.targetStepId)) {
+          push(`route requires targetStepId to reference an existing step`);
+        } else if (onTimeout.targetStepId === step.id) {
+          push('a step cannot route to itself on timeout');
+        }
+      }
+    }
+
+    if (step.onErrorStepId) {
+      if (step.onErrorStepId === step.id) {
+        errors.push({ stepId: step.id, stepName: step.name, field: 'onErrorStepId', error: 'a step cannot be its own error step' });
+      } else if (!stepIds.has(step.onErrorStepId)) {
+        errors.push({ stepId: step.id, stepName: step.name, field: 'onErrorStepId', error: `step "${step.onErrorStepId}" does not exist` });
+      }
+    }
+  }
+
+  return errors;
+}
+
+function assertValidFailureHandling(steps: WorkflowStep[]): void {
+  const errors = findInvalidFailureHandling(steps);
+  if (errors.length > 0) {
+    const first = errors[0];
+    throw createError(
+      `Invalid ${first.field} in step "${first.stepName}": ${first.error}`,
+      400,
+      errors
+    );
+  }
+}
+
+// Webhook trigger tokens are secrets and stay out of exported Mermaid
+function exportableTriggerConfig(config: WorkflowTriggerConfig): Omit<WorkflowTriggerConfig, 'webhookToken'> {
+  const { webhookToken: _webhookToken, ...rest } = config;
+  return rest;
+}
+
+interface TriggerValidationError {
+  stepId: string;
+  stepName: string;
+  field: string;
+  error: string;
+}
+
+const TRIGGER_EVENT_TYPES: TaskEventType[] = [
+  'task.created', 'task.updated', 'task.deleted', 'task.status.changed', 'task.assignee.changed',
+  'task.priority.changed', 'task.metadata.changed', 'task.moved', 'task.comment.added', 'task.comment.edited',
+  'task.comment.deleted', 'task.comment.mentioned', 'task.attachment.added', 'task.attachment.deleted', 'task.blocked',
+  'task.unblocked',
+];
+
+// Trigger settings are checked on save because cron, event and webhook
+// triggers start runs on their own once the workflow is active
+function findInvalidTriggers(steps: WorkflowStep[]): TriggerValidationError[] {
+  const errors: TriggerValidationError[] = [];
+
+  for (const step of steps) {
+    const config = step.triggerConfig;
+    if (!config) continue;
+    const push = (field: string, error: string) => errors.push({ stepId: step.id, stepName: step.name, field, error });
+
+    if (step.stepType !== 'trigger') {
+      push('triggerConfig', 'only trigger steps can have a trigger configuration');
+      continue;
+    }
+    if (!WORKFLOW_TRIGGER_TYPES.includes(config.type)) {
+      push('triggerConfig.type', `must be one of ${WORKFLOW_TRIGGER_TYPES.join(', ')}`);
+      continue;
+    }
+
+    if (config.type === 'cron') {
+      const cronError = typeof config.cronExpression === 'string'
+        ? validateCron(config.cronExpression)
+        : 'is required';
+      if (cronError) push('triggerConfig.cronExpression', cronError);
+      if (config.timezone !== undefined && !isValidTimezone(config.timezone)) {
+        push('triggerConfig.timezone', `unknown timezone "${config.timezone}"`);
+      }
+      if (config.catchUpPolicy !== undefined && !SCHEDULE_CATCH_UP_POLICIES.includes(config.catchUpPolicy)) {
+        push('triggerConfig.catchUpPolicy', `must be one of ${SCHEDULE_CATCH_UP_POLICIES.join(', ')}`);
+      }
+    }
+
+    if (config.type === 'event') {
+      if (!Array.isArray(config.eventTypes) || config.eventTypes.length === 0) {
+        push('triggerConfig.eventTypes', 'at least one event type is required');
+      } else {
+        const unknown = config.eventTypes.filter((type) => !TRIGGER_EVENT_TYPES.includes(type));
+        if (unknown.length > 0) push('triggerConfig.eventTypes', `unknown event types: ${unknown.join(', ')}`);
+      }
+      if (config.tags !== undefined && (!Array.isArray(config.tags) || config.tags.some((tag) => typeof tag !== 'string'))) {
+        push('triggerConfig.tags', 'must be an array of strings');
+      }
+      if (config.condition) {
+        const conditionError = validateCondition(config.condition);
+        if (conditionError) push('triggerConfig.condition', conditionError);
+      }
+    }
+
+    if (config.inputPayload !== undefined && (typeof config.inputPayload !== 'object' || config.inputPayload === null || Array.isArray(config.inputPayload))) {
+      push('triggerConfig.inputPayload', 'must be an object');
+    }
+  }
+
+  return errors;
+}
+
+function assertValidTriggers(steps: WorkflowStep[]): void {
+  const errors = findInvalidTriggers(steps);
+  if (errors.length > 0) {
+    const first = errors[0];
+    throw createError(
+      `Invalid ${first.field} in step "${first.stepName}": ${first.error}`,
+      400,
+      errors
+    );
+  }
+}
+
 // POST /api/workflows - Create a new workflow
 workflowsRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -1076,20 +1372,31 @@ workflowsRouter.post('/', async (req: Request, res: Response, next: NextFunction
       throw createError('name is required', 400);
     }
 
+    const normalizedSteps = workflowTriggerService.assignWebhookTokens(ensureStepIds(steps || []));
+    assertValidConditions(normalizedSteps);
+    assertValidFailureHandling(normalizedSteps);
+    assertValidTriggers(normalizedSteps);
+
     const now = new Date();
     const newWorkflow: Omit<Workflow, '_id'> = {
       name,
       description: description || '',
       isActive: isActive ?? true,
-      steps: ensureStepIds(steps || []),
+      steps: normalizedSteps,
       mermaidDiagram: mermaidDiagram || '',
       createdAt: now,
       updatedAt: now,
       createdById: req.body.createdById ? new ObjectId(req.body.createdById) : null,
     };
 
-    const result = await db.collection<Workflow>('workflows').insertOne(newWorkflow as Workflow);
-    const inserted = await db.collection<Workflow>('workflows').findOne({ _id: result.insertedId });
+    const created = await workflowRevisionService.createWorkflow(
+      toDefinition(newWorkflow),
+      getActorId(req)
+    );
+    await workflowTriggerService.syncWorkflow(created._id);
+    const inserted = await db.collection<Workflow>('workflows').findOne({ _id: created._id });
+
+    await publishWorkflowAudit(req, 'created', created._id, { after: inserted });
 
     res.status(201).json({ data: inserted });
   } catch (error) {
@@ -1098,31 +1405,41 @@ workflowsRouter.post('/', async (req: Request, res: Response, next: NextFunction
 });
 
 // PATCH /api/workflows/:id - Update a workflow
+// Every save is stored as a new revision; runs already in flight keep the revision they started with
 workflowsRouter.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const db = getDb();
     const workflowId = new ObjectId(req.params.id);
-    const updates = req.body;
-
-    delete updates._id;
-    delete updates.createdAt;
-    updates.updatedAt = new Date();
+    const { changeNote, ...updates } = req.body;
+    const current = await getDb().collection<Workflow>('workflows').findOne({ _id: workflowId });
 
     // Ensure step IDs are generated when updating steps
     if (updates.steps) {
-      updates.steps = ensureStepIds(updates.steps);
+      updates.steps = workflowTriggerService.assignWebhookTokens(ensureStepIds(updates.steps), current?.steps);
+      assertValidConditions(updates.steps);
+      assertValidFailureHandling(updates.steps);
+      assertValidTriggers(updates.steps);
     }
 
-    const result = await db.collection<Workflow>('workflows').findOneAndUpdate(
-      { _id: workflowId },
-      { $set: updates },
-      { returnDocument: 'after' }
+    const result = await workflowRevisionService.updateWorkflow(
+      workflowId,
+      toDefinition(updates),
+      getActorId(req),
+      { changeNote: typeof changeNote === 'string' ? changeNote : undefined }
     );
 
     if (!result) {
       throw createError('Workflow not found', 404);
     }
 
+    await workflowTriggerService.syncWorkflow(workflowId);
+    await publishWorkflowAudit(
+      req,
+      'updated',
+      workflowId,
+      { before: current, after: result as unknown as Workflow },
+      { version: result.version, ...(typeof changeNote === 'string' && { changeNote }) }
+    );
+
     res.json({ data: result });
   } catch (error) {
     next(error);
@@ -1135,12 +1452,16 @@ workflowsRouter.delete('/:id', async (req: Request, res: Response, next: NextFun
     const db = getDb();
     const workflowId = new ObjectId(req.params.id);
 
-    const result = await db.collection('workflows').deleteOne({ _id: workflowId });
+    const deleted = await db.collection<Workflow>('workflows').findOneAndDelete({ _id: workflowId });
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       throw createError('Workflow not found', 404);
     }
 
+    await workflowRevisionService.deleteRevisions(workflowId);
+    await workflowTriggerService.syncWorkflow(workflowId);
+    await publishWorkflowAudit(req, 'deleted', workflowId, { before: deleted });
+
     res.json({ success: true, message: 'Workflow deleted' });
   } catch (error) {
     next(error);
@@ -1164,15 +1485,31 @@ workflowsRouter.post('/:id/duplicate', async (req: Request, res: Response, next:
       name: `${original.name} (Copy)`,
       description: original.description,
       isActive: false,
-      steps: original.steps.map((step) => ({ ...step, id: new ObjectId().toString() })),
+      // The copy gets its own webhook trigger URLs
+      steps: workflowTriggerService.assignWebhookTokens(original.steps.map((step) => {
+        const copy = { ...step, id: new ObjectId().toString() };
+        if (step.triggerConfig) {
+          const { webhookToken: _webhookToken, ...triggerConfig } = step.triggerConfig;
+          copy.triggerConfig = triggerConfig;
+        }
+        return copy;
+      })),
       mermaidDiagram: original.mermaidDiagram,
       createdAt: now,
       updatedAt: now,
       createdById: req.body.createdById ? new ObjectId(req.body.createdById) : null,
     };
 
-    const result = await db.collection<Workflow>('workflows').insertOne(duplicate as Workflow);
-    const inserted = await db.collection<Workflow>('workflows').findOne({ _id: result.insertedId });
+    const created = await workflowRevisionService.createWorkflow(
+      toDefinition(duplicate),
+      getActorId(req)
+    );
+    await workflowTriggerService.syncWorkflow(created._id);
+    const inserted = await db.collection<Workflow>('workflows').findOne({ _id: created._id });
+
+    await publishWorkflowAudit(req, 'created', created._id, { after: inserted }, {
+      duplicatedFrom: workflowId.toString(),
+    });
 
     res.status(201).json({ data: inserted });
   } catch (error) {
@@ -1180,6 +1517,120 @@ workflowsRouter.post('/:id/duplicate', async (req: Request, res: Response, next:
   }
 });
 
+function parseVersion(value: unknown, name: string): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw createError(`${name} must be a positive integer`, 400);
+  }
+  return version;
+}
+
+// GET /api/workflows/:id/revisions - List saved revisions (newest first)
+workflowsRouter.get('/:id/revisions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const db = getDb();
+    const workflowId = new ObjectId(req.params.id);
+    const { limit = '50', offset = '0' } = req.query;
+
+    const workflow = await db.collection<Workflow>('workflows').findOne({ _id: workflowId });
+    if (!workflow) {
+      throw createError('Workflow not found', 404);
+    }
+
+    await workflowRevisionService.ensureVersioned(toDefinition(workflow));
+
+    const result = await workflowRevisionService.listRevisions(workflowId, {
+      limit: parseInt(limit as string, 10),
+      offset: parseInt(offset as string, 10),
+    });
+
+    res.json({ data: result.data, total: result.total });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/workflows/:id/revisions/:version - Get the full definition stored in a revision
+workflowsRouter.get('/:id/revisions/:version', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const workflowId = new ObjectId(req.params.id);
+    const version = parseVersion(req.params.version, 'version');
+
+    const revision = await workflowRevisionService.getRevision(workflowId, version);
+    if (!revision) {
+      throw createError(`Revision ${version} not found`, 404);
+    }
+
+    res.json({ data: revision });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/workflows/:id/diff?from=1&to=3 - Compare two revisions (to defaults to the current version)
+workflowsRouter.get('/:id/diff', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const db = getDb();
+    const workflowId = new ObjectId(req.params.id);
+
+    const workflow = await db.collection<Workflow>('workflows').findOne({ _id: workflowId });
+    if (!workflow) {
+      throw createError('Workflow not found', 404);
+    }
+
+    const currentVersion = await workflowRevisionService.ensureVersioned(toDefinition(workflow));
+    const fromVersion = parseVersion(req.query.from, 'from');
+    const toVersion = req.query.to !== undefined ? parseVersion(req.query.to, 'to') : currentVersion;
+
+    const [from, to] = await Promise.all([
+      workflowRevisionService.getRevision(workflowId, fromVersion),
+      workflowRevisionService.getRevision(workflowId, toVersion),
+    ]);
+    if (!from) {
+      throw createError(`Revision ${fromVersion} not found`, 404);
+    }
+    if (!to) {
+      throw createError(`Revision ${toVersion} not found`, 404);
+    }
+
+    res.json({ data: workflowRevisionService.diffRevisions(from, to) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/workflows/:id/rollback - Restore an earlier revision (saved as a new revision)
+workflowsRouter.post('/:id/rollback', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const workflowId = new ObjectId(req.params.id);
+    const version = parseVersion(req.body.version, 'version');
+
+    const revision = await workflowRevisionService.getRevision(workflowId, version);
+    if (!revision) {
+      throw createError(`Revision ${version} not found`, 404);
+    }
+
+    const current = await getDb().collection<Workflow>('workflows').findOne({ _id: workflowId });
+    const result = await workflowRevisionService.rollback(revision, getActorId(req));
+    if (!result) {
+      throw createError('Workflow not found', 404);
+    }
+
+    await workflowTriggerService.syncWorkflow(workflowId);
+    await publishWorkflowAudit(
+      req,
+      'updated',
+      workflowId,
+      { before: current, after: result as unknown as Workflow },
+      { version: result.version, restoredFromVersion: version }
+    );
+
+    res.json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/workflows/parse-mermaid - Parse Mermaid diagram to workflow steps
 workflowsRouter.post('/parse-mermaid', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -1292,6 +1743,7 @@ workflowsRouter.get('/export-multi', async (req: Request, res: Response, next: N
     lines.push('    classDef foreach fill:#10B981,color:#fff');
     lines.push('    classDef join fill:#6366F1,color:#fff');
     lines.push('    classDef flow fill:#EC4899,color:#fff');
+    lines.push('    classDef trigger fill:#64748B,color:#fff');
 
     const mermaid = lines.join('\n');
 
@@ -1337,6 +1789,12 @@ function generateMermaidSubgraphContent(steps: WorkflowStep[], workflowId: strin
     if (step.minSuccessPercent) metadata.minSuccessPercent = step.minSuccessPercent;
     if (step.flowId) metadata.flowId = step.flowId;
     if (step.inputMapping) metadata.inputMapping = step.inputMapping;
+    if (step.triggerConfig) metadata.triggerConfig = exportableTriggerConfig(step.triggerConfig);
+    if (step.retryPolicy) metadata.retryPolicy = step.retryPolicy;
+    if (step.onErrorStepId) metadata.onErrorStepId = step.onErrorStepId;
+    if (step.timeoutMs) metadata.timeoutMs = step.timeoutMs;
+    if (step.dueOffsetHours) metadata.dueOffsetHours = step.dueOffsetHours;
+    if (step.onTimeout) metadata.onTimeout = step.onTimeout;
 
     if (Object.keys(metadata).length > 0) {
       metadataComments.push(`        %% @step(${nodeId}): ${JSON.stringify(metadata)}`);
@@ -1376,6 +1834,10 @@ function generateMermaidSubgraphContent(steps: WorkflowStep[], workflowId: strin
         nodeShape = `${nodeId}[["Run: ${nodeName}"]]`;
         nodeClass = 'flow';
         break;
+      case 'trigger':
+        nodeShape = `${nodeId}[["Trigger: ${nodeName}"]]`;
+        nodeClass = 'trigger';
+        break;
       default:
         nodeShape = `${nodeId}["${nodeName}"]`;
         nodeClass = 'agent';
@@ -1424,7 +1886,6 @@ function generateMermaidSubgraphContent(steps: WorkflowStep[], workflowId: strin
 // POST /api/workflows/import-multi - Import multiple workflows from multi-workflow Mermaid
 workflowsRouter.post('/import-multi', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const db = getDb();
     const { mermaid, dryRun = false } = req.body;
 
     if (!mermaid || typeof mermaid !== 'string') {
@@ -1466,6 +1927,30 @@ workflowsRouter.post('/import-multi', async (req: Request, res: Response, next:
         // Parse steps from the subgraph content
         const steps = parseMermaidToSteps(mermaidDiagram);
 
+        const conditionErrors = findInvalidConditions(steps);
+        if (conditionErrors.length > 0) {
+          results.push({
+            name: workflowName,
+            id: workflowId || undefined,
+            action: 'skip',
+            stepCount: steps.length,
+            error: `Invalid condition in step "${conditionErrors[0].stepName}": ${conditionErrors[0].error}`,
+          });
+          continue;
+        }
+
+        const triggerErrors = findInvalidTriggers(steps);
+        if (triggerErrors.length > 0) {
+          results.push({
+            name: workflowName,
+            id: workflowId || undefined,
+            action: 'skip',
+            stepCount: steps.length,
+            error: `Invalid ${triggerErrors[0].field} in step "${triggerErrors[0].stepName}": ${triggerErrors[0].error}`,
+          });
+          continue;
+        }
+
         if (dryRun) {
           // Just report what would happen
           results.push({
@@ -1477,24 +1962,31 @@ workflowsRouter.post('/import-multi', async (req: Request, res: Response, next:
         } else {
           // Actually create or update
           if (workflowId) {
-            // Update existing workflow
-            const updateResult = await db.collection<Workflow>('workflows').findOneAndUpdate(
-              { _id: new ObjectId(workflowId) },
-              {
-                $set: {
-                  name: workflowName,
-                  description,
-                  isActive,
-                  rootTaskTitleTemplate: rootTaskTitleTemplate || undefined,
-                  steps: ensureStepIds(steps),
-                  mermaidDiagram: generateMermaidFromSteps(steps, workflowName),
-                  updatedAt: new Date(),
-                },
-              },
-              { returnDocument: 'after' }
+            // Update existing workflow, keeping the webhook trigger URLs it already has
+            const current = await getDb().collection<Workflow>('workflows').findOne({ _id: new ObjectId(workflowId) });
+            const updateResult = await workflowRevisionService.updateWorkflow(
+              new ObjectId(workflowId),
+              toDefinition({
+                name: workflowName,
+                description,
+                isActive,
+                rootTaskTitleTemplate: rootTaskTitleTemplate || undefined,
+                steps: workflowTriggerService.assignWebhookTokens(ensureStepIds(steps), current?.steps),
+                mermaidDiagram: generateMermaidFromSteps(steps, workflowName),
+              }),
+              getActorId(req),
+              { changeNote: 'Imported from Mermaid' }
             );
 
             if (updateResult) {
+              await workflowTriggerService.syncWorkflow(new ObjectId(workflowId));
+              await publishWorkflowAudit(
+                req,
+                'updated',
+                updateResult._id,
+                { before: current, after: updateResult as unknown as Workflow },
+                { version: updateResult.version, changeNote: 'Imported from Mermaid' }
+              );
               results.push({
                 name: workflowName,
                 id: workflowId,
@@ -1509,17 +2001,28 @@ workflowsRouter.post('/import-multi', async (req: Request, res: Response, next:
                 description,
                 isActive,
                 rootTaskTitleTemplate: rootTaskTitleTemplate || undefined,
-                steps: ensureStepIds(steps),
+                steps: workflowTriggerService.assignWebhookTokens(ensureStepIds(steps)),
                 mermaidDiagram: generateMermaidFromSteps(steps, workflowName),
                 createdAt: now,
                 updatedAt: now,
                 createdById: null,
               };
 
-              const insertResult = await db.collection<Workflow>('workflows').insertOne(newWorkflow as Workflow);
+              const inserted = await workflowRevisionService.createWorkflow(
+                toDefinition(newWorkflow),
+                getActorId(req)
+              );
+              await workflowTriggerService.syncWorkflow(inserted._id);
+              await publishWorkflowAudit(
+                req,
+                'created',
+                inserted._id,
+                { after: inserted as unknown as Workflow },
+                { importedFromMermaid: true }
+              );
               results.push({
                 name: workflowName,
-                id: insertResult.insertedId.toString(),
+                id: inserted._id.toString(),
                 action: 'create',
                 stepCount: steps.length,
               });
@@ -1532,17 +2035,28 @@ workflowsRouter.post('/import-multi', async (req: Request, res: Response, next:
               description,
               isActive,
               rootTaskTitleTemplate: rootTaskTitleTemplate || undefined,
-              steps: ensureStepIds(steps),
+              steps: workflowTriggerService.assignWebhookTokens(ensureStepIds(steps)),
               mermaidDiagram: generateMermaidFromSteps(steps, workflowName),
               createdAt: now,
               updatedAt: now,
               createdById: null,
             };
 
-            const insertResult = await db.collection<Workflow>('workflows').insertOne(newWorkflow as Workflow);
+            const inserted = await workflowRevisionService.createWorkflow(
+              toDefinition(newWorkflow),
+              getActorId(req)
+            );
+            await workflowTriggerService.syncWorkflow(inserted._id);
+            await publishWorkflowAudit(
+              req,
+              'created',
+              inserted._id,
+              { after: inserted as unknown as Workflow },
+              { importedFromMermaid: true }
+            );
             results.push({
               name: workflowName,
-              id: insertResult.insertedId.toString(),
+              id: inserted._id.toString(),
               action: 'create',
               stepCount: steps.length,
             });
@@ -1728,7 +2242,7 @@ function parseMermaidToSteps(mermaid: string): WorkflowStep[] {
       continue;
     }
 
-    // Double square brackets [[ ]] - foreach/join/flow
+    // Double square brackets [[ ]] - foreach/join/flow/trigger
     // Pattern: ID[["text"]] or ID[[text]]
     const doubleSquareMatch = line.match(/^([\w-]+)\[\[["']?([^"\]]+?)["']?\]\]/);
     if (doubleSquareMatch) {
@@ -1761,6 +2275,9 @@ function parseMermaidToSteps(mermaid: string): WorkflowStep[] {
       } else if (lowerText.startsWith('run:') || lowerText.startsWith('flow:')) {
         stepType = 'flow';
         cleanName = text.replace(/^(run|flow):\s*/i, '').trim();
+      } else if (lowerText.startsWith('trigger:')) {
+        stepType = 'trigger';
+        cleanName = text.replace(/^trigger:\s*/i, '').trim();
       } else {
         // Default double brackets to foreach if no prefix
         stepType = 'foreach';
@@ -2005,7 +2522,8 @@ function parseMermaidToSteps(mermaid: string): WorkflowStep[] {
         if (conn.from === mermaidId) {
           stepConnections.push({
             targetStepId: conn.to,  // Will be remapped after all steps created
-            condition: conn.label || undefined,
+            // Edge labels double as conditions only when they parse as one
+            condition: conn.label && !validateCondition(conn.label) ? conn.label : undefined,
             label: conn.label || undefined,
           });
         }
@@ -2101,6 +2619,16 @@ function generateMermaidFromSteps(steps: WorkflowStep[], _name?: string): string
     if (step.flowId) metadata.flowId = step.flowId;
     if (step.inputMapping) metadata.inputMapping = step.inputMapping;
 
+    // Trigger step fields
+    if (step.triggerConfig) metadata.triggerConfig = exportableTriggerConfig(step.triggerConfig);
+
+    // Failure handling
+    if (step.retryPolicy) metadata.retryPolicy = step.retryPolicy;
+    if (step.onErrorStepId) metadata.onErrorStepId = step.onErrorStepId;
+    if (step.timeoutMs) metadata.timeoutMs = step.timeoutMs;
+    if (step.dueOffsetHours) metadata.dueOffsetHours = step.dueOffsetHours;
+    if (step.onTimeout) metadata.onTimeout = step.onTimeout;
+
     // Queue metadata comment if there's any data to preserve (will add at the end)
     if (Object.keys(metadata).length > 0) {
       metadataComments.push(`    %% @step(${nodeId}): ${JSON.stringify(metadata)}`);
@@ -2132,6 +2660,9 @@ function generateMermaidFromSteps(steps: WorkflowStep[], _name?: string): string
       case 'flow':
         lines.push(`    ${nodeId}[["Run: ${nodeName}"]]`);
         break;
+      case 'trigger':
+        lines.push(`    ${nodeId}[["Trigger: ${nodeName}"]]`);
+        break;
       default:
         // Legacy support: check execution mode
         const execution = step.execution || step.type || 'automated';
@@ -2194,6 +2725,7 @@ function generateMermaidFromSteps(steps: WorkflowStep[], _name?: string): string
   lines.push('    classDef foreach fill:#10B981,color:#fff');    // Green - Loop
   lines.push('    classDef join fill:#6366F1,color:#fff');       // Indigo - Join
   lines.push('    classDef flow fill:#EC4899,color:#fff');       // Pink - Flow
+  lines.push('    classDef trigger fill:#64748B,color:#fff');    // Slate - Trigger
 
   // Apply classes to nodes
   const classGroups: Record<string, string[]> = {
@@ -2204,6 +2736,7 @@ function generateMermaidFromSteps(steps: WorkflowStep[], _name?: string): string
     foreach: [],
     join: [],
     flow: [],
+    trigger: [],
   };
 
   for (let i = 0; i < steps.length; i++) {
@@ -2232,6 +2765,9 @@ function generateMermaidFromSteps(steps: WorkflowStep[], _name?: string): string
       case 'flow':
         classGroups.flow.push(nodeId);
         break;
+      case 'trigger':
+        classGroups.trigger.push(nodeId);
+        break;
       default:
         // Legacy support
         const execution = step.execution || step.type || 'automated';
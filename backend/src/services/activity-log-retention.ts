@@ -0,0 +1,295 @@
+import { createWriteStream } from 'fs';
+import { mkdir, rename, rm } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { Filter, ObjectId } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import { activityLogService } from './activity-log.js';
+import { ActivityLogEntry } from '../types/index.js';
+
+const DEFAULT_RETENTION_DAYS = 365;
+const DEFAULT_INTERVAL_HOURS = 24;
+// The first run waits for startup to settle, then runs once whatever the interval
+const FIRST_RUN_DELAY_MS = 60 * 1000;
+const ARCHIVE_BATCH_SIZE = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionPolicy {
+  defaultDays: number;                  // 0 keeps entries forever
+  eventTypes: Record<string, number>;   // Per event type overrides, same units
+  archiveDir: string;
+  intervalHours: number;                // 0 disables the scheduled run
+}
+
+export interface RetentionRun {
+  startedAt: Date;
+  finishedAt?: Date;
+  archived: number;
+  orphansDeleted: number;
+  files: string[];
+  error?: string;
+}
+
+function parseDays(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a number of days (0 keeps entries forever), got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse ACTIVITY_LOG_RETENTION - comma-separated `eventType=days` pairs,
+ * e.g. `task.updated=90,task.comment.added=0`
+ */
+function parseEventTypeRetention(value: string | undefined): Record<string, number> {
+  const retention: Record<string, number> = {};
+  if (!value) return retention;
+
+  for (const pair of value.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const [eventType, days] = pair.split('=').map((s) => s.trim());
+    if (!eventType || days === undefined) {
+      throw new Error(`ACTIVITY_LOG_RETENTION entries must look like eventType=days, got "${pair}"`);
+    }
+    retention[eventType] = parseDays(days, 0, `ACTIVITY_LOG_RETENTION for ${eventType}`);
+  }
+  return retention;
+}
+
+// Compact UTC timestamp for file names, e.g. 20260109T031500Z
+function fileTimestamp(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+/**
+ * Activity Log Retention Service
+ *
+ * Keeps `activity_logs` from growing without bound. On a schedule it
+ * finds entries older than their event type's retention period, writes
+ * them to gzip-compressed NDJSON files under ACTIVITY_LOG_ARCHIVE_DIR and
+ * only then deletes them. Each run also removes the logs of deleted tasks.
+ *
+ * Every API process runs the job unless ACTIVITY_LOG_RETENTION_INTERVAL_HOURS
+ * is 0, so with several processes enable it on one of them.
+ */
+class ActivityLogRetentionService {
+  private initialized = false;
+  private firstRunTimeout: NodeJS.Timeout | null = null;
+  private runInterval: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastRun: RetentionRun | null = null;
+  private policy: RetentionPolicy | null = null;
+
+  private get activityLogs() {
+    return getDb().collection<ActivityLogEntry>('activity_logs');
+  }
+
+  /**
+   * Read the policy and start the scheduled run - fails at startup on a bad configuration
+   */
+  initialize(): void {
+    if (this.initialized) return;
+
+    const policy = this.getPolicy();
+    if (policy.intervalHours > 0) {
+      // Processes restarted more often than the interval still archive on startup
+      this.firstRunTimeout = setTimeout(() => {
+        this.firstRunTimeout = null;
+        this.runScheduled();
+      }, FIRST_RUN_DELAY_MS);
+      this.runInterval = setInterval(() => this.runScheduled(), policy.intervalHours * 60 * 60 * 1000);
+    }
+
+    this.initialized = true;
+    console.log(
+      `[ActivityLogRetention] Initialized - default retention ${policy.defaultDays || 'forever'}` +
+        (policy.defaultDays ? ' days' : '') +
+        (policy.intervalHours > 0 ? `, running shortly after startup and every ${policy.intervalHours}h` : ', scheduled run disabled')
+    );
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.firstRunTimeout) {
+      clearTimeout(this.firstRunTimeout);
+      this.firstRunTimeout = null;
+    }
+    if (this.runInterval) {
+      clearInterval(this.runInterval);
+      this.runInterval = null;
+    }
+    console.log('[ActivityLogRetention] Shutdown complete');
+  }
+
+  private async runScheduled(): Promise<void> {
+    try {
+      await this.run();
+    } catch (error) {
+      console.error('[ActivityLogRetention] Scheduled run failed:', error);
+    }
+  }
+
+  getPolicy(): RetentionPolicy {
+    if (!this.policy) {
+      this.policy = {
+        defaultDays: parseDays(process.env.ACTIVITY_LOG_RETENTION_DAYS, DEFAULT_RETENTION_DAYS, 'ACTIVITY_LOG_RETENTION_DAYS'),
+        eventTypes: parseEventTypeRetention(process.env.ACTIVITY_LOG_RETENTION),
+        archiveDir: path.resolve(process.env.ACTIVITY_LOG_ARCHIVE_DIR || './data/activity-archive'),
+        intervalHours: parseDays(
+          process.env.ACTIVITY_LOG_RETENTION_INTERVAL_HOURS,
+          DEFAULT_INTERVAL_HOURS,
+          'ACTIVITY_LOG_RETENTION_INTERVAL_HOURS'
+        ),
+      };
+    }
+    return this.policy;
+  }
+
+  getLastRun(): RetentionRun | null {
+    return this.lastRun;
+  }
+
+  /**
+   * Entries past their retention period. Event types with their own
+   * setting are matched one by one; the default covers everything else.
+   */
+  buildExpiredFilter(now = new Date()): Filter<ActivityLogEntry> | null {
+    const { defaultDays, eventTypes } = this.getPolicy();
+    const cutoff = (days: number) => new Date(now.getTime() - days * DAY_MS);
+    const clauses: Filter<ActivityLogEntry>[] = [];
+
+    for (const [eventType, days] of Object.entries(eventTypes)) {
+      if (days > 0) {
+        clauses.push({ eventType: eventType as ActivityLogEntry['eventType'], timestamp: { $lt: cutoff(days) } });
+      }
+    }
+    if (defaultDays > 0) {
+      clauses.push({
+        eventType: { $nin: Object.keys(eventTypes) as ActivityLogEntry['eventType'][] },
+        timestamp: { $lt: cutoff(defaultDays) },
+      });
+    }
+
+    if (clauses.length === 0) return null;
+    return clauses.length === 1 ? clauses[0] : { $or: clauses };
+  }
+
+  /**
+   * Archive and delete expired entries, then clean up orphaned logs.
+   * Returns null when a run is already in progress.
+   */
+  async run(): Promise<RetentionRun | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    const run: RetentionRun = { startedAt: new Date(), archived: 0, orphansDeleted: 0, files: [] };
+    this.lastRun = run;
+
+    try {
+      const filter = this.buildExpiredFilter(run.startedAt);
+      if (filter) {
+        // Oldest first, a batch per file, so an interrupted run leaves every
+        // entry either archived and deleted or still in the collection
+        for (;;) {
+          const batch = await this.activityLogs
+            .find(filter)
+            .sort({ timestamp: 1, _id: 1 })
+            .limit(ARCHIVE_BATCH_SIZE)
+            .toArray();
+          if (batch.length === 0) break;
+
+          const file = await this.writeArchive(batch);
+          const ids = batch.map((entry) => entry._id);
+          await this.activityLogs.deleteMany({ _id: { $in: ids } });
+
+          run.files.push(file);
+          run.archived += batch.length;
+          if (batch.length < ARCHIVE_BATCH_SIZE) break;
+        }
+      }
+
+      run.orphansDeleted = await activityLogService.cleanupOrphanedLogs();
+
+      if (run.archived > 0) {
+        console.log(`[ActivityLogRetention] Archived ${run.archived} entries to ${run.files.length} file(s)`);
+      }
+      return run;
+    } catch (error) {
+      run.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      run.finishedAt = new Date();
+      this.running = false;
+    }
+  }
+
+  /**
+   * Write entries to <archiveDir>/YYYY/MM/activity-logs-<first>-<last>-<lastId>.ndjson.gz.
+   * The file is written under a temporary name and renamed once complete.
+   */
+  private async writeArchive(entries: ActivityLogEntry[]): Promise<string> {
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+    const dir = path.join(
+      this.getPolicy().archiveDir,
+      String(first.timestamp.getUTCFullYear()),
+      String(first.timestamp.getUTCMonth() + 1).padStart(2, '0')
+    );
+    const name = `activity-logs-${fileTimestamp(first.timestamp)}-${fileTimestamp(last.timestamp)}-${last._id.toString()}.ndjson.gz`;
+    const filePath = path.join(dir, name);
+    const tempPath = `${filePath}.tmp`;
+
+    await mkdir(dir, { recursive: true });
+    try {
+      await pipeline(
+        Readable.from(entries.map((entry) => JSON.stringify(entry) + '\n')),
+        createGzip(),
+        createWriteStream(tempPath)
+      );
+      await rename(tempPath, filePath);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+
+    return path.relative(this.getPolicy().archiveDir, filePath);
+  }
+
+  /**
+   * Entries matching the export filters, oldest first
+   */
+  exportCursor(options: {
+    from?: Date;
+    to?: Date;
+    actorId?: ObjectId;
+    eventTypes?: string[];
+    taskId?: ObjectId;
+  }) {
+    const filter: Record<string, unknown> = {};
+
+    if (options.from || options.to) {
+      filter.timestamp = {
+        ...(options.from && { $gte: options.from }),
+        ...(options.to && { $lt: options.to }),
+      };
+    }
+    if (options.actorId) {
+      filter.actorId = options.actorId;
+    }
+    if (options.eventTypes && options.eventTypes.length > 0) {
+      filter.eventType = { $in: options.eventTypes };
+    }
+    if (options.taskId) {
+      filter.taskId = options.taskId;
+    }
+
+    return this.activityLogs.find(filter).sort({ timestamp: 1, _id: 1 });
+  }
+}
+
+// Singleton instance
+export const activityLogRetentionService = new ActivityLogRetentionService();
+
+export default activityLogRetentionService;
@@ -1,24 +1,41 @@
 import { ObjectId } from 'mongodb';
 import { getDb } from '../db/connection.js';
-import { eventBus } from './event-bus.js';
-import { TaskEvent, ActivityLogEntry, FieldChange } from '../types/index.js';
+import { createError } from '../middleware/error-handler.js';
+import { eventBus, publishTaskEvent } from './event-bus.js';
+import { Task, TaskEvent, ActivityLogEntry, CommentRevision, FieldChange, User } from '../types/index.js';
+
+// @name - matched against display names with the spaces removed and the local part of emails
+const MENTION_PATTERN = /(?:^|[^\w@])@([\w.-]+)/g;
+
+// Comment events that are stored on the comment entry itself rather than as entries of their own
+const COMMENT_EVENT_TYPES = ['task.comment.added', 'task.comment.edited', 'task.comment.deleted', 'task.comment.mentioned'];
+
+function normalizeHandle(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, '');
+}
 
 /**
  * Activity Log Service
  *
  * Subscribes to the event bus and persists activity entries to the database.
- * Provides methods for querying activity history and adding manual comments.
+ * Provides methods for querying activity history and for task comments:
+ * threaded replies, @mentions resolved to user IDs, and edits that keep
+ * the earlier versions.
  */
 class ActivityLogService {
   private initialized = false;
 
+  private get comments() {
+    return getDb().collection<ActivityLogEntry>('activity_logs');
+  }
+
   /**
-   * Resolve actor information for activity log entries
+   * Resolve actor information for activity log entries (and audit log entries)
    * Populates the `actor` field with displayName and email from the users collection
    */
-  private async populateActors(
-    entries: ActivityLogEntry[]
-  ): Promise<ActivityLogEntry[]> {
+  async populateActors<T extends Pick<ActivityLogEntry, 'actorId' | 'actorType' | 'actor'>>(
+    entries: T[]
+  ): Promise<T[]> {
     if (entries.length === 0) return entries;
 
     const db = getDb();
@@ -102,8 +119,8 @@ class ActivityLogService {
    */
   async recordEvent(event: TaskEvent): Promise<ActivityLogEntry | null> {
     try {
-      // Skip comment events - they are already recorded directly by addComment()
-      if (event.type === 'task.comment.added') {
+      // Skip comment events - the comment entry is written directly by addComment() and friends
+      if (COMMENT_EVENT_TYPES.includes(event.type)) {
         return null;
       }
 
@@ -135,43 +152,234 @@ class ActivityLogService {
   }
 
   /**
-   * Add a manual comment to a task
+   * Users named with @handle in a comment - matched against display names
+   * with the spaces removed and the local part of emails. Agent users can
+   * be mentioned too, so a comment can ping an agent.
+   */
+  async resolveMentions(comment: string): Promise<ObjectId[]> {
+    const handles = new Set<string>();
+    for (const match of comment.matchAll(MENTION_PATTERN)) {
+      handles.add(normalizeHandle(match[1].replace(/[.-]+$/, '')));
+    }
+    if (handles.size === 0) return [];
+
+    const users = await getDb()
+      .collection<User>('users')
+      .find({ isActive: true }, { projection: { displayName: 1, email: 1 } })
+      .toArray();
+
+    return users
+      .filter((user) =>
+        handles.has(normalizeHandle(user.displayName || '')) ||
+        (user.email && handles.has(normalizeHandle(user.email.split('@')[0])))
+      )
+      .map((user) => user._id);
+  }
+
+  /**
+   * Add a manual comment to a task, optionally as a reply to another
+   * comment. Replies to a reply join the thread of its top-level comment.
    */
   async addComment(
     taskId: ObjectId,
     comment: string,
     actorId?: ObjectId | null,
+    actorType: 'user' | 'system' | 'daemon' = 'user',
+    options: { parentId?: ObjectId | null } = {}
+  ): Promise<ActivityLogEntry> {
+    const db = getDb();
+
+    const task = await db.collection<Task>('tasks').findOne({ _id: taskId });
+    if (!task) {
+      throw createError('Task not found', 404);
+    }
+
+    let parentId: ObjectId | null = null;
+    if (options.parentId) {
+      const parent = await this.comments.findOne({ _id: options.parentId, taskId });
+      if (!parent) {
+        throw createError('Parent comment not found', 404);
+      }
+      if (parent.deletedAt) {
+        throw createError('Cannot reply to a deleted comment', 400);
+      }
+      parentId = parent.parentId ?? parent._id;
+    }
+
+    const mentions = await this.resolveMentions(comment);
+
+    const entry: Omit<ActivityLogEntry, '_id'> = {
+      taskId,
+      eventType: 'task.comment.added',
+      actorId: actorId ?? null,
+      actorType,
+      comment,
+      timestamp: new Date(),
+    };
+    if (parentId) {
+      entry.parentId = parentId;
+    }
+    if (mentions.length > 0) {
+      entry.mentions = mentions;
+    }
+
+    const result = await this.comments.insertOne(entry as ActivityLogEntry);
+    const created = { ...entry, _id: result.insertedId } as ActivityLogEntry;
+
+    // Also publish to event bus for other subscribers
+    await publishTaskEvent('task.comment.added', task, {
+      actorId,
+      actorType,
+      metadata: this.commentMetadata(created),
+    });
+    await this.publishMentions(task, created, mentions);
+
+    const [populated] = await this.populateActors([created]);
+    return populated;
+  }
+
+  /**
+   * Change the text of a comment, keeping the previous version in its edit
+   * history. Only users @mentioned for the first time are pinged again.
+   */
+  async editComment(
+    taskId: ObjectId,
+    commentId: ObjectId,
+    comment: string,
+    actorId?: ObjectId | null,
     actorType: 'user' | 'system' | 'daemon' = 'user'
-  ): Promise<ActivityLogEntry | null> {
-    try {
-      const db = getDb();
+  ): Promise<ActivityLogEntry> {
+    const { task, existing } = await this.getEditableComment(taskId, commentId, actorId);
+
+    const mentions = await this.resolveMentions(comment);
+    const now = new Date();
+    const revision: CommentRevision = {
+      comment: existing.comment ?? '',
+      editedAt: existing.editedAt ?? existing.timestamp,
+      editedById: existing.actorId ?? null,
+    };
+    if (existing.mentions?.length) {
+      revision.mentions = existing.mentions;
+    }
 
-      const entry: Omit<ActivityLogEntry, '_id'> = {
-        taskId,
-        eventType: 'task.comment.added',
-        actorId: actorId ?? null,
-        actorType,
-        comment,
-        timestamp: new Date(),
-      };
+    const updated = await this.comments.findOneAndUpdate(
+      { _id: commentId, deletedAt: { $exists: false } },
+      {
+        $set: mentions.length > 0 ? { comment, mentions, editedAt: now } : { comment, editedAt: now },
+        ...(mentions.length > 0 ? {} : { $unset: { mentions: '' } }),
+        $push: { editHistory: revision },
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      throw createError('Comment not found', 404);
+    }
 
-      const result = await db.collection('activity_logs').insertOne(entry);
+    await publishTaskEvent('task.comment.edited', task, {
+      actorId,
+      actorType,
+      metadata: this.commentMetadata(updated),
+    });
 
-      // Also publish to event bus for other subscribers
-      await eventBus.publish({
-        type: 'task.comment.added',
-        taskId,
-        task: {} as any, // Comment events don't include full task
-        actorId,
-        actorType,
-        metadata: { comment },
-      });
+    const previous = new Set((existing.mentions ?? []).map((id) => id.toString()));
+    await this.publishMentions(task, updated, mentions.filter((id) => !previous.has(id.toString())));
 
-      return { ...entry, _id: result.insertedId } as ActivityLogEntry;
-    } catch (error) {
-      console.error('ActivityLogService: Error adding comment:', error);
-      return null;
+    const [populated] = await this.populateActors([updated]);
+    return populated;
+  }
+
+  /**
+   * Delete a comment. The entry stays as a placeholder so its replies keep
+   * their thread; the last text moves to the edit history. Moderators
+   * (admins) can delete anyone's comment.
+   */
+  async deleteComment(
+    taskId: ObjectId,
+    commentId: ObjectId,
+    actorId?: ObjectId | null,
+    actorType: 'user' | 'system' | 'daemon' = 'user',
+    options: { moderator?: boolean } = {}
+  ): Promise<void> {
+    const { task, existing } = await this.getEditableComment(taskId, commentId, actorId, options.moderator);
+
+    const now = new Date();
+    const revision: CommentRevision = {
+      comment: existing.comment ?? '',
+      editedAt: existing.editedAt ?? existing.timestamp,
+      editedById: existing.actorId ?? null,
+    };
+
+    await this.comments.updateOne(
+      { _id: commentId },
+      {
+        $set: { deletedAt: now, deletedById: actorId ?? null },
+        $unset: { comment: '', mentions: '' },
+        $push: { editHistory: revision },
+      }
+    );
+
+    await publishTaskEvent('task.comment.deleted', task, {
+      actorId,
+      actorType,
+      metadata: { commentId: commentId.toString(), parentId: existing.parentId?.toString() ?? null },
+    });
+  }
+
+  /**
+   * Load a comment for editing or deleting. Only its author (or a
+   * moderator) can change it; comments without an author (system or daemon
+   * notes) are open to anyone allowed to write tasks.
+   */
+  private async getEditableComment(
+    taskId: ObjectId,
+    commentId: ObjectId,
+    actorId?: ObjectId | null,
+    moderator = false
+  ): Promise<{ task: Task; existing: ActivityLogEntry }> {
+    const existing = await this.comments.findOne({
+      _id: commentId,
+      taskId,
+      eventType: 'task.comment.added',
+    });
+    if (!existing || existing.deletedAt) {
+      throw createError('Comment not found', 404);
+    }
+    if (!moderator && existing.actorId && (!actorId || !existing.actorId.equals(actorId))) {
+      throw createError('Only the author can change this comment', 403);
     }
+
+    const task = await getDb().collection<Task>('tasks').findOne({ _id: taskId });
+    if (!task) {
+      throw createError('Task not found', 404);
+    }
+
+    return { task, existing };
+  }
+
+  private commentMetadata(entry: ActivityLogEntry): Record<string, unknown> {
+    return {
+      commentId: entry._id.toString(),
+      parentId: entry.parentId?.toString() ?? null,
+      comment: entry.comment,
+      mentions: (entry.mentions ?? []).map((id) => id.toString()),
+    };
+  }
+
+  /**
+   * Publish task.comment.mentioned for the users a comment pings, so
+   * notifications, webhooks and workflow triggers can act on it
+   */
+  private async publishMentions(task: Task, entry: ActivityLogEntry, mentions: ObjectId[]): Promise<void> {
+    if (mentions.length === 0) return;
+
+    await publishTaskEvent('task.comment.mentioned', task, {
+      actorId: entry.actorId,
+      actorType: entry.actorType,
+      metadata: {
+        ...this.commentMetadata(entry),
+        mentions: mentions.map((id) => id.toString()),
+      },
+    });
   }
 
   /**
@@ -252,6 +460,27 @@ class ActivityLogService {
     return { data: populatedEntries, total };
   }
 
+  /**
+   * Comments that @mention a user, newest first - how an agent finds the
+   * comments that ping it
+   */
+  async getMentions(
+    userId: ObjectId,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ data: ActivityLogEntry[]; total: number }> {
+    const { limit = 50, offset = 0 } = options;
+    const filter = { mentions: userId, deletedAt: { $exists: false } };
+
+    const [entries, total] = await Promise.all([
+      this.comments.find(filter).sort({ timestamp: -1 }).skip(offset).limit(limit).toArray(),
+      this.comments.countDocuments(filter),
+    ]);
+
+    const populatedEntries = await this.populateActors(entries);
+
+    return { data: populatedEntries, total };
+  }
+
   /**
    * Delete activity logs for a task (used when task is deleted)
    */
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ObjectId } from 'mongodb';
+import { createMemoryDb, MemoryDb } from '../test-utils/memory-db.js';
+import { attachmentService } from './attachment-service.js';
+import { publishTaskEvent } from './event-bus.js';
+
+let memory: MemoryDb;
+
+// Limits are read when the service is created
+vi.hoisted(() => {
+  process.env.ATTACHMENT_MAX_BYTES = '16';
+  process.env.ATTACHMENT_MAX_PER_TASK = '2';
+  process.env.ATTACHMENT_ALLOWED_TYPES = 'text/plain, image/*';
+  process.env.ATTACHMENT_STORAGE = 'local';
+});
+
+vi.mock('../db/connection.js', () => ({ getDb: () => memory.asDb() }));
+vi.mock('./event-bus.js', () => ({ publishTaskEvent: vi.fn() }));
+
+describe('attachment uploads', () => {
+  const taskId = new ObjectId();
+  let root: string;
+
+  const file = (fields: Partial<{ filename: string; contentType: string; data: Buffer }> = {}) => ({
+    filename: 'notes.txt',
+    contentType: 'text/plain',
+    data: Buffer.from('hello'),
+    ...fields,
+  });
+
+  beforeAll(async () => {
+    // The storage driver is created on first use
+    root = await mkdtemp(path.join(tmpdir(), 'attachments-'));
+    process.env.ATTACHMENT_DIR = root;
+  });
+
+  afterAll(() => rm(root, { recursive: true, force: true }));
+
+  beforeEach(async () => {
+    memory = createMemoryDb();
+    vi.mocked(publishTaskEvent).mockClear();
+    await memory.collection('tasks').insertOne({ _id: taskId, title: 'Build' });
+  });
+
+  it('stores the file under a generated key, whatever its name', async () => {
+    const attachment = await attachmentService.upload(taskId, file({ filename: '../../etc/passwd' }));
+
+    expect(attachment.storageKey).toBe(`${taskId}/${attachment._id}`);
+    expect(attachment).toMatchObject({ filename: '../../etc/passwd', size: 5, storage: 'local' });
+    expect(await readFile(path.join(root, attachment.storageKey), 'utf8')).toBe('hello');
+    expect(publishTaskEvent).toHaveBeenCalledWith('task.attachment.added', expect.anything(), expect.anything());
+  });
+
+  it('rejects empty and oversized files', async () => {
+    await expect(attachmentService.upload(taskId, file({ data: Buffer.alloc(0) })))
+      .rejects.toMatchObject({ statusCode: 400, message: 'Attachment is empty' });
+    await expect(attachmentService.upload(taskId, file({ data: Buffer.alloc(17) })))
+      .rejects.toMatchObject({ statusCode: 413 });
+    await expect(attachmentService.upload(taskId, file({ data: Buffer.alloc(16) }))).resolves.toBeDefined();
+  });
+
+  it('only accepts the allowed types', async () => {
+    await expect(attachmentService.upload(taskId, file({ contentType: 'text/html' })))
+      .rejects.toMatchObject({ statusCode: 415, details: { allowedTypes: ['text/plain', 'image/*'] } });
+    await expect(attachmentService.upload(taskId, file({ contentType: 'image/PNG' }))).resolves.toBeDefined();
+  });
+
+  it('limits the number of attachments per task', async () => {
+    await attachmentService.upload(taskId, file());
+    await attachmentService.upload(taskId, file());
+
+    await expect(attachmentService.upload(taskId, file()))
+      .rejects.toMatchObject({ statusCode: 400, message: 'A task can have at most 2 attachments' });
+    expect(await memory.collection('attachments').countDocuments()).toBe(2);
+  });
+
+  it('rejects uploads to a missing task', async () => {
+    await expect(attachmentService.upload(new ObjectId(), file())).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
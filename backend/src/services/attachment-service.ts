@@ -0,0 +1,243 @@
+import { createHash } from 'crypto';
+import { ObjectId } from 'mongodb';
+import { Readable } from 'stream';
+import { getDb } from '../db/connection.js';
+import { createError } from '../middleware/error-handler.js';
+import { publishTaskEvent } from './event-bus.js';
+import { AttachmentStorage, AttachmentNotFoundError, createAttachmentStorage } from './attachment-storage.js';
+import { Task, TaskAttachment } from '../types/index.js';
+
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024;
+const DEFAULT_MAX_PER_TASK = 100;
+
+// Artifacts agents typically produce - reports, diffs, data files, archives
+// and screenshots. SVG and HTML are left out because they can carry script.
+const DEFAULT_ALLOWED_TYPES = [
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'text/x-diff',
+  'text/x-patch',
+  'application/json',
+  'application/x-ndjson',
+  'application/xml',
+  'application/yaml',
+  'application/pdf',
+  'application/zip',
+  'application/gzip',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+];
+
+export interface AttachmentLimits {
+  maxBytes: number;
+  maxPerTask: number;
+  allowedTypes: string[];               // MIME types; 'type/*' allows a whole family
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Attachment Service
+ *
+ * Keeps files attached to tasks - agent artifacts that would otherwise be
+ * packed into `Task.metadata`. File bytes go to the storage driver picked
+ * by ATTACHMENT_STORAGE; the `attachments` collection holds the records.
+ * Uploads are checked against the size, per-task count and MIME type
+ * limits, and adding or deleting an attachment publishes
+ * task.attachment.added / task.attachment.deleted, which the activity log
+ * records.
+ */
+class AttachmentService {
+  private storage: AttachmentStorage | null = null;
+  private limits: AttachmentLimits = {
+    maxBytes: parsePositiveInt(process.env.ATTACHMENT_MAX_BYTES, DEFAULT_MAX_BYTES),
+    maxPerTask: parsePositiveInt(process.env.ATTACHMENT_MAX_PER_TASK, DEFAULT_MAX_PER_TASK),
+    allowedTypes: process.env.ATTACHMENT_ALLOWED_TYPES
+      ? process.env.ATTACHMENT_ALLOWED_TYPES.split(',').map((t) => t.trim().toLowerCase()).filter(Boolean)
+      : DEFAULT_ALLOWED_TYPES,
+  };
+
+  private get attachments() {
+    return getDb().collection<TaskAttachment>('attachments');
+  }
+
+  /**
+   * Create the storage driver - fails at startup on a bad configuration
+   */
+  initialize(): void {
+    if (this.storage) return;
+
+    this.storage = createAttachmentStorage();
+    console.log(`AttachmentService: Using ${this.storage.name} storage`);
+  }
+
+  private getStorage(): AttachmentStorage {
+    if (!this.storage) {
+      this.initialize();
+    }
+    return this.storage!;
+  }
+
+  getLimits(): AttachmentLimits {
+    return this.limits;
+  }
+
+  isAllowedType(contentType: string): boolean {
+    const type = contentType.toLowerCase();
+    return this.limits.allowedTypes.some((allowed) =>
+      allowed.endsWith('/*') ? type.startsWith(allowed.slice(0, -1)) : type === allowed
+    );
+  }
+
+  async list(taskId: ObjectId): Promise<TaskAttachment[]> {
+    return this.attachments.find({ taskId }).sort({ createdAt: -1 }).toArray();
+  }
+
+  async upload(
+    taskId: ObjectId,
+    file: { filename: string; contentType: string; data: Buffer },
+    actorId?: ObjectId | null,
+    actorType: 'user' | 'system' | 'daemon' = 'user'
+  ): Promise<TaskAttachment> {
+    const task = await getDb().collection<Task>('tasks').findOne({ _id: taskId });
+    if (!task) {
+      throw createError('Task not found', 404);
+    }
+
+    if (file.data.length === 0) {
+      throw createError('Attachment is empty', 400);
+    }
+    if (file.data.length > this.limits.maxBytes) {
+      throw createError(`Attachments are limited to ${this.limits.maxBytes} bytes`, 413);
+    }
+    if (!this.isAllowedType(file.contentType)) {
+      throw createError(`Attachments of type ${file.contentType} are not allowed`, 415, {
+        allowedTypes: this.limits.allowedTypes,
+      });
+    }
+
+    const count = await this.attachments.countDocuments({ taskId });
+    if (count >= this.limits.maxPerTask) {
+      throw createError(`A task can have at most ${this.limits.maxPerTask} attachments`, 400);
+    }
+
+    const storage = this.getStorage();
+    const _id = new ObjectId();
+    const attachment: TaskAttachment = {
+      _id,
+      taskId,
+      filename: file.filename,
+      contentType: file.contentType,
+      size: file.data.length,
+      sha256: createHash('sha256').update(file.data).digest('hex'),
+      storage: storage.name,
+      storageKey: `${taskId.toString()}/${_id.toString()}`,
+      uploadedById: actorId ?? null,
+      createdAt: new Date(),
+    };
+
+    // Write the file first so a record never points at nothing
+    await storage.put(attachment.storageKey, file.data, attachment.contentType);
+    await this.attachments.insertOne(attachment);
+
+    await publishTaskEvent('task.attachment.added', task, {
+      actorId,
+      actorType,
+      metadata: this.eventMetadata(attachment),
+    });
+
+    return attachment;
+  }
+
+  /**
+   * An attachment's record and a stream of its content
+   */
+  async open(taskId: ObjectId, attachmentId: ObjectId): Promise<{ attachment: TaskAttachment; stream: Readable }> {
+    const attachment = await this.attachments.findOne({ _id: attachmentId, taskId });
+    if (!attachment) {
+      throw createError('Attachment not found', 404);
+    }
+
+    const storage = this.getStorage();
+    if (attachment.storage !== storage.name) {
+      throw createError(`Attachment is kept in ${attachment.storage} storage, but ${storage.name} storage is configured`, 500);
+    }
+
+    try {
+      const stream = await storage.get(attachment.storageKey);
+      return { attachment, stream };
+    } catch (error) {
+      if (error instanceof AttachmentNotFoundError) {
+        throw createError('Attachment file is missing from storage', 404);
+      }
+      throw error;
+    }
+  }
+
+  async delete(
+    taskId: ObjectId,
+    attachmentId: ObjectId,
+    actorId?: ObjectId | null,
+    actorType: 'user' | 'system' | 'daemon' = 'user'
+  ): Promise<void> {
+    const attachment = await this.attachments.findOne({ _id: attachmentId, taskId });
+    if (!attachment) {
+      throw createError('Attachment not found', 404);
+    }
+
+    await this.attachments.deleteOne({ _id: attachmentId });
+    await this.removeFile(attachment);
+
+    const task = await getDb().collection<Task>('tasks').findOne({ _id: taskId });
+    if (task) {
+      await publishTaskEvent('task.attachment.deleted', task, {
+        actorId,
+        actorType,
+        metadata: this.eventMetadata(attachment),
+      });
+    }
+  }
+
+  /**
+   * Delete all attachments of a task (used when the task is deleted)
+   */
+  async deleteTaskAttachments(taskId: ObjectId): Promise<number> {
+    const attachments = await this.attachments.find({ taskId }).toArray();
+    if (attachments.length === 0) return 0;
+
+    await this.attachments.deleteMany({ taskId });
+    for (const attachment of attachments) {
+      await this.removeFile(attachment);
+    }
+    return attachments.length;
+  }
+
+  // A file left behind is only wasted space, so failures are logged rather than thrown
+  private async removeFile(attachment: TaskAttachment): Promise<void> {
+    try {
+      await this.getStorage().delete(attachment.storageKey);
+    } catch (error) {
+      console.error(`AttachmentService: Failed to delete file ${attachment.storageKey}:`, error);
+    }
+  }
+
+  private eventMetadata(attachment: TaskAttachment): Record<string, unknown> {
+    return {
+      attachmentId: attachment._id.toString(),
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      size: attachment.size,
+    };
+  }
+}
+
+// Singleton instance
+export const attachmentService = new AttachmentService();
+
+export default attachmentService;
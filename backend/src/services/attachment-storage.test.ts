@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AttachmentNotFoundError, LocalAttachmentStorage, createAttachmentStorage } from './attachment-storage.js';
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+describe('LocalAttachmentStorage', () => {
+  let root: string;
+  let storage: LocalAttachmentStorage;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'attachments-'));
+    storage = new LocalAttachmentStorage(path.join(root, 'files'));
+  });
+
+  afterEach(() => rm(root, { recursive: true, force: true }));
+
+  it('stores, reads and deletes files by key', async () => {
+    await storage.put('task/file', Buffer.from('report'));
+    expect(await readAll(await storage.get('task/file'))).toBe('report');
+
+    await storage.delete('task/file');
+    await expect(storage.get('task/file')).rejects.toBeInstanceOf(AttachmentNotFoundError);
+    await expect(storage.delete('task/file')).resolves.toBeUndefined();
+  });
+
+  it('rejects keys that leave the storage directory', async () => {
+    await writeFile(path.join(root, 'secret'), 'keep out');
+
+    for (const key of ['../secret', 'task/../../secret', path.join(root, 'secret'), '', '.']) {
+      await expect(storage.put(key, Buffer.from('x'))).rejects.toThrow(/Invalid attachment key/);
+      await expect(storage.get(key)).rejects.toThrow(/Invalid attachment key/);
+      await expect(storage.delete(key)).rejects.toThrow(/Invalid attachment key/);
+    }
+    expect(await readdir(root)).toEqual(['secret']);
+  });
+
+  it('rejects sibling directories that share the root prefix', async () => {
+    await expect(storage.put('../files-other/x', Buffer.from('x'))).rejects.toThrow(/Invalid attachment key/);
+  });
+});
+
+describe('createAttachmentStorage', () => {
+  it('rejects unknown drivers and incomplete S3 settings', () => {
+    expect(() => createAttachmentStorage('ftp')).toThrow(/Unknown ATTACHMENT_STORAGE "ftp"/);
+    expect(() => createAttachmentStorage('s3')).toThrow(/ATTACHMENT_S3_BUCKET/);
+  });
+});
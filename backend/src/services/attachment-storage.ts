@@ -0,0 +1,193 @@
+import { createHash, createHmac } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+
+/**
+ * Where attachment files live. Keys are generated by the attachment
+ * service (`<taskId>/<attachmentId>`), so drivers never see user-supplied
+ * file names.
+ */
+export interface AttachmentStorage {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Rejects with AttachmentNotFoundError when the key doesn't exist
+  get(key: string): Promise<Readable>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
+
+export class AttachmentNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Attachment file not found: ${key}`);
+    this.name = 'AttachmentNotFoundError';
+  }
+}
+
+// ============================================================================
+// Local filesystem
+// ============================================================================
+
+/**
+ * Files under a directory on this machine (ATTACHMENT_DIR). Only suitable
+ * when every API process shares that directory.
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+  readonly name = 'local';
+  private root: string;
+
+  constructor(root = process.env.ATTACHMENT_DIR || './data/attachments') {
+    this.root = path.resolve(root);
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    try {
+      await stat(filePath);
+    } catch {
+      throw new AttachmentNotFoundError(key);
+    }
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+// ============================================================================
+// S3-compatible object storage
+// ============================================================================
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Objects in an S3-compatible bucket (AWS S3, MinIO, R2, ...), addressed
+ * path-style and signed with AWS Signature Version 4.
+ */
+export class S3AttachmentStorage implements AttachmentStorage {
+  readonly name = 's3';
+  private endpoint: string;
+  private bucket: string;
+  private region: string;
+  private accessKeyId: string;
+  private secretAccessKey: string;
+
+  constructor() {
+    const bucket = process.env.ATTACHMENT_S3_BUCKET;
+    const accessKeyId = process.env.ATTACHMENT_S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.ATTACHMENT_S3_SECRET_ACCESS_KEY;
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error(
+        'ATTACHMENT_STORAGE=s3 needs ATTACHMENT_S3_BUCKET, ATTACHMENT_S3_ACCESS_KEY_ID and ATTACHMENT_S3_SECRET_ACCESS_KEY'
+      );
+    }
+
+    this.region = process.env.ATTACHMENT_S3_REGION || 'us-east-1';
+    this.endpoint = (process.env.ATTACHMENT_S3_ENDPOINT || `https://s3.${this.region}.amazonaws.com`).replace(/\/+$/, '');
+    this.bucket = bucket;
+    this.accessKeyId = accessKeyId;
+    this.secretAccessKey = secretAccessKey;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, data, { 'content-type': contentType });
+    if (!response.ok) {
+      throw new Error(`S3 upload of ${key} failed with status ${response.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      throw new AttachmentNotFoundError(key);
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 download of ${key} failed with status ${response.status}`);
+    }
+    return Readable.fromWeb(response.body as WebReadableStream);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete of ${key} failed with status ${response.status}`);
+    }
+  }
+
+  private async request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const url = new URL(`${this.endpoint}/${this.bucket}/${key.split('/').map(encodeURIComponent).join('/')}`);
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalHeaders = signedHeaderNames.map((name) => `${name}:${headers[name].trim()}\n`).join('');
+    const signedHeaders = signedHeaderNames.join(';');
+
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.secretAccessKey}`, dateStamp), this.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host: _host, ...requestHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+}
+
+/**
+ * Create the storage selected by ATTACHMENT_STORAGE ('local' by default).
+ */
+export function createAttachmentStorage(kind = process.env.ATTACHMENT_STORAGE || 'local'): AttachmentStorage {
+  switch (kind) {
+    case 'local':
+      return new LocalAttachmentStorage();
+    case 's3':
+      return new S3AttachmentStorage();
+    default:
+      throw new Error(`Unknown ATTACHMENT_STORAGE "${kind}" - expected "local" or "s3"`);
+  }
+}
@@ -0,0 +1,104 @@
+import { ObjectId } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import { eventBus } from './event-bus.js';
+import { activityLogService } from './activity-log.js';
+import { AuditEvent, AuditEntityType, AuditLogEntry } from '../types/index.js';
+
+/**
+ * Audit Log Service
+ *
+ * The activity log's counterpart for configuration: records the audit
+ * events routers publish when workflows, views, field configs, lookups,
+ * webhooks, users, teams, tags and API keys change, and answers who
+ * changed an entity and how.
+ */
+class AuditLogService {
+  private initialized = false;
+
+  private get auditLogs() {
+    return getDb().collection<AuditLogEntry>('audit_logs');
+  }
+
+  /**
+   * Initialize the service and subscribe to audit events
+   */
+  initialize(): void {
+    if (this.initialized) return;
+
+    eventBus.subscribeAudit('*', async (event: AuditEvent) => {
+      await this.recordEvent(event);
+    });
+
+    this.initialized = true;
+    console.log('AuditLogService: Initialized and listening for events');
+  }
+
+  /**
+   * Record an audit event
+   */
+  async recordEvent(event: AuditEvent): Promise<AuditLogEntry | null> {
+    try {
+      // Build entry, omitting undefined fields to avoid MongoDB validation errors
+      const entry: AuditLogEntry = {
+        _id: new ObjectId(),
+        entityType: event.entityType,
+        entityId: event.entityId,
+        action: event.action,
+        changes: event.changes,
+        actorId: event.actorId ?? null,
+        actorType: event.actorType,
+        timestamp: event.timestamp,
+      };
+
+      if (event.entityName) {
+        entry.entityName = event.entityName;
+      }
+      if (event.metadata && Object.keys(event.metadata).length > 0) {
+        entry.metadata = event.metadata;
+      }
+
+      await this.auditLogs.insertOne(entry);
+      return entry;
+    } catch (error) {
+      console.error('AuditLogService: Error recording event:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Audit entries, newest first - one entity's history when entityId is given
+   */
+  async getHistory(
+    options: {
+      entityTypes: AuditEntityType[];
+      entityId?: ObjectId;
+      actorId?: ObjectId;
+      limit?: number;
+      offset?: number;
+    }
+  ): Promise<{ data: AuditLogEntry[]; total: number }> {
+    const { entityTypes, entityId, actorId, limit = 50, offset = 0 } = options;
+
+    const filter: Record<string, unknown> = { entityType: { $in: entityTypes } };
+    if (entityId) {
+      filter.entityId = entityId;
+    }
+    if (actorId) {
+      filter.actorId = actorId;
+    }
+
+    const [entries, total] = await Promise.all([
+      this.auditLogs.find(filter).sort({ timestamp: -1 }).skip(offset).limit(limit).toArray(),
+      this.auditLogs.countDocuments(filter),
+    ]);
+
+    const populatedEntries = await activityLogService.populateActors(entries);
+
+    return { data: populatedEntries, total };
+  }
+}
+
+// Singleton instance
+export const auditLogService = new AuditLogService();
+
+export default auditLogService;
@@ -11,9 +11,14 @@ import {
   JoinConditionResult,
   CreateBatchJobInput,
   BatchCallbackPayload,
+  BatchItemTransition,
+  BatchCounterReconciliation,
   ReviewDecision,
 } from '../types/index.js';
 
+// How many Idempotency-Key values to remember per item
+const MAX_IDEMPOTENCY_KEYS = 20;
+
 type BatchJobEventHandler = (event: BatchJobEvent) => void | Promise<void>;
 
 /**
@@ -367,7 +372,7 @@ class BatchJobService {
   async handleCallback(
     payload: BatchCallbackPayload,
     secret: string
-  ): Promise<{ item: BatchItem; joinResult: JoinConditionResult | null }> {
+  ): Promise<{ item: BatchItem; transition: BatchItemTransition; joinResult: JoinConditionResult | null }> {
     const jobId = new ObjectId(payload.jobId);
     const now = new Date();
 
@@ -385,46 +390,37 @@ class BatchJobService {
       throw new Error('Batch job results are already sealed');
     }
 
-    // Upsert batch item (idempotent)
-    const itemStatus: BatchItemStatus = payload.success ? 'completed' : 'failed';
-    const updateResult = await this.batchItems.findOneAndUpdate(
-      { batchJobId: jobId, itemKey: payload.itemKey },
-      {
-        $set: {
-          externalId: payload.externalId,
-          status: itemStatus,
-          resultData: payload.result,
-          error: payload.error,
-          receivedAt: now,
-          completedAt: now,
-        },
-        $inc: { attempts: 1 },
-        $setOnInsert: {
-          batchJobId: jobId,
-          itemKey: payload.itemKey,
-          createdAt: now,
-        },
-      },
-      { upsert: true, returnDocument: 'after' }
-    );
-
-    const item = updateResult!;
+    // A callback that was already applied (same Idempotency-Key) is acknowledged without changes
+    if (payload.idempotencyKey) {
+      const applied = await this.batchItems.findOne({
+        batchJobId: jobId,
+        itemKey: payload.itemKey,
+        idempotencyKeys: payload.idempotencyKey,
+      });
+      if (applied) {
+        return { item: applied, transition: 'duplicate', joinResult: null };
+      }
+    }
 
-    // Update batch job counters atomically
-    const counterUpdates: Record<string, number> = {
-      receivedCount: 1,
-    };
+    const { item, transition } = await this.applyItemResult(jobId, payload, now);
+    if (transition === 'duplicate') {
+      return { item, transition, joinResult: null };
+    }
 
-    if (payload.success) {
+    // Counters follow the item's status transition, so a retried callback never counts twice
+    const counterUpdates: Record<string, number> = {};
+    if (transition === 'first_receipt') {
+      counterUpdates.receivedCount = 1;
+      counterUpdates[payload.success ? 'processedCount' : 'failedCount'] = 1;
+    } else if (transition === 'recovered') {
       counterUpdates.processedCount = 1;
-    } else {
-      counterUpdates.failedCount = 1;
+      counterUpdates.failedCount = -1;
     }
 
     await this.batchJobs.updateOne(
       { _id: jobId },
       {
-        $inc: counterUpdates,
+        ...(Object.keys(counterUpdates).length > 0 && { $inc: counterUpdates }),
         $set: { updatedAt: now },
       }
     );
@@ -444,6 +440,7 @@ class BatchJobService {
       actorId: null,
       actorType: 'system',
       timestamp: now,
+      metadata: { transition },
     });
 
     // Check join condition
@@ -458,7 +455,134 @@ class BatchJobService {
       await this.completeJoin(updatedJob, joinResult);
     }
 
-    return { item, joinResult: joinResult.isSatisfied ? joinResult : null };
+    return { item, transition, joinResult: joinResult.isSatisfied ? joinResult : null };
+  }
+
+  /**
+   * Write a callback's result to its item and report the status transition.
+   * The item is claimed with a conditional update, so concurrent deliveries
+   * of the same result see exactly one first_receipt (or recovered).
+   */
+  private async applyItemResult(
+    jobId: ObjectId,
+    payload: BatchCallbackPayload,
+    now: Date
+  ): Promise<{ item: BatchItem; transition: BatchItemTransition }> {
+    const fields = {
+      externalId: payload.externalId,
+      status: (payload.success ? 'completed' : 'failed') as BatchItemStatus,
+      resultData: payload.result,
+      error: payload.error,
+      receivedAt: now,
+      completedAt: now,
+    };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      // Completed items are final - anything after that is a duplicate delivery
+      const previous = await this.batchItems.findOneAndUpdate(
+        { batchJobId: jobId, itemKey: payload.itemKey, status: { $ne: 'completed' } },
+        {
+          $set: fields,
+          $inc: { attempts: 1 },
+          ...(payload.idempotencyKey && {
+            $push: { idempotencyKeys: { $each: [payload.idempotencyKey], $slice: -MAX_IDEMPOTENCY_KEYS } },
+          }),
+        },
+        { returnDocument: 'before' }
+      );
+
+      if (previous) {
+        const transition: BatchItemTransition = previous.status === 'failed'
+          ? (payload.success ? 'recovered' : 'retried')
+          : 'first_receipt';
+        return { item: { ...previous, ...fields, attempts: previous.attempts + 1 }, transition };
+      }
+
+      const existing = await this.batchItems.findOne({ batchJobId: jobId, itemKey: payload.itemKey });
+      if (existing) {
+        return { item: existing, transition: 'duplicate' };
+      }
+
+      // Item wasn't declared up front - create it from the callback
+      const item: Omit<BatchItem, '_id'> = {
+        batchJobId: jobId,
+        itemKey: payload.itemKey,
+        ...fields,
+        attempts: 1,
+        ...(payload.idempotencyKey && { idempotencyKeys: [payload.idempotencyKey] }),
+        createdAt: now,
+      };
+      try {
+        const result = await this.batchItems.insertOne(item as BatchItem);
+        return { item: { ...item, _id: result.insertedId }, transition: 'first_receipt' };
+      } catch (error) {
+        // Another delivery for the same item created it first - apply against that one
+        if ((error as { code?: number }).code !== 11000) throw error;
+      }
+    }
+
+    throw new Error(`Failed to apply callback for item ${payload.itemKey}`);
+  }
+
+  // ============================================================================
+  // Counter Reconciliation
+  // ============================================================================
+
+  /**
+   * Recompute a job's counters from its items, repairing any drift (e.g. a
+   * crash between an item update and its counter update). Completes the join
+   * if the corrected counters satisfy it.
+   */
+  async reconcileCounters(jobId: string | ObjectId): Promise<BatchCounterReconciliation | null> {
+    const job = await this.getBatchJob(jobId);
+    if (!job) return null;
+
+    const counts = await this.batchItems
+      .aggregate<{ _id: BatchItemStatus; count: number }>([
+        { $match: { batchJobId: job._id } },
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+      ])
+      .toArray();
+    const byStatus = new Map(counts.map((c) => [c._id, c.count]));
+
+    const processedCount = byStatus.get('completed') ?? 0;
+    const failedCount = byStatus.get('failed') ?? 0;
+    const before = {
+      receivedCount: job.receivedCount,
+      processedCount: job.processedCount,
+      failedCount: job.failedCount,
+    };
+    const after = { receivedCount: processedCount + failedCount, processedCount, failedCount };
+    const changed = before.receivedCount !== after.receivedCount
+      || before.processedCount !== after.processedCount
+      || before.failedCount !== after.failedCount;
+
+    if (!changed) {
+      return { before, after, changed, joinResult: null };
+    }
+
+    const updatedJob = await this.batchJobs.findOneAndUpdate(
+      { _id: job._id },
+      { $set: { ...after, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+    if (!updatedJob) return null;
+
+    console.log(
+      `[BatchJobService] Reconciled counters for ${job._id}: ` +
+        `${JSON.stringify(before)} -> ${JSON.stringify(after)}`
+    );
+
+    let joinResult: JoinConditionResult | null = null;
+    if (updatedJob.status === 'awaiting_responses' && !updatedJob.isResultSealed) {
+      const result = this.evaluateJoinCondition(updatedJob);
+      if (result.isSatisfied) {
+        await this.completeJoin(updatedJob, result);
+        joinResult = result;
+      }
+    }
+
+    return { before, after, changed, joinResult };
   }
 
   // ============================================================================
@@ -541,9 +665,9 @@ class BatchJobService {
     // Aggregate results
     const aggregateResult = await this.aggregateResults(jobId);
 
-    // Seal the results
-    await this.batchJobs.updateOne(
-      { _id: jobId },
+    // Seal the results - only once, even if the join is reached from several callbacks at the same time
+    const sealed = await this.batchJobs.updateOne(
+      { _id: jobId, isResultSealed: false },
       {
         $set: {
           status,
@@ -555,6 +679,7 @@ class BatchJobService {
         },
       }
     );
+    if (sealed.modifiedCount === 0) return;
 
     const updatedJob = await this.batchJobs.findOne({ _id: jobId });
     if (!updatedJob) return;
@@ -0,0 +1,404 @@
+import { ObjectId, WithId } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import {
+  Task,
+  BulkOperation,
+  BulkOperationType,
+  BulkOperationParams,
+  BulkOperationSummary,
+  BulkTaskResult,
+} from '../types/index.js';
+import { publishTaskEvent, publishTaskChangeEvents } from './event-bus.js';
+import { activityLogService } from './activity-log.js';
+import { attachmentService } from './attachment-service.js';
+import { FieldValidator } from './field-validator.js';
+
+export const BULK_OPERATION_TYPES: BulkOperationType[] = ['update', 'delete', 'archive', 'move', 'add-tag', 'remove-tag'];
+
+// Selections larger than this run in the background as a tracked operation
+export const BULK_BACKGROUND_THRESHOLD = 100;
+export const BULK_MAX_TASKS = 10000;
+
+// How often a background operation writes its progress
+const PROGRESS_FLUSH_EVERY = 25;
+
+// Fields set by the workflow system that can't be cleared once set
+const WORKFLOW_PROTECTED_FIELDS = ['workflowRunId', 'workflowStepId'];
+const ID_FIELDS = ['parentId', 'assigneeId', 'createdById', 'workflowId', 'workflowRunId', 'triggerWorkflowId'];
+const DATE_FIELDS = ['dueAt', 'externalHoldDate'];
+
+export interface BulkActor {
+  actorId: ObjectId | null;
+  actorType: 'user' | 'system' | 'daemon';
+}
+
+export interface BulkRunResult {
+  summary: BulkOperationSummary;
+  results: BulkTaskResult[];
+}
+
+function emptySummary(total: number): BulkOperationSummary {
+  return { total, succeeded: 0, failed: 0, unchanged: 0, notFound: 0 };
+}
+
+function addToSummary(summary: BulkOperationSummary, result: BulkTaskResult): void {
+  switch (result.status) {
+    case 'updated':
+    case 'deleted':
+      summary.succeeded++;
+      break;
+    case 'unchanged':
+      summary.unchanged++;
+      break;
+    case 'not_found':
+      summary.notFound++;
+      break;
+    case 'failed':
+      summary.failed++;
+      break;
+  }
+}
+
+/**
+ * BulkTaskService applies an operation to many tasks one task at a time, so
+ * every task gets the same change tracking and events as a single-task
+ * update - the daemon, webhooks and the activity log see bulk edits too.
+ *
+ * Small selections run inline and return per-task results. Large ones are
+ * recorded in `bulk_operations` and processed in the background; callers
+ * poll the operation for progress.
+ */
+class BulkTaskService {
+  private initialized = false;
+
+  private get tasks() {
+    return getDb().collection<Task>('tasks');
+  }
+
+  private get operations() {
+    return getDb().collection<BulkOperation>('bulk_operations');
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    // Operations that were running when the server stopped won't be resumed
+    const interrupted = await this.operations.updateMany(
+      { status: { $in: ['pending', 'running'] } },
+      { $set: { status: 'failed', error: 'Interrupted by server restart', completedAt: new Date() } }
+    );
+    if (interrupted.modifiedCount > 0) {
+      console.log(`[BulkTaskService] Marked ${interrupted.modifiedCount} interrupted operation(s) as failed`);
+    }
+
+    this.initialized = true;
+    console.log('[BulkTaskService] Initialized');
+  }
+
+  /**
+   * Run an operation on every task and return the per-task results.
+   */
+  async run(
+    operation: BulkOperationType,
+    taskIds: ObjectId[],
+    params: BulkOperationParams,
+    actor: BulkActor,
+    onProgress?: (result: BulkTaskResult, summary: BulkOperationSummary, processed: number) => Promise<void>
+  ): Promise<BulkRunResult> {
+    const summary = emptySummary(taskIds.length);
+    const results: BulkTaskResult[] = [];
+    // Tasks already removed as a descendant of an earlier task in the selection
+    const deletedIds = new Set<string>();
+    const validator = new FieldValidator();
+    await validator.loadFieldConfigs('tasks');
+
+    for (const taskId of taskIds) {
+      let result: BulkTaskResult;
+      try {
+        result = await this.applyToTask(operation, taskId, params, actor, validator, deletedIds);
+      } catch (error) {
+        result = {
+          taskId: taskId.toString(),
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      results.push(result);
+      addToSummary(summary, result);
+      if (onProgress) {
+        await onProgress(result, summary, results.length);
+      }
+    }
+
+    return { summary, results };
+  }
+
+  /**
+   * Record an operation and process it in the background. Returns the
+   * operation as created; progress is written to it as tasks are processed.
+   */
+  async start(
+    operation: BulkOperationType,
+    taskIds: ObjectId[],
+    params: BulkOperationParams,
+    actor: BulkActor
+  ): Promise<BulkOperation> {
+    const bulkOperation: BulkOperation = {
+      _id: new ObjectId(),
+      operation,
+      taskIds,
+      params,
+      status: 'pending',
+      processed: 0,
+      summary: emptySummary(taskIds.length),
+      results: [],
+      error: null,
+      createdById: actor.actorType === 'user' ? actor.actorId : null,
+      createdAt: new Date(),
+      startedAt: null,
+      completedAt: null,
+    };
+
+    await this.operations.insertOne(bulkOperation);
+
+    this.process(bulkOperation, actor).catch(error => {
+      console.error(`[BulkTaskService] Operation ${bulkOperation._id} failed:`, error);
+    });
+
+    return bulkOperation;
+  }
+
+  async getOperation(operationId: ObjectId): Promise<BulkOperation | null> {
+    return this.operations.findOne({ _id: operationId });
+  }
+
+  private async process(bulkOperation: BulkOperation, actor: BulkActor): Promise<void> {
+    const operationId = bulkOperation._id;
+    await this.operations.updateOne(
+      { _id: operationId },
+      { $set: { status: 'running', startedAt: new Date() } }
+    );
+
+    const pending: BulkTaskResult[] = [];
+    const flush = async (summary: BulkOperationSummary, processed: number) => {
+      if (pending.length === 0) return;
+      await this.operations.updateOne(
+        { _id: operationId },
+        { $push: { results: { $each: pending.splice(0) } }, $set: { processed, summary: { ...summary } } }
+      );
+    };
+
+    try {
+      const { summary } = await this.run(
+        bulkOperation.operation,
+        bulkOperation.taskIds,
+        bulkOperation.params,
+        actor,
+        async (result, progress, processed) => {
+          pending.push(result);
+          if (processed % PROGRESS_FLUSH_EVERY === 0) {
+            await flush(progress, processed);
+          }
+        }
+      );
+
+      await flush(summary, bulkOperation.taskIds.length);
+      await this.operations.updateOne(
+        { _id: operationId },
+        { $set: { status: 'completed', summary, completedAt: new Date() } }
+      );
+    } catch (error) {
+      await this.operations.updateOne(
+        { _id: operationId },
+        {
+          $set: {
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+            completedAt: new Date(),
+          },
+        }
+      );
+      throw error;
+    }
+  }
+
+  private async applyToTask(
+    operation: BulkOperationType,
+    taskId: ObjectId,
+    params: BulkOperationParams,
+    actor: BulkActor,
+    validator: FieldValidator,
+    deletedIds: Set<string>
+  ): Promise<BulkTaskResult> {
+    const id = taskId.toString();
+
+    if (operation === 'delete' && deletedIds.has(id)) {
+      return { taskId: id, status: 'deleted' };
+    }
+
+    const task = await this.tasks.findOne({ _id: taskId });
+    if (!task) {
+      return { taskId: id, status: 'not_found' };
+    }
+
+    switch (operation) {
+      case 'update':
+        return this.updateTask(task, this.buildUpdates(task, params.updates || {}), actor, validator);
+      case 'archive':
+        return this.updateTask(task, { status: 'archived' }, actor, validator);
+      case 'add-tag': {
+        const tags = task.tags || [];
+        if (tags.includes(params.tag!)) return { taskId: id, status: 'unchanged' };
+        return this.updateTask(task, { tags: [...tags, params.tag!] }, actor, validator);
+      }
+      case 'remove-tag': {
+        const tags = task.tags || [];
+        if (!tags.includes(params.tag!)) return { taskId: id, status: 'unchanged' };
+        return this.updateTask(task, { tags: tags.filter(t => t !== params.tag) }, actor, validator);
+      }
+      case 'move':
+        return this.moveTask(task, params.newParentId ? new ObjectId(params.newParentId) : null, actor);
+      case 'delete':
+        return this.deleteTask(task, actor, deletedIds);
+    }
+  }
+
+  /**
+   * Apply the same conversions and protections as PATCH /api/tasks/:id.
+   */
+  private buildUpdates(task: Task, input: Record<string, unknown>): Record<string, unknown> {
+    const updates: Record<string, unknown> = { ...input };
+
+    delete updates._id;
+    delete updates.createdAt;
+    delete updates.updatedAt;
+    delete updates.revision;
+    delete updates.blockedBy;
+    delete updates.isBlocked;
+    delete updates.statusBeforeBlocked;
+
+    for (const field of WORKFLOW_PROTECTED_FIELDS) {
+      if (updates[field] !== undefined && task[field as keyof Task] && !updates[field]) {
+        delete updates[field];
+      }
+    }
+
+    for (const field of ID_FIELDS) {
+      if (updates[field] !== undefined) {
+        updates[field] = updates[field] ? new ObjectId(updates[field] as string) : null;
+      }
+    }
+
+    for (const field of DATE_FIELDS) {
+      if (updates[field] !== undefined) {
+        updates[field] = updates[field] ? new Date(updates[field] as string) : null;
+      }
+    }
+
+    if (updates.metadata !== undefined) {
+      updates.metadata = updates.metadata === null
+        ? {}
+        : { ...(task.metadata || {}), ...(updates.metadata as Record<string, unknown>) };
+    }
+
+    return updates;
+  }
+
+  private async updateTask(
+    task: WithId<Task>,
+    updates: Record<string, unknown>,
+    actor: BulkActor,
+    validator: FieldValidator
+  ): Promise<BulkTaskResult> {
+    const id = task._id.toString();
+
+    const errors = await validator.validate(updates, { mode: 'update', original: task });
+    if (errors.length > 0) {
+      return { taskId: id, status: 'failed', error: errors.map(e => e.message).join('; ') };
+    }
+
+    const updated = await this.tasks.findOneAndUpdate(
+      { _id: task._id },
+      { $set: { ...updates, updatedAt: new Date() }, $inc: { revision: 1 } },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return { taskId: id, status: 'not_found' };
+    }
+
+    const changes = await publishTaskChangeEvents(task, updated, actor);
+    return { taskId: id, status: changes.length > 0 ? 'updated' : 'unchanged' };
+  }
+
+  private async moveTask(task: WithId<Task>, newParentId: ObjectId | null, actor: BulkActor): Promise<BulkTaskResult> {
+    const id = task._id.toString();
+    const oldParentId = task.parentId || null;
+
+    if ((oldParentId && newParentId && oldParentId.equals(newParentId)) || (!oldParentId && !newParentId)) {
+      return { taskId: id, status: 'unchanged' };
+    }
+
+    // Check for circular reference - walk up the parent chain from the new parent
+    let currentParentId: ObjectId | null = newParentId;
+    while (currentParentId) {
+      if (currentParentId.equals(task._id)) {
+        return { taskId: id, status: 'failed', error: 'Cannot move task to one of its descendants' };
+      }
+      const ancestor: WithId<Task> | null = await this.tasks.findOne({ _id: currentParentId });
+      currentParentId = ancestor?.parentId || null;
+    }
+
+    const updated = await this.tasks.findOneAndUpdate(
+      { _id: task._id },
+      { $set: { parentId: newParentId, updatedAt: new Date() }, $inc: { revision: 1 } },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return { taskId: id, status: 'not_found' };
+    }
+
+    await publishTaskEvent('task.moved', updated, {
+      ...actor,
+      changes: [{ field: 'parentId', oldValue: oldParentId, newValue: newParentId }],
+    });
+
+    return { taskId: id, status: 'updated' };
+  }
+
+  private async deleteTask(task: WithId<Task>, actor: BulkActor, deletedIds: Set<string>): Promise<BulkTaskResult> {
+    const deletedTaskIds = [task._id, ...await this.getDescendantIds(task._id)];
+
+    await this.tasks.deleteMany({ _id: { $in: deletedTaskIds } });
+
+    await publishTaskEvent('task.deleted', task, {
+      ...actor,
+      metadata: { deletedTaskIds: deletedTaskIds.map(id => id.toString()) },
+    });
+
+    for (const deletedId of deletedTaskIds) {
+      deletedIds.add(deletedId.toString());
+      await activityLogService.deleteTaskActivity(deletedId);
+      await attachmentService.deleteTaskAttachments(deletedId);
+    }
+
+    return { taskId: task._id.toString(), status: 'deleted' };
+  }
+
+  private async getDescendantIds(parentId: ObjectId, maxDepth = 10, currentDepth = 0): Promise<ObjectId[]> {
+    if (currentDepth >= maxDepth) return [];
+
+    const children = await this.tasks.find({ parentId }).project({ _id: 1 }).toArray();
+    const childIds = children.map(c => c._id as ObjectId);
+    const grandchildIds: ObjectId[] = [];
+
+    for (const childId of childIds) {
+      grandchildIds.push(...await this.getDescendantIds(childId, maxDepth, currentDepth + 1));
+    }
+
+    return [...childIds, ...grandchildIds];
+  }
+}
+
+export const bulkTaskService = new BulkTaskService();
+export default bulkTaskService;
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateCondition, parseCondition, validateCondition, ConditionError } from './condition-evaluator.js';
+
+describe('parseCondition', () => {
+  it('parses paths, literals and operators', () => {
+    expect(() => parseCondition("output.items[0].name == 'a' && $.output.total > 3")).not.toThrow();
+    expect(() => parseCondition("not (output.status in ['open', 'pending'] or output.flagged)")).not.toThrow();
+    expect(() => parseCondition('len(output.items) >= 2')).not.toThrow();
+  });
+
+  it('reports the position of syntax errors', () => {
+    expect(() => parseCondition('output.score >')).toThrow(ConditionError);
+    expect(validateCondition("output.status = 'done'")).toMatch(/use '==' to compare \(at position 15\)/);
+    expect(validateCondition("output.name == 'open")).toMatch(/Unterminated string/);
+    expect(validateCondition('output.a == 1)')).toMatch(/Unexpected '\)'/);
+  });
+
+  it('rejects unknown functions, bad arity and blocked properties', () => {
+    expect(validateCondition('eval(output.code)')).toMatch(/Unknown function 'eval'/);
+    expect(validateCondition('len(output.a, output.b)')).toMatch(/len\(\) takes 1 argument/);
+    expect(validateCondition('exists(1)')).toMatch(/exists\(\) expects a path/);
+    expect(validateCondition('output.__proto__.polluted')).toMatch(/Property '__proto__' is not allowed/);
+    expect(validateCondition('output.constructor')).toMatch(/Property 'constructor' is not allowed/);
+  });
+
+  it('rejects empty and overlong conditions', () => {
+    expect(validateCondition('   ')).toBe('Condition is empty');
+    expect(validateCondition(`output.a == '${'x'.repeat(2000)}'`)).toMatch(/longer than 2000 characters/);
+  });
+});
+
+describe('evaluateCondition', () => {
+  const payload = {
+    output: {
+      score: 85,
+      count: '12',
+      status: 'open',
+      email: 'ana@example.com',
+      tags: ['vip', 'beta'],
+      items: [{ name: 'first' }],
+      flagged: false,
+      meta: { region: 'eu' },
+    },
+  };
+  const check = (condition: string) => evaluateCondition(condition, payload);
+
+  it('compares loosely and strictly', () => {
+    expect(check('output.count == 12')).toBe(true);
+    expect(check('output.count === 12')).toBe(false);
+    expect(check("output.count === '12'")).toBe(true);
+    expect(check("output.status != 'done'")).toBe(true);
+    expect(check('output.missing == null')).toBe(true);
+  });
+
+  it('orders numbers and strings', () => {
+    expect(check('output.score >= 80 && output.score < 90')).toBe(true);
+    expect(check('output.count > 9')).toBe(true);
+    expect(check("'2026-01-02' > '2026-01-01'")).toBe(true);
+    expect(check('output.missing > 3')).toBe(false);
+  });
+
+  it('supports contains, in and the helper functions', () => {
+    expect(check("output.tags contains 'vip'")).toBe(true);
+    expect(check("output.status in ['open', 'pending']")).toBe(true);
+    expect(check("output.meta contains 'region'")).toBe(true);
+    expect(check("contains(output.email, '@example')")).toBe(true);
+    expect(check('len(output.tags) == 2 && output.items.length == 1')).toBe(true);
+    expect(check("upper(output.meta.region) == 'EU'")).toBe(true);
+    expect(check('exists(output.items[0].name) and not exists(output.reviewer)')).toBe(true);
+  });
+
+  it('evaluates boolean logic with precedence', () => {
+    expect(check('output.flagged || output.score > 50 && output.status == "open"')).toBe(true);
+    expect(check('!output.flagged')).toBe(true);
+    expect(check('(output.flagged or output.score > 90) and output.status == "open"')).toBe(false);
+  });
+
+  it('matches literal patterns', () => {
+    expect(check('output.email matches /@example\\.com$/i')).toBe(true);
+    expect(check("matches(output.email, '^ANA', 'i')")).toBe(true);
+    expect(check("output.status matches '^clo'")).toBe(false);
+  });
+
+  it('keeps the legacy field:value form', () => {
+    expect(check('output.status:open,pending')).toBe(true);
+    expect(check('output.score:>80')).toBe(true);
+    expect(check('output.status:!open')).toBe(false);
+  });
+
+  it('is false for invalid conditions and a missing payload', () => {
+    expect(check('output.score >')).toBe(false);
+    expect(evaluateCondition('output.score > 1')).toBe(false);
+  });
+});
+
+describe('regular expression safety', () => {
+  it('rejects patterns read from the payload', () => {
+    expect(validateCondition('matches(output.text, output.pattern)')).toMatch(/string literal as its pattern/);
+    expect(validateCondition('output.text matches output.pattern')).toMatch(/string literal as its pattern/);
+  });
+
+  it('rejects nested quantifiers', () => {
+    expect(validateCondition("matches(output.text, '^(a+)+$')")).toMatch(/repeats a group that contains a quantifier/);
+    expect(validateCondition('output.text matches /^(\\w*\\s?)*$/')).toMatch(/contains a quantifier/);
+    expect(validateCondition('output.text matches /((ab)+c){2,}/')).toMatch(/contains a quantifier/);
+  });
+
+  it('rejects repeated alternatives', () => {
+    expect(validateCondition('output.text matches /^(a|aa)+$/')).toMatch(/repeats a group that contains alternatives/);
+    expect(validateCondition('output.text matches /((a|b)c)*/')).toMatch(/contains alternatives/);
+  });
+
+  it('rejects adjacent overlapping repeats', () => {
+    expect(validateCondition("output.text matches '\\\\d+\\\\w*$'")).toMatch(/adjacent repeats/);
+    expect(validateCondition('output.text matches /a*a+b/')).toMatch(/adjacent repeats/);
+  });
+
+  it('rejects backreferences', () => {
+    expect(validateCondition('output.text matches /(a)\\1/')).toMatch(/backreference/);
+    expect(validateCondition('output.text matches /(?<x>a)\\k<x>/')).toMatch(/backreference/);
+  });
+
+  it('accepts common linear patterns', () => {
+    for (const pattern of [
+      '/^[\\w.+-]+@[\\w-]+\\.[a-z]{2,}$/i',
+      '/^\\s*\\d+$/',
+      '/^(?:jpg|png)?$/',
+      '/^ERR-\\d{3,5}$/',
+      '/(ab)+c/',
+      '/^\\d+-\\d+$/',
+    ]) {
+      expect(validateCondition(`output.text matches ${pattern}`)).toBeNull();
+    }
+  });
+
+  it('returns quickly for a pattern that would backtrack', () => {
+    const started = Date.now();
+    const result = evaluateCondition("matches(output.text, '^(a+)+$')", { output: { text: `${'a'.repeat(28)}!` } });
+    expect(result).toBe(false);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+});
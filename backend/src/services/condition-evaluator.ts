@@ -0,0 +1,835 @@
+/**
+ * Condition expressions for decision steps.
+ *
+ * A small, sandboxed expression language evaluated against a step's input
+ * payload. Expressions are parsed into an AST and interpreted - nothing is
+ * passed to eval() or Function(), and property access is limited to plain
+ * data (no prototype lookups).
+ *
+ * Syntax:
+ *   Paths        output.category, items[0].name, input.score, $.output.total
+ *   Literals     'text', "text", 42, 3.5, true, false, null, ['a', 'b']
+ *   Comparison   ==  !=  ===  !==  >  >=  <  <=
+ *   Membership   tags contains 'vip', status in ['open', 'pending']
+ *   Regex        email matches /@example\.com$/i, name matches '^A'
+ *                (patterns must be literals - see assertSafePattern)
+ *   Boolean      &&  ||  !   (or the words and, or, not), parentheses
+ *   Functions    exists(path), len(value), contains(haystack, needle),
+ *                matches(value, pattern, flags?), lower(value), upper(value)
+ *
+ * The legacy `field:value1,value2` form (string equality against any of the
+ * listed values, optionally prefixed with >, >=, <, <= or !) is still accepted.
+ */
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_PATTERN_LENGTH = 500;
+const MAX_MATCH_SUBJECT_LENGTH = 10000;
+const MAX_CACHED_EXPRESSIONS = 500;
+
+// Property names that would reach outside the payload data
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number }> = {
+  exists: { minArgs: 1, maxArgs: 1 },
+  len: { minArgs: 1, maxArgs: 1 },
+  length: { minArgs: 1, maxArgs: 1 },
+  contains: { minArgs: 2, maxArgs: 2 },
+  matches: { minArgs: 2, maxArgs: 3 },
+  lower: { minArgs: 1, maxArgs: 1 },
+  upper: { minArgs: 1, maxArgs: 1 },
+};
+
+const LEGACY_CONDITION = /^\s*([A-Za-z_$][\w$.]*)\s*:(.*)$/s;
+
+export class ConditionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position !== undefined ? `${message} (at position ${position + 1})` : message);
+    this.name = 'ConditionError';
+  }
+}
+
+type BinaryOperator =
+  | '==' | '!=' | '===' | '!=='
+  | '>' | '>=' | '<' | '<='
+  | 'contains' | 'in' | 'matches';
+
+type ConditionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'regex'; pattern: string; flags: string }
+  | { type: 'path'; segments: Array<string | number> }
+  | { type: 'array'; items: ConditionNode[] }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ConditionNode; right: ConditionNode }
+  | { type: 'call'; name: string; args: ConditionNode[] }
+  | { type: 'legacy'; path: Array<string | number>; values: string[] };
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'regex'; pattern: string; flags: string; pos: number }
+  | { kind: 'ident'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'eof'; pos: number };
+
+const OPERATORS = ['===', '!==', '==', '!=', '>=', '<=', '&&', '||', '>', '<', '!', '(', ')', '[', ']', ',', '.'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // A '/' starts a regex literal only where a value is expected
+  const regexAllowed = (): boolean => {
+    const prev = tokens[tokens.length - 1];
+    if (!prev) return true;
+    if (prev.kind === 'op') return prev.value !== ')' && prev.value !== ']';
+    return prev.kind === 'ident' && ['matches', 'and', 'or', 'not'].includes(prev.value);
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const next = source[i + 1];
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw new ConditionError('Unterminated string', start);
+      }
+      i++;
+      tokens.push({ kind: 'string', value, pos: start });
+      continue;
+    }
+
+    if (ch === '/' && regexAllowed()) {
+      const start = i;
+      let pattern = '';
+      let inClass = false;
+      i++;
+      while (i < source.length && (source[i] !== '/' || inClass)) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          pattern += source[i] + source[i + 1];
+          i += 2;
+          continue;
+        }
+        if (source[i] === '[') inClass = true;
+        if (source[i] === ']') inClass = false;
+        pattern += source[i++];
+      }
+      if (i >= source.length) {
+        throw new ConditionError('Unterminated regular expression', start);
+      }
+      i++;
+      let flags = '';
+      while (i < source.length && /[a-z]/i.test(source[i])) {
+        flags += source[i++];
+      }
+      tokens.push({ kind: 'regex', pattern, flags, pos: start });
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '-' && /[0-9]/.test(source[i + 1] || '') && regexAllowed())) {
+      // After a '.' only an integer index is valid (items.0.name)
+      const prev = tokens[tokens.length - 1];
+      const afterDot = prev?.kind === 'op' && prev.value === '.';
+      const match = (afterDot ? /^\d+/ : /^-?\d+(\.\d+)?([eE][+-]?\d+)?/).exec(source.slice(i))!;
+      tokens.push({ kind: 'number', value: Number(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'ident', value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: 'op', value: op, pos: i });
+      i += op.length;
+      continue;
+    }
+
+    if (ch === '=') {
+      throw new ConditionError("Unexpected '=' - use '==' to compare", i);
+    }
+    throw new ConditionError(`Unexpected character '${ch}'`, i);
+  }
+
+  tokens.push({ kind: 'eof', pos: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser (recursive descent)
+// ============================================================================
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.kind !== 'eof') {
+      throw new ConditionError(`Unexpected ${describe(token)}`, token.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'op' && token.value === value;
+  }
+
+  private isWord(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'ident' && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    const token = this.next();
+    if (token.kind !== 'op' || token.value !== value) {
+      throw new ConditionError(`Expected '${value}' but found ${describe(token)}`, token.pos);
+    }
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.isOp('||') || this.isWord('or')) {
+      this.next();
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.isOp('&&') || this.isWord('and')) {
+      this.next();
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.isOp('!') || this.isWord('not')) {
+      this.next();
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parsePrimary();
+    const token = this.peek();
+
+    let operator: BinaryOperator | null = null;
+    if (token.kind === 'op' && ['==', '!=', '===', '!==', '>', '>=', '<', '<='].includes(token.value)) {
+      operator = token.value as BinaryOperator;
+    } else if (token.kind === 'ident' && ['contains', 'in', 'matches'].includes(token.value)) {
+      operator = token.value as BinaryOperator;
+    }
+
+    if (!operator) return left;
+
+    this.next();
+    const right = this.parsePrimary();
+
+    if (operator === 'matches') {
+      validatePatternNode(right, token.pos);
+    }
+
+    return { type: 'binary', operator, left, right };
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'literal', value: token.value };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'regex':
+        compilePattern(token.pattern, token.flags, token.pos);
+        return { type: 'regex', pattern: token.pattern, flags: token.flags };
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expectOp(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          const items: ConditionNode[] = [];
+          if (!this.isOp(']')) {
+            do {
+              items.push(this.parsePrimary());
+            } while (this.isOp(',') && this.next());
+          }
+          this.expectOp(']');
+          return { type: 'array', items };
+        }
+        throw new ConditionError(`Unexpected ${describe(token)}`, token.pos);
+      case 'ident':
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+        if (this.isOp('(')) {
+          return this.parseCall(token.value, token.pos);
+        }
+        return this.parsePath(token.value, token.pos);
+      default:
+        throw new ConditionError('Unexpected end of expression', token.pos);
+    }
+  }
+
+  private parseCall(name: string, pos: number): ConditionNode {
+    const spec = FUNCTIONS[name];
+    if (!spec) {
+      throw new ConditionError(`Unknown function '${name}'`, pos);
+    }
+
+    this.expectOp('(');
+    const args: ConditionNode[] = [];
+    if (!this.isOp(')')) {
+      do {
+        args.push(this.parseOr());
+      } while (this.isOp(',') && this.next());
+    }
+    this.expectOp(')');
+
+    if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+      const expected = spec.minArgs === spec.maxArgs ? `${spec.minArgs}` : `${spec.minArgs}-${spec.maxArgs}`;
+      throw new ConditionError(`${name}() takes ${expected} argument(s), got ${args.length}`, pos);
+    }
+    if (name === 'exists' && args[0].type !== 'path') {
+      throw new ConditionError('exists() expects a path', pos);
+    }
+    if (name === 'matches') {
+      const flags = args[2];
+      if (flags && (flags.type !== 'literal' || typeof flags.value !== 'string')) {
+        throw new ConditionError('matches() flags must be a string', pos);
+      }
+      validatePatternNode(args[1], pos, flags?.type === 'literal' ? String(flags.value) : '');
+    }
+
+    return { type: 'call', name, args };
+  }
+
+  private parsePath(first: string, pos: number): ConditionNode {
+    const segments: Array<string | number> = [];
+    // '$' on its own (as in $.output.total) refers to the payload root
+    if (first !== '$') {
+      segments.push(first);
+    }
+
+    while (this.isOp('.') || this.isOp('[')) {
+      const op = this.next();
+      if (op.kind === 'op' && op.value === '.') {
+        const name = this.next();
+        if (name.kind !== 'ident' && name.kind !== 'number') {
+          throw new ConditionError(`Expected a property name after '.'`, name.pos);
+        }
+        segments.push(String(name.value));
+      } else {
+        const key = this.next();
+        if (key.kind === 'number' && Number.isInteger(key.value) && key.value >= 0) {
+          segments.push(key.value);
+        } else if (key.kind === 'string') {
+          segments.push(key.value);
+        } else {
+          throw new ConditionError('Expected an index or quoted key inside [ ]', key.pos);
+        }
+        this.expectOp(']');
+      }
+    }
+
+    for (const segment of segments) {
+      if (typeof segment === 'string' && BLOCKED_PROPERTIES.has(segment)) {
+        throw new ConditionError(`Property '${segment}' is not allowed`, pos);
+      }
+    }
+
+    return { type: 'path', segments };
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case 'eof': return 'end of expression';
+    case 'string': return `'${token.value}'`;
+    case 'regex': return `/${token.pattern}/`;
+    default: return `'${token.value}'`;
+  }
+}
+
+function compilePattern(pattern: string, flags: string, pos: number): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new ConditionError(`Regular expression is longer than ${MAX_PATTERN_LENGTH} characters`, pos);
+  }
+  if (/[^imsu]/.test(flags)) {
+    throw new ConditionError(`Unsupported regular expression flags '${flags}' (allowed: i, m, s, u)`, pos);
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, flags);
+  } catch (error) {
+    throw new ConditionError(`Invalid regular expression: ${(error as Error).message}`, pos);
+  }
+  assertSafePattern(pattern, flags, pos);
+  return regex;
+}
+
+// Characters tried when deciding whether two single-character atoms overlap
+const OVERLAP_SAMPLES = [
+  ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+  '\u00a0', '\u00e9', '\u00df', '\u2028', '\u4e2d',
+];
+
+interface PatternAtom {
+  kind: 'char' | 'group' | 'anchor';
+  source: string;                       // Single-character atoms only
+  innerQuantified: boolean;             // Groups only
+  innerAlternation: boolean;            // Groups only
+  quantified: boolean;
+  unbounded: boolean;
+}
+
+interface PatternFrame {
+  quantified: boolean;
+  alternation: boolean;
+  last: PatternAtom | null;
+  prevUnbounded: PatternAtom | null;    // The atom before `last`, if it repeats without bound
+}
+
+// Atoms that can't be compiled on their own are assumed to overlap
+function atomsOverlap(a: string, b: string, flags: string): boolean {
+  const safeFlags = flags.replace(/[^isu]/g, '');
+  try {
+    const left = new RegExp(`^(?:${a})$`, safeFlags);
+    const right = new RegExp(`^(?:${b})$`, safeFlags);
+    return OVERLAP_SAMPLES.some(ch => left.test(ch) && right.test(ch));
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Conditions run on the main thread, so patterns that can backtrack
+ * exponentially are refused rather than timed out. Rejected:
+ *   - a repeated group that itself contains a quantifier or |, e.g. (a+)+, (a|ab)*
+ *   - adjacent unbounded repeats that can match the same character, e.g. \d+\w*
+ *   - backreferences
+ * The pattern must already compile.
+ */
+function assertSafePattern(pattern: string, flags: string, pos: number): void {
+  const reject = (reason: string): never => {
+    throw new ConditionError(`Regular expression /${pattern}/ ${reason}, which can make matching take too long`, pos);
+  };
+
+  const newFrame = (): PatternFrame => ({ quantified: false, alternation: false, last: null, prevUnbounded: null });
+  const stack: PatternFrame[] = [newFrame()];
+  const frame = () => stack[stack.length - 1];
+
+  const pushAtom = (atom: Omit<PatternAtom, 'quantified' | 'unbounded'>) => {
+    const current = frame();
+    current.prevUnbounded = current.last?.unbounded ? current.last : null;
+    current.last = { ...atom, quantified: false, unbounded: false };
+  };
+  const charAtom = (source: string) =>
+    pushAtom({ kind: 'char', source, innerQuantified: false, innerAlternation: false });
+
+  const applyQuantifier = (max: number) => {
+    const current = frame();
+    const atom = current.last;
+    if (!atom || atom.kind === 'anchor' || atom.quantified) return;
+
+    atom.quantified = true;
+    current.quantified = true;
+    if (atom.kind === 'group' && max > 1 && atom.innerQuantified) {
+      reject('repeats a group that contains a quantifier');
+    }
+    if (atom.kind === 'group' && max > 1 && atom.innerAlternation) {
+      reject('repeats a group that contains alternatives');
+    }
+    if (max === Infinity) {
+      atom.unbounded = true;
+      const prev = current.prevUnbounded;
+      if (prev && prev.kind === 'char' && atom.kind === 'char' && atomsOverlap(prev.source, atom.source, flags)) {
+        reject('has adjacent repeats that can match the same text');
+      }
+    }
+  };
+
+  let i = 0;
+  while (i < pattern.length) {
+    const ch = pattern[i];
+
+    if (ch === '\\') {
+      const next = pattern[i + 1] ?? '';
+      if (/[1-9]/.test(next) || (next === 'k' && pattern[i + 2] === '<')) {
+        reject('uses a backreference');
+      }
+      const escape = /^\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[A-Za-z]|[pP]\{[^}]*\}|[\s\S])/.exec(pattern.slice(i));
+      const length = escape ? escape[0].length : 1;
+      charAtom(pattern.slice(i, i + length));
+      i += length;
+      continue;
+    }
+
+    if (ch === '[') {
+      let end = i + 1;
+      while (end < pattern.length && pattern[end] !== ']') {
+        end += pattern[end] === '\\' ? 2 : 1;
+      }
+      charAtom(pattern.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '(') {
+      // Skip (?:  (?=  (?!  (?<=  (?<!  (?<name>
+      const prefix = /^\((\?(:|=|!|<=|<!|<[A-Za-z_$][\w$]*>))?/.exec(pattern.slice(i))!;
+      stack.push(newFrame());
+      i += prefix[0].length;
+      continue;
+    }
+
+    if (ch === ')') {
+      const inner = stack.length > 1 ? stack.pop()! : newFrame();
+      frame().quantified ||= inner.quantified;
+      frame().alternation ||= inner.alternation;
+      pushAtom({ kind: 'group', source: '', innerQuantified: inner.quantified, innerAlternation: inner.alternation });
+      i++;
+      continue;
+    }
+
+    if (ch === '|') {
+      const current = frame();
+      current.alternation = true;
+      current.last = null;
+      current.prevUnbounded = null;
+      i++;
+      continue;
+    }
+
+    if (ch === '*' || ch === '+' || ch === '?') {
+      applyQuantifier(ch === '?' ? 1 : Infinity);
+      i += pattern[i + 1] === '?' ? 2 : 1;
+      continue;
+    }
+
+    if (ch === '{') {
+      const range = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+      if (range) {
+        const max = range[2] === undefined ? Number(range[1]) : range[3] === '' ? Infinity : Number(range[3]);
+        applyQuantifier(max);
+        i += range[0].length;
+        if (pattern[i] === '?') i++;
+        continue;
+      }
+    }
+
+    if (ch === '^' || ch === '$') {
+      pushAtom({ kind: 'anchor', source: ch, innerQuantified: false, innerAlternation: false });
+      i++;
+      continue;
+    }
+
+    charAtom(ch);
+    i++;
+  }
+}
+
+// Patterns have to be literals: they are compiled and checked when the
+// condition is parsed, and a pattern read from payload data could not be
+function validatePatternNode(node: ConditionNode, pos: number, flags = ''): void {
+  if (node.type === 'regex') return;
+  if (node.type !== 'literal' || typeof node.value !== 'string') {
+    throw new ConditionError('matches expects a regular expression or string literal as its pattern', pos);
+  }
+  compilePattern(node.value, flags, pos);
+}
+
+function parseLegacy(source: string): ConditionNode | null {
+  const match = LEGACY_CONDITION.exec(source);
+  if (!match) return null;
+
+  const [, field, values] = match;
+  const path = field.replace(/^\$\.?/, '').split('.').filter(Boolean);
+  return {
+    type: 'legacy',
+    path,
+    values: values.split(',').map(v => v.trim()),
+  };
+}
+
+// ============================================================================
+// Evaluator
+// ============================================================================
+
+function resolvePath(payload: Record<string, unknown>, segments: Array<string | number>): unknown {
+  // `input.x` reads from the payload itself, matching {{input.x}} in templates
+  const path = segments[0] === 'input' && !Object.prototype.hasOwnProperty.call(payload, 'input')
+    ? segments.slice(1)
+    : segments;
+
+  let current: unknown = payload;
+  for (const segment of path) {
+    if (current === null || current === undefined) return undefined;
+    if ((Array.isArray(current) || typeof current === 'string') && segment === 'length') {
+      current = current.length;
+      continue;
+    }
+    if (typeof current !== 'object') return undefined;
+    const key = String(segment);
+    if (!Object.prototype.hasOwnProperty.call(current, key)) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function looseEquals(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a === null || a === undefined) && (b === null || b === undefined);
+  }
+  if (typeof a === 'number' || typeof b === 'number') {
+    const na = toNumber(a);
+    const nb = toNumber(b);
+    return na !== null && nb !== null && na === nb;
+  }
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    return String(a) === String(b);
+  }
+  if (typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+function strictEquals(a: unknown, b: unknown): boolean {
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+function compare(a: unknown, b: unknown): number | null {
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  if (na !== null && nb !== null) return na - nb;
+  // Strings compare lexically, which also orders ISO dates correctly
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return null;
+}
+
+function containsValue(haystack: unknown, needle: unknown): boolean {
+  if (Array.isArray(haystack)) return haystack.some(item => looseEquals(item, needle));
+  if (typeof haystack === 'string') return needle !== null && needle !== undefined && haystack.includes(String(needle));
+  if (haystack && typeof haystack === 'object') {
+    return typeof needle === 'string' && Object.prototype.hasOwnProperty.call(haystack, needle);
+  }
+  return false;
+}
+
+function matchesPattern(value: unknown, pattern: RegExp | null): boolean {
+  if (!pattern) return false;
+  if (typeof value !== 'string' && typeof value !== 'number') return false;
+  const subject = String(value);
+  if (subject.length > MAX_MATCH_SUBJECT_LENGTH) return false;
+  return pattern.test(subject);
+}
+
+function truthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function evaluateNode(node: ConditionNode, payload: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'regex':
+      return new RegExp(node.pattern, node.flags);
+    case 'path':
+      return resolvePath(payload, node.segments);
+    case 'array':
+      return node.items.map(item => evaluateNode(item, payload));
+    case 'not':
+      return !truthy(evaluateNode(node.operand, payload));
+    case 'and':
+      return truthy(evaluateNode(node.left, payload)) && truthy(evaluateNode(node.right, payload));
+    case 'or':
+      return truthy(evaluateNode(node.left, payload)) || truthy(evaluateNode(node.right, payload));
+    case 'legacy': {
+      const actual = resolvePath(payload, node.path);
+      return node.values.some(expected => legacyMatches(actual, expected));
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, payload);
+      const right = evaluateNode(node.right, payload);
+      switch (node.operator) {
+        case '==': return looseEquals(left, right);
+        case '!=': return !looseEquals(left, right);
+        case '===': return strictEquals(left, right);
+        case '!==': return !strictEquals(left, right);
+        case '>': { const c = compare(left, right); return c !== null && c > 0; }
+        case '>=': { const c = compare(left, right); return c !== null && c >= 0; }
+        case '<': { const c = compare(left, right); return c !== null && c < 0; }
+        case '<=': { const c = compare(left, right); return c !== null && c <= 0; }
+        case 'contains': return containsValue(left, right);
+        case 'in': return containsValue(right, left);
+        case 'matches': return matchesPattern(left, toRegExp(right, ''));
+      }
+      return false;
+    }
+    case 'call': {
+      const args = node.args.map(arg => evaluateNode(arg, payload));
+      switch (node.name) {
+        case 'exists':
+          return args[0] !== undefined && args[0] !== null;
+        case 'len':
+        case 'length':
+          if (Array.isArray(args[0]) || typeof args[0] === 'string') return args[0].length;
+          if (args[0] && typeof args[0] === 'object') return Object.keys(args[0]).length;
+          return 0;
+        case 'contains':
+          return containsValue(args[0], args[1]);
+        case 'matches':
+          return matchesPattern(args[0], toRegExp(args[1], typeof args[2] === 'string' ? args[2] : ''));
+        case 'lower':
+          return typeof args[0] === 'string' ? args[0].toLowerCase() : args[0];
+        case 'upper':
+          return typeof args[0] === 'string' ? args[0].toUpperCase() : args[0];
+      }
+      return undefined;
+    }
+  }
+}
+
+// Legacy values may carry a comparison prefix: field:>10, field:<=5, field:!done
+function legacyMatches(actual: unknown, expected: string): boolean {
+  const match = /^(>=|<=|>|<|!)(.*)$/.exec(expected);
+  if (!match) return String(actual) === expected;
+
+  const [, operator, operand] = match;
+  if (operator === '!') return String(actual) !== operand;
+
+  const c = compare(actual, operand);
+  if (c === null) return false;
+  switch (operator) {
+    case '>': return c > 0;
+    case '>=': return c >= 0;
+    case '<': return c < 0;
+    default: return c <= 0;
+  }
+}
+
+// Only literals reach here - validatePatternNode has already checked them
+function toRegExp(value: unknown, flags: string): RegExp | null {
+  if (value instanceof RegExp) return value;
+  if (typeof value !== 'string' || value.length > MAX_PATTERN_LENGTH) return null;
+  try {
+    return new RegExp(value, flags.replace(/[^imsu]/g, ''));
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+const parsedCache = new Map<string, ConditionNode>();
+
+/**
+ * Parse a condition, throwing ConditionError with a readable message if it
+ * is not valid. Parsed expressions are cached.
+ */
+export function parseCondition(source: string): ConditionNode {
+  const cached = parsedCache.get(source);
+  if (cached) return cached;
+
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new ConditionError('Condition is empty');
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ConditionError(`Condition is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const node = parseLegacy(source) ?? new Parser(tokenize(source)).parse();
+
+  if (parsedCache.size >= MAX_CACHED_EXPRESSIONS) {
+    parsedCache.clear();
+  }
+  parsedCache.set(source, node);
+  return node;
+}
+
+/**
+ * Check a condition without evaluating it. Returns the error message, or
+ * null if the condition is valid.
+ */
+export function validateCondition(source: string): string | null {
+  try {
+    parseCondition(source);
+    return null;
+  } catch (error) {
+    return error instanceof ConditionError ? error.message : 'Invalid condition';
+  }
+}
+
+/**
+ * Evaluate a condition against a payload. Invalid conditions and a missing
+ * payload evaluate to false so a bad branch can never be taken.
+ */
+export function evaluateCondition(source: string, payload?: Record<string, unknown>): boolean {
+  if (!source || !payload) return false;
+
+  try {
+    return truthy(evaluateNode(parseCondition(source), payload));
+  } catch (error) {
+    console.warn(`[ConditionEvaluator] Failed to evaluate condition "${source}":`, (error as Error).message);
+    return false;
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron, validateCron, nextCronRun, nextCronRuns, formatZonedDate } from './cron-expression.js';
+
+const next = (expression: string, after: string, timezone = 'UTC') =>
+  nextCronRun(expression, new Date(after), timezone)?.toISOString() ?? null;
+
+describe('parseCron', () => {
+  it('expands steps, ranges and lists', () => {
+    expect([...parseCron('*/15 * * * *').minutes]).toEqual([0, 15, 30, 45]);
+    expect([...parseCron('0-30/10 * * * *').minutes]).toEqual([0, 10, 20, 30]);
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+    expect([...parseCron('0 9-11,14 * * *').hours]).toEqual([9, 10, 11, 14]);
+  });
+
+  it('accepts month and weekday names, and 7 as Sunday', () => {
+    const schedule = parseCron('0 0 * jan,dec mon-wed,7');
+    expect([...schedule.months]).toEqual([1, 12]);
+    expect([...schedule.daysOfWeek].sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  it('expands macros', () => {
+    expect(parseCron('@hourly')).toEqual(parseCron('0 * * * *'));
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 0'));
+    expect(parseCron('@annually')).toEqual(parseCron('0 0 1 1 *'));
+  });
+
+  it('describes invalid expressions', () => {
+    expect(validateCron('')).toBe('Cron expression is empty');
+    expect(validateCron('* * * *')).toMatch(/must have 5 fields/);
+    expect(validateCron('60 * * * *')).toMatch(/minute value 60 is out of range/);
+    expect(validateCron('*/0 * * * *')).toMatch(/Invalid step "0"/);
+    expect(validateCron('0 5-1 * * *')).toMatch(/Invalid hour range/);
+    expect(validateCron('@fortnightly')).toMatch(/Unknown cron macro/);
+    expect(validateCron('0 0 * * 1')).toBeNull();
+  });
+});
+
+describe('nextCronRun', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    expect(next('*/15 * * * *', '2026-01-01T10:07:30Z')).toBe('2026-01-01T10:15:00.000Z');
+    expect(next('*/15 * * * *', '2026-01-01T10:15:00Z')).toBe('2026-01-01T10:30:00.000Z');
+    expect(next('@hourly', '2026-01-01T23:59:00Z')).toBe('2026-01-02T00:00:00.000Z');
+    expect(next('@yearly', '2026-06-01T00:00:00Z')).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2026-02-01 is a Sunday, 2026-02-02 a Monday
+    expect(next('0 9 1 * mon', '2026-01-27T10:00:00Z')).toBe('2026-02-01T09:00:00.000Z');
+    expect(next('0 9 1 * mon', '2026-02-01T09:00:00Z')).toBe('2026-02-02T09:00:00.000Z');
+    // Only one restricted: both must match
+    expect(next('0 9 1 * *', '2026-01-27T10:00:00Z')).toBe('2026-02-01T09:00:00.000Z');
+    expect(next('0 9 * * mon', '2026-01-27T10:00:00Z')).toBe('2026-02-02T09:00:00.000Z');
+  });
+
+  it('returns null for expressions that never match', () => {
+    expect(next('0 0 31 2 *', '2026-01-01T00:00:00Z')).toBeNull();
+  });
+
+  describe('across a DST spring-forward', () => {
+    // America/New_York skips 02:00-03:00 on 2026-03-08, a 23-hour day
+    const tz = 'America/New_York';
+
+    it('does not skip the first hour of the day after a short day', () => {
+      expect(next('0 0 * * 1', '2026-03-07T05:00:00Z', tz)).toBe('2026-03-09T04:00:00.000Z');
+      expect(next('30 0 9 * *', '2026-03-07T05:00:00Z', tz)).toBe('2026-03-09T04:30:00.000Z');
+    });
+
+    it('keeps the wall-clock time', () => {
+      expect(nextCronRuns('0 9 * * *', new Date('2026-03-07T00:00:00Z'), tz, 2).map((d) => d.toISOString()))
+        .toEqual(['2026-03-07T14:00:00.000Z', '2026-03-08T13:00:00.000Z']);
+    });
+
+    it('skips a local time that does not exist that day', () => {
+      expect(next('30 2 * * *', '2026-03-08T05:00:00Z', tz)).toBe('2026-03-09T06:30:00.000Z');
+    });
+
+    it('handles zones that skip midnight', () => {
+      // America/Santiago jumps from 00:00 to 01:00 on 2026-09-06
+      expect(next('0 12 * * 0', '2026-09-05T12:00:00Z', 'America/Santiago')).toBe('2026-09-06T15:00:00.000Z');
+      expect(next('0 0 * * *', '2026-09-05T12:00:00Z', 'America/Santiago')).toBe('2026-09-07T03:00:00.000Z');
+    });
+  });
+
+  describe('across a DST fall-back', () => {
+    // America/New_York repeats 01:00-02:00 on 2026-11-01, a 25-hour day
+    const tz = 'America/New_York';
+
+    it('does not skip the day after a long day', () => {
+      expect(next('0 0 * * 1', '2026-10-31T04:00:00Z', tz)).toBe('2026-11-02T05:00:00.000Z');
+      expect(next('0 0 2 * *', '2026-10-31T04:00:00Z', tz)).toBe('2026-11-02T05:00:00.000Z');
+    });
+
+    it('runs a repeated local time once, on its first occurrence', () => {
+      expect(next('30 1 * * *', '2026-11-01T04:00:00Z', tz)).toBe('2026-11-01T05:30:00.000Z');
+      expect(next('30 1 * * *', '2026-11-01T05:30:00Z', tz)).toBe('2026-11-02T06:30:00.000Z');
+    });
+  });
+});
+
+describe('formatZonedDate', () => {
+  it('formats the local date', () => {
+    expect(formatZonedDate(new Date('2026-03-09T03:00:00Z'), 'America/New_York')).toBe('2026-03-08');
+    expect(formatZonedDate(new Date('2026-03-09T03:00:00Z'), 'UTC')).toBe('2026-03-09');
+  });
+});
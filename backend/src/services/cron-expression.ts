@@ -0,0 +1,346 @@
+/**
+ * Cron expressions for schedules.
+ *
+ * Standard five-field expressions evaluated in an IANA timezone:
+ *
+ *   ┌──────── minute        0-59
+ *   │ ┌────── hour          0-23
+ *   │ │ ┌──── day of month  1-31
+ *   │ │ │ ┌── month         1-12 or jan-dec
+ *   │ │ │ │ ┌ day of week   0-7 or sun-sat (0 and 7 are Sunday)
+ *   * * * * *
+ *
+ * Each field accepts `*`, single values, ranges (`1-5`), lists (`1,15`) and
+ * steps (`*\/15`, `0-30/10`, `5/10`). The macros @yearly, @annually,
+ * @monthly, @weekly, @daily, @midnight and @hourly are also accepted.
+ *
+ * As in Vixie cron, when both day of month and day of week are restricted a
+ * day matches if either does (`0 9 1 * mon` runs on the 1st and on Mondays).
+ *
+ * Times are matched against the wall clock in the schedule's timezone, so a
+ * 09:00 schedule stays at 09:00 local time across DST changes. A local time
+ * skipped by a DST jump does not run that day; one repeated by a DST fall-back
+ * runs on its first occurrence.
+ */
+
+const MAX_EXPRESSION_LENGTH = 200;
+const MAX_CACHED_EXPRESSIONS = 500;
+// Expressions that can never match (e.g. `0 0 31 2 *`) give up after this long
+const MAX_SEARCH_YEARS = 5;
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesStartAt?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesStartAt: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesStartAt: 0 },
+];
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronError';
+  }
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // A field starting with `*` doesn't take part in the day-of-month/day-of-week OR rule
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const cache = new Map<string, CronSchedule>();
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function parseValue(token: string, spec: FieldSpec): number {
+  const lower = token.toLowerCase();
+  if (spec.names) {
+    const index = spec.names.indexOf(lower);
+    if (index !== -1) return index + (spec.namesStartAt ?? 0);
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new CronError(`Invalid ${spec.name} value "${token}"`);
+  }
+  const value = parseInt(token, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new CronError(`${spec.name} value ${value} is out of range (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(source: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    if (part === '') {
+      throw new CronError(`Empty entry in ${spec.name} field`);
+    }
+
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined) {
+      throw new CronError(`Invalid step in ${spec.name} field "${part}"`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        throw new CronError(`Invalid step "${stepText}" in ${spec.name} field`);
+      }
+      step = parseInt(stepText, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new CronError(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // `5/10` means "from 5 in steps of 10"
+      end = stepText !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing a CronError describing the first problem.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const source = expression.trim();
+  const cached = cache.get(source);
+  if (cached) return cached;
+
+  if (!source) {
+    throw new CronError('Cron expression is empty');
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new CronError(`Cron expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  let expanded = source;
+  if (source.startsWith('@')) {
+    expanded = MACROS[source.toLowerCase()];
+    if (!expanded) {
+      throw new CronError(`Unknown cron macro "${source}"`);
+    }
+  }
+
+  const parts = expanded.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new CronError(`Cron expression must have ${FIELDS.length} fields (minute hour day month weekday), got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  const schedule: CronSchedule = {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*'),
+  };
+
+  if (cache.size >= MAX_CACHED_EXPRESSIONS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(source, schedule);
+  return schedule;
+}
+
+/**
+ * Check an expression without evaluating it. Returns an error message, or
+ * null when the expression is valid.
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof CronError ? error.message : String(error);
+  }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, parts: ZonedParts): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(parts.day);
+  const dayOfWeek = schedule.daysOfWeek.has(parts.weekday);
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+// The next local midnight. DST makes some days 23 or 25 hours long, so the
+// wall clock is re-read after jumping a nominal day: a short day overshoots
+// into 01:00 and is pulled back, a long one stops at 23:00 and the caller's
+// next pass finishes the jump. Where midnight itself is skipped the day's
+// first existing minute is kept.
+function nextLocalMidnight(time: number, parts: ZonedParts, timezone: string): number {
+  const minute = 60 * 1000;
+  let next = time + ((24 - parts.hour) * 60 - parts.minute) * minute;
+
+  const landed = getZonedParts(new Date(next), timezone);
+  if (landed.day !== parts.day && (landed.hour !== 0 || landed.minute !== 0)) {
+    const back = next - (landed.hour * 60 + landed.minute) * minute;
+    if (getZonedParts(new Date(back), timezone).day === landed.day) {
+      next = back;
+    }
+  }
+  return next;
+}
+
+/**
+ * The first time strictly after `after` that the expression matches in the
+ * given timezone, or null if it never matches within the search window.
+ */
+export function nextCronRun(expression: string, after: Date, timezone = 'UTC'): Date | null {
+  const schedule = parseCron(expression);
+  const minute = 60 * 1000;
+
+  let time = Math.floor(after.getTime() / minute) * minute + minute;
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * minute;
+
+  // Jump to the next local day or hour where possible instead of testing
+  // every minute
+  while (time <= limit) {
+    const parts = getZonedParts(new Date(time), timezone);
+
+    if (!schedule.months.has(parts.month) || !matchesDay(schedule, parts)) {
+      time = nextLocalMidnight(time, parts, timezone);
+      continue;
+    }
+    if (!schedule.hours.has(parts.hour)) {
+      time += (60 - parts.minute) * minute;
+      continue;
+    }
+    if (!schedule.minutes.has(parts.minute)) {
+      time += minute;
+      continue;
+    }
+    // Second pass through a wall-clock hour repeated by a DST fall-back
+    const hourBefore = getZonedParts(new Date(time - 60 * minute), timezone);
+    if (hourBefore.day === parts.day && hourBefore.hour === parts.hour && hourBefore.minute === parts.minute) {
+      time += minute;
+      continue;
+    }
+    return new Date(time);
+  }
+
+  return null;
+}
+
+/**
+ * Up to `count` run times after `after`, in order.
+ */
+export function nextCronRuns(expression: string, after: Date, timezone: string, count: number): Date[] {
+  const runs: Date[] = [];
+  let cursor: Date | null = after;
+  while (runs.length < count) {
+    cursor = nextCronRun(expression, cursor, timezone);
+    if (!cursor) break;
+    runs.push(cursor);
+  }
+  return runs;
+}
+
+/**
+ * Format a date as YYYY-MM-DD on the wall clock of a timezone.
+ */
+export function formatZonedDate(date: Date, timezone: string): string {
+  const parts = getZonedParts(date, timezone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+}
@@ -1,10 +1,39 @@
 import { EventEmitter } from 'events';
+import os from 'os';
 import { ObjectId } from 'mongodb';
-import { Task, TaskEvent, TaskEventType, FieldChange, EventHandler, WorkflowRunEvent, WorkflowRunEventType } from '../types/index.js';
+import {
+  Task,
+  TaskEvent,
+  TaskEventType,
+  FieldChange,
+  EventHandler,
+  WorkflowRunEvent,
+  WorkflowRunEventType,
+  NotificationEvent,
+  AuditEvent,
+  AuditEventHandler,
+  AuditEntityType,
+  AuditAction,
+} from '../types/index.js';
+import {
+  EventEnvelope,
+  EventTransport,
+  EventTransportStatus,
+  LocalEventTransport,
+  createEventTransport,
+} from './event-transport.js';
 
 // Type for workflow run event handlers
 export type WorkflowRunEventHandler = (event: WorkflowRunEvent) => void | Promise<void>;
 
+export type NotificationEventHandler = (event: NotificationEvent) => void | Promise<void>;
+
+export interface SubscribeOptions {
+  // Receive events from every process through the transport (with `seq` set)
+  // instead of only the events published in this process
+  shared?: boolean;
+}
+
 /**
  * Event Bus - Pub/Sub backbone for the event system
  *
@@ -12,12 +41,27 @@ export type WorkflowRunEventHandler = (event: WorkflowRunEvent) => void | Promis
  * - Activity log writer
  * - Webhook dispatcher
  * - Local automation daemon
+ *
+ * Subscribers get events published in their own process by default. This
+ * is what side-effecting services want: the process that made a change
+ * handles it, exactly once. Subscribers that pass `{ shared: true }` (SSE
+ * streams, the standalone automation daemon) instead receive every event
+ * from every process through the configured EventTransport.
  */
 class EventBus {
   private emitter: EventEmitter;
   private handlers: Map<string, Set<EventHandler>>;
   private workflowRunEmitter: EventEmitter;
   private workflowRunHandlers: Map<string, Set<WorkflowRunEventHandler>>;
+  // Events delivered by the transport, from any process
+  private sharedEmitter: EventEmitter;
+  private sharedWorkflowRunEmitter: EventEmitter;
+  // Per-user notification events, only ever consumed through the transport
+  private sharedNotificationEmitter: EventEmitter;
+  // Configuration changes, handled by the process that made them
+  private auditEmitter: EventEmitter;
+  private transport: EventTransport;
+  private readonly origin = `${os.hostname()}:${process.pid}`;
 
   constructor() {
     this.emitter = new EventEmitter();
@@ -27,38 +71,118 @@ class EventBus {
     this.workflowRunEmitter = new EventEmitter();
     this.workflowRunEmitter.setMaxListeners(100);
     this.workflowRunHandlers = new Map();
+    this.sharedEmitter = new EventEmitter();
+    this.sharedEmitter.setMaxListeners(100);
+    this.sharedWorkflowRunEmitter = new EventEmitter();
+    this.sharedWorkflowRunEmitter.setMaxListeners(100);
+    this.sharedNotificationEmitter = new EventEmitter();
+    this.sharedNotificationEmitter.setMaxListeners(100);
+    this.auditEmitter = new EventEmitter();
+    this.auditEmitter.setMaxListeners(100);
+
+    // In-process until start() switches to the configured transport
+    this.transport = new LocalEventTransport();
+    void this.transport.start(envelope => this.onTransportEvent(envelope));
   }
 
   /**
-   * Generate a unique event ID
+   * Connect to the configured event transport (EVENT_TRANSPORT). Call once
+   * the database is connected.
    */
-  private generateEventId(): string {
-    return `evt_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  async start(options: { transport?: EventTransport; consumerId?: string } = {}): Promise<void> {
+    await this.transport.stop();
+    this.transport = options.transport ?? createEventTransport();
+    await this.transport.start(envelope => this.onTransportEvent(envelope), {
+      consumerId: options.consumerId,
+    });
+    console.log(`[EventBus] Using ${this.transport.name} event transport`);
+  }
+
+  async stop(): Promise<void> {
+    await this.transport.stop();
+  }
+
+  getTransportStatus(): EventTransportStatus {
+    return this.transport.getStatus();
   }
 
   /**
-   * Publish a task event to all subscribers
+   * Events after a stream position, oldest first. Used to resume SSE
+   * streams from the client's Last-Event-ID. Notification events are left
+   * out - clients refetch their unread count when they reconnect.
    */
-  async publish(event: Omit<TaskEvent, 'id' | 'timestamp'>): Promise<TaskEvent> {
-    const fullEvent: TaskEvent = {
-      ...event,
-      id: this.generateEventId(),
-      timestamp: new Date(),
-    };
+  async replay(afterSeq: number, limit = 500): Promise<Array<TaskEvent | WorkflowRunEvent>> {
+    const envelopes = await this.transport.replay(afterSeq, limit);
+    return envelopes
+      .filter(envelope => envelope.kind !== 'notification')
+      .map(envelope => ({ ...(envelope.event as TaskEvent | WorkflowRunEvent), seq: envelope.seq }));
+  }
+
+  /**
+   * Generate a unique event ID
+   */
+  private generateEventId(): string {
+    return `evt_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
 
+  private emitTaskEvent(emitter: EventEmitter, event: TaskEvent): void {
     // Emit to all wildcard handlers first
-    this.emitter.emit('*', fullEvent);
+    emitter.emit('*', event);
 
     // Emit to specific event type handlers
-    this.emitter.emit(event.type, fullEvent);
+    emitter.emit(event.type, event);
 
     // Emit field-specific events if changes exist
     if (event.changes) {
       for (const change of event.changes) {
         const fieldEvent = `task.${change.field}.changed`;
-        this.emitter.emit(fieldEvent, fullEvent);
+        emitter.emit(fieldEvent, event);
       }
     }
+  }
+
+  private emitWorkflowRunEvent(emitter: EventEmitter, event: WorkflowRunEvent): void {
+    // Emit to all wildcard handlers first
+    emitter.emit('*', event);
+
+    // Emit to specific event type handlers
+    emitter.emit(event.type, event);
+  }
+
+  /**
+   * Hand an event to the transport. A transport failure is logged rather
+   * than thrown - local subscribers have already seen the event.
+   */
+  private async forward(kind: EventEnvelope['kind'], event: EventEnvelope['event']): Promise<void> {
+    try {
+      await this.transport.publish({ kind, event, origin: this.origin });
+    } catch (error) {
+      console.error(`[EventBus] Failed to publish ${event.type} to the ${this.transport.name} transport:`, error);
+    }
+  }
+
+  private onTransportEvent(envelope: EventEnvelope): void {
+    if (envelope.kind === 'task') {
+      this.emitTaskEvent(this.sharedEmitter, { ...(envelope.event as TaskEvent), seq: envelope.seq });
+    } else if (envelope.kind === 'notification') {
+      this.sharedNotificationEmitter.emit('*', { ...(envelope.event as NotificationEvent), seq: envelope.seq });
+    } else {
+      this.emitWorkflowRunEvent(this.sharedWorkflowRunEmitter, { ...(envelope.event as WorkflowRunEvent), seq: envelope.seq });
+    }
+  }
+
+  /**
+   * Publish a task event to all subscribers
+   */
+  async publish(event: Omit<TaskEvent, 'id' | 'timestamp'>): Promise<TaskEvent> {
+    const fullEvent: TaskEvent = {
+      ...event,
+      id: this.generateEventId(),
+      timestamp: new Date(),
+    };
+
+    this.emitTaskEvent(this.emitter, fullEvent);
+    await this.forward('task', fullEvent);
 
     return fullEvent;
   }
@@ -67,9 +191,11 @@ class EventBus {
    * Subscribe to events
    * @param eventType - Event type to subscribe to, or '*' for all events
    * @param handler - Async function to handle events
+   * @param options - Pass `{ shared: true }` to receive events from all processes
    */
-  subscribe(eventType: TaskEventType | '*', handler: EventHandler): () => void {
-    this.emitter.on(eventType, handler);
+  subscribe(eventType: TaskEventType | '*', handler: EventHandler, options: SubscribeOptions = {}): () => void {
+    const emitter = options.shared ? this.sharedEmitter : this.emitter;
+    emitter.on(eventType, handler);
 
     // Track handlers for cleanup
     if (!this.handlers.has(eventType)) {
@@ -79,7 +205,7 @@ class EventBus {
 
     // Return unsubscribe function
     return () => {
-      this.emitter.off(eventType, handler);
+      emitter.off(eventType, handler);
       this.handlers.get(eventType)?.delete(handler);
     };
   }
@@ -87,8 +213,8 @@ class EventBus {
   /**
    * Subscribe to multiple event types
    */
-  subscribeMany(eventTypes: (TaskEventType | '*')[], handler: EventHandler): () => void {
-    const unsubscribers = eventTypes.map(type => this.subscribe(type, handler));
+  subscribeMany(eventTypes: (TaskEventType | '*')[], handler: EventHandler, options: SubscribeOptions = {}): () => void {
+    const unsubscribers = eventTypes.map(type => this.subscribe(type, handler, options));
     return () => unsubscribers.forEach(unsub => unsub());
   }
 
@@ -102,8 +228,8 @@ class EventBus {
   /**
    * Get subscriber count for an event type
    */
-  listenerCount(eventType: TaskEventType | '*'): number {
-    return this.emitter.listenerCount(eventType);
+  listenerCount(eventType: TaskEventType | '*', options: SubscribeOptions = {}): number {
+    return (options.shared ? this.sharedEmitter : this.emitter).listenerCount(eventType);
   }
 
   /**
@@ -112,9 +238,11 @@ class EventBus {
   removeAllListeners(eventType?: TaskEventType | '*'): void {
     if (eventType) {
       this.emitter.removeAllListeners(eventType);
+      this.sharedEmitter.removeAllListeners(eventType);
       this.handlers.delete(eventType);
     } else {
       this.emitter.removeAllListeners();
+      this.sharedEmitter.removeAllListeners();
       this.handlers.clear();
     }
   }
@@ -125,20 +253,23 @@ class EventBus {
    * Publish a workflow run event to all subscribers
    */
   async publishWorkflowRunEvent(event: WorkflowRunEvent): Promise<void> {
-    // Emit to all wildcard handlers first
-    this.workflowRunEmitter.emit('*', event);
-
-    // Emit to specific event type handlers
-    this.workflowRunEmitter.emit(event.type, event);
+    this.emitWorkflowRunEvent(this.workflowRunEmitter, event);
+    await this.forward('workflowRun', event);
   }
 
   /**
    * Subscribe to workflow run events
    * @param eventType - Event type to subscribe to, or '*' for all events
    * @param handler - Function to handle events
+   * @param options - Pass `{ shared: true }` to receive events from all processes
    */
-  subscribeWorkflowRun(eventType: WorkflowRunEventType | '*', handler: WorkflowRunEventHandler): () => void {
-    this.workflowRunEmitter.on(eventType, handler);
+  subscribeWorkflowRun(
+    eventType: WorkflowRunEventType | '*',
+    handler: WorkflowRunEventHandler,
+    options: SubscribeOptions = {}
+  ): () => void {
+    const emitter = options.shared ? this.sharedWorkflowRunEmitter : this.workflowRunEmitter;
+    emitter.on(eventType, handler);
 
     // Track handlers for cleanup
     if (!this.workflowRunHandlers.has(eventType)) {
@@ -148,7 +279,7 @@ class EventBus {
 
     // Return unsubscribe function
     return () => {
-      this.workflowRunEmitter.off(eventType, handler);
+      emitter.off(eventType, handler);
       this.workflowRunHandlers.get(eventType)?.delete(handler);
     };
   }
@@ -156,8 +287,62 @@ class EventBus {
   /**
    * Get subscriber count for a workflow run event type
    */
-  workflowRunListenerCount(eventType: WorkflowRunEventType | '*'): number {
-    return this.workflowRunEmitter.listenerCount(eventType);
+  workflowRunListenerCount(eventType: WorkflowRunEventType | '*', options: SubscribeOptions = {}): number {
+    return (options.shared ? this.sharedWorkflowRunEmitter : this.workflowRunEmitter).listenerCount(eventType);
+  }
+
+  // ============ Notification Events ============
+
+  /**
+   * Publish a change to a user's notifications. Only delivered through the
+   * transport, so SSE streams in every process see it.
+   */
+  async publishNotificationEvent(event: Omit<NotificationEvent, 'id' | 'timestamp'>): Promise<void> {
+    await this.forward('notification', {
+      ...event,
+      id: this.generateEventId(),
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Subscribe to notification events from every process
+   */
+  subscribeNotifications(handler: NotificationEventHandler): () => void {
+    this.sharedNotificationEmitter.on('*', handler);
+    return () => {
+      this.sharedNotificationEmitter.off('*', handler);
+    };
+  }
+
+  // ============ Audit Events ============
+
+  /**
+   * Publish a change to a configuration entity. Audit events stay in the
+   * publishing process - the audit log there records each one once.
+   */
+  async publishAudit(event: Omit<AuditEvent, 'id' | 'timestamp'>): Promise<AuditEvent> {
+    const fullEvent: AuditEvent = {
+      ...event,
+      id: this.generateEventId(),
+      timestamp: new Date(),
+    };
+
+    this.auditEmitter.emit('*', fullEvent);
+    this.auditEmitter.emit(fullEvent.type, fullEvent);
+
+    return fullEvent;
+  }
+
+  /**
+   * Subscribe to audit events
+   * @param eventType - Event type to subscribe to (e.g. 'workflow.updated'), or '*' for all events
+   */
+  subscribeAudit(eventType: AuditEvent['type'] | '*', handler: AuditEventHandler): () => void {
+    this.auditEmitter.on(eventType, handler);
+    return () => {
+      this.auditEmitter.off(eventType, handler);
+    };
   }
 }
 
@@ -196,6 +381,48 @@ export function computeChanges(oldTask: Partial<Task>, newTask: Partial<Task>):
   return changes;
 }
 
+// Bookkeeping fields that change on every write
+const AUDIT_IGNORED_FIELDS = new Set(['_id', 'createdAt', 'updatedAt', 'revision', 'lastUsedAt', 'lastLoginAt']);
+
+// Fields whose values must not be copied into the audit log - a change is
+// still recorded, with the values replaced
+const AUDIT_REDACTED_FIELD = /password|secret|token|hash|^key$|^headers$/i;
+const REDACTED = '[redacted]';
+
+/**
+ * Helper to compute the top-level field changes between two versions of a
+ * configuration entity. Either side may be missing for creates and deletes.
+ */
+export function computeEntityChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (AUDIT_IGNORED_FIELDS.has(field)) continue;
+
+    const oldValue = before?.[field];
+    const newValue = after?.[field];
+
+    // ObjectIds and Dates serialize to their string forms
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    if (AUDIT_REDACTED_FIELD.test(field)) {
+      changes.push({
+        field,
+        oldValue: oldValue === undefined || oldValue === null ? null : REDACTED,
+        newValue: newValue === undefined || newValue === null ? null : REDACTED,
+      });
+    } else {
+      changes.push({ field, oldValue: oldValue ?? null, newValue: newValue ?? null });
+    }
+  }
+
+  return changes;
+}
+
 /**
  * Determine additional specific event types based on changes
  */
@@ -246,4 +473,87 @@ export async function publishTaskEvent(
   });
 }
 
+/**
+ * Create and publish an audit event for a change to a configuration
+ * entity. Pass the entity as it was (`before`) and as it is now (`after`);
+ * an update that changed nothing is not published.
+ */
+export async function publishAuditEvent(
+  entityType: AuditEntityType,
+  action: AuditAction,
+  options: {
+    entityId: ObjectId;
+    entityName?: string;
+    before?: object | null;
+    after?: object | null;
+    actorId?: ObjectId | null;
+    actorType?: 'user' | 'system' | 'daemon';
+    metadata?: Record<string, unknown>;
+  }
+): Promise<AuditEvent | null> {
+  const changes = computeEntityChanges(
+    options.before as Record<string, unknown> | null | undefined,
+    options.after as Record<string, unknown> | null | undefined
+  );
+  if (action === 'updated' && changes.length === 0 && !options.metadata) return null;
+
+  return eventBus.publishAudit({
+    type: `${entityType}.${action}`,
+    entityType,
+    entityId: options.entityId,
+    entityName: options.entityName,
+    action,
+    changes,
+    actorId: options.actorId ?? null,
+    actorType: options.actorType ?? 'user',
+    metadata: options.metadata,
+  });
+}
+
+/**
+ * Publish the events for an update of a task: field-specific events
+ * (task.status.changed, ...) for fields that have one, and task.updated for
+ * the remaining changes. Returns the computed changes.
+ */
+export async function publishTaskChangeEvents(
+  originalTask: Task,
+  updatedTask: Task,
+  options: {
+    actorId?: ObjectId | null;
+    actorType?: 'user' | 'system' | 'daemon';
+    metadata?: Record<string, unknown>;
+  } = {}
+): Promise<FieldChange[]> {
+  const changes = computeChanges(originalTask, updatedTask);
+  if (changes.length === 0) return changes;
+
+  // Fields that have their own specific events
+  const fieldsWithSpecificEvents = ['status', 'assigneeId', 'urgency', 'metadata'];
+
+  // Separate changes into those with specific events and those without
+  const genericChanges = changes.filter(c => !fieldsWithSpecificEvents.includes(c.field));
+  const specificEventChanges = changes.filter(c => fieldsWithSpecificEvents.includes(c.field));
+
+  // Publish task.updated only for changes that don't have specific events
+  if (genericChanges.length > 0) {
+    await publishTaskEvent('task.updated', updatedTask, { ...options, changes: genericChanges });
+  }
+
+  // Publish field-specific events
+  for (const eventType of getSpecificEventTypes(specificEventChanges)) {
+    await publishTaskEvent(eventType, updatedTask, {
+      ...options,
+      changes: changes.filter(c => {
+        if (eventType === 'task.status.changed') return c.field === 'status';
+        if (eventType === 'task.assignee.changed') return c.field === 'assigneeId';
+        if (eventType === 'task.priority.changed') return c.field === 'urgency';
+        if (eventType === 'task.metadata.changed') return c.field === 'metadata';
+        return false;
+      }),
+    });
+  }
+
+  return changes;
+}
+
 export default eventBus;
@@ -0,0 +1,352 @@
+import { ChangeStream, ObjectId } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import { NotificationEvent, TaskEvent, WorkflowRunEvent } from '../types/index.js';
+
+/**
+ * An event as carried between processes. `seq` is its position in the
+ * shared stream: assigned by the transport, increasing by one per event.
+ */
+export interface EventEnvelope {
+  seq: number;
+  kind: 'task' | 'workflowRun' | 'notification';
+  event: TaskEvent | WorkflowRunEvent | NotificationEvent;
+  origin: string;                       // host:pid of the publishing process
+  createdAt: Date;
+}
+
+export type EventEnvelopeInput = Omit<EventEnvelope, 'seq' | 'createdAt'>;
+
+export interface EventTransportStatus {
+  name: string;
+  mode: 'in-process' | 'change-stream' | 'polling';
+  lastSeq: number;
+  consumerId?: string;
+}
+
+export interface EventTransportStartOptions {
+  // Durable consumer name. The consumer's position is saved and delivery
+  // resumes from it after a restart; without one, delivery starts at the head.
+  consumerId?: string;
+}
+
+/**
+ * Carries events between the processes sharing a database (API replicas,
+ * the automation daemon). Every published event is delivered back through
+ * `deliver` in every process, including the one that published it.
+ */
+export interface EventTransport {
+  readonly name: string;
+  start(deliver: (envelope: EventEnvelope) => void, options?: EventTransportStartOptions): Promise<void>;
+  publish(input: EventEnvelopeInput): Promise<EventEnvelope>;
+  // Events after a position, oldest first - used to resume SSE streams
+  replay(afterSeq: number, limit: number): Promise<EventEnvelope[]>;
+  getStatus(): EventTransportStatus;
+  stop(): Promise<void>;
+}
+
+// ============================================================================
+// In-process transport
+// ============================================================================
+
+const LOCAL_REPLAY_BUFFER_SIZE = 1000;
+
+/**
+ * Single-process transport: events are delivered immediately and only
+ * within this process. Keeps a small buffer so SSE clients can resume.
+ */
+export class LocalEventTransport implements EventTransport {
+  readonly name = 'local';
+  private seq = 0;
+  private buffer: EventEnvelope[] = [];
+  private deliver: ((envelope: EventEnvelope) => void) | null = null;
+
+  async start(deliver: (envelope: EventEnvelope) => void): Promise<void> {
+    this.deliver = deliver;
+  }
+
+  async publish(input: EventEnvelopeInput): Promise<EventEnvelope> {
+    const envelope: EventEnvelope = { ...input, seq: ++this.seq, createdAt: new Date() };
+
+    this.buffer.push(envelope);
+    if (this.buffer.length > LOCAL_REPLAY_BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+
+    this.deliver?.(envelope);
+    return envelope;
+  }
+
+  async replay(afterSeq: number, limit: number): Promise<EventEnvelope[]> {
+    return this.buffer.filter(envelope => envelope.seq > afterSeq).slice(0, limit);
+  }
+
+  getStatus(): EventTransportStatus {
+    return { name: this.name, mode: 'in-process', lastSeq: this.seq };
+  }
+
+  async stop(): Promise<void> {
+    this.deliver = null;
+  }
+}
+
+// ============================================================================
+// MongoDB outbox transport
+// ============================================================================
+
+const OUTBOX_COUNTER_ID = 'event_outbox';
+const POLL_INTERVAL_MS = 1000;
+// Change streams wake the reader up; this slower poll only backs them up
+const SAFETY_POLL_INTERVAL_MS = 15 * 1000;
+const DRAIN_BATCH_SIZE = 500;
+// How long a missing sequence number is waited for before it is skipped
+const GAP_TIMEOUT_MS = 5000;
+
+interface OutboxDocument extends EventEnvelope {
+  _id?: ObjectId;
+}
+
+interface EventConsumer {
+  _id: string;
+  seq: number;
+  updatedAt: Date;
+}
+
+/**
+ * Outbox transport: every event is written to `event_outbox` with a sequence
+ * number from the `counters` collection, and each process reads the outbox
+ * in sequence order. New inserts are picked up through a change stream when
+ * MongoDB runs as a replica set, otherwise by polling.
+ */
+export class MongoOutboxTransport implements EventTransport {
+  readonly name = 'mongo';
+  private deliver: ((envelope: EventEnvelope) => void) | null = null;
+  private consumerId?: string;
+  private lastSeq = 0;
+  private mode: 'change-stream' | 'polling' = 'polling';
+  private changeStream: ChangeStream | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private gapTimer: NodeJS.Timeout | null = null;
+  private gapSince: { afterSeq: number; at: number } | null = null;
+  private draining = false;
+  private drainRequested = false;
+  private stopped = true;
+
+  private get outbox() {
+    return getDb().collection<OutboxDocument>('event_outbox');
+  }
+
+  private get counters() {
+    return getDb().collection<{ _id: string; seq: number }>('counters');
+  }
+
+  private get consumers() {
+    return getDb().collection<EventConsumer>('event_consumers');
+  }
+
+  async start(deliver: (envelope: EventEnvelope) => void, options: EventTransportStartOptions = {}): Promise<void> {
+    this.deliver = deliver;
+    this.consumerId = options.consumerId;
+    this.stopped = false;
+
+    const saved = this.consumerId ? await this.consumers.findOne({ _id: this.consumerId }) : null;
+    this.lastSeq = saved ? saved.seq : await this.getHeadSeq();
+
+    this.startChangeStream();
+    this.requestDrain();
+
+    console.log(`[EventTransport] Mongo outbox started at seq ${this.lastSeq}${this.consumerId ? ` for consumer ${this.consumerId}` : ''}`);
+  }
+
+  async publish(input: EventEnvelopeInput): Promise<EventEnvelope> {
+    const counter = await this.counters.findOneAndUpdate(
+      { _id: OUTBOX_COUNTER_ID },
+      { $inc: { seq: 1 } },
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    const envelope: EventEnvelope = { ...input, seq: counter!.seq, createdAt: new Date() };
+    await this.outbox.insertOne({ ...envelope });
+    return envelope;
+  }
+
+  async replay(afterSeq: number, limit: number): Promise<EventEnvelope[]> {
+    const docs = await this.outbox
+      .find({ seq: { $gt: afterSeq } })
+      .sort({ seq: 1 })
+      .limit(limit)
+      .toArray();
+    return docs.map(toEnvelope);
+  }
+
+  getStatus(): EventTransportStatus {
+    return {
+      name: this.name,
+      mode: this.mode,
+      lastSeq: this.lastSeq,
+      ...(this.consumerId && { consumerId: this.consumerId }),
+    };
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+    if (this.changeStream) {
+      await this.changeStream.close().catch(() => undefined);
+      this.changeStream = null;
+    }
+    await this.savePosition();
+    this.deliver = null;
+  }
+
+  private async getHeadSeq(): Promise<number> {
+    const counter = await this.counters.findOne({ _id: OUTBOX_COUNTER_ID });
+    return counter?.seq ?? 0;
+  }
+
+  private startChangeStream(): void {
+    try {
+      const stream = this.outbox.watch([{ $match: { operationType: 'insert' } }]);
+      stream.on('change', () => this.requestDrain());
+      // Standalone servers do not support change streams - the error arrives asynchronously
+      stream.on('error', (error: Error) => {
+        console.warn(`[EventTransport] Change stream unavailable (${error.message}) - falling back to polling`);
+        stream.close().catch(() => undefined);
+        if (this.changeStream === stream) {
+          this.changeStream = null;
+        }
+        this.setMode('polling');
+      });
+      this.changeStream = stream;
+      this.setMode('change-stream');
+    } catch (error) {
+      console.warn('[EventTransport] Could not open change stream - falling back to polling:', error);
+      this.setMode('polling');
+    }
+  }
+
+  private setMode(mode: 'change-stream' | 'polling'): void {
+    this.mode = mode;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.stopped) return;
+
+    const interval = mode === 'polling' ? POLL_INTERVAL_MS : SAFETY_POLL_INTERVAL_MS;
+    this.pollTimer = setInterval(() => this.requestDrain(), interval);
+  }
+
+  private requestDrain(): void {
+    if (this.stopped) return;
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+
+    this.draining = true;
+    this.drain()
+      .catch(error => console.error('[EventTransport] Error reading event outbox:', error))
+      .finally(() => {
+        this.draining = false;
+        if (this.drainRequested) {
+          this.drainRequested = false;
+          this.requestDrain();
+        }
+      });
+  }
+
+  /**
+   * Deliver outbox events after lastSeq in order. Sequence numbers are taken
+   * before the insert, so a gap usually means an event is still being
+   * written - it is waited for briefly before being skipped.
+   */
+  private async drain(): Promise<void> {
+    while (!this.stopped) {
+      const docs = await this.outbox
+        .find({ seq: { $gt: this.lastSeq } })
+        .sort({ seq: 1 })
+        .limit(DRAIN_BATCH_SIZE)
+        .toArray();
+      if (docs.length === 0) return;
+
+      let waitingForGap = false;
+      for (const doc of docs) {
+        if (doc.seq !== this.lastSeq + 1 && !this.canSkipGap()) {
+          waitingForGap = true;
+          break;
+        }
+        if (doc.seq !== this.lastSeq + 1) {
+          console.warn(`[EventTransport] Skipping missing event(s) ${this.lastSeq + 1}-${doc.seq - 1}`);
+        }
+
+        this.gapSince = null;
+        this.lastSeq = doc.seq;
+        try {
+          this.deliver?.(toEnvelope(doc));
+        } catch (error) {
+          console.error(`[EventTransport] Error delivering event ${doc.seq}:`, error);
+        }
+      }
+
+      await this.savePosition();
+      if (waitingForGap || docs.length < DRAIN_BATCH_SIZE) return;
+    }
+  }
+
+  /**
+   * True once the gap after lastSeq has been open for GAP_TIMEOUT_MS.
+   * Until then a retry is scheduled.
+   */
+  private canSkipGap(): boolean {
+    const now = Date.now();
+    if (!this.gapSince || this.gapSince.afterSeq !== this.lastSeq) {
+      this.gapSince = { afterSeq: this.lastSeq, at: now };
+    }
+
+    const waited = now - this.gapSince.at;
+    if (waited >= GAP_TIMEOUT_MS) return true;
+
+    if (!this.gapTimer) {
+      this.gapTimer = setTimeout(() => {
+        this.gapTimer = null;
+        this.requestDrain();
+      }, GAP_TIMEOUT_MS - waited);
+    }
+    return false;
+  }
+
+  private async savePosition(): Promise<void> {
+    if (!this.consumerId) return;
+    await this.consumers.updateOne(
+      { _id: this.consumerId },
+      { $set: { seq: this.lastSeq, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+}
+
+function toEnvelope(doc: OutboxDocument): EventEnvelope {
+  const { _id: _outboxId, ...envelope } = doc;
+  return envelope;
+}
+
+/**
+ * Create the transport selected by EVENT_TRANSPORT ('mongo' by default).
+ */
+export function createEventTransport(kind = process.env.EVENT_TRANSPORT || 'mongo'): EventTransport {
+  switch (kind) {
+    case 'mongo':
+      return new MongoOutboxTransport();
+    case 'local':
+      return new LocalEventTransport();
+    default:
+      throw new Error(`Unknown EVENT_TRANSPORT "${kind}" - expected "mongo" or "local"`);
+  }
+}
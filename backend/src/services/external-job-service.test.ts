@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { createMemoryDb, MemoryDb } from '../test-utils/memory-db.js';
+import { externalJobService } from './external-job-service.js';
+
+let memory: MemoryDb;
+
+vi.mock('../db/connection.js', () => ({ getDb: () => memory.asDb() }));
+vi.mock('./event-bus.js', () => ({ publishTaskChangeEvents: vi.fn() }));
+
+const LEASE_MS = 60 * 1000;
+
+describe('external job leases', () => {
+  const jobId = new ObjectId();
+  const taskId = new ObjectId();
+
+  const job = () => memory.collection('external_jobs').findOne({ _id: jobId });
+  const task = () => memory.collection('tasks').findOne({ _id: taskId });
+
+  // Let the lease of the worker holding the job run out
+  const expireLease = () =>
+    memory.collection('external_jobs').updateOne({ _id: jobId }, { $set: { leaseExpiresAt: new Date(Date.now() - 1000) } });
+
+  beforeEach(async () => {
+    memory = createMemoryDb();
+    await memory.collection('tasks').insertOne({ _id: taskId, title: 'Render', status: 'pending', revision: 1 });
+    await memory.collection('external_jobs').insertOne({
+      _id: jobId,
+      taskId,
+      type: 'render',
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: 2,
+      scheduledFor: null,
+      createdAt: new Date(),
+    });
+  });
+
+  it('records the claiming worker and its lease on the job and task', async () => {
+    const claimed = await externalJobService.claim(jobId, 'worker-a', LEASE_MS);
+
+    expect(claimed).toMatchObject({ status: 'processing', workerId: 'worker-a', attempts: 1 });
+    expect(claimed!.leaseExpiresAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(await task()).toMatchObject({ status: 'in_progress', externalJobStatus: 'processing' });
+    expect(await externalJobService.claim(jobId, 'worker-b', LEASE_MS)).toBeNull();
+  });
+
+  it('only extends the lease for the worker holding it', async () => {
+    await externalJobService.claim(jobId, 'worker-a', LEASE_MS);
+
+    expect(await externalJobService.heartbeat(jobId, 'worker-b')).toBeNull();
+    const extended = await externalJobService.heartbeat(jobId, 'worker-a', 10 * LEASE_MS);
+    expect(extended!.leaseExpiresAt!.getTime()).toBeGreaterThan(Date.now() + 9 * LEASE_MS);
+  });
+
+  it('returns jobs with expired leases to pending with a backoff', async () => {
+    await externalJobService.claim(jobId, 'worker-a', LEASE_MS);
+    await expireLease();
+
+    expect(await externalJobService.reapExpiredLeases()).toBe(1);
+    expect(await job()).toMatchObject({ status: 'pending', workerId: null, error: 'Lease expired (worker worker-a)' });
+    expect((await job())!.scheduledFor.getTime()).toBeGreaterThan(Date.now());
+    expect(await task()).toMatchObject({ status: 'pending', externalJobStatus: 'pending' });
+    expect(await externalJobService.claimNext('render', 'worker-b', LEASE_MS)).toBeNull();
+  });
+
+  it('fails jobs whose lease expires on their last attempt', async () => {
+    await memory.collection('external_jobs').updateOne({ _id: jobId }, { $set: { attempts: 1 } });
+    await externalJobService.claim(jobId, 'worker-a', LEASE_MS);
+    await expireLease();
+
+    await externalJobService.reapExpiredLeases();
+    expect(await job()).toMatchObject({ status: 'failed', scheduledFor: null });
+    expect(await task()).toMatchObject({ status: 'failed', externalJobStatus: 'failed' });
+  });
+
+  it('rejects a stale worker once the job was reaped and claimed again', async () => {
+    await externalJobService.claim(jobId, 'worker-a', LEASE_MS);
+    await expireLease();
+    await externalJobService.reapExpiredLeases();
+    await memory.collection('external_jobs').updateOne({ _id: jobId }, { $set: { scheduledFor: null } });
+    await externalJobService.claim(jobId, 'worker-b', LEASE_MS);
+
+    expect(await externalJobService.heartbeat(jobId, 'worker-a')).toBeNull();
+    expect(await externalJobService.fail(jobId, 'worker-a', 'crashed', null)).toBeNull();
+    expect(await externalJobService.complete(jobId, 'worker-a', {})).toBeNull();
+    expect(await job()).toMatchObject({ status: 'processing', workerId: 'worker-b', attempts: 2 });
+
+    expect(await externalJobService.complete(jobId, 'worker-b', { frames: 24 })).toMatchObject({
+      status: 'completed',
+      result: { frames: 24 },
+    });
+    expect(await task()).toMatchObject({ status: 'completed', externalJobStatus: 'completed' });
+  });
+
+  it('retries failed attempts after retryAfter while attempts remain', async () => {
+    await externalJobService.claim(jobId, 'worker-a', LEASE_MS);
+
+    const retried = await externalJobService.fail(jobId, 'worker-a', 'timeout', 30 * 1000);
+    expect(retried).toMatchObject({ status: 'pending', error: 'timeout', workerId: null });
+    expect(retried!.scheduledFor!.getTime()).toBeGreaterThan(Date.now() + 29 * 1000);
+    expect(await task()).toMatchObject({ status: 'pending', externalJobStatus: 'pending' });
+
+    await memory.collection('external_jobs').updateOne({ _id: jobId }, { $set: { scheduledFor: null } });
+    await externalJobService.claim(jobId, 'worker-a', LEASE_MS);
+    expect(await externalJobService.fail(jobId, 'worker-a', 'timeout', null)).toMatchObject({ status: 'failed' });
+    expect(await task()).toMatchObject({ status: 'failed', externalJobStatus: 'failed' });
+  });
+});
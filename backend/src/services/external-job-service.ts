@@ -0,0 +1,335 @@
+import { ObjectId, Filter } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import { ExternalJob, Task } from '../types/index.js';
+import { publishTaskChangeEvents } from './event-bus.js';
+
+export const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+const MIN_LEASE_MS = 10 * 1000;
+const MAX_LEASE_MS = 60 * 60 * 1000;
+
+const LEASE_REAPER_INTERVAL_MS = 30 * 1000;
+// Backoff before an expired job can be claimed again: 30s, 1m, 2m, ... up to 15m
+const REAP_BACKOFF_BASE_MS = 30 * 1000;
+const REAP_BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+/**
+ * Convert a requested lease length in seconds to milliseconds, clamped to
+ * the allowed range. Falls back to the default when none is given.
+ */
+export function resolveLeaseMs(leaseSeconds: unknown): number {
+  const seconds = Number(leaseSeconds);
+  if (leaseSeconds === undefined || leaseSeconds === null || !Number.isFinite(seconds)) {
+    return DEFAULT_LEASE_MS;
+  }
+  return Math.min(MAX_LEASE_MS, Math.max(MIN_LEASE_MS, Math.round(seconds * 1000)));
+}
+
+/**
+ * ExternalJobService manages worker leases on external jobs.
+ *
+ * Claiming a job records the worker and a lease expiry. Workers extend the
+ * lease with heartbeats while they work; a job whose lease runs out (the
+ * worker crashed or lost its connection) is returned to `pending` with a
+ * backoff, or failed once it has used up `maxAttempts`.
+ *
+ * Every change a job makes to its task goes through updateTask(), which
+ * publishes the task events - workflow runs waiting on the task, dependents,
+ * webhooks, notifications and SSE clients all rely on them.
+ */
+class ExternalJobService {
+  private initialized = false;
+  private reaperInterval: NodeJS.Timeout | null = null;
+
+  private get jobs() {
+    return getDb().collection<ExternalJob>('external_jobs');
+  }
+
+  private get tasks() {
+    return getDb().collection<Task>('tasks');
+  }
+
+  initialize(): void {
+    if (this.initialized) return;
+
+    this.startLeaseReaper();
+
+    this.initialized = true;
+    console.log('[ExternalJobService] Initialized');
+  }
+
+  /**
+   * Claim a specific pending job. Returns null if it doesn't exist or is
+   * not pending.
+   */
+  async claim(jobId: ObjectId, workerId: string | null, leaseMs: number): Promise<ExternalJob | null> {
+    return this.claimMatching({ _id: jobId, status: 'pending' }, workerId, leaseMs);
+  }
+
+  /**
+   * Atomically claim the oldest pending job that is due, optionally of one
+   * type. Returns null when there is nothing to do.
+   */
+  async claimNext(type: string | undefined, workerId: string | null, leaseMs: number): Promise<ExternalJob | null> {
+    const filter: Filter<ExternalJob> = {
+      status: 'pending',
+      $or: [{ scheduledFor: null }, { scheduledFor: { $lte: new Date() } }],
+    };
+    if (type) {
+      filter.type = type;
+    }
+
+    return this.claimMatching(filter, workerId, leaseMs, { createdAt: 1 });
+  }
+
+  /**
+   * Extend the lease of a job the worker is processing. Returns null if the
+   * job is no longer processing or is leased to someone else.
+   */
+  async heartbeat(jobId: ObjectId, workerId: string, leaseMs?: number): Promise<ExternalJob | null> {
+    const job = await this.jobs.findOne({ _id: jobId, status: 'processing', workerId });
+    if (!job) return null;
+
+    const now = new Date();
+    const duration = leaseMs ?? job.leaseDurationMs ?? DEFAULT_LEASE_MS;
+
+    return this.jobs.findOneAndUpdate(
+      { _id: jobId, status: 'processing', workerId },
+      {
+        $set: {
+          leaseExpiresAt: new Date(now.getTime() + duration),
+          leaseDurationMs: duration,
+          lastHeartbeatAt: now,
+          updatedAt: now,
+        },
+      },
+      { returnDocument: 'after' }
+    );
+  }
+
+  /**
+   * Complete a job and its task. When a worker id is given, only the worker
+   * holding the lease can complete it. Returns null if the job is no longer
+   * processing or is leased to someone else.
+   */
+  async complete(
+    jobId: ObjectId,
+    workerId: string | undefined,
+    result: Record<string, unknown>,
+    options: { actorId?: ObjectId | null } = {}
+  ): Promise<ExternalJob | null> {
+    const now = new Date();
+
+    const filter: Filter<ExternalJob> = { _id: jobId, status: 'processing' };
+    if (workerId) {
+      filter.workerId = workerId;
+    }
+
+    const job = await this.jobs.findOneAndUpdate(
+      filter,
+      {
+        $set: {
+          status: 'completed',
+          result,
+          completedAt: now,
+          leaseExpiresAt: null,
+          updatedAt: now,
+        },
+      },
+      { returnDocument: 'after' }
+    );
+    if (!job) return null;
+
+    // Publishes task.status.changed so a waiting workflow run moves on
+    await this.updateTask(
+      job.taskId,
+      { externalJobStatus: 'completed', status: 'completed', completedAt: now },
+      { actorId: options.actorId, actorType: 'user', metadata: { externalJobId: job._id.toString() } }
+    );
+
+    return job;
+  }
+
+  /**
+   * Record a failed attempt by the worker holding the job: back to pending
+   * (after `retryAfterMs`, if given) while attempts remain, otherwise failed.
+   * A worker that claimed nothing passes null. Returns null if the job is no
+   * longer processing or is leased to someone else.
+   */
+  async fail(
+    jobId: ObjectId,
+    workerId: string | null,
+    error: string,
+    retryAfterMs: number | null,
+    options: { actorId?: ObjectId | null } = {}
+  ): Promise<ExternalJob | null> {
+    const job = await this.jobs.findOne({ _id: jobId, status: 'processing', workerId });
+    if (!job) return null;
+
+    const now = new Date();
+    const canRetry = job.attempts < job.maxAttempts;
+
+    // Matching on attempts skips a job the reaper returned and that was claimed again
+    const result = await this.jobs.findOneAndUpdate(
+      { _id: jobId, status: 'processing', workerId, attempts: job.attempts },
+      {
+        $set: {
+          status: canRetry ? 'pending' : 'failed',
+          error,
+          scheduledFor: canRetry && retryAfterMs ? new Date(now.getTime() + retryAfterMs) : null,
+          workerId: null,
+          leaseExpiresAt: null,
+          updatedAt: now,
+        },
+      },
+      { returnDocument: 'after' }
+    );
+    if (!result) return null;
+
+    await this.updateTask(
+      job.taskId,
+      canRetry ? { externalJobStatus: 'pending', status: 'pending' } : { externalJobStatus: 'failed', status: 'failed' },
+      { actorId: options.actorId, actorType: 'user', metadata: { externalJobId: job._id.toString() } }
+    );
+
+    return result;
+  }
+
+  /**
+   * Return jobs with expired leases to pending, or fail them once they have
+   * no attempts left. Returns the number of jobs reaped.
+   */
+  async reapExpiredLeases(): Promise<number> {
+    const now = new Date();
+    const expired = await this.jobs
+      .find({ status: 'processing', leaseExpiresAt: { $lte: now } })
+      .limit(100)
+      .toArray();
+
+    let reaped = 0;
+    for (const job of expired) {
+      const canRetry = job.attempts < job.maxAttempts;
+      const error = `Lease expired${job.workerId ? ` (worker ${job.workerId})` : ''}`;
+
+      // Matching on the old expiry skips jobs that got a heartbeat meanwhile
+      const result = await this.jobs.findOneAndUpdate(
+        { _id: job._id, status: 'processing', leaseExpiresAt: job.leaseExpiresAt },
+        {
+          $set: {
+            status: canRetry ? 'pending' : 'failed',
+            error,
+            scheduledFor: canRetry ? new Date(now.getTime() + this.getReapBackoffMs(job.attempts)) : null,
+            workerId: null,
+            leaseExpiresAt: null,
+            updatedAt: now,
+          },
+        },
+        { returnDocument: 'after' }
+      );
+      if (!result) continue;
+
+      await this.updateTask(
+        job.taskId,
+        canRetry ? { externalJobStatus: 'pending', status: 'pending' } : { externalJobStatus: 'failed', status: 'failed' },
+        { actorType: 'system', metadata: { externalJobId: job._id.toString(), leaseExpired: true } }
+      );
+
+      console.log(`[ExternalJobService] ${error} for job ${job._id} - ${canRetry ? 'returned to pending' : 'failed'}`);
+      reaped++;
+    }
+
+    return reaped;
+  }
+
+  /**
+   * Apply a job's state to its task, then publish task.status.changed (and
+   * task.updated for the other fields) the way any other task write does.
+   * Returns the updated task, or null if it no longer exists.
+   */
+  async updateTask(
+    taskId: ObjectId,
+    fields: Record<string, unknown>,
+    options: { actorId?: ObjectId | null; actorType?: 'user' | 'system' | 'daemon'; metadata?: Record<string, unknown> } = {}
+  ): Promise<Task | null> {
+    const original = await this.tasks.findOne({ _id: taskId });
+    if (!original) return null;
+
+    const updated = await this.tasks.findOneAndUpdate(
+      { _id: taskId },
+      {
+        $set: { ...fields, updatedAt: new Date() },
+        $inc: { revision: 1 },
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) return null;
+
+    await publishTaskChangeEvents(original, updated, {
+      actorId: options.actorId,
+      actorType: options.actorType ?? 'system',
+      metadata: options.metadata,
+    });
+    return updated;
+  }
+
+  private getReapBackoffMs(attempts: number): number {
+    return Math.min(REAP_BACKOFF_MAX_MS, REAP_BACKOFF_BASE_MS * Math.pow(2, Math.max(0, attempts - 1)));
+  }
+
+  private async claimMatching(
+    filter: Filter<ExternalJob>,
+    workerId: string | null,
+    leaseMs: number,
+    sort?: Record<string, 1 | -1>
+  ): Promise<ExternalJob | null> {
+    const now = new Date();
+
+    const job = await this.jobs.findOneAndUpdate(
+      filter,
+      {
+        $set: {
+          status: 'processing',
+          workerId,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          leaseDurationMs: leaseMs,
+          lastHeartbeatAt: now,
+          startedAt: now,
+          updatedAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { returnDocument: 'after', ...(sort && { sort }) }
+    );
+    if (!job) return null;
+
+    await this.updateTask(
+      job.taskId,
+      { externalJobStatus: 'processing', status: 'in_progress' },
+      { actorType: 'system', metadata: { externalJobId: job._id.toString(), ...(workerId && { workerId }) } }
+    );
+
+    return job;
+  }
+
+  private startLeaseReaper(): void {
+    this.reaperInterval = setInterval(async () => {
+      try {
+        await this.reapExpiredLeases();
+      } catch (error) {
+        console.error('[ExternalJobService] Lease reaper error:', error);
+      }
+    }, LEASE_REAPER_INTERVAL_MS);
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.reaperInterval) {
+      clearInterval(this.reaperInterval);
+      this.reaperInterval = null;
+    }
+    console.log('[ExternalJobService] Shutdown complete');
+  }
+}
+
+// Singleton instance
+export const externalJobService = new ExternalJobService();
+
+export default externalJobService;
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMemoryDb, MemoryDb } from '../test-utils/memory-db.js';
+import { FieldValidator } from './field-validator.js';
+
+let memory: MemoryDb;
+
+vi.mock('../db/connection.js', () => ({ getDb: () => memory.asDb() }));
+
+describe('FieldValidator tags', () => {
+  const validate = async (doc: Record<string, unknown>, original?: Record<string, unknown>) => {
+    const validator = new FieldValidator();
+    await validator.loadFieldConfigs('tasks');
+    return validator.validate(doc, original ? { mode: 'update', original } : { mode: 'create' });
+  };
+
+  beforeEach(async () => {
+    memory = createMemoryDb();
+    await memory.collection('field_configs').insertOne({
+      collectionName: 'tasks',
+      fieldPath: 'tags',
+      displayName: 'Tags',
+      fieldType: 'tags',
+      isRequired: false,
+      isEditable: true,
+    });
+  });
+
+  it('accepts any tag when no tags are set up', async () => {
+    expect(await validate({ tags: ['anything'] })).toEqual([]);
+  });
+
+  it('rejects tags that do not exist or are inactive', async () => {
+    await memory.collection('tags').insertMany([
+      { name: 'bug', isActive: true },
+      { name: 'old', isActive: false },
+    ]);
+
+    expect(await validate({ tags: ['bug'] })).toEqual([]);
+    expect(await validate({ tags: ['bug', 'old', 'new'] })).toEqual([
+      { field: 'tags', rule: 'options', message: 'Unknown tags: old, new' },
+    ]);
+  });
+
+  it('leaves tags the task already has alone', async () => {
+    await memory.collection('tags').insertOne({ name: 'bug', isActive: true });
+
+    expect(await validate({ tags: ['bug', 'legacy'] }, { tags: ['legacy'] })).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+import { ObjectId, Document } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import { createError } from '../middleware/error-handler.js';
+import { FieldConfig, FieldValidationError, LookupValue, Tag } from '../types/index.js';
+
+export interface ValidateOptions {
+  // 'create' checks every configured field; 'update' only the fields being written
+  mode: 'create' | 'update';
+  // The stored document, for updates
+  original?: Document;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function isValidDate(value: unknown): boolean {
+  if (value instanceof Date) return !isNaN(value.getTime());
+  return (typeof value === 'string' || typeof value === 'number') && !isNaN(new Date(value).getTime());
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Validates documents against the field configurations of a collection -
+ * the same rules the frontend applies in its forms, so API clients can't
+ * write values the UI would reject.
+ */
+export class FieldValidator {
+  private fieldConfigs: FieldConfig[] = [];
+  private lookupCache: Map<string, Set<string>> = new Map();
+  private tagNames: Set<string> | null = null;
+
+  async loadFieldConfigs(collectionName: string): Promise<void> {
+    const db = getDb();
+    this.fieldConfigs = await db
+      .collection<FieldConfig>('field_configs')
+      .find({ collectionName })
+      .toArray();
+  }
+
+  /**
+   * Validate a new document, or the fields set by an update, and return
+   * every failed rule.
+   */
+  async validate(doc: Document, options: ValidateOptions): Promise<FieldValidationError[]> {
+    const errors: FieldValidationError[] = [];
+
+    for (const config of this.fieldConfigs) {
+      const rootField = config.fieldPath.split('.')[0];
+      if (options.mode === 'update' && !(rootField in doc)) continue;
+
+      const value = this.getNestedValue(doc, config.fieldPath);
+      const originalValue = options.original ? this.getNestedValue(options.original, config.fieldPath) : undefined;
+
+      if (options.mode === 'update' && !config.isEditable) {
+        if (!sameValue(value, originalValue)) {
+          errors.push({ field: config.fieldPath, rule: 'editable', message: `${config.displayName} cannot be changed` });
+        }
+        continue;
+      }
+
+      if (isEmpty(value)) {
+        if (config.isRequired || config.validation?.required) {
+          errors.push({ field: config.fieldPath, rule: 'required', message: `${config.displayName} is required` });
+        }
+        continue;
+      }
+
+      errors.push(...await this.validateValue(config, value, originalValue));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate and throw a 400 listing the failed rules, if any.
+   */
+  async assertValid(doc: Document, options: ValidateOptions): Promise<void> {
+    const errors = await this.validate(doc, options);
+    if (errors.length > 0) {
+      throw createError(`Validation failed: ${errors.map(e => e.message).join('; ')}`, 400, { errors });
+    }
+  }
+
+  private async validateValue(config: FieldConfig, value: unknown, originalValue: unknown): Promise<FieldValidationError[]> {
+    const field = config.fieldPath;
+    const name = config.displayName;
+    const typeError = (expected: string): FieldValidationError[] => [
+      { field, rule: 'type', message: `${name} must be ${expected}` },
+    ];
+
+    switch (config.fieldType) {
+      case 'text':
+      case 'textarea':
+        if (typeof value !== 'string') return typeError('a string');
+        return this.validateRules(config, value);
+
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) return typeError('a number');
+        return this.validateRules(config, value);
+
+      case 'boolean':
+        if (typeof value !== 'boolean') return typeError('true or false');
+        return [];
+
+      case 'datetime':
+      case 'date':
+        if (!isValidDate(value)) return typeError('a valid date');
+        return [];
+
+      case 'reference':
+        if (!(value instanceof ObjectId) && !(typeof value === 'string' && ObjectId.isValid(value))) {
+          return typeError('a valid ID');
+        }
+        return [];
+
+      case 'select': {
+        if (typeof value !== 'string') return typeError('a string');
+        const allowed = await this.getAllowedValues(config);
+        if (allowed && !allowed.has(value)) {
+          return [{ field, rule: 'options', message: `${name} "${value}" is not a valid option` }];
+        }
+        return [];
+      }
+
+      case 'multiselect':
+      case 'tags': {
+        if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) return typeError('a list of strings');
+        const errors = this.validateRules(config, value);
+
+        const allowed = config.fieldType === 'tags' ? await this.getTagNames() : await this.getAllowedValues(config);
+        // Values already stored are left alone so old data doesn't block unrelated edits
+        const existing = new Set(Array.isArray(originalValue) ? originalValue : []);
+        const unknown = allowed ? (value as string[]).filter(v => !allowed.has(v) && !existing.has(v)) : [];
+        if (unknown.length > 0) {
+          const label = config.fieldType === 'tags' ? 'Unknown tag' : `${name} has invalid option`;
+          errors.push({ field, rule: 'options', message: `${label}${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}` });
+        }
+        return errors;
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  private validateRules(config: FieldConfig, value: string | number | unknown[]): FieldValidationError[] {
+    const rules = config.validation;
+    if (!rules) return [];
+
+    const field = config.fieldPath;
+    const name = config.displayName;
+    const errors: FieldValidationError[] = [];
+
+    if (typeof value === 'number') {
+      if (rules.min !== undefined && value < rules.min) {
+        errors.push({ field, rule: 'min', message: `${name} must be at least ${rules.min}` });
+      }
+      if (rules.max !== undefined && value > rules.max) {
+        errors.push({ field, rule: 'max', message: `${name} must be at most ${rules.max}` });
+      }
+      return errors;
+    }
+
+    const unit = typeof value === 'string' ? 'characters' : 'items';
+    if (rules.minLength !== undefined && value.length < rules.minLength) {
+      errors.push({ field, rule: 'minLength', message: `${name} must be at least ${rules.minLength} ${unit}` });
+    }
+    if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+      errors.push({ field, rule: 'maxLength', message: `${name} must be at most ${rules.maxLength} ${unit}` });
+    }
+
+    if (rules.pattern && typeof value === 'string') {
+      let pattern: RegExp | null = null;
+      try {
+        pattern = new RegExp(rules.pattern);
+      } catch {
+        console.warn(`[FieldValidator] Ignoring invalid pattern for ${config.collectionName}.${field}: ${rules.pattern}`);
+      }
+      if (pattern && !pattern.test(value)) {
+        errors.push({ field, rule: 'pattern', message: `${name} has an invalid format` });
+      }
+    }
+
+    return errors;
+  }
+
+  // Allowed values of a select field, or null if it has no fixed set
+  private async getAllowedValues(config: FieldConfig): Promise<Set<string> | null> {
+    if (config.options && config.options.length > 0) {
+      return new Set(config.options.map(o => o.value));
+    }
+    if (!config.lookupType) return null;
+
+    if (!this.lookupCache.has(config.lookupType)) {
+      const lookups = await getDb()
+        .collection<LookupValue>('lookups')
+        .find({ type: config.lookupType, isActive: true })
+        .project<{ code: string }>({ code: 1 })
+        .toArray();
+      this.lookupCache.set(config.lookupType, new Set(lookups.map(l => l.code)));
+    }
+    // A lookup type with no values hasn't been set up - don't reject everything
+    const codes = this.lookupCache.get(config.lookupType)!;
+    return codes.size > 0 ? codes : null;
+  }
+
+  // Names of the active tags, or null if none are set up - like an empty lookup type
+  private async getTagNames(): Promise<Set<string> | null> {
+    if (!this.tagNames) {
+      const tags = await getDb()
+        .collection<Tag>('tags')
+        .find({ isActive: true })
+        .project<{ name: string }>({ name: 1 })
+        .toArray();
+      this.tagNames = new Set(tags.map(t => t.name));
+    }
+    return this.tagNames.size > 0 ? this.tagNames : null;
+  }
+
+  private getNestedValue(obj: Document, path: string): unknown {
+    return path.split('.').reduce((current, key) => {
+      return current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
+    }, obj as unknown);
+  }
+}
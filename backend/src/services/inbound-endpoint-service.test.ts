@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { createMemoryDb, MemoryDb } from '../test-utils/memory-db.js';
+import { inboundEndpointService, parseInboundBody, verifyInboundSignature } from './inbound-endpoint-service.js';
+
+let memory: MemoryDb;
+
+vi.mock('../db/connection.js', () => ({ getDb: () => memory.asDb() }));
+
+const body = (text: string) => Buffer.from(text);
+
+describe('parseInboundBody', () => {
+  it('parses JSON bodies', () => {
+    expect(parseInboundBody(body('{"issue":{"id":42}}'), 'application/json; charset=utf-8')).toEqual({ issue: { id: 42 } });
+    expect(parseInboundBody(body('{"a":1}'), 'application/vnd.api+json')).toEqual({ a: 1 });
+    expect(() => parseInboundBody(body('{"a":'), 'application/json')).toThrow();
+  });
+
+  it('parses form fields, keeping repeated fields as arrays', () => {
+    expect(parseInboundBody(body('event=push&tag=a&tag=b&note=two+words'), 'application/x-www-form-urlencoded'))
+      .toEqual({ event: 'push', tag: ['a', 'b'], note: 'two words' });
+  });
+
+  it('keeps text and untyped bodies that are not JSON as text', () => {
+    expect(parseInboundBody(body('build failed'), 'text/plain')).toBe('build failed');
+    expect(parseInboundBody(body('{"a":1}'), 'text/plain')).toBe('{"a":1}');
+    expect(parseInboundBody(body('{"a":1}'), undefined)).toEqual({ a: 1 });
+    expect(parseInboundBody(body('{not json'), undefined)).toBe('{not json');
+    expect(parseInboundBody(body('ping'), undefined)).toBe('ping');
+  });
+
+  it('treats an empty body as an empty object', () => {
+    expect(parseInboundBody(Buffer.alloc(0), 'application/json')).toEqual({});
+    expect(parseInboundBody(Buffer.alloc(0), undefined)).toEqual({});
+  });
+});
+
+describe('verifyInboundSignature', () => {
+  const secret = 'shh';
+  const sign = (raw: Buffer) => crypto.createHmac('sha256', secret).update(raw).digest('hex');
+
+  it('accepts a signature over the raw bytes whatever the content type', () => {
+    for (const raw of [body('{"a":1}'), body('a=1&b=2'), body('plain text'), Buffer.alloc(0)]) {
+      expect(verifyInboundSignature(secret, raw, `sha256=${sign(raw)}`)).toBe(true);
+      expect(verifyInboundSignature(secret, raw, sign(raw))).toBe(true);
+    }
+  });
+
+  it('rejects missing, malformed and mismatched signatures', () => {
+    const raw = body('a=1');
+    expect(verifyInboundSignature(secret, raw, undefined)).toBe(false);
+    expect(verifyInboundSignature(secret, raw, 'sha256=zz')).toBe(false);
+    expect(verifyInboundSignature(secret, raw, `sha256=${sign(body('a=2'))}`)).toBe(false);
+  });
+});
+
+describe('receive', () => {
+  const secret = 'shh';
+  const endpointId = new ObjectId();
+  const sign = (raw: Buffer) => `sha256=${crypto.createHmac('sha256', secret).update(raw).digest('hex')}`;
+  const send = (raw: Buffer, headers: Record<string, string> = {}) =>
+    inboundEndpointService.receive('ci', { rawBody: raw, contentType: 'application/json', headers, query: {} });
+
+  beforeEach(async () => {
+    memory = createMemoryDb();
+    await memory.collection('inbound_endpoints').insertOne({
+      _id: endpointId,
+      slug: 'ci',
+      secret,
+      signatureHeader: 'X-Signature',
+      isActive: true,
+      targetType: 'task',
+      lastDeliveryAt: null,
+    });
+  });
+
+  it('keeps only the start of an unsigned request and leaves lastDeliveryAt alone', async () => {
+    const raw = body(JSON.stringify({ padding: 'x'.repeat(50000) }));
+    const result = await send(raw, { 'x-signature': 'sha256=00', authorization: 'Bearer token' });
+
+    expect(result.statusCode).toBe(401);
+    const [delivery] = memory.collection('inbound_deliveries').docs;
+    expect(delivery).toMatchObject({ status: 'rejected', statusCode: 401 });
+    expect(delivery.body).toHaveLength(1024);
+    expect(delivery.headers).toEqual({});
+    expect((await memory.collection('inbound_endpoints').findOne({ _id: endpointId }))?.lastDeliveryAt).toBeNull();
+  });
+
+  it('checks the signature before reporting a disabled endpoint', async () => {
+    await memory.collection('inbound_endpoints').updateOne({ _id: endpointId }, { $set: { isActive: false } });
+    const raw = body('{"a":1}');
+
+    expect((await send(raw)).statusCode).toBe(401);
+    expect((await send(raw, { 'x-signature': sign(raw) })).statusCode).toBe(409);
+    expect((await memory.collection('inbound_endpoints').findOne({ _id: endpointId }))?.lastDeliveryAt).toBeNull();
+  });
+
+  it('rejects signed bodies that are not valid JSON', async () => {
+    const raw = body('{"a":');
+    const result = await send(raw, { 'x-signature': sign(raw) });
+
+    expect(result.statusCode).toBe(400);
+    expect(result.body.error).toMatch(/Invalid JSON body/);
+    expect(memory.collection('inbound_deliveries').docs[0].body).toBe('{"a":');
+  });
+});
@@ -0,0 +1,639 @@
+import { ObjectId, Document } from 'mongodb';
+import crypto from 'crypto';
+import { getDb } from '../db/connection.js';
+import { createError } from '../middleware/error-handler.js';
+import {
+  InboundDelivery,
+  InboundDeliveryStatus,
+  InboundEndpoint,
+  InboundTargetType,
+  InboundTaskMapping,
+  InboundWorkflowTarget,
+  Task,
+} from '../types/index.js';
+import { publishTaskEvent } from './event-bus.js';
+import { FieldValidator } from './field-validator.js';
+import { getValueByPathStatic, workflowExecutionService } from './workflow-execution-service.js';
+
+const TARGET_TYPES: InboundTargetType[] = ['task', 'workflow'];
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+const DEFAULT_SIGNATURE_HEADER = 'X-Signature';
+// Headers never written to the delivery log
+const REDACTED_HEADERS = new Set(['authorization', 'cookie', 'x-api-key']);
+// Bytes of the raw body kept when a request is rejected - it may not be from the sender at all
+const REJECTED_BODY_PREVIEW_BYTES = 1024;
+
+export interface InboundEndpointInput {
+  name?: unknown;
+  slug?: unknown;
+  description?: unknown;
+  signatureHeader?: unknown;
+  isActive?: unknown;
+  targetType?: unknown;
+  taskMapping?: unknown;
+  workflow?: unknown;
+  externalIdPath?: unknown;
+}
+
+export interface InboundRequest {
+  rawBody: Buffer;
+  contentType: string | undefined;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, unknown>;
+}
+
+export interface InboundResult {
+  statusCode: number;
+  body: Record<string, unknown>;
+}
+
+interface TemplateContext {
+  body: unknown;
+  headers: Record<string, string>;
+  query: Record<string, unknown>;
+  receivedAt: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return isPlainObject(value) && Object.values(value).every((v) => typeof v === 'string');
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Render a {{path}} template against the request. A template that is a
+ * single {{path}} keeps the value's type (for workflow input and metadata);
+ * otherwise values are interpolated as text, objects as JSON.
+ */
+export function renderInboundTemplate(template: string, context: TemplateContext): unknown {
+  const whole = template.match(/^\s*\{\{\s*([^}]+?)\s*\}\}\s*$/);
+  if (whole) {
+    return getValueByPathStatic(context, whole[1]);
+  }
+  return template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, path: string) => {
+    const value = getValueByPathStatic(context, path);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+function renderText(template: string | undefined, context: TemplateContext): string {
+  if (!template) return '';
+  const value = renderInboundTemplate(template, context);
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+}
+
+function normalizeTaskMapping(value: unknown): InboundTaskMapping {
+  if (!isPlainObject(value)) {
+    throw createError('taskMapping is required for task endpoints', 400);
+  }
+  if (typeof value.title !== 'string' || !value.title.trim()) {
+    throw createError('taskMapping.title is required', 400);
+  }
+  for (const field of ['summary', 'extraPrompt', 'status', 'urgency', 'assigneeId', 'parentId']) {
+    if (value[field] !== undefined && value[field] !== null && typeof value[field] !== 'string') {
+      throw createError(`taskMapping.${field} must be a string`, 400);
+    }
+  }
+  if (value.tags !== undefined && (!Array.isArray(value.tags) || value.tags.some((t) => typeof t !== 'string'))) {
+    throw createError('taskMapping.tags must be a list of strings', 400);
+  }
+  if (value.metadata !== undefined && !isStringRecord(value.metadata)) {
+    throw createError('taskMapping.metadata must map keys to templates', 400);
+  }
+
+  const mapping: InboundTaskMapping = { title: value.title.trim() };
+  for (const field of ['summary', 'extraPrompt', 'status', 'urgency', 'assigneeId', 'parentId'] as const) {
+    const fieldValue = value[field];
+    if (typeof fieldValue === 'string' && fieldValue.trim()) mapping[field] = fieldValue.trim();
+  }
+  if (Array.isArray(value.tags) && value.tags.length > 0) mapping.tags = value.tags as string[];
+  if (isStringRecord(value.metadata)) mapping.metadata = value.metadata;
+  return mapping;
+}
+
+function normalizeWorkflowTarget(value: unknown): InboundWorkflowTarget {
+  if (!isPlainObject(value)) {
+    throw createError('workflow is required for workflow endpoints', 400);
+  }
+  if (typeof value.workflowId !== 'string' || !ObjectId.isValid(value.workflowId)) {
+    throw createError('workflow.workflowId must be a valid ID', 400);
+  }
+  if (value.inputMapping !== undefined && value.inputMapping !== null && !isStringRecord(value.inputMapping)) {
+    throw createError('workflow.inputMapping must map keys to templates', 400);
+  }
+
+  const inputMapping = isStringRecord(value.inputMapping) && Object.keys(value.inputMapping).length > 0
+    ? value.inputMapping
+    : null;
+  return { workflowId: new ObjectId(value.workflowId), inputMapping };
+}
+
+/**
+ * Parse the raw body of an inbound request by its content type: JSON
+ * (also `+json` types and untyped bodies that look like JSON), form fields
+ * (repeated fields become arrays) or, for anything else, the text itself.
+ * An empty body is `{}`. Throws on malformed JSON.
+ */
+export function parseInboundBody(rawBody: Buffer, contentType: string | undefined): unknown {
+  if (rawBody.length === 0) return {};
+
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  const text = rawBody.toString('utf8');
+
+  if (type === 'application/json' || type.endsWith('+json')) {
+    return JSON.parse(text);
+  }
+  if (type === 'application/x-www-form-urlencoded') {
+    const fields: Record<string, string | string[]> = {};
+    for (const [key, value] of new URLSearchParams(text)) {
+      const existing = fields[key];
+      fields[key] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+    return fields;
+  }
+  if (!type && /^\s*[[{]/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/**
+ * Verify an `sha256=<hex>` (or bare hex) HMAC-SHA256 signature of the raw
+ * request body.
+ */
+export function verifyInboundSignature(secret: string, rawBody: Buffer, signature: string | undefined): boolean {
+  if (!signature) return false;
+  const provided = signature.trim().replace(/^sha256=/i, '');
+  if (!/^[0-9a-f]{64}$/i.test(provided)) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+  return crypto.timingSafeEqual(Buffer.from(provided.toLowerCase(), 'hex'), Buffer.from(expected, 'hex'));
+}
+
+/**
+ * InboundEndpointService receives POSTs to named inbound endpoints
+ * (`/api/inbound/:slug`). Each request must be signed with the endpoint's
+ * secret; the body is then mapped to a new task or a workflow run's input.
+ *
+ * When the endpoint has an `externalIdPath`, the ID found there is claimed
+ * through a unique `dedupeKey` on the delivery, so a sender's retries create
+ * one task or run even when they arrive at the same time. A delivery that
+ * fails releases the ID so the sender can retry. Every request that names an
+ * existing endpoint is recorded in `inbound_deliveries`.
+ */
+class InboundEndpointService {
+  private get endpoints() {
+    return getDb().collection<InboundEndpoint>('inbound_endpoints');
+  }
+
+  private get deliveries() {
+    return getDb().collection<InboundDelivery>('inbound_deliveries');
+  }
+
+  // ==========================================================================
+  // CRUD
+  // ==========================================================================
+
+  async getEndpoint(id: ObjectId): Promise<InboundEndpoint> {
+    const endpoint = await this.endpoints.findOne({ _id: id });
+    if (!endpoint) {
+      throw createError('Inbound endpoint not found', 404);
+    }
+    return endpoint;
+  }
+
+  async createEndpoint(input: InboundEndpointInput, actorId: ObjectId | null): Promise<InboundEndpoint> {
+    const fields = this.normalizeInput(input, null);
+    const now = new Date();
+
+    const endpoint: Omit<InboundEndpoint, '_id'> = {
+      name: fields.name!,
+      slug: fields.slug!,
+      ...(fields.description && { description: fields.description }),
+      secret: generateSecret(),
+      signatureHeader: fields.signatureHeader ?? DEFAULT_SIGNATURE_HEADER,
+      isActive: fields.isActive ?? true,
+      targetType: fields.targetType!,
+      taskMapping: fields.taskMapping ?? null,
+      workflow: fields.workflow ?? null,
+      externalIdPath: fields.externalIdPath ?? null,
+      lastDeliveryAt: null,
+      createdById: actorId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      const result = await this.endpoints.insertOne(endpoint as InboundEndpoint);
+      return { ...endpoint, _id: result.insertedId } as InboundEndpoint;
+    } catch (error) {
+      throw this.slugConflict(error, endpoint.slug);
+    }
+  }
+
+  async updateEndpoint(id: ObjectId, input: InboundEndpointInput): Promise<InboundEndpoint> {
+    const existing = await this.getEndpoint(id);
+    const fields = this.normalizeInput(input, existing);
+    const targetType = fields.targetType ?? existing.targetType;
+
+    try {
+      const updated = await this.endpoints.findOneAndUpdate(
+        { _id: id },
+        {
+          $set: {
+            ...fields,
+            // Switching target drops the other target's settings
+            ...(targetType === 'task' && { workflow: null }),
+            ...(targetType === 'workflow' && { taskMapping: null }),
+            updatedAt: new Date(),
+          },
+        },
+        { returnDocument: 'after' }
+      );
+      if (!updated) {
+        throw createError('Inbound endpoint not found', 404);
+      }
+      return updated;
+    } catch (error) {
+      throw this.slugConflict(error, fields.slug ?? existing.slug);
+    }
+  }
+
+  async deleteEndpoint(id: ObjectId): Promise<void> {
+    const result = await this.endpoints.deleteOne({ _id: id });
+    if (result.deletedCount === 0) {
+      throw createError('Inbound endpoint not found', 404);
+    }
+    await this.deliveries.deleteMany({ endpointId: id });
+  }
+
+  async rotateSecret(id: ObjectId): Promise<string> {
+    const secret = generateSecret();
+    const result = await this.endpoints.updateOne({ _id: id }, { $set: { secret, updatedAt: new Date() } });
+    if (result.matchedCount === 0) {
+      throw createError('Inbound endpoint not found', 404);
+    }
+    return secret;
+  }
+
+  async listDeliveries(
+    endpointId: ObjectId,
+    options: { limit: number; offset: number; status?: string }
+  ): Promise<{ data: InboundDelivery[]; total: number }> {
+    const filter: Document = { endpointId };
+    if (options.status) filter.status = options.status;
+
+    const [data, total] = await Promise.all([
+      this.deliveries.find(filter).sort({ receivedAt: -1 }).skip(options.offset).limit(options.limit).toArray(),
+      this.deliveries.countDocuments(filter),
+    ]);
+    return { data, total };
+  }
+
+  private slugConflict(error: unknown, slug: string): unknown {
+    if ((error as { code?: number }).code === 11000) {
+      return createError(`An inbound endpoint with slug "${slug}" already exists`, 409);
+    }
+    return error;
+  }
+
+  private normalizeInput(input: InboundEndpointInput, existing: InboundEndpoint | null): Partial<InboundEndpoint> {
+    const fields: Partial<InboundEndpoint> = {};
+
+    if (input.name !== undefined || !existing) {
+      if (typeof input.name !== 'string' || !input.name.trim()) {
+        throw createError('name is required', 400);
+      }
+      fields.name = input.name.trim();
+    }
+    if (input.slug !== undefined || !existing) {
+      if (typeof input.slug !== 'string' || !SLUG_PATTERN.test(input.slug)) {
+        throw createError('slug must be 2-63 lowercase letters, digits or dashes', 400);
+      }
+      fields.slug = input.slug;
+    }
+    if (input.description !== undefined) {
+      fields.description = typeof input.description === 'string' ? input.description : '';
+    }
+    if (input.signatureHeader !== undefined) {
+      if (typeof input.signatureHeader !== 'string' || !/^[A-Za-z0-9-]+$/.test(input.signatureHeader)) {
+        throw createError('signatureHeader must be a header name', 400);
+      }
+      fields.signatureHeader = input.signatureHeader;
+    }
+    if (input.isActive !== undefined) {
+      if (typeof input.isActive !== 'boolean') {
+        throw createError('isActive must be a boolean', 400);
+      }
+      fields.isActive = input.isActive;
+    }
+    if (input.externalIdPath !== undefined) {
+      if (input.externalIdPath !== null && typeof input.externalIdPath !== 'string') {
+        throw createError('externalIdPath must be a string', 400);
+      }
+      fields.externalIdPath = input.externalIdPath?.trim() || null;
+    }
+
+    if (input.targetType !== undefined || !existing) {
+      if (!TARGET_TYPES.includes(input.targetType as InboundTargetType)) {
+        throw createError(`targetType must be one of: ${TARGET_TYPES.join(', ')}`, 400);
+      }
+      fields.targetType = input.targetType as InboundTargetType;
+    }
+    const targetType = fields.targetType ?? existing!.targetType;
+
+    // The target's settings are required when the target is set or changed
+    if (targetType === 'task' && (input.taskMapping !== undefined || fields.targetType !== undefined)) {
+      fields.taskMapping = normalizeTaskMapping(input.taskMapping ?? existing?.taskMapping);
+    }
+    if (targetType === 'workflow' && (input.workflow !== undefined || fields.targetType !== undefined)) {
+      const workflow = input.workflow ?? (existing?.workflow && {
+        ...existing.workflow,
+        workflowId: existing.workflow.workflowId.toString(),
+      });
+      fields.workflow = normalizeWorkflowTarget(workflow);
+    }
+
+    return fields;
+  }
+
+  // ==========================================================================
+  // Receiving
+  // ==========================================================================
+
+  async receive(slug: string, request: InboundRequest): Promise<InboundResult> {
+    const endpoint = await this.endpoints.findOne({ slug });
+    if (!endpoint) {
+      return { statusCode: 404, body: { error: 'Inbound endpoint not found' } };
+    }
+
+    const receivedAt = new Date();
+    const headers = this.flattenHeaders(request.headers);
+    const signatureHeader = endpoint.signatureHeader.toLowerCase();
+    const received = {
+      endpointId: endpoint._id,
+      headers: Object.fromEntries(
+        Object.entries(headers).filter(([key]) => !REDACTED_HEADERS.has(key) && key !== signatureHeader)
+      ),
+      receivedAt,
+    };
+
+    // Nothing is parsed or recorded in full until the sender is verified
+    if (!verifyInboundSignature(endpoint.secret, request.rawBody, headers[signatureHeader])) {
+      return this.reject(received, request.rawBody, 401, `Missing or invalid ${endpoint.signatureHeader} signature`);
+    }
+    if (!endpoint.isActive) {
+      return this.reject(received, request.rawBody, 409, 'Inbound endpoint is disabled');
+    }
+
+    // Parsed only after the bytes are checked, so every content type is signed the same way
+    let body: unknown;
+    try {
+      body = parseInboundBody(request.rawBody, request.contentType);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.reject(received, request.rawBody, 400, `Invalid JSON body: ${message}`);
+    }
+
+    await this.endpoints.updateOne({ _id: endpoint._id }, { $set: { lastDeliveryAt: receivedAt } });
+    const logged: Omit<InboundDelivery, '_id' | 'status' | 'statusCode'> = { ...received, body };
+
+    const externalIdValue = endpoint.externalIdPath ? getValueByPathStatic(body, endpoint.externalIdPath) : undefined;
+    const externalId = externalIdValue === undefined || externalIdValue === null || typeof externalIdValue === 'object'
+      ? null
+      : String(externalIdValue);
+    const dedupeKey = externalId ? `${endpoint._id}:${externalId}` : undefined;
+
+    // Claim the external ID; a second delivery of the same ID fails on the unique dedupeKey
+    let deliveryId: ObjectId;
+    try {
+      const result = await this.deliveries.insertOne({
+        ...logged,
+        status: 'processing',
+        statusCode: 202,
+        externalId,
+        ...(dedupeKey && { dedupeKey }),
+      } as InboundDelivery);
+      deliveryId = result.insertedId;
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) throw error;
+      return this.recordDuplicate(logged, externalId!, dedupeKey!);
+    }
+
+    const context: TemplateContext = {
+      body,
+      headers,
+      query: request.query,
+      receivedAt: receivedAt.toISOString(),
+    };
+
+    try {
+      const created = endpoint.targetType === 'task'
+        ? { taskId: await this.createTask(endpoint, context, externalId, deliveryId) }
+        : { workflowRunId: await this.startWorkflow(endpoint, context, externalId, deliveryId) };
+
+      await this.deliveries.updateOne(
+        { _id: deliveryId },
+        { $set: { status: 'accepted', statusCode: 202, ...created, completedAt: new Date() } }
+      );
+      return { statusCode: 202, body: { acknowledged: true, deliveryId, ...created } };
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode === 400 ? 422 : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[InboundEndpointService] Delivery to "${endpoint.slug}" failed:`, message);
+
+      // Release the external ID so the sender can retry
+      await this.deliveries.updateOne(
+        { _id: deliveryId },
+        {
+          $set: { status: 'failed', statusCode, error: message, completedAt: new Date() },
+          $unset: { dedupeKey: '' },
+        }
+      );
+      return { statusCode, body: { error: message, deliveryId } };
+    }
+  }
+
+  private flattenHeaders(headers: InboundRequest['headers']): Record<string, string> {
+    const flat: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+      if (value === undefined) continue;
+      flat[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    return flat;
+  }
+
+  // Rejected requests are logged with the start of their body only
+  private async reject(
+    received: Omit<InboundDelivery, '_id' | 'status' | 'statusCode' | 'body'>,
+    rawBody: Buffer,
+    statusCode: number,
+    error: string
+  ): Promise<InboundResult> {
+    await this.deliveries.insertOne({
+      ...received,
+      body: rawBody.subarray(0, REJECTED_BODY_PREVIEW_BYTES).toString('utf8'),
+      status: 'rejected',
+      statusCode,
+      error,
+      completedAt: new Date(),
+    } as InboundDelivery);
+    return { statusCode, body: { error } };
+  }
+
+  private async recordDuplicate(
+    logged: Omit<InboundDelivery, '_id' | 'status' | 'statusCode'>,
+    externalId: string,
+    dedupeKey: string
+  ): Promise<InboundResult> {
+    const original = await this.deliveries.findOne({ dedupeKey });
+    const status: InboundDeliveryStatus = 'duplicate';
+    const result = await this.deliveries.insertOne({
+      ...logged,
+      status,
+      statusCode: 200,
+      externalId,
+      duplicateOfId: original?._id ?? null,
+      taskId: original?.taskId ?? null,
+      workflowRunId: original?.workflowRunId ?? null,
+      completedAt: new Date(),
+    } as InboundDelivery);
+
+    return {
+      statusCode: 200,
+      body: {
+        acknowledged: true,
+        duplicate: true,
+        deliveryId: result.insertedId,
+        ...(original?.taskId && { taskId: original.taskId }),
+        ...(original?.workflowRunId && { workflowRunId: original.workflowRunId }),
+      },
+    };
+  }
+
+  private async createTask(
+    endpoint: InboundEndpoint,
+    context: TemplateContext,
+    externalId: string | null,
+    deliveryId: ObjectId
+  ): Promise<ObjectId> {
+    const mapping = endpoint.taskMapping;
+    if (!mapping) {
+      throw new Error('Inbound endpoint has no task mapping');
+    }
+
+    const title = renderText(mapping.title, context);
+    if (!title) {
+      throw createError('The task title template rendered empty', 400);
+    }
+    const toId = (template: string | undefined, label: string): ObjectId | null => {
+      const value = renderText(template, context);
+      if (!value) return null;
+      if (!ObjectId.isValid(value)) {
+        throw createError(`${label} "${value}" is not a valid ID`, 400);
+      }
+      return new ObjectId(value);
+    };
+
+    const metadata: Record<string, unknown> = {};
+    for (const [key, template] of Object.entries(mapping.metadata || {})) {
+      const value = renderInboundTemplate(template, context);
+      if (value !== undefined) metadata[key] = value;
+    }
+
+    const now = new Date();
+    const newTask: Document = {
+      title,
+      summary: renderText(mapping.summary, context),
+      extraPrompt: renderText(mapping.extraPrompt, context),
+      status: renderText(mapping.status, context) || 'pending',
+      urgency: renderText(mapping.urgency, context) || 'normal',
+      parentId: toId(mapping.parentId, 'parentId'),
+      workflowId: null,
+      workflowStage: '',
+      externalId: externalId ?? '',
+      externalHoldDate: null,
+      assigneeId: toId(mapping.assigneeId, 'assigneeId'),
+      createdById: endpoint.createdById ?? null,
+      tags: (mapping.tags || []).map((tag) => renderText(tag, context)).filter(Boolean),
+      createdAt: now,
+      updatedAt: now,
+      revision: 1,
+      metadata: {
+        ...metadata,
+        inboundEndpointId: endpoint._id.toString(),
+        inboundDeliveryId: deliveryId.toString(),
+      },
+    };
+
+    const validator = new FieldValidator();
+    await validator.loadFieldConfigs('tasks');
+    await validator.assertValid(newTask, { mode: 'create' });
+
+    const db = getDb();
+    const result = await db.collection('tasks').insertOne(newTask);
+    const task = await db.collection<Task>('tasks').findOne({ _id: result.insertedId });
+    if (task) {
+      await publishTaskEvent('task.created', task, {
+        actorId: endpoint.createdById ?? null,
+        actorType: 'system',
+        metadata: { inboundEndpointId: endpoint._id.toString(), inboundDeliveryId: deliveryId.toString() },
+      });
+    }
+    return result.insertedId;
+  }
+
+  private async startWorkflow(
+    endpoint: InboundEndpoint,
+    context: TemplateContext,
+    externalId: string | null,
+    deliveryId: ObjectId
+  ): Promise<ObjectId> {
+    const target = endpoint.workflow;
+    if (!target) {
+      throw new Error('Inbound endpoint has no workflow');
+    }
+
+    let inputPayload: Record<string, unknown>;
+    if (target.inputMapping) {
+      inputPayload = {};
+      for (const [key, template] of Object.entries(target.inputMapping)) {
+        const value = renderInboundTemplate(template, context);
+        if (value !== undefined) inputPayload[key] = value;
+      }
+    } else {
+      inputPayload = isPlainObject(context.body) ? { ...context.body } : { body: context.body };
+    }
+
+    const { run } = await workflowExecutionService.startWorkflow(
+      {
+        workflowId: target.workflowId.toString(),
+        inputPayload,
+        source: 'inbound',
+        triggerContext: {
+          inboundEndpointId: endpoint._id.toString(),
+          inboundEndpoint: endpoint.slug,
+          inboundDeliveryId: deliveryId.toString(),
+          ...(externalId && { externalId }),
+        },
+      },
+      endpoint.createdById ?? null
+    );
+    return run._id;
+  }
+}
+
+// Singleton instance
+export const inboundEndpointService = new InboundEndpointService();
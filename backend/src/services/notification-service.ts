@@ -0,0 +1,322 @@
+import { ObjectId, Filter } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import { eventBus } from './event-bus.js';
+import { batchJobService } from './batch-job-service.js';
+import {
+  Task,
+  TaskEvent,
+  User,
+  WorkflowRunEvent,
+  BatchJobEvent,
+  Notification,
+  NotificationType,
+  NotificationPreferences,
+} from '../types/index.js';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'task.assigned',
+  'task.comment',
+  'task.mention',
+  'workflow.run.failed',
+  'batch.manual_review',
+];
+
+type NotificationInput = Omit<Notification, '_id' | 'userId' | 'readAt' | 'createdAt'>;
+
+// Comment events carry the mentioned user IDs as strings
+function getMentionIds(event: TaskEvent): ObjectId[] {
+  const mentions = Array.isArray(event.metadata?.mentions) ? event.metadata.mentions : [];
+  return mentions
+    .filter((id): id is string => typeof id === 'string' && ObjectId.isValid(id))
+    .map((id) => new ObjectId(id));
+}
+
+function commentExcerpt(event: TaskEvent): string {
+  const comment = typeof event.metadata?.comment === 'string' ? event.metadata.comment : '';
+  return comment.length > 200 ? `${comment.slice(0, 197)}...` : comment;
+}
+
+/**
+ * Notification Service
+ *
+ * Subscribes to the event bus (and the batch job and workflow run events)
+ * and raises in-app notifications for the users an event concerns: a new
+ * assignee, the people on a commented task, @mentioned users, whoever
+ * started a failed workflow run, and the owner of a batch job that needs
+ * manual review. Nobody is notified of their own actions, agents are never
+ * notified, and each user can switch notification types off in
+ * `preferences.notifications`.
+ *
+ * Every change to a user's notifications publishes a notification event
+ * with their unread count, which the SSE stream pushes to that user.
+ */
+class NotificationService {
+  private initialized = false;
+
+  private get notifications() {
+    return getDb().collection<Notification>('notifications');
+  }
+
+  initialize(): void {
+    if (this.initialized) return;
+
+    eventBus.subscribe('task.created', (event) => this.handleAssignment(event));
+    eventBus.subscribe('task.assignee.changed', (event) => this.handleAssignment(event));
+    eventBus.subscribe('task.comment.added', (event) => this.handleComment(event));
+    eventBus.subscribe('task.comment.mentioned', (event) => this.handleMention(event));
+    eventBus.subscribeWorkflowRun('workflow.run.failed', (event) => this.handleRunFailed(event));
+    batchJobService.subscribe('batch.manual_review_required', (event) => this.handleManualReview(event));
+
+    this.initialized = true;
+    console.log('NotificationService: Initialized and listening for events');
+  }
+
+  // ==========================================================================
+  // Event handlers
+  // ==========================================================================
+
+  private async handleAssignment(event: TaskEvent): Promise<void> {
+    try {
+      const assigneeId = event.task?.assigneeId;
+      if (!assigneeId) return;
+
+      await this.notify([assigneeId], event.actorId, 'task.assigned', {
+        title: `You were assigned "${event.task.title}"`,
+        taskId: event.taskId,
+        actorId: event.actorId ?? null,
+        eventId: event.id,
+      });
+    } catch (error) {
+      console.error('NotificationService: Error handling assignment:', error);
+    }
+  }
+
+  private async handleComment(event: TaskEvent): Promise<void> {
+    try {
+      const task = event.task;
+      const body = commentExcerpt(event);
+
+      // People on the task hear about the comment unless a mention tells them
+      const mentioned = new Set(getMentionIds(event).map((id) => id.toString()));
+      const involved = [task.assigneeId, task.createdById].filter(
+        (id): id is ObjectId => !!id && !mentioned.has(id.toString())
+      );
+      await this.notify(involved, event.actorId, 'task.comment', {
+        title: `New comment on "${task.title}"`,
+        body,
+        taskId: event.taskId,
+        actorId: event.actorId ?? null,
+        eventId: event.id,
+      });
+    } catch (error) {
+      console.error('NotificationService: Error handling comment:', error);
+    }
+  }
+
+  private async handleMention(event: TaskEvent): Promise<void> {
+    try {
+      await this.notify(getMentionIds(event), event.actorId, 'task.mention', {
+        title: `You were mentioned on "${event.task.title}"`,
+        body: commentExcerpt(event),
+        taskId: event.taskId,
+        actorId: event.actorId ?? null,
+        eventId: event.id,
+      });
+    } catch (error) {
+      console.error('NotificationService: Error handling mention:', error);
+    }
+  }
+
+  private async handleRunFailed(event: WorkflowRunEvent): Promise<void> {
+    try {
+      const run = event.workflowRun;
+      if (!run?.createdById) return;
+
+      const workflow = await getDb().collection('workflows').findOne(
+        { _id: run.workflowId },
+        { projection: { name: 1 } }
+      );
+
+      await this.notify([run.createdById], event.actorId, 'workflow.run.failed', {
+        title: `Workflow run of "${workflow?.name || 'Unknown workflow'}" failed`,
+        body: event.error || run.error,
+        workflowRunId: run._id,
+        taskId: event.taskId ?? null,
+        actorId: event.actorId ?? null,
+        eventId: event.id,
+      });
+    } catch (error) {
+      console.error('NotificationService: Error handling workflow run failure:', error);
+    }
+  }
+
+  private async handleManualReview(event: BatchJobEvent): Promise<void> {
+    try {
+      const job = event.batchJob;
+      const recipients: ObjectId[] = [];
+      if (job?.createdById) recipients.push(job.createdById);
+
+      // Whoever holds the batch's task decides on it
+      if (job?.taskId) {
+        const task = await getDb().collection<Task>('tasks').findOne(
+          { _id: job.taskId },
+          { projection: { assigneeId: 1 } }
+        );
+        if (task?.assigneeId) recipients.push(task.assigneeId);
+      }
+
+      const reason = typeof event.metadata?.reason === 'string' ? event.metadata.reason : undefined;
+      await this.notify(recipients, event.actorId, 'batch.manual_review', {
+        title: `Batch job "${job?.name || event.batchJobId.toString()}" needs manual review`,
+        body: reason,
+        batchJobId: event.batchJobId,
+        taskId: job?.taskId ?? null,
+        actorId: event.actorId ?? null,
+        eventId: event.id,
+      });
+    } catch (error) {
+      console.error('NotificationService: Error handling manual review:', error);
+    }
+  }
+
+  // ==========================================================================
+  // Delivery
+  // ==========================================================================
+
+  /**
+   * Create a notification for each recipient that wants this type, skipping
+   * the actor, agents and inactive users
+   */
+  private async notify(
+    recipientIds: ObjectId[],
+    actorId: ObjectId | null | undefined,
+    type: NotificationType,
+    input: Omit<NotificationInput, 'type'>
+  ): Promise<void> {
+    const ids = [...new Set(recipientIds.map((id) => id.toString()))]
+      .filter((id) => id !== actorId?.toString())
+      .map((id) => new ObjectId(id));
+    if (ids.length === 0) return;
+
+    const users = await getDb()
+      .collection<User>('users')
+      .find(
+        { _id: { $in: ids }, isActive: true, isAgent: { $ne: true } },
+        { projection: { preferences: 1 } }
+      )
+      .toArray();
+
+    const now = new Date();
+    for (const user of users) {
+      const preferences = (user.preferences?.notifications ?? {}) as NotificationPreferences;
+      if (preferences[type] === false) continue;
+
+      const notification: Omit<Notification, '_id'> = {
+        ...input,
+        type,
+        userId: user._id,
+        readAt: null,
+        createdAt: now,
+      };
+      const result = await this.notifications.insertOne(notification as Notification);
+
+      await this.publishUnreadCount(user._id, 'notification.created', { ...notification, _id: result.insertedId });
+    }
+  }
+
+  private async publishUnreadCount(
+    userId: ObjectId,
+    type: 'notification.created' | 'notification.read',
+    notification?: Notification
+  ): Promise<void> {
+    const unreadCount = await this.getUnreadCount(userId);
+    await eventBus.publishNotificationEvent({ type, userId, unreadCount, notification });
+  }
+
+  // ==========================================================================
+  // Inbox
+  // ==========================================================================
+
+  async list(
+    userId: ObjectId,
+    options: { unreadOnly?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<{ data: Notification[]; total: number; unreadCount: number }> {
+    const { unreadOnly = false, limit = 50, offset = 0 } = options;
+
+    const filter: Filter<Notification> = { userId };
+    if (unreadOnly) {
+      filter.readAt = null;
+    }
+
+    const [data, total, unreadCount] = await Promise.all([
+      this.notifications.find(filter).sort({ createdAt: -1 }).skip(offset).limit(limit).toArray(),
+      this.notifications.countDocuments(filter),
+      this.getUnreadCount(userId),
+    ]);
+
+    return { data, total, unreadCount };
+  }
+
+  async getUnreadCount(userId: ObjectId): Promise<number> {
+    return this.notifications.countDocuments({ userId, readAt: null });
+  }
+
+  /**
+   * Mark notifications read - the given ones, or all of the user's. Returns
+   * the new unread count.
+   */
+  async markRead(userId: ObjectId, notificationIds?: ObjectId[]): Promise<number> {
+    const filter: Filter<Notification> = { userId, readAt: null };
+    if (notificationIds) {
+      filter._id = { $in: notificationIds };
+    }
+
+    const result = await this.notifications.updateMany(filter, { $set: { readAt: new Date() } });
+    const unreadCount = await this.getUnreadCount(userId);
+    if (result.modifiedCount > 0) {
+      await eventBus.publishNotificationEvent({ type: 'notification.read', userId, unreadCount });
+    }
+    return unreadCount;
+  }
+
+  // ==========================================================================
+  // Preferences
+  // ==========================================================================
+
+  /**
+   * The user's subscriptions, with every type filled in
+   */
+  async getPreferences(userId: ObjectId): Promise<Record<NotificationType, boolean>> {
+    const user = await getDb()
+      .collection<User>('users')
+      .findOne({ _id: userId }, { projection: { preferences: 1 } });
+    const saved = (user?.preferences?.notifications ?? {}) as NotificationPreferences;
+
+    return Object.fromEntries(
+      NOTIFICATION_TYPES.map((type) => [type, saved[type] !== false])
+    ) as Record<NotificationType, boolean>;
+  }
+
+  async updatePreferences(
+    userId: ObjectId,
+    updates: NotificationPreferences
+  ): Promise<Record<NotificationType, boolean> | null> {
+    const $set: Record<string, boolean> = {};
+    for (const [type, enabled] of Object.entries(updates)) {
+      $set[`preferences.notifications.${type}`] = enabled as boolean;
+    }
+
+    const result = await getDb().collection<User>('users').updateOne(
+      { _id: userId },
+      { $set: { ...$set, updatedAt: new Date() } }
+    );
+    if (result.matchedCount === 0) return null;
+
+    return this.getPreferences(userId);
+  }
+}
+
+// Singleton instance
+export const notificationService = new NotificationService();
+
+export default notificationService;
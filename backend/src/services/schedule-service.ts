@@ -0,0 +1,593 @@
+import { ObjectId, Document } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import { createError } from '../middleware/error-handler.js';
+import {
+  Schedule,
+  ScheduleRun,
+  ScheduleRunTrigger,
+  ScheduleCatchUpPolicy,
+  ScheduleTargetType,
+  ScheduleTaskTemplate,
+  ScheduleWorkflowTarget,
+  Task,
+  Urgency,
+} from '../types/index.js';
+import { publishTaskEvent } from './event-bus.js';
+import { FieldValidator } from './field-validator.js';
+import { workflowExecutionService } from './workflow-execution-service.js';
+import { validateCron, isValidTimezone, nextCronRun, formatZonedDate } from './cron-expression.js';
+
+export const SCHEDULE_CATCH_UP_POLICIES: ScheduleCatchUpPolicy[] = ['skip', 'run_once', 'run_all'];
+const TARGET_TYPES: ScheduleTargetType[] = ['task', 'workflow'];
+const URGENCIES: Urgency[] = ['low', 'normal', 'high', 'urgent'];
+
+const CHECK_INTERVAL_MS = 30000;
+// A run picked up later than this after its time counts as missed
+const MISSED_AFTER_MS = 2 * 60 * 1000;
+// 'run_all' replays at most this many missed runs; older ones are skipped
+const MAX_CATCH_UP_RUNS = 50;
+// Missed runs are counted up to this many for the skipped record
+const MAX_COUNTED_MISSED_RUNS = 10000;
+
+export interface ScheduleInput {
+  name?: unknown;
+  description?: unknown;
+  cronExpression?: unknown;
+  timezone?: unknown;
+  isActive?: unknown;
+  targetType?: unknown;
+  taskTemplate?: unknown;
+  workflow?: unknown;
+  catchUpPolicy?: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toOptionalObjectId(value: unknown, label: string): ObjectId | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof ObjectId) return value;
+  if (typeof value !== 'string' || !ObjectId.isValid(value)) {
+    throw createError(`${label} is not a valid ID`, 400);
+  }
+  return new ObjectId(value);
+}
+
+function normalizeTaskTemplate(value: unknown): ScheduleTaskTemplate {
+  if (!isPlainObject(value)) {
+    throw createError('taskTemplate is required for task schedules', 400);
+  }
+  if (typeof value.title !== 'string' || !value.title.trim()) {
+    throw createError('taskTemplate.title is required', 400);
+  }
+  if (value.urgency !== undefined && !URGENCIES.includes(value.urgency as Urgency)) {
+    throw createError(`taskTemplate.urgency must be one of: ${URGENCIES.join(', ')}`, 400);
+  }
+  if (value.tags !== undefined && (!Array.isArray(value.tags) || value.tags.some((t) => typeof t !== 'string'))) {
+    throw createError('taskTemplate.tags must be a list of strings', 400);
+  }
+  if (value.dueOffsetHours !== undefined && value.dueOffsetHours !== null &&
+      (typeof value.dueOffsetHours !== 'number' || !Number.isFinite(value.dueOffsetHours) || value.dueOffsetHours < 0)) {
+    throw createError('taskTemplate.dueOffsetHours must be a non-negative number', 400);
+  }
+  if (value.metadata !== undefined && !isPlainObject(value.metadata)) {
+    throw createError('taskTemplate.metadata must be an object', 400);
+  }
+
+  return {
+    title: value.title.trim(),
+    ...(typeof value.summary === 'string' && value.summary && { summary: value.summary }),
+    ...(typeof value.extraPrompt === 'string' && value.extraPrompt && { extraPrompt: value.extraPrompt }),
+    assigneeId: toOptionalObjectId(value.assigneeId, 'taskTemplate.assigneeId'),
+    parentId: toOptionalObjectId(value.parentId, 'taskTemplate.parentId'),
+    tags: (value.tags as string[] | undefined) ?? [],
+    urgency: (value.urgency as Urgency | undefined) ?? 'normal',
+    ...(typeof value.dueOffsetHours === 'number' && { dueOffsetHours: value.dueOffsetHours }),
+    ...(isPlainObject(value.metadata) && { metadata: value.metadata }),
+  };
+}
+
+function normalizeWorkflowTarget(value: unknown): ScheduleWorkflowTarget {
+  if (!isPlainObject(value)) {
+    throw createError('workflow is required for workflow schedules', 400);
+  }
+  const workflowId = toOptionalObjectId(value.workflowId, 'workflow.workflowId');
+  if (!workflowId) {
+    throw createError('workflow.workflowId is required', 400);
+  }
+  if (value.inputPayload !== undefined && !isPlainObject(value.inputPayload)) {
+    throw createError('workflow.inputPayload must be an object', 400);
+  }
+  if (value.taskDefaults !== undefined && !isPlainObject(value.taskDefaults)) {
+    throw createError('workflow.taskDefaults must be an object', 400);
+  }
+
+  return {
+    workflowId,
+    inputPayload: (value.inputPayload as Record<string, unknown> | undefined) ?? {},
+    ...(isPlainObject(value.taskDefaults) && { taskDefaults: value.taskDefaults }),
+  };
+}
+
+/**
+ * ScheduleService runs schedules: cron expressions (in a timezone) that
+ * either create a task from a template or start a workflow run.
+ *
+ * A checker polls for schedules whose `nextRunAt` has passed and claims each
+ * one by moving `nextRunAt` forward with a compare-and-set, so a schedule
+ * fires once even with several backend processes. Runs that fell due while
+ * no process was checking (downtime, a paused event loop) are handled by the
+ * schedule's catch-up policy. Every run - including skipped ones - is
+ * recorded in `schedule_runs`.
+ */
+class ScheduleService {
+  private initialized = false;
+  private checkInterval: NodeJS.Timeout | null = null;
+
+  private get schedules() {
+    return getDb().collection<Schedule>('schedules');
+  }
+
+  private get runs() {
+    return getDb().collection<ScheduleRun>('schedule_runs');
+  }
+
+  initialize(): void {
+    if (this.initialized) return;
+
+    this.startChecker();
+
+    this.initialized = true;
+    console.log('[ScheduleService] Initialized and checking schedules');
+  }
+
+  private startChecker(): void {
+    this.checkInterval = setInterval(async () => {
+      try {
+        await this.checkDueSchedules();
+      } catch (error) {
+        console.error('[ScheduleService] Schedule check error:', error);
+      }
+    }, CHECK_INTERVAL_MS);
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    console.log('[ScheduleService] Shutdown complete');
+  }
+
+  // ==========================================================================
+  // CRUD
+  // ==========================================================================
+
+  async getSchedule(id: ObjectId): Promise<Schedule> {
+    const schedule = await this.schedules.findOne({ _id: id });
+    if (!schedule) {
+      throw createError('Schedule not found', 404);
+    }
+    return schedule;
+  }
+
+  async createSchedule(input: ScheduleInput, actorId: ObjectId | null): Promise<Schedule> {
+    const now = new Date();
+    const fields = this.normalizeInput(input, null);
+
+    const schedule: Omit<Schedule, '_id'> = {
+      name: fields.name!,
+      ...(fields.description && { description: fields.description }),
+      cronExpression: fields.cronExpression!,
+      timezone: fields.timezone ?? 'UTC',
+      isActive: fields.isActive ?? true,
+      targetType: fields.targetType!,
+      taskTemplate: fields.taskTemplate ?? null,
+      workflow: fields.workflow ?? null,
+      catchUpPolicy: fields.catchUpPolicy ?? 'skip',
+      workflowTrigger: null,
+      nextRunAt: null,
+      lastRunAt: null,
+      lastRunStatus: null,
+      lastError: null,
+      createdById: actorId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    schedule.nextRunAt = schedule.isActive
+      ? nextCronRun(schedule.cronExpression, now, schedule.timezone)
+      : null;
+
+    const result = await this.schedules.insertOne(schedule as Schedule);
+    return { ...schedule, _id: result.insertedId } as Schedule;
+  }
+
+  async updateSchedule(id: ObjectId, input: ScheduleInput): Promise<Schedule> {
+    const existing = await this.getSchedule(id);
+    this.assertNotManaged(existing);
+    const fields = this.normalizeInput(input, existing);
+    const merged = { ...existing, ...fields };
+    const now = new Date();
+
+    // Re-plan from now when the timing changes or a paused schedule resumes,
+    // so resuming doesn't catch up on the paused period
+    const timingChanged = fields.cronExpression !== undefined || fields.timezone !== undefined;
+    const resumed = fields.isActive === true && !existing.isActive;
+    let nextRunAt = existing.nextRunAt;
+    if (!merged.isActive) {
+      nextRunAt = null;
+    } else if (timingChanged || resumed || !existing.nextRunAt) {
+      nextRunAt = nextCronRun(merged.cronExpression, now, merged.timezone);
+    }
+
+    // Switching target drops the other target's settings
+    if (merged.targetType === 'task') merged.workflow = null;
+    if (merged.targetType === 'workflow') merged.taskTemplate = null;
+
+    const updated = await this.schedules.findOneAndUpdate(
+      { _id: id },
+      {
+        $set: {
+          ...fields,
+          taskTemplate: merged.taskTemplate ?? null,
+          workflow: merged.workflow ?? null,
+          nextRunAt,
+          updatedAt: now,
+        },
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      throw createError('Schedule not found', 404);
+    }
+    return updated;
+  }
+
+  /**
+   * Schedules behind a workflow's cron trigger follow the trigger step and
+   * are only changed by editing the workflow.
+   */
+  assertNotManaged(schedule: Schedule): void {
+    if (schedule.workflowTrigger) {
+      throw createError('This schedule is managed by a workflow trigger; edit the workflow instead', 400);
+    }
+  }
+
+  async deleteSchedule(id: ObjectId): Promise<void> {
+    const result = await this.schedules.deleteOne({ _id: id });
+    if (result.deletedCount === 0) {
+      throw createError('Schedule not found', 404);
+    }
+    await this.runs.deleteMany({ scheduleId: id });
+  }
+
+  async listRuns(
+    scheduleId: ObjectId,
+    options: { limit: number; offset: number; status?: string }
+  ): Promise<{ data: ScheduleRun[]; total: number }> {
+    const filter: Document = { scheduleId };
+    if (options.status) filter.status = options.status;
+
+    const [data, total] = await Promise.all([
+      this.runs.find(filter).sort({ scheduledFor: -1, startedAt: -1 }).skip(options.offset).limit(options.limit).toArray(),
+      this.runs.countDocuments(filter),
+    ]);
+    return { data, total };
+  }
+
+  /**
+   * Validate a create or update body. For updates only the fields present
+   * are returned; the target settings are checked against the merged result.
+   */
+  private normalizeInput(input: ScheduleInput, existing: Schedule | null): Partial<Omit<Schedule, '_id'>> {
+    const fields: Partial<Omit<Schedule, '_id'>> = {};
+    const creating = existing === null;
+
+    if (creating || input.name !== undefined) {
+      if (typeof input.name !== 'string' || !input.name.trim()) {
+        throw createError('Name is required', 400);
+      }
+      fields.name = input.name.trim();
+    }
+    if (input.description !== undefined) {
+      fields.description = typeof input.description === 'string' ? input.description : '';
+    }
+
+    if (creating || input.cronExpression !== undefined) {
+      if (typeof input.cronExpression !== 'string') {
+        throw createError('cronExpression is required', 400);
+      }
+      const cronError = validateCron(input.cronExpression);
+      if (cronError) {
+        throw createError(`Invalid cron expression: ${cronError}`, 400);
+      }
+      fields.cronExpression = input.cronExpression.trim();
+    }
+    if (input.timezone !== undefined) {
+      if (typeof input.timezone !== 'string' || !isValidTimezone(input.timezone)) {
+        throw createError(`Unknown timezone: ${String(input.timezone)}`, 400);
+      }
+      fields.timezone = input.timezone;
+    }
+    if (input.isActive !== undefined) {
+      if (typeof input.isActive !== 'boolean') {
+        throw createError('isActive must be true or false', 400);
+      }
+      fields.isActive = input.isActive;
+    }
+    if (input.catchUpPolicy !== undefined) {
+      if (!SCHEDULE_CATCH_UP_POLICIES.includes(input.catchUpPolicy as ScheduleCatchUpPolicy)) {
+        throw createError(`catchUpPolicy must be one of: ${SCHEDULE_CATCH_UP_POLICIES.join(', ')}`, 400);
+      }
+      fields.catchUpPolicy = input.catchUpPolicy as ScheduleCatchUpPolicy;
+    }
+
+    if (creating || input.targetType !== undefined) {
+      if (!TARGET_TYPES.includes(input.targetType as ScheduleTargetType)) {
+        throw createError(`targetType must be one of: ${TARGET_TYPES.join(', ')}`, 400);
+      }
+      fields.targetType = input.targetType as ScheduleTargetType;
+    }
+
+    const targetType = fields.targetType ?? existing!.targetType;
+    if (targetType === 'task') {
+      if (input.taskTemplate !== undefined || !existing?.taskTemplate) {
+        fields.taskTemplate = normalizeTaskTemplate(input.taskTemplate);
+      }
+    } else if (input.workflow !== undefined || !existing?.workflow) {
+      fields.workflow = normalizeWorkflowTarget(input.workflow);
+    }
+
+    if (fields.cronExpression !== undefined || fields.timezone !== undefined) {
+      const cronExpression = fields.cronExpression ?? existing!.cronExpression;
+      const timezone = fields.timezone ?? existing?.timezone ?? 'UTC';
+      if (!nextCronRun(cronExpression, new Date(), timezone)) {
+        throw createError('Cron expression never matches a date', 400);
+      }
+    }
+
+    return fields;
+  }
+
+  // ==========================================================================
+  // Running
+  // ==========================================================================
+
+  /**
+   * Run every schedule that is due. Called by the checker; safe to call from
+   * several processes at once.
+   */
+  async checkDueSchedules(): Promise<void> {
+    const now = new Date();
+    const due = await this.schedules
+      .find({ isActive: true, nextRunAt: { $ne: null, $lte: now } })
+      .sort({ nextRunAt: 1 })
+      .toArray();
+
+    for (const schedule of due) {
+      try {
+        await this.processDueSchedule(schedule, now);
+      } catch (error) {
+        console.error(`[ScheduleService] Failed to run schedule ${schedule._id}:`, error);
+      }
+    }
+  }
+
+  private async processDueSchedule(schedule: Schedule, now: Date): Promise<void> {
+    const firstDue = schedule.nextRunAt!;
+
+    // Every slot from the stored nextRunAt up to now is due
+    const dueSlots: Date[] = [firstDue];
+    let cursor: Date | null = firstDue;
+    while (dueSlots.length < MAX_COUNTED_MISSED_RUNS) {
+      cursor = nextCronRun(schedule.cronExpression, cursor, schedule.timezone);
+      if (!cursor || cursor > now) break;
+      dueSlots.push(cursor);
+    }
+    const nextRunAt = nextCronRun(schedule.cronExpression, now, schedule.timezone);
+
+    // Claim the slots - another process that got here first moved nextRunAt on
+    const claimed = await this.schedules.updateOne(
+      { _id: schedule._id, isActive: true, nextRunAt: firstDue },
+      { $set: { nextRunAt } }
+    );
+    if (claimed.modifiedCount === 0) return;
+
+    const missed = dueSlots.filter((slot) => now.getTime() - slot.getTime() > MISSED_AFTER_MS);
+    const onTime = dueSlots.filter((slot) => now.getTime() - slot.getTime() <= MISSED_AFTER_MS);
+
+    let catchUp: Date[] = [];
+    switch (schedule.catchUpPolicy) {
+      case 'run_all':
+        catchUp = missed.slice(-MAX_CATCH_UP_RUNS);
+        break;
+      case 'run_once':
+        // The latest missed run stands in for all of them, unless a run is
+        // due now anyway
+        catchUp = missed.length > 0 && onTime.length === 0 ? [missed[missed.length - 1]] : [];
+        break;
+      case 'skip':
+      default:
+        break;
+    }
+
+    // Several on-time slots only happen for sub-check-interval schedules;
+    // running the latest is enough
+    const toRun = onTime.length > 0 ? [onTime[onTime.length - 1]] : [];
+    const skipped = missed.length - catchUp.length + Math.max(onTime.length - 1, 0);
+
+    if (skipped > 0) {
+      await this.recordSkipped(schedule, missed[0] ?? onTime[0], skipped, dueSlots.length >= MAX_COUNTED_MISSED_RUNS);
+    }
+    for (const slot of catchUp) {
+      await this.executeRun(schedule, slot, 'catch_up');
+    }
+    for (const slot of toRun) {
+      await this.executeRun(schedule, slot, 'schedule');
+    }
+  }
+
+  /**
+   * Run a schedule right away, outside its cron timing. Doesn't move
+   * `nextRunAt`, and works on paused schedules.
+   */
+  async runNow(id: ObjectId, actorId: ObjectId | null): Promise<ScheduleRun> {
+    const schedule = await this.getSchedule(id);
+    return this.executeRun(schedule, new Date(), 'manual', actorId);
+  }
+
+  private async recordSkipped(schedule: Schedule, firstMissed: Date, count: number, capped: boolean): Promise<void> {
+    const now = new Date();
+    await this.runs.insertOne({
+      scheduleId: schedule._id,
+      scheduledFor: firstMissed,
+      trigger: 'catch_up',
+      status: 'skipped',
+      skippedCount: count,
+      error: `${capped ? 'At least ' : ''}${count} missed run${count === 1 ? '' : 's'} skipped by the "${schedule.catchUpPolicy}" catch-up policy`,
+      startedAt: now,
+      completedAt: now,
+    } as ScheduleRun);
+  }
+
+  private async executeRun(
+    schedule: Schedule,
+    scheduledFor: Date,
+    trigger: ScheduleRunTrigger,
+    actorId: ObjectId | null = null
+  ): Promise<ScheduleRun> {
+    const run: Omit<ScheduleRun, '_id'> = {
+      scheduleId: schedule._id,
+      scheduledFor,
+      trigger,
+      status: 'running',
+      taskId: null,
+      workflowRunId: null,
+      error: null,
+      actorId,
+      startedAt: new Date(),
+      completedAt: null,
+    };
+    const { insertedId } = await this.runs.insertOne(run as ScheduleRun);
+
+    const result: Partial<ScheduleRun> = {};
+    try {
+      if (schedule.targetType === 'workflow') {
+        result.workflowRunId = await this.startWorkflow(schedule, scheduledFor, trigger, actorId);
+      } else {
+        result.taskId = await this.createTask(schedule, scheduledFor, trigger, actorId);
+      }
+      result.status = 'succeeded';
+    } catch (error) {
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error(`[ScheduleService] Run of schedule "${schedule.name}" failed:`, result.error);
+    }
+    result.completedAt = new Date();
+
+    await this.runs.updateOne({ _id: insertedId }, { $set: result });
+    await this.schedules.updateOne(
+      { _id: schedule._id },
+      {
+        $set: {
+          lastRunAt: result.completedAt,
+          lastRunStatus: result.status,
+          lastError: result.error ?? null,
+        },
+      }
+    );
+
+    return { ...run, ...result, _id: insertedId } as ScheduleRun;
+  }
+
+  private async createTask(
+    schedule: Schedule,
+    scheduledFor: Date,
+    trigger: ScheduleRunTrigger,
+    actorId: ObjectId | null
+  ): Promise<ObjectId> {
+    const template = schedule.taskTemplate;
+    if (!template) {
+      throw new Error('Schedule has no task template');
+    }
+
+    const db = getDb();
+    const now = new Date();
+    const title = template.title.replace(/\{\{\s*date\s*\}\}/g, formatZonedDate(scheduledFor, schedule.timezone));
+
+    const newTask: Document = {
+      title,
+      summary: template.summary || '',
+      extraPrompt: template.extraPrompt || '',
+      status: 'pending',
+      urgency: template.urgency || 'normal',
+      parentId: template.parentId ?? null,
+      workflowId: null,
+      workflowStage: '',
+      externalId: '',
+      externalHoldDate: null,
+      assigneeId: template.assigneeId ?? null,
+      createdById: actorId ?? schedule.createdById ?? null,
+      tags: template.tags || [],
+      createdAt: now,
+      updatedAt: now,
+      revision: 1,
+      dueAt: template.dueOffsetHours !== undefined
+        ? new Date(scheduledFor.getTime() + template.dueOffsetHours * 60 * 60 * 1000)
+        : null,
+      metadata: {
+        ...template.metadata,
+        scheduleId: schedule._id.toString(),
+        scheduledFor: scheduledFor.toISOString(),
+      },
+    };
+
+    const validator = new FieldValidator();
+    await validator.loadFieldConfigs('tasks');
+    await validator.assertValid(newTask, { mode: 'create' });
+
+    const result = await db.collection('tasks').insertOne(newTask);
+    const task = await db.collection<Task>('tasks').findOne({ _id: result.insertedId });
+    if (task) {
+      await publishTaskEvent('task.created', task, {
+        actorId: actorId ?? schedule.createdById ?? null,
+        actorType: trigger === 'manual' ? 'user' : 'system',
+        metadata: { scheduleId: schedule._id.toString(), scheduleTrigger: trigger },
+      });
+    }
+    return result.insertedId;
+  }
+
+  private async startWorkflow(
+    schedule: Schedule,
+    scheduledFor: Date,
+    trigger: ScheduleRunTrigger,
+    actorId: ObjectId | null
+  ): Promise<ObjectId> {
+    const target = schedule.workflow;
+    if (!target) {
+      throw new Error('Schedule has no workflow');
+    }
+
+    const { run } = await workflowExecutionService.startWorkflow(
+      {
+        workflowId: target.workflowId.toString(),
+        inputPayload: { ...target.inputPayload },
+        ...(target.taskDefaults && { taskDefaults: target.taskDefaults }),
+        source: schedule.workflowTrigger ? 'cron' : 'schedule',
+        triggerContext: {
+          scheduleId: schedule._id.toString(),
+          ...(schedule.workflowTrigger && { triggerStepId: schedule.workflowTrigger.stepId }),
+          scheduledFor: scheduledFor.toISOString(),
+          scheduleTrigger: trigger,
+        },
+      },
+      actorId ?? schedule.createdById ?? null
+    );
+    return run._id;
+  }
+}
+
+// Singleton instance
+export const scheduleService = new ScheduleService();
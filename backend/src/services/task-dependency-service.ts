@@ -0,0 +1,317 @@
+import { ObjectId } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import { createError } from '../middleware/error-handler.js';
+import { Task, TaskDependencies, TaskEvent, TaskStatus } from '../types/index.js';
+import { eventBus, publishTaskEvent, publishTaskChangeEvents } from './event-bus.js';
+
+// Guard against runaway graphs when walking dependency chains
+const MAX_DEPENDENCY_DEPTH = 100;
+// Concurrent writes to the same task are retried this many times
+const MAX_REFRESH_ATTEMPTS = 3;
+
+const DEFAULT_RESOLVED_STATUSES: TaskStatus[] = ['completed', 'cancelled', 'archived'];
+
+// TASK_DEPENDENCY_RESOLVED_STATUSES - comma-separated statuses in which a
+// blocker no longer holds up its dependents
+function parseResolvedStatuses(value: string | undefined): TaskStatus[] {
+  if (!value) return DEFAULT_RESOLVED_STATUSES;
+  const statuses = value.split(',').map((s) => s.trim()).filter(Boolean) as TaskStatus[];
+  return statuses.length > 0 ? statuses : DEFAULT_RESOLVED_STATUSES;
+}
+
+export interface DependencyActor {
+  actorId?: ObjectId | null;
+  actorType?: 'user' | 'system' | 'daemon';
+}
+
+/**
+ * TaskDependencyService manages "blocked by" relations between tasks.
+ *
+ * A task lists the tasks it waits for in `blockedBy`. It is blocked while any
+ * of them is not in a resolved status (completed, cancelled or archived by
+ * default); `isBlocked` stores that derived state so views can leave blocked
+ * tasks out. When a blocker's status changes (or it is deleted) the
+ * dependents are re-evaluated and task.blocked / task.unblocked events are
+ * published for the ones whose state flipped.
+ *
+ * A pending task that becomes blocked is moved to `waiting`, remembering
+ * `statusBeforeBlocked`; once unblocked it goes back to that status if it is
+ * still waiting. These status changes publish task.status.changed like any
+ * other, so workflows, webhooks and notifications see them.
+ */
+class TaskDependencyService {
+  private initialized = false;
+  private resolvedStatuses = parseResolvedStatuses(process.env.TASK_DEPENDENCY_RESOLVED_STATUSES);
+
+  private get tasks() {
+    return getDb().collection<Task>('tasks');
+  }
+
+  initialize(): void {
+    if (this.initialized) return;
+
+    eventBus.subscribe('task.status.changed', async (event: TaskEvent) => {
+      try {
+        await this.refreshDependents([event.taskId]);
+      } catch (error) {
+        console.error(`[TaskDependencyService] Failed to update dependents of ${event.taskId}:`, error);
+      }
+    });
+
+    eventBus.subscribe('task.deleted', async (event: TaskEvent) => {
+      const ids = (event.metadata?.deletedTaskIds as string[] | undefined) ?? [event.taskId.toString()];
+      try {
+        await this.removeDeletedBlockers(ids.map((id) => new ObjectId(id)));
+      } catch (error) {
+        console.error('[TaskDependencyService] Failed to clean up dependencies of deleted tasks:', error);
+      }
+    });
+
+    this.initialized = true;
+    console.log('[TaskDependencyService] Initialized and listening');
+  }
+
+  async getDependencies(taskId: ObjectId): Promise<TaskDependencies> {
+    const task = await this.tasks.findOne({ _id: taskId });
+    if (!task) {
+      throw createError('Task not found', 404);
+    }
+
+    const [blockedBy, blocks] = await Promise.all([
+      task.blockedBy?.length
+        ? this.tasks.find({ _id: { $in: task.blockedBy } }).toArray()
+        : Promise.resolve([]),
+      this.tasks.find({ blockedBy: taskId }).sort({ createdAt: 1 }).toArray(),
+    ]);
+
+    return { taskId, isBlocked: task.isBlocked ?? false, blockedBy, blocks };
+  }
+
+  /**
+   * Make `taskId` wait for `blockerId`. Rejects self-references and
+   * dependencies that would close a cycle.
+   */
+  async addDependency(taskId: ObjectId, blockerId: ObjectId, actor: DependencyActor = {}): Promise<Task> {
+    if (taskId.equals(blockerId)) {
+      throw createError('A task cannot depend on itself', 400);
+    }
+
+    const [task, blocker] = await Promise.all([
+      this.tasks.findOne({ _id: taskId }),
+      this.tasks.findOne({ _id: blockerId }),
+    ]);
+    if (!task) {
+      throw createError('Task not found', 404);
+    }
+    if (!blocker) {
+      throw createError('Blocking task not found', 404);
+    }
+    if (task.blockedBy?.some((id) => id.equals(blockerId))) {
+      return task;
+    }
+
+    const cycle = await this.findCycle(taskId, blockerId);
+    if (cycle) {
+      throw createError('Adding this dependency would create a cycle', 400, {
+        cycle: cycle.map((id) => id.toString()),
+      });
+    }
+
+    const updated = await this.tasks.findOneAndUpdate(
+      { _id: taskId },
+      {
+        $addToSet: { blockedBy: blockerId },
+        $set: { updatedAt: new Date() },
+        $inc: { revision: 1 },
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      throw createError('Task not found', 404);
+    }
+
+    await publishTaskEvent('task.updated', updated, {
+      changes: [{ field: 'blockedBy', oldValue: task.blockedBy ?? [], newValue: updated.blockedBy ?? [] }],
+      actorId: actor.actorId,
+      actorType: actor.actorType ?? 'user',
+      metadata: { dependencyAdded: blockerId.toString() },
+    });
+
+    return this.refreshBlockedState(updated, actor);
+  }
+
+  async removeDependency(taskId: ObjectId, blockerId: ObjectId, actor: DependencyActor = {}): Promise<Task> {
+    const task = await this.tasks.findOne({ _id: taskId });
+    if (!task) {
+      throw createError('Task not found', 404);
+    }
+    if (!task.blockedBy?.some((id) => id.equals(blockerId))) {
+      throw createError('Task does not depend on this task', 404);
+    }
+
+    const updated = await this.tasks.findOneAndUpdate(
+      { _id: taskId },
+      {
+        $pull: { blockedBy: blockerId },
+        $set: { updatedAt: new Date() },
+        $inc: { revision: 1 },
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      throw createError('Task not found', 404);
+    }
+
+    await publishTaskEvent('task.updated', updated, {
+      changes: [{ field: 'blockedBy', oldValue: task.blockedBy, newValue: updated.blockedBy ?? [] }],
+      actorId: actor.actorId,
+      actorType: actor.actorType ?? 'user',
+      metadata: { dependencyRemoved: blockerId.toString() },
+    });
+
+    return this.refreshBlockedState(updated, actor);
+  }
+
+  /**
+   * If `blockerId` already (transitively) waits for `taskId`, return that
+   * chain as [taskId, blockerId, ..., taskId]; otherwise null.
+   */
+  async findCycle(taskId: ObjectId, blockerId: ObjectId): Promise<ObjectId[] | null> {
+    // Walk blockedBy edges from the blocker, remembering how each task was reached
+    const reachedFrom = new Map<string, ObjectId | null>([[blockerId.toString(), null]]);
+    let frontier: ObjectId[] = [blockerId];
+
+    for (let depth = 0; frontier.length > 0 && depth < MAX_DEPENDENCY_DEPTH; depth++) {
+      const tasks = await this.tasks
+        .find({ _id: { $in: frontier } })
+        .project<{ _id: ObjectId; blockedBy?: ObjectId[] }>({ blockedBy: 1 })
+        .toArray();
+
+      const next: ObjectId[] = [];
+      for (const t of tasks) {
+        for (const dependencyId of t.blockedBy ?? []) {
+          const key = dependencyId.toString();
+          if (reachedFrom.has(key)) continue;
+          reachedFrom.set(key, t._id);
+
+          if (dependencyId.equals(taskId)) {
+            const path: ObjectId[] = [];
+            let current: ObjectId | null = dependencyId;
+            while (current) {
+              path.unshift(current);
+              current = reachedFrom.get(current.toString()) ?? null;
+            }
+            return [taskId, ...path];
+          }
+          next.push(dependencyId);
+        }
+      }
+      frontier = next;
+    }
+
+    return null;
+  }
+
+  /**
+   * Re-evaluate the tasks that wait for any of `blockerIds`.
+   */
+  async refreshDependents(blockerIds: ObjectId[], actor: DependencyActor = { actorType: 'system' }): Promise<void> {
+    const dependents = await this.tasks.find({ blockedBy: { $in: blockerIds } }).toArray();
+    for (const dependent of dependents) {
+      await this.refreshBlockedState(dependent, actor);
+    }
+  }
+
+  getResolvedStatuses(): TaskStatus[] {
+    return this.resolvedStatuses;
+  }
+
+  /**
+   * Recompute `isBlocked` for a task, store it (with the status change that
+   * goes with it) if it changed and publish task.blocked / task.unblocked.
+   * Returns the current task.
+   */
+  async refreshBlockedState(task: Task, actor: DependencyActor = { actorType: 'system' }): Promise<Task> {
+    let current = task;
+
+    for (let attempt = 0; attempt < MAX_REFRESH_ATTEMPTS; attempt++) {
+      const openBlockers = current.blockedBy?.length
+        ? await this.tasks.countDocuments({ _id: { $in: current.blockedBy }, status: { $nin: this.resolvedStatuses } })
+        : 0;
+      const isBlocked = openBlockers > 0;
+      const wasBlocked = current.isBlocked ?? false;
+      if (isBlocked === wasBlocked) return current;
+
+      const $set: Partial<Task> = { isBlocked, updatedAt: new Date() };
+      const $unset: Record<string, ''> = {};
+      if (isBlocked && current.status === 'pending') {
+        $set.status = 'waiting';
+        $set.statusBeforeBlocked = current.status;
+      } else if (!isBlocked && current.statusBeforeBlocked) {
+        // Left alone if someone moved the task on while it was blocked
+        if (current.status === 'waiting') {
+          $set.status = current.statusBeforeBlocked;
+        }
+        $unset.statusBeforeBlocked = '';
+      }
+
+      // Matching on status too, so a concurrent status change is never overwritten
+      const updated = await this.tasks.findOneAndUpdate(
+        { _id: current._id, isBlocked: current.isBlocked ?? { $exists: false }, status: current.status },
+        {
+          $set,
+          ...(Object.keys($unset).length > 0 && { $unset }),
+          $inc: { revision: 1 },
+        },
+        { returnDocument: 'after' }
+      );
+
+      if (updated) {
+        console.log(`[TaskDependencyService] Task ${current._id} is now ${isBlocked ? 'blocked' : 'unblocked'}`);
+
+        await publishTaskEvent(isBlocked ? 'task.blocked' : 'task.unblocked', updated, {
+          changes: [{ field: 'isBlocked', oldValue: wasBlocked, newValue: isBlocked }],
+          actorId: actor.actorId,
+          actorType: actor.actorType ?? 'system',
+          metadata: { openBlockers },
+        });
+        await publishTaskChangeEvents(current, updated, {
+          actorId: actor.actorId,
+          actorType: actor.actorType ?? 'system',
+          metadata: { dependencyTransition: isBlocked ? 'blocked' : 'unblocked' },
+        });
+
+        return updated;
+      }
+
+      // Another write got there first - re-read and check again
+      const latest = await this.tasks.findOne({ _id: current._id });
+      if (!latest) return current;
+      current = latest;
+    }
+
+    return current;
+  }
+
+  private async removeDeletedBlockers(deletedIds: ObjectId[]): Promise<void> {
+    const dependents = await this.tasks.find({ blockedBy: { $in: deletedIds } }).toArray();
+    if (dependents.length === 0) return;
+
+    await this.tasks.updateMany(
+      { blockedBy: { $in: deletedIds } },
+      {
+        $pullAll: { blockedBy: deletedIds },
+        $set: { updatedAt: new Date() },
+        $inc: { revision: 1 },
+      }
+    );
+
+    const refreshed = await this.tasks.find({ _id: { $in: dependents.map((t) => t._id) } }).toArray();
+    for (const dependent of refreshed) {
+      await this.refreshBlockedState(dependent);
+    }
+  }
+}
+
+// Singleton instance
+export const taskDependencyService = new TaskDependencyService();
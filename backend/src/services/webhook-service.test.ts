@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { createMemoryDb, MemoryDb } from '../test-utils/memory-db.js';
+import { webhookService, webhookSignatureHeaders, WEBHOOK_ALERT_TAG } from './webhook-service.js';
+import { Webhook } from '../types/index.js';
+import { eventBus, publishTaskEvent } from './event-bus.js';
+
+let memory: MemoryDb;
+
+vi.mock('../db/connection.js', () => ({ getDb: () => memory.asDb() }));
+vi.mock('./event-bus.js', () => ({
+  eventBus: { subscribe: vi.fn(), unsubscribe: vi.fn(), getTransportStatus: vi.fn(), replay: vi.fn() },
+  publishTaskEvent: vi.fn(),
+}));
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify({ event: { type: 'task.created' }, task: { title: 'Ship' } });
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  // The receiver check from the API docs
+  function verify(secret: string, rawBody: string, headers: Record<string, string>): boolean {
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(`${headers['X-Webhook-Timestamp']}.${rawBody}`)
+      .digest();
+    return headers['X-Webhook-Signature']
+      .split(',')
+      .map((part) => part.trim().replace(/^sha256=/, ''))
+      .some((hex) => {
+        const given = Buffer.from(hex, 'hex');
+        return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+      });
+  }
+
+  const webhook = (fields: Partial<Webhook>) => ({ secret: 'new-secret', ...fields }) as Webhook;
+
+  it('signs the timestamp and body with the secret', () => {
+    const headers = webhookSignatureHeaders(webhook({}), body, now);
+
+    expect(headers['X-Webhook-Timestamp']).toBe(String(now.getTime() / 1000));
+    expect(headers['X-Webhook-Signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verify('new-secret', body, headers)).toBe(true);
+    expect(verify('new-secret', body.replace('Ship', 'Sink'), headers)).toBe(false);
+    expect(verify('other-secret', body, headers)).toBe(false);
+  });
+
+  it('also signs with the rotated-out secret until its grace window ends', () => {
+    const rotated = webhook({
+      previousSecret: 'old-secret',
+      previousSecretExpiresAt: new Date(now.getTime() + 60 * 60 * 1000),
+    });
+
+    const during = webhookSignatureHeaders(rotated, body, now);
+    expect(during['X-Webhook-Signature'].split(',')).toHaveLength(2);
+    expect(verify('new-secret', body, during)).toBe(true);
+    expect(verify('old-secret', body, during)).toBe(true);
+
+    const after = webhookSignatureHeaders(rotated, body, new Date(now.getTime() + 2 * 60 * 60 * 1000));
+    expect(after['X-Webhook-Signature'].split(',')).toHaveLength(1);
+    expect(verify('new-secret', body, after)).toBe(true);
+    expect(verify('old-secret', body, after)).toBe(false);
+  });
+});
+
+describe('webhook circuit breaker', () => {
+  const webhookId = new ObjectId();
+  const ownerId = new ObjectId();
+  const deliveryId = new ObjectId();
+
+  beforeEach(async () => {
+    memory = createMemoryDb();
+    await memory.collection('field_configs').insertOne({
+      collectionName: 'tasks',
+      fieldPath: 'tags',
+      displayName: 'Tags',
+      fieldType: 'tags',
+      isRequired: false,
+      isEditable: true,
+    });
+    // Another tag exists, so tags are checked against the collection
+    await memory.collection('tags').insertOne({ name: 'bug', isActive: true });
+    await memory.collection('webhooks').insertOne({
+      _id: webhookId,
+      name: 'CI',
+      url: 'https://ci.example.com/hook',
+      secret: 'shh',
+      triggers: ['task.created'],
+      isActive: true,
+      failureThreshold: 2,
+      consecutiveFailures: 1,
+      circuitState: 'closed',
+      createdById: ownerId,
+    });
+    await memory.collection('webhook_deliveries').insertOne({
+      _id: deliveryId,
+      webhookId,
+      eventType: 'task.created',
+      payload: { event: { type: 'task.created' } },
+      status: 'failed',
+      attempts: 5,
+      maxAttempts: 5,
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('down', { status: 503 })));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(publishTaskEvent).mockClear();
+  });
+
+  it('opens the circuit and raises an alert task for the owner', async () => {
+    expect(await webhookService.retryDelivery(deliveryId)).toBe(false);
+
+    const webhook = await memory.collection('webhooks').findOne({ _id: webhookId });
+    expect(webhook?.circuitState).toBe('open');
+    expect(webhook?.lastError).toBe('HTTP 503');
+
+    const task = await memory.collection('tasks').findOne({ _id: webhook?.alertTaskId });
+    expect(task).toMatchObject({ tags: [WEBHOOK_ALERT_TAG.name], urgency: 'high', status: 'pending' });
+    expect(task?.assigneeId.equals(ownerId)).toBe(true);
+    expect(await memory.collection('tags').findOne({ name: WEBHOOK_ALERT_TAG.name })).toMatchObject({ isActive: true });
+    expect(publishTaskEvent).toHaveBeenCalledWith('task.created', expect.objectContaining({ _id: task?._id }), expect.anything());
+  });
+
+  it('does not raise a second alert while the circuit is open', async () => {
+    await webhookService.retryDelivery(deliveryId);
+    await webhookService.retryDelivery(deliveryId);
+
+    expect(await memory.collection('tasks').countDocuments()).toBe(1);
+  });
+});
+
+describe('previewRequest', () => {
+  const taskId = new ObjectId();
+  const webhook = { method: 'POST' as const, headers: {}, bodyTemplate: null };
+  const taskEvent = (type: string, title: string) => ({
+    type,
+    taskId,
+    task: { _id: taskId, title },
+    timestamp: new Date(),
+  });
+
+  beforeEach(() => {
+    memory = createMemoryDb();
+    vi.mocked(eventBus.getTransportStatus).mockReturnValue({ name: 'local', mode: 'local', lastSeq: 3 } as never);
+  });
+
+  it('renders the latest matching event from the event bus', async () => {
+    vi.mocked(eventBus.replay).mockResolvedValue([
+      taskEvent('task.created', 'first'),
+      taskEvent('task.updated', 'second'),
+      taskEvent('task.deleted', 'third'),
+    ] as never);
+
+    const preview = await webhookService.previewRequest(webhook, { triggers: ['task.entered_filter'], taskId });
+
+    expect(eventBus.replay).toHaveBeenCalledWith(0, expect.any(Number));
+    expect(preview?.event).toMatchObject({ type: 'task.updated' });
+    expect(JSON.parse(preview!.request.body)).toMatchObject({ event: { type: 'task.updated' } });
+  });
+
+  it('falls back to the latest delivery when no event matches', async () => {
+    vi.mocked(eventBus.replay).mockResolvedValue([] as never);
+    const webhookId = new ObjectId();
+    await memory.collection('webhook_deliveries').insertOne({
+      webhookId,
+      payload: { event: { type: 'task.created' } },
+      createdAt: new Date(),
+    });
+
+    const preview = await webhookService.previewRequest(webhook, { triggers: ['task.created'], webhookId });
+
+    expect(preview?.event).toEqual({ type: 'task.created' });
+    expect(await webhookService.previewRequest(webhook, { triggers: ['task.created'] })).toBeNull();
+  });
+});
@@ -1,19 +1,155 @@
-import { ObjectId } from 'mongodb';
+import { ObjectId, Document } from 'mongodb';
+import crypto from 'crypto';
 import { getDb } from '../db/connection.js';
-import { eventBus } from './event-bus.js';
+import { eventBus, publishTaskEvent } from './event-bus.js';
+import { FieldValidator } from './field-validator.js';
+import { getValueByPathStatic } from './workflow-execution-service.js';
 import {
+  Task,
   TaskEvent,
   View,
   Webhook,
   WebhookDelivery,
+  WebhookMethod,
   WebhookTrigger,
 } from '../types/index.js';
 
+// Methods a subscription webhook may use - all of them carry a body
+export const WEBHOOK_METHODS: WebhookMethod[] = ['POST', 'PUT', 'PATCH'];
+
+// Headers the service sets itself - a webhook's own headers can't replace them
+export const RESERVED_WEBHOOK_HEADERS = [
+  'x-webhook-signature',
+  'x-webhook-timestamp',
+  'x-webhook-event',
+  'x-webhook-delivery',
+  'x-webhook-test',
+  'x-webhook-probe',
+  'content-length',
+  'host',
+];
+
+export const DEFAULT_FAILURE_THRESHOLD = 10;
+
+// Tag on the task raised when a circuit opens - seeded with the database
+export const WEBHOOK_ALERT_TAG = {
+  name: 'webhook-alert',
+  displayName: 'Webhook Alert',
+  color: '#DC2626',
+  description: 'Webhooks disabled by their circuit breaker',
+};
+
+// Wait before each probe of an open circuit - the last interval repeats
+const PROBE_INTERVALS = [60000, 300000, 900000, 3600000]; // 1m, 5m, 15m, 1h
+
+// Deliveries put back in the retry queue by one replay
+const MAX_REPLAY_DELIVERIES = 500;
+
+// Recent events searched for one to preview a webhook request with
+const PREVIEW_EVENT_WINDOW = 500;
+
+const CIRCUIT_OPEN_ERROR = 'Circuit open - not sent';
+
+function isCircuitOpen(webhook: Webhook): boolean {
+  return webhook.circuitState === 'open' || webhook.circuitState === 'half_open';
+}
+
+export interface WebhookRequest {
+  method: WebhookMethod;
+  headers: Record<string, string>;
+  body: string;
+}
+
+type WebhookRequestOptions = Pick<Webhook, 'method' | 'headers' | 'bodyTemplate'>;
+
+/**
+ * Resolve {{path}} variables against a delivery payload ({{event.type}},
+ * {{task.title}}, {{changes}}), as resolveTemplateVariables does for workflow
+ * steps: objects become JSON and unresolved variables become ''. In `json`
+ * mode strings are JSON-escaped so `"{{task.title}}"` stays a valid string.
+ */
+export function renderWebhookTemplate(
+  template: string,
+  payload: Record<string, unknown>,
+  options: { json?: boolean } = {}
+): string {
+  return template.replace(/\{\{([^}]+)\}\}/g, (_, path: string) => {
+    const value = getValueByPathStatic(payload, path.trim());
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return options.json ? JSON.stringify(String(value)).slice(1, -1) : String(value);
+  });
+}
+
+/**
+ * Build the HTTP request for a delivery payload from the webhook's method,
+ * headers and body template. Signature headers are added by the caller.
+ */
+export function buildWebhookRequest(webhook: WebhookRequestOptions, payload: Record<string, unknown>): WebhookRequest {
+  // Plain JSON so ids and dates render as strings
+  const data = JSON.parse(JSON.stringify(payload)) as Record<string, unknown>;
+
+  let contentType = 'application/json';
+  const headers: Record<string, string> = {};
+  for (const [name, template] of Object.entries(webhook.headers || {})) {
+    if (RESERVED_WEBHOOK_HEADERS.includes(name.toLowerCase())) continue;
+    const value = renderWebhookTemplate(template, data);
+    if (name.toLowerCase() === 'content-type') {
+      contentType = value;
+    } else {
+      headers[name] = value;
+    }
+  }
+
+  const body = webhook.bodyTemplate
+    ? renderWebhookTemplate(webhook.bodyTemplate, data, { json: /json/i.test(contentType) })
+    : JSON.stringify(data);
+
+  return {
+    method: webhook.method || 'POST',
+    headers: { 'Content-Type': contentType, ...headers },
+    body,
+  };
+}
+
+/**
+ * HMAC-SHA256 signature of a delivery: hex digest of `<timestamp>.<body>`
+ * keyed with the webhook secret.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Signature headers for a delivery body. While a rotated-out secret is in its
+ * grace window, X-Webhook-Signature carries a signature from each secret so
+ * receivers can switch over at their own pace.
+ */
+export function webhookSignatureHeaders(webhook: Webhook, body: string, now: Date = new Date()): Record<string, string> {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const secrets = [webhook.secret];
+  if (webhook.previousSecret && webhook.previousSecretExpiresAt && webhook.previousSecretExpiresAt > now) {
+    secrets.push(webhook.previousSecret);
+  }
+
+  return {
+    'X-Webhook-Timestamp': String(timestamp),
+    'X-Webhook-Signature': secrets.map((secret) => `sha256=${signWebhookPayload(secret, timestamp, body)}`).join(','),
+  };
+}
+
 /**
  * Webhook Service
  *
  * Subscribes to the event bus and dispatches webhooks to external services.
  * Handles retry logic and delivery tracking.
+ *
+ * Each webhook has a circuit breaker: after `failureThreshold` failed
+ * attempts in a row the circuit opens and an alert task is created. While
+ * open, new deliveries are dead-lettered (recorded as failed without being
+ * sent) and the endpoint is probed on a backoff; the first successful probe
+ * or delivery closes the circuit again. Failed deliveries can then be
+ * replayed in bulk.
  */
 class WebhookService {
   private initialized = false;
@@ -179,16 +315,14 @@ class WebhookService {
   }
 
   /**
-   * Queue a webhook delivery
+   * The payload of a delivery - the body sent when the webhook has no body template
    */
-  private async queueDelivery(webhook: Webhook, event: TaskEvent): Promise<void> {
-    const db = getDb();
-
-    const payload = {
+  private buildPayload(event: TaskEvent): Record<string, unknown> {
+    return {
       event: {
         id: event.id,
         type: event.type,
-        timestamp: event.timestamp.toISOString(),
+        timestamp: new Date(event.timestamp).toISOString(),
       },
       task: {
         id: event.taskId.toString(),
@@ -196,6 +330,32 @@ class WebhookService {
       },
       changes: event.changes,
     };
+  }
+
+  /**
+   * Queue a webhook delivery
+   */
+  private async queueDelivery(webhook: Webhook, event: TaskEvent): Promise<void> {
+    const db = getDb();
+    const payload = this.buildPayload(event);
+
+    // An open circuit dead-letters the delivery so it can be replayed once the endpoint recovers
+    if (isCircuitOpen(webhook)) {
+      const now = new Date();
+      await db.collection('webhook_deliveries').insertOne({
+        webhookId: webhook._id,
+        eventId: event.id,
+        eventType: event.type,
+        payload,
+        status: 'failed',
+        error: CIRCUIT_OPEN_ERROR,
+        attempts: 0,
+        maxAttempts: this.maxAttempts,
+        createdAt: now,
+        completedAt: now,
+      });
+      return;
+    }
 
     const delivery: Omit<WebhookDelivery, '_id'> = {
       webhookId: webhook._id,
@@ -231,16 +391,17 @@ class WebhookService {
         { $inc: { attempts: 1 } }
       );
 
-      // Make HTTP request
+      // Make HTTP request - the signature covers the exact body that is sent
+      const request = buildWebhookRequest(webhook, payload);
       const response = await fetch(webhook.url, {
-        method: 'POST',
+        method: request.method,
         headers: {
-          'Content-Type': 'application/json',
-          'X-Webhook-Secret': webhook.secret,
+          ...request.headers,
+          ...webhookSignatureHeaders(webhook, request.body),
           'X-Webhook-Event': payload.event ? (payload.event as Record<string, unknown>).type as string : '',
           'X-Webhook-Delivery': deliveryId.toString(),
         },
-        body: JSON.stringify(payload),
+        body: request.body,
         signal: AbortSignal.timeout(30000), // 30 second timeout
       });
 
@@ -259,19 +420,276 @@ class WebhookService {
             },
           }
         );
+        await this.recordSuccess(webhook);
         return true;
       } else {
         // HTTP error
         await this.handleDeliveryFailure(deliveryId, `HTTP ${response.status}`, response.status);
+        await this.recordFailure(webhook, `HTTP ${response.status}`);
         return false;
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       await this.handleDeliveryFailure(deliveryId, errorMessage);
+      await this.recordFailure(webhook, errorMessage);
       return false;
     }
   }
 
+  // ==========================================================================
+  // Circuit breaker
+  // ==========================================================================
+
+  /**
+   * A successful attempt resets the failure count and closes an open circuit
+   */
+  private async recordSuccess(webhook: Webhook): Promise<void> {
+    if (isCircuitOpen(webhook)) {
+      await this.closeCircuit(webhook._id);
+      return;
+    }
+    if (webhook.consecutiveFailures) {
+      await getDb().collection<Webhook>('webhooks').updateOne(
+        { _id: webhook._id },
+        { $set: { consecutiveFailures: 0 } }
+      );
+    }
+  }
+
+  /**
+   * Count a failed attempt and open the circuit when the threshold is reached
+   */
+  private async recordFailure(webhook: Webhook, error: string): Promise<void> {
+    const db = getDb();
+    const updated = await db.collection<Webhook>('webhooks').findOneAndUpdate(
+      { _id: webhook._id },
+      { $inc: { consecutiveFailures: 1 }, $set: { lastError: error } },
+      { returnDocument: 'after' }
+    );
+    if (!updated || isCircuitOpen(updated)) return;
+
+    const threshold = updated.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    if ((updated.consecutiveFailures ?? 0) < threshold) return;
+
+    // Only the process that flips the state raises the alert
+    const now = new Date();
+    const opened = await db.collection<Webhook>('webhooks').findOneAndUpdate(
+      { _id: webhook._id, circuitState: { $nin: ['open', 'half_open'] } },
+      {
+        $set: {
+          circuitState: 'open',
+          circuitOpenedAt: now,
+          nextProbeAt: new Date(now.getTime() + PROBE_INTERVALS[0]),
+          probeFailures: 0,
+        },
+      },
+      { returnDocument: 'after' }
+    );
+    if (!opened) return;
+
+    console.warn(`WebhookService: Circuit opened for "${opened.name}" after ${opened.consecutiveFailures} consecutive failures`);
+    try {
+      const alertTaskId = await this.createAlertTask(opened);
+      await db.collection<Webhook>('webhooks').updateOne({ _id: webhook._id }, { $set: { alertTaskId } });
+    } catch (alertError) {
+      console.error('WebhookService: Failed to create circuit alert task:', alertError);
+    }
+  }
+
+  private async createAlertTask(webhook: Webhook): Promise<ObjectId> {
+    const db = getDb();
+    const now = new Date();
+
+    const newTask: Document = {
+      title: `Webhook "${webhook.name}" disabled after ${webhook.consecutiveFailures} failed deliveries`,
+      summary: [
+        `Deliveries to ${webhook.url} kept failing, so the webhook's circuit breaker opened.`,
+        `Last error: ${webhook.lastError || 'unknown'}`,
+        'New events are dead-lettered until the endpoint recovers. It is probed automatically and re-enabled on the first successful delivery; replay the failed deliveries from Settings > Webhooks afterwards.',
+      ].join('\n\n'),
+      extraPrompt: '',
+      status: 'pending',
+      urgency: 'high',
+      parentId: null,
+      workflowId: null,
+      workflowStage: '',
+      externalId: '',
+      externalHoldDate: null,
+      assigneeId: webhook.createdById ?? null,
+      createdById: null,
+      tags: [WEBHOOK_ALERT_TAG.name],
+      createdAt: now,
+      updatedAt: now,
+      revision: 1,
+      metadata: {
+        webhookId: webhook._id.toString(),
+        webhookUrl: webhook.url,
+      },
+    };
+
+    // Databases set up before the tag was seeded don't have it yet
+    await db.collection('tags').updateOne(
+      { name: WEBHOOK_ALERT_TAG.name },
+      { $setOnInsert: { ...WEBHOOK_ALERT_TAG, isActive: true, createdById: null, createdAt: now, updatedAt: now } },
+      { upsert: true }
+    );
+
+    const validator = new FieldValidator();
+    await validator.loadFieldConfigs('tasks');
+    await validator.assertValid(newTask, { mode: 'create' });
+
+    const result = await db.collection('tasks').insertOne(newTask);
+    const task = await db.collection<Task>('tasks').findOne({ _id: result.insertedId });
+    if (task) {
+      await publishTaskEvent('task.created', task, {
+        actorId: null,
+        actorType: 'system',
+        metadata: { webhookId: webhook._id.toString(), reason: 'webhook_circuit_open' },
+      });
+    }
+    return result.insertedId;
+  }
+
+  /**
+   * Close a webhook's circuit and reset its failure tracking
+   */
+  async closeCircuit(webhookId: ObjectId): Promise<boolean> {
+    const result = await getDb().collection<Webhook>('webhooks').updateOne(
+      { _id: webhookId },
+      {
+        $set: {
+          circuitState: 'closed',
+          consecutiveFailures: 0,
+          probeFailures: 0,
+          circuitOpenedAt: null,
+          nextProbeAt: null,
+          alertTaskId: null,
+        },
+      }
+    );
+    if (result.modifiedCount > 0) {
+      console.log(`WebhookService: Circuit closed for webhook ${webhookId}`);
+    }
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Probe open circuits that are due. The half_open state is claimed with a
+   * compare-and-set so only one process probes a webhook at a time.
+   */
+  private async processProbes(): Promise<void> {
+    const db = getDb();
+    const now = new Date();
+
+    const due = await db
+      .collection<Webhook>('webhooks')
+      .find({ isActive: true, circuitState: 'open', nextProbeAt: { $lte: now } })
+      .limit(10)
+      .toArray();
+
+    for (const webhook of due) {
+      const claimed = await db.collection<Webhook>('webhooks').findOneAndUpdate(
+        { _id: webhook._id, circuitState: 'open', nextProbeAt: webhook.nextProbeAt },
+        { $set: { circuitState: 'half_open' } },
+        { returnDocument: 'after' }
+      );
+      if (!claimed) continue;
+
+      const result = await this.sendProbe(claimed);
+      if (result.success) {
+        await this.closeCircuit(webhook._id);
+      } else {
+        const probeFailures = (claimed.probeFailures ?? 0) + 1;
+        const interval = PROBE_INTERVALS[Math.min(probeFailures, PROBE_INTERVALS.length - 1)];
+        await db.collection<Webhook>('webhooks').updateOne(
+          { _id: webhook._id, circuitState: 'half_open' },
+          {
+            $set: {
+              circuitState: 'open',
+              probeFailures,
+              nextProbeAt: new Date(Date.now() + interval),
+              lastError: result.error,
+            },
+          }
+        );
+      }
+    }
+  }
+
+  private async sendProbe(webhook: Webhook): Promise<{ success: boolean; error?: string }> {
+    const probePayload = {
+      event: {
+        id: `probe_${Date.now()}`,
+        type: 'webhook.probe',
+        timestamp: new Date().toISOString(),
+      },
+      task: {
+        id: 'probe-task-id',
+        title: 'Webhook probe',
+        status: 'pending',
+      },
+      probe: true,
+    };
+
+    try {
+      const request = buildWebhookRequest(webhook, probePayload);
+      const response = await fetch(webhook.url, {
+        method: request.method,
+        headers: {
+          ...request.headers,
+          ...webhookSignatureHeaders(webhook, request.body),
+          'X-Webhook-Event': 'webhook.probe',
+          'X-Webhook-Probe': 'true',
+        },
+        body: request.body,
+        signal: AbortSignal.timeout(30000),
+      });
+      return response.ok ? { success: true } : { success: false, error: `HTTP ${response.status}` };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Put failed deliveries back in the retry queue. Deliveries of webhooks
+   * that are inactive, deleted or have an open circuit are skipped.
+   */
+  async replayDeliveries(
+    filter: { deliveryIds?: ObjectId[]; webhookId?: ObjectId }
+  ): Promise<{ replayed: number; skipped: number }> {
+    const db = getDb();
+
+    const query: Document = { status: 'failed' };
+    if (filter.deliveryIds) query._id = { $in: filter.deliveryIds };
+    if (filter.webhookId) query.webhookId = filter.webhookId;
+
+    const failed = await db
+      .collection<WebhookDelivery>('webhook_deliveries')
+      .find(query, { projection: { webhookId: 1 } })
+      .sort({ createdAt: 1 })
+      .limit(MAX_REPLAY_DELIVERIES)
+      .toArray();
+
+    const webhookIds = [...new Set(failed.map((d) => d.webhookId.toString()))].map((id) => new ObjectId(id));
+    const webhooks = await db.collection<Webhook>('webhooks').find({ _id: { $in: webhookIds } }).toArray();
+    const deliverable = new Set(
+      webhooks.filter((w) => w.isActive && !isCircuitOpen(w)).map((w) => w._id.toString())
+    );
+
+    const replayIds = failed.filter((d) => deliverable.has(d.webhookId.toString())).map((d) => d._id);
+    if (replayIds.length > 0) {
+      await db.collection('webhook_deliveries').updateMany(
+        { _id: { $in: replayIds }, status: 'failed' },
+        {
+          $set: { status: 'retrying', attempts: 0, nextRetryAt: new Date() },
+          $unset: { error: '', completedAt: '' },
+        }
+      );
+    }
+
+    return { replayed: replayIds.length, skipped: failed.length - replayIds.length };
+  }
+
   /**
    * Handle delivery failure and schedule retry if applicable
    */
@@ -329,6 +747,7 @@ class WebhookService {
     // Check for pending retries every 10 seconds
     this.retryTimer = setInterval(() => {
       this.processRetries().catch(console.error);
+      this.processProbes().catch(console.error);
     }, 10000);
   }
 
@@ -353,7 +772,19 @@ class WebhookService {
           .collection<Webhook>('webhooks')
           .findOne({ _id: delivery.webhookId });
 
-        if (webhook && webhook.isActive) {
+        if (webhook && webhook.isActive && isCircuitOpen(webhook)) {
+          // Dead-letter pending retries while the circuit is open
+          await db.collection('webhook_deliveries').updateOne(
+            { _id: delivery._id },
+            {
+              $set: {
+                status: 'failed',
+                error: CIRCUIT_OPEN_ERROR,
+                completedAt: new Date(),
+              },
+            }
+          );
+        } else if (webhook && webhook.isActive) {
           await this.attemptDelivery(delivery._id, webhook, delivery.payload);
         } else {
           // Webhook no longer active, mark as failed
@@ -402,15 +833,18 @@ class WebhookService {
    * Get all deliveries across all webhooks
    */
   async getAllDeliveries(
-    options: { limit?: number; offset?: number; status?: string } = {}
+    options: { limit?: number; offset?: number; status?: string; webhookId?: ObjectId } = {}
   ): Promise<{ data: WebhookDelivery[]; total: number }> {
-    const { limit = 50, offset = 0, status } = options;
+    const { limit = 50, offset = 0, status, webhookId } = options;
     const db = getDb();
 
     const filter: Record<string, unknown> = {};
     if (status) {
       filter.status = status;
     }
+    if (webhookId) {
+      filter.webhookId = webhookId;
+    }
 
     const [deliveries, total] = await Promise.all([
       db
@@ -451,9 +885,9 @@ class WebhookService {
         $set: {
           status: 'pending',
           attempts: 0,
-          error: null,
           nextRetryAt: null,
         },
+        $unset: { error: '', completedAt: '' },
       }
     );
 
@@ -486,15 +920,16 @@ class WebhookService {
     };
 
     try {
+      const request = buildWebhookRequest(webhook, testPayload);
       const response = await fetch(webhook.url, {
-        method: 'POST',
+        method: request.method,
         headers: {
-          'Content-Type': 'application/json',
-          'X-Webhook-Secret': webhook.secret,
+          ...request.headers,
+          ...webhookSignatureHeaders(webhook, request.body),
           'X-Webhook-Event': 'webhook.test',
           'X-Webhook-Test': 'true',
         },
-        body: JSON.stringify(testPayload),
+        body: request.body,
         signal: AbortSignal.timeout(30000),
       });
 
@@ -509,6 +944,44 @@ class WebhookService {
     }
   }
 
+  /**
+   * Render a webhook request against a real task event: the latest event of
+   * one of `triggers` (optionally for one task) among the recent events of the
+   * event transport, or else the latest delivery payload of the webhook.
+   */
+  async previewRequest(
+    webhook: WebhookRequestOptions,
+    options: { triggers?: string[]; taskId?: ObjectId; webhookId?: ObjectId } = {}
+  ): Promise<{ request: WebhookRequest; event: Record<string, unknown> } | null> {
+    const eventTypes = (options.triggers || []).filter((t) => t !== 'task.entered_filter');
+    // task.entered_filter fires on creates and updates
+    if (options.triggers?.includes('task.entered_filter')) eventTypes.push('task.created', 'task.updated');
+
+    const { lastSeq } = eventBus.getTransportStatus();
+    const recent = await eventBus.replay(Math.max(0, lastSeq - PREVIEW_EVENT_WINDOW), PREVIEW_EVENT_WINDOW);
+    const event = recent.reverse().find((e): e is TaskEvent =>
+      'task' in e &&
+      (eventTypes.length === 0 || eventTypes.includes(e.type)) &&
+      (!options.taskId || String(e.taskId) === options.taskId.toString())
+    );
+
+    let payload: Record<string, unknown> | null = null;
+    if (event) {
+      payload = this.buildPayload(event);
+    } else if (options.webhookId) {
+      const delivery = await getDb()
+        .collection<WebhookDelivery>('webhook_deliveries')
+        .find({ webhookId: options.webhookId })
+        .sort({ createdAt: -1 })
+        .limit(1)
+        .next();
+      payload = delivery?.payload ?? null;
+    }
+
+    if (!payload) return null;
+    return { request: buildWebhookRequest(webhook, payload), event: payload.event as Record<string, unknown> };
+  }
+
   /**
    * Cleanup old deliveries
    */
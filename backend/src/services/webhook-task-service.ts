@@ -109,6 +109,7 @@ class WebhookTaskService {
           updatedAt: new Date(),
         },
         $push: { 'webhookConfig.attempts': attempt as any },
+        $inc: { revision: 1 },
       }
     );
 
@@ -165,6 +166,7 @@ class WebhookTaskService {
               'metadata.webhookResponse': responseBody,
               updatedAt: new Date(),
             },
+            $inc: { revision: 1 },
           }
         );
 
@@ -219,6 +221,7 @@ class WebhookTaskService {
             'webhookConfig.nextRetryAt': nextRetryAt,
             updatedAt: new Date(),
           },
+          $inc: { revision: 1 },
         }
       );
 
@@ -239,6 +242,7 @@ class WebhookTaskService {
             'metadata.webhookError': errorMessage,
             updatedAt: new Date(),
           },
+          $inc: { revision: 1 },
         }
       );
 
@@ -284,6 +288,7 @@ class WebhookTaskService {
           status: 'pending' as TaskStatus,
           updatedAt: new Date(),
         },
+        $inc: { revision: 1 },
       }
     );
 
@@ -338,6 +343,7 @@ class WebhookTaskService {
           'webhookConfig.attempts.$.durationMs': updates.durationMs,
           'webhookConfig.attempts.$.completedAt': updates.completedAt,
         },
+        $inc: { revision: 1 },
       }
     );
   }
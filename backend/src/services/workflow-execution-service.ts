@@ -2,6 +2,8 @@ import { ObjectId } from 'mongodb';
 import crypto from 'crypto';
 import { getDb } from '../db/connection.js';
 import { eventBus, publishTaskEvent } from './event-bus.js';
+import { workflowRevisionService } from './workflow-revision-service.js';
+import { evaluateCondition } from './condition-evaluator.js';
 import {
   Task,
   TaskStatus,
@@ -15,6 +17,12 @@ import {
   WorkflowRunEventType,
   StartWorkflowInput,
   TaskEvent,
+  PendingWorkflowStep,
+  ScheduledStepRetry,
+  StepRetryPolicy,
+  Urgency,
+  WorkflowDryRunStep,
+  WorkflowDryRunResult,
 } from '../types/index.js';
 
 // Environment config for webhook URLs
@@ -125,9 +133,10 @@ function resolveTemplateVariables(
 }
 
 /**
- * Static version of getValueByPath for use outside the class
+ * Static version of getValueByPath for use outside the class - also used by
+ * the webhook and inbound endpoint templates
  */
-function getValueByPathStatic(obj: Record<string, unknown> | undefined, path: string): unknown {
+export function getValueByPathStatic(obj: unknown, path: string): unknown {
   if (!obj || !path) return undefined;
 
   // Remove leading $. or . if present
@@ -160,6 +169,24 @@ const OLD_ATLAS_TASK_TYPES = new Set([
   'standard', 'decision', 'foreach', 'join', 'external', 'subflow'
 ]);
 
+/**
+ * Maximum nesting depth for flow steps. Guards against a workflow that
+ * (directly or indirectly) starts itself and would otherwise recurse forever.
+ */
+const MAX_FLOW_DEPTH = 10;
+
+// How often overdue step timeouts are checked (see WorkflowStep.timeoutMs)
+const STEP_TIMEOUT_CHECK_INTERVAL_MS = 15 * 1000;
+
+// Task statuses a step can time out in
+const TIMEOUT_ELIGIBLE_STATUSES: TaskStatus[] = ['pending', 'in_progress', 'on_hold'];
+
+const URGENCY_LEVELS: Urgency[] = ['low', 'normal', 'high', 'urgent'];
+
+// Step retry defaults (see WorkflowStep.retryPolicy)
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
 /**
  * Recursively strips undefined values and null values for optional objectId fields.
  * MongoDB validation can fail if undefined values are present in documents.
@@ -208,6 +235,11 @@ class WorkflowExecutionService {
   // Track processed events to prevent duplicate handling
   private processedEvents = new Set<string>();
 
+  // Pending step retries, keyed by the failed task ID
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  private timeoutCheckInterval: NodeJS.Timeout | null = null;
+
   initialize(): void {
     if (this.initialized) return;
 
@@ -230,6 +262,14 @@ class WorkflowExecutionService {
       this.processedEvents.clear();
     }, 5 * 60 * 1000);
 
+    // Re-arm step retries that were scheduled before a restart
+    this.restoreScheduledRetries().catch(error => {
+      console.error('[WorkflowExecutionService] Failed to restore scheduled step retries:', error);
+    });
+
+    // Step timeouts live on the tasks, so they are simply picked up again after a restart
+    this.startTimeoutChecker();
+
     this.initialized = true;
     console.log('[WorkflowExecutionService] Initialized and listening for task events');
   }
@@ -276,6 +316,14 @@ class WorkflowExecutionService {
     return getDb().collection<Task>('tasks');
   }
 
+  /**
+   * Load the workflow definition a run is pinned to. Edits made after the
+   * run started are ignored so in-flight runs keep a stable set of steps.
+   */
+  private async getRunWorkflow(run: WorkflowRun): Promise<Workflow | null> {
+    return workflowRevisionService.getWorkflowAtVersion(run.workflowId, run.workflowVersion);
+  }
+
   // ============================================================================
   // Event System
   // ============================================================================
@@ -330,22 +378,16 @@ class WorkflowExecutionService {
     input: StartWorkflowInput,
     actorId?: ObjectId | null
   ): Promise<{ run: WorkflowRun; rootTask: Task }> {
-    const workflowId = new ObjectId(input.workflowId);
-    const now = new Date();
-
-    // Get workflow definition
-    const workflow = await this.workflows.findOne({ _id: workflowId });
-    if (!workflow) {
-      throw new Error(`Workflow ${input.workflowId} not found`);
+    if (input.executionOptions?.dryRun) {
+      throw new Error('Dry runs do not create workflow runs - use simulateWorkflow()');
     }
 
-    if (!workflow.isActive) {
-      throw new Error(`Workflow ${workflow.name} is not active`);
-    }
+    const workflowId = new ObjectId(input.workflowId);
+    const now = new Date();
 
-    if (!workflow.steps || workflow.steps.length === 0) {
-      throw new Error(`Workflow ${workflow.name} has no steps`);
-    }
+    // Get workflow definition and the revision this run is pinned to
+    const workflow = await this.loadRunnableWorkflow(input.workflowId);
+    const workflowVersion = await workflowRevisionService.ensureVersioned(workflow);
 
     // Normalize task defaults (convert string assigneeId to ObjectId)
     const taskDefaults = input.taskDefaults ? {
@@ -365,6 +407,7 @@ class WorkflowExecutionService {
     // (schema expects null for ObjectId fields, not undefined)
     const run: Omit<WorkflowRun, '_id'> = {
       workflowId,
+      workflowVersion,
       status: 'running',
       currentStepIds: [],
       completedStepIds: [],
@@ -402,7 +445,8 @@ class WorkflowExecutionService {
           $set: {
             spawnedWorkflowRunId: createdRun._id,
             updatedAt: now,
-          }
+          },
+          $inc: { revision: 1 },
         }
       );
       console.log(`[WorkflowExecutionService] Linked trigger task ${triggerTaskId} to workflow run ${createdRun._id}`);
@@ -426,6 +470,131 @@ class WorkflowExecutionService {
     return { run: createdRun, rootTask };
   }
 
+  /**
+   * Load a workflow definition and check that it can be started.
+   */
+  private async loadRunnableWorkflow(workflowId: string): Promise<Workflow> {
+    const workflow = await this.workflows.findOne({ _id: new ObjectId(workflowId) });
+    if (!workflow) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    if (!workflow.isActive) {
+      throw new Error(`Workflow ${workflow.name} is not active`);
+    }
+
+    if (!workflow.steps || workflow.steps.length === 0) {
+      throw new Error(`Workflow ${workflow.name} has no steps`);
+    }
+
+    return workflow;
+  }
+
+  /**
+   * Simulate a workflow run without inserting tasks or calling webhooks.
+   *
+   * Walks the step graph from the first step and returns a trace of what
+   * would happen. Later steps see the original input payload since real
+   * step outputs are not available, so decision branches are best-effort.
+   */
+  async simulateWorkflow(input: StartWorkflowInput): Promise<WorkflowDryRunResult> {
+    const workflow = await this.loadRunnableWorkflow(input.workflowId);
+    const options = input.executionOptions || {};
+    const payload = input.inputPayload;
+    const MAX_DRY_RUN_STEPS = 200;
+
+    const trace: WorkflowDryRunStep[] = [];
+    const visited = new Set<string>();
+    const queue: WorkflowStep[] = [workflow.steps[0]];
+    let truncated = false;
+
+    while (queue.length > 0) {
+      if (trace.length >= MAX_DRY_RUN_STEPS) {
+        truncated = true;
+        break;
+      }
+
+      const step = queue.shift()!;
+      // Loops are traced once - a real run may revisit the step
+      if (visited.has(step.id)) continue;
+      visited.add(step.id);
+
+      const details: Record<string, unknown> = {};
+      let action: WorkflowDryRunStep['action'] = 'execute';
+      let nextStepIds: string[];
+
+      if (options.skipSteps?.includes(step.id)) {
+        action = 'skip';
+        nextStepIds = this.getSkipTargetStepIds(workflow, step);
+      } else {
+        if (options.pauseAtSteps?.includes(step.id)) {
+          action = 'pause';
+        }
+
+        if (step.stepType === 'decision') {
+          const selected = this.selectDecisionConnection(step, payload);
+          nextStepIds = selected ? [selected.targetStepId] : [];
+          details.selectedCondition = selected?.condition ?? null;
+          if (!selected) {
+            details.error = 'No valid decision path';
+          }
+        } else {
+          nextStepIds = this.getNextStepIds(workflow, step);
+        }
+
+        switch (step.stepType) {
+          case 'agent':
+          case 'manual':
+            details.assigneeId = step.defaultAssigneeId || input.taskDefaults?.assigneeId?.toString() || null;
+            break;
+          case 'external':
+          case 'webhook':
+            details.url = step.webhookConfig?.url || step.externalConfig?.endpoint || null;
+            details.method = step.webhookConfig?.method || step.externalConfig?.method || 'POST';
+            break;
+          case 'foreach': {
+            const items = step.itemsPath ? this.getValueByPath(payload, step.itemsPath) : undefined;
+            details.itemCount = Array.isArray(items)
+              ? Math.min(items.length, step.maxItems || 100)
+              : null;
+            break;
+          }
+          case 'join':
+            details.awaitStepId = step.awaitStepId || null;
+            break;
+          case 'flow':
+            details.flowId = step.flowId || null;
+            details.childInputPayload = this.mapFlowInput(step, payload);
+            break;
+        }
+      }
+
+      trace.push({
+        stepId: step.id,
+        name: step.name,
+        stepType: step.stepType,
+        action,
+        nextStepIds,
+        ...(Object.keys(details).length > 0 && { details }),
+      });
+
+      for (const nextStepId of nextStepIds) {
+        const nextStep = workflow.steps.find(s => s.id === nextStepId);
+        if (nextStep) {
+          queue.push(nextStep);
+        }
+      }
+    }
+
+    return {
+      dryRun: true,
+      workflowId: workflow._id.toString(),
+      workflowName: workflow.name,
+      steps: trace,
+      truncated,
+    };
+  }
+
   private async createRootTask(
     run: WorkflowRun,
     workflow: Workflow,
@@ -453,6 +622,7 @@ class WorkflowExecutionService {
       createdById: actorId ?? null,
       createdAt: now,
       updatedAt: now,
+      revision: 1,
       metadata: {
         workflowRunId: run._id.toString(),
         ...(run.inputPayload && { inputPayload: run.inputPayload }),
@@ -510,13 +680,33 @@ class WorkflowExecutionService {
   // Step Execution
   // ============================================================================
 
+  /**
+   * Execute a workflow step, honoring the run's executionOptions.
+   * Returns null when the step was skipped or queued on a paused run.
+   */
   private async executeStep(
     run: WorkflowRun,
     workflow: Workflow,
     step: WorkflowStep,
     parentTask: Task,
-    inputPayload?: Record<string, unknown>
-  ): Promise<Task> {
+    inputPayload?: Record<string, unknown>,
+    options: { bypassPauseAt?: boolean; taskMetadata?: Record<string, unknown> } = {}
+  ): Promise<Task | null> {
+    // skipSteps: pass the input straight through to the next step(s)
+    if (run.executionOptions?.skipSteps?.includes(step.id)) {
+      await this.skipStep(run, workflow, step, parentTask, inputPayload);
+      return null;
+    }
+
+    // pauseAtSteps: pause the run before creating this step's task.
+    // Steps reached while the run is already paused are queued as well.
+    const pauseRequested = !options.bypassPauseAt && !!run.executionOptions?.pauseAtSteps?.includes(step.id);
+    const currentRun = await this.workflowRuns.findOne({ _id: run._id }, { projection: { status: 1 } });
+    if (pauseRequested || currentRun?.status === 'paused') {
+      await this.pauseBeforeStep(run, step, parentTask, inputPayload, options.taskMetadata);
+      return null;
+    }
+
     console.log(`[WorkflowExecutionService] Executing step: ${step.name} (${step.stepType})`);
 
     // Update run with current step
@@ -526,7 +716,7 @@ class WorkflowExecutionService {
     );
 
     // Create task for this step
-    const task = await this.createTaskForStep(run, workflow, step, parentTask, inputPayload);
+    const task = await this.createTaskForStep(run, workflow, step, parentTask, inputPayload, options.taskMetadata);
 
     // Publish step started event
     await this.publish({
@@ -547,7 +737,7 @@ class WorkflowExecutionService {
         // Trigger steps complete immediately - they just initiate the workflow
         await this.tasks.updateOne(
           { _id: task._id },
-          { $set: { status: 'completed' as TaskStatus } }
+          { $set: { status: 'completed' as TaskStatus }, $inc: { revision: 1 } }
         );
         break;
 
@@ -580,20 +770,149 @@ class WorkflowExecutionService {
         break;
 
       case 'flow':
-        // TODO: Implement flow execution (nested workflow)
-        console.log('[WorkflowExecutionService] Flow execution not yet implemented');
+        // Flow steps start a child workflow run and wait for it to finish
+        await this.executeFlow(run, workflow, step, task, inputPayload);
         break;
     }
 
     return task;
   }
 
-  private async createTaskForStep(
+  /**
+   * Skip a step (executionOptions.skipSteps) without creating a task.
+   * The step's input is handed unchanged to the step(s) it leads to.
+   */
+  private async skipStep(
     run: WorkflowRun,
     workflow: Workflow,
     step: WorkflowStep,
     parentTask: Task,
     inputPayload?: Record<string, unknown>
+  ): Promise<void> {
+    console.log(`[WorkflowExecutionService] Skipping step: ${step.name} (${step.id})`);
+
+    await this.workflowRuns.updateOne(
+      { _id: run._id },
+      {
+        $pull: { currentStepIds: step.id },
+        $addToSet: { completedStepIds: step.id },
+      }
+    );
+
+    await this.publish({
+      id: this.generateEventId(),
+      type: 'workflow.run.step.skipped',
+      workflowRunId: run._id,
+      workflowRun: run,
+      stepId: step.id,
+      actorId: null,
+      actorType: 'system',
+      timestamp: new Date(),
+    });
+
+    const nextStepIds = this.getSkipTargetStepIds(workflow, step);
+    if (nextStepIds.length === 0) {
+      await this.completeWorkflow(run);
+      return;
+    }
+
+    for (const nextStepId of nextStepIds) {
+      const nextStep = workflow.steps.find(s => s.id === nextStepId);
+      if (nextStep) {
+        await this.executeStep(run, workflow, nextStep, parentTask, inputPayload);
+      }
+    }
+  }
+
+  /**
+   * Pause the run and queue the step so resumeWorkflowRun() can execute it later.
+   */
+  private async pauseBeforeStep(
+    run: WorkflowRun,
+    step: WorkflowStep,
+    parentTask: Task,
+    inputPayload?: Record<string, unknown>,
+    taskMetadata?: Record<string, unknown>
+  ): Promise<void> {
+    const now = new Date();
+    const pendingStep: PendingWorkflowStep = {
+      stepId: step.id,
+      parentTaskId: parentTask._id,
+      queuedAt: now,
+      ...(inputPayload && { inputPayload }),
+      ...(taskMetadata && { taskMetadata }),
+    };
+
+    const previousRun = await this.workflowRuns.findOneAndUpdate(
+      { _id: run._id, status: { $in: ['running', 'paused'] } },
+      {
+        $set: { status: 'paused' as WorkflowRunStatus },
+        $push: { pendingSteps: pendingStep },
+        $addToSet: { currentStepIds: step.id },
+      },
+      { returnDocument: 'before' }
+    );
+
+    if (!previousRun) {
+      console.log(`[WorkflowExecutionService] Run ${run._id} is no longer active - not queuing step ${step.id}`);
+      return;
+    }
+
+    console.log(`[WorkflowExecutionService] Run ${run._id} paused before step: ${step.name} (${step.id})`);
+
+    if (previousRun.status !== 'paused') {
+      await this.workflowRuns.updateOne({ _id: run._id }, { $set: { pausedAt: now } });
+      const pausedRun = await this.workflowRuns.findOne({ _id: run._id });
+      await this.publish({
+        id: this.generateEventId(),
+        type: 'workflow.run.paused',
+        workflowRunId: run._id,
+        workflowRun: pausedRun || run,
+        stepId: step.id,
+        actorId: null,
+        actorType: 'system',
+        timestamp: now,
+      });
+    }
+  }
+
+  /**
+   * Find the step(s) that follow a step: explicit connections first,
+   * otherwise the next step in array order.
+   */
+  private getNextStepIds(workflow: Workflow, step: WorkflowStep): string[] {
+    const nextStepIds = step.connections?.map(c => c.targetStepId) || [];
+    if (nextStepIds.length === 0) {
+      const currentIndex = workflow.steps.findIndex(s => s.id === step.id);
+      const nextStep = workflow.steps[currentIndex + 1];
+      if (nextStep) {
+        nextStepIds.push(nextStep.id);
+      }
+    }
+    return nextStepIds;
+  }
+
+  /**
+   * Where a skipped step hands its input. A skipped decision takes its
+   * default path instead of fanning out to every branch.
+   */
+  private getSkipTargetStepIds(workflow: Workflow, step: WorkflowStep): string[] {
+    if (step.stepType === 'decision') {
+      const target = step.defaultConnection
+        || step.connections?.find(conn => !conn.condition)?.targetStepId
+        || step.connections?.[0]?.targetStepId;
+      return target ? [target] : [];
+    }
+    return this.getNextStepIds(workflow, step);
+  }
+
+  private async createTaskForStep(
+    run: WorkflowRun,
+    workflow: Workflow,
+    step: WorkflowStep,
+    parentTask: Task,
+    inputPayload?: Record<string, unknown>,
+    extraMetadata?: Record<string, unknown>
   ): Promise<Task> {
     const now = new Date();
 
@@ -636,7 +955,9 @@ class WorkflowExecutionService {
         : runDefaults.assigneeId ?? null,
       createdAt: now,
       updatedAt: now,
+      revision: 1,
       metadata: {
+        ...extraMetadata,
         stepId: step.id,
         stepType: step.stepType,
         inputPayload,
@@ -697,6 +1018,16 @@ class WorkflowExecutionService {
       }
     }
 
+    // Step-level SLA: dueOffsetHours overrides the run default, and the
+    // timeout is picked up by checkStepTimeouts() once it has passed
+    if (step.dueOffsetHours) {
+      task.dueAt = new Date(now.getTime() + step.dueOffsetHours * 60 * 60 * 1000);
+    }
+    const timeoutAt = this.getStepTimeoutAt(step, now);
+    if (timeoutAt) {
+      task.timeoutAt = timeoutAt;
+    }
+
     // Strip undefined values before insertion to prevent MongoDB validation errors
     const cleanTask = stripUndefined(task as unknown as Record<string, unknown>) as unknown as Task;
     const result = await this.tasks.insertOne(cleanTask);
@@ -771,6 +1102,7 @@ class WorkflowExecutionService {
           'externalConfig.callbackSecret': callbackSecret,
           'metadata.externalCallInitiated': false,
         },
+        $inc: { revision: 1 },
       }
     );
 
@@ -844,6 +1176,7 @@ class WorkflowExecutionService {
             'metadata.externalCallStatus': response.status,
             'metadata.externalCallResponse': responseData,
           },
+          $inc: { revision: 1 },
         }
       );
 
@@ -864,7 +1197,7 @@ class WorkflowExecutionService {
           }
           await this.tasks.updateOne(
             { _id: externalTask._id },
-            { $set: { 'metadata.mappedResponse': mappedData } }
+            { $set: { 'metadata.mappedResponse': mappedData }, $inc: { revision: 1 } }
           );
         }
       }
@@ -877,6 +1210,7 @@ class WorkflowExecutionService {
             'metadata.externalCallInitiated': true,
             'metadata.externalCallError': String(error),
           },
+          $inc: { revision: 1 },
         }
       );
       // Still waiting for callback - don't fail the task
@@ -1010,6 +1344,7 @@ class WorkflowExecutionService {
               'metadata.requestHeaders': resolvedHeaders,
               'metadata.requestBody': resolvedBody,
             },
+            $inc: { revision: 1 },
           }
         );
         console.log(`[WorkflowExecutionService] External webhook completed successfully: ${response.status}`);
@@ -1046,6 +1381,7 @@ class WorkflowExecutionService {
               'metadata.requestHeaders': resolvedHeaders,
               'metadata.requestBody': resolvedBody,
             },
+            $inc: { revision: 1 },
           }
         );
         console.error(`[WorkflowExecutionService] External webhook failed: ${response.status}`);
@@ -1080,6 +1416,7 @@ class WorkflowExecutionService {
             'metadata.requestHeaders': resolvedHeaders,
             'metadata.requestBody': resolvedBody,
           },
+          $inc: { revision: 1 },
         }
       );
     }
@@ -1102,7 +1439,7 @@ class WorkflowExecutionService {
       console.error(`[WorkflowExecutionService] Webhook step ${step.id} has no URL configured`);
       await this.tasks.updateOne(
         { _id: webhookTask._id },
-        { $set: { status: 'failed' as TaskStatus, 'metadata.error': 'No webhook URL configured' } }
+        { $set: { status: 'failed' as TaskStatus, 'metadata.error': 'No webhook URL configured' }, $inc: { revision: 1 } }
       );
       return;
     }
@@ -1129,6 +1466,7 @@ class WorkflowExecutionService {
           webhookConfig,
           'metadata.inputPayload': inputPayload,
         },
+        $inc: { revision: 1 },
       }
     );
 
@@ -1199,6 +1537,7 @@ class WorkflowExecutionService {
               'webhookConfig.lastAttemptAt': new Date(),
               'metadata.response': parsedResponse,
             },
+            $inc: { revision: 1 },
           }
         );
         console.log(`[WorkflowExecutionService] Webhook completed successfully: ${response.status}`);
@@ -1212,6 +1551,7 @@ class WorkflowExecutionService {
               'webhookConfig.lastAttemptAt': new Date(),
               'metadata.error': `HTTP ${response.status}: ${responseBody}`,
             },
+            $inc: { revision: 1 },
           }
         );
         console.error(`[WorkflowExecutionService] Webhook failed: ${response.status}`);
@@ -1225,6 +1565,7 @@ class WorkflowExecutionService {
             status: 'failed' as TaskStatus,
             'metadata.error': String(error),
           },
+          $inc: { revision: 1 },
         }
       );
     }
@@ -1297,7 +1638,8 @@ class WorkflowExecutionService {
             expectedQuantity: expectedCount,
             'batchCounters.expectedCount': expectedCount,
             'metadata.waitingReason': 'No itemsPath configured. Waiting for items via callback.',
-          }
+          },
+          $inc: { revision: 1 },
         }
       );
       console.log(`[WorkflowExecutionService] Foreach task ${foreachTask._id} set to waiting for callbacks (expectedCount: ${expectedCount})`);
@@ -1320,7 +1662,8 @@ class WorkflowExecutionService {
             expectedQuantity: expectedCount,
             'batchCounters.expectedCount': expectedCount,
             'metadata.waitingReason': `Items not found at path: ${step.itemsPath}. Waiting for external data.`,
-          }
+          },
+          $inc: { revision: 1 },
         }
       );
       console.log(`[WorkflowExecutionService] Foreach task ${foreachTask._id} set to waiting - items not found at path (expectedCount: ${expectedCount})`);
@@ -1339,7 +1682,8 @@ class WorkflowExecutionService {
             expectedQuantity: expectedCount,
             'batchCounters.expectedCount': expectedCount,
             'metadata.waitingReason': `Items array at path ${step.itemsPath} is empty. Waiting for external data.`,
-          }
+          },
+          $inc: { revision: 1 },
         }
       );
       console.log(`[WorkflowExecutionService] Foreach task ${foreachTask._id} set to waiting - empty items array (expectedCount: ${expectedCount})`);
@@ -1385,6 +1729,7 @@ class WorkflowExecutionService {
           'batchCounters.expectedCount': expectedCount,
           'metadata.itemCount': itemsToProcess.length,  // Actual items being processed
         },
+        $inc: { revision: 1 },
       }
     );
 
@@ -1554,7 +1899,7 @@ class WorkflowExecutionService {
       console.log('[WorkflowExecutionService] No foreach task to join on');
       await this.tasks.updateOne(
         { _id: joinTask._id },
-        { $set: { status: 'completed' as TaskStatus } }
+        { $set: { status: 'completed' as TaskStatus }, $inc: { revision: 1 } }
       );
       return;
     }
@@ -1586,6 +1931,7 @@ class WorkflowExecutionService {
           'metadata.awaitStepId': step.awaitStepId,
           'metadata.minSuccessPercent': minSuccessPercent,
         },
+        $inc: { revision: 1 },
       }
     );
 
@@ -1622,6 +1968,7 @@ class WorkflowExecutionService {
           'batchCounters.processedCount': completedCount,
           'batchCounters.failedCount': failedCount,
         },
+        $inc: { revision: 1 },
       }
     );
 
@@ -1674,7 +2021,7 @@ class WorkflowExecutionService {
       if (!inputPath && joinTask.workflowStepId && joinTask.workflowRunId) {
         const run = await this.workflowRuns.findOne({ _id: joinTask.workflowRunId });
         if (run) {
-          const workflow = await this.workflows.findOne({ _id: run.workflowId });
+          const workflow = await this.getRunWorkflow(run);
           const step = workflow?.steps.find(s => s.id === joinTask.workflowStepId);
           if (step?.inputPath) {
             inputPath = step.inputPath;
@@ -1727,13 +2074,14 @@ class WorkflowExecutionService {
             'metadata.requiredPercent': minSuccessPercent,
             'metadata.statusReason': statusReason,
           },
+          $inc: { revision: 1 },
         }
       );
 
       // Complete the foreach task
       await this.tasks.updateOne(
         { _id: foreachTaskId },
-        { $set: { status: 'completed' as TaskStatus } }
+        { $set: { status: 'completed' as TaskStatus }, $inc: { revision: 1 } }
       );
 
       console.log(`[WorkflowExecutionService] Join ${joinStatus}: ${statusReason}`);
@@ -1755,20 +2103,7 @@ class WorkflowExecutionService {
     inputPayload?: Record<string, unknown>
   ): Promise<void> {
     // Evaluate conditions and pick the right branch
-    let selectedConnection = step.connections?.find(conn => {
-      if (!conn.condition) return false;
-      return this.evaluateCondition(conn.condition, inputPayload);
-    });
-
-    // Fall back to default connection
-    if (!selectedConnection && step.defaultConnection) {
-      selectedConnection = { targetStepId: step.defaultConnection };
-    }
-
-    // Or take first connection without condition
-    if (!selectedConnection) {
-      selectedConnection = step.connections?.find(conn => !conn.condition);
-    }
+    const selectedConnection = this.selectDecisionConnection(step, inputPayload);
 
     if (!selectedConnection) {
       console.warn(`[WorkflowExecutionService] Decision step ${step.id} has no valid path`);
@@ -1778,7 +2113,8 @@ class WorkflowExecutionService {
           $set: {
             status: 'failed' as TaskStatus,
             'metadata.error': 'No valid decision path',
-          }
+          },
+          $inc: { revision: 1 },
         }
       );
       return;
@@ -1794,6 +2130,7 @@ class WorkflowExecutionService {
           'metadata.selectedPath': selectedConnection.targetStepId,
           'metadata.condition': selectedConnection.condition,
         },
+        $inc: { revision: 1 },
       }
     );
 
@@ -1807,57 +2144,242 @@ class WorkflowExecutionService {
     }
   }
 
-  private evaluateCondition(condition: string, payload?: Record<string, unknown>): boolean {
-    if (!condition || !payload) return false;
+  /**
+   * Pick the branch a decision step takes: the first connection whose
+   * condition matches, then the default connection, then the first
+   * unconditional connection.
+   */
+  private selectDecisionConnection(
+    step: WorkflowStep,
+    inputPayload?: Record<string, unknown>
+  ): { targetStepId: string; condition?: string | null } | undefined {
+    let selectedConnection: { targetStepId: string; condition?: string | null } | undefined = step.connections?.find(conn => {
+      if (!conn.condition) return false;
+      return evaluateCondition(conn.condition, inputPayload);
+    });
 
-    // Simple condition evaluation: "field:value" or "field:value1,value2"
-    const [field, values] = condition.split(':');
-    if (!field || !values) return false;
+    // Fall back to default connection
+    if (!selectedConnection && step.defaultConnection) {
+      selectedConnection = { targetStepId: step.defaultConnection };
+    }
 
-    const actualValue = this.getValueByPath(payload, field);
-    const expectedValues = values.split(',').map(v => v.trim());
+    // Or take first connection without condition
+    if (!selectedConnection) {
+      selectedConnection = step.connections?.find(conn => !conn.condition);
+    }
 
-    return expectedValues.includes(String(actualValue));
+    return selectedConnection;
   }
 
   // ============================================================================
-  // Task Event Handler
+  // Flow Execution (Nested Workflow)
   // ============================================================================
 
-  private async onTaskStatusChanged(event: TaskEvent): Promise<void> {
-    const task = event.task;
-
-    console.log(`[WorkflowExecutionService] onTaskStatusChanged: task=${task._id}, status=${task.status}, workflowRunId=${task.workflowRunId}, workflowStepId=${task.workflowStepId}`);
+  /**
+   * Start a child workflow run for a flow step.
+   *
+   * The flow task waits until the child run finishes; settleParentFlowTask()
+   * then completes or fails it, which advances the parent run as usual.
+   */
+  private async executeFlow(
+    run: WorkflowRun,
+    workflow: Workflow,
+    step: WorkflowStep,
+    flowTask: Task,
+    inputPayload?: Record<string, unknown>
+  ): Promise<void> {
+    const failFlowTask = async (error: string): Promise<void> => {
+      console.error(`[WorkflowExecutionService] Flow step ${step.id} failed: ${error}`);
+      const updatedTask = await this.tasks.findOneAndUpdate(
+        { _id: flowTask._id },
+        {
+          $set: {
+            status: 'failed' as TaskStatus,
+            'metadata.error': error,
+            updatedAt: new Date(),
+          },
+          $inc: { revision: 1 },
+        },
+        { returnDocument: 'after' }
+      );
+      if (updatedTask) {
+        await publishTaskEvent('task.status.changed', updatedTask, {
+          changes: [{ field: 'status', oldValue: flowTask.status, newValue: 'failed' }],
+          actorType: 'system',
+        });
+      }
+    };
 
-    // Only process workflow tasks
-    if (!task.workflowRunId || !task.workflowStepId) {
-      console.log(`[WorkflowExecutionService] Skipping - not a workflow task (missing workflowRunId or workflowStepId)`);
+    if (!step.flowId || !ObjectId.isValid(step.flowId)) {
+      await failFlowTask('No valid flowId configured for flow step');
       return;
     }
 
-    // Only process completed or failed tasks
-    if (task.status !== 'completed' && task.status !== 'failed') {
-      console.log(`[WorkflowExecutionService] Skipping - status is ${task.status}, not completed/failed`);
+    const parentDepth = typeof run.triggerContext?.flowDepth === 'number'
+      ? run.triggerContext.flowDepth
+      : 0;
+    if (parentDepth + 1 > MAX_FLOW_DEPTH) {
+      await failFlowTask(`Maximum flow nesting depth (${MAX_FLOW_DEPTH}) exceeded`);
       return;
     }
 
-    console.log(`[WorkflowExecutionService] Processing task ${task._id} (${task.title}) ${task.status}`);
-
-    const run = await this.workflowRuns.findOne({ _id: task.workflowRunId });
-    console.log(`[WorkflowExecutionService] Found run: ${run ? run._id : 'NOT FOUND'}, status: ${run?.status}`);
-    if (!run || run.status !== 'running') {
-      console.log(`[WorkflowExecutionService] Skipping - run not found or not running`);
-      return;
-    }
+    const childInput = this.mapFlowInput(step, inputPayload);
 
-    const workflow = await this.workflows.findOne({ _id: run.workflowId });
-    console.log(`[WorkflowExecutionService] Found workflow: ${workflow ? workflow.name : 'NOT FOUND'}`);
-    if (!workflow) {
-      console.log(`[WorkflowExecutionService] Skipping - workflow not found`);
-      return;
-    }
+    // Mark the flow task as waiting before the child starts - a child made of
+    // immediate steps can finish before startWorkflow() returns
+    await this.tasks.updateOne(
+      { _id: flowTask._id },
+      {
+        $set: {
+          status: 'waiting' as TaskStatus,
+          'metadata.flowId': step.flowId,
+          'metadata.childInputPayload': childInput,
+          updatedAt: new Date(),
+        },
+        $inc: { revision: 1 },
+      }
+    );
 
-    // Publish step event
+    try {
+      const { run: childRun } = await this.startWorkflow(
+        {
+          workflowId: step.flowId,
+          inputPayload: childInput,
+          taskDefaults: run.taskDefaults,
+          source: 'flow',
+          triggerTaskId: flowTask._id.toString(),
+          triggerContext: {
+            parentWorkflowRunId: run._id.toString(),
+            parentWorkflowId: workflow._id.toString(),
+            parentStepId: step.id,
+            flowDepth: parentDepth + 1,
+          },
+        },
+        run.createdById
+      );
+
+      console.log(`[WorkflowExecutionService] Flow step ${step.id} started child run ${childRun._id} (workflow ${step.flowId})`);
+    } catch (error) {
+      await failFlowTask(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Build the child run's input payload from the parent step input.
+   * inputMapping maps child input keys to paths in the parent payload
+   * (e.g. { "email": "output.customer.email" }). Without a mapping the
+   * full parent payload is passed through.
+   */
+  private mapFlowInput(
+    step: WorkflowStep,
+    inputPayload?: Record<string, unknown>
+  ): Record<string, unknown> {
+    if (!step.inputMapping || Object.keys(step.inputMapping).length === 0) {
+      return { ...inputPayload };
+    }
+
+    const mapped: Record<string, unknown> = {};
+    for (const [targetKey, sourcePath] of Object.entries(step.inputMapping)) {
+      let value = this.getValueByPath(inputPayload, sourcePath);
+      // Allow the same "input." prefix that title templates use
+      if (value === undefined && sourcePath.startsWith('input.')) {
+        value = this.getValueByPath(inputPayload, sourcePath.substring(6));
+      }
+      if (value !== undefined) {
+        mapped[targetKey] = value;
+      }
+    }
+    return mapped;
+  }
+
+  /**
+   * When a child run spawned by a flow step finishes, complete or fail the
+   * parent's flow task. Publishing the status change lets the parent run
+   * advance (or fail) through the normal task event path.
+   */
+  private async settleParentFlowTask(
+    run: WorkflowRun,
+    status: 'completed' | 'failed',
+    result: { outputPayload?: Record<string, unknown>; error?: string }
+  ): Promise<void> {
+    if (!run.triggerTaskId) return;
+
+    const flowTask = await this.tasks.findOne({ _id: run.triggerTaskId });
+    if (
+      !flowTask ||
+      !flowTask.workflowRunId ||
+      flowTask.metadata?.stepType !== 'flow' ||
+      flowTask.spawnedWorkflowRunId?.toString() !== run._id.toString()
+    ) {
+      return;
+    }
+
+    const openStatuses: TaskStatus[] = ['pending', 'waiting', 'in_progress'];
+    const $set: Record<string, unknown> = {
+      status,
+      updatedAt: new Date(),
+      'metadata.childWorkflowRunId': run._id.toString(),
+    };
+    if (status === 'completed') {
+      $set['metadata.response'] = result.outputPayload || {};
+    } else {
+      $set['metadata.error'] = result.error || 'Child workflow failed';
+    }
+
+    const updatedTask = await this.tasks.findOneAndUpdate(
+      { _id: flowTask._id, status: { $in: openStatuses } },
+      { $set, $inc: { revision: 1 } },
+      { returnDocument: 'after' }
+    );
+    if (!updatedTask) return;
+
+    console.log(`[WorkflowExecutionService] Child run ${run._id} ${status} - settling flow task ${flowTask._id}`);
+
+    await publishTaskEvent('task.status.changed', updatedTask, {
+      changes: [{ field: 'status', oldValue: flowTask.status, newValue: status }],
+      actorType: 'system',
+    });
+  }
+
+  // ============================================================================
+  // Task Event Handler
+  // ============================================================================
+
+  private async onTaskStatusChanged(event: TaskEvent): Promise<void> {
+    const task = event.task;
+
+    console.log(`[WorkflowExecutionService] onTaskStatusChanged: task=${task._id}, status=${task.status}, workflowRunId=${task.workflowRunId}, workflowStepId=${task.workflowStepId}`);
+
+    // Only process workflow tasks
+    if (!task.workflowRunId || !task.workflowStepId) {
+      console.log(`[WorkflowExecutionService] Skipping - not a workflow task (missing workflowRunId or workflowStepId)`);
+      return;
+    }
+
+    // Only process completed or failed tasks
+    if (task.status !== 'completed' && task.status !== 'failed') {
+      console.log(`[WorkflowExecutionService] Skipping - status is ${task.status}, not completed/failed`);
+      return;
+    }
+
+    console.log(`[WorkflowExecutionService] Processing task ${task._id} (${task.title}) ${task.status}`);
+
+    const run = await this.workflowRuns.findOne({ _id: task.workflowRunId });
+    console.log(`[WorkflowExecutionService] Found run: ${run ? run._id : 'NOT FOUND'}, status: ${run?.status}`);
+    // Paused runs still track finishing tasks; new steps get queued until resume
+    if (!run || (run.status !== 'running' && run.status !== 'paused')) {
+      console.log(`[WorkflowExecutionService] Skipping - run not found or not running`);
+      return;
+    }
+
+    const workflow = await this.getRunWorkflow(run);
+    console.log(`[WorkflowExecutionService] Found workflow: ${workflow ? workflow.name : 'NOT FOUND'}`);
+    if (!workflow) {
+      console.log(`[WorkflowExecutionService] Skipping - workflow not found`);
+      return;
+    }
+
+    // Publish step event
     await this.publish({
       id: this.generateEventId(),
       type: task.status === 'completed' ? 'workflow.run.step.completed' : 'workflow.run.step.failed',
@@ -1889,6 +2411,7 @@ class WorkflowExecutionService {
                 'batchCounters.processedCount': completedCount,
                 'batchCounters.failedCount': failedCount,
               },
+              $inc: { revision: 1 },
             }
           );
           console.log(`[WorkflowExecutionService] Updated foreach ${parentTask._id} counters: ${completedCount} completed, ${failedCount} failed`);
@@ -1959,7 +2482,7 @@ class WorkflowExecutionService {
     if (task.status === 'completed') {
       await this.advanceToNextStep(run, workflow, task);
     } else if (task.status === 'failed') {
-      await this.handleStepFailure(run, workflow, task);
+      await this.handleFailedStepTask(run, workflow, task);
     }
   }
 
@@ -1987,19 +2510,9 @@ class WorkflowExecutionService {
       }
     );
 
-    // Find next step(s)
-    const nextStepIds = currentStep.connections?.map(c => c.targetStepId) || [];
+    // Find next step(s) - explicit connections, or the next step in array order
     console.log(`[WorkflowExecutionService] Step connections: ${JSON.stringify(currentStep.connections)}`);
-
-    // If no explicit connections, try to find next step in array
-    if (nextStepIds.length === 0) {
-      const currentIndex = workflow.steps.findIndex(s => s.id === currentStep.id);
-      const nextStep = workflow.steps[currentIndex + 1];
-      console.log(`[WorkflowExecutionService] No connections, checking sequential. Current index: ${currentIndex}, next step: ${nextStep?.id || 'none'}`);
-      if (nextStep) {
-        nextStepIds.push(nextStep.id);
-      }
-    }
+    const nextStepIds = this.getNextStepIds(workflow, currentStep);
 
     // If still no connections and this is a join task, check the associated foreach step's connections
     if (nextStepIds.length === 0 && completedTask.taskType === 'join' && completedTask.joinConfig?.awaitTaskId) {
@@ -2154,6 +2667,511 @@ class WorkflowExecutionService {
     return getValueByPathStatic(currentPayload, inputPath);
   }
 
+  // ============================================================================
+  // Step Timeouts (timeoutMs / dueOffsetHours / onTimeout)
+  // ============================================================================
+
+  /**
+   * When an agent or manual step task times out. timeoutMs wins over
+   * dueOffsetHours; other step types complete on their own and never time out.
+   */
+  private getStepTimeoutAt(step: WorkflowStep, from: Date): Date | null {
+    if (step.stepType !== 'agent' && step.stepType !== 'manual') return null;
+
+    if (step.timeoutMs && step.timeoutMs > 0) {
+      return new Date(from.getTime() + step.timeoutMs);
+    }
+    if (step.dueOffsetHours && step.dueOffsetHours > 0) {
+      return new Date(from.getTime() + step.dueOffsetHours * 60 * 60 * 1000);
+    }
+    return null;
+  }
+
+  private startTimeoutChecker(): void {
+    const check = async () => {
+      try {
+        await this.checkStepTimeouts();
+      } catch (error) {
+        console.error('[WorkflowExecutionService] Step timeout check error:', error);
+      }
+    };
+
+    // Catch up on anything that expired while the server was down
+    void check();
+    this.timeoutCheckInterval = setInterval(check, STEP_TIMEOUT_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Handle step tasks whose timeoutAt has passed. Each task is claimed by
+   * clearing timeoutAt, so a timeout is only acted on once even with several
+   * backend processes polling.
+   */
+  async checkStepTimeouts(): Promise<number> {
+    const now = new Date();
+    const expiredTasks = await this.tasks
+      .find({ status: { $in: TIMEOUT_ELIGIBLE_STATUSES }, timeoutAt: { $lte: now } })
+      .limit(50)
+      .toArray();
+
+    let handled = 0;
+    for (const expired of expiredTasks) {
+      const task = await this.tasks.findOneAndUpdate(
+        { _id: expired._id, status: { $in: TIMEOUT_ELIGIBLE_STATUSES }, timeoutAt: { $lte: now } },
+        { $set: { timeoutAt: null, 'metadata.timedOutAt': now }, $inc: { revision: 1 } },
+        { returnDocument: 'after' }
+      );
+      if (!task) continue;
+
+      try {
+        await this.handleStepTimeout(task, expired.timeoutAt!);
+        handled++;
+      } catch (error) {
+        console.error(`[WorkflowExecutionService] Failed to handle timeout for task ${task._id}:`, error);
+      }
+    }
+
+    if (handled > 0) {
+      console.log(`[WorkflowExecutionService] Handled ${handled} step timeout(s)`);
+    }
+    return handled;
+  }
+
+  private async handleStepTimeout(task: Task, timeoutAt: Date): Promise<void> {
+    const run = task.workflowRunId ? await this.workflowRuns.findOne({ _id: task.workflowRunId }) : null;
+    if (!run || (run.status !== 'running' && run.status !== 'paused')) {
+      console.log(`[WorkflowExecutionService] Ignoring timeout for task ${task._id} - run not active`);
+      return;
+    }
+
+    const workflow = await this.getRunWorkflow(run);
+    const step = workflow?.steps.find(s => s.id === task.workflowStepId);
+    if (!workflow || !step) {
+      console.warn(`[WorkflowExecutionService] Ignoring timeout for task ${task._id} - step not found`);
+      return;
+    }
+
+    const action = step.onTimeout?.action || 'fail';
+    console.log(`[WorkflowExecutionService] Step ${step.name} timed out (task ${task._id}) - ${action}`);
+
+    await this.tasks.updateOne({ _id: task._id }, { $set: { 'metadata.timeoutAction': action }, $inc: { revision: 1 } });
+
+    await this.publish({
+      id: this.generateEventId(),
+      type: 'workflow.run.step.timed_out',
+      workflowRunId: run._id,
+      workflowRun: run,
+      stepId: step.id,
+      taskId: task._id,
+      actorId: null,
+      actorType: 'system',
+      timestamp: new Date(),
+    });
+
+    switch (action) {
+      case 'reassign':
+        await this.reassignTimedOutTask(task, step);
+        break;
+
+      case 'escalate':
+        await this.escalateTimedOutTask(task, step);
+        break;
+
+      case 'route': {
+        const targetStep = workflow.steps.find(s => s.id === step.onTimeout?.targetStepId);
+        if (targetStep) {
+          await this.routeTimedOutTask(run, workflow, step, targetStep, task, timeoutAt);
+          break;
+        }
+        console.warn(`[WorkflowExecutionService] Timeout step ${step.onTimeout?.targetStepId} not found - failing task ${task._id}`);
+        await this.failTimedOutTask(task, step);
+        break;
+      }
+
+      case 'fail':
+      default:
+        await this.failTimedOutTask(task, step);
+        break;
+    }
+  }
+
+  /**
+   * Fail the task. The failure then goes through the step's retryPolicy and
+   * onErrorStepId like any other failure.
+   */
+  private async failTimedOutTask(task: Task, step: WorkflowStep): Promise<void> {
+    const updatedTask = await this.tasks.findOneAndUpdate(
+      { _id: task._id, status: { $in: TIMEOUT_ELIGIBLE_STATUSES } },
+      {
+        $set: {
+          status: 'failed' as TaskStatus,
+          'metadata.error': `Step "${step.name}" timed out`,
+          updatedAt: new Date(),
+        },
+        $inc: { revision: 1 },
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updatedTask) return;
+
+    await publishTaskEvent('task.status.changed', updatedTask, {
+      changes: [{ field: 'status', oldValue: task.status, newValue: 'failed' }],
+      actorType: 'system',
+    });
+  }
+
+  private async reassignTimedOutTask(task: Task, step: WorkflowStep): Promise<void> {
+    const assigneeId = step.onTimeout?.escalationAssigneeId;
+    if (!assigneeId || !ObjectId.isValid(assigneeId)) {
+      console.warn(`[WorkflowExecutionService] No valid escalationAssigneeId on step ${step.id} - failing task ${task._id}`);
+      await this.failTimedOutTask(task, step);
+      return;
+    }
+
+    const updatedTask = await this.tasks.findOneAndUpdate(
+      { _id: task._id },
+      { $set: { assigneeId: new ObjectId(assigneeId), updatedAt: new Date() }, $inc: { revision: 1 } },
+      { returnDocument: 'after' }
+    );
+    if (!updatedTask) return;
+
+    await publishTaskEvent('task.assignee.changed', updatedTask, {
+      changes: [{ field: 'assigneeId', oldValue: task.assigneeId ?? null, newValue: updatedTask.assigneeId }],
+      actorType: 'system',
+    });
+  }
+
+  private async escalateTimedOutTask(task: Task, step: WorkflowStep): Promise<void> {
+    const currentLevel = URGENCY_LEVELS.indexOf(task.urgency || 'normal');
+    const urgency = step.onTimeout?.urgency
+      || URGENCY_LEVELS[Math.min(currentLevel + 1, URGENCY_LEVELS.length - 1)];
+
+    const updatedTask = await this.tasks.findOneAndUpdate(
+      { _id: task._id },
+      { $set: { urgency, updatedAt: new Date() }, $inc: { revision: 1 } },
+      { returnDocument: 'after' }
+    );
+    if (!updatedTask || task.urgency === urgency) return;
+
+    await publishTaskEvent('task.priority.changed', updatedTask, {
+      changes: [{ field: 'urgency', oldValue: task.urgency ?? null, newValue: urgency }],
+      actorType: 'system',
+    });
+  }
+
+  /**
+   * Cancel the timed out task and continue at the timeout branch. The target
+   * step receives the step's input plus a `timeout` object.
+   */
+  private async routeTimedOutTask(
+    run: WorkflowRun,
+    workflow: Workflow,
+    step: WorkflowStep,
+    targetStep: WorkflowStep,
+    task: Task,
+    timeoutAt: Date
+  ): Promise<void> {
+    const updatedTask = await this.tasks.findOneAndUpdate(
+      { _id: task._id, status: { $in: TIMEOUT_ELIGIBLE_STATUSES } },
+      { $set: { status: 'cancelled' as TaskStatus, updatedAt: new Date() }, $inc: { revision: 1 } },
+      { returnDocument: 'after' }
+    );
+    if (!updatedTask) return;
+
+    await publishTaskEvent('task.status.changed', updatedTask, {
+      changes: [{ field: 'status', oldValue: task.status, newValue: 'cancelled' }],
+      actorType: 'system',
+    });
+
+    await this.divertStep(run, workflow, step, targetStep, task, {
+      timeout: {
+        stepId: step.id,
+        stepName: step.name,
+        taskId: task._id.toString(),
+        timeoutAt: timeoutAt.toISOString(),
+      },
+    });
+  }
+
+  // ============================================================================
+  // Step Failure Handling (retryPolicy / onErrorStepId)
+  // ============================================================================
+
+  /**
+   * Decide what happens to a failed step task: retry it according to the
+   * step's retryPolicy, route to its onErrorStepId, or fail the whole run.
+   */
+  private async handleFailedStepTask(
+    run: WorkflowRun,
+    workflow: Workflow,
+    failedTask: Task
+  ): Promise<void> {
+    const step = workflow.steps.find(s => s.id === failedTask.workflowStepId);
+    if (!step) {
+      await this.handleStepFailure(run, workflow, failedTask);
+      return;
+    }
+
+    const error = this.getTaskError(failedTask);
+    const attempt = Number(failedTask.metadata?.attempt) || 1;
+
+    if (step.retryPolicy && this.shouldRetry(step.retryPolicy, attempt, error)) {
+      await this.scheduleStepRetry(run, step, failedTask, attempt + 1, error);
+      return;
+    }
+
+    if (step.onErrorStepId) {
+      const errorStep = workflow.steps.find(s => s.id === step.onErrorStepId);
+      if (errorStep) {
+        await this.routeToErrorStep(run, workflow, step, errorStep, failedTask, attempt, error);
+        return;
+      }
+      console.warn(`[WorkflowExecutionService] Error step ${step.onErrorStepId} not found - failing run ${run._id}`);
+    }
+
+    await this.handleStepFailure(run, workflow, failedTask);
+  }
+
+  private getTaskError(task: Task): string {
+    const error = task.metadata?.error;
+    if (error === undefined || error === null) return '';
+    return typeof error === 'string' ? error : JSON.stringify(error);
+  }
+
+  /**
+   * A failure is retryable while attempts remain and, if retryOn is set,
+   * the error message contains one of its patterns (case-insensitive).
+   */
+  private shouldRetry(policy: StepRetryPolicy, attempt: number, error: string): boolean {
+    if (attempt >= policy.maxAttempts) return false;
+    if (!policy.retryOn || policy.retryOn.length === 0) return true;
+
+    const message = error.toLowerCase();
+    return policy.retryOn.some(pattern => message.includes(pattern.toLowerCase()));
+  }
+
+  /**
+   * Delay before retrying after the given (failed) attempt.
+   * Exponential backoff doubles the delay with every attempt.
+   */
+  private getRetryDelay(policy: StepRetryPolicy, failedAttempt: number): number {
+    const baseDelay = policy.delayMs ?? DEFAULT_RETRY_DELAY_MS;
+    const delay = policy.backoff === 'fixed'
+      ? baseDelay
+      : baseDelay * Math.pow(2, failedAttempt - 1);
+    return Math.min(delay, policy.maxDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Record the retry on the run (so it survives a restart) and arm a timer for it.
+   */
+  private async scheduleStepRetry(
+    run: WorkflowRun,
+    step: WorkflowStep,
+    failedTask: Task,
+    attempt: number,
+    error: string
+  ): Promise<void> {
+    const delayMs = this.getRetryDelay(step.retryPolicy!, attempt - 1);
+    const retry: ScheduledStepRetry = {
+      stepId: step.id,
+      failedTaskId: failedTask._id,
+      attempt,
+      retryAt: new Date(Date.now() + delayMs),
+      ...(error && { error }),
+    };
+
+    // Guard against scheduling the same failure twice
+    const updatedRun = await this.workflowRuns.findOneAndUpdate(
+      {
+        _id: run._id,
+        status: { $in: ['running', 'paused'] },
+        'scheduledRetries.failedTaskId': { $ne: failedTask._id },
+      },
+      { $push: { scheduledRetries: retry } },
+      { returnDocument: 'after' }
+    );
+
+    if (!updatedRun) {
+      console.log(`[WorkflowExecutionService] Not scheduling retry for task ${failedTask._id} - run inactive or retry already scheduled`);
+      return;
+    }
+
+    console.log(`[WorkflowExecutionService] Step ${step.name} failed (attempt ${attempt - 1}/${step.retryPolicy!.maxAttempts}) - retrying in ${delayMs}ms`);
+
+    await this.publish({
+      id: this.generateEventId(),
+      type: 'workflow.run.step.retrying',
+      workflowRunId: run._id,
+      workflowRun: updatedRun,
+      stepId: step.id,
+      taskId: failedTask._id,
+      ...(error && { error }),
+      actorId: null,
+      actorType: 'system',
+      timestamp: new Date(),
+    });
+
+    this.armStepRetry(run._id, retry);
+  }
+
+  private armStepRetry(runId: ObjectId, retry: ScheduledStepRetry): void {
+    const key = retry.failedTaskId.toString();
+    this.cancelStepRetry(key);
+
+    const delayMs = Math.max(0, new Date(retry.retryAt).getTime() - Date.now());
+    const timer = setTimeout(async () => {
+      this.retryTimers.delete(key);
+      try {
+        await this.executeStepRetry(runId, retry.failedTaskId);
+      } catch (error) {
+        console.error(`[WorkflowExecutionService] Step retry error for task ${key}:`, error);
+      }
+    }, delayMs);
+
+    this.retryTimers.set(key, timer);
+  }
+
+  private cancelStepRetry(failedTaskId: string): void {
+    const timer = this.retryTimers.get(failedTaskId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(failedTaskId);
+    }
+  }
+
+  /**
+   * Re-create a failed step's task with the same input. The new task carries
+   * metadata.attempt and metadata.retryOfTaskId so later failures count
+   * against the same retryPolicy.
+   */
+  private async executeStepRetry(runId: ObjectId, failedTaskId: ObjectId): Promise<void> {
+    // Claim the retry - it is gone if the run was cancelled or another process ran it
+    const claimedRun = await this.workflowRuns.findOneAndUpdate(
+      { _id: runId, status: { $in: ['running', 'paused'] }, 'scheduledRetries.failedTaskId': failedTaskId },
+      { $pull: { scheduledRetries: { failedTaskId } } },
+      { returnDocument: 'before' }
+    );
+    const retry = claimedRun?.scheduledRetries?.find(r => r.failedTaskId.equals(failedTaskId));
+    if (!claimedRun || !retry) {
+      console.log(`[WorkflowExecutionService] Retry for task ${failedTaskId} no longer scheduled - skipping`);
+      return;
+    }
+
+    const run: WorkflowRun = {
+      ...claimedRun,
+      scheduledRetries: claimedRun.scheduledRetries!.filter(r => r !== retry),
+    };
+
+    const workflow = await this.getRunWorkflow(run);
+    const step = workflow?.steps.find(s => s.id === retry.stepId);
+    const failedTask = await this.tasks.findOne({ _id: failedTaskId });
+    const parentTask = failedTask?.parentId ? await this.tasks.findOne({ _id: failedTask.parentId }) : null;
+
+    if (!workflow || !failedTask) {
+      console.warn(`[WorkflowExecutionService] Cannot retry task ${failedTaskId} - workflow or task not found`);
+      return;
+    }
+    if (!step || !parentTask) {
+      console.warn(`[WorkflowExecutionService] Cannot retry step ${retry.stepId} - step or parent task not found`);
+      await this.handleStepFailure(run, workflow, failedTask);
+      return;
+    }
+
+    console.log(`[WorkflowExecutionService] Retrying step ${step.name} (attempt ${retry.attempt})`);
+
+    await this.executeStep(
+      run,
+      workflow,
+      step,
+      parentTask,
+      failedTask.metadata?.inputPayload as Record<string, unknown> | undefined,
+      {
+        bypassPauseAt: true,
+        taskMetadata: { attempt: retry.attempt, retryOfTaskId: failedTaskId },
+      }
+    );
+  }
+
+  /**
+   * Re-arm retry timers for runs that had retries scheduled when the
+   * process stopped. Overdue retries run immediately.
+   */
+  private async restoreScheduledRetries(): Promise<void> {
+    const runs = await this.workflowRuns
+      .find({ status: { $in: ['running', 'paused'] }, 'scheduledRetries.0': { $exists: true } })
+      .toArray();
+
+    for (const run of runs) {
+      for (const retry of run.scheduledRetries || []) {
+        this.armStepRetry(run._id, retry);
+      }
+    }
+
+    if (runs.length > 0) {
+      console.log(`[WorkflowExecutionService] Restored scheduled step retries for ${runs.length} run(s)`);
+    }
+  }
+
+  /**
+   * Hand a failed step over to its onErrorStepId. The error step receives
+   * the failed step's input plus an `error` object describing the failure.
+   */
+  private async routeToErrorStep(
+    run: WorkflowRun,
+    workflow: Workflow,
+    failedStep: WorkflowStep,
+    errorStep: WorkflowStep,
+    failedTask: Task,
+    attempts: number,
+    error: string
+  ): Promise<void> {
+    console.log(`[WorkflowExecutionService] Step ${failedStep.name} failed - routing to error step ${errorStep.name} (${errorStep.id})`);
+
+    await this.divertStep(run, workflow, failedStep, errorStep, failedTask, {
+      error: {
+        message: error || `Step "${failedTask.title}" failed`,
+        stepId: failedStep.id,
+        stepName: failedStep.name,
+        taskId: failedTask._id.toString(),
+        attempts,
+      },
+    });
+  }
+
+  /**
+   * Leave a step without completing it and continue at another step (error
+   * and timeout branches). The step is removed from currentStepIds and the
+   * target step gets the step's original input merged with `extraInput`.
+   */
+  private async divertStep(
+    run: WorkflowRun,
+    workflow: Workflow,
+    fromStep: WorkflowStep,
+    targetStep: WorkflowStep,
+    fromTask: Task,
+    extraInput: Record<string, unknown>
+  ): Promise<void> {
+    // Only divert once, even if the triggering event is delivered twice
+    const claimed = await this.workflowRuns.findOneAndUpdate(
+      { _id: run._id, currentStepIds: fromStep.id },
+      { $pull: { currentStepIds: fromStep.id } }
+    );
+    if (!claimed) {
+      console.log(`[WorkflowExecutionService] Step ${fromStep.id} is no longer active - not routing to ${targetStep.id}`);
+      return;
+    }
+
+    const rootTask = run.rootTaskId ? await this.tasks.findOne({ _id: run.rootTaskId }) : null;
+    if (!rootTask) {
+      console.log(`[WorkflowExecutionService] Root task not found!`);
+      await this.handleStepFailure(run, workflow, fromTask);
+      return;
+    }
+
+    const inputPayload = (fromTask.metadata?.inputPayload as Record<string, unknown> | undefined) || {};
+    await this.executeStep(run, workflow, targetStep, rootTask, { ...inputPayload, ...extraInput });
+  }
+
   private async handleStepFailure(
     run: WorkflowRun,
     _workflow: Workflow,
@@ -2177,7 +3195,7 @@ class WorkflowExecutionService {
     if (run.rootTaskId) {
       await this.tasks.updateOne(
         { _id: run.rootTaskId },
-        { $set: { status: 'failed' as TaskStatus } }
+        { $set: { status: 'failed' as TaskStatus }, $inc: { revision: 1 } }
       );
     }
 
@@ -2194,10 +3212,14 @@ class WorkflowExecutionService {
           $set: {
             workflowResult,
             updatedAt: now,
-          }
+          },
+          $inc: { revision: 1 },
         }
       );
       console.log(`[WorkflowExecutionService] Propagated failure result to trigger task ${run.triggerTaskId}`);
+
+      // If this run was spawned by a flow step, fail that step in the parent run
+      await this.settleParentFlowTask(run, 'failed', { error: `Step "${failedTask.title}" failed` });
     }
 
     const updatedRun = await this.workflowRuns.findOne({ _id: run._id });
@@ -2220,6 +3242,17 @@ class WorkflowExecutionService {
   private async completeWorkflow(run: WorkflowRun): Promise<void> {
     const now = new Date();
 
+    // A branch may have finished while other steps are queued on a paused run
+    const latestRun = await this.workflowRuns.findOne({ _id: run._id });
+    if (latestRun?.pendingSteps && latestRun.pendingSteps.length > 0) {
+      console.log(`[WorkflowExecutionService] Run ${run._id} has queued steps - not completing yet`);
+      return;
+    }
+    if (latestRun?.scheduledRetries && latestRun.scheduledRetries.length > 0) {
+      console.log(`[WorkflowExecutionService] Run ${run._id} has step retries scheduled - not completing yet`);
+      return;
+    }
+
     // Aggregate outputs from all completed tasks
     const completedTasks = await this.tasks
       .find({ workflowRunId: run._id, status: 'completed' })
@@ -2253,6 +3286,7 @@ class WorkflowExecutionService {
             status: 'completed' as TaskStatus,
             metadata: { ...outputPayload, completedAt: now },
           },
+          $inc: { revision: 1 },
         }
       );
     }
@@ -2270,10 +3304,14 @@ class WorkflowExecutionService {
           $set: {
             workflowResult,
             updatedAt: now,
-          }
+          },
+          $inc: { revision: 1 },
         }
       );
       console.log(`[WorkflowExecutionService] Propagated success result to trigger task ${run.triggerTaskId}`);
+
+      // If this run was spawned by a flow step, complete that step in the parent run
+      await this.settleParentFlowTask(run, 'completed', { outputPayload });
     }
 
     const updatedRun = await this.workflowRuns.findOne({ _id: run._id });
@@ -2376,6 +3414,7 @@ class WorkflowExecutionService {
           $set: {
             'metadata.callbackRequests': [...existingCallbacks, callbackRequest],
           },
+          $inc: { revision: 1 },
         }
       );
       console.log(`[WorkflowExecutionService] Logged ${status} callback request to task ${taskId}${error ? `: ${error}` : ''}`);
@@ -2423,7 +3462,7 @@ class WorkflowExecutionService {
       throw new Error('Invalid callback secret');
     }
 
-    const workflow = await this.workflows.findOne({ _id: run.workflowId });
+    const workflow = await this.getRunWorkflow(run);
     if (!workflow) {
       throw new Error(`Workflow ${run.workflowId} not found`);
     }
@@ -2472,6 +3511,7 @@ class WorkflowExecutionService {
             status: 'in_progress' as TaskStatus,
             updatedAt: new Date(),
           },
+          $inc: { revision: 1 },
         }
       );
       console.log(`[WorkflowExecutionService] Task ${task._id} expectedCount set to ${currentExpectedCount}`);
@@ -2540,6 +3580,7 @@ class WorkflowExecutionService {
             status: 'in_progress' as TaskStatus,
             updatedAt: new Date(),
           },
+          $inc: { revision: 1 },
         }
       );
     } else if (items.length > 0) {
@@ -2553,6 +3594,7 @@ class WorkflowExecutionService {
             metadata: { ...task.metadata, callbackPayload: items.length === 1 ? items[0] : items },
             updatedAt: new Date(),
           },
+          $inc: { revision: 1 },
         }
       );
       console.log(`[WorkflowExecutionService] External task ${task._id} completed with callback data`);
@@ -2571,6 +3613,7 @@ class WorkflowExecutionService {
             'metadata.allItemsReceived': true,
             updatedAt: new Date(),
           },
+          $inc: { revision: 1 },
         }
       );
       console.log(`[WorkflowExecutionService] Foreach ${task._id} all items received, waiting for children to complete`);
@@ -2735,7 +3778,7 @@ class WorkflowExecutionService {
     if (foreachTaskId && !joinTask.joinConfig?.awaitTaskId) {
       await this.tasks.updateOne(
         { _id: joinTaskId },
-        { $set: { 'joinConfig.awaitTaskId': foreachTaskId } }
+        { $set: { 'joinConfig.awaitTaskId': foreachTaskId }, $inc: { revision: 1 } }
       );
     }
 
@@ -2759,7 +3802,7 @@ class WorkflowExecutionService {
     // First set the join task to 'waiting' status so checkJoinCondition can complete it
     await this.tasks.updateOne(
       { _id: joinTaskId },
-      { $set: { status: 'waiting' as TaskStatus } }
+      { $set: { status: 'waiting' as TaskStatus }, $inc: { revision: 1 } }
     );
 
     // Now run the join check which will aggregate and complete/fail the task
@@ -2873,7 +3916,7 @@ class WorkflowExecutionService {
     if (!run) return null;
 
     // Fetch workflow definition to include steps for progress display
-    const workflow = await this.workflows.findOne({ _id: run.workflowId });
+    const workflow = await this.getRunWorkflow(run);
 
     // Apply pagination limits (default 100, max 500)
     const DEFAULT_LIMIT = 100;
@@ -3031,13 +4074,16 @@ class WorkflowExecutionService {
     const now = new Date();
     const _id = new ObjectId(runId);
 
-    // Allow cancelling both running and pending workflow runs
+    // Allow cancelling running, pending and paused workflow runs
     const result = await this.workflowRuns.findOneAndUpdate(
-      { _id, status: { $in: ['running', 'pending'] } },
+      { _id, status: { $in: ['running', 'pending', 'paused'] } },
       {
         $set: {
           status: 'cancelled' as WorkflowRunStatus,
           completedAt: now,
+          pendingSteps: [],
+          // Retry timers still fire but find nothing left to claim
+          scheduledRetries: [],
         },
       },
       { returnDocument: 'after' }
@@ -3056,12 +4102,34 @@ class WorkflowExecutionService {
           updatedAt: now,
           // Clear any scheduled webhook retries so they don't run
           'webhookConfig.nextRetryAt': null,
-        }
+        },
+        $inc: { revision: 1 },
       }
     );
 
     console.log(`[WorkflowExecutionService] Cancelled workflow run ${runId}: ${cancelResult.modifiedCount} tasks marked as cancelled`);
 
+    // Cascade to child runs started by flow steps in this run
+    const flowTasks = await this.tasks
+      .find({ workflowRunId: _id, spawnedWorkflowRunId: { $ne: null } })
+      .toArray();
+    for (const flowTask of flowTasks) {
+      const childRun = await this.workflowRuns.findOne({
+        _id: flowTask.spawnedWorkflowRunId!,
+        status: { $in: ['running', 'pending', 'paused'] },
+      });
+      if (childRun) {
+        try {
+          await this.cancelWorkflowRun(childRun._id.toString(), actorId);
+        } catch (error) {
+          console.error(`[WorkflowExecutionService] Failed to cancel child run ${childRun._id}:`, error);
+        }
+      }
+    }
+
+    // If this run was spawned by a flow step, the parent step can no longer complete
+    await this.settleParentFlowTask(result, 'failed', { error: 'Child workflow was cancelled' });
+
     await this.publish({
       id: this.generateEventId(),
       type: 'workflow.run.cancelled',
@@ -3075,6 +4143,64 @@ class WorkflowExecutionService {
     return result;
   }
 
+  /**
+   * Resume a paused run and execute the steps queued while it was paused.
+   */
+  async resumeWorkflowRun(runId: string, actorId?: ObjectId): Promise<WorkflowRun> {
+    const now = new Date();
+    const _id = new ObjectId(runId);
+
+    const pausedRun = await this.workflowRuns.findOneAndUpdate(
+      { _id, status: 'paused' },
+      {
+        $set: {
+          status: 'running' as WorkflowRunStatus,
+          pausedAt: null,
+          pendingSteps: [],
+        },
+      },
+      { returnDocument: 'before' }
+    );
+
+    if (!pausedRun) {
+      throw new Error(`Workflow run ${runId} not found or not paused`);
+    }
+
+    const workflow = await this.getRunWorkflow(pausedRun);
+    if (!workflow) {
+      throw new Error(`Workflow ${pausedRun.workflowId} not found`);
+    }
+
+    const run: WorkflowRun = { ...pausedRun, status: 'running', pausedAt: null, pendingSteps: [] };
+
+    await this.publish({
+      id: this.generateEventId(),
+      type: 'workflow.run.resumed',
+      workflowRunId: _id,
+      workflowRun: run,
+      actorId,
+      actorType: 'user',
+      timestamp: now,
+    });
+
+    console.log(`[WorkflowExecutionService] Resuming run ${runId} with ${pausedRun.pendingSteps?.length || 0} queued step(s)`);
+
+    for (const pendingStep of pausedRun.pendingSteps || []) {
+      const step = workflow.steps.find(s => s.id === pendingStep.stepId);
+      const parentTask = await this.tasks.findOne({ _id: pendingStep.parentTaskId });
+      if (!step || !parentTask) {
+        console.warn(`[WorkflowExecutionService] Cannot resume queued step ${pendingStep.stepId} - step or parent task not found`);
+        continue;
+      }
+      await this.executeStep(run, workflow, step, parentTask, pendingStep.inputPayload, {
+        bypassPauseAt: true,
+        taskMetadata: pendingStep.taskMetadata,
+      });
+    }
+
+    return (await this.workflowRuns.findOne({ _id })) || run;
+  }
+
   // ============================================================================
   // Manual Step Execution (for stuck workflows)
   // ============================================================================
@@ -3103,7 +4229,7 @@ class WorkflowExecutionService {
     }
 
     // Get the workflow
-    const workflow = await this.workflows.findOne({ _id: run.workflowId });
+    const workflow = await this.getRunWorkflow(run);
     if (!workflow) {
       return { success: false, error: 'Workflow not found' };
     }
@@ -3168,7 +4294,10 @@ class WorkflowExecutionService {
 
     try {
       // Execute the step
-      const task = await this.executeStep(run, workflow, step, rootTask, finalInputPayload);
+      const task = await this.executeStep(run, workflow, step, rootTask, finalInputPayload, { bypassPauseAt: true });
+      if (!task) {
+        return { success: false, error: `Step ${stepId} was skipped or queued on a paused run` };
+      }
       console.log(`[WorkflowExecutionService] Successfully created task ${task._id} for step ${stepId}`);
       return { success: true, taskId: task._id.toString() };
     } catch (error) {
@@ -3176,6 +4305,23 @@ class WorkflowExecutionService {
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
+
+  // ============================================================================
+  // Cleanup
+  // ============================================================================
+
+  async shutdown(): Promise<void> {
+    if (this.timeoutCheckInterval) {
+      clearInterval(this.timeoutCheckInterval);
+      this.timeoutCheckInterval = null;
+    }
+    // Scheduled retries are stored on their runs and re-armed on the next start
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+    console.log('[WorkflowExecutionService] Shutdown complete');
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,296 @@
+import { ObjectId } from 'mongodb';
+import { getDb } from '../db/connection.js';
+import {
+  Workflow,
+  WorkflowRevision,
+  WorkflowRevisionDiff,
+  WorkflowStep,
+  WorkflowStepDiff,
+  FieldChange,
+} from '../types/index.js';
+
+// Top-level fields compared by diffRevisions() - steps are diffed one by one
+const DIFF_FIELDS = ['name', 'description', 'isActive', 'mermaidDiagram', 'rootTaskTitleTemplate'] as const;
+
+// Fields restored by a rollback. isActive is left as-is since activation
+// is an operational switch rather than part of the definition.
+const ROLLBACK_FIELDS = ['name', 'description', 'steps', 'mermaidDiagram', 'rootTaskTitleTemplate'] as const;
+
+interface RevisionOptions {
+  changeNote?: string;
+  restoredFromVersion?: number;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Workflow Revision Service
+ *
+ * Every save of a workflow increments `workflow.version` and stores an
+ * immutable snapshot in `workflow_revisions`. Runs record the version they
+ * started with and resolve their steps through getWorkflowAtVersion(), so
+ * editing a workflow never changes a run that is already in flight.
+ */
+class WorkflowRevisionService {
+  private get revisions() {
+    return getDb().collection<WorkflowRevision>('workflow_revisions');
+  }
+
+  private get workflows() {
+    return getDb().collection<Workflow>('workflows');
+  }
+
+  /**
+   * Insert a new workflow as version 1.
+   */
+  async createWorkflow(
+    definition: Omit<Workflow, '_id' | 'version'>,
+    actorId?: ObjectId | null
+  ): Promise<Workflow> {
+    const doc = { ...definition, version: 1 };
+    const result = await this.workflows.insertOne(doc as Workflow);
+    const workflow = { ...doc, _id: result.insertedId } as Workflow;
+
+    await this.recordRevision(workflow, actorId ?? definition.createdById);
+    return workflow;
+  }
+
+  /**
+   * Apply updates to a workflow and store the result as a new revision.
+   * Returns null if the workflow does not exist.
+   */
+  async updateWorkflow(
+    workflowId: ObjectId,
+    updates: Partial<Workflow>,
+    actorId?: ObjectId | null,
+    options: RevisionOptions = {}
+  ): Promise<Workflow | null> {
+    const existing = await this.workflows.findOne({ _id: workflowId });
+    if (!existing) return null;
+
+    await this.ensureVersioned(existing);
+
+    // The version is owned by this service - never taken from the caller
+    const fields: Partial<Workflow> = { ...updates };
+    delete fields._id;
+    delete fields.version;
+    delete fields.createdAt;
+
+    const updated = await this.workflows.findOneAndUpdate(
+      { _id: workflowId },
+      {
+        $set: { ...fields, updatedAt: new Date() },
+        $inc: { version: 1 },
+      },
+      { returnDocument: 'after' }
+    );
+
+    if (!updated) return null;
+
+    await this.recordRevision(updated, actorId, options);
+    return updated;
+  }
+
+  /**
+   * Restore the definition stored in a revision. The rollback is itself
+   * saved as a new revision, so history is never rewritten.
+   */
+  async rollback(
+    revision: WorkflowRevision,
+    actorId?: ObjectId | null
+  ): Promise<Workflow | null> {
+    const restored: Partial<Workflow> = {};
+    for (const field of ROLLBACK_FIELDS) {
+      // Missing optional fields are cleared rather than left at their current value
+      (restored as Record<string, unknown>)[field] = revision[field] ?? '';
+    }
+
+    return this.updateWorkflow(revision.workflowId, restored, actorId, {
+      changeNote: `Rolled back to version ${revision.version}`,
+      restoredFromVersion: revision.version,
+    });
+  }
+
+  /**
+   * Make sure a workflow has a version and a matching revision. Workflows
+   * saved before revisions existed get their current definition recorded
+   * as version 1. Returns the workflow's current version.
+   */
+  async ensureVersioned(workflow: Workflow): Promise<number> {
+    if (typeof workflow.version === 'number') {
+      return workflow.version;
+    }
+
+    const result = await this.workflows.updateOne(
+      { _id: workflow._id, version: { $exists: false } },
+      { $set: { version: 1 } }
+    );
+
+    if (result.modifiedCount > 0) {
+      await this.recordRevision({ ...workflow, version: 1 }, workflow.createdById);
+      return 1;
+    }
+
+    // Another request versioned it first
+    const current = await this.workflows.findOne({ _id: workflow._id }, { projection: { version: 1 } });
+    return current?.version ?? 1;
+  }
+
+  /**
+   * Load a workflow as it was at a given version. Falls back to the live
+   * definition when no version is given or no revision was recorded
+   * (runs started before versioning).
+   */
+  async getWorkflowAtVersion(workflowId: ObjectId, version?: number): Promise<Workflow | null> {
+    const workflow = await this.workflows.findOne({ _id: workflowId });
+    if (version === undefined || version === null || workflow?.version === version) {
+      return workflow;
+    }
+
+    const revision = await this.getRevision(workflowId, version);
+    if (!revision) {
+      return workflow;
+    }
+
+    return {
+      _id: workflowId,
+      name: revision.name,
+      description: revision.description,
+      isActive: revision.isActive,
+      steps: revision.steps,
+      mermaidDiagram: revision.mermaidDiagram,
+      rootTaskTitleTemplate: revision.rootTaskTitleTemplate,
+      version: revision.version,
+      createdAt: workflow?.createdAt ?? revision.createdAt,
+      updatedAt: revision.createdAt,
+      createdById: workflow?.createdById ?? null,
+    };
+  }
+
+  async getRevision(workflowId: ObjectId, version: number): Promise<WorkflowRevision | null> {
+    return this.revisions.findOne({ workflowId, version });
+  }
+
+  /**
+   * List revisions newest first. Steps are left out to keep the payload
+   * small - use getRevision() for the full snapshot.
+   */
+  async listRevisions(
+    workflowId: ObjectId,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ data: Array<Omit<WorkflowRevision, 'steps'> & { stepCount: number }>; total: number }> {
+    const limit = Math.min(options.limit ?? 50, 200);
+    const offset = options.offset ?? 0;
+
+    const [data, total] = await Promise.all([
+      this.revisions
+        .aggregate<Omit<WorkflowRevision, 'steps'> & { stepCount: number }>([
+          { $match: { workflowId } },
+          { $sort: { version: -1 } },
+          { $skip: offset },
+          { $limit: limit },
+          { $addFields: { stepCount: { $size: { $ifNull: ['$steps', []] } } } },
+          { $project: { steps: 0, mermaidDiagram: 0 } },
+        ])
+        .toArray(),
+      this.revisions.countDocuments({ workflowId }),
+    ]);
+
+    return { data, total };
+  }
+
+  async deleteRevisions(workflowId: ObjectId): Promise<number> {
+    const result = await this.revisions.deleteMany({ workflowId });
+    return result.deletedCount;
+  }
+
+  /**
+   * Compare two revisions field by field and step by step (matched on step id).
+   */
+  diffRevisions(from: WorkflowRevision, to: WorkflowRevision): WorkflowRevisionDiff {
+    const changes: FieldChange[] = [];
+    for (const field of DIFF_FIELDS) {
+      if (!valuesEqual(from[field], to[field])) {
+        changes.push({ field, oldValue: from[field] ?? null, newValue: to[field] ?? null });
+      }
+    }
+
+    const fromSteps = new Map(from.steps.map(step => [step.id, step]));
+    const toSteps = new Map(to.steps.map(step => [step.id, step]));
+
+    const added = to.steps.filter(step => !fromSteps.has(step.id));
+    const removed = from.steps.filter(step => !toSteps.has(step.id));
+    const changed: WorkflowStepDiff[] = [];
+
+    for (const step of to.steps) {
+      const previous = fromSteps.get(step.id);
+      if (!previous) continue;
+
+      const stepChanges = this.diffSteps(previous, step);
+      if (stepChanges.length > 0) {
+        changed.push({ stepId: step.id, name: step.name, changes: stepChanges });
+      }
+    }
+
+    // Reordering changes the implicit linear flow, so report it as well
+    const fromOrder = from.steps.map(step => step.id).filter(id => toSteps.has(id));
+    const toOrder = to.steps.map(step => step.id).filter(id => fromSteps.has(id));
+    if (!valuesEqual(fromOrder, toOrder)) {
+      changes.push({ field: 'stepOrder', oldValue: fromOrder, newValue: toOrder });
+    }
+
+    return {
+      workflowId: to.workflowId.toString(),
+      fromVersion: from.version,
+      toVersion: to.version,
+      changes,
+      steps: { added, removed, changed },
+    };
+  }
+
+  private diffSteps(from: WorkflowStep, to: WorkflowStep): FieldChange[] {
+    const changes: FieldChange[] = [];
+    const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+    for (const field of fields) {
+      const oldValue = (from as unknown as Record<string, unknown>)[field];
+      const newValue = (to as unknown as Record<string, unknown>)[field];
+      if (!valuesEqual(oldValue, newValue)) {
+        changes.push({ field, oldValue: oldValue ?? null, newValue: newValue ?? null });
+      }
+    }
+
+    return changes;
+  }
+
+  private async recordRevision(
+    workflow: Workflow,
+    actorId?: ObjectId | null,
+    options: RevisionOptions = {}
+  ): Promise<WorkflowRevision> {
+    const revision: Omit<WorkflowRevision, '_id'> = {
+      workflowId: workflow._id,
+      version: workflow.version ?? 1,
+      name: workflow.name,
+      description: workflow.description || '',
+      isActive: workflow.isActive,
+      steps: workflow.steps || [],
+      ...(workflow.mermaidDiagram !== undefined && { mermaidDiagram: workflow.mermaidDiagram }),
+      ...(workflow.rootTaskTitleTemplate && { rootTaskTitleTemplate: workflow.rootTaskTitleTemplate }),
+      ...(options.changeNote && { changeNote: options.changeNote }),
+      ...(options.restoredFromVersion !== undefined && { restoredFromVersion: options.restoredFromVersion }),
+      createdAt: new Date(),
+      createdById: actorId ?? null,
+    };
+
+    const result = await this.revisions.insertOne(revision as WorkflowRevision);
+    return { ...revision, _id: result.insertedId } as WorkflowRevision;
+  }
+}
+
+// Singleton instance
+export const workflowRevisionService = new WorkflowRevisionService();
+
+export default workflowRevisionService;
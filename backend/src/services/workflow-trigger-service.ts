@@ -0,0 +1,260 @@
+import { ObjectId } from 'mongodb';
+import crypto from 'crypto';
+import { getDb } from '../db/connection.js';
+import { createError } from '../middleware/error-handler.js';
+import {
+  Schedule,
+  TaskEvent,
+  Workflow,
+  WorkflowRun,
+  WorkflowStep,
+  WorkflowTriggerConfig,
+  WorkflowTriggerType,
+} from '../types/index.js';
+import { eventBus } from './event-bus.js';
+import { evaluateCondition } from './condition-evaluator.js';
+import { nextCronRun } from './cron-expression.js';
+import { scheduleService } from './schedule-service.js';
+import { workflowExecutionService } from './workflow-execution-service.js';
+
+export const WORKFLOW_TRIGGER_TYPES: WorkflowTriggerType[] = ['manual', 'cron', 'event', 'webhook'];
+
+function isTriggerStep(step: WorkflowStep, type: WorkflowTriggerType): boolean {
+  return step.stepType === 'trigger' && step.triggerConfig?.type === type;
+}
+
+/**
+ * WorkflowTriggerService starts workflows from the `triggerConfig` of their
+ * trigger steps:
+ *
+ * - cron: each trigger step owns a schedule (see ScheduleService) that is
+ *   kept in sync with the workflow by syncWorkflow()
+ * - event: task events matching the step's event types, tags and condition
+ *   start a run with the task as its trigger task
+ * - webhook: a POST to /api/workflow-triggers/:token starts a run with the
+ *   request body as input
+ *
+ * Runs record how they started in `source` ('cron', 'event' or 'webhook').
+ */
+class WorkflowTriggerService {
+  private initialized = false;
+
+  private get workflows() {
+    return getDb().collection<Workflow>('workflows');
+  }
+
+  private get schedules() {
+    return getDb().collection<Schedule>('schedules');
+  }
+
+  initialize(): void {
+    if (this.initialized) return;
+
+    // Local events only - each event starts its runs once, in the process that published it
+    eventBus.subscribe('*', async (event: TaskEvent) => {
+      try {
+        await this.handleTaskEvent(event);
+      } catch (error) {
+        console.error(`[WorkflowTriggerService] Failed to handle ${event.type} for task ${event.taskId}:`, error);
+      }
+    });
+
+    this.initialized = true;
+    console.log('[WorkflowTriggerService] Initialized and listening');
+  }
+
+  /**
+   * Give webhook triggers that don't have one yet a secret token, reusing the
+   * token the same step had in `previousSteps` so re-imports keep their URL.
+   */
+  assignWebhookTokens(steps: WorkflowStep[], previousSteps: WorkflowStep[] = []): WorkflowStep[] {
+    return steps.map((step) => {
+      if (!isTriggerStep(step, 'webhook') || step.triggerConfig!.webhookToken) return step;
+      const previous = previousSteps.find((s) => s.id === step.id && isTriggerStep(s, 'webhook'));
+      return {
+        ...step,
+        triggerConfig: {
+          ...step.triggerConfig!,
+          webhookToken: previous?.triggerConfig!.webhookToken || `wft_${crypto.randomBytes(24).toString('hex')}`,
+        },
+      };
+    });
+  }
+
+  /**
+   * Create, update or remove the schedules behind a workflow's cron triggers
+   * after it is saved or deleted.
+   */
+  async syncWorkflow(workflowId: ObjectId): Promise<void> {
+    const workflow = await this.workflows.findOne({ _id: workflowId });
+    const cronSteps = workflow ? workflow.steps.filter((step) => isTriggerStep(step, 'cron')) : [];
+    const stepIds = new Set(cronSteps.map((step) => step.id));
+
+    const managed = await this.schedules.find({ 'workflowTrigger.workflowId': workflowId }).toArray();
+    for (const schedule of managed) {
+      if (!stepIds.has(schedule.workflowTrigger!.stepId)) {
+        await scheduleService.deleteSchedule(schedule._id);
+      }
+    }
+
+    const now = new Date();
+    for (const step of cronSteps) {
+      const config = step.triggerConfig!;
+      const existing = managed.find((s) => s.workflowTrigger!.stepId === step.id);
+      const isActive = workflow!.isActive;
+      const timezone = config.timezone || 'UTC';
+
+      const fields = {
+        name: `${workflow!.name} - ${step.name}`,
+        cronExpression: config.cronExpression!,
+        timezone,
+        isActive,
+        targetType: 'workflow' as const,
+        taskTemplate: null,
+        workflow: { workflowId, inputPayload: config.inputPayload ?? {} },
+        catchUpPolicy: config.catchUpPolicy ?? 'skip',
+        updatedAt: now,
+      };
+
+      // Keep a run that is already due so the checker still starts (or
+      // catches up) it; otherwise plan the next run afresh, which also
+      // replaces one computed before a cron or timezone change
+      const keepDueRun = existing?.isActive && existing.nextRunAt && existing.nextRunAt <= now &&
+        existing.cronExpression === fields.cronExpression &&
+        existing.timezone === timezone;
+      const nextRunAt = !isActive
+        ? null
+        : keepDueRun
+          ? existing!.nextRunAt
+          : nextCronRun(fields.cronExpression, now, timezone);
+
+      if (existing) {
+        await this.schedules.updateOne({ _id: existing._id }, { $set: { ...fields, nextRunAt } });
+      } else {
+        await this.schedules.insertOne({
+          ...fields,
+          workflowTrigger: { workflowId, stepId: step.id },
+          nextRunAt,
+          lastRunAt: null,
+          lastRunStatus: null,
+          lastError: null,
+          createdById: workflow!.createdById ?? null,
+          createdAt: now,
+        } as Schedule);
+      }
+    }
+  }
+
+  /**
+   * Start the workflows whose event triggers match a task event.
+   */
+  async handleTaskEvent(event: TaskEvent): Promise<void> {
+    if (!event.task) return;
+
+    const workflows = await this.workflows
+      .find({
+        isActive: true,
+        steps: {
+          $elemMatch: { stepType: 'trigger', 'triggerConfig.type': 'event', 'triggerConfig.eventTypes': event.type },
+        },
+      })
+      .toArray();
+
+    for (const workflow of workflows) {
+      // Tasks of the workflow's own runs never trigger it again
+      if (event.task.workflowId && workflow._id.equals(event.task.workflowId)) continue;
+
+      const step = workflow.steps.find((s) =>
+        isTriggerStep(s, 'event') &&
+        s.triggerConfig!.eventTypes?.includes(event.type) &&
+        this.matchesEvent(s.triggerConfig!, event)
+      );
+      if (!step) continue;
+
+      try {
+        const { run } = await workflowExecutionService.startWorkflow(
+          {
+            workflowId: workflow._id.toString(),
+            inputPayload: {
+              ...step.triggerConfig!.inputPayload,
+              ...(event.task.metadata || {}),
+              task: {
+                _id: event.task._id.toString(),
+                title: event.task.title,
+                summary: event.task.summary,
+                status: event.task.status,
+                urgency: event.task.urgency,
+                tags: event.task.tags,
+              },
+              eventType: event.type,
+            },
+            source: 'event',
+            triggerTaskId: event.taskId.toString(),
+            triggerContext: {
+              triggerStepId: step.id,
+              eventId: event.id,
+              eventType: event.type,
+              taskTitle: event.task.title,
+            },
+          },
+          event.actorId ?? null
+        );
+        console.log(`[WorkflowTriggerService] ${event.type} on task ${event.taskId} started run ${run._id} of "${workflow.name}"`);
+      } catch (error) {
+        console.error(`[WorkflowTriggerService] Failed to start "${workflow.name}" from ${event.type}:`, error);
+      }
+    }
+  }
+
+  private matchesEvent(config: WorkflowTriggerConfig, event: TaskEvent): boolean {
+    if (config.tags?.length) {
+      const taskTags = event.task.tags || [];
+      if (!config.tags.some((tag) => taskTags.includes(tag))) return false;
+    }
+    if (config.condition) {
+      // Plain JSON so ids and dates compare as strings
+      return evaluateCondition(config.condition, JSON.parse(JSON.stringify({
+        task: event.task,
+        changes: event.changes ?? [],
+        eventType: event.type,
+      })));
+    }
+    return true;
+  }
+
+  /**
+   * Start the workflow behind a webhook trigger token.
+   */
+  async fireWebhook(token: string, body: unknown): Promise<WorkflowRun> {
+    const workflow = await this.workflows.findOne({
+      steps: {
+        $elemMatch: { stepType: 'trigger', 'triggerConfig.type': 'webhook', 'triggerConfig.webhookToken': token },
+      },
+    });
+    const step = workflow?.steps.find((s) => isTriggerStep(s, 'webhook') && s.triggerConfig!.webhookToken === token);
+    if (!workflow || !step) {
+      throw createError('Trigger not found', 404);
+    }
+    if (!workflow.isActive) {
+      throw createError(`Workflow ${workflow.name} is not active`, 409);
+    }
+
+    const payload = body && typeof body === 'object' && !Array.isArray(body)
+      ? body as Record<string, unknown>
+      : { body };
+
+    const { run } = await workflowExecutionService.startWorkflow(
+      {
+        workflowId: workflow._id.toString(),
+        inputPayload: { ...step.triggerConfig!.inputPayload, ...payload },
+        source: 'webhook',
+        triggerContext: { triggerStepId: step.id },
+      },
+      null
+    );
+    return run;
+  }
+}
+
+// Singleton instance
+export const workflowTriggerService = new WorkflowTriggerService();
@@ -94,6 +94,37 @@ All responses follow this structure:
             code: { type: 'string', example: 'ERROR_CODE' },
           },
         },
+        ValidationError: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: false },
+            error: {
+              type: 'object',
+              properties: {
+                message: { type: 'string', example: 'Validation failed: Title must be at most 500 characters' },
+                details: {
+                  type: 'object',
+                  properties: {
+                    errors: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          field: { type: 'string', example: 'title' },
+                          rule: {
+                            type: 'string',
+                            enum: ['required', 'editable', 'type', 'minLength', 'maxLength', 'min', 'max', 'pattern', 'options'],
+                          },
+                          message: { type: 'string' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
 
         // Task schemas
         TaskStatus: {
@@ -124,12 +155,17 @@ All responses follow this structure:
             createdById: { $ref: '#/components/schemas/ObjectId', nullable: true },
             tags: { type: 'array', items: { type: 'string' } },
             dueAt: { type: 'string', format: 'date-time', nullable: true },
+            timeoutAt: { type: 'string', format: 'date-time', nullable: true, description: 'Workflow step timeout deadline (cleared once handled)' },
             metadata: { type: 'object', additionalProperties: true },
             foreachConfig: { type: 'object', description: 'Configuration for foreach tasks' },
             joinConfig: { type: 'object', description: 'Configuration for join tasks (includes awaitStepId, boundary)' },
             webhookConfig: { type: 'object', description: 'Configuration for webhook tasks' },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
+            revision: { type: 'integer', description: 'Incremented on every write; send it back as If-Match to detect concurrent edits' },
+            blockedBy: { type: 'array', items: { type: 'string' }, description: 'Tasks that must complete before this one can start' },
+            isBlocked: { type: 'boolean', description: 'True while any task in blockedBy is not completed, cancelled or archived' },
+            statusBeforeBlocked: { type: 'string', description: 'Status a task moved to waiting by its dependencies returns to when unblocked' },
           },
         },
         TaskCreate: {
@@ -168,6 +204,39 @@ All responses follow this structure:
             silent: { type: 'boolean' },
             actorId: { type: 'string' },
             actorType: { type: 'string', enum: ['user', 'system', 'daemon'] },
+            expectedRevision: { type: 'integer', description: 'Alternative to the If-Match header' },
+          },
+        },
+        TaskConflict: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: false },
+            error: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+                details: {
+                  type: 'object',
+                  properties: {
+                    expectedRevision: { type: 'integer' },
+                    currentRevision: { type: 'integer' },
+                    current: { $ref: '#/components/schemas/Task' },
+                    diff: {
+                      type: 'array',
+                      description: 'Requested fields whose value differs from the current task',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          field: { type: 'string' },
+                          currentValue: {},
+                          requestedValue: {},
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
           },
         },
 
@@ -198,6 +267,33 @@ All responses follow this structure:
             awaitStepId: { type: 'string', description: 'For join: Step ID to await' },
             joinBoundary: { type: 'object', description: 'For join: boundary conditions' },
             expectedCountPath: { type: 'string', description: 'For join: JSONPath to expected count' },
+            triggerConfig: { $ref: '#/components/schemas/WorkflowTriggerConfig' },
+            retryPolicy: {
+              type: 'object',
+              description: 'Re-create the step task automatically when it fails',
+              properties: {
+                maxAttempts: { type: 'integer', minimum: 1, maximum: 20, description: 'Total attempts including the first' },
+                backoff: { type: 'string', enum: ['fixed', 'exponential'], default: 'exponential' },
+                delayMs: { type: 'integer', default: 1000, description: 'Delay before the first retry' },
+                maxDelayMs: { type: 'integer', default: 300000, description: 'Upper bound on the delay' },
+                retryOn: { type: 'array', items: { type: 'string' }, description: 'Only retry errors containing one of these (case-insensitive)' },
+              },
+              required: ['maxAttempts'],
+            },
+            onErrorStepId: { type: 'string', description: 'Step to route to once retries are exhausted, instead of failing the run' },
+            timeoutMs: { type: 'integer', description: 'Agent/manual steps: time the task may stay open before onTimeout fires' },
+            dueOffsetHours: { type: 'number', description: "Agent/manual steps: sets the task's dueAt, and the timeout when timeoutMs is not set" },
+            onTimeout: {
+              type: 'object',
+              description: 'What happens when the step times out (default: fail the task)',
+              properties: {
+                action: { type: 'string', enum: ['fail', 'reassign', 'escalate', 'route'] },
+                escalationAssigneeId: { type: 'string', description: 'reassign: user to hand the task to' },
+                urgency: { $ref: '#/components/schemas/Urgency' },
+                targetStepId: { type: 'string', description: 'route: step to continue at' },
+              },
+              required: ['action'],
+            },
             config: { type: 'object' },
           },
         },
@@ -210,22 +306,58 @@ All responses follow this structure:
             isActive: { type: 'boolean' },
             steps: { type: 'array', items: { $ref: '#/components/schemas/WorkflowStep' } },
             mermaidDiagram: { type: 'string' },
+            version: { type: 'integer', description: 'Current revision - incremented on every save' },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
             createdById: { $ref: '#/components/schemas/ObjectId', nullable: true },
           },
         },
+        WorkflowRevision: {
+          type: 'object',
+          description: 'Immutable snapshot of a workflow definition',
+          properties: {
+            _id: { $ref: '#/components/schemas/ObjectId' },
+            workflowId: { $ref: '#/components/schemas/ObjectId' },
+            version: { type: 'integer' },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            isActive: { type: 'boolean' },
+            steps: { type: 'array', items: { $ref: '#/components/schemas/WorkflowStep' } },
+            mermaidDiagram: { type: 'string' },
+            changeNote: { type: 'string' },
+            restoredFromVersion: { type: 'integer', description: 'Set when created by a rollback' },
+            createdAt: { type: 'string', format: 'date-time' },
+            createdById: { $ref: '#/components/schemas/ObjectId', nullable: true },
+          },
+        },
 
         // Workflow Run schemas
         WorkflowRunStatus: {
           type: 'string',
           enum: ['pending', 'running', 'paused', 'completed', 'failed', 'cancelled'],
         },
+        WorkflowTriggerConfig: {
+          type: 'object',
+          description: 'Trigger steps: how the workflow is started',
+          properties: {
+            type: { type: 'string', enum: ['manual', 'cron', 'event', 'webhook'] },
+            cronExpression: { type: 'string', description: 'cron: five-field cron expression' },
+            timezone: { type: 'string', default: 'UTC', description: 'cron: IANA timezone' },
+            catchUpPolicy: { type: 'string', enum: ['skip', 'run_once', 'run_all'], default: 'skip', description: 'cron: runs missed while the backend was down' },
+            eventTypes: { type: 'array', items: { type: 'string' }, description: 'event: task event types that start the workflow' },
+            tags: { type: 'array', items: { type: 'string' }, description: 'event: only tasks with one of these tags' },
+            condition: { type: 'string', description: 'event: condition evaluated against { task, changes, eventType }' },
+            webhookToken: { type: 'string', readOnly: true, description: 'webhook: secret token in the trigger URL, generated on save' },
+            inputPayload: { type: 'object', description: 'Fixed input merged under the trigger input' },
+          },
+          required: ['type'],
+        },
         WorkflowRun: {
           type: 'object',
           properties: {
             _id: { $ref: '#/components/schemas/ObjectId' },
             workflowId: { $ref: '#/components/schemas/ObjectId' },
+            workflowVersion: { type: 'integer', description: 'Workflow revision the run is pinned to' },
             status: { $ref: '#/components/schemas/WorkflowRunStatus' },
             rootTaskId: { $ref: '#/components/schemas/ObjectId', nullable: true },
             currentStepIds: { type: 'array', items: { type: 'string' } },
@@ -234,6 +366,7 @@ All responses follow this structure:
             outputPayload: { type: 'object' },
             error: { type: 'string' },
             callbackSecret: { type: 'string' },
+            source: { type: 'string', description: 'How the run started: manual, task, flow, schedule, cron, event, webhook or inbound' },
             createdAt: { type: 'string', format: 'date-time' },
             startedAt: { type: 'string', format: 'date-time', nullable: true },
             completedAt: { type: 'string', format: 'date-time', nullable: true },
@@ -317,12 +450,190 @@ All responses follow this structure:
             _id: { $ref: '#/components/schemas/ObjectId' },
             name: { type: 'string' },
             url: { type: 'string', format: 'uri' },
+            secret: { type: 'string', readOnly: true, description: 'HMAC-SHA256 signing key (masked in lists)' },
+            previousSecret: { type: 'string', nullable: true, readOnly: true, description: 'Rotated-out secret that still signs deliveries' },
+            previousSecretExpiresAt: { type: 'string', format: 'date-time', nullable: true, readOnly: true },
+            method: { type: 'string', enum: ['POST', 'PUT', 'PATCH'], default: 'POST' },
+            headers: {
+              type: 'object',
+              nullable: true,
+              additionalProperties: { type: 'string' },
+              description: 'Extra request headers; values may use {{...}} templates. Content-Type defaults to application/json',
+            },
+            bodyTemplate: {
+              type: 'string',
+              nullable: true,
+              example: '{"text": "{{task.title}} is now {{task.status}}"}',
+              description: 'Template over { event, task, changes }; without one that object is sent as JSON',
+            },
             triggers: { type: 'array', items: { $ref: '#/components/schemas/WebhookTrigger' } },
             savedSearchId: { $ref: '#/components/schemas/ObjectId', nullable: true },
             isActive: { type: 'boolean' },
+            failureThreshold: { type: 'integer', minimum: 1, maximum: 100, default: 10, description: 'Consecutive failed attempts that open the circuit' },
+            consecutiveFailures: { type: 'integer', readOnly: true },
+            circuitState: {
+              type: 'string',
+              enum: ['closed', 'open', 'half_open'],
+              readOnly: true,
+              description: 'open: new deliveries are dead-lettered unsent; half_open: a probe is in flight',
+            },
+            circuitOpenedAt: { type: 'string', format: 'date-time', nullable: true, readOnly: true },
+            nextProbeAt: { type: 'string', format: 'date-time', nullable: true, readOnly: true },
+            lastError: { type: 'string', nullable: true, readOnly: true },
+            alertTaskId: { $ref: '#/components/schemas/ObjectId', nullable: true, readOnly: true },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+
+        // Schedule schemas
+        Schedule: {
+          type: 'object',
+          properties: {
+            _id: { $ref: '#/components/schemas/ObjectId' },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            cronExpression: { type: 'string', example: '0 9 * * mon-fri' },
+            timezone: { type: 'string', example: 'Europe/London' },
+            isActive: { type: 'boolean' },
+            targetType: { type: 'string', enum: ['task', 'workflow'] },
+            taskTemplate: {
+              type: 'object',
+              nullable: true,
+              description: 'Task to create each run ({{date}} in the title is replaced with the run date)',
+              properties: {
+                title: { type: 'string' },
+                summary: { type: 'string' },
+                assigneeId: { $ref: '#/components/schemas/ObjectId', nullable: true },
+                tags: { type: 'array', items: { type: 'string' } },
+                urgency: { $ref: '#/components/schemas/Urgency' },
+                dueOffsetHours: { type: 'number', description: 'Due date relative to the scheduled time' },
+                parentId: { $ref: '#/components/schemas/ObjectId', nullable: true },
+                metadata: { type: 'object' },
+              },
+            },
+            workflow: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                workflowId: { $ref: '#/components/schemas/ObjectId' },
+                inputPayload: { type: 'object' },
+                taskDefaults: { type: 'object' },
+              },
+            },
+            catchUpPolicy: {
+              type: 'string',
+              enum: ['skip', 'run_once', 'run_all'],
+              description: 'What to do with runs missed while the scheduler was down',
+            },
+            nextRunAt: { type: 'string', format: 'date-time', nullable: true },
+            lastRunAt: { type: 'string', format: 'date-time', nullable: true },
+            lastRunStatus: { type: 'string', nullable: true },
+            lastError: { type: 'string', nullable: true },
+          },
+        },
+        ScheduleRun: {
+          type: 'object',
+          properties: {
+            _id: { $ref: '#/components/schemas/ObjectId' },
+            scheduleId: { $ref: '#/components/schemas/ObjectId' },
+            scheduledFor: { type: 'string', format: 'date-time' },
+            trigger: { type: 'string', enum: ['schedule', 'catch_up', 'manual'] },
+            status: { type: 'string', enum: ['running', 'succeeded', 'failed', 'skipped'] },
+            taskId: { $ref: '#/components/schemas/ObjectId', nullable: true },
+            workflowRunId: { $ref: '#/components/schemas/ObjectId', nullable: true },
+            skippedCount: { type: 'integer', description: 'Missed runs covered by a skipped record' },
+            error: { type: 'string', nullable: true },
+            startedAt: { type: 'string', format: 'date-time' },
+            completedAt: { type: 'string', format: 'date-time', nullable: true },
+          },
+        },
+
+        // Inbound endpoint schemas
+        InboundEndpoint: {
+          type: 'object',
+          properties: {
+            _id: { $ref: '#/components/schemas/ObjectId' },
+            name: { type: 'string' },
+            slug: { type: 'string', example: 'github-issues', description: 'Requests are POSTed to /api/inbound/{slug}' },
+            description: { type: 'string' },
+            secret: { type: 'string', readOnly: true, description: 'HMAC-SHA256 signing key (masked in lists)' },
+            signatureHeader: { type: 'string', default: 'X-Signature' },
+            isActive: { type: 'boolean' },
+            targetType: { type: 'string', enum: ['task', 'workflow'] },
+            taskMapping: {
+              type: 'object',
+              nullable: true,
+              description: 'Task fields as {{body.x}}, {{headers.x}}, {{query.x}} or {{receivedAt}} templates',
+              properties: {
+                title: { type: 'string', example: '{{body.issue.title}}' },
+                summary: { type: 'string' },
+                extraPrompt: { type: 'string' },
+                status: { type: 'string' },
+                urgency: { type: 'string' },
+                assigneeId: { type: 'string' },
+                parentId: { type: 'string' },
+                tags: { type: 'array', items: { type: 'string' } },
+                metadata: { type: 'object', additionalProperties: { type: 'string' } },
+              },
+            },
+            workflow: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                workflowId: { $ref: '#/components/schemas/ObjectId' },
+                inputMapping: {
+                  type: 'object',
+                  nullable: true,
+                  additionalProperties: { type: 'string' },
+                  description: 'inputPayload key to template; without it the request body is the input',
+                },
+              },
+            },
+            externalIdPath: { type: 'string', nullable: true, example: 'issue.id', description: 'Body path of the sender ID used to drop repeats' },
+            lastDeliveryAt: { type: 'string', format: 'date-time', nullable: true },
+          },
+        },
+        InboundDelivery: {
+          type: 'object',
+          properties: {
+            _id: { $ref: '#/components/schemas/ObjectId' },
+            endpointId: { $ref: '#/components/schemas/ObjectId' },
+            status: { type: 'string', enum: ['processing', 'accepted', 'duplicate', 'rejected', 'failed'] },
+            statusCode: { type: 'integer', description: 'HTTP status returned to the sender' },
+            externalId: { type: 'string', nullable: true },
+            headers: { type: 'object' },
+            body: { type: 'object' },
+            error: { type: 'string', nullable: true },
+            taskId: { $ref: '#/components/schemas/ObjectId', nullable: true },
+            workflowRunId: { $ref: '#/components/schemas/ObjectId', nullable: true },
+            duplicateOfId: { $ref: '#/components/schemas/ObjectId', nullable: true },
+            receivedAt: { type: 'string', format: 'date-time' },
+            completedAt: { type: 'string', format: 'date-time', nullable: true },
+          },
+        },
+
+        // Notification schemas
+        Notification: {
+          type: 'object',
+          properties: {
+            _id: { $ref: '#/components/schemas/ObjectId' },
+            userId: { $ref: '#/components/schemas/ObjectId' },
+            type: { $ref: '#/components/schemas/NotificationType' },
+            title: { type: 'string' },
+            body: { type: 'string' },
+            taskId: { $ref: '#/components/schemas/ObjectId', nullable: true },
+            workflowRunId: { $ref: '#/components/schemas/ObjectId', nullable: true },
+            batchJobId: { $ref: '#/components/schemas/ObjectId', nullable: true },
+            actorId: { $ref: '#/components/schemas/ObjectId', nullable: true },
+            eventId: { type: 'string' },
+            readAt: { type: 'string', format: 'date-time', nullable: true },
             createdAt: { type: 'string', format: 'date-time' },
           },
         },
+        NotificationType: {
+          type: 'string',
+          enum: ['task.assigned', 'task.comment', 'task.mention', 'workflow.run.failed', 'batch.manual_review'],
+        },
 
         // View schemas
         View: {
@@ -379,6 +690,23 @@ All responses follow this structure:
           },
         },
 
+        // Attachment schemas
+        TaskAttachment: {
+          type: 'object',
+          properties: {
+            _id: { $ref: '#/components/schemas/ObjectId' },
+            taskId: { $ref: '#/components/schemas/ObjectId' },
+            filename: { type: 'string', example: 'report.csv' },
+            contentType: { type: 'string', example: 'text/csv' },
+            size: { type: 'integer', description: 'Bytes' },
+            sha256: { type: 'string', description: 'Hex digest of the content' },
+            storage: { type: 'string', enum: ['local', 's3'], description: 'Storage driver holding the file' },
+            storageKey: { type: 'string' },
+            uploadedById: { $ref: '#/components/schemas/ObjectId', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+
         // Activity Log schemas
         ActivityLog: {
           type: 'object',
@@ -389,7 +717,24 @@ All responses follow this structure:
             actorId: { $ref: '#/components/schemas/ObjectId', nullable: true },
             actorType: { type: 'string', enum: ['user', 'system', 'daemon'] },
             changes: { type: 'object' },
-            comment: { type: 'string' },
+            comment: { type: 'string', description: 'Markdown. Absent once the comment is deleted' },
+            parentId: { $ref: '#/components/schemas/ObjectId', nullable: true, description: 'Top-level comment this one replies to' },
+            mentions: { type: 'array', items: { $ref: '#/components/schemas/ObjectId' }, description: 'Users (including agents) @mentioned in the comment' },
+            editHistory: {
+              type: 'array',
+              description: 'Earlier versions of the comment, oldest first',
+              items: {
+                type: 'object',
+                properties: {
+                  comment: { type: 'string' },
+                  mentions: { type: 'array', items: { $ref: '#/components/schemas/ObjectId' } },
+                  editedAt: { type: 'string', format: 'date-time' },
+                  editedById: { $ref: '#/components/schemas/ObjectId', nullable: true },
+                },
+              },
+            },
+            editedAt: { type: 'string', format: 'date-time' },
+            deletedAt: { type: 'string', format: 'date-time' },
             timestamp: { type: 'string', format: 'date-time' },
           },
         },
@@ -414,6 +759,10 @@ All responses follow this structure:
             scheduledFor: { type: 'string', format: 'date-time' },
             createdAt: { type: 'string', format: 'date-time' },
             completedAt: { type: 'string', format: 'date-time', nullable: true },
+            workerId: { type: 'string', nullable: true, description: 'Worker holding the lease' },
+            leaseExpiresAt: { type: 'string', format: 'date-time', nullable: true, description: 'Job returns to pending if no heartbeat arrives before this time' },
+            leaseDurationMs: { type: 'integer', nullable: true },
+            lastHeartbeatAt: { type: 'string', format: 'date-time', nullable: true },
           },
         },
       },
@@ -432,7 +781,11 @@ All responses follow this structure:
       { name: 'Users', description: 'User and team management' },
       { name: 'Views', description: 'Saved searches and views' },
       { name: 'Webhooks', description: 'Webhook configuration' },
+      { name: 'Schedules', description: 'Cron-scheduled tasks and workflow runs' },
+      { name: 'Inbound Endpoints', description: 'Signed inbound webhooks that create tasks or start workflows' },
+      { name: 'Notifications', description: "The caller's in-app notifications and subscriptions" },
       { name: 'Activity Logs', description: 'Audit trail and comments' },
+      { name: 'Audit Logs', description: 'Changes to workflows, settings, users and API keys' },
       { name: 'Lookups', description: 'Lookup/enum values' },
       { name: 'Field Configs', description: 'Dynamic field configuration' },
       { name: 'External Jobs', description: 'External worker job queue' },
@@ -578,6 +931,31 @@ All responses follow this structure:
           },
         },
       },
+      '/api/auth/permissions': {
+        get: {
+          tags: ['Auth'],
+          summary: 'Get the caller\'s effective permissions',
+          description: 'Permissions come from the user role, or from the scopes of the API key (limited to the role of the user the key acts as). Requests without the permission a route requires get a 403 naming it in error.details.missingPermission.',
+          responses: {
+            200: {
+              description: 'Role and permissions',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      role: { type: 'string', example: 'operator' },
+                      permissions: { type: 'array', items: { type: 'string' }, example: ['tasks:read', 'tasks:write'] },
+                      apiKeyScopes: { type: 'array', items: { type: 'string' } },
+                    },
+                  },
+                },
+              },
+            },
+            401: { description: 'Not authenticated' },
+          },
+        },
+      },
       '/api/auth/status': {
         get: {
           tags: ['Auth'],
@@ -696,6 +1074,7 @@ All responses follow this structure:
             { name: 'parentId', in: 'query', schema: { type: 'string' } },
             { name: 'rootOnly', in: 'query', schema: { type: 'boolean' } },
             { name: 'tags', in: 'query', schema: { type: 'string' }, description: 'Comma-separated tags' },
+            { name: 'blocked', in: 'query', schema: { type: 'boolean' }, description: 'true for only blocked tasks, false to leave them out' },
             { name: 'resolveReferences', in: 'query', schema: { type: 'boolean' }, description: 'Include resolved assignee/workflow objects' },
             { name: 'includeArchived', in: 'query', schema: { type: 'boolean', default: false }, description: 'Include archived tasks (excluded by default)' },
           ],
@@ -745,6 +1124,10 @@ All responses follow this structure:
                 },
               },
             },
+            400: {
+              description: 'Field values fail the task field config rules',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } } },
+            },
           },
         },
       },
@@ -778,8 +1161,10 @@ All responses follow this structure:
         patch: {
           tags: ['Tasks'],
           summary: 'Update a task',
+          description: 'Send the revision you last read as If-Match (or expectedRevision) to get a 409 instead of overwriting changes made since.',
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'If-Match', in: 'header', schema: { type: 'string', example: '"3"' }, description: 'Expected task revision' },
           ],
           requestBody: {
             required: true,
@@ -791,7 +1176,15 @@ All responses follow this structure:
           },
           responses: {
             200: { description: 'Task updated' },
+            400: {
+              description: 'Field values fail the task field config rules',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } } },
+            },
             404: { description: 'Task not found' },
+            409: {
+              description: 'The task has changed since the expected revision',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/TaskConflict' } } },
+            },
           },
         },
         delete: {
@@ -846,75 +1239,87 @@ All responses follow this structure:
           },
         },
       },
-      '/api/tasks/{id}/move': {
-        put: {
+      '/api/tasks/{id}/dependencies': {
+        get: {
           tags: ['Tasks'],
-          summary: 'Move task to new parent',
+          summary: 'Get task dependencies',
+          description: 'Tasks this task waits for (blockedBy) and tasks waiting for it (blocks)',
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'resolveReferences', in: 'query', schema: { type: 'boolean' } },
           ],
-          requestBody: {
-            required: true,
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    newParentId: { type: 'string', nullable: true },
-                  },
-                },
-              },
-            },
-          },
           responses: {
-            200: { description: 'Task moved' },
+            200: { description: 'Task dependencies' },
+            404: { description: 'Task not found' },
           },
         },
-      },
-      '/api/tasks/bulk': {
         post: {
           tags: ['Tasks'],
-          summary: 'Bulk update or delete tasks',
+          summary: 'Add a blocking task',
+          description: 'The task stays blocked until the blocking task completes.',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          ],
           requestBody: {
             required: true,
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
-                  required: ['operation', 'taskIds'],
+                  required: ['blockedById'],
                   properties: {
-                    operation: { type: 'string', enum: ['update', 'delete'] },
-                    taskIds: { type: 'array', items: { type: 'string' } },
-                    updates: { type: 'object' },
+                    blockedById: { type: 'string' },
                   },
                 },
               },
             },
           },
           responses: {
-            200: { description: 'Bulk operation completed' },
+            201: { description: 'Dependency added', content: { 'application/json': { schema: { $ref: '#/components/schemas/Task' } } } },
+            400: { description: 'Self-dependency or the dependency would create a cycle' },
+            404: { description: 'Task or blocking task not found' },
           },
         },
       },
-
-      // Workflows endpoints
-      '/api/workflows': {
+      '/api/tasks/{id}/dependencies/{blockedById}': {
+        delete: {
+          tags: ['Tasks'],
+          summary: 'Remove a blocking task',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'blockedById', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: { description: 'Dependency removed' },
+            404: { description: 'Task not found or not a dependency' },
+          },
+        },
+      },
+      '/api/tasks/{id}/attachments': {
         get: {
-          tags: ['Workflows'],
-          summary: 'List all workflows',
+          tags: ['Tasks'],
+          summary: 'List task attachments',
+          description: 'Newest first, with the configured upload limits',
           parameters: [
-            { name: 'includeInactive', in: 'query', schema: { type: 'boolean', default: false }, description: 'Include inactive workflows (excluded by default)' },
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
           ],
           responses: {
             200: {
-              description: 'List of workflows',
+              description: 'Attachments',
               content: {
                 'application/json': {
                   schema: {
                     type: 'object',
                     properties: {
-                      success: { type: 'boolean' },
-                      data: { type: 'array', items: { $ref: '#/components/schemas/Workflow' } },
+                      data: { type: 'array', items: { $ref: '#/components/schemas/TaskAttachment' } },
+                      limits: {
+                        type: 'object',
+                        properties: {
+                          maxBytes: { type: 'integer' },
+                          maxPerTask: { type: 'integer' },
+                          allowedTypes: { type: 'array', items: { type: 'string' } },
+                        },
+                      },
                     },
                   },
                 },
@@ -923,57 +1328,217 @@ All responses follow this structure:
           },
         },
         post: {
-          tags: ['Workflows'],
-          summary: 'Create a new workflow',
+          tags: ['Tasks'],
+          summary: 'Upload an attachment',
+          description: 'The request body is the file itself, sent with its own Content-Type. Publishes task.attachment.added.',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'filename', in: 'query', schema: { type: 'string' }, description: 'File name (or send X-Filename)' },
+          ],
           requestBody: {
             required: true,
             content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  required: ['name', 'steps'],
-                  properties: {
-                    name: { type: 'string' },
-                    description: { type: 'string' },
-                    steps: { type: 'array', items: { $ref: '#/components/schemas/WorkflowStep' } },
-                    mermaidDiagram: { type: 'string' },
-                    isActive: { type: 'boolean' },
-                  },
-                },
-              },
+              'application/octet-stream': { schema: { type: 'string', format: 'binary' } },
             },
           },
           responses: {
-            201: { description: 'Workflow created' },
+            201: { description: 'Attachment stored', content: { 'application/json': { schema: { $ref: '#/components/schemas/TaskAttachment' } } } },
+            400: { description: 'Missing filename, empty file or too many attachments on the task' },
+            404: { description: 'Task not found' },
+            413: { description: 'File is larger than ATTACHMENT_MAX_BYTES' },
+            415: { description: 'Content type is not allowed' },
           },
         },
       },
-      '/api/workflows/{id}': {
+      '/api/tasks/{id}/attachments/{attachmentId}/download': {
         get: {
-          tags: ['Workflows'],
-          summary: 'Get a workflow',
+          tags: ['Tasks'],
+          summary: 'Download an attachment',
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'attachmentId', in: 'path', required: true, schema: { type: 'string' } },
           ],
           responses: {
-            200: { description: 'Workflow details' },
-            404: { description: 'Workflow not found' },
+            200: { description: 'File content', content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } },
+            404: { description: 'Attachment not found' },
           },
         },
-        patch: {
-          tags: ['Workflows'],
-          summary: 'Update a workflow',
+      },
+      '/api/tasks/{id}/attachments/{attachmentId}': {
+        delete: {
+          tags: ['Tasks'],
+          summary: 'Delete an attachment',
+          description: 'Publishes task.attachment.deleted.',
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'attachmentId', in: 'path', required: true, schema: { type: 'string' } },
           ],
           responses: {
-            200: { description: 'Workflow updated' },
+            200: { description: 'Attachment deleted' },
+            404: { description: 'Attachment not found' },
           },
         },
-        delete: {
-          tags: ['Workflows'],
-          summary: 'Delete a workflow',
-          parameters: [
+      },
+      '/api/tasks/{id}/move': {
+        put: {
+          tags: ['Tasks'],
+          summary: 'Move task to new parent',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    newParentId: { type: 'string', nullable: true },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'Task moved' },
+          },
+        },
+      },
+      '/api/tasks/bulk': {
+        post: {
+          tags: ['Tasks'],
+          summary: 'Apply an operation to many tasks',
+          description: 'Each task is processed individually and publishes its own events. Selections of more than 100 tasks, or requests with background: true, run as a background operation and return 202.',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['operation', 'taskIds'],
+                  properties: {
+                    operation: { type: 'string', enum: ['update', 'delete', 'archive', 'move', 'add-tag', 'remove-tag'] },
+                    taskIds: { type: 'array', items: { type: 'string' } },
+                    updates: { type: 'object', description: 'Fields to set (update)' },
+                    newParentId: { type: 'string', nullable: true, description: 'New parent, null for root (move)' },
+                    tag: { type: 'string', description: 'Tag to add or remove (add-tag, remove-tag)' },
+                    background: { type: 'boolean', description: 'Run as a background operation regardless of size' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'Bulk operation completed with a summary and per-task results' },
+            202: { description: 'Bulk operation started in the background' },
+            400: { description: 'Invalid operation or parameters' },
+          },
+        },
+      },
+      '/api/tasks/bulk/{operationId}': {
+        get: {
+          tags: ['Tasks'],
+          summary: 'Get progress and results of a background bulk operation',
+          parameters: [
+            { name: 'operationId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: { description: 'Bulk operation' },
+            404: { description: 'Bulk operation not found' },
+          },
+        },
+      },
+
+      // Workflows endpoints
+      '/api/workflows': {
+        get: {
+          tags: ['Workflows'],
+          summary: 'List all workflows',
+          parameters: [
+            { name: 'includeInactive', in: 'query', schema: { type: 'boolean', default: false }, description: 'Include inactive workflows (excluded by default)' },
+          ],
+          responses: {
+            200: {
+              description: 'List of workflows',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { type: 'array', items: { $ref: '#/components/schemas/Workflow' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          tags: ['Workflows'],
+          summary: 'Create a new workflow',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['name', 'steps'],
+                  properties: {
+                    name: { type: 'string' },
+                    description: { type: 'string' },
+                    steps: { type: 'array', items: { $ref: '#/components/schemas/WorkflowStep' } },
+                    mermaidDiagram: { type: 'string' },
+                    isActive: { type: 'boolean' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            201: { description: 'Workflow created' },
+          },
+        },
+      },
+      '/api/workflows/{id}': {
+        get: {
+          tags: ['Workflows'],
+          summary: 'Get a workflow',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: { description: 'Workflow details' },
+            404: { description: 'Workflow not found' },
+          },
+        },
+        patch: {
+          tags: ['Workflows'],
+          summary: 'Update a workflow',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  description: 'Any workflow fields to change. Each save is stored as a new revision.',
+                  properties: {
+                    changeNote: { type: 'string', description: 'Optional note stored on the new revision' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'Workflow updated' },
+          },
+        },
+        delete: {
+          tags: ['Workflows'],
+          summary: 'Delete a workflow',
+          parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
           ],
           responses: {
@@ -981,6 +1546,90 @@ All responses follow this structure:
           },
         },
       },
+      '/api/workflows/{id}/revisions': {
+        get: {
+          tags: ['Workflows'],
+          summary: 'List workflow revisions (newest first, without steps)',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+            { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+          ],
+          responses: {
+            200: { description: 'Revision history' },
+            404: { description: 'Workflow not found' },
+          },
+        },
+      },
+      '/api/workflows/{id}/revisions/{version}': {
+        get: {
+          tags: ['Workflows'],
+          summary: 'Get the full definition stored in a revision',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'version', in: 'path', required: true, schema: { type: 'integer' } },
+          ],
+          responses: {
+            200: {
+              description: 'Revision',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      data: { $ref: '#/components/schemas/WorkflowRevision' },
+                    },
+                  },
+                },
+              },
+            },
+            404: { description: 'Revision not found' },
+          },
+        },
+      },
+      '/api/workflows/{id}/diff': {
+        get: {
+          tags: ['Workflows'],
+          summary: 'Compare two workflow revisions',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'from', in: 'query', required: true, schema: { type: 'integer' } },
+            { name: 'to', in: 'query', schema: { type: 'integer' }, description: 'Defaults to the current version' },
+          ],
+          responses: {
+            200: { description: 'Field changes plus added, removed and changed steps' },
+            404: { description: 'Workflow or revision not found' },
+          },
+        },
+      },
+      '/api/workflows/{id}/rollback': {
+        post: {
+          tags: ['Workflows'],
+          summary: 'Restore an earlier revision',
+          description: 'Copies the definition from the given revision onto the workflow and saves it as a new revision. Runs already in flight are not affected.',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['version'],
+                  properties: {
+                    version: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'Workflow restored' },
+            404: { description: 'Workflow or revision not found' },
+          },
+        },
+      },
       '/api/workflows/parse-mermaid': {
         post: {
           tags: ['Workflows'],
@@ -1124,7 +1773,14 @@ All responses follow this structure:
                     workflowId: { type: 'string' },
                     inputPayload: { type: 'object' },
                     taskDefaults: { type: 'object' },
-                    executionOptions: { type: 'object' },
+                    executionOptions: {
+                      type: 'object',
+                      properties: {
+                        pauseAtSteps: { type: 'array', items: { type: 'string' }, description: 'Pause the run before these steps' },
+                        skipSteps: { type: 'array', items: { type: 'string' }, description: 'Pass input straight through these steps' },
+                        dryRun: { type: 'boolean', description: 'Return a simulated step trace without creating tasks' },
+                      },
+                    },
                     externalId: { type: 'string' },
                     source: { type: 'string' },
                   },
@@ -1133,6 +1789,7 @@ All responses follow this structure:
             },
           },
           responses: {
+            200: { description: 'Dry run step trace (executionOptions.dryRun)' },
             201: { description: 'Workflow run started' },
           },
         },
@@ -1150,6 +1807,20 @@ All responses follow this structure:
           },
         },
       },
+      '/api/workflow-runs/{id}/resume': {
+        post: {
+          tags: ['Workflow Runs'],
+          summary: 'Resume a paused workflow run',
+          description: 'Executes the steps queued while the run was paused by executionOptions.pauseAtSteps.',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: { description: 'Workflow run resumed' },
+            400: { description: 'Run not found or not paused' },
+          },
+        },
+      },
       '/api/workflow-runs/{id}/cancel': {
         post: {
           tags: ['Workflow Runs'],
@@ -1221,192 +1892,753 @@ All responses follow this structure:
           },
         },
       },
+      '/api/workflow-triggers/{token}': {
+        post: {
+          tags: ['Workflow Runs'],
+          summary: 'Start a workflow from its webhook trigger',
+          description: 'Public endpoint - the secret token identifies the webhook trigger step. The JSON body becomes the run input.',
+          security: [],
+          parameters: [
+            { name: 'token', in: 'path', required: true, schema: { type: 'string' }, description: 'Webhook trigger token' },
+          ],
+          requestBody: {
+            required: false,
+            content: { 'application/json': { schema: { type: 'object' } } },
+          },
+          responses: {
+            202: {
+              description: 'Workflow run started',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      acknowledged: { type: 'boolean' },
+                      workflowRunId: { type: 'string' },
+                      rootTaskId: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            },
+            404: { description: 'Unknown trigger token' },
+            409: { description: 'Workflow is not active' },
+          },
+        },
+      },
 
       // Batch Jobs endpoints
       '/api/batch-jobs': {
         get: {
-          tags: ['Batch Jobs'],
-          summary: 'List batch jobs',
+          tags: ['Batch Jobs'],
+          summary: 'List batch jobs',
+          parameters: [
+            { name: 'status', in: 'query', schema: { type: 'string' } },
+            { name: 'type', in: 'query', schema: { type: 'string' } },
+            { name: 'workflowId', in: 'query', schema: { type: 'string' } },
+            { name: 'page', in: 'query', schema: { type: 'integer' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer' } },
+          ],
+          responses: {
+            200: { description: 'List of batch jobs' },
+          },
+        },
+        post: {
+          tags: ['Batch Jobs'],
+          summary: 'Create a new batch job',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['expectedCount'],
+                  properties: {
+                    expectedCount: { type: 'integer' },
+                    name: { type: 'string' },
+                    type: { type: 'string' },
+                    workflowId: { type: 'string' },
+                    taskId: { type: 'string' },
+                    minSuccessPercent: { type: 'number', default: 100 },
+                    deadlineAt: { type: 'string', format: 'date-time' },
+                    items: { type: 'array', items: { type: 'object' } },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            201: { description: 'Batch job created' },
+          },
+        },
+      },
+      '/api/batch-jobs/{id}/callback': {
+        post: {
+          tags: ['Batch Jobs'],
+          summary: 'Report the result of a batch item',
+          description:
+            'Counters follow item status transitions, so retried deliveries are safe: a repeat for a completed item ' +
+            'is acknowledged as a duplicate, and a success after a failure moves the item from failed to processed.',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'X-Batch-Secret', in: 'header', required: true, schema: { type: 'string' } },
+            {
+              name: 'Idempotency-Key',
+              in: 'header',
+              schema: { type: 'string' },
+              description: 'Unique per delivery attempt; a key that was already applied is acknowledged without changes',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['itemKey', 'success'],
+                  properties: {
+                    itemKey: { type: 'string' },
+                    externalId: { type: 'string' },
+                    success: { type: 'boolean' },
+                    result: { type: 'object' },
+                    error: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Callback acknowledged',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      acknowledged: { type: 'boolean' },
+                      itemId: { type: 'string' },
+                      itemStatus: { type: 'string' },
+                      transition: { type: 'string', enum: ['first_receipt', 'recovered', 'retried', 'duplicate'] },
+                      duplicate: { type: 'boolean' },
+                      joinSatisfied: { type: 'boolean' },
+                      joinResult: { type: 'object', nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+            401: { description: 'Invalid or missing callback secret' },
+            404: { description: 'Batch job not found' },
+            409: { description: 'Batch job results are already sealed' },
+          },
+        },
+      },
+      '/api/batch-jobs/{id}/reconcile': {
+        post: {
+          tags: ['Batch Jobs'],
+          summary: 'Recompute batch job counters from its items',
+          description: 'Repairs counter drift and completes the join if the corrected counters satisfy it.',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'Counters before and after reconciliation',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      before: { type: 'object' },
+                      after: { type: 'object' },
+                      changed: { type: 'boolean' },
+                      joinResult: { type: 'object', nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+            404: { description: 'Batch job not found' },
+          },
+        },
+      },
+
+      // Users endpoints
+      '/api/users': {
+        get: {
+          tags: ['Users'],
+          summary: 'List users',
+          parameters: [
+            { name: 'isActive', in: 'query', schema: { type: 'boolean' } },
+            { name: 'role', in: 'query', schema: { type: 'string' } },
+            { name: 'search', in: 'query', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: { description: 'List of users' },
+          },
+        },
+        post: {
+          tags: ['Users'],
+          summary: 'Create a new user',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['displayName'],
+                  properties: {
+                    email: { type: 'string' },
+                    displayName: { type: 'string' },
+                    role: { $ref: '#/components/schemas/UserRole' },
+                    isAgent: { type: 'boolean' },
+                    agentPrompt: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            201: { description: 'User created' },
+          },
+        },
+      },
+      '/api/users/agents': {
+        get: {
+          tags: ['Users'],
+          summary: 'List AI agent users',
+          responses: {
+            200: { description: 'List of agents' },
+          },
+        },
+      },
+
+      // Views endpoints
+      '/api/views': {
+        get: {
+          tags: ['Views'],
+          summary: 'List saved views/searches',
+          parameters: [
+            { name: 'collectionName', in: 'query', schema: { type: 'string' } },
+            { name: 'userId', in: 'query', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: { description: 'List of views' },
+          },
+        },
+        post: {
+          tags: ['Views'],
+          summary: 'Create a new view',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['name', 'collectionName'],
+                  properties: {
+                    name: { type: 'string' },
+                    collectionName: { type: 'string' },
+                    isDefault: { type: 'boolean' },
+                    filters: { type: 'object' },
+                    sorting: { type: 'array', items: { type: 'object' } },
+                    visibleColumns: { type: 'array', items: { type: 'string' } },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            201: { description: 'View created' },
+          },
+        },
+      },
+      '/api/views/{id}/tasks': {
+        get: {
+          tags: ['Views'],
+          summary: 'Get tasks matching view filters',
+          description: 'Useful for AI agents to fetch tasks from a saved search',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'page', in: 'query', schema: { type: 'integer' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer' } },
+            { name: 'resolveReferences', in: 'query', schema: { type: 'boolean' } },
+            { name: 'includeBlocked', in: 'query', schema: { type: 'boolean' }, description: 'Include tasks still waiting on dependencies' },
+          ],
+          responses: {
+            200: { description: 'Tasks matching view' },
+          },
+        },
+      },
+
+      // Webhooks endpoints
+      '/api/webhooks': {
+        get: {
+          tags: ['Webhooks'],
+          summary: 'List webhooks',
+          responses: {
+            200: { description: 'List of webhooks' },
+          },
+        },
+        post: {
+          tags: ['Webhooks'],
+          summary: 'Create a webhook',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['name', 'url', 'triggers'],
+                  properties: {
+                    name: { type: 'string' },
+                    url: { type: 'string', format: 'uri' },
+                    triggers: { type: 'array', items: { $ref: '#/components/schemas/WebhookTrigger' } },
+                    savedSearchId: { type: 'string' },
+                    isActive: { type: 'boolean' },
+                    method: { type: 'string', enum: ['POST', 'PUT', 'PATCH'] },
+                    headers: { type: 'object', additionalProperties: { type: 'string' } },
+                    bodyTemplate: { type: 'string' },
+                    failureThreshold: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            201: { description: 'Webhook created' },
+          },
+        },
+      },
+      '/api/webhooks/preview': {
+        post: {
+          tags: ['Webhooks'],
+          summary: 'Preview a webhook request',
+          description: 'Renders method, headers and body template against the latest task event of one of the triggers (optionally for one task), falling back to the latest delivery of webhookId. Nothing is sent.',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    method: { type: 'string', enum: ['POST', 'PUT', 'PATCH'] },
+                    headers: { type: 'object', additionalProperties: { type: 'string' } },
+                    bodyTemplate: { type: 'string' },
+                    triggers: { type: 'array', items: { $ref: '#/components/schemas/WebhookTrigger' } },
+                    taskId: { type: 'string' },
+                    webhookId: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'Rendered request (data.request), the event it used (data.event) and data.bodyError when a JSON body does not parse' },
+            404: { description: 'No matching task event yet' },
+          },
+        },
+      },
+      '/api/webhooks/deliveries/replay': {
+        post: {
+          tags: ['Webhooks'],
+          summary: 'Replay failed deliveries',
+          description: 'Puts failed (dead-lettered) deliveries back in the retry queue, at most 500 per call. Deliveries of inactive webhooks or webhooks whose circuit is open are skipped.',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    deliveryIds: { type: 'array', items: { type: 'string' } },
+                    webhookId: { type: 'string' },
+                    all: { type: 'boolean', description: 'Replay every failed delivery' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'Counts of replayed and skipped deliveries (data.replayed, data.skipped)' },
+            400: { description: 'None of deliveryIds, webhookId or all was given' },
+          },
+        },
+      },
+      '/api/webhooks/{id}/reset-circuit': {
+        post: {
+          tags: ['Webhooks'],
+          summary: 'Close the circuit',
+          description: 'Resumes deliveries to a webhook whose circuit opened, without waiting for a successful probe.',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'Updated webhook' },
+            404: { description: 'Webhook not found' },
+          },
+        },
+      },
+      '/api/webhooks/{id}/rotate-secret': {
+        post: {
+          tags: ['Webhooks'],
+          summary: 'Rotate the signing secret',
+          description: 'Deliveries are signed with both the new and the old secret until the grace window ends. A graceHours of 0 retires the old secret at once.',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          requestBody: {
+            required: false,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    graceHours: { type: 'number', default: 24, minimum: 0, maximum: 168 },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'New secret (data.secret) and when the old one stops signing (data.previousSecretExpiresAt)' },
+            404: { description: 'Webhook not found' },
+          },
+        },
+      },
+
+      // Schedules endpoints
+      '/api/schedules': {
+        get: {
+          tags: ['Schedules'],
+          summary: 'List schedules',
+          parameters: [
+            { name: 'isActive', in: 'query', schema: { type: 'boolean' } },
+            { name: 'targetType', in: 'query', schema: { type: 'string', enum: ['task', 'workflow'] } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+            { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+          ],
+          responses: {
+            200: { description: 'List of schedules' },
+          },
+        },
+        post: {
+          tags: ['Schedules'],
+          summary: 'Create a schedule',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  allOf: [
+                    { $ref: '#/components/schemas/Schedule' },
+                    { type: 'object', required: ['name', 'cronExpression', 'targetType'] },
+                  ],
+                },
+              },
+            },
+          },
+          responses: {
+            201: { description: 'Schedule created' },
+            400: { description: 'Invalid cron expression, timezone or target' },
+          },
+        },
+      },
+      '/api/schedules/preview': {
+        post: {
+          tags: ['Schedules'],
+          summary: 'Preview the next run times of a cron expression',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['cronExpression'],
+                  properties: {
+                    cronExpression: { type: 'string' },
+                    timezone: { type: 'string', default: 'UTC' },
+                    count: { type: 'integer', default: 5, maximum: 20 },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'Upcoming run times (data.nextRuns)' },
+            400: { description: 'Invalid cron expression or timezone' },
+          },
+        },
+      },
+      '/api/schedules/{id}': {
+        get: {
+          tags: ['Schedules'],
+          summary: 'Get a schedule',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'Schedule' },
+            404: { description: 'Schedule not found' },
+          },
+        },
+        patch: {
+          tags: ['Schedules'],
+          summary: 'Update a schedule',
+          description: 'Changing the cron expression or timezone, or resuming a paused schedule, plans the next run from now.',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Schedule' } } },
+          },
+          responses: {
+            200: { description: 'Schedule updated' },
+          },
+        },
+        delete: {
+          tags: ['Schedules'],
+          summary: 'Delete a schedule and its run history',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'Schedule deleted' },
+          },
+        },
+      },
+      '/api/schedules/{id}/run': {
+        post: {
+          tags: ['Schedules'],
+          summary: 'Run a schedule now',
+          description: 'Runs outside the cron timing without moving nextRunAt. Works on paused schedules.',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'The recorded run', content: { 'application/json': { schema: { $ref: '#/components/schemas/ScheduleRun' } } } },
+          },
+        },
+      },
+      '/api/schedules/{id}/runs': {
+        get: {
+          tags: ['Schedules'],
+          summary: 'Run history of a schedule',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'status', in: 'query', schema: { type: 'string', enum: ['running', 'succeeded', 'failed', 'skipped'] } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+            { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+          ],
+          responses: {
+            200: { description: 'Runs, newest first' },
+          },
+        },
+      },
+
+      // Inbound Endpoints
+      '/api/inbound/{slug}': {
+        post: {
+          tags: ['Inbound Endpoints'],
+          summary: 'Deliver a request to an inbound endpoint',
+          description: 'Public endpoint. The raw body, whatever its content type, must be signed with the endpoint secret: the signature header carries sha256=<hex HMAC-SHA256 of the exact bytes sent>. JSON, form and text bodies are parsed after the signature check. Repeats of an external ID are acknowledged without creating anything.',
+          security: [],
+          parameters: [
+            { name: 'slug', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'X-Signature', in: 'header', required: true, schema: { type: 'string' }, description: 'Or the header configured on the endpoint' },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': { schema: { type: 'object' } },
+              'application/x-www-form-urlencoded': { schema: { type: 'object' } },
+              'text/plain': { schema: { type: 'string' } },
+            },
+          },
+          responses: {
+            200: { description: 'Duplicate external ID - the original taskId/workflowRunId is returned' },
+            202: {
+              description: 'Task created or workflow run started',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      acknowledged: { type: 'boolean' },
+                      deliveryId: { type: 'string' },
+                      taskId: { type: 'string' },
+                      workflowRunId: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            },
+            400: { description: 'Body declared as JSON is not valid JSON' },
+            401: { description: 'Missing or invalid signature' },
+            404: { description: 'Unknown endpoint' },
+            409: { description: 'Endpoint is disabled' },
+            422: { description: 'The mapped task or workflow input is invalid' },
+          },
+        },
+      },
+      '/api/inbound-endpoints': {
+        get: {
+          tags: ['Inbound Endpoints'],
+          summary: 'List inbound endpoints',
+          description: 'Secrets are masked - get a single endpoint to read its secret.',
           parameters: [
-            { name: 'status', in: 'query', schema: { type: 'string' } },
-            { name: 'type', in: 'query', schema: { type: 'string' } },
-            { name: 'workflowId', in: 'query', schema: { type: 'string' } },
-            { name: 'page', in: 'query', schema: { type: 'integer' } },
-            { name: 'limit', in: 'query', schema: { type: 'integer' } },
+            { name: 'isActive', in: 'query', schema: { type: 'boolean' } },
+            { name: 'targetType', in: 'query', schema: { type: 'string', enum: ['task', 'workflow'] } },
           ],
           responses: {
-            200: { description: 'List of batch jobs' },
+            200: { description: 'List of inbound endpoints' },
           },
         },
         post: {
-          tags: ['Batch Jobs'],
-          summary: 'Create a new batch job',
+          tags: ['Inbound Endpoints'],
+          summary: 'Create an inbound endpoint',
           requestBody: {
             required: true,
             content: {
               'application/json': {
                 schema: {
-                  type: 'object',
-                  required: ['expectedCount'],
-                  properties: {
-                    expectedCount: { type: 'integer' },
-                    name: { type: 'string' },
-                    type: { type: 'string' },
-                    workflowId: { type: 'string' },
-                    taskId: { type: 'string' },
-                    minSuccessPercent: { type: 'number', default: 100 },
-                    deadlineAt: { type: 'string', format: 'date-time' },
-                    items: { type: 'array', items: { type: 'object' } },
-                  },
+                  allOf: [
+                    { $ref: '#/components/schemas/InboundEndpoint' },
+                    { type: 'object', required: ['name', 'slug', 'targetType'] },
+                  ],
                 },
               },
             },
           },
           responses: {
-            201: { description: 'Batch job created' },
+            201: { description: 'Inbound endpoint created, with its secret' },
+            400: { description: 'Invalid slug or target' },
+            409: { description: 'Slug already in use' },
           },
         },
       },
-
-      // Users endpoints
-      '/api/users': {
+      '/api/inbound-endpoints/{id}': {
         get: {
-          tags: ['Users'],
-          summary: 'List users',
-          parameters: [
-            { name: 'isActive', in: 'query', schema: { type: 'boolean' } },
-            { name: 'role', in: 'query', schema: { type: 'string' } },
-            { name: 'search', in: 'query', schema: { type: 'string' } },
-          ],
+          tags: ['Inbound Endpoints'],
+          summary: 'Get an inbound endpoint',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
           responses: {
-            200: { description: 'List of users' },
+            200: { description: 'Inbound endpoint', content: { 'application/json': { schema: { $ref: '#/components/schemas/InboundEndpoint' } } } },
+            404: { description: 'Inbound endpoint not found' },
           },
         },
-        post: {
-          tags: ['Users'],
-          summary: 'Create a new user',
+        patch: {
+          tags: ['Inbound Endpoints'],
+          summary: 'Update an inbound endpoint',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
           requestBody: {
             required: true,
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  required: ['displayName'],
-                  properties: {
-                    email: { type: 'string' },
-                    displayName: { type: 'string' },
-                    role: { $ref: '#/components/schemas/UserRole' },
-                    isAgent: { type: 'boolean' },
-                    agentPrompt: { type: 'string' },
-                  },
-                },
-              },
-            },
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/InboundEndpoint' } } },
           },
           responses: {
-            201: { description: 'User created' },
+            200: { description: 'Inbound endpoint updated' },
+            409: { description: 'Slug already in use' },
+          },
+        },
+        delete: {
+          tags: ['Inbound Endpoints'],
+          summary: 'Delete an inbound endpoint and its delivery log',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'Inbound endpoint deleted' },
           },
         },
       },
-      '/api/users/agents': {
+      '/api/inbound-endpoints/{id}/rotate-secret': {
+        post: {
+          tags: ['Inbound Endpoints'],
+          summary: 'Rotate the signing secret',
+          description: 'The old secret stops working immediately.',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'New secret (data.secret)' },
+          },
+        },
+      },
+      '/api/inbound-endpoints/{id}/deliveries': {
         get: {
-          tags: ['Users'],
-          summary: 'List AI agent users',
+          tags: ['Inbound Endpoints'],
+          summary: 'Delivery log of an inbound endpoint',
+          description: 'Deliveries are kept for 30 days.',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'status', in: 'query', schema: { type: 'string', enum: ['processing', 'accepted', 'duplicate', 'rejected', 'failed'] } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+            { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+          ],
           responses: {
-            200: { description: 'List of agents' },
+            200: { description: 'Deliveries, newest first' },
           },
         },
       },
 
-      // Views endpoints
-      '/api/views': {
+      // Notifications endpoints
+      '/api/notifications': {
         get: {
-          tags: ['Views'],
-          summary: 'List saved views/searches',
+          tags: ['Notifications'],
+          summary: "List the caller's notifications",
+          description: 'Newest first. Notifications are kept for 90 days. The response also carries unreadCount.',
           parameters: [
-            { name: 'collectionName', in: 'query', schema: { type: 'string' } },
-            { name: 'userId', in: 'query', schema: { type: 'string' } },
+            { name: 'unread', in: 'query', schema: { type: 'boolean' }, description: 'Only unread notifications' },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 50, maximum: 200 } },
+            { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
           ],
           responses: {
-            200: { description: 'List of views' },
+            200: { description: 'Notifications (data), unreadCount and pagination' },
           },
         },
-        post: {
-          tags: ['Views'],
-          summary: 'Create a new view',
-          requestBody: {
-            required: true,
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  required: ['name', 'collectionName'],
-                  properties: {
-                    name: { type: 'string' },
-                    collectionName: { type: 'string' },
-                    isDefault: { type: 'boolean' },
-                    filters: { type: 'object' },
-                    sorting: { type: 'array', items: { type: 'object' } },
-                    visibleColumns: { type: 'array', items: { type: 'string' } },
-                  },
-                },
-              },
-            },
+      },
+      '/api/notifications/unread-count': {
+        get: {
+          tags: ['Notifications'],
+          summary: 'Count unread notifications',
+          description: 'The SSE stream (/api/events/stream) pushes the new count as notification.created and notification.read events.',
+          responses: {
+            200: { description: 'data.unreadCount' },
           },
+        },
+      },
+      '/api/notifications/{id}/read': {
+        post: {
+          tags: ['Notifications'],
+          summary: 'Mark a notification read',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
           responses: {
-            201: { description: 'View created' },
+            200: { description: 'New unread count (data.unreadCount)' },
           },
         },
       },
-      '/api/views/{id}/tasks': {
-        get: {
-          tags: ['Views'],
-          summary: 'Get tasks matching view filters',
-          description: 'Useful for AI agents to fetch tasks from a saved search',
-          parameters: [
-            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
-            { name: 'page', in: 'query', schema: { type: 'integer' } },
-            { name: 'limit', in: 'query', schema: { type: 'integer' } },
-            { name: 'resolveReferences', in: 'query', schema: { type: 'boolean' } },
-          ],
+      '/api/notifications/read-all': {
+        post: {
+          tags: ['Notifications'],
+          summary: 'Mark all notifications read',
           responses: {
-            200: { description: 'Tasks matching view' },
+            200: { description: 'New unread count (data.unreadCount)' },
           },
         },
       },
-
-      // Webhooks endpoints
-      '/api/webhooks': {
+      '/api/notifications/preferences': {
         get: {
-          tags: ['Webhooks'],
-          summary: 'List webhooks',
+          tags: ['Notifications'],
+          summary: 'Get notification subscriptions',
+          description: 'Every notification type with whether the caller receives it. Types are on unless switched off.',
           responses: {
-            200: { description: 'List of webhooks' },
+            200: { description: 'Map of notification type to boolean' },
           },
         },
-        post: {
-          tags: ['Webhooks'],
-          summary: 'Create a webhook',
+        put: {
+          tags: ['Notifications'],
+          summary: 'Update notification subscriptions',
+          description: 'Stored in the user\'s preferences.notifications. Types left out keep their setting.',
           requestBody: {
             required: true,
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
-                  required: ['name', 'url', 'triggers'],
-                  properties: {
-                    name: { type: 'string' },
-                    url: { type: 'string', format: 'uri' },
-                    triggers: { type: 'array', items: { $ref: '#/components/schemas/WebhookTrigger' } },
-                    savedSearchId: { type: 'string' },
-                    isActive: { type: 'boolean' },
-                  },
+                  additionalProperties: { type: 'boolean' },
+                  example: { 'task.comment': false },
                 },
               },
             },
           },
           responses: {
-            201: { description: 'Webhook created' },
+            200: { description: 'Updated subscriptions' },
+            400: { description: 'Unknown notification type or non-boolean value' },
           },
         },
       },
@@ -1429,7 +2661,8 @@ All responses follow this structure:
       '/api/activity-logs/task/{taskId}/comments': {
         post: {
           tags: ['Activity Logs'],
-          summary: 'Add a comment to a task',
+          summary: 'Add a comment (or a reply) to a task',
+          description: '@handles (display name without spaces, or email local part) are resolved to user IDs, agents included, and publish a task.comment.mentioned event.',
           parameters: [
             { name: 'taskId', in: 'path', required: true, schema: { type: 'string' } },
           ],
@@ -1442,6 +2675,7 @@ All responses follow this structure:
                   required: ['comment'],
                   properties: {
                     comment: { type: 'string' },
+                    parentId: { type: 'string', description: 'Comment to reply to' },
                     actorId: { type: 'string' },
                     actorType: { type: 'string', enum: ['user', 'system', 'daemon'] },
                   },
@@ -1451,6 +2685,140 @@ All responses follow this structure:
           },
           responses: {
             201: { description: 'Comment added' },
+            404: { description: 'Task or parent comment not found' },
+          },
+        },
+      },
+      '/api/activity-logs/task/{taskId}/comments/{commentId}': {
+        patch: {
+          tags: ['Activity Logs'],
+          summary: 'Edit a comment',
+          description: 'Only the author can edit a comment. The previous version is kept in editHistory.',
+          parameters: [
+            { name: 'taskId', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'commentId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['comment'],
+                  properties: {
+                    comment: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'Comment updated' },
+            403: { description: 'Not the author of the comment' },
+            404: { description: 'Comment not found' },
+          },
+        },
+        delete: {
+          tags: ['Activity Logs'],
+          summary: 'Delete a comment',
+          description: 'The author or an admin can delete a comment. It stays as a placeholder so replies keep their thread.',
+          parameters: [
+            { name: 'taskId', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'commentId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: { description: 'Comment deleted' },
+            403: { description: 'Not the author of the comment' },
+            404: { description: 'Comment not found' },
+          },
+        },
+      },
+      '/api/activity-logs/mentions': {
+        get: {
+          tags: ['Activity Logs'],
+          summary: 'Comments that @mention a user',
+          parameters: [
+            { name: 'userId', in: 'query', schema: { type: 'string' }, description: 'Defaults to the caller' },
+            { name: 'limit', in: 'query', schema: { type: 'integer' } },
+            { name: 'offset', in: 'query', schema: { type: 'integer' } },
+          ],
+          responses: {
+            200: { description: 'Comments, newest first' },
+          },
+        },
+      },
+      '/api/activity-logs/export': {
+        get: {
+          tags: ['Activity Logs'],
+          summary: 'Export activity log entries',
+          description: 'Streams matching entries oldest first, with actor details. Entries already archived by the retention job are not included.',
+          parameters: [
+            { name: 'from', in: 'query', schema: { type: 'string', format: 'date-time' }, description: 'Inclusive' },
+            { name: 'to', in: 'query', schema: { type: 'string', format: 'date-time' }, description: 'Exclusive' },
+            { name: 'actorId', in: 'query', schema: { type: 'string' } },
+            { name: 'eventTypes', in: 'query', schema: { type: 'array', items: { type: 'string' } }, style: 'form', explode: true },
+            { name: 'taskId', in: 'query', schema: { type: 'string' } },
+            { name: 'format', in: 'query', schema: { type: 'string', enum: ['ndjson', 'json'], default: 'ndjson' } },
+          ],
+          responses: {
+            200: { description: 'NDJSON lines, or a JSON array with format=json' },
+            400: { description: 'Invalid date, ID or format' },
+          },
+        },
+      },
+      '/api/activity-logs/retention': {
+        get: {
+          tags: ['Activity Logs'],
+          summary: 'Get the activity log retention policy',
+          description: 'Admin only. Retention days per event type, the run interval and the last archive run of this process.',
+          responses: {
+            200: { description: 'Policy and last run' },
+            403: { description: 'Not an admin' },
+          },
+        },
+      },
+      '/api/activity-logs/retention/run': {
+        post: {
+          tags: ['Activity Logs'],
+          summary: 'Run activity log retention now',
+          description: 'Admin only. Writes expired entries to gzipped NDJSON archive files, deletes them and cleans up logs of deleted tasks.',
+          responses: {
+            200: { description: 'Run summary with the archive files written' },
+            403: { description: 'Not an admin' },
+            409: { description: 'A run is already in progress' },
+          },
+        },
+      },
+
+      // Audit Logs endpoints
+      '/api/audit-logs': {
+        get: {
+          tags: ['Audit Logs'],
+          summary: 'Get the change history of configuration entities',
+          description: 'Creates, updates and deletes of workflows, views, field configs, lookups, webhooks, users, teams, tags and API keys, newest first. Each entity type needs its read permission; without entityType only readable types are returned.',
+          parameters: [
+            {
+              name: 'entityType',
+              in: 'query',
+              schema: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: ['workflow', 'view', 'field-config', 'lookup', 'webhook', 'user', 'team', 'tag', 'api-key'],
+                },
+              },
+              style: 'form',
+              explode: true,
+            },
+            { name: 'entityId', in: 'query', schema: { type: 'string' } },
+            { name: 'actorId', in: 'query', schema: { type: 'string' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer' } },
+            { name: 'offset', in: 'query', schema: { type: 'integer' } },
+          ],
+          responses: {
+            200: { description: 'Audit entries with field changes and actor details' },
+            400: { description: 'Unknown entity type or invalid ID' },
+            403: { description: 'Missing the read permission of a requested entity type' },
           },
         },
       },
@@ -1682,7 +3050,8 @@ All responses follow this structure:
       '/api/external-jobs/pending': {
         get: {
           tags: ['External Jobs'],
-          summary: 'Get pending jobs for workers',
+          summary: 'List pending jobs',
+          description: 'For monitoring. Workers should use POST /api/external-jobs/claim-next, which claims atomically.',
           parameters: [
             { name: 'type', in: 'query', schema: { type: 'string' } },
             { name: 'limit', in: 'query', schema: { type: 'integer' } },
@@ -1692,6 +3061,31 @@ All responses follow this structure:
           },
         },
       },
+      '/api/external-jobs/claim-next': {
+        post: {
+          tags: ['External Jobs'],
+          summary: 'Atomically claim the oldest due pending job',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['workerId'],
+                  properties: {
+                    type: { type: 'string', description: 'Only claim jobs of this type' },
+                    workerId: { type: 'string' },
+                    leaseSeconds: { type: 'integer', description: 'Lease length (10-3600, default 300)' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'Claimed job, or data: null when no job is available' },
+          },
+        },
+      },
       '/api/external-jobs/{id}/claim': {
         put: {
           tags: ['External Jobs'],
@@ -1706,6 +3100,7 @@ All responses follow this structure:
                   type: 'object',
                   properties: {
                     workerId: { type: 'string' },
+                    leaseSeconds: { type: 'integer', description: 'Lease length (10-3600, default 300)' },
                   },
                 },
               },
@@ -1713,6 +3108,35 @@ All responses follow this structure:
           },
           responses: {
             200: { description: 'Job claimed' },
+            409: { description: 'Job not found or already claimed' },
+          },
+        },
+      },
+      '/api/external-jobs/{id}/heartbeat': {
+        put: {
+          tags: ['External Jobs'],
+          summary: 'Extend the lease on a claimed job',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['workerId'],
+                  properties: {
+                    workerId: { type: 'string' },
+                    leaseSeconds: { type: 'integer', description: 'New lease length - defaults to the one used at claim time' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'Lease extended' },
+            409: { description: 'Job is no longer processing or is leased to another worker' },
           },
         },
       },
@@ -1730,6 +3154,7 @@ All responses follow this structure:
                   type: 'object',
                   properties: {
                     result: { type: 'object' },
+                    workerId: { type: 'string', description: 'Rejects with 409 if the job is leased to another worker' },
                   },
                 },
               },
@@ -1756,14 +3181,17 @@ All responses follow this structure:
                   required: ['error'],
                   properties: {
                     error: { type: 'string' },
-                    retryAfter: { type: 'string', format: 'date-time' },
+                    retryAfter: { type: 'number', minimum: 0, description: 'Seconds before the job can be claimed again' },
+                    workerId: { type: 'string', description: 'The worker holding the lease - omit for jobs claimed without one' },
                   },
                 },
               },
             },
           },
           responses: {
-            200: { description: 'Job marked as failed' },
+            200: { description: 'Job returned to pending, or failed once it has no attempts left' },
+            400: { description: 'Invalid retryAfter' },
+            409: { description: 'Job not found, not processing, or leased to another worker' },
           },
         },
       },
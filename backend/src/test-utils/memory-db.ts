@@ -0,0 +1,332 @@
+import { Db, Document, ObjectId } from 'mongodb';
+
+/**
+ * A small in-memory stand-in for the MongoDB collections the services use,
+ * for tests. It supports the filters and update operators this codebase
+ * writes - not aggregation, text search or pipeline updates.
+ */
+
+type Filter = Record<string, unknown>;
+
+function clone<T>(value: T): T {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (value instanceof ObjectId || Buffer.isBuffer(value)) return value;
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, clone(v)])) as T;
+  }
+  return value;
+}
+
+function getPath(doc: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, key) => {
+    return current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
+  }, doc);
+}
+
+function setPath(doc: Document, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current: Record<string, unknown> = doc;
+  for (const key of keys.slice(0, -1)) {
+    if (!current[key] || typeof current[key] !== 'object') current[key] = {};
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function unsetPath(doc: Document, path: string): void {
+  const keys = path.split('.');
+  const parent = getPath(doc, keys.slice(0, -1).join('.')) ?? (keys.length === 1 ? doc : undefined);
+  if (parent && typeof parent === 'object') delete (parent as Record<string, unknown>)[keys[keys.length - 1]];
+}
+
+function comparable(value: unknown): unknown {
+  if (value instanceof ObjectId) return value.toHexString();
+  if (value instanceof Date) return value.getTime();
+  return value;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  const left = comparable(a);
+  const right = comparable(b);
+  if (left === right) return true;
+  if (left === null || left === undefined) return right === null || right === undefined;
+  if (typeof left === 'object' && typeof right === 'object') {
+    return JSON.stringify(clone(left)) === JSON.stringify(clone(right));
+  }
+  return false;
+}
+
+// An array field matches a value when any element does, as in MongoDB
+function matchesValue(value: unknown, test: (v: unknown) => boolean): boolean {
+  return test(value) || (Array.isArray(value) && value.some(test));
+}
+
+function compare(value: unknown, bound: unknown): number | null {
+  const left = comparable(value);
+  const right = comparable(bound);
+  if (left === null || left === undefined || right === null || right === undefined) return null;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// Range operators never match missing or null values
+function ordered(value: unknown, bound: unknown, test: (order: number) => boolean): boolean {
+  const order = compare(value, bound);
+  return order !== null && test(order);
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  const isOperatorObject = condition && typeof condition === 'object' && !(condition instanceof ObjectId)
+    && !(condition instanceof Date) && !Array.isArray(condition)
+    && Object.keys(condition).every((key) => key.startsWith('$'));
+  if (!isOperatorObject) return matchesValue(value, (v) => equals(v, condition));
+
+  return Object.entries(condition as Record<string, unknown>).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq': return matchesValue(value, (v) => equals(v, operand));
+      case '$ne': return !matchesValue(value, (v) => equals(v, operand));
+      case '$in': return (operand as unknown[]).some((o) => matchesValue(value, (v) => equals(v, o)));
+      case '$nin': return !(operand as unknown[]).some((o) => matchesValue(value, (v) => equals(v, o)));
+      case '$exists': return (value !== undefined) === Boolean(operand);
+      case '$lt': return matchesValue(value, (v) => ordered(v, operand, (order) => order < 0));
+      case '$lte': return matchesValue(value, (v) => ordered(v, operand, (order) => order <= 0));
+      case '$gt': return matchesValue(value, (v) => ordered(v, operand, (order) => order > 0));
+      case '$gte': return matchesValue(value, (v) => ordered(v, operand, (order) => order >= 0));
+      case '$not': return !matchesCondition(value, operand);
+      default: throw new Error(`memory-db: unsupported operator ${operator}`);
+    }
+  });
+}
+
+export function matchesFilter(doc: Document, filter: Filter = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') return (condition as Filter[]).every((f) => matchesFilter(doc, f));
+    if (key === '$or') return (condition as Filter[]).some((f) => matchesFilter(doc, f));
+    if (key === '$nor') return !(condition as Filter[]).some((f) => matchesFilter(doc, f));
+    return matchesCondition(getPath(doc, key), condition);
+  });
+}
+
+function applyUpdate(doc: Document, update: Document, inserting: boolean): void {
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields as Document)) {
+      switch (operator) {
+        case '$set': setPath(doc, path, clone(value)); break;
+        case '$setOnInsert': if (inserting) setPath(doc, path, clone(value)); break;
+        case '$unset': unsetPath(doc, path); break;
+        case '$inc': setPath(doc, path, ((getPath(doc, path) as number) ?? 0) + (value as number)); break;
+        case '$push': {
+          const list = (getPath(doc, path) as unknown[]) ?? [];
+          const items = value && typeof value === 'object' && '$each' in value ? (value.$each as unknown[]) : [value];
+          setPath(doc, path, [...list, ...items.map(clone)]);
+          break;
+        }
+        case '$addToSet': {
+          const list = (getPath(doc, path) as unknown[]) ?? [];
+          const items = value && typeof value === 'object' && '$each' in value ? (value.$each as unknown[]) : [value];
+          setPath(doc, path, [...list, ...items.filter((item) => !list.some((v) => equals(v, item))).map(clone)]);
+          break;
+        }
+        case '$pull': {
+          const list = (getPath(doc, path) as unknown[]) ?? [];
+          setPath(doc, path, list.filter((v) => !matchesCondition(v, value)));
+          break;
+        }
+        default: throw new Error(`memory-db: unsupported update operator ${operator}`);
+      }
+    }
+  }
+}
+
+// Equality conditions of a filter seed the document an upsert inserts
+function upsertSeed(filter: Filter): Document {
+  const seed: Document = {};
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key.startsWith('$')) continue;
+    const isOperator = condition && typeof condition === 'object' && !(condition instanceof ObjectId)
+      && !(condition instanceof Date) && Object.keys(condition).some((k) => k.startsWith('$'));
+    if (!isOperator) setPath(seed, key, clone(condition));
+  }
+  return seed;
+}
+
+function project(doc: Document, projection: Document | null): Document {
+  if (!projection) return clone(doc);
+  const included = Object.entries(projection).filter(([, v]) => v).map(([key]) => key);
+  if (included.length === 0) {
+    const result = clone(doc);
+    for (const key of Object.keys(projection)) unsetPath(result, key);
+    return result;
+  }
+  const result: Document = { _id: doc._id };
+  for (const key of included) {
+    const value = getPath(doc, key);
+    if (value !== undefined) setPath(result, key, clone(value));
+  }
+  if (projection._id === 0) delete result._id;
+  return result;
+}
+
+class MemoryCursor<T extends Document> {
+  private projection: Document | null = null;
+  private sortSpec: Document | null = null;
+  private skipCount = 0;
+  private limitCount = 0;
+
+  constructor(private readonly source: () => Document[]) {}
+
+  project<P extends Document = T>(projection: Document): MemoryCursor<P> {
+    this.projection = projection;
+    return this as unknown as MemoryCursor<P>;
+  }
+
+  sort(spec: Document): this {
+    this.sortSpec = spec;
+    return this;
+  }
+
+  skip(count: number): this {
+    this.skipCount = count;
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  async toArray(): Promise<T[]> {
+    let docs = this.source();
+    if (this.sortSpec) {
+      const entries = Object.entries(this.sortSpec);
+      docs = [...docs].sort((a, b) => {
+        for (const [key, direction] of entries) {
+          const order = compare(getPath(a, key), getPath(b, key)) ?? 0;
+          if (order !== 0) return order * (direction as number);
+        }
+        return 0;
+      });
+    }
+    docs = docs.slice(this.skipCount, this.limitCount ? this.skipCount + this.limitCount : undefined);
+    return docs.map((doc) => project(doc, this.projection) as T);
+  }
+
+  async next(): Promise<T | null> {
+    const [first] = await this.toArray();
+    return first ?? null;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    for (const doc of await this.toArray()) yield doc;
+  }
+}
+
+export class MemoryCollection<T extends Document = Document> {
+  readonly docs: Document[] = [];
+
+  constructor(readonly collectionName: string) {}
+
+  find(filter: Filter = {}): MemoryCursor<T> {
+    return new MemoryCursor<T>(() => this.docs.filter((doc) => matchesFilter(doc, filter)));
+  }
+
+  async findOne(filter: Filter = {}, options: { projection?: Document } = {}): Promise<T | null> {
+    const doc = this.docs.find((d) => matchesFilter(d, filter));
+    return doc ? (project(doc, options.projection ?? null) as T) : null;
+  }
+
+  async countDocuments(filter: Filter = {}): Promise<number> {
+    return this.docs.filter((doc) => matchesFilter(doc, filter)).length;
+  }
+
+  async insertOne(doc: Document): Promise<{ acknowledged: true; insertedId: ObjectId }> {
+    const stored = clone(doc);
+    stored._id = stored._id ?? new ObjectId();
+    this.docs.push(stored);
+    // The driver sets _id on the document passed in
+    doc._id = stored._id;
+    return { acknowledged: true, insertedId: stored._id };
+  }
+
+  async insertMany(docs: Document[]): Promise<{ acknowledged: true; insertedCount: number }> {
+    for (const doc of docs) await this.insertOne(doc);
+    return { acknowledged: true, insertedCount: docs.length };
+  }
+
+  async updateOne(filter: Filter, update: Document, options: { upsert?: boolean } = {}) {
+    const doc = this.docs.find((d) => matchesFilter(d, filter));
+    if (doc) {
+      const before = JSON.stringify(clone(doc));
+      applyUpdate(doc, update, false);
+      return { acknowledged: true, matchedCount: 1, modifiedCount: before === JSON.stringify(clone(doc)) ? 0 : 1, upsertedId: null };
+    }
+    if (options.upsert) {
+      const { insertedId } = await this.insertUpsert(filter, update);
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedId: insertedId };
+    }
+    return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedId: null };
+  }
+
+  async updateMany(filter: Filter, update: Document) {
+    const docs = this.docs.filter((d) => matchesFilter(d, filter));
+    for (const doc of docs) applyUpdate(doc, update, false);
+    return { acknowledged: true, matchedCount: docs.length, modifiedCount: docs.length, upsertedId: null };
+  }
+
+  async findOneAndUpdate(
+    filter: Filter,
+    update: Document,
+    options: { returnDocument?: 'before' | 'after'; upsert?: boolean; projection?: Document } = {}
+  ): Promise<T | null> {
+    const doc = this.docs.find((d) => matchesFilter(d, filter));
+    if (!doc) {
+      if (!options.upsert) return null;
+      const { insertedId } = await this.insertUpsert(filter, update);
+      return options.returnDocument === 'after' ? this.findOne({ _id: insertedId }, options) : null;
+    }
+    const before = project(doc, options.projection ?? null);
+    applyUpdate(doc, update, false);
+    return (options.returnDocument === 'after' ? project(doc, options.projection ?? null) : before) as T;
+  }
+
+  async deleteOne(filter: Filter) {
+    const index = this.docs.findIndex((d) => matchesFilter(d, filter));
+    if (index >= 0) this.docs.splice(index, 1);
+    return { acknowledged: true, deletedCount: index >= 0 ? 1 : 0 };
+  }
+
+  async deleteMany(filter: Filter = {}) {
+    const remaining = this.docs.filter((d) => !matchesFilter(d, filter));
+    const deletedCount = this.docs.length - remaining.length;
+    this.docs.splice(0, this.docs.length, ...remaining);
+    return { acknowledged: true, deletedCount };
+  }
+
+  async createIndex(): Promise<string> {
+    return 'index';
+  }
+
+  private async insertUpsert(filter: Filter, update: Document) {
+    const doc = upsertSeed(filter);
+    applyUpdate(doc, update, true);
+    return this.insertOne(doc);
+  }
+}
+
+export interface MemoryDb {
+  collection<T extends Document = Document>(name: string): MemoryCollection<T>;
+  /** The same object typed as the driver's Db, for code that expects one */
+  asDb(): Db;
+}
+
+export function createMemoryDb(): MemoryDb {
+  const collections = new Map<string, MemoryCollection>();
+  const memoryDb: MemoryDb = {
+    collection<T extends Document = Document>(name: string): MemoryCollection<T> {
+      if (!collections.has(name)) collections.set(name, new MemoryCollection(name));
+      return collections.get(name) as unknown as MemoryCollection<T>;
+    },
+    asDb: () => memoryDb as unknown as Db,
+  };
+  return memoryDb;
+}
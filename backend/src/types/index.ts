@@ -203,11 +203,27 @@ export interface Task {
   // Tags
   tags?: string[];
 
+  // Dependencies - tasks that must complete before this one can start.
+  // isBlocked is derived (any blocker not in a resolved status) and kept up
+  // to date by TaskDependencyService; the inverse ("blocks") is a query on
+  // blockedBy. statusBeforeBlocked is the status a pending task returns to
+  // when it is unblocked - it waits in 'waiting' meanwhile.
+  blockedBy?: ObjectId[];
+  isBlocked?: boolean;
+  statusBeforeBlocked?: TaskStatus;
+
   // Timestamps
   createdAt: Date;
   updatedAt: Date;
   dueAt?: Date | null;
 
+  // Incremented on every write; PATCH can require a revision to detect
+  // concurrent edits (If-Match / expectedRevision)
+  revision?: number;
+
+  // Workflow step timeout - cleared once the timeout has been handled
+  timeoutAt?: Date | null;
+
   // Flexible metadata for task outputs and custom data
   metadata?: Record<string, unknown>;
 }
@@ -227,6 +243,14 @@ export interface TaskWithResolved extends Task {
   };
 }
 
+// A task's dependencies in both directions
+export interface TaskDependencies {
+  taskId: ObjectId;
+  isBlocked: boolean;
+  blockedBy: Task[];   // Tasks this one waits for
+  blocks: Task[];      // Tasks waiting for this one
+}
+
 // ============================================================================
 // Field Configuration Types
 // ============================================================================
@@ -289,6 +313,24 @@ export interface FieldConfig {
   validation?: FieldValidation;
 }
 
+export type FieldValidationRule =
+  | 'required'
+  | 'editable'
+  | 'type'
+  | 'minLength'
+  | 'maxLength'
+  | 'min'
+  | 'max'
+  | 'pattern'
+  | 'options';
+
+// One failed rule, returned in the details of a 400 response
+export interface FieldValidationError {
+  field: string;
+  rule: FieldValidationRule;
+  message: string;
+}
+
 // ============================================================================
 // Lookup Types
 // ============================================================================
@@ -348,6 +390,25 @@ export interface UserPreference {
 
 export type UserRole = 'admin' | 'operator' | 'reviewer' | 'viewer';
 
+// What a permission is granted on. Role grants and API key scopes are both
+// expressed as `<resource>:read` / `<resource>:write`.
+export type PermissionResource =
+  | 'tasks'
+  | 'saved-searches'
+  | 'workflows'
+  | 'workflow-runs'
+  | 'batch-jobs'
+  | 'external-jobs'
+  | 'webhooks'
+  | 'schedules'
+  | 'users'
+  | 'api-keys'
+  | 'settings';
+
+export type PermissionAction = 'read' | 'write';
+
+export type Permission = `${PermissionResource}:${PermissionAction}`;
+
 export interface User {
   _id: ObjectId;
   email?: string;                 // Optional for agent users
@@ -398,6 +459,12 @@ export interface ExternalJob {
   startedAt?: Date | null;
   completedAt?: Date | null;
   scheduledFor?: Date | null;
+  // Lease held by the worker processing the job. A job whose lease expires
+  // without a heartbeat is returned to pending (or failed) by the reaper.
+  workerId?: string | null;
+  leaseExpiresAt?: Date | null;
+  leaseDurationMs?: number | null;
+  lastHeartbeatAt?: Date | null;
 }
 
 // ============================================================================
@@ -438,7 +505,14 @@ export type TaskEventType =
   | 'task.priority.changed'
   | 'task.metadata.changed'
   | 'task.moved'
-  | 'task.comment.added';
+  | 'task.comment.added'
+  | 'task.comment.edited'
+  | 'task.comment.deleted'
+  | 'task.comment.mentioned'
+  | 'task.attachment.added'
+  | 'task.attachment.deleted'
+  | 'task.blocked'
+  | 'task.unblocked';
 
 export interface FieldChange {
   field: string;
@@ -456,6 +530,8 @@ export interface TaskEvent {
   actorType: 'user' | 'system' | 'daemon';
   timestamp: Date;
   metadata?: Record<string, unknown>;
+  // Position in the shared event stream - set on events delivered through the event transport
+  seq?: number;
 }
 
 export type EventHandler = (event: TaskEvent) => void | Promise<void>;
@@ -472,6 +548,13 @@ export interface ActivityLogEntry {
   actorType: 'user' | 'system' | 'daemon';
   changes?: FieldChange[];
   comment?: string;
+  // Comment threading and mentions (task.comment.added entries only)
+  parentId?: ObjectId | null;           // Top-level comment this one replies to
+  mentions?: ObjectId[];                // Users (including agents) @mentioned in the comment
+  editHistory?: CommentRevision[];      // Earlier versions, oldest first
+  editedAt?: Date;
+  deletedAt?: Date;
+  deletedById?: ObjectId | null;
   timestamp: Date;
   metadata?: Record<string, unknown>;
   // Populated user info (not stored in DB, resolved at query time)
@@ -481,6 +564,129 @@ export interface ActivityLogEntry {
   } | null;
 }
 
+// An earlier version of a comment, kept when it is edited or deleted
+export interface CommentRevision {
+  comment: string;
+  mentions?: ObjectId[];
+  editedAt: Date;
+  editedById?: ObjectId | null;
+}
+
+// ============================================================================
+// Attachment Types
+// ============================================================================
+
+// A file attached to a task. The bytes live in the attachment storage
+// driver; this record is what the API lists.
+export interface TaskAttachment {
+  _id: ObjectId;
+  taskId: ObjectId;
+  filename: string;
+  contentType: string;
+  size: number;                         // Bytes
+  sha256: string;                       // Hex digest of the content
+  storage: string;                      // Driver that holds the file ('local', 's3')
+  storageKey: string;
+  uploadedById?: ObjectId | null;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Audit Log Types
+// ============================================================================
+
+// Configuration entities whose changes are audited (tasks have the activity log)
+export type AuditEntityType =
+  | 'workflow'
+  | 'view'
+  | 'field-config'
+  | 'lookup'
+  | 'webhook'
+  | 'user'
+  | 'team'
+  | 'tag'
+  | 'api-key';
+
+export type AuditAction = 'created' | 'updated' | 'deleted';
+
+// A change to a configuration entity, published by the router that made it
+export interface AuditEvent {
+  id: string;
+  type: `${AuditEntityType}.${AuditAction}`;
+  entityType: AuditEntityType;
+  entityId: ObjectId;
+  entityName?: string;                  // Name at the time, so deleted entities stay recognizable
+  action: AuditAction;
+  changes: FieldChange[];               // Top-level fields, secrets redacted
+  actorId?: ObjectId | null;
+  actorType: 'user' | 'system' | 'daemon';
+  metadata?: Record<string, unknown>;
+  timestamp: Date;
+}
+
+export type AuditEventHandler = (event: AuditEvent) => void | Promise<void>;
+
+export interface AuditLogEntry {
+  _id: ObjectId;
+  entityType: AuditEntityType;
+  entityId: ObjectId;
+  entityName?: string;
+  action: AuditAction;
+  changes: FieldChange[];
+  actorId?: ObjectId | null;
+  actorType: 'user' | 'system' | 'daemon';
+  metadata?: Record<string, unknown>;
+  timestamp: Date;
+  // Populated user info (not stored in DB, resolved at query time)
+  actor?: {
+    displayName: string;
+    email?: string;
+  } | null;
+}
+
+// ============================================================================
+// Notification Types
+// ============================================================================
+
+export type NotificationType =
+  | 'task.assigned'                     // A task was assigned to the user
+  | 'task.comment'                      // Someone commented on a task the user created or is assigned to
+  | 'task.mention'                      // The user was @mentioned in a comment
+  | 'workflow.run.failed'               // A workflow run the user started failed
+  | 'batch.manual_review';              // A batch job the user owns needs manual review
+
+export interface Notification {
+  _id: ObjectId;
+  userId: ObjectId;                     // Recipient
+  type: NotificationType;
+  title: string;
+  body?: string;
+  taskId?: ObjectId | null;
+  workflowRunId?: ObjectId | null;
+  batchJobId?: ObjectId | null;
+  actorId?: ObjectId | null;            // Who caused it, if a user
+  eventId: string;                      // Event the notification was raised for
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+// Per-user subscriptions, stored in User.preferences.notifications - a type that is missing is on
+export type NotificationPreferences = Partial<Record<NotificationType, boolean>>;
+
+export type NotificationEventType = 'notification.created' | 'notification.read';
+
+// Carries a user's new unread count to every process, so their SSE streams can push it
+export interface NotificationEvent {
+  id: string;
+  type: NotificationEventType;
+  userId: ObjectId;
+  unreadCount: number;
+  notification?: Notification;          // Set on notification.created
+  timestamp: Date;
+  // Position in the shared event stream - set on events delivered through the event transport
+  seq?: number;
+}
+
 // ============================================================================
 // Webhook Types
 // ============================================================================
@@ -496,15 +702,32 @@ export type WebhookTrigger =
 
 export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed' | 'retrying';
 
+// closed: delivering; open: deliveries are dead-lettered unsent; half_open: a probe is in flight
+export type WebhookCircuitState = 'closed' | 'open' | 'half_open';
+
 export interface Webhook {
   _id: ObjectId;
   name: string;
   url: string;
-  secret: string;
+  secret: string;                          // HMAC-SHA256 key for X-Webhook-Signature
+  previousSecret?: string | null;          // Still signs deliveries until previousSecretExpiresAt
+  previousSecretExpiresAt?: Date | null;
+  method?: WebhookMethod;                  // POST (default), PUT or PATCH
+  headers?: Record<string, string> | null; // Extra request headers - values may use {{...}} templates
+  bodyTemplate?: string | null;            // {{...}} template over { event, task, changes }; default: that object as JSON
   triggers: WebhookTrigger[];
   savedSearchId?: ObjectId | null;
   filterQuery?: string;
   isActive: boolean;
+  // Circuit breaker
+  failureThreshold?: number;               // Consecutive failed attempts that open the circuit (default 10)
+  consecutiveFailures?: number;
+  circuitState?: WebhookCircuitState;      // Missing means closed
+  circuitOpenedAt?: Date | null;
+  nextProbeAt?: Date | null;               // When an open circuit is next probed
+  probeFailures?: number;                  // Failed probes since the circuit opened - spaces out the next probe
+  lastError?: string | null;
+  alertTaskId?: ObjectId | null;           // Task raised when the circuit opened
   createdById?: ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
@@ -527,6 +750,68 @@ export interface WebhookDelivery {
   completedAt?: Date | null;
 }
 
+// ============================================================================
+// Inbound Endpoint Types
+// ============================================================================
+
+export type InboundTargetType = 'task' | 'workflow';
+
+// Task fields are {{...}} templates over { body, headers, query, receivedAt }
+export interface InboundTaskMapping {
+  title: string;
+  summary?: string;
+  extraPrompt?: string;
+  status?: string;
+  urgency?: string;
+  assigneeId?: string;
+  parentId?: string;
+  tags?: string[];
+  metadata?: Record<string, string>;
+}
+
+export interface InboundWorkflowTarget {
+  workflowId: ObjectId;
+  // inputPayload key -> template; without a mapping the request body is the input
+  inputMapping?: Record<string, string> | null;
+}
+
+export interface InboundEndpoint {
+  _id: ObjectId;
+  name: string;
+  slug: string;                       // POST /api/inbound/:slug
+  description?: string;
+  secret: string;                     // HMAC-SHA256 key for the signature header
+  signatureHeader: string;            // Header carrying the signature (default: X-Signature)
+  isActive: boolean;
+  targetType: InboundTargetType;
+  taskMapping?: InboundTaskMapping | null;
+  workflow?: InboundWorkflowTarget | null;
+  externalIdPath?: string | null;     // Body path of the sender's ID - repeats are not processed again
+  lastDeliveryAt?: Date | null;
+  createdById?: ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type InboundDeliveryStatus = 'processing' | 'accepted' | 'duplicate' | 'rejected' | 'failed';
+
+export interface InboundDelivery {
+  _id: ObjectId;
+  endpointId: ObjectId;
+  status: InboundDeliveryStatus;
+  statusCode: number;                 // HTTP status returned to the sender
+  externalId?: string | null;
+  dedupeKey?: string;                 // endpointId:externalId while the delivery holds the ID
+  headers: Record<string, string>;
+  body: unknown;
+  error?: string | null;
+  taskId?: ObjectId | null;
+  workflowRunId?: ObjectId | null;
+  duplicateOfId?: ObjectId | null;    // Delivery that first used the external ID
+  receivedAt: Date;
+  completedAt?: Date | null;
+}
+
 // ============================================================================
 // Automation Daemon Types
 // ============================================================================
@@ -649,8 +934,63 @@ export interface WorkflowStep {
   flowId?: string;
   inputMapping?: Record<string, string>;
 
+  // Trigger step config - how the workflow is started
+  triggerConfig?: WorkflowTriggerConfig;
+
   // Input aggregation
   inputPath?: string;                   // JSONPath to extract input from previous steps
+
+  // Failure handling
+  retryPolicy?: StepRetryPolicy;        // Re-create the step task automatically when it fails
+  onErrorStepId?: string;               // Step to route to once retries are exhausted (instead of failing the run)
+
+  // Timeouts / SLA (agent and manual steps)
+  timeoutMs?: number;                   // Time the task may stay open before onTimeout fires
+  dueOffsetHours?: number;              // Sets the task's dueAt; also the timeout when timeoutMs is not set
+  onTimeout?: StepTimeoutConfig;        // What happens when the timeout passes (default: fail the task)
+}
+
+export type WorkflowTriggerType =
+  | 'manual'     // Started through POST /api/workflow-runs only
+  | 'cron'       // Started by a schedule
+  | 'event'      // Started by matching task events
+  | 'webhook';   // Started by a POST to the trigger's secret URL
+
+export interface WorkflowTriggerConfig {
+  type: WorkflowTriggerType;
+
+  // cron
+  cronExpression?: string;
+  timezone?: string;                    // Default: UTC
+  catchUpPolicy?: ScheduleCatchUpPolicy;
+
+  // event
+  eventTypes?: TaskEventType[];
+  tags?: string[];                      // Task must have at least one of these tags
+  condition?: string;                   // Condition expression over { task, changes }
+
+  // webhook
+  webhookToken?: string;                // Secret path segment of the trigger URL
+
+  // Fixed input merged into every run started by this trigger
+  inputPayload?: Record<string, unknown>;
+}
+
+export type StepTimeoutAction = 'fail' | 'reassign' | 'escalate' | 'route';
+
+export interface StepTimeoutConfig {
+  action: StepTimeoutAction;
+  escalationAssigneeId?: string;        // reassign: user or agent to hand the task to
+  urgency?: Urgency;                    // escalate: urgency to set (default: one level higher)
+  targetStepId?: string;                // route: step to continue at; the timed out task is cancelled
+}
+
+export interface StepRetryPolicy {
+  maxAttempts: number;                  // Total attempts, including the first (1 = no retries)
+  backoff?: 'fixed' | 'exponential';    // Default: exponential
+  delayMs?: number;                     // Delay before the first retry (default: 1000)
+  maxDelayMs?: number;                  // Upper bound on the delay (default: 300000)
+  retryOn?: string[];                   // Only retry errors containing one of these (case-insensitive). Omit to retry any failure.
 }
 
 export interface Workflow {
@@ -664,15 +1004,60 @@ export interface Workflow {
   // Dynamic title template for the root task - supports {{input.field}} variables
   rootTaskTitleTemplate?: string;
 
+  // Current revision - incremented on every save (see WorkflowRevision)
+  version?: number;
+
   createdAt: Date;
   updatedAt: Date;
   createdById?: ObjectId | null;
 }
 
+/**
+ * Immutable snapshot of a workflow definition, stored on every save.
+ * Runs resolve their steps against the revision they started with.
+ */
+export interface WorkflowRevision {
+  _id: ObjectId;
+  workflowId: ObjectId;
+  version: number;
+
+  // Snapshot of the definition at this version
+  name: string;
+  description: string;
+  isActive: boolean;
+  steps: WorkflowStep[];
+  mermaidDiagram?: string;
+  rootTaskTitleTemplate?: string;
+
+  changeNote?: string;
+  restoredFromVersion?: number;   // Set when the revision was created by a rollback
+
+  createdAt: Date;
+  createdById?: ObjectId | null;
+}
+
+export interface WorkflowStepDiff {
+  stepId: string;
+  name: string;
+  changes: FieldChange[];
+}
+
+export interface WorkflowRevisionDiff {
+  workflowId: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: FieldChange[];         // Top-level fields (name, description, ...)
+  steps: {
+    added: WorkflowStep[];
+    removed: WorkflowStep[];
+    changed: WorkflowStepDiff[];
+  };
+}
+
 export interface WorkflowRun {
   _id: ObjectId;
   workflowId: ObjectId;
-  workflowVersion?: number;
+  workflowVersion?: number;   // Workflow revision the run is pinned to
 
   // Execution status
   status: WorkflowRunStatus;
@@ -705,9 +1090,16 @@ export interface WorkflowRun {
     dryRun?: boolean;
   };
 
+  // Steps held back while the run is paused - executed on resume
+  pendingSteps?: PendingWorkflowStep[];
+  pausedAt?: Date | null;
+
+  // Failed steps waiting for their retryPolicy delay - re-created when due
+  scheduledRetries?: ScheduledStepRetry[];
+
   // External correlation
   externalId?: string;
-  source?: string;
+  source?: string;            // How the run started: manual, task, flow, schedule, cron, event, webhook or inbound
 
   // Error handling
   error?: string;
@@ -725,13 +1117,36 @@ export interface WorkflowRun {
   completedAt?: Date | null;
 }
 
+// A step queued on a paused run (pauseAtSteps), executed when the run resumes
+export interface PendingWorkflowStep {
+  stepId: string;
+  parentTaskId: ObjectId;
+  inputPayload?: Record<string, unknown>;
+  taskMetadata?: Record<string, unknown>;   // Extra metadata for the task, e.g. retry attempt
+  queuedAt: Date;
+}
+
+// A failed step task waiting to be retried (see WorkflowStep.retryPolicy)
+export interface ScheduledStepRetry {
+  stepId: string;
+  failedTaskId: ObjectId;
+  attempt: number;                      // Attempt number of the task that will be created
+  retryAt: Date;
+  error?: string;
+}
+
 // Workflow run event types
 export type WorkflowRunEventType =
   | 'workflow.run.created'
   | 'workflow.run.started'
+  | 'workflow.run.paused'
+  | 'workflow.run.resumed'
   | 'workflow.run.step.started'
   | 'workflow.run.step.completed'
   | 'workflow.run.step.failed'
+  | 'workflow.run.step.retrying'
+  | 'workflow.run.step.timed_out'
+  | 'workflow.run.step.skipped'
   | 'workflow.run.completed'
   | 'workflow.run.failed'
   | 'workflow.run.cancelled';
@@ -748,6 +1163,8 @@ export interface WorkflowRunEvent {
   actorType: 'user' | 'system' | 'daemon';
   timestamp: Date;
   metadata?: Record<string, unknown>;
+  // Position in the shared event stream - set on events delivered through the event transport
+  seq?: number;
 }
 
 // Input for starting a workflow run
@@ -766,6 +1183,25 @@ export interface WorkflowExecutionOptions {
   dryRun?: boolean;                  // Simulate without creating real tasks
 }
 
+// A single step in a dry-run trace
+export interface WorkflowDryRunStep {
+  stepId: string;
+  name: string;
+  stepType: WorkflowStepType;
+  action: 'execute' | 'skip' | 'pause';
+  nextStepIds: string[];
+  details?: Record<string, unknown>;
+}
+
+// Result of simulating a workflow run (executionOptions.dryRun)
+export interface WorkflowDryRunResult {
+  dryRun: true;
+  workflowId: string;
+  workflowName: string;
+  steps: WorkflowDryRunStep[];
+  truncated: boolean;
+}
+
 export interface StartWorkflowInput {
   workflowId: string;
 
@@ -880,6 +1316,8 @@ export interface BatchItem {
 
   // Tracking
   attempts: number;
+  // Idempotency-Key values of callbacks already applied (most recent last)
+  idempotencyKeys?: string[];
 
   // Timestamps
   createdAt: Date;
@@ -887,6 +1325,13 @@ export interface BatchItem {
   completedAt?: Date | null;
 }
 
+// How a callback changed its item - only the first three move the job counters
+export type BatchItemTransition =
+  | 'first_receipt' // First result for the item
+  | 'recovered'     // A failed item succeeded on retry
+  | 'retried'       // A failed item failed again (error updated, counters unchanged)
+  | 'duplicate';    // Already completed, or a repeated Idempotency-Key - ignored
+
 // Join condition evaluation result
 export interface JoinConditionResult {
   isSatisfied: boolean;
@@ -956,6 +1401,15 @@ export interface BatchCallbackPayload {
   success: boolean;
   result?: Record<string, unknown>;
   error?: string;
+  idempotencyKey?: string;
+}
+
+// Result of recomputing a batch job's counters from its items
+export interface BatchCounterReconciliation {
+  before: Pick<BatchJob, 'receivedCount' | 'processedCount' | 'failedCount'>;
+  after: Pick<BatchJob, 'receivedCount' | 'processedCount' | 'failedCount'>;
+  changed: boolean;
+  joinResult: JoinConditionResult | null;
 }
 
 // ============================================================================
@@ -973,3 +1427,126 @@ export interface Tag {
   createdAt: Date;
   updatedAt?: Date | null;
 }
+
+// ============================================================================
+// Bulk Operation Types
+// ============================================================================
+
+export type BulkOperationType = 'update' | 'delete' | 'archive' | 'move' | 'add-tag' | 'remove-tag';
+
+export type BulkOperationStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export type BulkTaskResultStatus = 'updated' | 'unchanged' | 'deleted' | 'not_found' | 'failed';
+
+export interface BulkTaskResult {
+  taskId: string;
+  status: BulkTaskResultStatus;
+  error?: string;
+}
+
+export interface BulkOperationParams {
+  updates?: Record<string, unknown>;   // For 'update'
+  newParentId?: string | null;         // For 'move'
+  tag?: string;                        // For 'add-tag' / 'remove-tag'
+}
+
+export interface BulkOperationSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  unchanged: number;
+  notFound: number;
+}
+
+// Large selections run in the background and are tracked here
+export interface BulkOperation {
+  _id: ObjectId;
+  operation: BulkOperationType;
+  taskIds: ObjectId[];
+  params: BulkOperationParams;
+  status: BulkOperationStatus;
+  processed: number;
+  summary: BulkOperationSummary;
+  results: BulkTaskResult[];
+  error?: string | null;
+  createdById?: ObjectId | null;
+  createdAt: Date;
+  startedAt?: Date | null;
+  completedAt?: Date | null;
+}
+
+// ============================================================================
+// Schedule Types
+// ============================================================================
+
+export type ScheduleTargetType = 'task' | 'workflow';
+
+// What to do with runs that were due while the scheduler wasn't running
+export type ScheduleCatchUpPolicy =
+  | 'skip'        // Drop missed runs, wait for the next one
+  | 'run_once'    // Run once for all missed runs
+  | 'run_all';    // Run every missed run (up to a limit)
+
+export type ScheduleRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export type ScheduleRunTrigger = 'schedule' | 'catch_up' | 'manual';
+
+export interface ScheduleTaskTemplate {
+  title: string;                     // {{date}} is replaced with the run date
+  summary?: string;
+  extraPrompt?: string;
+  assigneeId?: ObjectId | null;
+  tags?: string[];
+  urgency?: Urgency;
+  dueOffsetHours?: number;           // Due date relative to the scheduled time
+  parentId?: ObjectId | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ScheduleWorkflowTarget {
+  workflowId: ObjectId;
+  inputPayload?: Record<string, unknown>;
+  taskDefaults?: WorkflowTaskDefaults;
+}
+
+// Set on schedules created for a workflow's cron trigger step
+export interface ScheduleWorkflowTrigger {
+  workflowId: ObjectId;
+  stepId: string;
+}
+
+export interface Schedule {
+  _id: ObjectId;
+  name: string;
+  description?: string;
+  cronExpression: string;
+  timezone: string;                  // IANA name, e.g. 'Europe/London'
+  isActive: boolean;
+  targetType: ScheduleTargetType;
+  taskTemplate?: ScheduleTaskTemplate | null;
+  workflow?: ScheduleWorkflowTarget | null;
+  catchUpPolicy: ScheduleCatchUpPolicy;
+  workflowTrigger?: ScheduleWorkflowTrigger | null;  // Managed by a workflow - edit the workflow instead
+  nextRunAt: Date | null;            // Null while paused
+  lastRunAt?: Date | null;
+  lastRunStatus?: ScheduleRunStatus | null;
+  lastError?: string | null;
+  createdById?: ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScheduleRun {
+  _id: ObjectId;
+  scheduleId: ObjectId;
+  scheduledFor: Date;                // The cron time this run is for
+  trigger: ScheduleRunTrigger;
+  status: ScheduleRunStatus;
+  taskId?: ObjectId | null;          // Task created by a task schedule
+  workflowRunId?: ObjectId | null;   // Run started by a workflow schedule
+  skippedCount?: number;             // Missed runs summarized by a 'skipped' record
+  error?: string | null;
+  actorId?: ObjectId | null;         // Who triggered a manual run
+  startedAt: Date;
+  completedAt?: Date | null;
+}
@@ -0,0 +1,155 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { cn } from '@/lib/utils'
+import { NotificationType } from '@/lib/api'
+import {
+  useNotifications,
+  useUnreadNotificationCount,
+  useMarkAllNotificationsRead,
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from '@/hooks/use-notifications'
+import { NotificationList, NOTIFICATION_TYPE_LABELS } from '@/components/notifications/notification-list'
+
+const PAGE_SIZE = 25
+
+function NotificationPreferencesPanel() {
+  const { data, isLoading } = useNotificationPreferences()
+  const updatePreferences = useUpdateNotificationPreferences()
+
+  const preferences = data?.data
+
+  const toggle = (type: NotificationType, enabled: boolean) => {
+    updatePreferences.mutate(
+      { [type]: enabled },
+      { onError: (error: Error) => toast.error(error.message) }
+    )
+  }
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div>
+        <h2 className="font-medium">Notify me when</h2>
+        <p className="text-sm text-muted-foreground">You are never notified of your own changes</p>
+      </div>
+      {isLoading || !preferences ? (
+        <div className="text-sm text-muted-foreground">Loading...</div>
+      ) : (
+        <div className="space-y-2">
+          {(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map((type) => (
+            <label key={type} className="flex items-start gap-2 cursor-pointer">
+              <Checkbox
+                checked={preferences[type]}
+                onCheckedChange={(checked) => toggle(type, checked === true)}
+                disabled={updatePreferences.isPending}
+                className="mt-0.5"
+              />
+              <div>
+                <p className="text-sm font-medium">{NOTIFICATION_TYPE_LABELS[type].label}</p>
+                <p className="text-xs text-muted-foreground">{NOTIFICATION_TYPE_LABELS[type].description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function NotificationsPage() {
+  const [unreadOnly, setUnreadOnly] = useState(false)
+  const [offset, setOffset] = useState(0)
+  const unreadCount = useUnreadNotificationCount()
+  const markAllRead = useMarkAllNotificationsRead()
+
+  const { data, isLoading } = useNotifications({ unread: unreadOnly, limit: PAGE_SIZE, offset })
+
+  const notifications = data?.data || []
+  const total = data?.pagination.total ?? 0
+
+  const showUnreadOnly = (value: boolean) => {
+    setUnreadOnly(value)
+    setOffset(0)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Notifications</h1>
+          <p className="text-muted-foreground">
+            {unreadCount > 0 ? `${unreadCount} unread` : 'You\'re all caught up'}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => markAllRead.mutate()}
+          disabled={unreadCount === 0 || markAllRead.isPending}
+        >
+          Mark all read
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+        <div className="border rounded-lg">
+          <div className="flex items-center gap-1 border-b p-2">
+            {[false, true].map((value) => (
+              <button
+                key={String(value)}
+                onClick={() => showUnreadOnly(value)}
+                className={cn(
+                  'rounded px-3 py-1 text-sm transition-colors',
+                  unreadOnly === value ? 'bg-primary/10 text-primary font-medium' : 'text-muted-foreground hover:bg-muted'
+                )}
+              >
+                {value ? 'Unread' : 'All'}
+              </button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <div className="py-6 text-center text-sm text-muted-foreground">Loading notifications...</div>
+          ) : (
+            <NotificationList
+              notifications={notifications}
+              emptyMessage={unreadOnly ? 'No unread notifications' : 'No notifications yet'}
+            />
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between border-t p-2 text-sm text-muted-foreground">
+              <span>
+                {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+              </span>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                  disabled={offset === 0}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={offset + PAGE_SIZE >= total}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <NotificationPreferencesPanel />
+      </div>
+    </div>
+  )
+}
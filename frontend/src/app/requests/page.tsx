@@ -68,6 +68,7 @@ import { Label } from '@/components/ui/label'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 import { JsonViewer } from '@/components/ui/json-viewer'
 import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
 import {
   batchJobsApi,
   externalJobsApi,
@@ -415,6 +416,10 @@ function ExternalJobDetail({ jobId }: { jobId: string }) {
         <div className="flex items-center gap-4 text-sm">
           <span>Attempts: {job.attempts} / {job.maxAttempts}</span>
           <span>Type: {job.type}</span>
+          {job.workerId && <span>Worker: {job.workerId}</span>}
+          {job.status === 'processing' && job.leaseExpiresAt && (
+            <span>Lease expires: {formatDate(job.leaseExpiresAt)}</span>
+          )}
         </div>
       </div>
 
@@ -498,6 +503,19 @@ function BatchJobDetail({ requestId }: { requestId: string }) {
     },
   })
 
+  const reconcileMutation = useMutation({
+    mutationFn: () => batchJobsApi.reconcile(requestId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['batch-job', requestId] })
+      if (result.changed) {
+        toast.success(`Counters corrected: ${result.before.processedCount} → ${result.after.processedCount} processed, ${result.before.failedCount} → ${result.after.failedCount} failed`)
+      } else {
+        toast.success('Counters already match the items')
+      }
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed to reconcile counters'),
+  })
+
   const reviewMutation = useMutation({
     mutationFn: () => batchJobsApi.submitReview(requestId, reviewDecision, reviewNotes),
     onSuccess: () => {
@@ -593,7 +611,19 @@ function BatchJobDetail({ requestId }: { requestId: string }) {
 
       {/* Progress section */}
       <div className="rounded-lg border bg-card p-4">
-        <h2 className="font-semibold mb-3">Progress</h2>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="font-semibold">Progress</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => reconcileMutation.mutate()}
+            disabled={reconcileMutation.isPending}
+            title="Recompute the counters from the batch items"
+          >
+            <RefreshCw className={cn('h-4 w-4 mr-2', reconcileMutation.isPending && 'animate-spin')} />
+            Reconcile
+          </Button>
+        </div>
         <div className="space-y-3">
           <Progress value={progressPercent} className="h-2" />
           <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
@@ -49,6 +49,7 @@ import {
 } from '@/components/ui/select'
 import { formatDateTime } from '@/lib/utils'
 import { apiKeysApi, usersApi, type ApiKey } from '@/lib/api'
+import { AuditHistoryPanel } from '@/components/audit/audit-history-panel'
 
 interface User {
   _id: string
@@ -63,6 +64,16 @@ const AVAILABLE_SCOPES = [
   { value: 'tasks:write', label: 'Write Tasks', description: 'Create and update tasks' },
   { value: 'saved-searches:read', label: 'Read Saved Searches', description: 'Access saved searches/views' },
   { value: 'saved-searches:write', label: 'Write Saved Searches', description: 'Create and modify saved searches' },
+  { value: 'workflows:read', label: 'Read Workflows', description: 'View workflow definitions' },
+  { value: 'workflows:write', label: 'Write Workflows', description: 'Create and edit workflows' },
+  { value: 'workflow-runs:read', label: 'Read Workflow Runs', description: 'View workflow runs' },
+  { value: 'workflow-runs:write', label: 'Write Workflow Runs', description: 'Start, resume and cancel workflow runs' },
+  { value: 'batch-jobs:write', label: 'Write Batch Jobs', description: 'Create batch jobs and send batch callbacks' },
+  { value: 'external-jobs:write', label: 'Write External Jobs', description: 'Claim and complete external jobs' },
+  { value: 'webhooks:write', label: 'Write Webhooks', description: 'Configure outbound webhooks' },
+  { value: 'schedules:write', label: 'Write Schedules', description: 'Create, edit and run schedules' },
+  { value: 'users:write', label: 'Write Users', description: 'Create and edit users' },
+  { value: 'settings:write', label: 'Write Settings', description: 'Edit field configs, lookups and tags' },
 ]
 
 export default function ApiKeysPage() {
@@ -282,6 +293,9 @@ export default function ApiKeysPage() {
         </Table>
       </div>
 
+      {/* Change History */}
+      <AuditHistoryPanel entityTypes={['api-key']} />
+
       {/* Create API Key Modal */}
       <Dialog open={isCreateModalOpen} onOpenChange={setIsCreateModalOpen}>
         <DialogContent>
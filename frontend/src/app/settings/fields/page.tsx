@@ -43,6 +43,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
+import { AuditHistoryPanel } from '@/components/audit/audit-history-panel'
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || '/api'
 
@@ -889,6 +890,9 @@ export default function FieldSettingsPage() {
         </TabsContent>
       </Tabs>
 
+      {/* Change History */}
+      <AuditHistoryPanel entityTypes={['field-config', 'lookup']} />
+
       {/* Field Modal */}
       <Dialog open={isFieldModalOpen} onOpenChange={closeFieldModal}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
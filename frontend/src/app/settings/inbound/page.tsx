@@ -0,0 +1,675 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { format, formatDistanceToNow } from 'date-fns'
+import { Plus, Trash2, RotateCcw, Eye, EyeOff, ChevronDown, ChevronRight, Copy, Check } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { TagInput } from '@/components/ui/tag-input'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import {
+  inboundEndpointsApi,
+  InboundDelivery,
+  InboundDeliveryStatus,
+  InboundEndpoint,
+  InboundTargetType,
+  Workflow,
+} from '@/lib/api'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useWorkflows } from '@/hooks/use-tasks'
+
+const DELIVERY_STATUS_COLORS: Record<InboundDeliveryStatus, string> = {
+  accepted: 'bg-green-500',
+  duplicate: 'bg-gray-400',
+  processing: 'bg-blue-500',
+  rejected: 'bg-orange-500',
+  failed: 'bg-red-500',
+}
+
+const DELIVERY_STATUSES: InboundDeliveryStatus[] = ['accepted', 'duplicate', 'rejected', 'failed']
+
+function inboundUrl(slug: string) {
+  const origin = typeof window !== 'undefined' ? window.location.origin : ''
+  return `${origin}/api/inbound/${slug}`
+}
+
+function slugify(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 63)
+}
+
+// Parse an optional JSON object of key -> template strings
+function parseTemplateMap(value: string, label: string): Record<string, string> | undefined {
+  if (!value.trim()) return undefined
+  const parsed = JSON.parse(value)
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) ||
+    Object.values(parsed).some((v) => typeof v !== 'string')) {
+    throw new Error(`${label} must be a JSON object of template strings`)
+  }
+  return parsed
+}
+
+function InboundEndpointForm({
+  endpoint,
+  onSave,
+  onCancel,
+  isSaving,
+  error,
+  workflows,
+}: {
+  endpoint?: InboundEndpoint | null
+  onSave: (data: Partial<InboundEndpoint>) => void
+  onCancel: () => void
+  isSaving: boolean
+  error?: string | null
+  workflows: Workflow[]
+}) {
+  const mapping = endpoint?.taskMapping
+  const [name, setName] = useState(endpoint?.name || '')
+  const [slug, setSlug] = useState(endpoint?.slug || '')
+  const [slugEdited, setSlugEdited] = useState(!!endpoint)
+  const [description, setDescription] = useState(endpoint?.description || '')
+  const [signatureHeader, setSignatureHeader] = useState(endpoint?.signatureHeader || 'X-Signature')
+  const [targetType, setTargetType] = useState<InboundTargetType>(endpoint?.targetType || 'task')
+  const [externalIdPath, setExternalIdPath] = useState(endpoint?.externalIdPath || '')
+  const [isActive, setIsActive] = useState(endpoint?.isActive ?? true)
+
+  const [title, setTitle] = useState(mapping?.title || '')
+  const [summary, setSummary] = useState(mapping?.summary || '')
+  const [urgency, setUrgency] = useState(mapping?.urgency || '')
+  const [assigneeId, setAssigneeId] = useState(mapping?.assigneeId || '')
+  const [tags, setTags] = useState<string[]>(mapping?.tags || [])
+  const [metadata, setMetadata] = useState(
+    mapping?.metadata ? JSON.stringify(mapping.metadata, null, 2) : ''
+  )
+
+  const [workflowId, setWorkflowId] = useState(endpoint?.workflow?.workflowId || '')
+  const [inputMapping, setInputMapping] = useState(
+    endpoint?.workflow?.inputMapping ? JSON.stringify(endpoint.workflow.inputMapping, null, 2) : ''
+  )
+  const [jsonError, setJsonError] = useState<string | null>(null)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const data: Partial<InboundEndpoint> = {
+      name,
+      slug,
+      description,
+      signatureHeader,
+      targetType,
+      externalIdPath: externalIdPath || null,
+      isActive,
+    }
+
+    try {
+      if (targetType === 'task') {
+        data.taskMapping = {
+          title,
+          ...(summary && { summary }),
+          ...(urgency && { urgency }),
+          ...(assigneeId && { assigneeId }),
+          ...(tags.length > 0 && { tags }),
+          metadata: parseTemplateMap(metadata, 'Metadata'),
+        }
+      } else {
+        data.workflow = { workflowId, inputMapping: parseTemplateMap(inputMapping, 'Input mapping') ?? null }
+      }
+    } catch (err) {
+      setJsonError(err instanceof SyntaxError ? 'Mappings must be valid JSON' : (err as Error).message)
+      return
+    }
+    setJsonError(null)
+
+    onSave(data)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Name *</label>
+          <Input
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value)
+              if (!slugEdited) setSlug(slugify(e.target.value))
+            }}
+            placeholder="GitHub issues"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Slug *</label>
+          <Input
+            value={slug}
+            onChange={(e) => {
+              setSlugEdited(true)
+              setSlug(e.target.value)
+            }}
+            placeholder="github-issues"
+            className="font-mono"
+            required
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground -mt-2">
+        Requests are POSTed to <code className="bg-muted px-1 rounded">{inboundUrl(slug || '<slug>')}</code>
+      </p>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Description</label>
+        <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Signature Header *</label>
+          <Input value={signatureHeader} onChange={(e) => setSignatureHeader(e.target.value)} required />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">External ID Path</label>
+          <Input
+            value={externalIdPath}
+            onChange={(e) => setExternalIdPath(e.target.value)}
+            placeholder="issue.id"
+            className="font-mono"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground -mt-2">
+        Requests are signed with <code className="bg-muted px-1 rounded">sha256=HMAC-SHA256(secret, body)</code>.
+        Repeats of the ID at the external ID path are acknowledged without creating anything.
+      </p>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">On each request</label>
+        <Select value={targetType} onValueChange={(value) => setTargetType(value as InboundTargetType)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="task">Create a task</SelectItem>
+            <SelectItem value="workflow">Start a workflow</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {targetType === 'task' ? (
+        <div className="space-y-3 border rounded-md p-3">
+          <p className="text-xs text-muted-foreground">
+            Fields are templates over the request, e.g.{' '}
+            <code className="bg-muted px-1 rounded">{'{{body.issue.title}}'}</code>,{' '}
+            <code className="bg-muted px-1 rounded">{'{{headers.x-event}}'}</code> or{' '}
+            <code className="bg-muted px-1 rounded">{'{{query.source}}'}</code>
+          </p>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Task Title *</label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="{{body.issue.title}}" required />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Summary</label>
+            <Textarea value={summary} onChange={(e) => setSummary(e.target.value)} rows={2} placeholder="{{body.issue.body}}" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Urgency</label>
+              <Input value={urgency} onChange={(e) => setUrgency(e.target.value)} placeholder="normal" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Assignee ID</label>
+              <Input value={assigneeId} onChange={(e) => setAssigneeId(e.target.value)} placeholder="Unassigned" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Tags</label>
+            <TagInput value={tags} onChange={setTags} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Metadata (JSON)</label>
+            <Textarea
+              value={metadata}
+              onChange={(e) => setMetadata(e.target.value)}
+              rows={3}
+              placeholder='{ "issueUrl": "{{body.issue.html_url}}" }'
+              className="font-mono text-xs"
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3 border rounded-md p-3">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Workflow *</label>
+            <Select value={workflowId} onValueChange={setWorkflowId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a workflow..." />
+              </SelectTrigger>
+              <SelectContent>
+                {workflows.map((workflow) => (
+                  <SelectItem key={workflow._id} value={workflow._id}>{workflow.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Input Mapping (JSON)</label>
+            <Textarea
+              value={inputMapping}
+              onChange={(e) => setInputMapping(e.target.value)}
+              rows={4}
+              placeholder='{ "repo": "{{body.repository.name}}" }'
+              className="font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">Leave empty to use the request body as the workflow input</p>
+          </div>
+        </div>
+      )}
+
+      {jsonError && <p className="text-xs text-destructive">{jsonError}</p>}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id="inboundIsActive"
+          checked={isActive}
+          onChange={(e) => setIsActive(e.target.checked)}
+          className="rounded"
+        />
+        <label htmlFor="inboundIsActive" className="text-sm">Active</label>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving || (targetType === 'workflow' && !workflowId)}>
+          {isSaving ? 'Saving...' : endpoint ? 'Update' : 'Create'}
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
+
+// The list masks secrets, so the full secret is fetched when it's shown or copied
+function SecretDisplay({ endpointId }: { endpointId: string }) {
+  const [secret, setSecret] = useState<string | null>(null)
+  const [visible, setVisible] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const { can } = usePermissions()
+
+  const loadSecret = async () => {
+    if (secret) return secret
+    const result = await inboundEndpointsApi.get(endpointId)
+    setSecret(result.data.secret)
+    return result.data.secret
+  }
+
+  const rotateSecret = useMutation({
+    mutationFn: () => inboundEndpointsApi.rotateSecret(endpointId),
+    onSuccess: (result) => {
+      setSecret(result.data.secret)
+      toast.success('Secret rotated - update the sender')
+    },
+  })
+
+  const handleCopy = async () => {
+    navigator.clipboard.writeText(await loadSecret())
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <code className="flex-1 text-xs bg-muted px-2 py-1 rounded font-mono">
+        {visible && secret ? secret : '••••••••••••••••••••'}
+      </code>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={async () => {
+          if (!visible) await loadSecret()
+          setVisible(!visible)
+        }}
+      >
+        {visible ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={handleCopy}
+      >
+        {copied ? <Check className="h-3 w-3 text-green-500" /> : <Copy className="h-3 w-3" />}
+      </Button>
+      {can('webhooks:write') && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => {
+            if (confirm('Rotate the secret? Requests signed with the current secret will be rejected.')) {
+              rotateSecret.mutate()
+            }
+          }}
+          disabled={rotateSecret.isPending}
+          title="Rotate secret"
+        >
+          <RotateCcw className={cn('h-3 w-3', rotateSecret.isPending && 'animate-spin')} />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+function DeliveryRow({ delivery }: { delivery: InboundDelivery }) {
+  const [expanded, setExpanded] = useState(false)
+
+  return (
+    <div className="text-xs border-b pb-1 last:border-b-0">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          className="flex items-center gap-2 min-w-0 text-left"
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+          <span className={cn('w-2 h-2 rounded-full shrink-0', DELIVERY_STATUS_COLORS[delivery.status])} />
+          <span>{format(new Date(delivery.receivedAt), 'MMM d, HH:mm:ss')}</span>
+          <span className="bg-muted px-1 rounded">{delivery.status}</span>
+          <span className="text-muted-foreground">{delivery.statusCode}</span>
+          {delivery.externalId && <span className="font-mono truncate">{delivery.externalId}</span>}
+          {delivery.error && (
+            <span className="text-destructive truncate" title={delivery.error}>{delivery.error}</span>
+          )}
+        </button>
+        <div className="shrink-0">
+          {delivery.taskId && (
+            <Link href={`/tasks?taskId=${delivery.taskId}`} className="text-primary hover:underline">View task</Link>
+          )}
+          {delivery.workflowRunId && (
+            <Link href={`/workflow-runs?id=${delivery.workflowRunId}`} className="text-primary hover:underline">View run</Link>
+          )}
+        </div>
+      </div>
+      {expanded && (
+        <div className="mt-2 ml-5 space-y-2">
+          <div>
+            <div className="font-medium mb-1">Headers</div>
+            <pre className="bg-muted p-2 rounded overflow-x-auto max-h-40">{JSON.stringify(delivery.headers, null, 2)}</pre>
+          </div>
+          <div>
+            <div className="font-medium mb-1">Body</div>
+            <pre className="bg-muted p-2 rounded overflow-x-auto max-h-60">{JSON.stringify(delivery.body, null, 2)}</pre>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function DeliveryLog({ endpointId }: { endpointId: string }) {
+  const [expanded, setExpanded] = useState(false)
+  const [status, setStatus] = useState<InboundDeliveryStatus | 'all'>('all')
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['inbound-deliveries', endpointId, status],
+    queryFn: () => inboundEndpointsApi.getDeliveries(endpointId, {
+      limit: 20,
+      ...(status !== 'all' && { status }),
+    }),
+    enabled: expanded,
+  })
+
+  const deliveries = data?.data || []
+
+  return (
+    <div className="mt-2">
+      <button
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        Delivery Log
+      </button>
+
+      {expanded && (
+        <div className="mt-2 border rounded p-2 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">
+              {data ? `${data.pagination.total} deliveries in the last 30 days` : ''}
+            </span>
+            <Select value={status} onValueChange={(value) => setStatus(value as InboundDeliveryStatus | 'all')}>
+              <SelectTrigger className="h-7 w-32 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {DELIVERY_STATUSES.map((s) => (
+                  <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isLoading ? (
+            <div className="text-xs text-muted-foreground">Loading...</div>
+          ) : deliveries.length === 0 ? (
+            <div className="text-xs text-muted-foreground">No deliveries yet</div>
+          ) : (
+            deliveries.map((delivery) => <DeliveryRow key={delivery._id} delivery={delivery} />)
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function InboundEndpointCard({ endpoint, workflows }: { endpoint: InboundEndpoint; workflows: Workflow[] }) {
+  const [editing, setEditing] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const queryClient = useQueryClient()
+  const { can } = usePermissions()
+
+  const updateEndpoint = useMutation({
+    mutationFn: (data: Partial<InboundEndpoint>) => inboundEndpointsApi.update(endpoint._id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inbound-endpoints'] })
+      setEditing(false)
+    },
+  })
+
+  const deleteEndpoint = useMutation({
+    mutationFn: () => inboundEndpointsApi.delete(endpoint._id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inbound-endpoints'] })
+    },
+  })
+
+  const url = inboundUrl(endpoint.slug)
+  const target = endpoint.targetType === 'task'
+    ? `Creates "${endpoint.taskMapping?.title}"`
+    : `Starts ${workflows.find((w) => w._id === endpoint.workflow?.workflowId)?.name || 'a workflow'}`
+
+  return (
+    <div className={cn('border rounded-lg p-4', !endpoint.isActive && 'opacity-60')}>
+      <div className="flex items-start justify-between">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <h3 className="font-medium">{endpoint.name}</h3>
+            {!endpoint.isActive && (
+              <span className="text-xs bg-muted px-1.5 py-0.5 rounded">Disabled</span>
+            )}
+          </div>
+          {endpoint.description && (
+            <p className="text-sm text-muted-foreground mt-1">{endpoint.description}</p>
+          )}
+          <div className="flex items-center gap-1 mt-1">
+            <code className="text-xs bg-muted px-2 py-1 rounded font-mono truncate">POST {url}</code>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => {
+                navigator.clipboard.writeText(url)
+                setCopied(true)
+                setTimeout(() => setCopied(false), 2000)
+              }}
+              title="Copy URL"
+            >
+              {copied ? <Check className="h-3 w-3 text-green-500" /> : <Copy className="h-3 w-3" />}
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            {target}
+            {endpoint.externalIdPath && (
+              <span className="ml-2">· deduplicated by <code className="bg-muted px-1 rounded">{endpoint.externalIdPath}</code></span>
+            )}
+          </p>
+        </div>
+        {can('webhooks:write') && (
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={() => setEditing(true)}>
+              <span className="text-sm">Edit</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => {
+                if (confirm('Delete this inbound endpoint and its delivery log?')) {
+                  deleteEndpoint.mutate()
+                }
+              }}
+              disabled={deleteEndpoint.isPending}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-3 space-y-1 text-xs text-muted-foreground">
+        <div className="flex items-center gap-2">
+          <span>Secret ({endpoint.signatureHeader}):</span>
+          <SecretDisplay endpointId={endpoint._id} />
+        </div>
+        {endpoint.lastDeliveryAt && (
+          <p>Last delivery {formatDistanceToNow(new Date(endpoint.lastDeliveryAt), { addSuffix: true })}</p>
+        )}
+        <DeliveryLog endpointId={endpoint._id} />
+      </div>
+
+      <Dialog open={editing} onOpenChange={setEditing}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Edit Inbound Endpoint</DialogTitle>
+          </DialogHeader>
+          <InboundEndpointForm
+            endpoint={endpoint}
+            onSave={(data) => updateEndpoint.mutate(data)}
+            onCancel={() => setEditing(false)}
+            isSaving={updateEndpoint.isPending}
+            error={updateEndpoint.error?.message}
+            workflows={workflows}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export default function InboundEndpointsPage() {
+  const [creating, setCreating] = useState(false)
+  const queryClient = useQueryClient()
+  const { can } = usePermissions()
+  const canManageEndpoints = can('webhooks:write')
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['inbound-endpoints'],
+    queryFn: () => inboundEndpointsApi.list(),
+  })
+
+  const { data: workflowsData } = useWorkflows()
+
+  const createEndpoint = useMutation({
+    mutationFn: inboundEndpointsApi.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inbound-endpoints'] })
+      setCreating(false)
+    },
+  })
+
+  const endpoints = data?.data || []
+  const workflows = workflowsData?.data || []
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Inbound Endpoints</h1>
+          <p className="text-muted-foreground">
+            Let external services create tasks or start workflows with signed requests
+          </p>
+        </div>
+        {canManageEndpoints && (
+          <Button onClick={() => { createEndpoint.reset(); setCreating(true) }}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Endpoint
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-muted-foreground">Loading inbound endpoints...</div>
+      ) : endpoints.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg bg-muted/50">
+          <p className="text-muted-foreground mb-4">No inbound endpoints configured</p>
+          {canManageEndpoints && (
+            <Button onClick={() => setCreating(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create your first endpoint
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {endpoints.map((endpoint) => (
+            <InboundEndpointCard key={endpoint._id} endpoint={endpoint} workflows={workflows} />
+          ))}
+        </div>
+      )}
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Create Inbound Endpoint</DialogTitle>
+          </DialogHeader>
+          <InboundEndpointForm
+            onSave={(data) => createEndpoint.mutate(data)}
+            onCancel={() => setCreating(false)}
+            isSaving={createEndpoint.isPending}
+            error={createEndpoint.error?.message}
+            workflows={workflows}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 'use client'
 
 import Link from 'next/link'
-import { Database, Palette, Bell, Shield, Webhook, Activity, Key, Tags } from 'lucide-react'
+import { Database, Palette, Bell, Shield, Webhook, Activity, Key, Tags, CalendarClock, Inbox } from 'lucide-react'
+import { AuditHistoryPanel } from '@/components/audit/audit-history-panel'
 
 const settingsItems = [
   {
@@ -28,6 +29,18 @@ const settingsItems = [
     href: '/settings/webhooks',
     icon: Webhook,
   },
+  {
+    name: 'Inbound Endpoints',
+    description: 'Let external services create tasks or start workflows with signed requests',
+    href: '/settings/inbound',
+    icon: Inbox,
+  },
+  {
+    name: 'Schedules',
+    description: 'Create tasks or start workflows on a recurring schedule',
+    href: '/settings/schedules',
+    icon: CalendarClock,
+  },
   {
     name: 'Activity Tracking',
     description: 'Configure which fields trigger activity log entries',
@@ -94,6 +107,8 @@ export default function SettingsPage() {
           </Link>
         ))}
       </div>
+
+      <AuditHistoryPanel title="Recent Changes" />
     </div>
   )
 }
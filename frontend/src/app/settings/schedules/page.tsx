@@ -0,0 +1,618 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { format, formatDistanceToNow } from 'date-fns'
+import { Plus, Trash2, Play, Pause, ChevronDown, ChevronRight, CalendarClock } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { TagInput } from '@/components/ui/tag-input'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import {
+  schedulesApi,
+  Schedule,
+  ScheduleCatchUpPolicy,
+  ScheduleTargetType,
+  User,
+  Workflow,
+} from '@/lib/api'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useUsers, useWorkflows } from '@/hooks/use-tasks'
+import { CronPreview, browserTimezone } from '@/components/schedules/cron-preview'
+
+const CATCH_UP_POLICIES: { value: ScheduleCatchUpPolicy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip missed runs', description: 'Wait for the next scheduled time' },
+  { value: 'run_once', label: 'Run once', description: 'One run stands in for all missed runs' },
+  { value: 'run_all', label: 'Run every missed run', description: 'Oldest first, at most 50' },
+]
+
+const URGENCIES = ['low', 'normal', 'high', 'urgent']
+
+const CRON_EXAMPLES = [
+  { value: '0 9 * * mon-fri', label: 'Weekdays at 09:00' },
+  { value: '0 * * * *', label: 'Every hour' },
+  { value: '0 0 * * *', label: 'Every day at midnight' },
+  { value: '0 9 * * mon', label: 'Mondays at 09:00' },
+  { value: '0 9 1 * *', label: 'First of the month at 09:00' },
+]
+
+const RUN_STATUS_COLORS: Record<string, string> = {
+  succeeded: 'bg-green-500',
+  failed: 'bg-red-500',
+  running: 'bg-blue-500',
+  skipped: 'bg-gray-400',
+}
+
+function ScheduleForm({
+  schedule,
+  onSave,
+  onCancel,
+  isSaving,
+  error,
+  users,
+  workflows,
+}: {
+  schedule?: Schedule | null
+  onSave: (data: Partial<Schedule>) => void
+  onCancel: () => void
+  isSaving: boolean
+  error?: string | null
+  users: User[]
+  workflows: Workflow[]
+}) {
+  const template = schedule?.taskTemplate
+  const [name, setName] = useState(schedule?.name || '')
+  const [description, setDescription] = useState(schedule?.description || '')
+  const [cronExpression, setCronExpression] = useState(schedule?.cronExpression || '0 9 * * mon-fri')
+  const [timezone, setTimezone] = useState(schedule?.timezone || browserTimezone())
+  const [targetType, setTargetType] = useState<ScheduleTargetType>(schedule?.targetType || 'task')
+  const [catchUpPolicy, setCatchUpPolicy] = useState<ScheduleCatchUpPolicy>(schedule?.catchUpPolicy || 'skip')
+  const [isActive, setIsActive] = useState(schedule?.isActive ?? true)
+
+  const [title, setTitle] = useState(template?.title || '')
+  const [summary, setSummary] = useState(template?.summary || '')
+  const [assigneeId, setAssigneeId] = useState<string | null>(template?.assigneeId || null)
+  const [tags, setTags] = useState<string[]>(template?.tags || [])
+  const [urgency, setUrgency] = useState(template?.urgency || 'normal')
+  const [dueOffsetHours, setDueOffsetHours] = useState(
+    template?.dueOffsetHours !== undefined ? String(template.dueOffsetHours) : ''
+  )
+
+  const [workflowId, setWorkflowId] = useState(schedule?.workflow?.workflowId || '')
+  const [inputPayload, setInputPayload] = useState(
+    schedule?.workflow?.inputPayload ? JSON.stringify(schedule.workflow.inputPayload, null, 2) : '{}'
+  )
+  const [payloadError, setPayloadError] = useState<string | null>(null)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const data: Partial<Schedule> = {
+      name,
+      description,
+      cronExpression,
+      timezone,
+      targetType,
+      catchUpPolicy,
+      isActive,
+    }
+
+    if (targetType === 'task') {
+      data.taskTemplate = {
+        title,
+        summary: summary || undefined,
+        assigneeId,
+        tags,
+        urgency,
+        ...(dueOffsetHours !== '' && { dueOffsetHours: Number(dueOffsetHours) }),
+      }
+    } else {
+      let payload: Record<string, unknown>
+      try {
+        payload = JSON.parse(inputPayload || '{}')
+      } catch {
+        setPayloadError('Input payload must be valid JSON')
+        return
+      }
+      setPayloadError(null)
+      data.workflow = { workflowId, inputPayload: payload }
+    }
+
+    onSave(data)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Name *</label>
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Weekly report" required />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Description</label>
+        <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Cron Expression *</label>
+          <Input
+            value={cronExpression}
+            onChange={(e) => setCronExpression(e.target.value)}
+            placeholder="0 9 * * mon-fri"
+            className="font-mono"
+            list="cron-examples"
+            required
+          />
+          <datalist id="cron-examples">
+            {CRON_EXAMPLES.map((example) => (
+              <option key={example.value} value={example.value}>{example.label}</option>
+            ))}
+          </datalist>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Timezone *</label>
+          <Input value={timezone} onChange={(e) => setTimezone(e.target.value)} placeholder="Europe/London" required />
+        </div>
+      </div>
+      <CronPreview cronExpression={cronExpression} timezone={timezone} />
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">On each run</label>
+        <Select value={targetType} onValueChange={(value) => setTargetType(value as ScheduleTargetType)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="task">Create a task</SelectItem>
+            <SelectItem value="workflow">Start a workflow</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {targetType === 'task' ? (
+        <div className="space-y-3 border rounded-md p-3">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Task Title *</label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Weekly report {{date}}"
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              <code className="bg-muted px-1 rounded">{'{{date}}'}</code> is replaced with the run date
+            </p>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Summary</label>
+            <Textarea value={summary} onChange={(e) => setSummary(e.target.value)} rows={2} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Assignee</label>
+              <Select
+                value={assigneeId || 'none'}
+                onValueChange={(value) => setAssigneeId(value === 'none' ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unassigned</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user._id} value={user._id}>{user.displayName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Urgency</label>
+              <Select value={urgency} onValueChange={setUrgency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {URGENCIES.map((u) => (
+                    <SelectItem key={u} value={u} className="capitalize">{u}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Tags</label>
+            <TagInput value={tags} onChange={setTags} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Due (hours after the scheduled time)</label>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={dueOffsetHours}
+              onChange={(e) => setDueOffsetHours(e.target.value)}
+              placeholder="No due date"
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3 border rounded-md p-3">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Workflow *</label>
+            <Select value={workflowId} onValueChange={setWorkflowId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a workflow..." />
+              </SelectTrigger>
+              <SelectContent>
+                {workflows.map((workflow) => (
+                  <SelectItem key={workflow._id} value={workflow._id}>{workflow.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Input Payload (JSON)</label>
+            <Textarea
+              value={inputPayload}
+              onChange={(e) => setInputPayload(e.target.value)}
+              rows={5}
+              className="font-mono text-xs"
+            />
+            {payloadError && <p className="text-xs text-destructive">{payloadError}</p>}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Missed runs</label>
+        <Select value={catchUpPolicy} onValueChange={(value) => setCatchUpPolicy(value as ScheduleCatchUpPolicy)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CATCH_UP_POLICIES.map((policy) => (
+              <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Runs that fell due while the server was down. {CATCH_UP_POLICIES.find((p) => p.value === catchUpPolicy)?.description}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id="scheduleIsActive"
+          checked={isActive}
+          onChange={(e) => setIsActive(e.target.checked)}
+          className="rounded"
+        />
+        <label htmlFor="scheduleIsActive" className="text-sm">Active</label>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving || (targetType === 'workflow' && !workflowId)}>
+          {isSaving ? 'Saving...' : schedule ? 'Update' : 'Create'}
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
+
+function RunHistory({ scheduleId }: { scheduleId: string }) {
+  const [expanded, setExpanded] = useState(false)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['schedule-runs', scheduleId],
+    queryFn: () => schedulesApi.getRuns(scheduleId, { limit: 10 }),
+    enabled: expanded,
+  })
+
+  const runs = data?.data || []
+
+  return (
+    <div className="mt-2">
+      <button
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        Run History
+      </button>
+
+      {expanded && (
+        <div className="mt-2 border rounded p-2 space-y-2">
+          {isLoading ? (
+            <div className="text-xs text-muted-foreground">Loading...</div>
+          ) : runs.length === 0 ? (
+            <div className="text-xs text-muted-foreground">No runs yet</div>
+          ) : (
+            runs.map((run) => (
+              <div
+                key={run._id}
+                className="flex items-center justify-between gap-2 text-xs border-b pb-1 last:border-b-0"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className={cn('w-2 h-2 rounded-full shrink-0', RUN_STATUS_COLORS[run.status])} />
+                  <span>{format(new Date(run.scheduledFor), 'MMM d, HH:mm')}</span>
+                  {run.trigger !== 'schedule' && (
+                    <span className="bg-muted px-1 rounded">{run.trigger === 'manual' ? 'manual' : 'catch-up'}</span>
+                  )}
+                  {run.error && (
+                    <span className={cn('truncate', run.status === 'failed' ? 'text-destructive' : 'text-muted-foreground')} title={run.error}>
+                      {run.error}
+                    </span>
+                  )}
+                </div>
+                <div className="shrink-0">
+                  {run.taskId && (
+                    <Link href={`/tasks?taskId=${run.taskId}`} className="text-primary hover:underline">View task</Link>
+                  )}
+                  {run.workflowRunId && (
+                    <Link href={`/workflow-runs?id=${run.workflowRunId}`} className="text-primary hover:underline">View run</Link>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ScheduleCard({ schedule, users, workflows }: { schedule: Schedule; users: User[]; workflows: Workflow[] }) {
+  const [editing, setEditing] = useState(false)
+  const queryClient = useQueryClient()
+  const { can } = usePermissions()
+
+  const updateSchedule = useMutation({
+    mutationFn: (data: Partial<Schedule>) => schedulesApi.update(schedule._id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] })
+      setEditing(false)
+    },
+  })
+
+  const deleteSchedule = useMutation({
+    mutationFn: () => schedulesApi.delete(schedule._id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] })
+    },
+  })
+
+  const runNow = useMutation({
+    mutationFn: () => schedulesApi.runNow(schedule._id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] })
+      queryClient.invalidateQueries({ queryKey: ['schedule-runs', schedule._id] })
+      if (result.data.status === 'failed') {
+        toast.error(`Run failed: ${result.data.error}`)
+      } else {
+        toast.success(schedule.targetType === 'task' ? 'Task created' : 'Workflow started')
+      }
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed to run schedule'),
+  })
+
+  // Schedules behind a workflow cron trigger are changed by editing the workflow
+  const managed = !!schedule.workflowTrigger
+
+  const target = schedule.targetType === 'task'
+    ? `Creates "${schedule.taskTemplate?.title}"`
+    : `Starts ${workflows.find((w) => w._id === schedule.workflow?.workflowId)?.name || 'a workflow'}`
+
+  return (
+    <div className={cn('border rounded-lg p-4', !schedule.isActive && 'opacity-60')}>
+      <div className="flex items-start justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-2">
+            <h3 className="font-medium">{schedule.name}</h3>
+            {!schedule.isActive && (
+              <span className="text-xs bg-muted px-1.5 py-0.5 rounded">Paused</span>
+            )}
+            {managed && (
+              <Link
+                href="/workflows"
+                className="text-xs bg-muted px-1.5 py-0.5 rounded hover:underline"
+                title="This schedule follows the workflow's cron trigger - edit the workflow to change it"
+              >
+                Managed by workflow
+              </Link>
+            )}
+          </div>
+          {schedule.description && (
+            <p className="text-sm text-muted-foreground mt-1">{schedule.description}</p>
+          )}
+          <p className="text-sm text-muted-foreground mt-1">
+            <code className="bg-muted px-1 rounded font-mono">{schedule.cronExpression}</code>
+            <span className="ml-2">{schedule.timezone}</span>
+            <span className="ml-2">· {target}</span>
+          </p>
+        </div>
+        {can('schedules:write') && (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => runNow.mutate()}
+              disabled={runNow.isPending}
+              title="Run now"
+            >
+              <Play className={cn('h-4 w-4', runNow.isPending && 'animate-pulse')} />
+            </Button>
+            {!managed && (
+            <>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => updateSchedule.mutate({ isActive: !schedule.isActive })}
+              disabled={updateSchedule.isPending}
+              title={schedule.isActive ? 'Pause' : 'Resume'}
+            >
+              {schedule.isActive ? <Pause className="h-4 w-4" /> : <CalendarClock className="h-4 w-4" />}
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => setEditing(true)}>
+              <span className="text-sm">Edit</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => {
+                if (confirm('Delete this schedule and its run history?')) {
+                  deleteSchedule.mutate()
+                }
+              }}
+              disabled={deleteSchedule.isPending}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+            </>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-3 space-y-1 text-xs text-muted-foreground">
+        {schedule.nextRunAt && (
+          <p>
+            Next run: <span className="text-foreground">{format(new Date(schedule.nextRunAt), 'EEE MMM d, HH:mm')}</span>
+            {' '}({formatDistanceToNow(new Date(schedule.nextRunAt), { addSuffix: true })})
+          </p>
+        )}
+        {schedule.lastRunAt && (
+          <p className="flex items-center gap-1">
+            Last run:
+            <span className={cn('w-2 h-2 rounded-full', RUN_STATUS_COLORS[schedule.lastRunStatus || ''])} />
+            {formatDistanceToNow(new Date(schedule.lastRunAt), { addSuffix: true })}
+            {schedule.lastError && <span className="text-destructive truncate">- {schedule.lastError}</span>}
+          </p>
+        )}
+        <RunHistory scheduleId={schedule._id} />
+      </div>
+
+      <Dialog open={editing} onOpenChange={setEditing}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Edit Schedule</DialogTitle>
+          </DialogHeader>
+          <ScheduleForm
+            schedule={schedule}
+            onSave={(data) => updateSchedule.mutate(data)}
+            onCancel={() => setEditing(false)}
+            isSaving={updateSchedule.isPending}
+            error={updateSchedule.error?.message}
+            users={users}
+            workflows={workflows}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export default function SchedulesPage() {
+  const [creating, setCreating] = useState(false)
+  const queryClient = useQueryClient()
+  const { can } = usePermissions()
+  const canManageSchedules = can('schedules:write')
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['schedules'],
+    queryFn: () => schedulesApi.list(),
+  })
+
+  const { data: usersData } = useUsers()
+  const { data: workflowsData } = useWorkflows()
+
+  const createSchedule = useMutation({
+    mutationFn: schedulesApi.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] })
+      setCreating(false)
+    },
+  })
+
+  const schedules = data?.data || []
+  const users = usersData?.data || []
+  const workflows = workflowsData?.data || []
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Schedules</h1>
+          <p className="text-muted-foreground">
+            Create tasks or start workflows on a recurring schedule
+          </p>
+        </div>
+        {canManageSchedules && (
+          <Button onClick={() => { createSchedule.reset(); setCreating(true) }}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Schedule
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-muted-foreground">Loading schedules...</div>
+      ) : schedules.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg bg-muted/50">
+          <p className="text-muted-foreground mb-4">No schedules configured</p>
+          {canManageSchedules && (
+            <Button onClick={() => setCreating(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create your first schedule
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {schedules.map((schedule) => (
+            <ScheduleCard key={schedule._id} schedule={schedule} users={users} workflows={workflows} />
+          ))}
+        </div>
+      )}
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Create Schedule</DialogTitle>
+          </DialogHeader>
+          <ScheduleForm
+            onSave={(data) => createSchedule.mutate(data)}
+            onCancel={() => setCreating(false)}
+            isSaving={createSchedule.isPending}
+            error={createSchedule.error?.message}
+            users={users}
+            workflows={workflows}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
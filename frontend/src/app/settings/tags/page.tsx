@@ -21,6 +21,7 @@ import {
 import { cn } from '@/lib/utils'
 import { authFetch } from '@/lib/api'
 import { Textarea } from '@/components/ui/textarea'
+import { AuditHistoryPanel } from '@/components/audit/audit-history-panel'
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || '/api'
 
@@ -303,6 +304,9 @@ export default function TagsSettingsPage() {
         </div>
       )}
 
+      {/* Change History */}
+      <AuditHistoryPanel entityTypes={['tag']} />
+
       {/* Tag Modal */}
       <Dialog open={isModalOpen} onOpenChange={closeModal}>
         <DialogContent className="max-w-lg">
@@ -1,11 +1,14 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { formatDistanceToNow } from 'date-fns'
-import { Plus, Trash2, RotateCcw, Eye, EyeOff, TestTube, ChevronDown, ChevronRight, Copy, Check, Filter } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { Plus, Trash2, RotateCcw, Eye, EyeOff, TestTube, ChevronDown, ChevronRight, Copy, Check, Filter, ZapOff } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
 import {
   Dialog,
   DialogContent,
@@ -21,7 +24,9 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { cn } from '@/lib/utils'
-import { webhooksApi, viewsApi, Webhook, WebhookDelivery, View } from '@/lib/api'
+import { webhooksApi, viewsApi, Webhook, WebhookDelivery, WebhookPreview, View } from '@/lib/api'
+import { usePermissions } from '@/hooks/use-permissions'
+import { AuditHistoryPanel } from '@/components/audit/audit-history-panel'
 
 const WEBHOOK_TRIGGERS = [
   { value: 'task.created', label: 'Task Created' },
@@ -33,6 +38,43 @@ const WEBHOOK_TRIGGERS = [
   { value: 'task.entered_filter', label: 'Entered Filter' },
 ]
 
+const WEBHOOK_METHODS = ['POST', 'PUT', 'PATCH'] as const
+
+const DEFAULT_FAILURE_THRESHOLD = 10
+
+// Headers are edited as one "Name: value" per line
+function formatHeaders(headers?: Record<string, string> | null) {
+  return Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n')
+}
+
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':')
+    if (separator <= 0) continue
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim()
+  }
+  return headers
+}
+
+function RequestPreview({ preview }: { preview: WebhookPreview }) {
+  return (
+    <div className="border rounded p-2 space-y-2 text-xs">
+      <p className="text-muted-foreground">
+        Rendered against {preview.event.type} from {formatDistanceToNow(new Date(preview.event.timestamp), { addSuffix: true })}
+      </p>
+      <pre className="bg-muted p-2 rounded overflow-x-auto">
+        {[
+          preview.request.method,
+          ...Object.entries(preview.request.headers).map(([name, value]) => `${name}: ${value}`),
+        ].join('\n')}
+      </pre>
+      <pre className="bg-muted p-2 rounded overflow-x-auto max-h-60 whitespace-pre-wrap">{preview.request.body}</pre>
+      {preview.bodyError && <p className="text-destructive">{preview.bodyError}</p>}
+    </div>
+  )
+}
+
 function WebhookForm({
   webhook,
   onSave,
@@ -52,6 +94,23 @@ function WebhookForm({
   const [savedSearchId, setSavedSearchId] = useState<string | null>(webhook?.savedSearchId || null)
   const [filterQuery, setFilterQuery] = useState(webhook?.filterQuery || '')
   const [isActive, setIsActive] = useState(webhook?.isActive ?? true)
+  const [failureThreshold, setFailureThreshold] = useState(String(webhook?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD))
+  const [method, setMethod] = useState<NonNullable<Webhook['method']>>(webhook?.method || 'POST')
+  const [headers, setHeaders] = useState(formatHeaders(webhook?.headers))
+  const [bodyTemplate, setBodyTemplate] = useState(webhook?.bodyTemplate || '')
+  const [showRequestOptions, setShowRequestOptions] = useState(
+    !!(webhook?.bodyTemplate || (webhook?.method && webhook.method !== 'POST') || Object.keys(webhook?.headers || {}).length)
+  )
+
+  const preview = useMutation({
+    mutationFn: () => webhooksApi.preview({
+      method,
+      headers: parseHeaders(headers),
+      bodyTemplate: bodyTemplate || null,
+      triggers,
+      webhookId: webhook?._id,
+    }),
+  })
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -62,6 +121,10 @@ function WebhookForm({
       savedSearchId: savedSearchId || undefined,
       filterQuery: filterQuery || undefined,
       isActive,
+      failureThreshold: parseInt(failureThreshold, 10) || DEFAULT_FAILURE_THRESHOLD,
+      method,
+      headers: parseHeaders(headers),
+      bodyTemplate: bodyTemplate || null,
     })
   }
 
@@ -74,7 +137,7 @@ function WebhookForm({
   }
 
   return (
-    <form onSubmit={handleSubmit} className="space-y-4">
+    <form onSubmit={handleSubmit} className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
       <div className="space-y-2">
         <label className="text-sm font-medium">Name *</label>
         <Input
@@ -158,6 +221,86 @@ function WebhookForm({
         </div>
       )}
 
+      <div className="space-y-2">
+        <button
+          type="button"
+          className="flex items-center gap-1 text-sm font-medium"
+          onClick={() => setShowRequestOptions(!showRequestOptions)}
+        >
+          {showRequestOptions ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          Request Format
+        </button>
+        {showRequestOptions && (
+          <div className="space-y-3 border rounded-md p-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Method</label>
+              <Select value={method} onValueChange={(value) => setMethod(value as typeof method)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEBHOOK_METHODS.map((m) => (
+                    <SelectItem key={m} value={m}>{m}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Headers</label>
+              <Textarea
+                value={headers}
+                onChange={(e) => setHeaders(e.target.value)}
+                rows={2}
+                placeholder="Authorization: Bearer token"
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">One &quot;Name: value&quot; per line</p>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Body Template</label>
+              <Textarea
+                value={bodyTemplate}
+                onChange={(e) => setBodyTemplate(e.target.value)}
+                rows={4}
+                placeholder='{ "text": "{{task.title}} is now {{task.status}}" }'
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                Use <code className="bg-muted px-1 rounded">{'{{event.type}}'}</code>,{' '}
+                <code className="bg-muted px-1 rounded">{'{{task.title}}'}</code> or{' '}
+                <code className="bg-muted px-1 rounded">{'{{changes}}'}</code>. Leave empty to send the event as JSON.
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => preview.mutate()}
+              disabled={preview.isPending}
+            >
+              {preview.isPending ? 'Rendering...' : 'Preview'}
+            </Button>
+            {preview.error && <p className="text-xs text-destructive">{preview.error.message}</p>}
+            {preview.data && <RequestPreview preview={preview.data.data} />}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Failure Threshold</label>
+        <Input
+          type="number"
+          min={1}
+          max={100}
+          value={failureThreshold}
+          onChange={(e) => setFailureThreshold(e.target.value)}
+          className="w-24"
+        />
+        <p className="text-xs text-muted-foreground">
+          Consecutive failed attempts before deliveries are paused and an alert task is created
+        </p>
+      </div>
+
       <div className="flex items-center gap-2">
         <input
           type="checkbox"
@@ -181,55 +324,86 @@ function WebhookForm({
   )
 }
 
-function SecretDisplay({ secret, webhookId }: { secret: string; webhookId: string }) {
+function SecretDisplay({
+  secret,
+  webhookId,
+  previousSecretExpiresAt,
+}: {
+  secret: string
+  webhookId: string
+  previousSecretExpiresAt?: string | null
+}) {
   const [visible, setVisible] = useState(false)
   const [copied, setCopied] = useState(false)
+  // The list masks secrets - after a rotation the new secret is shown once so it can be copied
+  const [rotatedSecret, setRotatedSecret] = useState<string | null>(null)
   const queryClient = useQueryClient()
+  const { can } = usePermissions()
 
   const rotateSecret = useMutation({
     mutationFn: () => webhooksApi.rotateSecret(webhookId),
-    onSuccess: () => {
+    onSuccess: (result) => {
+      setRotatedSecret(result.data.secret)
+      setVisible(true)
       queryClient.invalidateQueries({ queryKey: ['webhooks'] })
     },
   })
 
+  const shownSecret = rotatedSecret || secret
+  const graceEndsAt = previousSecretExpiresAt && new Date(previousSecretExpiresAt) > new Date()
+    ? new Date(previousSecretExpiresAt)
+    : null
+
   const handleCopy = () => {
-    navigator.clipboard.writeText(secret)
+    navigator.clipboard.writeText(shownSecret)
     setCopied(true)
     setTimeout(() => setCopied(false), 2000)
   }
 
   return (
-    <div className="flex items-center gap-2">
-      <code className="flex-1 text-xs bg-muted px-2 py-1 rounded font-mono">
-        {visible ? secret : '••••••••••••••••••••'}
-      </code>
-      <Button
-        variant="ghost"
-        size="icon"
-        className="h-6 w-6"
-        onClick={() => setVisible(!visible)}
-      >
-        {visible ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
-      </Button>
-      <Button
-        variant="ghost"
-        size="icon"
-        className="h-6 w-6"
-        onClick={handleCopy}
-      >
-        {copied ? <Check className="h-3 w-3 text-green-500" /> : <Copy className="h-3 w-3" />}
-      </Button>
-      <Button
-        variant="ghost"
-        size="icon"
-        className="h-6 w-6"
-        onClick={() => rotateSecret.mutate()}
-        disabled={rotateSecret.isPending}
-        title="Rotate secret"
-      >
-        <RotateCcw className={cn('h-3 w-3', rotateSecret.isPending && 'animate-spin')} />
-      </Button>
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <code className="flex-1 text-xs bg-muted px-2 py-1 rounded font-mono">
+          {visible ? shownSecret : '••••••••••••••••••••'}
+        </code>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => setVisible(!visible)}
+        >
+          {visible ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={handleCopy}
+        >
+          {copied ? <Check className="h-3 w-3 text-green-500" /> : <Copy className="h-3 w-3" />}
+        </Button>
+        {can('webhooks:write') && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => {
+              if (confirm('Rotate the secret? Deliveries are signed with both the old and the new secret for the next 24 hours.')) {
+                rotateSecret.mutate()
+              }
+            }}
+            disabled={rotateSecret.isPending}
+            title="Rotate secret"
+          >
+            <RotateCcw className={cn('h-3 w-3', rotateSecret.isPending && 'animate-spin')} />
+          </Button>
+        )}
+      </div>
+      {graceEndsAt && (
+        <p className="text-xs text-muted-foreground">
+          The previous secret also signs deliveries until {format(graceEndsAt, 'MMM d, HH:mm')}
+        </p>
+      )}
     </div>
   )
 }
@@ -314,6 +488,7 @@ function DeliveryHistory({ webhookId }: { webhookId: string }) {
 function WebhookCard({ webhook, savedSearches }: { webhook: Webhook; savedSearches: View[] }) {
   const [editing, setEditing] = useState(false)
   const queryClient = useQueryClient()
+  const { can } = usePermissions()
 
   const updateWebhook = useMutation({
     mutationFn: (data: Partial<Webhook>) => webhooksApi.update(webhook._id, data),
@@ -334,6 +509,17 @@ function WebhookCard({ webhook, savedSearches }: { webhook: Webhook; savedSearch
     mutationFn: () => webhooksApi.test(webhook._id),
   })
 
+  const resetCircuit = useMutation({
+    mutationFn: () => webhooksApi.resetCircuit(webhook._id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] })
+      toast.success('Deliveries resumed - replay the dead letters to resend missed events')
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const circuitOpen = webhook.circuitState === 'open' || webhook.circuitState === 'half_open'
+
   const linkedSavedSearch = webhook.savedSearchId
     ? savedSearches.find((s) => s._id === webhook.savedSearchId)
     : null
@@ -347,9 +533,16 @@ function WebhookCard({ webhook, savedSearches }: { webhook: Webhook; savedSearch
             {!webhook.isActive && (
               <span className="text-xs bg-muted px-1.5 py-0.5 rounded">Inactive</span>
             )}
+            {circuitOpen && (
+              <span className="text-xs bg-destructive/10 text-destructive px-1.5 py-0.5 rounded flex items-center gap-1">
+                <ZapOff className="h-3 w-3" />
+                {webhook.circuitState === 'half_open' ? 'Probing' : 'Circuit open'}
+              </span>
+            )}
           </div>
           <p className="text-sm text-muted-foreground mt-1 font-mono">{webhook.url}</p>
         </div>
+        {can('webhooks:write') && (
         <div className="flex items-center gap-1">
           <Button
             variant="ghost"
@@ -376,6 +569,7 @@ function WebhookCard({ webhook, savedSearches }: { webhook: Webhook; savedSearch
             <Trash2 className="h-4 w-4 text-destructive" />
           </Button>
         </div>
+        )}
       </div>
 
       <div className="mt-3 space-y-2">
@@ -403,9 +597,53 @@ function WebhookCard({ webhook, savedSearches }: { webhook: Webhook; savedSearch
           </p>
         )}
 
+        {circuitOpen ? (
+          <div className="text-xs border border-destructive/30 bg-destructive/5 rounded p-2 space-y-1">
+            <p>
+              Paused after {webhook.consecutiveFailures} consecutive failures
+              {webhook.circuitOpenedAt && ` ${formatDistanceToNow(new Date(webhook.circuitOpenedAt), { addSuffix: true })}`}.
+              New events are dead-lettered until the endpoint recovers.
+            </p>
+            {webhook.lastError && (
+              <p className="text-muted-foreground">Last error: <code className="bg-muted px-1 rounded">{webhook.lastError}</code></p>
+            )}
+            <div className="flex items-center gap-3">
+              {webhook.nextProbeAt && webhook.circuitState === 'open' && (
+                <span className="text-muted-foreground">
+                  Next probe {formatDistanceToNow(new Date(webhook.nextProbeAt), { addSuffix: true })}
+                </span>
+              )}
+              {webhook.alertTaskId && (
+                <Link href={`/tasks?taskId=${webhook.alertTaskId}`} className="text-primary hover:underline">
+                  View alert task
+                </Link>
+              )}
+              {can('webhooks:write') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 text-xs"
+                  onClick={() => resetCircuit.mutate()}
+                  disabled={resetCircuit.isPending}
+                >
+                  Resume deliveries
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : !!webhook.consecutiveFailures && (
+          <p className="text-xs text-muted-foreground">
+            {webhook.consecutiveFailures} of {webhook.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD} failures before deliveries pause
+          </p>
+        )}
+
         <div className="text-xs text-muted-foreground">
           Secret:
-          <SecretDisplay secret={webhook.secret} webhookId={webhook._id} />
+          <SecretDisplay
+            secret={webhook.secret}
+            webhookId={webhook._id}
+            previousSecretExpiresAt={webhook.previousSecretExpiresAt}
+          />
         </div>
 
         <DeliveryHistory webhookId={webhook._id} />
@@ -429,9 +667,124 @@ function WebhookCard({ webhook, savedSearches }: { webhook: Webhook; savedSearch
   )
 }
 
+function DeadLetters({ webhooks }: { webhooks: Webhook[] }) {
+  const [expanded, setExpanded] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
+  const queryClient = useQueryClient()
+  const { can } = usePermissions()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['webhook-deliveries', 'failed'],
+    queryFn: () => webhooksApi.getAllDeliveries({ status: 'failed', limit: 100 }),
+    enabled: expanded,
+  })
+
+  const replay = useMutation({
+    mutationFn: webhooksApi.replayDeliveries,
+    onSuccess: (result) => {
+      const { replayed, skipped } = result.data
+      toast.success(
+        `Replaying ${replayed} ${replayed === 1 ? 'delivery' : 'deliveries'}` +
+          (skipped ? ` - ${skipped} skipped (webhook inactive or circuit open)` : '')
+      )
+      setSelected([])
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries'] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const deliveries = data?.data || []
+  const total = data?.pagination.total ?? 0
+  const webhookNames = new Map(webhooks.map((w) => [w._id, w.name]))
+
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id])
+  }
+
+  return (
+    <div className="border rounded-lg p-4">
+      <button
+        className="flex items-center gap-1 font-medium"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        Dead Letters
+      </button>
+      <p className="text-sm text-muted-foreground mt-1">
+        Deliveries that failed every attempt or were held back while a circuit was open
+      </p>
+
+      {expanded && (
+        <div className="mt-3 space-y-2">
+          {can('webhooks:write') && deliveries.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => replay.mutate({ deliveryIds: selected })}
+                disabled={selected.length === 0 || replay.isPending}
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Replay selected ({selected.length})
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  if (confirm(`Replay all ${total} failed deliveries?`)) {
+                    replay.mutate({ all: true })
+                  }
+                }}
+                disabled={replay.isPending}
+              >
+                Replay all
+              </Button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-xs text-muted-foreground">Loading...</div>
+          ) : deliveries.length === 0 ? (
+            <div className="text-xs text-muted-foreground">No failed deliveries</div>
+          ) : (
+            <div className="border rounded divide-y">
+              {deliveries.map((delivery: WebhookDelivery) => (
+                <label
+                  key={delivery._id}
+                  className="flex items-center gap-2 p-2 text-xs cursor-pointer hover:bg-muted/50"
+                >
+                  {can('webhooks:write') && (
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(delivery._id)}
+                      onChange={() => toggle(delivery._id)}
+                      className="rounded"
+                    />
+                  )}
+                  <span className="font-medium">{webhookNames.get(delivery.webhookId) || 'Deleted webhook'}</span>
+                  <span>{delivery.eventType}</span>
+                  <span className="text-destructive truncate flex-1">{delivery.error}</span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+          {total > deliveries.length && (
+            <p className="text-xs text-muted-foreground">Showing the latest {deliveries.length} of {total}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
 export default function WebhooksPage() {
   const [creating, setCreating] = useState(false)
   const queryClient = useQueryClient()
+  const { can } = usePermissions()
+  const canManageWebhooks = can('webhooks:write')
 
   const { data, isLoading } = useQuery({
     queryKey: ['webhooks'],
@@ -463,10 +816,12 @@ export default function WebhooksPage() {
             Configure webhooks to notify external services when task events occur
           </p>
         </div>
-        <Button onClick={() => setCreating(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Webhook
-        </Button>
+        {canManageWebhooks && (
+          <Button onClick={() => setCreating(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Webhook
+          </Button>
+        )}
       </div>
 
       {isLoading ? (
@@ -474,10 +829,12 @@ export default function WebhooksPage() {
       ) : webhooks.length === 0 ? (
         <div className="text-center py-12 border rounded-lg bg-muted/50">
           <p className="text-muted-foreground mb-4">No webhooks configured</p>
-          <Button onClick={() => setCreating(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Create your first webhook
-          </Button>
+          {canManageWebhooks && (
+            <Button onClick={() => setCreating(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create your first webhook
+            </Button>
+          )}
         </div>
       ) : (
         <div className="space-y-4">
@@ -487,6 +844,11 @@ export default function WebhooksPage() {
         </div>
       )}
 
+      {webhooks.length > 0 && <DeadLetters webhooks={webhooks} />}
+
+      {/* Change History */}
+      <AuditHistoryPanel entityTypes={['webhook']} />
+
       <Dialog open={creating} onOpenChange={setCreating}>
         <DialogContent>
           <DialogHeader>
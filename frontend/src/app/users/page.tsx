@@ -28,6 +28,7 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
+import { usePermissions } from '@/hooks/use-permissions'
 import {
   Select,
   SelectContent,
@@ -65,6 +66,8 @@ async function deleteUser(id: string): Promise<void> {
 
 export default function UsersPage() {
   const queryClient = useQueryClient()
+  const { can } = usePermissions()
+  const canManageUsers = can('users:write')
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingUser, setEditingUser] = useState<User | null>(null)
   const [formData, setFormData] = useState({
@@ -160,10 +163,12 @@ export default function UsersPage() {
           <h1 className="text-2xl font-bold">Users</h1>
           <p className="text-muted-foreground">Manage system users and their roles</p>
         </div>
-        <Button onClick={openCreateModal}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add User
-        </Button>
+        {canManageUsers && (
+          <Button onClick={openCreateModal}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add User
+          </Button>
+        )}
       </div>
 
       <div className="rounded-md border">
@@ -237,6 +242,7 @@ export default function UsersPage() {
                     {formatDateTime(user.createdAt)}
                   </TableCell>
                   <TableCell>
+                    {canManageUsers && (
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
                         <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
@@ -258,6 +264,7 @@ export default function UsersPage() {
                         </DropdownMenuItem>
                       </DropdownMenuContent>
                     </DropdownMenu>
+                    )}
                   </TableCell>
                 </TableRow>
               ))
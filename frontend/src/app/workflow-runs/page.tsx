@@ -65,6 +65,7 @@ import { Label } from '@/components/ui/label'
 import { cn } from '@/lib/utils'
 import { workflowRunsApi, workflowsApi, WorkflowRun, WorkflowRunStatus, Task, Workflow as WorkflowType } from '@/lib/api'
 import { useFieldConfigs, useLookups } from '@/hooks/use-tasks'
+import { usePermissions } from '@/hooks/use-permissions'
 import { TaskModal } from '@/components/tasks/task-modal'
 
 const STATUS_CONFIG: Record<WorkflowRunStatus, { icon: React.ElementType; color: string; bgColor: string; label: string; filterable: boolean }> = {
@@ -302,6 +303,8 @@ function WorkflowRunDetail({ runId }: { runId: string }) {
   const queryClient = useQueryClient()
   const [cancelConfirm, setCancelConfirm] = useState(false)
   const [selectedTask, setSelectedTask] = useState<Task | null>(null)
+  const { can } = usePermissions()
+  const canManageRuns = can('workflow-runs:write')
 
   // Real-time updates - invalidate this run's data when related tasks change
   const handleEvent = useCallback((event: EventData) => {
@@ -339,6 +342,13 @@ function WorkflowRunDetail({ runId }: { runId: string }) {
     },
   })
 
+  const resumeMutation = useMutation({
+    mutationFn: () => workflowRunsApi.resume(runId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-run', runId] })
+    },
+  })
+
   const apiResponse = data as { run?: WorkflowRun & { workflow?: WorkflowType }; tasks?: Task[]; totalTasks?: number } | undefined
   const run = apiResponse?.run
   const tasks = apiResponse?.tasks || []
@@ -422,6 +432,7 @@ function WorkflowRunDetail({ runId }: { runId: string }) {
   const statusConfig = STATUS_CONFIG[run.status]
   const StatusIcon = statusConfig.icon
   const isActive = run.status === 'running' || run.status === 'pending'
+  const isPaused = run.status === 'paused'
 
   return (
     <div className="space-y-6">
@@ -434,6 +445,9 @@ function WorkflowRunDetail({ runId }: { runId: string }) {
           <div>
             <div className="flex items-center gap-3">
               <h1 className="text-2xl font-bold">{workflow?.name || 'Workflow Run'}</h1>
+              {run.workflowVersion && (
+                <Badge variant="secondary" className="text-xs">v{run.workflowVersion}</Badge>
+              )}
               <Badge variant="outline" className={cn('text-sm', statusConfig.color)}>
                 <StatusIcon className="h-4 w-4 mr-1" />
                 {statusConfig.label}
@@ -445,7 +459,10 @@ function WorkflowRunDetail({ runId }: { runId: string }) {
                 </span>
               )}
             </div>
-            <p className="text-muted-foreground text-sm">Run ID: {run._id}</p>
+            <p className="text-muted-foreground text-sm">
+              Run ID: {run._id}
+              {run.source && <span className="ml-2">· Started by {run.source}</span>}
+            </p>
           </div>
         </div>
 
@@ -454,7 +471,13 @@ function WorkflowRunDetail({ runId }: { runId: string }) {
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
-          {isActive && (
+          {isPaused && canManageRuns && (
+            <Button size="sm" onClick={() => resumeMutation.mutate()} disabled={resumeMutation.isPending}>
+              <Play className="h-4 w-4 mr-2" />
+              Resume
+            </Button>
+          )}
+          {(isActive || isPaused) && canManageRuns && (
             <Button variant="destructive" size="sm" onClick={() => setCancelConfirm(true)}>
               <Ban className="h-4 w-4 mr-2" />
               Cancel Run
@@ -721,6 +744,8 @@ function WorkflowRunDetail({ runId }: { runId: string }) {
 // List view component
 function WorkflowRunsList() {
   const queryClient = useQueryClient()
+  const { can } = usePermissions()
+  const canManageRuns = can('workflow-runs:write')
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [workflowFilter, setWorkflowFilter] = useState<string>('all')
   const [searchQuery, setSearchQuery] = useState<string>('')
@@ -860,6 +885,7 @@ function WorkflowRunsList() {
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
+          {canManageRuns && (
           <Select
             value={startDialog.workflow?._id || ''}
             onValueChange={(id) => {
@@ -881,6 +907,7 @@ function WorkflowRunsList() {
               ))}
             </SelectContent>
           </Select>
+          )}
         </div>
       </div>
 
@@ -1059,6 +1086,7 @@ function WorkflowRunsList() {
                       <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
                         <span>ID: {run._id.slice(-8)}</span>
                         <span>Started: {formatDate(run.startedAt || run.createdAt)}</span>
+                        {run.source && <span>Source: {run.source}</span>}
                         {run.completedAt && (
                           <span>Completed: {formatDate(run.completedAt)}</span>
                         )}
@@ -1075,7 +1103,7 @@ function WorkflowRunsList() {
                       </div>
                     )}
 
-                    {isActive && (
+                    {isActive && canManageRuns && (
                       <Button variant="outline" size="sm" onClick={() => setCancelConfirm(run)}>
                         <Ban className="h-4 w-4 mr-1" />
                         Cancel
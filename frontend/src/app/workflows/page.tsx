@@ -41,6 +41,8 @@ import {
   X,
   Check,
   Book,
+  History,
+  Zap,
 } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -85,7 +87,7 @@ import {
   CollapsibleTrigger,
 } from '@/components/ui/collapsible'
 import { cn } from '@/lib/utils'
-import { authFetch } from '@/lib/api'
+import { authFetch, StepRetryPolicy, StepTimeoutConfig, WorkflowTriggerConfig } from '@/lib/api'
 import { Checkbox } from '@/components/ui/checkbox'
 
 // Lazy-load WorkflowEditor to reduce initial bundle size (includes heavy mermaid dependency)
@@ -107,10 +109,16 @@ const WorkflowApiDocs = dynamic(
   { ssr: false }
 )
 
+// Lazy-load version history dialog
+const WorkflowHistoryDialog = dynamic(
+  () => import('@/components/workflows/workflow-history-dialog').then(mod => ({ default: mod.WorkflowHistoryDialog })),
+  { ssr: false }
+)
+
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || '/api'
 
 // Updated step types - aligned with workflow-editor
-type WorkflowStepType = 'agent' | 'external' | 'manual' | 'decision' | 'foreach' | 'join' | 'flow'
+type WorkflowStepType = 'trigger' | 'agent' | 'external' | 'manual' | 'decision' | 'foreach' | 'join' | 'flow'
 
 interface StepConnection {
   targetStepId: string
@@ -152,6 +160,16 @@ interface WorkflowStep {
   flowId?: string
   inputMapping?: Record<string, string>
 
+  // Failure handling
+  retryPolicy?: StepRetryPolicy
+  onErrorStepId?: string
+  timeoutMs?: number
+  dueOffsetHours?: number
+  onTimeout?: StepTimeoutConfig
+
+  // Trigger step configuration
+  triggerConfig?: WorkflowTriggerConfig
+
   // Legacy compatibility
   execution?: 'automated' | 'manual'
   type?: 'automated' | 'manual'
@@ -168,6 +186,7 @@ interface WorkflowData {
   steps?: WorkflowStep[]
   stages?: string[]  // Legacy format - simple stage names
   mermaidDiagram?: string
+  version?: number
   createdAt: string
   updatedAt?: string
 }
@@ -207,7 +226,11 @@ async function createWorkflow(data: Partial<WorkflowData>): Promise<{ data: Work
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(data),
   })
-  if (!response.ok) throw new Error('Failed to create workflow')
+  if (!response.ok) {
+    // Surface validation errors (e.g. invalid decision conditions) from the API
+    const error = await response.json().catch(() => null)
+    throw new Error(error?.error?.message || 'Failed to create workflow')
+  }
   return response.json()
 }
 
@@ -217,7 +240,11 @@ async function updateWorkflow(id: string, data: Partial<WorkflowData>): Promise<
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(data),
   })
-  if (!response.ok) throw new Error('Failed to update workflow')
+  if (!response.ok) {
+    // Surface validation errors (e.g. invalid decision conditions) from the API
+    const error = await response.json().catch(() => null)
+    throw new Error(error?.error?.message || 'Failed to update workflow')
+  }
   return response.json()
 }
 
@@ -256,6 +283,8 @@ function getStepIcon(step: WorkflowStep) {
       return <Merge className="h-4 w-4 text-indigo-500" />
     case 'flow':
       return <Workflow className="h-4 w-4 text-pink-500" />
+    case 'trigger':
+      return <Zap className="h-4 w-4 text-slate-500" />
     default:
       return <Bot className="h-4 w-4 text-blue-500" />
   }
@@ -281,6 +310,8 @@ function getStepTypeLabel(step: WorkflowStep): string {
       return 'Join'
     case 'flow':
       return 'Flow'
+    case 'trigger':
+      return 'Trigger'
     default:
       return 'Agent'
   }
@@ -362,6 +393,7 @@ const StepsDetail = memo(function StepsDetail({ workflow }: { workflow: Workflow
               case 'foreach': return 'border-green-300 bg-green-50 dark:bg-green-950/30 dark:border-green-800'
               case 'join': return 'border-indigo-300 bg-indigo-50 dark:bg-indigo-950/30 dark:border-indigo-800'
               case 'flow': return 'border-pink-300 bg-pink-50 dark:bg-pink-950/30 dark:border-pink-800'
+              case 'trigger': return 'border-slate-300 bg-slate-50 dark:bg-slate-900/30 dark:border-slate-700'
               default: return 'border-gray-200 bg-gray-50 dark:bg-gray-900/30 dark:border-gray-700'
             }
           }
@@ -412,6 +444,7 @@ export default function WorkflowsPage() {
   const [deleteConfirm, setDeleteConfirm] = useState<WorkflowData | null>(null)
   const [bulkDeleteConfirm, setBulkDeleteConfirm] = useState(false)
   const [isApiDocsOpen, setIsApiDocsOpen] = useState(false)
+  const [historyWorkflow, setHistoryWorkflow] = useState<WorkflowData | null>(null)
   const [runDialog, setRunDialog] = useState<{ open: boolean; workflow: WorkflowData | null }>({
     open: false,
     workflow: null,
@@ -454,6 +487,7 @@ export default function WorkflowsPage() {
       queryClient.invalidateQueries({ queryKey: ['workflows'] })
       closeEditor()
     },
+    onError: (error: Error) => alert(error.message),
   })
 
   const updateMutation = useMutation({
@@ -463,6 +497,7 @@ export default function WorkflowsPage() {
       queryClient.invalidateQueries({ queryKey: ['workflows'] })
       closeEditor()
     },
+    onError: (error: Error) => alert(error.message),
   })
 
   const deleteMutation = useMutation({
@@ -860,6 +895,10 @@ export default function WorkflowsPage() {
                 <Copy className="mr-2 h-4 w-4" />
                 Duplicate
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setHistoryWorkflow(row.original)}>
+                <History className="mr-2 h-4 w-4" />
+                Version History
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={() => handleToggleActive(row.original)}>
                 {row.original.isActive ? (
                   <>
@@ -1292,6 +1331,13 @@ export default function WorkflowsPage() {
         onClose={() => setIsApiDocsOpen(false)}
         workflows={workflows.map(w => ({ _id: w._id, name: w.name }))}
       />
+
+      {/* Version History Dialog */}
+      <WorkflowHistoryDialog
+        isOpen={!!historyWorkflow}
+        onClose={() => setHistoryWorkflow(null)}
+        workflow={historyWorkflow}
+      />
     </div>
   )
 }
@@ -6,7 +6,7 @@ import Link from 'next/link'
 import { formatDistanceToNow } from 'date-fns'
 import { useRecentActivity } from '@/hooks/use-activity-logs'
 import { useUsers } from '@/hooks/use-tasks'
-import { ActivityLogEntry, FieldChange, tasksApi, Task } from '@/lib/api'
+import { ActivityLogEntry, FieldChange, tasksApi, activityLogsApi, Task } from '@/lib/api'
 import { Button } from '@/components/ui/button'
 import {
   Select,
@@ -17,6 +17,7 @@ import {
 } from '@/components/ui/select'
 import { cn } from '@/lib/utils'
 import { UserChip } from '@/components/ui/user-chip'
+import { toast } from 'sonner'
 import {
   ChevronLeft,
   ChevronRight,
@@ -25,6 +26,8 @@ import {
   RefreshCw,
   Bot,
   Settings,
+  Download,
+  Loader2,
 } from 'lucide-react'
 
 const EVENT_TYPES = [
@@ -36,6 +39,9 @@ const EVENT_TYPES = [
   { value: 'task.priority.changed', label: 'Priority' },
   { value: 'task.moved', label: 'Moved' },
   { value: 'task.comment.added', label: 'Comment' },
+  { value: 'task.attachment.added', label: 'Attachment' },
+  { value: 'task.blocked', label: 'Blocked' },
+  { value: 'task.unblocked', label: 'Unblocked' },
 ]
 
 const ACTOR_TYPES = [
@@ -53,6 +59,10 @@ const EVENT_TYPE_LABELS: Record<string, string> = {
   'task.priority.changed': 'Priority',
   'task.moved': 'Moved',
   'task.comment.added': 'Comment',
+  'task.attachment.added': 'Attached',
+  'task.attachment.deleted': 'Attachment removed',
+  'task.blocked': 'Blocked',
+  'task.unblocked': 'Unblocked',
 }
 
 const EVENT_TYPE_COLORS: Record<string, string> = {
@@ -64,6 +74,10 @@ const EVENT_TYPE_COLORS: Record<string, string> = {
   'task.priority.changed': 'text-yellow-600 dark:text-yellow-400',
   'task.moved': 'text-cyan-600 dark:text-cyan-400',
   'task.comment.added': 'text-indigo-600 dark:text-indigo-400',
+  'task.attachment.added': 'text-sky-600 dark:text-sky-400',
+  'task.attachment.deleted': 'text-sky-600 dark:text-sky-400',
+  'task.blocked': 'text-amber-600 dark:text-amber-400',
+  'task.unblocked': 'text-teal-600 dark:text-teal-400',
 }
 
 const EVENT_DOT_COLORS: Record<string, string> = {
@@ -75,6 +89,10 @@ const EVENT_DOT_COLORS: Record<string, string> = {
   'task.priority.changed': 'bg-yellow-500',
   'task.moved': 'bg-cyan-500',
   'task.comment.added': 'bg-indigo-500',
+  'task.attachment.added': 'bg-sky-500',
+  'task.attachment.deleted': 'bg-sky-500',
+  'task.blocked': 'bg-amber-500',
+  'task.unblocked': 'bg-teal-500',
 }
 
 function formatFieldChange(change: FieldChange): string {
@@ -147,6 +165,10 @@ function ActivityRow({ entry, users, getTaskName }: ActivityRowProps) {
       <div className="flex-1 min-w-0 text-muted-foreground truncate">
         {entry.comment ? (
           <span className="italic">&quot;{entry.comment}&quot;</span>
+        ) : entry.deletedAt ? (
+          <span className="italic">Comment deleted</span>
+        ) : typeof entry.metadata?.filename === 'string' ? (
+          <span className="font-mono text-[11px]">{entry.metadata.filename}</span>
         ) : entry.changes && entry.changes.length > 0 ? (
           <span className="font-mono text-[11px]">
             {entry.changes.map(c => formatFieldChange(c)).join(', ')}
@@ -177,6 +199,7 @@ export function ActivityFeedPage() {
   const [selectedActorId, setSelectedActorId] = useState<string | null>(actorIdFromUrl)
   const [page, setPage] = useState(pageFromUrl)
   const [taskCache, setTaskCache] = useState<Record<string, Task>>({})
+  const [isExporting, setIsExporting] = useState(false)
   const limit = 50
 
   // Fetch users for actor display and filtering
@@ -291,6 +314,27 @@ export function ActivityFeedPage() {
     router.push('/activity', { scroll: false })
   }
 
+  // Download every entry matching the event type and actor filters as NDJSON
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const blob = await activityLogsApi.exportActivity({
+        eventTypes: selectedEventType ? [selectedEventType] : undefined,
+        actorId: selectedActorId || undefined,
+      })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `activity-logs-${new Date().toISOString().slice(0, 10)}.ndjson`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export activity')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   const hasActiveFilters = selectedEventType !== null || selectedActorType !== null || selectedActorId !== null
 
   return (
@@ -303,16 +347,33 @@ export function ActivityFeedPage() {
             All activity across tasks
           </p>
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => refetch()}
-          disabled={isFetching}
-          className="h-7 text-xs"
-        >
-          <RefreshCw className={cn('h-3 w-3 mr-1.5', isFetching && 'animate-spin')} />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="h-7 text-xs"
+            title="Download matching entries as NDJSON"
+          >
+            {isExporting ? (
+              <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
+            ) : (
+              <Download className="h-3 w-3 mr-1.5" />
+            )}
+            Export
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="h-7 text-xs"
+          >
+            <RefreshCw className={cn('h-3 w-3 mr-1.5', isFetching && 'animate-spin')} />
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
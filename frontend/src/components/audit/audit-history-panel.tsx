@@ -0,0 +1,190 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { ChevronDown, ChevronLeft, ChevronRight, History, Loader2 } from 'lucide-react'
+import { useAuditHistory } from '@/hooks/use-activity-logs'
+import { AuditEntityType, AuditLogEntry, FieldChange } from '@/lib/api'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+const PAGE_SIZE = 20
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  workflow: 'Workflow',
+  view: 'View',
+  'field-config': 'Field',
+  lookup: 'Lookup',
+  webhook: 'Webhook',
+  user: 'User',
+  team: 'Team',
+  tag: 'Tag',
+  'api-key': 'API key',
+}
+
+const ACTION_STYLES: Record<AuditLogEntry['action'], string> = {
+  created: 'text-green-600',
+  updated: 'text-amber-600',
+  deleted: 'text-red-600',
+}
+
+interface AuditHistoryPanelProps {
+  /** Entity types to show - all the caller can read when omitted */
+  entityTypes?: AuditEntityType[]
+  /** Limit the history to one entity */
+  entityId?: string
+  title?: string
+  enabled?: boolean
+  className?: string
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(none)'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="space-y-1">
+      {changes.map((change) => (
+        <li key={change.field} className="text-xs font-mono break-all">
+          <span className="text-muted-foreground">{change.field}:</span>{' '}
+          <span className="line-through text-red-600">{formatValue(change.oldValue)}</span>{' '}
+          <span className="text-green-600">{formatValue(change.newValue)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function AuditRow({ entry, showEntity }: { entry: AuditLogEntry; showEntity: boolean }) {
+  const [expanded, setExpanded] = useState(false)
+  const metadata = entry.metadata && Object.keys(entry.metadata).length > 0 ? entry.metadata : null
+  const hasDetails = entry.changes.length > 0 || !!metadata
+  const actorName = entry.actor?.displayName || (entry.actorType === 'user' ? 'Unknown user' : entry.actorType)
+
+  return (
+    <div className="px-3 py-2">
+      <button
+        type="button"
+        className={cn('flex w-full items-start gap-2 text-left', !hasDetails && 'cursor-default')}
+        onClick={() => hasDetails && setExpanded(!expanded)}
+      >
+        {hasDetails ? (
+          expanded ? (
+            <ChevronDown className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+          ) : (
+            <ChevronRight className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+          )
+        ) : (
+          <span className="w-3.5 flex-shrink-0" />
+        )}
+        <div className="min-w-0 flex-1 text-sm">
+          <span className="font-medium">{actorName}</span>{' '}
+          <span className={ACTION_STYLES[entry.action]}>{entry.action}</span>{' '}
+          {showEntity && (
+            <span className="text-muted-foreground">{ENTITY_LABELS[entry.entityType].toLowerCase()} </span>
+          )}
+          {entry.entityName && <span className="font-medium">{entry.entityName}</span>}
+          {entry.action === 'updated' && entry.changes.length > 0 && (
+            <span className="text-muted-foreground">
+              {' '}({entry.changes.map((change) => change.field).join(', ')})
+            </span>
+          )}
+        </div>
+        <span
+          className="flex-shrink-0 text-xs text-muted-foreground"
+          title={new Date(entry.timestamp).toLocaleString()}
+        >
+          {formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-2 ml-5 space-y-2">
+          {entry.changes.length > 0 && <ChangeList changes={entry.changes} />}
+          {metadata && (
+            <div className="text-xs text-muted-foreground font-mono break-all">
+              {Object.entries(metadata).map(([key, value]) => (
+                <div key={key}>
+                  {key}: {formatValue(value)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function AuditHistoryPanel({
+  entityTypes,
+  entityId,
+  title = 'Change History',
+  enabled = true,
+  className,
+}: AuditHistoryPanelProps) {
+  const [page, setPage] = useState(0)
+  const { data, isLoading, error } = useAuditHistory(
+    { entityTypes, entityId, limit: PAGE_SIZE, offset: page * PAGE_SIZE },
+    { enabled }
+  )
+
+  const entries = data?.data ?? []
+  const total = data?.pagination.total ?? 0
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+  // Name the entity type when the panel mixes several
+  const showEntity = !entityTypes || entityTypes.length !== 1
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-sm font-semibold">
+          <History className="h-4 w-4" />
+          {title}
+        </h2>
+        {total > PAGE_SIZE && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              disabled={page === 0}
+              onClick={() => setPage(page - 1)}
+            >
+              <ChevronLeft className="h-3.5 w-3.5" />
+            </Button>
+            {page + 1} / {pageCount}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              disabled={page + 1 >= pageCount}
+              onClick={() => setPage(page + 1)}
+            >
+              <ChevronRight className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-md border divide-y">
+        {isLoading ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="p-4 text-sm text-destructive">
+            {error instanceof Error ? error.message : 'Failed to load change history'}
+          </p>
+        ) : entries.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">No changes recorded yet.</p>
+        ) : (
+          entries.map((entry) => <AuditRow key={entry._id} entry={entry} showEntity={showEntity} />)
+        )}
+      </div>
+    </div>
+  )
+}
@@ -21,13 +21,16 @@ import {
   Database,
   Palette,
   Webhook,
+  CalendarClock,
   ArrowLeftRight,
   Activity,
   Tags,
+  Inbox,
 } from 'lucide-react'
 import { Logo } from '@/components/ui/logo'
-import { View } from '@/lib/api'
+import { View, Permission } from '@/lib/api'
 import { useViews, useDeleteView } from '@/hooks/use-tasks'
+import { usePermissions } from '@/hooks/use-permissions'
 import { useAuth } from '@/lib/auth'
 import {
   DropdownMenu,
@@ -37,12 +40,15 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { ChangePasswordDialog } from '@/components/auth/change-password-dialog'
+import { NotificationBell } from '@/components/notifications/notification-bell'
 
 interface NavItem {
   name: string
   href: string
   icon: React.ComponentType<{ className?: string }>
   exact?: boolean
+  // Hidden unless the user has this permission
+  permission?: Permission
 }
 
 const staticNavigation: NavItem[] = [
@@ -61,8 +67,10 @@ const bottomNavigation: NavItem[] = [
 const settingsNavigation: NavItem[] = [
   { name: 'Field Configuration', href: '/settings/fields', icon: Database, exact: true },
   { name: 'Tags', href: '/settings/tags', icon: Tags, exact: true },
-  { name: 'API Keys', href: '/settings/api-keys', icon: Key, exact: true },
-  { name: 'Webhooks', href: '/settings/webhooks', icon: Webhook, exact: true },
+  { name: 'API Keys', href: '/settings/api-keys', icon: Key, exact: true, permission: 'api-keys:read' },
+  { name: 'Webhooks', href: '/settings/webhooks', icon: Webhook, exact: true, permission: 'webhooks:read' },
+  { name: 'Inbound Endpoints', href: '/settings/inbound', icon: Inbox, exact: true, permission: 'webhooks:read' },
+  { name: 'Schedules', href: '/settings/schedules', icon: CalendarClock, exact: true, permission: 'schedules:read' },
   { name: 'Appearance', href: '/settings/appearance', icon: Palette, exact: true },
 ]
 
@@ -74,6 +82,7 @@ export function Sidebar() {
   const [settingsExpanded, setSettingsExpanded] = useState(() => pathname.startsWith('/settings'))
   const [changePasswordOpen, setChangePasswordOpen] = useState(false)
   const { user, logout } = useAuth()
+  const { can } = usePermissions()
 
   const { data: viewsData } = useViews('tasks')
   const deleteViewMutation = useDeleteView()
@@ -89,6 +98,8 @@ export function Sidebar() {
     }
   }
 
+  const isAllowed = (item: NavItem) => !item.permission || can(item.permission)
+
   const isStaticItemActive = (item: NavItem) => {
     const [itemPath] = item.href.split('?')
     // Normalize paths by removing trailing slashes for comparison
@@ -113,11 +124,12 @@ export function Sidebar() {
 
   return (
     <div className="flex h-full w-64 flex-col border-r bg-card">
-      <div className="flex h-14 items-center border-b px-4">
-        <Link href="/" className="flex items-center gap-2">
+      <div className="flex h-14 items-center justify-between gap-2 border-b px-4">
+        <Link href="/" className="flex items-center gap-2 min-w-0">
           <Logo size={32} />
-          <span className="font-semibold">Coordination Matrix</span>
+          <span className="font-semibold truncate">Coordination Matrix</span>
         </Link>
+        <NotificationBell />
       </div>
       <nav className="flex-1 overflow-y-auto p-4">
         <div className="space-y-1">
@@ -242,7 +254,7 @@ export function Sidebar() {
             </button>
             {settingsExpanded && (
               <div className="mt-1 ml-4 space-y-1">
-                {settingsNavigation.map((item) => {
+                {settingsNavigation.filter(isAllowed).map((item) => {
                   const isActive = isStaticItemActive(item)
                   return (
                     <Link
@@ -0,0 +1,72 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Bell } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  useUnreadNotificationCount,
+  useNotifications,
+  useMarkAllNotificationsRead,
+} from '@/hooks/use-notifications'
+import { NotificationList } from './notification-list'
+
+export function NotificationBell() {
+  const [open, setOpen] = useState(false)
+  const unreadCount = useUnreadNotificationCount()
+  const { data, isLoading } = useNotifications({ limit: 10 })
+  const markAllRead = useMarkAllNotificationsRead()
+
+  const notifications = data?.data || []
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-8 w-8"
+          title={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4 text-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markAllRead.mutate()}
+              disabled={markAllRead.isPending}
+              className="text-xs text-primary hover:underline"
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <div className="py-6 text-center text-sm text-muted-foreground">Loading...</div>
+          ) : (
+            <NotificationList
+              notifications={notifications}
+              onNavigate={() => setOpen(false)}
+              emptyMessage="You're all caught up"
+            />
+          )}
+        </div>
+        <div className="border-t px-3 py-2 text-center">
+          <Link href="/notifications" onClick={() => setOpen(false)} className="text-xs text-primary hover:underline">
+            View all notifications
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
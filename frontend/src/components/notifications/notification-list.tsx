@@ -0,0 +1,87 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { UserPlus, MessageSquare, AtSign, XCircle, ClipboardCheck } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Notification, NotificationType } from '@/lib/api'
+import { useMarkNotificationRead, getNotificationHref } from '@/hooks/use-notifications'
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  'task.assigned': { label: 'Assignments', description: 'A task is assigned to you' },
+  'task.comment': { label: 'Comments', description: 'Someone comments on a task you created or are assigned to' },
+  'task.mention': { label: 'Mentions', description: 'Someone @mentions you in a comment' },
+  'workflow.run.failed': { label: 'Failed workflow runs', description: 'A workflow run you started fails' },
+  'batch.manual_review': { label: 'Batch reviews', description: 'A batch job you own needs manual review' },
+}
+
+const TYPE_ICONS: Record<NotificationType, React.ComponentType<{ className?: string }>> = {
+  'task.assigned': UserPlus,
+  'task.comment': MessageSquare,
+  'task.mention': AtSign,
+  'workflow.run.failed': XCircle,
+  'batch.manual_review': ClipboardCheck,
+}
+
+export function NotificationList({
+  notifications,
+  onNavigate,
+  emptyMessage = 'No notifications',
+}: {
+  notifications: Notification[]
+  onNavigate?: () => void
+  emptyMessage?: string
+}) {
+  const router = useRouter()
+  const markRead = useMarkNotificationRead()
+
+  if (notifications.length === 0) {
+    return <div className="py-6 text-center text-sm text-muted-foreground">{emptyMessage}</div>
+  }
+
+  const open = (notification: Notification) => {
+    if (!notification.readAt) {
+      markRead.mutate(notification._id)
+    }
+    const href = getNotificationHref(notification)
+    if (href) {
+      router.push(href)
+      onNavigate?.()
+    }
+  }
+
+  return (
+    <div className="divide-y">
+      {notifications.map((notification) => {
+        const Icon = TYPE_ICONS[notification.type] || MessageSquare
+        return (
+          <button
+            key={notification._id}
+            onClick={() => open(notification)}
+            className={cn(
+              'flex w-full items-start gap-3 px-3 py-2 text-left hover:bg-muted transition-colors',
+              !notification.readAt && 'bg-primary/5'
+            )}
+          >
+            <Icon
+              className={cn(
+                'h-4 w-4 mt-0.5 shrink-0',
+                notification.type === 'workflow.run.failed' ? 'text-destructive' : 'text-muted-foreground'
+              )}
+            />
+            <div className="flex-1 min-w-0">
+              <p className={cn('text-sm', !notification.readAt && 'font-medium')}>{notification.title}</p>
+              {notification.body && (
+                <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+              )}
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+            {!notification.readAt && <span className="mt-1.5 h-2 w-2 rounded-full bg-primary shrink-0" />}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
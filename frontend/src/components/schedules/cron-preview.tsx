@@ -0,0 +1,45 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { schedulesApi } from '@/lib/api'
+
+export const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+
+export function CronPreview({ cronExpression, timezone }: { cronExpression: string; timezone: string }) {
+  const [debounced, setDebounced] = useState({ cronExpression, timezone })
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced({ cronExpression, timezone }), 400)
+    return () => clearTimeout(timer)
+  }, [cronExpression, timezone])
+
+  const { data, error, isFetching } = useQuery({
+    queryKey: ['schedule-preview', debounced.cronExpression, debounced.timezone],
+    queryFn: () => schedulesApi.preview(debounced.cronExpression, debounced.timezone),
+    enabled: debounced.cronExpression.trim().length > 0 && debounced.timezone.trim().length > 0,
+    retry: false,
+  })
+
+  if (!cronExpression.trim()) return null
+  if (error) {
+    return <p className="text-xs text-destructive">{error instanceof Error ? error.message : 'Invalid schedule'}</p>
+  }
+
+  const nextRuns = data?.data.nextRuns ?? []
+  return (
+    <div className="text-xs text-muted-foreground">
+      {isFetching && nextRuns.length === 0 ? (
+        'Checking...'
+      ) : nextRuns.length === 0 ? (
+        'Never runs'
+      ) : (
+        <>
+          Next runs (your local time):{' '}
+          {nextRuns.slice(0, 3).map((run) => format(new Date(run), 'EEE MMM d, HH:mm')).join(' · ')}
+        </>
+      )}
+    </div>
+  )
+}
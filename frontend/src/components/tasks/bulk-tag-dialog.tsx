@@ -0,0 +1,80 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { TagInput } from '@/components/ui/tag-input'
+
+export type BulkTagOperation = 'add-tag' | 'remove-tag'
+
+interface BulkTagDialogProps {
+  operation: BulkTagOperation | null
+  selectedCount: number
+  onClose: () => void
+  onConfirm: (operation: BulkTagOperation, tags: string[]) => Promise<void>
+}
+
+export function BulkTagDialog({ operation, selectedCount, onClose, onConfirm }: BulkTagDialogProps) {
+  const [tags, setTags] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setTags([])
+    setError(null)
+  }, [operation])
+
+  if (!operation) return null
+
+  const adding = operation === 'add-tag'
+
+  const handleConfirm = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onConfirm(operation, tags)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tags')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{adding ? 'Add tags' : 'Remove tags'}</DialogTitle>
+          <DialogDescription>
+            {adding ? 'Add' : 'Remove'} these tags {adding ? 'to' : 'from'} {selectedCount} selected task(s).
+          </DialogDescription>
+        </DialogHeader>
+
+        <TagInput value={tags} onChange={setTags} placeholder={adding ? 'Tags to add...' : 'Tags to remove...'} />
+
+        {error && (
+          <div className="text-sm text-destructive bg-destructive/10 border border-destructive/30 rounded px-3 py-2">
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSaving || tags.length === 0}>
+            {adding ? 'Add' : 'Remove'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
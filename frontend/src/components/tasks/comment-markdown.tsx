@@ -0,0 +1,192 @@
+'use client'
+
+import { Fragment, ReactNode } from 'react'
+import { cn } from '@/lib/utils'
+
+/**
+ * Renders the markdown subset used in task comments: paragraphs, fenced and
+ * inline code, **bold**, *italic*, links, bullet and numbered lists, block
+ * quotes and headings, with @mentions highlighted. Output is built from
+ * React elements, so comment text is never injected as HTML.
+ */
+
+// code | bold | italic | [text](url) | bare url | @mention
+const INLINE_PATTERN =
+  /(`[^`\n]+`)|(\*\*[^*\n]+\*\*)|(\*[^*\s][^*\n]*\*|_[^_\s][^_\n]*_)|\[([^\]\n]+)\]\((https?:\/\/[^)\s]+)\)|(https?:\/\/[^\s<)]+)|(@[\w.-]*\w)/g
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = []
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g')
+  while ((match = pattern.exec(text)) !== null) {
+    const [token, code, bold, italic, linkText, linkUrl, url, mention] = match
+    const key = `${keyPrefix}-${match.index}`
+
+    // @ inside a word (an email address) is not a mention, and _ inside a
+    // word (snake_case) is not emphasis
+    const previous = match.index > 0 ? text[match.index - 1] : ''
+    if ((mention && /[\w@]/.test(previous)) || (italic?.startsWith('_') && /\w/.test(previous))) {
+      continue
+    }
+
+    if (match.index > lastIndex) {
+      nodes.push(text.slice(lastIndex, match.index))
+    }
+
+    if (code) {
+      nodes.push(
+        <code key={key} className="px-1 py-0.5 rounded bg-muted font-mono text-[0.9em]">
+          {code.slice(1, -1)}
+        </code>
+      )
+    } else if (bold) {
+      nodes.push(<strong key={key}>{renderInline(bold.slice(2, -2), key)}</strong>)
+    } else if (italic) {
+      nodes.push(<em key={key}>{renderInline(italic.slice(1, -1), key)}</em>)
+    } else if (linkText && linkUrl) {
+      nodes.push(
+        <a key={key} href={linkUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+          {renderInline(linkText, key)}
+        </a>
+      )
+    } else if (url) {
+      nodes.push(
+        <a key={key} href={url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-all">
+          {url}
+        </a>
+      )
+    } else if (mention) {
+      nodes.push(
+        <span key={key} className="rounded bg-primary/10 px-0.5 font-medium text-primary">
+          {mention}
+        </span>
+      )
+    } else {
+      nodes.push(token)
+    }
+
+    lastIndex = match.index + token.length
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex))
+  }
+  return nodes
+}
+
+function renderLines(lines: string[], keyPrefix: string): ReactNode[] {
+  return lines.map((line, idx) => (
+    <Fragment key={`${keyPrefix}-${idx}`}>
+      {idx > 0 && <br />}
+      {renderInline(line, `${keyPrefix}-${idx}`)}
+    </Fragment>
+  ))
+}
+
+const BULLET_ITEM = /^\s*[-*+]\s+/
+const NUMBERED_ITEM = /^\s*\d+[.)]\s+/
+const HEADING = /^#{1,6}\s+/
+
+function renderBlocks(markdown: string): ReactNode[] {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n')
+  const blocks: ReactNode[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    const key = `b${i}`
+
+    if (line.trim() === '') {
+      i++
+      continue
+    }
+
+    if (line.trim().startsWith('```')) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !lines[i].trim().startsWith('```')) {
+        code.push(lines[i])
+        i++
+      }
+      i++ // closing fence
+      blocks.push(
+        <pre key={key} className="my-1 overflow-x-auto rounded bg-muted p-2 font-mono text-[0.9em]">
+          <code>{code.join('\n')}</code>
+        </pre>
+      )
+      continue
+    }
+
+    if (HEADING.test(line)) {
+      blocks.push(
+        <p key={key} className="font-semibold">
+          {renderInline(line.replace(HEADING, ''), key)}
+        </p>
+      )
+      i++
+      continue
+    }
+
+    if (line.startsWith('>')) {
+      const quoted: string[] = []
+      while (i < lines.length && lines[i].startsWith('>')) {
+        quoted.push(lines[i].replace(/^>\s?/, ''))
+        i++
+      }
+      blocks.push(
+        <blockquote key={key} className="my-1 border-l-2 border-border pl-2 text-muted-foreground">
+          {renderLines(quoted, key)}
+        </blockquote>
+      )
+      continue
+    }
+
+    if (BULLET_ITEM.test(line) || NUMBERED_ITEM.test(line)) {
+      const numbered = NUMBERED_ITEM.test(line)
+      const itemPattern = numbered ? NUMBERED_ITEM : BULLET_ITEM
+      const items: string[] = []
+      while (i < lines.length && itemPattern.test(lines[i])) {
+        items.push(lines[i].replace(itemPattern, ''))
+        i++
+      }
+      const ListTag = numbered ? 'ol' : 'ul'
+      blocks.push(
+        <ListTag key={key} className={cn('my-1 pl-5', numbered ? 'list-decimal' : 'list-disc')}>
+          {items.map((item, idx) => (
+            <li key={idx}>{renderInline(item, `${key}-${idx}`)}</li>
+          ))}
+        </ListTag>
+      )
+      continue
+    }
+
+    const paragraph: string[] = []
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !lines[i].trim().startsWith('```') &&
+      !lines[i].startsWith('>') &&
+      !HEADING.test(lines[i]) &&
+      !BULLET_ITEM.test(lines[i]) &&
+      !NUMBERED_ITEM.test(lines[i])
+    ) {
+      paragraph.push(lines[i])
+      i++
+    }
+    blocks.push(<p key={key}>{renderLines(paragraph, key)}</p>)
+  }
+
+  return blocks
+}
+
+export function CommentMarkdown({ text, className }: { text: string; className?: string }) {
+  return (
+    <div className={cn('space-y-1 break-words', className)}>
+      {renderBlocks(text)}
+    </div>
+  )
+}
+
+export default CommentMarkdown
@@ -2,11 +2,15 @@
 
 import { useState, useEffect, useRef, useMemo } from 'react'
 import { formatDistanceToNow } from 'date-fns'
-import { useTaskActivity, useAddComment } from '@/hooks/use-activity-logs'
+import { toast } from 'sonner'
+import { Reply, Pencil, Trash2, History } from 'lucide-react'
+import { useTaskActivity, useAddComment, useEditComment, useDeleteComment } from '@/hooks/use-activity-logs'
 import { ActivityLogEntry, FieldChange } from '@/lib/api'
+import { useAuth } from '@/lib/auth'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 import { UserChip } from '@/components/ui/user-chip'
+import { CommentMarkdown } from './comment-markdown'
 import type { User } from '@/lib/api'
 
 interface TaskActivityProps {
@@ -26,6 +30,10 @@ const EVENT_TYPE_LABELS: Record<string, string> = {
   'task.priority.changed': 'Priority changed',
   'task.moved': 'Moved',
   'task.comment.added': 'Comment',
+  'task.attachment.added': 'Attached',
+  'task.attachment.deleted': 'Attachment removed',
+  'task.blocked': 'Blocked',
+  'task.unblocked': 'Unblocked',
 }
 
 const EVENT_TYPE_COLORS: Record<string, string> = {
@@ -37,6 +45,10 @@ const EVENT_TYPE_COLORS: Record<string, string> = {
   'task.priority.changed': 'bg-yellow-500',
   'task.moved': 'bg-cyan-500',
   'task.comment.added': 'bg-indigo-500',
+  'task.attachment.added': 'bg-sky-500',
+  'task.attachment.deleted': 'bg-sky-500',
+  'task.blocked': 'bg-amber-500',
+  'task.unblocked': 'bg-teal-500',
 }
 
 function formatFieldChange(change: FieldChange, compact: boolean): string {
@@ -55,40 +67,28 @@ function formatFieldChange(change: FieldChange, compact: boolean): string {
 // Threshold for truncating comments (approximate line count * chars per line)
 const COMMENT_TRUNCATE_THRESHOLD = 100
 
-function ExpandableText({
+function ExpandableComment({
   text,
   className,
   truncateClassName,
-  expandedClassName
 }: {
   text: string
   className?: string
   truncateClassName?: string
-  expandedClassName?: string
 }) {
   const [isExpanded, setIsExpanded] = useState(false)
   const shouldTruncate = text.length > COMMENT_TRUNCATE_THRESHOLD
 
   if (!shouldTruncate) {
-    return <p className={className}>{text}</p>
+    return <CommentMarkdown text={text} className={className} />
   }
 
   return (
     <div>
-      <p
-        className={cn(
-          className,
-          'cursor-pointer hover:bg-muted/30 rounded px-1 -mx-1 transition-colors',
-          isExpanded ? expandedClassName : truncateClassName
-        )}
-        onClick={(e) => {
-          e.stopPropagation()
-          setIsExpanded(!isExpanded)
-        }}
-        title={isExpanded ? 'Click to collapse' : 'Click to expand'}
-      >
-        {text}
-      </p>
+      <CommentMarkdown
+        text={text}
+        className={cn(className, 'overflow-hidden', !isExpanded && truncateClassName)}
+      />
       <button
         onClick={(e) => {
           e.stopPropagation()
@@ -163,9 +163,270 @@ function ExpandableChanges({
   )
 }
 
-function ActivityEntry({ entry, compact, isNew }: { entry: ActivityLogEntry; compact?: boolean; isNew?: boolean }) {
-  const label = EVENT_TYPE_LABELS[entry.eventType] || entry.eventType
+function CommentComposer({
+  value,
+  onChange,
+  onSubmit,
+  onCancel,
+  placeholder,
+  isPending,
+  compact,
+  autoFocus,
+  submitLabel = 'Add',
+}: {
+  value: string
+  onChange: (value: string) => void
+  onSubmit: () => void
+  onCancel?: () => void
+  placeholder: string
+  isPending: boolean
+  compact?: boolean
+  autoFocus?: boolean
+  submitLabel?: string
+}) {
+  return (
+    <div className={cn('flex items-start', compact ? 'gap-1.5' : 'gap-2')}>
+      <textarea
+        value={value}
+        rows={Math.min(value.split('\n').length, 6)}
+        autoFocus={autoFocus}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault()
+            onSubmit()
+          } else if (e.key === 'Escape' && onCancel) {
+            onCancel()
+          }
+        }}
+        placeholder={placeholder}
+        title="Markdown and @mentions supported. Shift+Enter for a new line."
+        className={cn(
+          'flex-1 resize-none rounded border border-input bg-background transition-colors',
+          'focus:outline-none focus:border-primary',
+          compact ? 'px-2 py-1 text-xs' : 'px-3 py-1.5 text-sm rounded-md'
+        )}
+      />
+      {onCancel && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className={cn(compact && 'h-6 px-2 text-xs')}
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+      )}
+      <Button
+        size="sm"
+        variant={compact ? 'ghost' : 'default'}
+        className={cn(compact && 'h-6 px-2 text-xs')}
+        onClick={onSubmit}
+        disabled={!value.trim() || isPending}
+      >
+        {isPending ? '...' : submitLabel}
+      </Button>
+    </div>
+  )
+}
+
+function CommentBody({
+  entry,
+  taskId,
+  compact,
+}: {
+  entry: ActivityLogEntry
+  taskId: string
+  compact?: boolean
+}) {
+  const { user } = useAuth()
+  const [isReplying, setIsReplying] = useState(false)
+  const [replyText, setReplyText] = useState('')
+  const [isEditing, setIsEditing] = useState(false)
+  const [editText, setEditText] = useState('')
+  const [showHistory, setShowHistory] = useState(false)
+
+  const addComment = useAddComment()
+  const editComment = useEditComment()
+  const deleteComment = useDeleteComment()
+
+  // Comments without an author (system or daemon notes) are open to everyone
+  const isAuthor = !entry.actorId || entry.actorId === user?.id
+  const canDelete = isAuthor || user?.role === 'admin'
+  const history = entry.editHistory || []
+
+  const handleReply = async () => {
+    if (!replyText.trim() || addComment.isPending) return
+    try {
+      await addComment.mutateAsync({ taskId, comment: replyText.trim(), parentId: entry._id })
+      setReplyText('')
+      setIsReplying(false)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to reply')
+    }
+  }
+
+  const handleEdit = async () => {
+    if (!editText.trim() || editComment.isPending) return
+    try {
+      await editComment.mutateAsync({ taskId, commentId: entry._id, comment: editText.trim() })
+      setIsEditing(false)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to edit comment')
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this comment?')) return
+    try {
+      await deleteComment.mutateAsync({ taskId, commentId: entry._id })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete comment')
+    }
+  }
+
+  if (entry.deletedAt) {
+    return (
+      <p className={cn('italic text-muted-foreground', compact ? 'text-xs mt-0.5' : 'text-sm mt-1')}>
+        Comment deleted
+      </p>
+    )
+  }
+
+  const actionClass = cn(
+    'inline-flex items-center gap-0.5 text-muted-foreground hover:text-foreground',
+    compact ? 'text-[10px]' : 'text-xs'
+  )
+  const iconClass = compact ? 'h-2.5 w-2.5' : 'h-3 w-3'
+
+  return (
+    <div>
+      {isEditing ? (
+        <div className="mt-1">
+          <CommentComposer
+            value={editText}
+            onChange={setEditText}
+            onSubmit={handleEdit}
+            onCancel={() => setIsEditing(false)}
+            placeholder="Edit comment..."
+            isPending={editComment.isPending}
+            compact={compact}
+            autoFocus
+            submitLabel="Save"
+          />
+        </div>
+      ) : (
+        entry.comment && (
+          <ExpandableComment
+            text={entry.comment}
+            className={compact ? 'text-xs text-foreground mt-0.5' : 'mt-1 text-sm text-foreground'}
+            truncateClassName={compact ? 'max-h-10' : 'max-h-16'}
+          />
+        )
+      )}
+
+      {!isEditing && (
+        <div className="mt-0.5 flex items-center gap-2">
+          <button className={actionClass} onClick={() => setIsReplying(!isReplying)}>
+            <Reply className={iconClass} />
+            Reply
+          </button>
+          {isAuthor && (
+            <button
+              className={actionClass}
+              onClick={() => {
+                setEditText(entry.comment || '')
+                setIsEditing(true)
+              }}
+            >
+              <Pencil className={iconClass} />
+              Edit
+            </button>
+          )}
+          {canDelete && (
+            <button className={cn(actionClass, 'hover:text-destructive')} onClick={handleDelete}>
+              <Trash2 className={iconClass} />
+              Delete
+            </button>
+          )}
+          {entry.editedAt && (
+            <button
+              className={actionClass}
+              onClick={() => setShowHistory(!showHistory)}
+              title={`Edited ${formatDistanceToNow(new Date(entry.editedAt), { addSuffix: true })}`}
+            >
+              <History className={iconClass} />
+              edited
+            </button>
+          )}
+        </div>
+      )}
+
+      {showHistory && history.length > 0 && (
+        <div className="mt-1 space-y-1 border-l-2 border-border pl-2">
+          {[...history].reverse().map((revision, idx) => (
+            <div key={idx} className="text-muted-foreground">
+              <span className="text-[10px]">
+                {formatDistanceToNow(new Date(revision.editedAt), { addSuffix: true })}
+              </span>
+              <CommentMarkdown text={revision.comment} className={compact ? 'text-[11px]' : 'text-xs'} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isReplying && (
+        <div className="mt-1">
+          <CommentComposer
+            value={replyText}
+            onChange={setReplyText}
+            onSubmit={handleReply}
+            onCancel={() => setIsReplying(false)}
+            placeholder="Reply..."
+            isPending={addComment.isPending}
+            compact={compact}
+            autoFocus
+            submitLabel="Reply"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ActivityEntry({
+  entry,
+  taskId,
+  compact,
+  isNew,
+  replies = [],
+  newEntryIds,
+}: {
+  entry: ActivityLogEntry
+  taskId: string
+  compact?: boolean
+  isNew?: boolean
+  replies?: ActivityLogEntry[]
+  newEntryIds?: Set<string>
+}) {
+  const isComment = entry.eventType === 'task.comment.added'
+  const label = isComment && entry.parentId ? 'Reply' : EVENT_TYPE_LABELS[entry.eventType] || entry.eventType
   const colorClass = EVENT_TYPE_COLORS[entry.eventType] || 'bg-muted-foreground'
+  const attachmentName = typeof entry.metadata?.filename === 'string' ? entry.metadata.filename : null
+
+  const thread = replies.length > 0 && (
+    <div className={cn('mt-1 border-l-2 border-border/50', compact ? 'pl-2' : 'pl-3')}>
+      {replies.map((reply) => (
+        <ActivityEntry
+          key={reply._id}
+          entry={reply}
+          taskId={taskId}
+          compact={compact}
+          isNew={newEntryIds?.has(reply._id)}
+        />
+      ))}
+    </div>
+  )
 
   if (compact) {
     return (
@@ -183,17 +444,25 @@ function ActivityEntry({ entry, compact, isNew }: { entry: ActivityLogEntry; com
             </span>
           </div>
 
-          {entry.comment && (
-            <ExpandableText
+          {isComment ? (
+            <CommentBody entry={entry} taskId={taskId} compact />
+          ) : entry.comment && (
+            <ExpandableComment
               text={entry.comment}
               className="text-xs text-foreground mt-0.5"
-              truncateClassName="line-clamp-2"
+              truncateClassName="max-h-10"
             />
           )}
 
+          {attachmentName && (
+            <p className="text-[10px] font-mono text-muted-foreground mt-0.5 truncate">{attachmentName}</p>
+          )}
+
           {entry.changes && entry.changes.length > 0 && (
             <ExpandableChanges changes={entry.changes} compact={true} initialLimit={2} />
           )}
+
+          {thread}
         </div>
       </div>
     )
@@ -213,14 +482,20 @@ function ActivityEntry({ entry, compact, isNew }: { entry: ActivityLogEntry; com
           </span>
         </div>
 
-        {entry.comment && (
-          <ExpandableText
+        {isComment ? (
+          <CommentBody entry={entry} taskId={taskId} />
+        ) : entry.comment && (
+          <ExpandableComment
             text={entry.comment}
             className="mt-1 text-sm text-foreground"
-            truncateClassName="line-clamp-3"
+            truncateClassName="max-h-16"
           />
         )}
 
+        {attachmentName && (
+          <p className="mt-1 text-xs font-mono text-muted-foreground truncate">{attachmentName}</p>
+        )}
+
         {entry.changes && entry.changes.length > 0 && (
           <ExpandableChanges changes={entry.changes} compact={false} initialLimit={3} />
         )}
@@ -228,6 +503,8 @@ function ActivityEntry({ entry, compact, isNew }: { entry: ActivityLogEntry; com
         <div className="mt-1">
           <UserChip user={entry.actor as User | null} size="sm" />
         </div>
+
+        {thread}
       </div>
     </div>
   )
@@ -256,6 +533,22 @@ export function TaskActivity({ taskId, className, compact = false, pollInterval
     })
   }, [data?.data])
 
+  // Replies sit under their top-level comment, oldest first. A reply whose
+  // comment is outside the loaded page is shown on its own.
+  const { topLevelEntries, repliesByParent } = useMemo(() => {
+    const ids = new Set(entries.map(e => e._id))
+    const replies = new Map<string, ActivityLogEntry[]>()
+    const topLevel: ActivityLogEntry[] = []
+    for (const entry of entries) {
+      if (entry.parentId && ids.has(entry.parentId)) {
+        replies.set(entry.parentId, [entry, ...(replies.get(entry.parentId) || [])])
+      } else {
+        topLevel.push(entry)
+      }
+    }
+    return { topLevelEntries: topLevel, repliesByParent: replies }
+  }, [entries])
+
   // Track new entries for highlight effect
   useEffect(() => {
     if (entries.length > 0) {
@@ -291,6 +584,7 @@ export function TaskActivity({ taskId, className, compact = false, pollInterval
       setNewComment('')
     } catch (err) {
       console.error('Failed to add comment:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to add comment')
     }
   }
 
@@ -315,28 +609,14 @@ export function TaskActivity({ taskId, className, compact = false, pollInterval
       <div className={cn('flex flex-col h-full', className)}>
         {/* Compact comment input */}
         <div className="px-3 py-2 border-b border-border/50 flex-shrink-0">
-          <div className="flex gap-1.5">
-            <input
-              type="text"
-              value={newComment}
-              onChange={(e) => setNewComment(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSubmitComment()}
-              placeholder="Add comment..."
-              className={cn(
-                'flex-1 px-2 py-1 text-xs rounded border border-input bg-background transition-colors',
-                'focus:outline-none focus:border-primary'
-              )}
-            />
-            <Button
-              size="sm"
-              variant="ghost"
-              className="h-6 px-2 text-xs"
-              onClick={handleSubmitComment}
-              disabled={!newComment.trim() || addComment.isPending}
-            >
-              {addComment.isPending ? '...' : 'Add'}
-            </Button>
-          </div>
+          <CommentComposer
+            value={newComment}
+            onChange={setNewComment}
+            onSubmit={handleSubmitComment}
+            placeholder="Add comment..."
+            isPending={addComment.isPending}
+            compact
+          />
         </div>
 
         {/* Compact activity list */}
@@ -347,12 +627,15 @@ export function TaskActivity({ taskId, className, compact = false, pollInterval
             </div>
           ) : (
             <div>
-              {entries.map((entry) => (
+              {topLevelEntries.map((entry) => (
                 <ActivityEntry
                   key={entry._id}
                   entry={entry}
+                  taskId={taskId}
                   compact
                   isNew={newEntryIds.has(entry._id)}
+                  replies={repliesByParent.get(entry._id)}
+                  newEntryIds={newEntryIds}
                 />
               ))}
             </div>
@@ -387,25 +670,14 @@ export function TaskActivity({ taskId, className, compact = false, pollInterval
       </div>
 
       {/* Comment input */}
-      <div className="flex gap-2 mb-4">
-        <input
-          type="text"
+      <div className="mb-4">
+        <CommentComposer
           value={newComment}
-          onChange={(e) => setNewComment(e.target.value)}
-          onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSubmitComment()}
-          placeholder="Add a comment..."
-          className={cn(
-            'flex-1 px-3 py-1.5 text-sm rounded-md border border-input bg-background transition-colors',
-            'focus:outline-none focus:border-primary'
-          )}
+          onChange={setNewComment}
+          onSubmit={handleSubmitComment}
+          placeholder="Add a comment... (markdown, @mention)"
+          isPending={addComment.isPending}
         />
-        <Button
-          size="sm"
-          onClick={handleSubmitComment}
-          disabled={!newComment.trim() || addComment.isPending}
-        >
-          {addComment.isPending ? '...' : 'Add'}
-        </Button>
       </div>
 
       {/* Activity list */}
@@ -416,11 +688,14 @@ export function TaskActivity({ taskId, className, compact = false, pollInterval
           </div>
         ) : (
           <div className="space-y-1">
-            {entries.map((entry) => (
+            {topLevelEntries.map((entry) => (
               <ActivityEntry
                 key={entry._id}
                 entry={entry}
+                taskId={taskId}
                 isNew={newEntryIds.has(entry._id)}
+                replies={repliesByParent.get(entry._id)}
+                newEntryIds={newEntryIds}
               />
             ))}
           </div>
@@ -0,0 +1,206 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Download, FileText, Image as ImageIcon, Loader2, Paperclip, Upload, X } from 'lucide-react'
+import { useTaskAttachments, useUploadAttachment, useDeleteAttachment } from '@/hooks/use-tasks'
+import { usePermissions } from '@/hooks/use-permissions'
+import { tasksApi, TaskAttachment } from '@/lib/api'
+import { cn } from '@/lib/utils'
+
+interface TaskAttachmentsProps {
+  taskId: string
+  className?: string
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function AttachmentRow({
+  attachment,
+  onDownload,
+  onRemove,
+}: {
+  attachment: TaskAttachment
+  onDownload: () => void
+  onRemove?: () => void
+}) {
+  const Icon = attachment.contentType.startsWith('image/') ? ImageIcon : FileText
+
+  return (
+    <div className="group flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-muted/50">
+      <Icon className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+      <button
+        type="button"
+        onClick={onDownload}
+        className="flex-1 min-w-0 text-left text-sm truncate hover:underline"
+        title={`Download ${attachment.filename}`}
+      >
+        {attachment.filename}
+      </button>
+      <span className="text-[10px] text-muted-foreground flex-shrink-0">
+        {formatBytes(attachment.size)} · {formatDistanceToNow(new Date(attachment.createdAt), { addSuffix: true })}
+      </span>
+      <button
+        type="button"
+        onClick={onDownload}
+        className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+        title="Download"
+      >
+        <Download className="h-3.5 w-3.5" />
+      </button>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+          title="Delete attachment"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+export function TaskAttachments({ taskId, className }: TaskAttachmentsProps) {
+  const [error, setError] = useState<string | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { data, isLoading } = useTaskAttachments(taskId)
+  const uploadAttachment = useUploadAttachment()
+  const deleteAttachment = useDeleteAttachment()
+  const { can } = usePermissions()
+  const canWrite = can('tasks:write')
+
+  const attachments = data?.data ?? []
+  const limits = data?.limits
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setError(null)
+
+    for (const file of Array.from(files)) {
+      if (limits && file.size > limits.maxBytes) {
+        setError(`${file.name} is larger than ${formatBytes(limits.maxBytes)}`)
+        continue
+      }
+      try {
+        await uploadAttachment.mutateAsync({ id: taskId, file })
+      } catch (err) {
+        setError(err instanceof Error ? `${file.name}: ${err.message}` : `Failed to upload ${file.name}`)
+      }
+    }
+
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleDownload = async (attachment: TaskAttachment) => {
+    setError(null)
+    try {
+      const blob = await tasksApi.downloadAttachment(taskId, attachment._id)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = attachment.filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download attachment')
+    }
+  }
+
+  const handleRemove = async (attachment: TaskAttachment) => {
+    if (!confirm(`Delete ${attachment.filename}?`)) return
+    setError(null)
+    try {
+      await deleteAttachment.mutateAsync({ id: taskId, attachmentId: attachment._id })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete attachment')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('p-4 space-y-4', className)}>
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-muted-foreground">
+          Attachments {attachments.length > 0 && `(${attachments.length})`}
+        </label>
+
+        {canWrite && (
+          <div
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault()
+              setIsDragging(false)
+              handleFiles(e.dataTransfer.files)
+            }}
+            className={cn(
+              'flex flex-col items-center gap-1 rounded-md border border-dashed px-3 py-4 text-center transition-colors',
+              isDragging ? 'border-primary bg-primary/5' : 'border-input'
+            )}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadAttachment.isPending}
+              className="flex items-center gap-1.5 text-sm text-primary hover:underline disabled:opacity-50"
+            >
+              {uploadAttachment.isPending ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Upload className="h-3.5 w-3.5" />
+              )}
+              {uploadAttachment.isPending ? 'Uploading...' : 'Upload files'}
+            </button>
+            <span className="text-[10px] text-muted-foreground">
+              or drop them here{limits && ` · up to ${formatBytes(limits.maxBytes)} each`}
+            </span>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {attachments.length === 0 ? (
+          <div className="flex flex-col items-center gap-1 py-4 text-xs text-muted-foreground">
+            <Paperclip className="h-4 w-4" />
+            No attachments
+          </div>
+        ) : (
+          <div className="space-y-0.5">
+            {attachments.map((attachment) => (
+              <AttachmentRow
+                key={attachment._id}
+                attachment={attachment}
+                onDownload={() => handleDownload(attachment)}
+                onRemove={canWrite ? () => handleRemove(attachment) : undefined}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
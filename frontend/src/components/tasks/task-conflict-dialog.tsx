@@ -0,0 +1,155 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { GitMerge } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { ApiError, Task, TaskConflictDetails } from '@/lib/api'
+import { useUpdateTask, setCachedTask } from '@/hooks/use-tasks'
+
+export interface TaskConflict {
+  taskId: string
+  details: TaskConflictDetails
+}
+
+interface TaskConflictDialogProps {
+  conflict: TaskConflict | null
+  onClose: () => void
+  // Called with the saved (or, when discarding, the current) task
+  onResolved?: (task: Task) => void
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(none)'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+export function TaskConflictDialog({ conflict, onClose, onResolved }: TaskConflictDialogProps) {
+  const queryClient = useQueryClient()
+  const updateTask = useUpdateTask()
+  const [details, setDetails] = useState<TaskConflictDetails | null>(null)
+  const [keepMine, setKeepMine] = useState<Set<string>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+
+  // Default to keeping every edited field
+  useEffect(() => {
+    setDetails(conflict?.details ?? null)
+    setKeepMine(new Set(conflict?.details.diff.map((d) => d.field) ?? []))
+    setError(null)
+  }, [conflict])
+
+  if (!conflict || !details) return null
+
+  const toggleField = (field: string, checked: boolean) => {
+    setKeepMine((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(field)
+      else next.delete(field)
+      return next
+    })
+  }
+
+  const handleDiscard = () => {
+    setCachedTask(queryClient, conflict.taskId, details.current)
+    queryClient.invalidateQueries({ queryKey: ['task', conflict.taskId] })
+    onResolved?.(details.current)
+    onClose()
+  }
+
+  const handleSave = async () => {
+    const data: Record<string, unknown> = {}
+    details.diff
+      .filter((d) => keepMine.has(d.field))
+      .forEach((d) => { data[d.field] = d.requestedValue })
+
+    if (Object.keys(data).length === 0) {
+      handleDiscard()
+      return
+    }
+
+    try {
+      const result = await updateTask.mutateAsync({
+        id: conflict.taskId,
+        data: data as Partial<Task>,
+        expectedRevision: details.currentRevision,
+      })
+      onResolved?.(result.data)
+      onClose()
+    } catch (err) {
+      // Changed again while the prompt was open - show the new differences
+      if (err instanceof ApiError && err.conflict) {
+        setDetails(err.conflict)
+        setKeepMine(new Set(err.conflict.diff.map((d) => d.field).filter((f) => keepMine.has(f))))
+        return
+      }
+      setError(err instanceof Error ? err.message : 'Failed to save task')
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            This task was changed by someone else
+          </DialogTitle>
+          <DialogDescription>
+            &ldquo;{details.current.title}&rdquo; is now at revision {details.currentRevision}; your edit was based on
+            revision {details.expectedRevision}. Choose which of your changes to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        {details.diff.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Your changes match the current task - nothing needs to be merged.
+          </p>
+        ) : (
+          <div className="border rounded-md divide-y max-h-[50vh] overflow-y-auto">
+            <div className="grid grid-cols-[24px_140px_1fr_1fr] gap-3 px-3 py-2 text-xs font-medium text-muted-foreground">
+              <span />
+              <span>Field</span>
+              <span>Current</span>
+              <span>Yours</span>
+            </div>
+            {details.diff.map((d) => (
+              <label
+                key={d.field}
+                className="grid grid-cols-[24px_140px_1fr_1fr] gap-3 px-3 py-2 items-start cursor-pointer hover:bg-muted/50"
+              >
+                <Checkbox
+                  checked={keepMine.has(d.field)}
+                  onCheckedChange={(checked) => toggleField(d.field, checked === true)}
+                />
+                <span className="text-sm font-medium">{d.field}</span>
+                <span className="text-xs font-mono break-all">{formatValue(d.currentValue)}</span>
+                <span className="text-xs font-mono break-all">{formatValue(d.requestedValue)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleDiscard} disabled={updateTask.isPending}>
+            Discard my changes
+          </Button>
+          <Button onClick={handleSave} disabled={updateTask.isPending}>
+            {updateTask.isPending ? 'Saving...' : `Keep ${keepMine.size} selected`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -18,6 +18,8 @@ import {
   CheckCircle,
   Archive,
   ArrowRight,
+  Tag,
+  Ban,
 } from 'lucide-react'
 import {
   Table,
@@ -52,8 +54,20 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip'
 import { EditableCell } from './editable-cell'
-import { Task, FieldConfig, LookupValue, User, Workflow } from '@/lib/api'
-import { useTaskChildren, useUpdateTask, useDeleteTask, useBulkUpdateTasks, useBulkDeleteTasks, useLookups, useCreateTask } from '@/hooks/use-tasks'
+import { TaskConflictDialog, TaskConflict } from './task-conflict-dialog'
+import { BulkTagDialog, BulkTagOperation } from './bulk-tag-dialog'
+import { Task, FieldConfig, LookupValue, User, Workflow, ApiError, tagsApi } from '@/lib/api'
+import {
+  useTaskChildren,
+  useUpdateTask,
+  useDeleteTask,
+  useBulkUpdateTasks,
+  useBulkDeleteTasks,
+  useBulkTaskOperation,
+  useLookups,
+  useCreateTask,
+  BulkResult,
+} from '@/hooks/use-tasks'
 import { formatDateTime, cn } from '@/lib/utils'
 import { TASK_TYPE_CONFIG, getTaskTypeConfig } from '@/lib/task-type-config'
 import { UserChip } from '@/components/ui/user-chip'
@@ -97,6 +111,8 @@ const BulkActionsBar = memo(function BulkActionsBar({
   onPriorityChange,
   onAssigneeChange,
   onArchive,
+  onAddTag,
+  onRemoveTag,
   onDelete,
   onClearSelection,
   isUpdating,
@@ -108,6 +124,8 @@ const BulkActionsBar = memo(function BulkActionsBar({
   onPriorityChange: (priority: string) => void
   onAssigneeChange: (assigneeId: string | null) => void
   onArchive: () => void
+  onAddTag: () => void
+  onRemoveTag: () => void
   onDelete: () => void
   onClearSelection: () => void
   isUpdating: boolean
@@ -174,6 +192,26 @@ const BulkActionsBar = memo(function BulkActionsBar({
         <Archive className="h-4 w-4 mr-1" />
         Archive
       </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onAddTag}
+        disabled={isUpdating}
+        className="h-8"
+      >
+        <Tag className="h-4 w-4 mr-1" />
+        Add tag
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onRemoveTag}
+        disabled={isUpdating}
+        className="h-8"
+      >
+        <X className="h-4 w-4 mr-1" />
+        Remove tag
+      </Button>
       <Button
         variant="destructive"
         size="sm"
@@ -285,7 +323,7 @@ const TitleCell = memo(function TitleCell({
   depth: number
   isExpanded: boolean
   onToggleExpand: () => void
-  onCellUpdate: (taskId: string, field: string, value: unknown) => void
+  onCellUpdate: (task: Task, field: string, value: unknown) => void
   onEdit: () => void
   renderCellValue: (task: Task, fc: FieldConfig) => React.ReactNode
   onNavigateToFlow?: (taskId: string) => void
@@ -309,9 +347,9 @@ const TitleCell = memo(function TitleCell({
   }, [isInlineEditing])
 
   const handleSave = useCallback(() => {
-    onCellUpdate(task._id, 'title', editValue)
+    onCellUpdate(task, 'title', editValue)
     setIsInlineEditing(false)
-  }, [task._id, editValue, onCellUpdate])
+  }, [task, editValue, onCellUpdate])
 
   const handleCancel = useCallback(() => {
     setEditValue(task.title || '')
@@ -371,6 +409,11 @@ const TitleCell = memo(function TitleCell({
           >
             {renderCellValue(task, fieldConfig)}
           </div>
+          {task.isBlocked && (
+            <span title="Blocked - waiting for other tasks to complete" className="flex-shrink-0 text-amber-600">
+              <Ban className="h-3 w-3" />
+            </span>
+          )}
           <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
             <Button
               variant="ghost"
@@ -569,7 +612,7 @@ const TaskRow = memo(function TaskRow({
   isSelected: boolean
   onToggleExpand: () => void
   onToggleSelect: (isShiftKey?: boolean) => void
-  onCellUpdate: (taskId: string, field: string, value: unknown) => void
+  onCellUpdate: (task: Task, field: string, value: unknown) => void
   onEdit: () => void
   onDelete: () => void
   onCreateSubtask: () => void
@@ -737,7 +780,7 @@ const TaskRow = memo(function TaskRow({
                     users={users}
                     workflows={workflows}
                     task={task}
-                    onSave={(value) => onCellUpdate(task._id, fc.fieldPath, value)}
+                    onSave={(value) => onCellUpdate(task, fc.fieldPath, value)}
                   >
                     {renderCellValue(task, fc)}
                   </EditableCell>
@@ -1016,11 +1059,25 @@ export function TaskDataTable({
   const deleteTask = useDeleteTask()
   const bulkUpdateTasks = useBulkUpdateTasks()
   const bulkDeleteTasks = useBulkDeleteTasks()
+  const bulkTaskOperation = useBulkTaskOperation()
+  const [conflict, setConflict] = useState<TaskConflict | null>(null)
+  const [bulkTagOperation, setBulkTagOperation] = useState<BulkTagOperation | null>(null)
 
   const clearSelection = useCallback(() => {
     setSelectedRows(new Set())
   }, [])
 
+  // Keep tasks that failed selected so they can be retried
+  const finishBulkAction = useCallback((label: string, { results }: BulkResult) => {
+    const failed = results.filter((r) => r.status === 'failed')
+    if (failed.length === 0) {
+      clearSelection()
+      return
+    }
+    console.warn(`${label}: ${failed.length} task(s) failed`, failed)
+    setSelectedRows(new Set(failed.map((r) => r.taskId)))
+  }, [clearSelection])
+
   // Helper: Get visible task IDs in display order by querying the DOM
   const getVisibleTaskIds = useCallback((): string[] => {
     const rows = document.querySelectorAll('[data-task-id]')
@@ -1030,54 +1087,68 @@ export function TaskDataTable({
   const handleBulkStatusChange = useCallback(async (status: string) => {
     const taskIds = Array.from(selectedRows)
     try {
-      await bulkUpdateTasks.mutateAsync({ taskIds, updates: { status } })
-      clearSelection()
+      finishBulkAction('Bulk status update', await bulkUpdateTasks.mutateAsync({ taskIds, updates: { status } }))
     } catch (error) {
       console.error('Bulk status update failed:', error)
     }
-  }, [selectedRows, bulkUpdateTasks, clearSelection])
+  }, [selectedRows, bulkUpdateTasks, finishBulkAction])
 
   const handleBulkPriorityChange = useCallback(async (urgency: string) => {
     const taskIds = Array.from(selectedRows)
     try {
-      await bulkUpdateTasks.mutateAsync({ taskIds, updates: { urgency } })
-      clearSelection()
+      finishBulkAction('Bulk urgency update', await bulkUpdateTasks.mutateAsync({ taskIds, updates: { urgency } }))
     } catch (error) {
       console.error('Bulk urgency update failed:', error)
     }
-  }, [selectedRows, bulkUpdateTasks, clearSelection])
+  }, [selectedRows, bulkUpdateTasks, finishBulkAction])
 
   const handleBulkDelete = useCallback(async () => {
     if (confirm(`Are you sure you want to delete ${selectedRows.size} task(s)?`)) {
       const taskIds = Array.from(selectedRows)
       try {
-        await bulkDeleteTasks.mutateAsync(taskIds)
-        clearSelection()
+        finishBulkAction('Bulk delete', await bulkDeleteTasks.mutateAsync(taskIds))
       } catch (error) {
         console.error('Bulk delete failed:', error)
       }
     }
-  }, [selectedRows, bulkDeleteTasks, clearSelection])
+  }, [selectedRows, bulkDeleteTasks, finishBulkAction])
 
   const handleBulkArchive = useCallback(async () => {
     const taskIds = Array.from(selectedRows)
     try {
-      await bulkUpdateTasks.mutateAsync({ taskIds, updates: { status: 'archived' } })
-      clearSelection()
+      finishBulkAction('Bulk archive', await bulkTaskOperation.mutateAsync({ operation: 'archive', taskIds }))
     } catch (error) {
       console.error('Bulk archive failed:', error)
     }
-  }, [selectedRows, bulkUpdateTasks, clearSelection])
+  }, [selectedRows, bulkTaskOperation, finishBulkAction])
+
+  // Tags are applied one bulk operation each; new tags are created first so validation accepts them
+  const handleBulkTag = useCallback(async (operation: BulkTagOperation, tags: string[]) => {
+    const taskIds = Array.from(selectedRows)
+    const names = operation === 'add-tag'
+      ? (await tagsApi.ensure(tags)).data.map((tag) => tag.name)
+      : tags
+    const results: BulkResult['results'] = []
+    let summary: BulkResult['summary'] | undefined
+    for (const tag of names) {
+      const result = await bulkTaskOperation.mutateAsync({ operation, taskIds, params: { tag } })
+      results.push(...result.results)
+      summary = result.summary
+    }
+    if (summary) finishBulkAction('Bulk tag update', { summary, results })
+  }, [selectedRows, bulkTaskOperation, finishBulkAction])
+
+  const handleBulkAddTag = useCallback(() => setBulkTagOperation('add-tag'), [])
+  const handleBulkRemoveTag = useCallback(() => setBulkTagOperation('remove-tag'), [])
 
   const handleBulkAssigneeChange = useCallback(async (assigneeId: string | null) => {
     const taskIds = Array.from(selectedRows)
     try {
-      await bulkUpdateTasks.mutateAsync({ taskIds, updates: { assigneeId } })
-      clearSelection()
+      finishBulkAction('Bulk assignee update', await bulkUpdateTasks.mutateAsync({ taskIds, updates: { assigneeId } }))
     } catch (error) {
       console.error('Bulk assignee update failed:', error)
     }
-  }, [selectedRows, bulkUpdateTasks, clearSelection])
+  }, [selectedRows, bulkUpdateTasks, finishBulkAction])
 
   // Memoized field config map for quick lookup
   const fieldConfigMap = useMemo(
@@ -1162,8 +1233,17 @@ export function TaskDataTable({
     })
   }, [organizedTasks])
 
-  const handleCellUpdate = useCallback(async (taskId: string, field: string, value: unknown) => {
-    await updateTask.mutateAsync({ id: taskId, data: { [field]: value } })
+  // Edits are based on the row's revision; if the task changed meanwhile, ask how to merge
+  const handleCellUpdate = useCallback(async (task: Task, field: string, value: unknown) => {
+    try {
+      await updateTask.mutateAsync({ id: task._id, data: { [field]: value }, expectedRevision: task.revision })
+    } catch (error) {
+      if (error instanceof ApiError && error.conflict) {
+        setConflict({ taskId: task._id, details: error.conflict })
+        return
+      }
+      throw error
+    }
   }, [updateTask])
 
   const handleDeleteTask = useCallback(async (taskId: string) => {
@@ -1359,7 +1439,7 @@ export function TaskDataTable({
     )
   }
 
-  const isUpdating = bulkUpdateTasks.isPending || bulkDeleteTasks.isPending
+  const isUpdating = bulkUpdateTasks.isPending || bulkDeleteTasks.isPending || bulkTaskOperation.isPending
 
   return (
     <div className="space-y-4">
@@ -1372,6 +1452,8 @@ export function TaskDataTable({
           onPriorityChange={handleBulkPriorityChange}
           onAssigneeChange={handleBulkAssigneeChange}
           onArchive={handleBulkArchive}
+          onAddTag={handleBulkAddTag}
+          onRemoveTag={handleBulkRemoveTag}
           onDelete={handleBulkDelete}
           onClearSelection={clearSelection}
           isUpdating={isUpdating}
@@ -1528,6 +1610,14 @@ export function TaskDataTable({
           </div>
         </div>
       )}
+
+      <TaskConflictDialog conflict={conflict} onClose={() => setConflict(null)} />
+      <BulkTagDialog
+        operation={bulkTagOperation}
+        selectedCount={selectedRows.size}
+        onClose={() => setBulkTagOperation(null)}
+        onConfirm={handleBulkTag}
+      />
     </div>
   )
 }
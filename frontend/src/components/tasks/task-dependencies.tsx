@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react'
+import { Ban, CheckCircle2, Loader2, Plus, X } from 'lucide-react'
+import { useTaskDependencies, useTasks, useUpdateTaskDependency } from '@/hooks/use-tasks'
+import { Task } from '@/lib/api'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+
+interface TaskDependenciesProps {
+  taskId: string
+  onTaskClick?: (taskId: string) => void
+  className?: string
+}
+
+function DependencyRow({
+  task,
+  onClick,
+  onRemove,
+}: {
+  task: Task
+  onClick?: () => void
+  onRemove?: () => void
+}) {
+  const isDone = task.status === 'completed'
+
+  return (
+    <div className="group flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-muted/50">
+      {isDone ? (
+        <CheckCircle2 className="h-3.5 w-3.5 flex-shrink-0 text-green-600" />
+      ) : (
+        <span className="h-3.5 w-3.5 flex-shrink-0 rounded-full border-2 border-muted-foreground/40" />
+      )}
+      <button
+        type="button"
+        onClick={onClick}
+        className={cn('flex-1 min-w-0 text-left text-sm truncate hover:underline', isDone && 'text-muted-foreground line-through')}
+      >
+        {task.title}
+      </button>
+      <span className="text-[10px] text-muted-foreground flex-shrink-0">{task.status.replace('_', ' ')}</span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+          title="Remove dependency"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+export function TaskDependencies({ taskId, onTaskClick, className }: TaskDependenciesProps) {
+  const [search, setSearch] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const { data, isLoading } = useTaskDependencies(taskId)
+  const updateDependency = useUpdateTaskDependency()
+
+  const dependencies = data?.data
+  const linkedIds = new Set([
+    taskId,
+    ...(dependencies?.blockedBy.map((t) => t._id) ?? []),
+  ])
+
+  const { data: searchResults } = useTasks({
+    search: search.trim(),
+    limit: 8,
+    enabled: search.trim().length >= 2,
+  })
+  const candidates = (searchResults?.data ?? []).filter((t) => !linkedIds.has(t._id))
+
+  const handleAdd = async (blockedById: string) => {
+    setError(null)
+    try {
+      await updateDependency.mutateAsync({ id: taskId, blockedById })
+      setSearch('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add dependency')
+    }
+  }
+
+  const handleRemove = async (blockedById: string) => {
+    setError(null)
+    try {
+      await updateDependency.mutateAsync({ id: taskId, blockedById, remove: true })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove dependency')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('p-4 space-y-4', className)}>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-xs font-medium text-muted-foreground">
+            Blocked by {dependencies && dependencies.blockedBy.length > 0 && `(${dependencies.blockedBy.length})`}
+          </label>
+          {dependencies?.isBlocked && (
+            <Badge variant="outline" className="text-[10px] text-amber-600 border-amber-300">
+              <Ban className="h-3 w-3 mr-1" />
+              Blocked
+            </Badge>
+          )}
+        </div>
+
+        <div className="relative">
+          <Plus className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search for a task this one waits for..."
+            disabled={updateDependency.isPending}
+            className="w-full h-8 pl-8 pr-3 text-sm bg-background border border-input rounded-md placeholder:text-muted-foreground/60 focus:outline-none focus:ring-1 focus:ring-ring disabled:opacity-50"
+          />
+        </div>
+
+        {search.trim().length >= 2 && (
+          <div className="border rounded-md bg-background max-h-48 overflow-y-auto">
+            {candidates.length === 0 ? (
+              <p className="px-3 py-2 text-xs text-muted-foreground">No matching tasks</p>
+            ) : (
+              candidates.map((candidate) => (
+                <button
+                  key={candidate._id}
+                  type="button"
+                  onClick={() => handleAdd(candidate._id)}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-sm hover:bg-muted/50"
+                >
+                  <span className="truncate">{candidate.title}</span>
+                  <span className="text-[10px] text-muted-foreground flex-shrink-0">{candidate.status.replace('_', ' ')}</span>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {dependencies && dependencies.blockedBy.length > 0 ? (
+          <div className="space-y-0.5">
+            {dependencies.blockedBy.map((blocker) => (
+              <DependencyRow
+                key={blocker._id}
+                task={blocker}
+                onClick={() => onTaskClick?.(blocker._id)}
+                onRemove={() => handleRemove(blocker._id)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">This task doesn&apos;t wait for any other task.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-muted-foreground">
+          Blocks {dependencies && dependencies.blocks.length > 0 && `(${dependencies.blocks.length})`}
+        </label>
+        {dependencies && dependencies.blocks.length > 0 ? (
+          <div className="space-y-0.5">
+            {dependencies.blocks.map((dependent) => (
+              <DependencyRow
+                key={dependent._id}
+                task={dependent}
+                onClick={() => onTaskClick?.(dependent._id)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">No tasks are waiting for this one.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -26,11 +26,13 @@ import {
   TabsList,
   TabsTrigger,
 } from '@/components/ui/tabs'
-import { Task, FieldConfig, LookupValue, TaskType, WebhookConfig } from '@/lib/api'
+import { Task, FieldConfig, LookupValue, TaskType, WebhookConfig, ApiError } from '@/lib/api'
 import { toast } from 'sonner'
 import { useCreateTask, useUpdateTask, useRerunTask, useUsers, useWorkflows, useTasks, useTask, useTaskChildren } from '@/hooks/use-tasks'
 import { cn } from '@/lib/utils'
 import { TaskActivity } from './task-activity'
+import { TaskDependencies } from './task-dependencies'
+import { TaskAttachments } from './task-attachments'
 import { WebhookTaskConfig } from './webhook-task-config'
 import { WorkflowTrigger } from './workflow-trigger'
 import { JsonViewer } from '@/components/ui/json-viewer'
@@ -42,7 +44,7 @@ import {
   DEFAULT_TASK_MODAL_TAB,
   type TaskModalTab,
 } from '@/lib/task-type-config'
-import { Settings2, Database, Activity, Workflow, ExternalLink, ArrowUpRight, ListTree, Plus, Loader2, RotateCcw } from 'lucide-react'
+import { Settings2, Database, Activity, Workflow, ExternalLink, ArrowUpRight, ListTree, Plus, Loader2, RotateCcw, Link2, Paperclip } from 'lucide-react'
 import {
   Tooltip,
   TooltipContent,
@@ -53,6 +55,7 @@ import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { UserChip, UserAvatar } from '@/components/ui/user-chip'
 import { TagInput } from '@/components/ui/tag-input'
+import { TaskConflictDialog, TaskConflict } from './task-conflict-dialog'
 
 interface TaskModalProps {
   task: Task | null
@@ -77,6 +80,7 @@ export function TaskModal({
   const titleInputRef = useRef<HTMLInputElement | null>(null)
   const [isMetadataEditMode, setIsMetadataEditMode] = useState(false)
   const [metadataError, setMetadataError] = useState<string | null>(null)
+  const [saveErrors, setSaveErrors] = useState<string[]>([])
   const [webhookConfig, setWebhookConfig] = useState<WebhookConfig | undefined>(undefined)
   const metadataTextareaRef = useRef<HTMLTextAreaElement>(null)
   const savedMetadataValueRef = useRef<string>('') // Track last saved value for reset
@@ -110,6 +114,9 @@ export function TaskModal({
   // Auto-save refs (using refs to avoid re-renders during typing)
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const lastSavedDataRef = useRef<string>('')
+  // Revision the form's values are based on, sent with each save to detect concurrent edits
+  const baseRevisionRef = useRef<number | undefined>(undefined)
+  const [conflict, setConflict] = useState<TaskConflict | null>(null)
   const pendingChangesRef = useRef<Record<string, unknown> | null>(null)
   const webhookSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
@@ -255,40 +262,47 @@ export function TaskModal({
     [selectedWorkflow]
   )
 
+  // Form values for a task (shared between loading a task and resolving an edit conflict)
+  const taskToFormValues = useCallback((source: Task) => {
+    const values: Record<string, unknown> = {}
+
+    // First, load core fields from the task (like taskType)
+    Object.keys(coreDefaultValues).forEach((field) => {
+      const value = (source as unknown as Record<string, unknown>)[field]
+      if (field === 'tags') {
+        // Keep tags as array
+        values[field] = Array.isArray(value) ? value : []
+      } else if (field === 'dueAt' && value) {
+        values[field] = new Date(value as string).toISOString().slice(0, 16)
+      } else {
+        values[field] = value ?? coreDefaultValues[field]
+      }
+    })
+
+    // Then load editable fields (may override some core fields)
+    editableFields.forEach((fc) => {
+      const value = (source as unknown as Record<string, unknown>)[fc.fieldPath]
+      if (fc.fieldType === 'tags') {
+        // Keep tags as array
+        values[fc.fieldPath] = Array.isArray(value) ? value : []
+      } else if (fc.fieldType === 'datetime' && value) {
+        values[fc.fieldPath] = new Date(value as string).toISOString().slice(0, 16)
+      } else if (fc.fieldType === 'reference' && value) {
+        values[fc.fieldPath] = String(value)
+      } else {
+        values[fc.fieldPath] = value ?? fc.defaultValue ?? ''
+      }
+    })
+    return values
+  }, [editableFields]) // eslint-disable-line react-hooks/exhaustive-deps
+
   useEffect(() => {
     if (task) {
-      const values: Record<string, unknown> = {}
-
-      // First, load core fields from the task (like taskType)
-      Object.keys(coreDefaultValues).forEach((field) => {
-        const value = (task as unknown as Record<string, unknown>)[field]
-        if (field === 'tags') {
-          // Keep tags as array
-          values[field] = Array.isArray(value) ? value : []
-        } else if (field === 'dueAt' && value) {
-          values[field] = new Date(value as string).toISOString().slice(0, 16)
-        } else {
-          values[field] = value ?? coreDefaultValues[field]
-        }
-      })
-
-      // Then load editable fields (may override some core fields)
-      editableFields.forEach((fc) => {
-        const value = (task as unknown as Record<string, unknown>)[fc.fieldPath]
-        if (fc.fieldType === 'tags') {
-          // Keep tags as array
-          values[fc.fieldPath] = Array.isArray(value) ? value : []
-        } else if (fc.fieldType === 'datetime' && value) {
-          values[fc.fieldPath] = new Date(value as string).toISOString().slice(0, 16)
-        } else if (fc.fieldType === 'reference' && value) {
-          values[fc.fieldPath] = String(value)
-        } else {
-          values[fc.fieldPath] = value ?? fc.defaultValue ?? ''
-        }
-      })
+      const values = taskToFormValues(task)
       reset(values)
       // Initialize last saved data ref when task loads
       lastSavedDataRef.current = JSON.stringify(values)
+      baseRevisionRef.current = task.revision
       // Initialize webhook config from task
       setWebhookConfig(task.webhookConfig)
     } else {
@@ -300,9 +314,19 @@ export function TaskModal({
       lastSavedDataRef.current = ''
       setWebhookConfig(undefined)
     }
-  }, [task, parentTask, reset, editableFields, defaultValues])
+  }, [task, parentTask, reset, taskToFormValues, defaultValues])
 
   // Build task data from form values (shared between auto-save and submit)
+  // Follow the revision through quick field saves (status, webhook config, ...) made from this modal.
+  // A jump of more than one means someone else wrote in between, so the next form save should conflict.
+  useEffect(() => {
+    const saved = updateTask.data?.data
+    if (!saved || saved._id !== task?._id || saved.revision === undefined) return
+    if (baseRevisionRef.current !== undefined && saved.revision === baseRevisionRef.current + 1) {
+      baseRevisionRef.current = saved.revision
+    }
+  }, [updateTask.data, task?._id])
+
   const buildTaskData = useCallback((data: Record<string, unknown>): Partial<Task> => {
     const taskData: Partial<Task> = {}
 
@@ -360,10 +384,17 @@ export function TaskModal({
     try {
       const taskData = buildTaskData(data)
       // Note: metadata is saved separately via its own Save button
-      await updateTask.mutateAsync({ id: task._id, data: taskData })
+      const result = await updateTask.mutateAsync({ id: task._id, data: taskData, expectedRevision: baseRevisionRef.current })
       lastSavedDataRef.current = currentDataStr
-    } catch {
-      // Silently fail - user can retry
+      baseRevisionRef.current = result.data?.revision
+      setSaveErrors([])
+    } catch (error) {
+      // Show conflicts and validation errors; anything else fails silently - user can retry
+      if (error instanceof ApiError && error.conflict) {
+        setConflict({ taskId: task._id, details: error.conflict })
+      } else if (error instanceof ApiError && error.fieldErrors.length > 0) {
+        setSaveErrors(error.fieldErrors.map((e) => e.message))
+      }
     }
   }, [task, buildTaskData, updateTask, getValues])
 
@@ -424,6 +455,7 @@ export function TaskModal({
         clearTimeout(webhookSaveTimeoutRef.current)
       }
       setMetadataError(null)
+      setSaveErrors([])
       setIsMetadataEditMode(false)
       // Reset subtask input
       setNewSubtaskTitle('')
@@ -495,12 +527,27 @@ export function TaskModal({
 
     // Note: metadata is saved separately via its own Save button
 
-    if (task) {
-      await updateTask.mutateAsync({ id: task._id, data: taskData })
-    } else {
-      await createTask.mutateAsync(taskData)
+    try {
+      if (task) {
+        const result = await updateTask.mutateAsync({ id: task._id, data: taskData, expectedRevision: baseRevisionRef.current })
+        baseRevisionRef.current = result.data?.revision
+      } else {
+        await createTask.mutateAsync(taskData)
+      }
+    } catch (error) {
+      if (task && error instanceof ApiError && error.conflict) {
+        setConflict({ taskId: task._id, details: error.conflict })
+        return
+      }
+      setSaveErrors(
+        error instanceof ApiError && error.fieldErrors.length > 0
+          ? error.fieldErrors.map((e) => e.message)
+          : [error instanceof Error ? error.message : 'Failed to save task']
+      )
+      return
     }
 
+    setSaveErrors([])
     onClose()
   }
 
@@ -1117,6 +1164,14 @@ export function TaskModal({
         )}
       </div>
 
+      {saveErrors.length > 0 && (
+        <div className="mt-3 rounded-md border border-destructive/50 bg-destructive/10 px-3 py-2">
+          {saveErrors.map((message) => (
+            <p key={message} className="text-xs text-destructive">{message}</p>
+          ))}
+        </div>
+      )}
+
       {/* Footer - only show in create mode */}
       {!isEditMode && (
         <DialogFooter className="pt-3 mt-3 border-t flex-shrink-0">
@@ -1700,6 +1755,7 @@ export function TaskModal({
 
   // Edit mode - two column layout with tabbed sidebar
   return (
+    <>
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-6xl h-[90vh] p-0 gap-0 flex flex-col overflow-hidden">
         {/* Accessibility: visually hidden title */}
@@ -1755,6 +1811,23 @@ export function TaskModal({
                     <span className="ml-0.5 text-[10px] bg-muted px-1 rounded">{subtasks.length}</span>
                   )}
                 </TabsTrigger>
+                <TabsTrigger
+                  value={TASK_MODAL_TABS.DEPENDENCIES}
+                  className="flex-1 gap-1.5 rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent py-2.5"
+                >
+                  <Link2 className="h-3.5 w-3.5" />
+                  <span className="text-xs">Deps</span>
+                  {task.isBlocked && (
+                    <span className="ml-0.5 h-1.5 w-1.5 rounded-full bg-amber-500" title="Blocked" />
+                  )}
+                </TabsTrigger>
+                <TabsTrigger
+                  value={TASK_MODAL_TABS.ATTACHMENTS}
+                  className="flex-1 gap-1.5 rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent py-2.5"
+                >
+                  <Paperclip className="h-3.5 w-3.5" />
+                  <span className="text-xs">Files</span>
+                </TabsTrigger>
                 <TabsTrigger
                   value={TASK_MODAL_TABS.METADATA}
                   className="flex-1 gap-1.5 rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent py-2.5"
@@ -1887,6 +1960,14 @@ export function TaskModal({
                 </div>
               </TabsContent>
 
+              <TabsContent value={TASK_MODAL_TABS.DEPENDENCIES} className="flex-1 min-h-0 overflow-y-auto mt-0">
+                <TaskDependencies taskId={task._id} onTaskClick={handleSubtaskClick} />
+              </TabsContent>
+
+              <TabsContent value={TASK_MODAL_TABS.ATTACHMENTS} className="flex-1 min-h-0 overflow-y-auto mt-0">
+                <TaskAttachments taskId={task._id} />
+              </TabsContent>
+
               <TabsContent value={TASK_MODAL_TABS.METADATA} className="flex-1 min-h-0 overflow-y-auto mt-0">
                 <MetadataContent />
               </TabsContent>
@@ -1899,5 +1980,16 @@ export function TaskModal({
         </div>
       </DialogContent>
     </Dialog>
+    <TaskConflictDialog
+      conflict={conflict}
+      onClose={() => setConflict(null)}
+      onResolved={(resolved) => {
+        const values = taskToFormValues(resolved)
+        reset(values)
+        lastSavedDataRef.current = JSON.stringify(values)
+        baseRevisionRef.current = resolved.revision
+      }}
+    />
+    </>
   )
 }
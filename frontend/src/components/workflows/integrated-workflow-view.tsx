@@ -19,6 +19,7 @@ import {
   Workflow as WorkflowIcon,
   MousePointerClick,
   Layers,
+  Zap,
 } from 'lucide-react'
 import {
   DropdownMenu,
@@ -27,8 +28,9 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import type { WorkflowTriggerConfig } from '@/lib/api'
 
-type WorkflowStepType = 'agent' | 'external' | 'manual' | 'decision' | 'foreach' | 'join' | 'flow'
+type WorkflowStepType = 'trigger' | 'agent' | 'external' | 'manual' | 'decision' | 'foreach' | 'join' | 'flow'
 
 interface StepConnection {
   targetStepId: string
@@ -69,6 +71,23 @@ interface WorkflowStep {
   prompt?: string
   hitlPhase?: string
   branches?: { condition: string | null; targetStepId: string }[]
+  retryPolicy?: {
+    maxAttempts: number
+    backoff?: 'fixed' | 'exponential'
+    delayMs?: number
+    maxDelayMs?: number
+    retryOn?: string[]
+  }
+  onErrorStepId?: string
+  timeoutMs?: number
+  dueOffsetHours?: number
+  onTimeout?: {
+    action: 'fail' | 'reassign' | 'escalate' | 'route'
+    escalationAssigneeId?: string
+    urgency?: 'low' | 'normal' | 'high' | 'urgent'
+    targetStepId?: string
+  }
+  triggerConfig?: WorkflowTriggerConfig
 }
 
 interface LoopScope {
@@ -94,6 +113,7 @@ const STEP_TYPES: { type: WorkflowStepType; label: string; description: string;
   { type: 'foreach', label: 'ForEach', description: 'Loop over items', icon: Repeat, color: 'text-green-500' },
   { type: 'join', label: 'Join', description: 'Aggregate', icon: Merge, color: 'text-indigo-500' },
   { type: 'flow', label: 'Flow', description: 'Nested workflow', icon: WorkflowIcon, color: 'text-pink-500' },
+  { type: 'trigger', label: 'Trigger', description: 'How it starts', icon: Zap, color: 'text-slate-500' },
 ]
 
 function detectLoopScopes(steps: WorkflowStep[]): LoopScope[] {
@@ -132,6 +152,7 @@ function generateMermaidFromSteps(steps: WorkflowStep[]): string {
   lines.push('  classDef foreach fill:#10B981,color:#fff,stroke:#059669,stroke-width:2px')
   lines.push('  classDef join fill:#6366F1,color:#fff,stroke:#4F46E5,stroke-width:2px')
   lines.push('  classDef flow fill:#EC4899,color:#fff,stroke:#DB2777,stroke-width:2px')
+  lines.push('  classDef trigger fill:#64748B,color:#fff,stroke:#475569,stroke-width:2px')
   lines.push('')
 
   // Create nodes
@@ -171,6 +192,10 @@ function generateMermaidFromSteps(steps: WorkflowStep[]): string {
         shape = `${id}[["Run: ${name}"]]`
         styleClass = 'flow'
         break
+      case 'trigger':
+        shape = `${id}[["Trigger: ${name}"]]`
+        styleClass = 'trigger'
+        break
       default:
         shape = `${id}["${name}"]`
         styleClass = 'agent'
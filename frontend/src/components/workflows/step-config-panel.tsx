@@ -11,6 +11,8 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { TokenBrowser } from './token-browser'
+import { TriggerStepConfig } from './trigger-step-config'
+import type { WorkflowTriggerConfig } from '@/lib/api'
 import { cn } from '@/lib/utils'
 import {
   Bot,
@@ -35,9 +37,11 @@ import {
   CornerDownRight,
   ChevronUp,
   ChevronDown,
+  RotateCcw,
+  Timer,
 } from 'lucide-react'
 
-type WorkflowStepType = 'agent' | 'external' | 'manual' | 'decision' | 'foreach' | 'join' | 'flow'
+type WorkflowStepType = 'trigger' | 'agent' | 'external' | 'manual' | 'decision' | 'foreach' | 'join' | 'flow'
 
 interface StepConnection {
   targetStepId: string
@@ -52,6 +56,23 @@ interface ExternalConfig {
   payloadTemplate?: string
 }
 
+interface StepRetryPolicy {
+  maxAttempts: number
+  backoff?: 'fixed' | 'exponential'
+  delayMs?: number
+  maxDelayMs?: number
+  retryOn?: string[]
+}
+
+type StepTimeoutAction = 'fail' | 'reassign' | 'escalate' | 'route'
+
+interface StepTimeoutConfig {
+  action: StepTimeoutAction
+  escalationAssigneeId?: string
+  urgency?: 'low' | 'normal' | 'high' | 'urgent'
+  targetStepId?: string
+}
+
 interface JoinBoundary {
   minCount?: number
   minPercent?: number
@@ -86,6 +107,12 @@ interface WorkflowStep {
   prompt?: string
   hitlPhase?: string
   branches?: { condition: string | null; targetStepId: string }[]
+  retryPolicy?: StepRetryPolicy
+  onErrorStepId?: string
+  timeoutMs?: number
+  dueOffsetHours?: number
+  onTimeout?: StepTimeoutConfig
+  triggerConfig?: WorkflowTriggerConfig
 }
 
 interface LoopScope {
@@ -119,6 +146,7 @@ const STEP_TYPES: { type: WorkflowStepType; label: string; description: string;
   { type: 'foreach', label: 'ForEach', description: 'Loop over items', icon: Repeat, color: 'text-green-500', bgColor: 'bg-green-500/10' },
   { type: 'join', label: 'Join', description: 'Aggregate results', icon: Merge, color: 'text-indigo-500', bgColor: 'bg-indigo-500/10' },
   { type: 'flow', label: 'Flow', description: 'Nested workflow', icon: WorkflowIcon, color: 'text-pink-500', bgColor: 'bg-pink-500/10' },
+  { type: 'trigger', label: 'Trigger', description: 'How the workflow starts', icon: Zap, color: 'text-slate-500', bgColor: 'bg-slate-500/10' },
 ]
 
 function getStepTypeInfo(stepType?: WorkflowStepType) {
@@ -541,6 +569,10 @@ export function StepConfigPanel({
                 </div>
               ))}
 
+              <p className="text-xs text-muted-foreground pl-4">
+                Supports ==, !=, &gt;, &lt;, and/or/not, contains, in, matches /regex/, exists(path) and len(path).
+              </p>
+
               <Button
                 type="button"
                 variant="outline"
@@ -804,8 +836,16 @@ export function StepConfigPanel({
           </div>
         )}
 
+        {/* Trigger configuration */}
+        {step.stepType === 'trigger' && (
+          <TriggerStepConfig
+            config={step.triggerConfig}
+            onChange={(triggerConfig) => onUpdate({ triggerConfig })}
+          />
+        )}
+
         {/* Input Source - for steps that receive data */}
-        {stepIndex > 0 && step.stepType !== 'foreach' && (
+        {stepIndex > 0 && step.stepType !== 'foreach' && step.stepType !== 'trigger' && (
           <div className="space-y-2 border-t pt-3">
             <div className="flex items-center gap-2">
               <Database className="h-4 w-4 text-muted-foreground" />
@@ -871,6 +911,234 @@ export function StepConfigPanel({
           </div>
         )}
 
+        {/* Timeout / SLA - agent and manual steps wait for a person or agent */}
+        {(step.stepType === 'agent' || step.stepType === 'manual') && (
+          <div className="space-y-2 border-t pt-3">
+            <div className="flex items-center gap-2">
+              <Timer className="h-4 w-4 text-muted-foreground" />
+              <label className="text-sm font-medium">Timeout</label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Time Out After (minutes)</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={step.timeoutMs ? Math.round(step.timeoutMs / 60000) : ''}
+                  onChange={(e) => {
+                    const minutes = parseInt(e.target.value)
+                    onUpdate({ timeoutMs: minutes > 0 ? minutes * 60000 : undefined })
+                  }}
+                  placeholder="No timeout"
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Due In (hours)</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={step.dueOffsetHours ?? ''}
+                  onChange={(e) => {
+                    const hours = parseFloat(e.target.value)
+                    onUpdate({ dueOffsetHours: hours > 0 ? hours : undefined })
+                  }}
+                  placeholder="Run default"
+                  className="h-8 text-sm"
+                />
+              </div>
+            </div>
+            {(step.timeoutMs || step.dueOffsetHours) && (
+              <>
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">When It Times Out</label>
+                  <Select
+                    value={step.onTimeout?.action || 'fail'}
+                    onValueChange={(val) => onUpdate({
+                      onTimeout: val === 'fail' ? undefined : { action: val as StepTimeoutAction },
+                    })}
+                  >
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fail">Fail the step</SelectItem>
+                      <SelectItem value="reassign">Reassign to someone else</SelectItem>
+                      <SelectItem value="escalate">Raise urgency</SelectItem>
+                      <SelectItem value="route">Go to another step</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {step.onTimeout?.action === 'reassign' && (
+                  <Select
+                    value={step.onTimeout.escalationAssigneeId || '_none'}
+                    onValueChange={(val) => onUpdate({
+                      onTimeout: { action: 'reassign', escalationAssigneeId: val === '_none' ? undefined : val },
+                    })}
+                  >
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue placeholder="Escalation assignee" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="_none">Select escalation assignee</SelectItem>
+                      {users.map((user) => (
+                        <SelectItem key={user._id} value={user._id}>
+                          {user.displayName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {step.onTimeout?.action === 'escalate' && (
+                  <Select
+                    value={step.onTimeout.urgency || '_next'}
+                    onValueChange={(val) => onUpdate({
+                      onTimeout: {
+                        action: 'escalate',
+                        urgency: val === '_next' ? undefined : val as StepTimeoutConfig['urgency'],
+                      },
+                    })}
+                  >
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="_next">One level higher</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="urgent">Urgent</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {step.onTimeout?.action === 'route' && (
+                  <Select
+                    value={step.onTimeout.targetStepId || '_none'}
+                    onValueChange={(val) => onUpdate({
+                      onTimeout: { action: 'route', targetStepId: val === '_none' ? undefined : val },
+                    })}
+                  >
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="_none">Select timeout step</SelectItem>
+                      {allSteps.map((s, i) => s.id !== step.id && (
+                        <SelectItem key={s.id} value={s.id}>
+                          <span className="text-xs">Step {i + 1}: {s.name}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Failure handling - retries and error branch */}
+        {step.stepType !== 'foreach' && step.stepType !== 'join' && step.stepType !== 'trigger' && (
+          <div className="space-y-2 border-t pt-3">
+            <div className="flex items-center gap-2">
+              <RotateCcw className="h-4 w-4 text-muted-foreground" />
+              <label className="text-sm font-medium">On Failure</label>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Max Attempts</label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={step.retryPolicy?.maxAttempts ?? 1}
+                  onChange={(e) => {
+                    const maxAttempts = parseInt(e.target.value) || 1
+                    onUpdate({
+                      retryPolicy: maxAttempts > 1
+                        ? { ...step.retryPolicy, maxAttempts }
+                        : undefined,
+                    })
+                  }}
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Backoff</label>
+                <Select
+                  value={step.retryPolicy?.backoff || 'exponential'}
+                  onValueChange={(val) => step.retryPolicy && onUpdate({
+                    retryPolicy: { ...step.retryPolicy, backoff: val as 'fixed' | 'exponential' },
+                  })}
+                  disabled={!step.retryPolicy}
+                >
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="exponential">Exponential</SelectItem>
+                    <SelectItem value="fixed">Fixed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Delay (ms)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={step.retryPolicy?.delayMs ?? ''}
+                  onChange={(e) => step.retryPolicy && onUpdate({
+                    retryPolicy: {
+                      ...step.retryPolicy,
+                      delayMs: e.target.value === '' ? undefined : parseInt(e.target.value),
+                    },
+                  })}
+                  placeholder="1000"
+                  disabled={!step.retryPolicy}
+                  className="h-8 text-sm"
+                />
+              </div>
+            </div>
+            {step.retryPolicy && (
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Retry only errors containing</label>
+                <Input
+                  value={step.retryPolicy.retryOn?.join(', ') || ''}
+                  onChange={(e) => {
+                    const retryOn = e.target.value.split(',').map(p => p.trim()).filter(Boolean)
+                    onUpdate({
+                      retryPolicy: { ...step.retryPolicy!, retryOn: retryOn.length > 0 ? retryOn : undefined },
+                    })
+                  }}
+                  placeholder="Any error (e.g., timeout, HTTP 503)"
+                  className="h-8 text-sm"
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Then go to</label>
+              <Select
+                value={step.onErrorStepId || '_none'}
+                onValueChange={(val) => onUpdate({ onErrorStepId: val === '_none' ? undefined : val })}
+              >
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="_none">Fail the workflow</SelectItem>
+                  {allSteps.map((s, i) => s.id !== step.id && (
+                    <SelectItem key={s.id} value={s.id}>
+                      <span className="text-xs">Step {i + 1}: {s.name}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {step.onErrorStepId && (
+                <p className="text-xs text-muted-foreground">
+                  The error step receives this step&apos;s input plus <code>error.message</code>, <code>error.stepId</code> and <code>error.attempts</code>.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Description */}
         <div className="space-y-1 border-t pt-3">
           <label className="text-sm font-medium">Description</label>
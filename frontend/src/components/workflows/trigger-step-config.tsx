@@ -0,0 +1,231 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy, Zap } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { TagInput } from '@/components/ui/tag-input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CronPreview, browserTimezone } from '@/components/schedules/cron-preview'
+import { ScheduleCatchUpPolicy, WorkflowTriggerConfig, WorkflowTriggerType } from '@/lib/api'
+
+const TRIGGER_TYPES: { value: WorkflowTriggerType; label: string; description: string }[] = [
+  { value: 'manual', label: 'Manual', description: 'Started from the app or POST /api/workflow-runs' },
+  { value: 'cron', label: 'Schedule', description: 'Started on a cron schedule' },
+  { value: 'event', label: 'Task event', description: 'Started when a matching task event happens' },
+  { value: 'webhook', label: 'Inbound webhook', description: 'Started by a POST to a secret URL' },
+]
+
+const EVENT_TYPES = [
+  { value: 'task.created', label: 'Task Created' },
+  { value: 'task.updated', label: 'Task Updated' },
+  { value: 'task.status.changed', label: 'Status Changed' },
+  { value: 'task.assignee.changed', label: 'Assignee Changed' },
+  { value: 'task.priority.changed', label: 'Priority Changed' },
+  { value: 'task.metadata.changed', label: 'Metadata Changed' },
+  { value: 'task.comment.added', label: 'Comment Added' },
+  { value: 'task.comment.mentioned', label: 'Mentioned in Comment' },
+  { value: 'task.attachment.added', label: 'Attachment Added' },
+  { value: 'task.unblocked', label: 'Unblocked' },
+  { value: 'task.deleted', label: 'Task Deleted' },
+]
+
+const CATCH_UP_POLICIES: { value: ScheduleCatchUpPolicy; label: string }[] = [
+  { value: 'skip', label: 'Skip missed runs' },
+  { value: 'run_once', label: 'Run once' },
+  { value: 'run_all', label: 'Run every missed run' },
+]
+
+interface TriggerStepConfigProps {
+  config?: WorkflowTriggerConfig
+  onChange: (config: WorkflowTriggerConfig) => void
+}
+
+export function TriggerStepConfig({ config, onChange }: TriggerStepConfigProps) {
+  const [copied, setCopied] = useState(false)
+  const current: WorkflowTriggerConfig = config || { type: 'manual' }
+  const update = (updates: Partial<WorkflowTriggerConfig>) => onChange({ ...current, ...updates })
+
+  const changeType = (type: WorkflowTriggerType) => {
+    // Keep only what the new type uses
+    const next: WorkflowTriggerConfig = { type, ...(current.inputPayload && { inputPayload: current.inputPayload }) }
+    if (type === 'cron') {
+      next.cronExpression = current.cronExpression || '0 9 * * mon-fri'
+      next.timezone = current.timezone || browserTimezone()
+    } else if (type === 'event') {
+      next.eventTypes = current.eventTypes?.length ? current.eventTypes : ['task.created']
+    } else if (type === 'webhook' && current.webhookToken) {
+      next.webhookToken = current.webhookToken
+    }
+    onChange(next)
+  }
+
+  const toggleEventType = (eventType: string, checked: boolean) => {
+    const eventTypes = current.eventTypes || []
+    update({
+      eventTypes: checked ? [...eventTypes, eventType] : eventTypes.filter((t) => t !== eventType),
+    })
+  }
+
+  const webhookUrl = current.webhookToken && typeof window !== 'undefined'
+    ? `${window.location.origin}/api/workflow-triggers/${current.webhookToken}`
+    : null
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <div className="bg-slate-50 dark:bg-slate-900/40 border border-slate-200 dark:border-slate-700 rounded-lg p-3 text-sm">
+        <div className="flex items-start gap-2">
+          <Zap className="h-4 w-4 text-slate-600 dark:text-slate-400 mt-0.5 flex-shrink-0" />
+          <div className="text-slate-800 dark:text-slate-200">
+            <p className="font-medium">Workflow Trigger</p>
+            <p className="text-xs mt-1">
+              How this workflow starts. Schedules, events and webhooks only fire while the workflow is active.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-sm font-medium">Starts when</label>
+        <Select value={current.type} onValueChange={(val) => changeType(val as WorkflowTriggerType)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRIGGER_TYPES.map((t) => (
+              <SelectItem key={t.value} value={t.value}>
+                {t.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {TRIGGER_TYPES.find((t) => t.value === current.type)?.description}
+        </p>
+      </div>
+
+      {current.type === 'cron' && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Cron expression</label>
+              <Input
+                value={current.cronExpression || ''}
+                onChange={(e) => update({ cronExpression: e.target.value })}
+                placeholder="0 9 * * mon-fri"
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Timezone</label>
+              <Input
+                value={current.timezone || ''}
+                onChange={(e) => update({ timezone: e.target.value })}
+                placeholder="UTC"
+                className="text-sm"
+              />
+            </div>
+          </div>
+          <CronPreview cronExpression={current.cronExpression || ''} timezone={current.timezone || 'UTC'} />
+          <div className="space-y-1">
+            <label className="text-xs font-medium">If runs were missed</label>
+            <Select
+              value={current.catchUpPolicy || 'skip'}
+              onValueChange={(val) => update({ catchUpPolicy: val as ScheduleCatchUpPolicy })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CATCH_UP_POLICIES.map((p) => (
+                  <SelectItem key={p.value} value={p.value}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {current.type === 'event' && (
+        <div className="space-y-2">
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Events</label>
+            <div className="grid grid-cols-2 gap-1">
+              {EVENT_TYPES.map((e) => (
+                <label key={e.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={current.eventTypes?.includes(e.value) || false}
+                    onCheckedChange={(checked) => toggleEventType(e.value, checked === true)}
+                  />
+                  {e.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Only tasks tagged</label>
+            <TagInput
+              value={current.tags || []}
+              onChange={(tags) => update({ tags: tags.length > 0 ? tags : undefined })}
+              placeholder="Any tag"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Condition</label>
+            <Input
+              value={current.condition || ''}
+              onChange={(e) => update({ condition: e.target.value || undefined })}
+              placeholder="e.g., task.urgency == 'urgent'"
+              className="font-mono text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              Optional. Evaluated against <code className="bg-muted px-1 rounded">task</code>,{' '}
+              <code className="bg-muted px-1 rounded">changes</code> and{' '}
+              <code className="bg-muted px-1 rounded">eventType</code>.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {current.type === 'webhook' && (
+        <div className="space-y-1">
+          <label className="text-xs font-medium">Trigger URL</label>
+          {webhookUrl ? (
+            <>
+              <div className="flex gap-1">
+                <Input value={webhookUrl} readOnly className="font-mono text-xs" />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={async () => {
+                    await navigator.clipboard.writeText(webhookUrl)
+                    setCopied(true)
+                    setTimeout(() => setCopied(false), 2000)
+                  }}
+                  title="Copy URL"
+                >
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                POST JSON to this URL to start a run; the body becomes the run input. Keep it secret.
+              </p>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">The URL is generated when the workflow is saved.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
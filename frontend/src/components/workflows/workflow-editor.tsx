@@ -5,7 +5,7 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { useUsers } from '@/hooks/use-tasks'
-import { workflowsApi, Workflow as ApiWorkflow } from '@/lib/api'
+import { workflowsApi, Workflow as ApiWorkflow, WorkflowTriggerConfig } from '@/lib/api'
 import { getAuthHeader } from '@/lib/auth'
 import {
   Dialog,
@@ -73,6 +73,7 @@ import {
   CornerDownRight,
 } from 'lucide-react'
 import { TokenBrowser } from './token-browser'
+import { TriggerStepConfig } from './trigger-step-config'
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || '/api'
 
@@ -84,7 +85,8 @@ const API_BASE = process.env.NEXT_PUBLIC_API_URL || '/api'
 // - foreach: Fan-out loop over collection
 // - join: Fan-in aggregation point
 // - flow: Delegate to another workflow (nested)
-type WorkflowStepType = 'agent' | 'external' | 'manual' | 'decision' | 'foreach' | 'join' | 'flow'
+// - trigger: How the workflow starts (manual, cron, task event, inbound webhook)
+type WorkflowStepType = 'trigger' | 'agent' | 'external' | 'manual' | 'decision' | 'foreach' | 'join' | 'flow'
 
 // Connection between steps (for non-linear flows)
 interface StepConnection {
@@ -143,6 +145,29 @@ interface WorkflowStep {
   flowId?: string
   inputMapping?: Record<string, string>
 
+  // Failure handling
+  retryPolicy?: {
+    maxAttempts: number
+    backoff?: 'fixed' | 'exponential'
+    delayMs?: number
+    maxDelayMs?: number
+    retryOn?: string[]
+  }
+  onErrorStepId?: string
+
+  // Timeouts / SLA (agent and manual steps)
+  timeoutMs?: number
+  dueOffsetHours?: number
+  onTimeout?: {
+    action: 'fail' | 'reassign' | 'escalate' | 'route'
+    escalationAssigneeId?: string
+    urgency?: 'low' | 'normal' | 'high' | 'urgent'
+    targetStepId?: string
+  }
+
+  // Trigger fields
+  triggerConfig?: WorkflowTriggerConfig
+
   // Legacy compatibility
   execution?: 'automated' | 'manual'
   type?: 'automated' | 'manual'
@@ -187,6 +212,7 @@ const STEP_TYPES: { type: WorkflowStepType; label: string; description: string;
   { type: 'foreach', label: 'ForEach', description: 'Loop over items', icon: Repeat, color: 'text-green-500', bgColor: 'bg-green-500/10' },
   { type: 'join', label: 'Join', description: 'Aggregate results', icon: Merge, color: 'text-indigo-500', bgColor: 'bg-indigo-500/10' },
   { type: 'flow', label: 'Flow', description: 'Nested workflow', icon: WorkflowIcon, color: 'text-pink-500', bgColor: 'bg-pink-500/10' },
+  { type: 'trigger', label: 'Trigger', description: 'How the workflow starts', icon: Zap, color: 'text-slate-500', bgColor: 'bg-slate-500/10' },
 ]
 
 // Detect loop scopes (ForEach → Join boundaries)
@@ -352,6 +378,21 @@ function generateMermaidFromSteps(steps: WorkflowStep[], _name?: string): string
       metadata.inputMapping = step.inputMapping
     }
 
+    // Failure handling
+    if (step.retryPolicy) metadata.retryPolicy = step.retryPolicy
+    if (step.onErrorStepId) metadata.onErrorStepId = step.onErrorStepId
+
+    // Timeouts / SLA
+    if (step.timeoutMs) metadata.timeoutMs = step.timeoutMs
+    if (step.dueOffsetHours) metadata.dueOffsetHours = step.dueOffsetHours
+    if (step.onTimeout) metadata.onTimeout = step.onTimeout
+
+    // Trigger step fields - the webhook token stays on the server, which keeps it by step id
+    if (step.triggerConfig) {
+      const { webhookToken: _webhookToken, ...triggerConfig } = step.triggerConfig
+      metadata.triggerConfig = triggerConfig
+    }
+
     // Queue metadata comment if there's any data to preserve (will add at the end)
     if (Object.keys(metadata).length > 0) {
       metadataComments.push(`    %% @step(${nodeId}): ${JSON.stringify(metadata)}`)
@@ -381,6 +422,9 @@ function generateMermaidFromSteps(steps: WorkflowStep[], _name?: string): string
       case 'flow':
         lines.push(`    ${nodeId}[["Run: ${label}"]]`)
         break
+      case 'trigger':
+        lines.push(`    ${nodeId}[["Trigger: ${label}"]]`)
+        break
       default:
         const execution = step.execution || step.type || 'automated'
         if (execution === 'manual') {
@@ -451,6 +495,7 @@ function generateMermaidFromSteps(steps: WorkflowStep[], _name?: string): string
   lines.push('    classDef foreach fill:#10B981,color:#fff,stroke:#059669')
   lines.push('    classDef join fill:#6366F1,color:#fff,stroke:#4F46E5')
   lines.push('    classDef flow fill:#EC4899,color:#fff,stroke:#DB2777')
+  lines.push('    classDef trigger fill:#64748B,color:#fff,stroke:#475569')
 
   // Apply classes to nodes
   const classGroups: Record<string, string[]> = {
@@ -461,6 +506,7 @@ function generateMermaidFromSteps(steps: WorkflowStep[], _name?: string): string
     foreach: [],
     join: [],
     flow: [],
+    trigger: [],
   }
 
   steps.forEach((step, i) => {
@@ -488,6 +534,9 @@ function generateMermaidFromSteps(steps: WorkflowStep[], _name?: string): string
       case 'flow':
         classGroups.flow.push(nodeId)
         break
+      case 'trigger':
+        classGroups.trigger.push(nodeId)
+        break
       default:
         const execution = step.execution || step.type || 'automated'
         if (execution === 'manual') {
@@ -1984,8 +2033,16 @@ The agent will receive task context automatically.`}
                                 </>
                               )}
 
+                              {/* Trigger configuration */}
+                              {step.stepType === 'trigger' && (
+                                <TriggerStepConfig
+                                  config={step.triggerConfig}
+                                  onChange={(triggerConfig) => updateStep(index, { triggerConfig })}
+                                />
+                              )}
+
                               {/* Input Source - for steps that receive data */}
-                              {index > 0 && step.stepType !== 'foreach' && (
+                              {index > 0 && step.stepType !== 'foreach' && step.stepType !== 'trigger' && (
                                 <div className="space-y-2 border-t pt-3 mt-3">
                                   <div className="flex items-center gap-2">
                                     <Database className="h-4 w-4 text-muted-foreground" />
@@ -0,0 +1,243 @@
+'use client'
+
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { History, RotateCcw, Plus, Minus, Pencil } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
+import { AuditHistoryPanel } from '@/components/audit/audit-history-panel'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { workflowsApi, FieldChange } from '@/lib/api'
+
+interface WorkflowHistoryDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  workflow: { _id: string; name: string } | null
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(none)'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="space-y-1">
+      {changes.map((change) => (
+        <li key={change.field} className="text-xs font-mono break-all">
+          <span className="text-muted-foreground">{change.field}:</span>{' '}
+          <span className="line-through text-red-600">{formatValue(change.oldValue)}</span>{' '}
+          <span className="text-green-600">{formatValue(change.newValue)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function WorkflowHistoryDialog({ isOpen, onClose, workflow }: WorkflowHistoryDialogProps) {
+  const queryClient = useQueryClient()
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null)
+  const [rollbackConfirm, setRollbackConfirm] = useState(false)
+
+  const workflowId = workflow?._id
+
+  const { data: revisionsData, isLoading } = useQuery({
+    queryKey: ['workflow-revisions', workflowId],
+    queryFn: () => workflowsApi.revisions(workflowId!),
+    enabled: isOpen && !!workflowId,
+  })
+
+  const revisions = revisionsData?.data || []
+  const currentVersion = revisions[0]?.version
+
+  const { data: diffData, isLoading: diffLoading } = useQuery({
+    queryKey: ['workflow-diff', workflowId, selectedVersion, currentVersion],
+    queryFn: () => workflowsApi.diff(workflowId!, selectedVersion!, currentVersion),
+    enabled: isOpen && !!workflowId && selectedVersion !== null && selectedVersion !== currentVersion,
+  })
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: number) => workflowsApi.rollback(workflowId!, version),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflows'] })
+      queryClient.invalidateQueries({ queryKey: ['workflow-revisions', workflowId] })
+      queryClient.invalidateQueries({ queryKey: ['audit-logs'] })
+      setRollbackConfirm(false)
+      setSelectedVersion(null)
+    },
+  })
+
+  const handleClose = () => {
+    setSelectedVersion(null)
+    onClose()
+  }
+
+  const diff = diffData?.data
+  const hasDiff = diff && (
+    diff.changes.length > 0 ||
+    diff.steps.added.length > 0 ||
+    diff.steps.removed.length > 0 ||
+    diff.steps.changed.length > 0
+  )
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Version History: {workflow?.name}
+            </DialogTitle>
+            <DialogDescription>
+              Every save creates a new version. Runs keep using the version they started with.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs defaultValue="versions">
+            <TabsList>
+              <TabsTrigger value="versions">Versions</TabsTrigger>
+              <TabsTrigger value="changes">Change Log</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="versions">
+              <div className="grid grid-cols-[220px_1fr] gap-4 max-h-[60vh]">
+                {/* Revision list */}
+                <div className="overflow-y-auto border rounded-md divide-y">
+                  {isLoading ? (
+                    <div className="p-4 text-sm text-muted-foreground">Loading...</div>
+                  ) : revisions.map((revision) => (
+                    <button
+                      key={revision.version}
+                      className={cn(
+                        'w-full text-left px-3 py-2 hover:bg-muted/50',
+                        selectedVersion === revision.version && 'bg-muted'
+                      )}
+                      onClick={() => setSelectedVersion(revision.version)}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm">v{revision.version}</span>
+                        {revision.version === currentVersion && (
+                          <Badge variant="secondary" className="text-xs">Current</Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(revision.createdAt).toLocaleString()} · {revision.stepCount} steps
+                      </div>
+                      {revision.changeNote && (
+                        <div className="text-xs text-muted-foreground truncate">{revision.changeNote}</div>
+                      )}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Diff against current */}
+                <div className="overflow-y-auto space-y-4">
+                  {selectedVersion === null ? (
+                    <p className="text-sm text-muted-foreground">Select a version to compare it with the current one.</p>
+                  ) : selectedVersion === currentVersion ? (
+                    <p className="text-sm text-muted-foreground">This is the current version.</p>
+                  ) : diffLoading ? (
+                    <p className="text-sm text-muted-foreground">Loading changes...</p>
+                  ) : !hasDiff ? (
+                    <p className="text-sm text-muted-foreground">No differences from the current version.</p>
+                  ) : diff && (
+                    <>
+                      <p className="text-sm">
+                        Changes from v{diff.fromVersion} to v{diff.toVersion}
+                      </p>
+                      {diff.changes.length > 0 && (
+                        <div>
+                          <h4 className="text-sm font-medium mb-1">Workflow</h4>
+                          <ChangeList changes={diff.changes} />
+                        </div>
+                      )}
+                      {diff.steps.added.map((step) => (
+                        <div key={`added-${step.id}`} className="flex items-center gap-2 text-sm text-green-600">
+                          <Plus className="h-4 w-4" />
+                          Added step: {step.name}
+                        </div>
+                      ))}
+                      {diff.steps.removed.map((step) => (
+                        <div key={`removed-${step.id}`} className="flex items-center gap-2 text-sm text-red-600">
+                          <Minus className="h-4 w-4" />
+                          Removed step: {step.name}
+                        </div>
+                      ))}
+                      {diff.steps.changed.map((step) => (
+                        <div key={`changed-${step.stepId}`}>
+                          <div className="flex items-center gap-2 text-sm font-medium mb-1">
+                            <Pencil className="h-4 w-4 text-amber-500" />
+                            Changed step: {step.name}
+                          </div>
+                          <ChangeList changes={step.changes} />
+                        </div>
+                      ))}
+                    </>
+                  )}
+
+                  {selectedVersion !== null && selectedVersion !== currentVersion && (
+                    <Button variant="outline" size="sm" onClick={() => setRollbackConfirm(true)}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore v{selectedVersion}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </TabsContent>
+
+            {/* Audit trail - who changed the workflow and when */}
+            <TabsContent value="changes" className="max-h-[60vh] overflow-y-auto">
+              <AuditHistoryPanel
+                entityTypes={['workflow']}
+                entityId={workflowId}
+                title="Change Log"
+                enabled={isOpen && !!workflowId}
+              />
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={rollbackConfirm} onOpenChange={setRollbackConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {selectedVersion}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The workflow definition will be replaced with version {selectedVersion} and saved as a new version.
+              Runs already in progress are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selectedVersion !== null && rollbackMutation.mutate(selectedVersion)}
+              disabled={rollbackMutation.isPending}
+            >
+              {rollbackMutation.isPending ? 'Restoring...' : 'Restore'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { activityLogsApi, ActivityLogEntry } from '@/lib/api'
+import { activityLogsApi, auditLogsApi, ActivityLogEntry, AuditEntityType } from '@/lib/api'
 
 interface UseTaskActivityOptions {
   enabled?: boolean
@@ -39,12 +39,52 @@ export function useRecentActivity(params?: {
   })
 }
 
+export function useAuditHistory(params: {
+  entityTypes?: AuditEntityType[]
+  entityId?: string
+  limit?: number
+  offset?: number
+}, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ['audit-logs', params],
+    queryFn: () => auditLogsApi.getHistory(params),
+    enabled: options?.enabled !== false,
+    staleTime: 10000,
+  })
+}
+
 export function useAddComment() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: ({ taskId, comment, actorId }: { taskId: string; comment: string; actorId?: string }) =>
-      activityLogsApi.addComment(taskId, comment, actorId),
+    mutationFn: ({ taskId, comment, actorId, parentId }: { taskId: string; comment: string; actorId?: string; parentId?: string }) =>
+      activityLogsApi.addComment(taskId, comment, actorId, parentId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['activity-logs', 'task', variables.taskId] })
+      queryClient.invalidateQueries({ queryKey: ['activity-logs', 'recent'] })
+    },
+  })
+}
+
+export function useEditComment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ taskId, commentId, comment }: { taskId: string; commentId: string; comment: string }) =>
+      activityLogsApi.editComment(taskId, commentId, comment),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['activity-logs', 'task', variables.taskId] })
+      queryClient.invalidateQueries({ queryKey: ['activity-logs', 'recent'] })
+    },
+  })
+}
+
+export function useDeleteComment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ taskId, commentId }: { taskId: string; commentId: string }) =>
+      activityLogsApi.deleteComment(taskId, commentId),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['activity-logs', 'task', variables.taskId] })
       queryClient.invalidateQueries({ queryKey: ['activity-logs', 'recent'] })
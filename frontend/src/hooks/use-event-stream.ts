@@ -2,7 +2,7 @@
 
 import { useEffect, useRef, useCallback, useState } from 'react'
 import { useQueryClient } from '@tanstack/react-query'
-import { Task } from '@/lib/api'
+import { Task, Notification } from '@/lib/api'
 
 // Task event types from the backend
 export type TaskEventType =
@@ -14,21 +14,38 @@ export type TaskEventType =
   | 'task.priority.changed'
   | 'task.metadata.changed'
   | 'task.comment.added'
+  | 'task.comment.edited'
+  | 'task.comment.deleted'
+  | 'task.comment.mentioned'
+  | 'task.attachment.added'
+  | 'task.attachment.deleted'
   | 'task.moved'
+  | 'task.blocked'
+  | 'task.unblocked'
 
 // Workflow run event types from the backend
 export type WorkflowRunEventType =
   | 'workflow.run.created'
   | 'workflow.run.started'
+  | 'workflow.run.paused'
+  | 'workflow.run.resumed'
   | 'workflow.run.step.started'
   | 'workflow.run.step.completed'
   | 'workflow.run.step.failed'
+  | 'workflow.run.step.retrying'
+  | 'workflow.run.step.timed_out'
+  | 'workflow.run.step.skipped'
   | 'workflow.run.completed'
   | 'workflow.run.failed'
   | 'workflow.run.cancelled'
 
+// Notification event types - only the signed-in user's own are sent
+export type NotificationEventType =
+  | 'notification.created'
+  | 'notification.read'
+
 // Combined event type
-export type EventType = TaskEventType | WorkflowRunEventType
+export type EventType = TaskEventType | WorkflowRunEventType | NotificationEventType
 
 export interface FieldChange {
   field: string
@@ -68,8 +85,16 @@ export interface WorkflowRunEventData {
   }
 }
 
+export interface NotificationEventData {
+  id: string
+  type: NotificationEventType
+  timestamp: string
+  unreadCount: number
+  notification?: Notification
+}
+
 // Union type for all event data
-export type EventData = TaskEventData | WorkflowRunEventData
+export type EventData = TaskEventData | WorkflowRunEventData | NotificationEventData
 
 // Global event stream manager - shared across all hooks
 class EventStreamManager {
@@ -84,6 +109,9 @@ class EventStreamManager {
   private disconnectDelay = 500 // Debounce delay for disconnect (handles React 18 StrictMode)
   private isConnecting = false
   private _isConnected = false
+  // Stream position of the last event received - sent on reconnect so the
+  // server replays anything missed while disconnected
+  private lastEventId: string | null = null
 
   get isConnected(): boolean {
     return this._isConnected
@@ -103,7 +131,10 @@ class EventStreamManager {
 
     // Connect to SSE endpoint with auth token as query param (SSE doesn't support headers)
     const apiBase = process.env.NEXT_PUBLIC_API_URL || '/api'
-    const url = `${apiBase}/events/stream?token=${encodeURIComponent(token)}`
+    let url = `${apiBase}/events/stream?token=${encodeURIComponent(token)}`
+    if (this.lastEventId) {
+      url += `&lastEventId=${encodeURIComponent(this.lastEventId)}`
+    }
 
     try {
       this.eventSource = new EventSource(url)
@@ -140,12 +171,20 @@ class EventStreamManager {
         'task.priority.changed',
         'task.metadata.changed',
         'task.comment.added',
+        'task.comment.edited',
+        'task.comment.deleted',
+        'task.comment.mentioned',
+        'task.attachment.added',
+        'task.attachment.deleted',
         'task.moved',
+        'task.blocked',
+        'task.unblocked',
       ]
 
       taskEventTypes.forEach(type => {
         this.eventSource?.addEventListener(type, (event: MessageEvent) => {
           try {
+            this.trackEventId(event)
             const data: TaskEventData = JSON.parse(event.data)
             console.log(`[EventStream] Task event: ${type}`, { taskId: data.taskId, parentId: data.task?.parentId })
             this.notifyListeners(type, data)
@@ -160,9 +199,14 @@ class EventStreamManager {
       const workflowRunEventTypes: WorkflowRunEventType[] = [
         'workflow.run.created',
         'workflow.run.started',
+        'workflow.run.paused',
+        'workflow.run.resumed',
         'workflow.run.step.started',
         'workflow.run.step.completed',
         'workflow.run.step.failed',
+        'workflow.run.step.retrying',
+        'workflow.run.step.timed_out',
+        'workflow.run.step.skipped',
         'workflow.run.completed',
         'workflow.run.failed',
         'workflow.run.cancelled',
@@ -171,6 +215,7 @@ class EventStreamManager {
       workflowRunEventTypes.forEach(type => {
         this.eventSource?.addEventListener(type, (event: MessageEvent) => {
           try {
+            this.trackEventId(event)
             const data: WorkflowRunEventData = JSON.parse(event.data)
             console.log(`[EventStream] Workflow run event: ${type}`, { workflowRunId: data.workflowRunId, stepId: data.stepId })
             this.notifyListeners(type, data)
@@ -180,6 +225,24 @@ class EventStreamManager {
           }
         })
       })
+
+      // Listen for notification events. They aren't replayed, so they don't
+      // move lastEventId, and wildcard listeners don't receive them.
+      const notificationEventTypes: NotificationEventType[] = [
+        'notification.created',
+        'notification.read',
+      ]
+
+      notificationEventTypes.forEach(type => {
+        this.eventSource?.addEventListener(type, (event: MessageEvent) => {
+          try {
+            const data: NotificationEventData = JSON.parse(event.data)
+            this.notifyListeners(type, data)
+          } catch (error) {
+            console.error('[EventStream] Error parsing notification event:', error)
+          }
+        })
+      })
     } catch (error) {
       console.error('[EventStream] Error creating EventSource:', error)
       this.isConnecting = false
@@ -187,6 +250,12 @@ class EventStreamManager {
     }
   }
 
+  private trackEventId(event: MessageEvent): void {
+    if (event.lastEventId) {
+      this.lastEventId = event.lastEventId
+    }
+  }
+
   private scheduleReconnect(): void {
     if (this.reconnectTimeout) return
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
@@ -333,9 +402,14 @@ export function useEventStream(options?: {
       switch (event.type) {
         case 'workflow.run.created':
         case 'workflow.run.started':
+        case 'workflow.run.paused':
+        case 'workflow.run.resumed':
         case 'workflow.run.step.started':
         case 'workflow.run.step.completed':
         case 'workflow.run.step.failed':
+        case 'workflow.run.step.retrying':
+        case 'workflow.run.step.timed_out':
+        case 'workflow.run.step.skipped':
         case 'workflow.run.completed':
         case 'workflow.run.failed':
         case 'workflow.run.cancelled':
@@ -452,6 +526,8 @@ export function useEventStream(options?: {
       case 'task.status.changed':
       case 'task.priority.changed':
       case 'task.metadata.changed':
+      case 'task.blocked':
+      case 'task.unblocked':
         // Update the specific task in cache if we have task data
         if (event.task) {
           const taskData = event.task as Task
@@ -567,8 +643,21 @@ export function useEventStream(options?: {
         break
 
       case 'task.comment.added':
+      case 'task.comment.edited':
+      case 'task.comment.deleted':
+      case 'task.comment.mentioned':
         // Comments are also activity, but handled below
         break
+
+      case 'task.attachment.added':
+      case 'task.attachment.deleted':
+        queryClient.invalidateQueries({ queryKey: ['task-attachments', event.taskId] })
+        break
+    }
+
+    // Blocked state follows the status of other tasks - refresh dependency lists
+    if (event.type === 'task.status.changed' || event.type === 'task.blocked' || event.type === 'task.unblocked') {
+      queryClient.invalidateQueries({ queryKey: ['task-dependencies'] })
     }
 
     // All task events create activity log entries - invalidate activity logs
@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { notificationsApi, Notification, NotificationPreferences } from '@/lib/api'
+import { eventStreamManager, EventData, NotificationEventData } from '@/hooks/use-event-stream'
+
+const UNREAD_COUNT_KEY = ['notifications', 'unread-count']
+
+/**
+ * Unread notification count, kept current by the SSE stream
+ */
+export function useUnreadNotificationCount() {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: UNREAD_COUNT_KEY,
+    queryFn: () => notificationsApi.unreadCount(),
+    staleTime: 60000,
+  })
+
+  useEffect(() => {
+    const handleEvent = (event: EventData) => {
+      const { unreadCount } = event as NotificationEventData
+      queryClient.setQueryData(UNREAD_COUNT_KEY, { data: { unreadCount } })
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'list'] })
+    }
+
+    const unsubscribers = [
+      eventStreamManager.subscribe('notification.created', handleEvent),
+      eventStreamManager.subscribe('notification.read', handleEvent),
+      // Notification events aren't replayed - refetch after reconnecting
+      eventStreamManager.onConnectionChange((connected) => {
+        if (connected) queryClient.invalidateQueries({ queryKey: UNREAD_COUNT_KEY })
+      }),
+    ]
+
+    return () => {
+      unsubscribers.forEach(unsub => unsub())
+    }
+  }, [queryClient])
+
+  return query.data?.data.unreadCount ?? 0
+}
+
+export function useNotifications(params?: { unread?: boolean; limit?: number; offset?: number }) {
+  return useQuery({
+    queryKey: ['notifications', 'list', params],
+    queryFn: () => notificationsApi.list(params),
+    staleTime: 30000,
+  })
+}
+
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => notificationsApi.markRead(id),
+    onSuccess: (result) => {
+      queryClient.setQueryData(UNREAD_COUNT_KEY, result)
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'list'] })
+    },
+  })
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: () => notificationsApi.markAllRead(),
+    onSuccess: (result) => {
+      queryClient.setQueryData(UNREAD_COUNT_KEY, result)
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'list'] })
+    },
+  })
+}
+
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: ['notifications', 'preferences'],
+    queryFn: () => notificationsApi.getPreferences(),
+  })
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: Partial<NotificationPreferences>) => notificationsApi.updatePreferences(data),
+    onSuccess: (result) => {
+      queryClient.setQueryData(['notifications', 'preferences'], result)
+    },
+  })
+}
+
+/**
+ * Where a notification leads - the task it is about, or the workflow run
+ */
+export function getNotificationHref(notification: Notification): string | null {
+  if (notification.type === 'workflow.run.failed' && notification.workflowRunId) {
+    return `/workflow-runs?id=${notification.workflowRunId}`
+  }
+  if (notification.taskId) {
+    return `/tasks?taskId=${notification.taskId}`
+  }
+  return null
+}
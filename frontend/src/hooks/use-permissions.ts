@@ -0,0 +1,34 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { authApi, Permission } from '@/lib/api'
+import { useAuth } from '@/lib/auth'
+
+/**
+ * The signed-in user's permissions, for hiding actions the API would
+ * reject. `can()` is false until the permissions have loaded.
+ */
+export function usePermissions() {
+  const { user } = useAuth()
+
+  const query = useQuery({
+    queryKey: ['auth', 'permissions', user?.id],
+    queryFn: () => authApi.permissions(),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const permissions = query.data?.permissions
+  const can = useCallback(
+    (permission: Permission) => permissions?.includes(permission) ?? false,
+    [permissions]
+  )
+
+  return {
+    permissions: permissions || [],
+    role: query.data?.role,
+    isLoading: query.isLoading,
+    can,
+  }
+}
@@ -1,7 +1,20 @@
 'use client'
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { tasksApi, lookupsApi, fieldConfigsApi, viewsApi, usersApi, workflowsApi, Task } from '@/lib/api'
+import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query'
+import {
+  tasksApi,
+  lookupsApi,
+  fieldConfigsApi,
+  viewsApi,
+  usersApi,
+  workflowsApi,
+  Task,
+  BulkOperationType,
+  BulkOperationParams,
+  BulkOperationResponse,
+  BulkOperationSummary,
+  BulkTaskResult,
+} from '@/lib/api'
 
 // Helper to normalize query params for consistent cache keys
 function normalizeParams(params?: Record<string, string | number | boolean>): string {
@@ -84,8 +97,8 @@ export function useUpdateTask() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<Task> }) =>
-      tasksApi.update(id, data),
+    mutationFn: ({ id, data, expectedRevision }: { id: string; data: Partial<Task>; expectedRevision?: number }) =>
+      tasksApi.update(id, data, expectedRevision),
     // Use optimistic updates to prevent table refresh/collapse
     onMutate: async ({ id, data }) => {
       // Cancel outgoing refetches
@@ -150,6 +163,13 @@ export function useUpdateTask() {
         })
       }
     },
+    // Store the new revision so the next edit isn't seen as a conflict
+    onSuccess: (response, { id }) => {
+      const revision = response.data?.revision
+      if (revision !== undefined) {
+        setCachedTask(queryClient, id, { revision })
+      }
+    },
     // SSE will handle real-time updates, so we don't need to invalidate
     // Only invalidate the specific task to get the resolved references
     onSettled: (_, __, { id }) => {
@@ -158,6 +178,30 @@ export function useUpdateTask() {
   })
 }
 
+// Merge fields into every cached copy of a task
+export function setCachedTask(queryClient: QueryClient, id: string, updates: Partial<Task>) {
+  queryClient.setQueryData(['task', id], (old: unknown) => {
+    if (!old) return old
+    const oldData = old as { data: Task }
+    return { ...oldData, data: { ...oldData.data, ...updates } }
+  })
+  for (const queryKey of [['tasks'], ['task-children']]) {
+    queryClient.setQueriesData({ queryKey }, (old: unknown) => {
+      if (!old) return old
+      const oldData = old as { data: Task[] }
+      return {
+        ...oldData,
+        data: oldData.data.map((task: Task) => task._id === id ? { ...task, ...updates } : task)
+      }
+    })
+  }
+  queryClient.setQueriesData({ queryKey: ['task-tree'] }, (old: unknown) => {
+    if (!old) return old
+    const oldData = old as { data: Task[] }
+    return { ...oldData, data: updateTaskInTree(oldData.data, id, updates) }
+  })
+}
+
 // Helper to recursively update a task in a tree structure
 function updateTaskInTree(tasks: Task[], taskId: string, updates: Partial<Task>): Task[] {
   return tasks.map(task => {
@@ -188,6 +232,60 @@ export function useDeleteTask() {
   })
 }
 
+export function useTaskDependencies(id: string | null) {
+  return useQuery({
+    queryKey: ['task-dependencies', id],
+    queryFn: () => (id ? tasksApi.getDependencies(id) : null),
+    enabled: !!id,
+  })
+}
+
+export function useUpdateTaskDependency() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, blockedById, remove = false }: { id: string; blockedById: string; remove?: boolean }) =>
+      remove ? tasksApi.removeDependency(id, blockedById) : tasksApi.addDependency(id, blockedById),
+    onSuccess: (result, variables) => {
+      if (result.data) {
+        setCachedTask(queryClient, variables.id, result.data)
+      }
+      queryClient.invalidateQueries({ queryKey: ['task-dependencies'] })
+    },
+  })
+}
+
+export function useTaskAttachments(id: string | null) {
+  return useQuery({
+    queryKey: ['task-attachments', id],
+    queryFn: () => (id ? tasksApi.getAttachments(id) : null),
+    enabled: !!id,
+  })
+}
+
+export function useUploadAttachment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, file }: { id: string; file: File }) => tasksApi.uploadAttachment(id, file),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['task-attachments', variables.id] })
+    },
+  })
+}
+
+export function useDeleteAttachment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, attachmentId }: { id: string; attachmentId: string }) =>
+      tasksApi.deleteAttachment(id, attachmentId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['task-attachments', variables.id] })
+    },
+  })
+}
+
 export function useRerunTask() {
   const queryClient = useQueryClient()
 
@@ -205,12 +303,37 @@ export function useRerunTask() {
   })
 }
 
+const BULK_POLL_INTERVAL_MS = 1000
+
+export interface BulkResult {
+  summary: BulkOperationSummary
+  results: BulkTaskResult[]
+}
+
+// Resolve a bulk response to its results, polling background operations until they finish
+async function waitForBulkResult(response: BulkOperationResponse): Promise<BulkResult> {
+  if (!response.background) {
+    return { summary: response.summary!, results: response.results || [] }
+  }
+
+  let operation = response.data!
+  while (operation.status === 'pending' || operation.status === 'running') {
+    await new Promise((resolve) => setTimeout(resolve, BULK_POLL_INTERVAL_MS))
+    operation = (await tasksApi.getBulkOperation(operation._id)).data
+  }
+
+  if (operation.status === 'failed') {
+    throw new Error(operation.error || 'Bulk operation failed')
+  }
+  return { summary: operation.summary, results: operation.results }
+}
+
 export function useBulkUpdateTasks() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: ({ taskIds, updates }: { taskIds: string[]; updates: Partial<Task> }) =>
-      tasksApi.bulkUpdate(taskIds, updates),
+    mutationFn: async ({ taskIds, updates }: { taskIds: string[]; updates: Partial<Task> }) =>
+      waitForBulkResult(await tasksApi.bulkUpdate(taskIds, updates)),
     // Use optimistic updates to prevent table refresh/collapse
     onMutate: async ({ taskIds, updates }) => {
       // Cancel outgoing refetches
@@ -306,7 +429,7 @@ export function useBulkDeleteTasks() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (taskIds: string[]) => tasksApi.bulkDelete(taskIds),
+    mutationFn: async (taskIds: string[]) => waitForBulkResult(await tasksApi.bulkDelete(taskIds)),
     onSuccess: () => {
       // Force refetch all task-related queries
       queryClient.invalidateQueries({ queryKey: ['tasks'], refetchType: 'all' })
@@ -316,6 +439,24 @@ export function useBulkDeleteTasks() {
   })
 }
 
+// Archive, move and tag operations
+export function useBulkTaskOperation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ operation, taskIds, params }: {
+      operation: BulkOperationType
+      taskIds: string[]
+      params?: BulkOperationParams
+    }) => waitForBulkResult(await tasksApi.bulk(operation, taskIds, params)),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'], refetchType: 'all' })
+      queryClient.invalidateQueries({ queryKey: ['task-tree'], refetchType: 'all' })
+      queryClient.invalidateQueries({ queryKey: ['task-children'], refetchType: 'all' })
+    },
+  })
+}
+
 // Lookups
 export function useLookups() {
   return useQuery({
@@ -18,6 +18,43 @@ export interface ApiResponse<T> {
   error?: string
 }
 
+export interface FieldValidationError {
+  field: string
+  rule: 'required' | 'editable' | 'type' | 'minLength' | 'maxLength' | 'min' | 'max' | 'pattern' | 'options'
+  message: string
+}
+
+export interface TaskConflictDetails {
+  expectedRevision: number
+  currentRevision: number
+  current: Task
+  diff: Array<{ field: string; currentValue: unknown; requestedValue: unknown }>
+}
+
+// Error thrown for non-2xx responses, with the server's error details
+export class ApiError extends Error {
+  status: number
+  details?: unknown
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.details = details
+  }
+
+  // Per-field errors from a 400 validation response
+  get fieldErrors(): FieldValidationError[] {
+    const details = this.details as { errors?: FieldValidationError[] } | undefined
+    return Array.isArray(details?.errors) ? details.errors : []
+  }
+
+  // The current task and differing fields from a 409 task update
+  get conflict(): TaskConflictDetails | null {
+    return this.status === 409 && this.details ? this.details as TaskConflictDetails : null
+  }
+}
+
 function getAuthHeaders(): Record<string, string> {
   if (typeof window === 'undefined') return {}
   const token = localStorage.getItem('auth_token')
@@ -36,7 +73,7 @@ async function handleResponse<T>(response: Response): Promise<T> {
   }
   if (!response.ok) {
     const error = await response.json().catch(() => ({ message: 'An error occurred' }))
-    throw new Error(error.error?.message || error.message || 'Request failed')
+    throw new ApiError(error.error?.message || error.message || 'Request failed', response.status, error.error?.details)
   }
   return response.json()
 }
@@ -109,6 +146,58 @@ export const tasksApi = {
     return handleResponse(response)
   },
 
+  getDependencies: async (id: string): Promise<ApiResponse<TaskDependencies>> => {
+    const response = await authFetch(`${API_BASE}/tasks/${id}/dependencies`)
+    return handleResponse(response)
+  },
+
+  addDependency: async (id: string, blockedById: string): Promise<ApiResponse<Task>> => {
+    const response = await authFetch(`${API_BASE}/tasks/${id}/dependencies`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ blockedById }),
+    })
+    return handleResponse(response)
+  },
+
+  removeDependency: async (id: string, blockedById: string): Promise<ApiResponse<Task>> => {
+    const response = await authFetch(`${API_BASE}/tasks/${id}/dependencies/${blockedById}`, {
+      method: 'DELETE',
+    })
+    return handleResponse(response)
+  },
+
+  getAttachments: async (id: string): Promise<{ data: TaskAttachment[]; limits: AttachmentLimits }> => {
+    const response = await authFetch(`${API_BASE}/tasks/${id}/attachments`)
+    return handleResponse(response)
+  },
+
+  // The file is sent as the raw body with its own content type
+  uploadAttachment: async (id: string, file: File): Promise<ApiResponse<TaskAttachment>> => {
+    const response = await authFetch(`${API_BASE}/tasks/${id}/attachments?filename=${encodeURIComponent(file.name)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      body: file,
+    })
+    return handleResponse(response)
+  },
+
+  downloadAttachment: async (id: string, attachmentId: string): Promise<Blob> => {
+    const response = await authFetch(`${API_BASE}/tasks/${id}/attachments/${attachmentId}/download`)
+    if (!response.ok) {
+      // Error bodies are JSON - let handleResponse raise them
+      await handleResponse(response)
+    }
+    return response.blob()
+  },
+
+  deleteAttachment: async (id: string, attachmentId: string): Promise<{ success: boolean; message: string }> => {
+    const response = await authFetch(`${API_BASE}/tasks/${id}/attachments/${attachmentId}`, {
+      method: 'DELETE',
+    })
+    return handleResponse(response)
+  },
+
   create: async (data: Partial<Task>): Promise<ApiResponse<Task>> => {
     const response = await authFetch(`${API_BASE}/tasks`, {
       method: 'POST',
@@ -118,10 +207,15 @@ export const tasksApi = {
     return handleResponse(response)
   },
 
-  update: async (id: string, data: Partial<Task>): Promise<ApiResponse<Task>> => {
+  // With expectedRevision the update fails with a 409 ApiError (see
+  // ApiError.conflict) if the task has changed since that revision
+  update: async (id: string, data: Partial<Task>, expectedRevision?: number): Promise<ApiResponse<Task>> => {
     const response = await authFetch(`${API_BASE}/tasks/${id}`, {
       method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
+      headers: {
+        'Content-Type': 'application/json',
+        ...(expectedRevision !== undefined && { 'If-Match': `"${expectedRevision}"` }),
+      },
       body: JSON.stringify(data),
     })
     return handleResponse(response)
@@ -134,24 +228,34 @@ export const tasksApi = {
     return handleResponse(response)
   },
 
-  bulkUpdate: async (taskIds: string[], updates: Partial<Task>): Promise<ApiResponse<void>> => {
+  // Small selections return per-task results; large ones start a background
+  // operation (background: true) to poll with getBulkOperation
+  bulk: async (
+    operation: BulkOperationType,
+    taskIds: string[],
+    params: BulkOperationParams = {}
+  ): Promise<BulkOperationResponse> => {
     const response = await authFetch(`${API_BASE}/tasks/bulk`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ operation: 'update', taskIds, updates }),
+      body: JSON.stringify({ operation, taskIds, ...params }),
     })
     return handleResponse(response)
   },
 
-  bulkDelete: async (taskIds: string[]): Promise<ApiResponse<void>> => {
-    const response = await authFetch(`${API_BASE}/tasks/bulk`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ operation: 'delete', taskIds }),
-    })
+  getBulkOperation: async (operationId: string): Promise<ApiResponse<BulkOperation>> => {
+    const response = await authFetch(`${API_BASE}/tasks/bulk/${operationId}`)
     return handleResponse(response)
   },
 
+  bulkUpdate: async (taskIds: string[], updates: Partial<Task>): Promise<BulkOperationResponse> => {
+    return tasksApi.bulk('update', taskIds, { updates })
+  },
+
+  bulkDelete: async (taskIds: string[]): Promise<BulkOperationResponse> => {
+    return tasksApi.bulk('delete', taskIds)
+  },
+
   // Rerun a task (reset to pending)
   rerun: async (id: string, options?: { clearMetadata?: boolean; preserveInput?: boolean }): Promise<ApiResponse<Task>> => {
     const response = await authFetch(`${API_BASE}/tasks/${id}/rerun`, {
@@ -281,6 +385,19 @@ export const lookupsApi = {
   },
 }
 
+// Tags API
+export const tagsApi = {
+  // Create any missing tags - names are normalized (lowercase, spaces to dashes)
+  ensure: async (tags: string[]): Promise<ApiResponse<{ _id: string; name: string }[]>> => {
+    const response = await authFetch(`${API_BASE}/tags/ensure`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tags }),
+    })
+    return handleResponse(response)
+  },
+}
+
 // Field Configs API
 export const fieldConfigsApi = {
   getForCollection: async (collection: string): Promise<ApiResponse<FieldConfig[]>> => {
@@ -409,6 +526,36 @@ export const workflowsApi = {
     const response = await authFetch(`${API_BASE}/workflows/${id}`)
     return handleResponse(response)
   },
+
+  revisions: async (id: string, params?: { limit?: number; offset?: number }): Promise<ApiResponse<WorkflowRevisionSummary[]> & { total: number }> => {
+    const searchParams = new URLSearchParams()
+    if (params?.limit) searchParams.set('limit', String(params.limit))
+    if (params?.offset) searchParams.set('offset', String(params.offset))
+    const queryString = searchParams.toString()
+    const response = await authFetch(`${API_BASE}/workflows/${id}/revisions${queryString ? `?${queryString}` : ''}`)
+    return handleResponse(response)
+  },
+
+  getRevision: async (id: string, version: number): Promise<ApiResponse<WorkflowRevision>> => {
+    const response = await authFetch(`${API_BASE}/workflows/${id}/revisions/${version}`)
+    return handleResponse(response)
+  },
+
+  diff: async (id: string, from: number, to?: number): Promise<ApiResponse<WorkflowRevisionDiff>> => {
+    const searchParams = new URLSearchParams({ from: String(from) })
+    if (to !== undefined) searchParams.set('to', String(to))
+    const response = await authFetch(`${API_BASE}/workflows/${id}/diff?${searchParams.toString()}`)
+    return handleResponse(response)
+  },
+
+  rollback: async (id: string, version: number): Promise<ApiResponse<Workflow>> => {
+    const response = await authFetch(`${API_BASE}/workflows/${id}/rollback`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ version }),
+    })
+    return handleResponse(response)
+  },
 }
 
 // External Jobs API
@@ -449,11 +596,29 @@ export const externalJobsApi = {
     return handleResponse(response)
   },
 
-  claim: async (id: string, workerId?: string): Promise<ApiResponse<ExternalJob>> => {
+  claim: async (id: string, workerId?: string, leaseSeconds?: number): Promise<ApiResponse<ExternalJob>> => {
     const response = await authFetch(`${API_BASE}/external-jobs/${id}/claim`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ workerId }),
+      body: JSON.stringify({ workerId, leaseSeconds }),
+    })
+    return handleResponse(response)
+  },
+
+  claimNext: async (data: { type?: string; workerId: string; leaseSeconds?: number }): Promise<ApiResponse<ExternalJob | null>> => {
+    const response = await authFetch(`${API_BASE}/external-jobs/claim-next`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    return handleResponse(response)
+  },
+
+  heartbeat: async (id: string, workerId: string, leaseSeconds?: number): Promise<ApiResponse<ExternalJob>> => {
+    const response = await authFetch(`${API_BASE}/external-jobs/${id}/heartbeat`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workerId, leaseSeconds }),
     })
     return handleResponse(response)
   },
@@ -545,9 +710,13 @@ export interface Task {
   assigneeId?: string | null
   createdById?: string | null
   tags?: string[]
+  blockedBy?: string[]           // Tasks that must complete before this one can start
+  isBlocked?: boolean            // True while any of blockedBy is not completed, cancelled or archived
   createdAt: string
   updatedAt: string
+  revision?: number              // Incremented on every write
   dueAt?: string | null
+  timeoutAt?: string | null      // Workflow step timeout deadline
   metadata?: Record<string, unknown>
   children?: Task[]
   taskType?: TaskType
@@ -581,6 +750,76 @@ export interface Task {
   }
 }
 
+export interface TaskDependencies {
+  taskId: string
+  isBlocked: boolean
+  blockedBy: Task[]   // Tasks this one waits for
+  blocks: Task[]      // Tasks waiting for this one
+}
+
+export interface TaskAttachment {
+  _id: string
+  taskId: string
+  filename: string
+  contentType: string
+  size: number
+  sha256: string
+  storage: string
+  storageKey: string
+  uploadedById?: string | null
+  createdAt: string
+}
+
+export interface AttachmentLimits {
+  maxBytes: number
+  maxPerTask: number
+  allowedTypes: string[]
+}
+
+export type BulkOperationType = 'update' | 'delete' | 'archive' | 'move' | 'add-tag' | 'remove-tag'
+
+export interface BulkOperationParams {
+  updates?: Partial<Task>
+  newParentId?: string | null
+  tag?: string
+  background?: boolean
+}
+
+export interface BulkTaskResult {
+  taskId: string
+  status: 'updated' | 'unchanged' | 'deleted' | 'not_found' | 'failed'
+  error?: string
+}
+
+export interface BulkOperationSummary {
+  total: number
+  succeeded: number
+  failed: number
+  unchanged: number
+  notFound: number
+}
+
+export interface BulkOperation {
+  _id: string
+  operation: BulkOperationType
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  processed: number
+  summary: BulkOperationSummary
+  results: BulkTaskResult[]
+  error?: string | null
+  createdAt: string
+  startedAt?: string | null
+  completedAt?: string | null
+}
+
+export interface BulkOperationResponse {
+  success: boolean
+  background: boolean
+  summary?: BulkOperationSummary
+  results?: BulkTaskResult[]
+  data?: BulkOperation
+}
+
 export interface LookupValue {
   _id: string
   type: string
@@ -662,6 +901,11 @@ export interface ExternalJob {
   updatedAt: string
   startedAt?: string | null
   completedAt?: string | null
+  scheduledFor?: string | null
+  workerId?: string | null
+  leaseExpiresAt?: string | null
+  leaseDurationMs?: number | null
+  lastHeartbeatAt?: string | null
 }
 
 // Workflow step types
@@ -692,6 +936,41 @@ export interface WorkflowStep {
   awaitTag?: string               // Join: Tag pattern
   flowId?: string                 // Flow: Target workflow ID (nested workflow)
   inputMapping?: Record<string, string>  // Flow: Input mapping
+  retryPolicy?: StepRetryPolicy   // Re-create the step task when it fails
+  onErrorStepId?: string          // Step to route to once retries are exhausted
+  timeoutMs?: number              // Agent/manual: time the task may stay open
+  dueOffsetHours?: number         // Agent/manual: sets dueAt (and the timeout if timeoutMs is unset)
+  onTimeout?: StepTimeoutConfig   // What happens on timeout (default: fail)
+  triggerConfig?: WorkflowTriggerConfig  // Trigger: how the workflow starts
+}
+
+export type WorkflowTriggerType = 'manual' | 'cron' | 'event' | 'webhook'
+
+export interface WorkflowTriggerConfig {
+  type: WorkflowTriggerType
+  cronExpression?: string         // cron: five-field cron expression
+  timezone?: string               // cron: IANA timezone (default: UTC)
+  catchUpPolicy?: ScheduleCatchUpPolicy  // cron: runs missed while the backend was down
+  eventTypes?: string[]           // event: task event types that start the workflow
+  tags?: string[]                 // event: only tasks with one of these tags
+  condition?: string              // event: condition on { task, changes, eventType }
+  webhookToken?: string           // webhook: secret URL token, generated on save
+  inputPayload?: Record<string, unknown>  // Fixed input merged under the trigger input
+}
+
+export interface StepTimeoutConfig {
+  action: 'fail' | 'reassign' | 'escalate' | 'route'
+  escalationAssigneeId?: string   // reassign: user to hand the task to
+  urgency?: 'low' | 'normal' | 'high' | 'urgent'  // escalate: default is one level higher
+  targetStepId?: string           // route: step to continue at
+}
+
+export interface StepRetryPolicy {
+  maxAttempts: number             // Total attempts, including the first
+  backoff?: 'fixed' | 'exponential'
+  delayMs?: number                // Delay before the first retry (default: 1000)
+  maxDelayMs?: number             // Upper bound on the delay (default: 300000)
+  retryOn?: string[]              // Only retry errors containing one of these
 }
 
 export interface Workflow {
@@ -702,10 +981,41 @@ export interface Workflow {
   stages?: string[]  // Legacy format - simple stage names
   mermaidDiagram?: string
   isActive: boolean
+  version?: number
   createdAt: string
   updatedAt?: string
 }
 
+// Workflow Revision Types
+export interface WorkflowRevision {
+  _id: string
+  workflowId: string
+  version: number
+  name: string
+  description: string
+  isActive: boolean
+  steps: WorkflowStep[]
+  mermaidDiagram?: string
+  changeNote?: string
+  restoredFromVersion?: number
+  createdAt: string
+  createdById?: string | null
+}
+
+export type WorkflowRevisionSummary = Omit<WorkflowRevision, 'steps' | 'mermaidDiagram'> & { stepCount: number }
+
+export interface WorkflowRevisionDiff {
+  workflowId: string
+  fromVersion: number
+  toVersion: number
+  changes: FieldChange[]
+  steps: {
+    added: WorkflowStep[]
+    removed: WorkflowStep[]
+    changed: { stepId: string; name: string; changes: FieldChange[] }[]
+  }
+}
+
 // Activity Log Types
 export interface FieldChange {
   field: string
@@ -713,6 +1023,13 @@ export interface FieldChange {
   newValue: unknown
 }
 
+export interface CommentRevision {
+  comment: string
+  mentions?: string[]
+  editedAt: string
+  editedById?: string | null
+}
+
 export interface ActivityLogEntry {
   _id: string
   taskId: string
@@ -721,6 +1038,12 @@ export interface ActivityLogEntry {
   actorType: 'user' | 'system' | 'daemon'
   changes?: FieldChange[]
   comment?: string
+  // Comment threading and mentions (task.comment.added entries only)
+  parentId?: string | null
+  mentions?: string[]
+  editHistory?: CommentRevision[]
+  editedAt?: string
+  deletedAt?: string
   timestamp: string
   metadata?: Record<string, unknown>
   // Populated user info (resolved by backend)
@@ -736,12 +1059,16 @@ export type WorkflowRunStatus = 'pending' | 'running' | 'paused' | 'completed' |
 export interface WorkflowRun {
   _id: string
   workflowId: string
+  workflowVersion?: number
   status: WorkflowRunStatus
   rootTaskId?: string | null
   inputPayload?: Record<string, unknown>
   outputPayload?: Record<string, unknown>
   currentStepIds: string[]
   completedStepIds: string[]
+  executionOptions?: WorkflowExecutionOptions
+  source?: string                 // How the run started: manual, task, flow, schedule, cron, event or webhook
+  pausedAt?: string | null
   failedStepId?: string | null
   error?: string | null
   startedAt?: string | null
@@ -863,6 +1190,13 @@ export const workflowRunsApi = {
     return handleResponse(response)
   },
 
+  resume: async (id: string): Promise<ApiResponse<WorkflowRun>> => {
+    const response = await authFetch(`${API_BASE}/workflow-runs/${id}/resume`, {
+      method: 'POST',
+    })
+    return handleResponse(response)
+  },
+
   callback: async (
     runId: string,
     stepId: string,
@@ -887,15 +1221,37 @@ export interface Webhook {
   name: string
   url: string
   secret: string
+  previousSecret?: string | null            // Still signs deliveries until previousSecretExpiresAt
+  previousSecretExpiresAt?: string | null
+  method?: 'POST' | 'PUT' | 'PATCH'
+  headers?: Record<string, string> | null  // Values may use {{...}} templates
+  bodyTemplate?: string | null             // {{...}} template over { event, task, changes }
   triggers: string[]
   savedSearchId?: string | null
   filterQuery?: string
   isActive: boolean
+  failureThreshold?: number                // Consecutive failed attempts that open the circuit
+  consecutiveFailures?: number
+  circuitState?: 'closed' | 'open' | 'half_open'
+  circuitOpenedAt?: string | null
+  nextProbeAt?: string | null
+  lastError?: string | null
+  alertTaskId?: string | null
   createdById?: string | null
   createdAt: string
   updatedAt: string
 }
 
+export interface WebhookPreview {
+  request: {
+    method: string
+    headers: Record<string, string>
+    body: string
+  }
+  event: { id: string; type: string; timestamp: string }
+  bodyError: string | null
+}
+
 export interface WebhookDelivery {
   _id: string
   webhookId: string
@@ -916,6 +1272,116 @@ export interface WebhookDelivery {
   webhookUrl?: string
 }
 
+// Schedule Types
+export type ScheduleTargetType = 'task' | 'workflow'
+export type ScheduleCatchUpPolicy = 'skip' | 'run_once' | 'run_all'
+export type ScheduleRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped'
+
+export interface ScheduleTaskTemplate {
+  title: string
+  summary?: string
+  extraPrompt?: string
+  assigneeId?: string | null
+  tags?: string[]
+  urgency?: string
+  dueOffsetHours?: number
+  parentId?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export interface Schedule {
+  _id: string
+  name: string
+  description?: string
+  cronExpression: string
+  timezone: string
+  isActive: boolean
+  targetType: ScheduleTargetType
+  taskTemplate?: ScheduleTaskTemplate | null
+  workflow?: {
+    workflowId: string
+    inputPayload?: Record<string, unknown>
+    taskDefaults?: Record<string, unknown>
+  } | null
+  catchUpPolicy: ScheduleCatchUpPolicy
+  workflowTrigger?: { workflowId: string; stepId: string } | null  // Managed by a workflow cron trigger
+  nextRunAt: string | null
+  lastRunAt?: string | null
+  lastRunStatus?: ScheduleRunStatus | null
+  lastError?: string | null
+  createdById?: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ScheduleRun {
+  _id: string
+  scheduleId: string
+  scheduledFor: string
+  trigger: 'schedule' | 'catch_up' | 'manual'
+  status: ScheduleRunStatus
+  taskId?: string | null
+  workflowRunId?: string | null
+  skippedCount?: number
+  error?: string | null
+  startedAt: string
+  completedAt?: string | null
+}
+
+// Inbound Endpoint Types
+export type InboundTargetType = 'task' | 'workflow'
+export type InboundDeliveryStatus = 'processing' | 'accepted' | 'duplicate' | 'rejected' | 'failed'
+
+// Task fields are {{body.x}} / {{headers.x}} / {{query.x}} / {{receivedAt}} templates
+export interface InboundTaskMapping {
+  title: string
+  summary?: string
+  extraPrompt?: string
+  status?: string
+  urgency?: string
+  assigneeId?: string
+  parentId?: string
+  tags?: string[]
+  metadata?: Record<string, string>
+}
+
+export interface InboundEndpoint {
+  _id: string
+  name: string
+  slug: string
+  description?: string
+  secret: string
+  signatureHeader: string
+  isActive: boolean
+  targetType: InboundTargetType
+  taskMapping?: InboundTaskMapping | null
+  workflow?: {
+    workflowId: string
+    inputMapping?: Record<string, string> | null
+  } | null
+  externalIdPath?: string | null
+  lastDeliveryAt?: string | null
+  createdById?: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface InboundDelivery {
+  _id: string
+  endpointId: string
+  status: InboundDeliveryStatus
+  statusCode: number
+  externalId?: string | null
+  headers: Record<string, string>
+  body: unknown
+  error?: string | null
+  taskId?: string | null
+  workflowRunId?: string | null
+  duplicateOfId?: string | null
+  receivedAt: string
+  completedAt?: string | null
+}
+
 // Webhook task attempt (from tasks with webhookConfig)
 export interface WebhookTaskAttempt {
   _id: string
@@ -991,12 +1457,191 @@ export const activityLogsApi = {
   addComment: async (
     taskId: string,
     comment: string,
-    actorId?: string
+    actorId?: string,
+    parentId?: string
   ): Promise<ApiResponse<ActivityLogEntry>> => {
     const response = await authFetch(`${API_BASE}/activity-logs/task/${taskId}/comments`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ comment, actorId }),
+      body: JSON.stringify({ comment, actorId, parentId }),
+    })
+    return handleResponse(response)
+  },
+
+  editComment: async (
+    taskId: string,
+    commentId: string,
+    comment: string
+  ): Promise<ApiResponse<ActivityLogEntry>> => {
+    const response = await authFetch(`${API_BASE}/activity-logs/task/${taskId}/comments/${commentId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ comment }),
+    })
+    return handleResponse(response)
+  },
+
+  deleteComment: async (taskId: string, commentId: string): Promise<{ success: boolean; message: string }> => {
+    const response = await authFetch(`${API_BASE}/activity-logs/task/${taskId}/comments/${commentId}`, {
+      method: 'DELETE',
+    })
+    return handleResponse(response)
+  },
+
+  getMentions: async (
+    params?: { userId?: string; limit?: number; offset?: number }
+  ): Promise<{ data: ActivityLogEntry[]; pagination: { limit: number; offset: number; total: number } }> => {
+    const searchParams = new URLSearchParams()
+    if (params?.userId) searchParams.append('userId', params.userId)
+    if (params?.limit) searchParams.append('limit', String(params.limit))
+    if (params?.offset) searchParams.append('offset', String(params.offset))
+    const response = await authFetch(`${API_BASE}/activity-logs/mentions?${searchParams}`)
+    return handleResponse(response)
+  },
+
+  exportActivity: async (
+    params?: { from?: string; to?: string; actorId?: string; eventTypes?: string[]; format?: 'ndjson' | 'json' }
+  ): Promise<Blob> => {
+    const searchParams = new URLSearchParams()
+    if (params?.from) searchParams.append('from', params.from)
+    if (params?.to) searchParams.append('to', params.to)
+    if (params?.actorId) searchParams.append('actorId', params.actorId)
+    if (params?.format) searchParams.append('format', params.format)
+    if (params?.eventTypes) {
+      params.eventTypes.forEach(t => searchParams.append('eventTypes', t))
+    }
+    const response = await authFetch(`${API_BASE}/activity-logs/export?${searchParams}`)
+    if (!response.ok) {
+      // Error bodies are JSON - let handleResponse raise them
+      await handleResponse(response)
+    }
+    return response.blob()
+  },
+}
+
+// Audit Log Types
+export type AuditEntityType =
+  | 'workflow'
+  | 'view'
+  | 'field-config'
+  | 'lookup'
+  | 'webhook'
+  | 'user'
+  | 'team'
+  | 'tag'
+  | 'api-key'
+
+export interface AuditLogEntry {
+  _id: string
+  entityType: AuditEntityType
+  entityId: string
+  entityName?: string
+  action: 'created' | 'updated' | 'deleted'
+  changes: FieldChange[]
+  actorId?: string | null
+  actorType: 'user' | 'system' | 'daemon'
+  metadata?: Record<string, unknown>
+  timestamp: string
+  // Populated user info (resolved by backend)
+  actor?: {
+    displayName: string
+    email?: string
+  } | null
+}
+
+export const auditLogsApi = {
+  getHistory: async (
+    params?: {
+      entityTypes?: AuditEntityType[]
+      entityId?: string
+      actorId?: string
+      limit?: number
+      offset?: number
+    }
+  ): Promise<{ data: AuditLogEntry[]; pagination: { limit: number; offset: number; total: number } }> => {
+    const searchParams = new URLSearchParams()
+    if (params?.limit) searchParams.append('limit', String(params.limit))
+    if (params?.offset) searchParams.append('offset', String(params.offset))
+    if (params?.entityId) searchParams.append('entityId', params.entityId)
+    if (params?.actorId) searchParams.append('actorId', params.actorId)
+    if (params?.entityTypes) {
+      params.entityTypes.forEach(t => searchParams.append('entityType', t))
+    }
+    const response = await authFetch(`${API_BASE}/audit-logs?${searchParams}`)
+    return handleResponse(response)
+  },
+}
+
+// Notification Types
+export type NotificationType =
+  | 'task.assigned'
+  | 'task.comment'
+  | 'task.mention'
+  | 'workflow.run.failed'
+  | 'batch.manual_review'
+
+export interface Notification {
+  _id: string
+  userId: string
+  type: NotificationType
+  title: string
+  body?: string
+  taskId?: string | null
+  workflowRunId?: string | null
+  batchJobId?: string | null
+  actorId?: string | null
+  eventId: string
+  readAt: string | null
+  createdAt: string
+}
+
+export type NotificationPreferences = Record<NotificationType, boolean>
+
+export const notificationsApi = {
+  list: async (params?: { unread?: boolean; limit?: number; offset?: number }): Promise<{
+    data: Notification[]
+    unreadCount: number
+    pagination: { limit: number; offset: number; total: number }
+  }> => {
+    const searchParams = new URLSearchParams()
+    if (params?.unread) searchParams.append('unread', 'true')
+    if (params?.limit) searchParams.append('limit', String(params.limit))
+    if (params?.offset) searchParams.append('offset', String(params.offset))
+    const response = await authFetch(`${API_BASE}/notifications?${searchParams}`)
+    return handleResponse(response)
+  },
+
+  unreadCount: async (): Promise<ApiResponse<{ unreadCount: number }>> => {
+    const response = await authFetch(`${API_BASE}/notifications/unread-count`)
+    return handleResponse(response)
+  },
+
+  markRead: async (id: string): Promise<ApiResponse<{ unreadCount: number }>> => {
+    const response = await authFetch(`${API_BASE}/notifications/${id}/read`, {
+      method: 'POST',
+    })
+    return handleResponse(response)
+  },
+
+  markAllRead: async (): Promise<ApiResponse<{ unreadCount: number }>> => {
+    const response = await authFetch(`${API_BASE}/notifications/read-all`, {
+      method: 'POST',
+    })
+    return handleResponse(response)
+  },
+
+  getPreferences: async (): Promise<ApiResponse<NotificationPreferences>> => {
+    const response = await authFetch(`${API_BASE}/notifications/preferences`)
+    return handleResponse(response)
+  },
+
+  updatePreferences: async (
+    data: Partial<NotificationPreferences>
+  ): Promise<ApiResponse<NotificationPreferences>> => {
+    const response = await authFetch(`${API_BASE}/notifications/preferences`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
     })
     return handleResponse(response)
   },
@@ -1064,6 +1709,15 @@ export interface BatchJobWithItems extends BatchJob {
   items: BatchItem[]
 }
 
+type BatchCounters = Pick<BatchJob, 'receivedCount' | 'processedCount' | 'failedCount'>
+
+export interface BatchCounterReconciliation {
+  before: BatchCounters
+  after: BatchCounters
+  changed: boolean
+  joinResult: Record<string, unknown> | null
+}
+
 // Batch Jobs API
 export const batchJobsApi = {
   list: async (params?: {
@@ -1171,12 +1825,47 @@ export const batchJobsApi = {
     return handleResponse(response)
   },
 
+  reconcile: async (id: string): Promise<BatchCounterReconciliation> => {
+    const response = await authFetch(`${API_BASE}/batch-jobs/${id}/reconcile`, {
+      method: 'POST',
+    })
+    return handleResponse(response)
+  },
+
   getStats: async (): Promise<ApiResponse<{ byStatus: Record<string, number> }>> => {
     const response = await authFetch(`${API_BASE}/batch-jobs/stats/summary`)
     return handleResponse(response)
   },
 }
 
+// Permission Types - `<resource>:read` / `<resource>:write`
+export type Permission =
+  | 'tasks:read' | 'tasks:write'
+  | 'saved-searches:read' | 'saved-searches:write'
+  | 'workflows:read' | 'workflows:write'
+  | 'workflow-runs:read' | 'workflow-runs:write'
+  | 'batch-jobs:read' | 'batch-jobs:write'
+  | 'external-jobs:read' | 'external-jobs:write'
+  | 'webhooks:read' | 'webhooks:write'
+  | 'schedules:read' | 'schedules:write'
+  | 'users:read' | 'users:write'
+  | 'api-keys:read' | 'api-keys:write'
+  | 'settings:read' | 'settings:write'
+
+export interface PermissionsResponse {
+  role: string
+  permissions: Permission[]
+  apiKeyScopes?: string[]
+}
+
+// Auth API
+export const authApi = {
+  permissions: async (): Promise<PermissionsResponse> => {
+    const response = await authFetch(`${API_BASE}/auth/permissions`)
+    return handleResponse(response)
+  },
+}
+
 // API Keys Types
 export interface ApiKey {
   _id: string
@@ -1266,9 +1955,30 @@ export const webhooksApi = {
     return handleResponse(response)
   },
 
-  rotateSecret: async (id: string): Promise<ApiResponse<{ secret: string }>> => {
+  rotateSecret: async (
+    id: string,
+    graceHours?: number
+  ): Promise<ApiResponse<{ secret: string; previousSecretExpiresAt: string | null }>> => {
     const response = await authFetch(`${API_BASE}/webhooks/${id}/rotate-secret`, {
       method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(graceHours !== undefined ? { graceHours } : {}),
+    })
+    return handleResponse(response)
+  },
+
+  preview: async (data: {
+    method?: Webhook['method']
+    headers?: Record<string, string> | null
+    bodyTemplate?: string | null
+    triggers?: string[]
+    taskId?: string
+    webhookId?: string
+  }): Promise<ApiResponse<WebhookPreview>> => {
+    const response = await authFetch(`${API_BASE}/webhooks/preview`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
     })
     return handleResponse(response)
   },
@@ -1298,17 +2008,170 @@ export const webhooksApi = {
     return handleResponse(response)
   },
 
+  // Put failed deliveries back in the retry queue
+  replayDeliveries: async (
+    data: { deliveryIds: string[] } | { webhookId: string } | { all: true }
+  ): Promise<ApiResponse<{ replayed: number; skipped: number }>> => {
+    const response = await authFetch(`${API_BASE}/webhooks/deliveries/replay`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    return handleResponse(response)
+  },
+
+  resetCircuit: async (id: string): Promise<ApiResponse<Webhook>> => {
+    const response = await authFetch(`${API_BASE}/webhooks/${id}/reset-circuit`, {
+      method: 'POST',
+    })
+    return handleResponse(response)
+  },
+
   // Get all webhook deliveries across all webhooks
   getAllDeliveries: async (params?: {
     status?: 'pending' | 'success' | 'failed' | 'retrying'
+    webhookId?: string
     limit?: number
     offset?: number
   }): Promise<{ data: WebhookDelivery[]; pagination: { limit: number; offset: number; total: number } }> => {
     const searchParams = new URLSearchParams()
     if (params?.status) searchParams.append('status', params.status)
+    if (params?.webhookId) searchParams.append('webhookId', params.webhookId)
     if (params?.limit) searchParams.append('limit', String(params.limit))
     if (params?.offset) searchParams.append('offset', String(params.offset))
     const response = await authFetch(`${API_BASE}/webhooks/deliveries?${searchParams}`)
     return handleResponse(response)
   },
 }
+
+// Inbound Endpoints API
+export const inboundEndpointsApi = {
+  list: async (params?: { isActive?: boolean; targetType?: InboundTargetType }): Promise<{ data: InboundEndpoint[] }> => {
+    const searchParams = new URLSearchParams()
+    if (params?.isActive !== undefined) searchParams.append('isActive', String(params.isActive))
+    if (params?.targetType) searchParams.append('targetType', params.targetType)
+    const response = await authFetch(`${API_BASE}/inbound-endpoints?${searchParams}`)
+    return handleResponse(response)
+  },
+
+  get: async (id: string): Promise<ApiResponse<InboundEndpoint>> => {
+    const response = await authFetch(`${API_BASE}/inbound-endpoints/${id}`)
+    return handleResponse(response)
+  },
+
+  create: async (data: Partial<InboundEndpoint>): Promise<ApiResponse<InboundEndpoint>> => {
+    const response = await authFetch(`${API_BASE}/inbound-endpoints`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    return handleResponse(response)
+  },
+
+  update: async (id: string, data: Partial<InboundEndpoint>): Promise<ApiResponse<InboundEndpoint>> => {
+    const response = await authFetch(`${API_BASE}/inbound-endpoints/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    return handleResponse(response)
+  },
+
+  delete: async (id: string): Promise<ApiResponse<void>> => {
+    const response = await authFetch(`${API_BASE}/inbound-endpoints/${id}`, {
+      method: 'DELETE',
+    })
+    return handleResponse(response)
+  },
+
+  rotateSecret: async (id: string): Promise<ApiResponse<{ secret: string }>> => {
+    const response = await authFetch(`${API_BASE}/inbound-endpoints/${id}/rotate-secret`, {
+      method: 'POST',
+    })
+    return handleResponse(response)
+  },
+
+  getDeliveries: async (
+    id: string,
+    params?: { status?: InboundDeliveryStatus; limit?: number; offset?: number }
+  ): Promise<{ data: InboundDelivery[]; pagination: { limit: number; offset: number; total: number } }> => {
+    const searchParams = new URLSearchParams()
+    if (params?.status) searchParams.append('status', params.status)
+    if (params?.limit) searchParams.append('limit', String(params.limit))
+    if (params?.offset) searchParams.append('offset', String(params.offset))
+    const response = await authFetch(`${API_BASE}/inbound-endpoints/${id}/deliveries?${searchParams}`)
+    return handleResponse(response)
+  },
+}
+
+// Schedules API
+export const schedulesApi = {
+  list: async (params?: { isActive?: boolean; targetType?: ScheduleTargetType }): Promise<{
+    data: Schedule[]
+    pagination: { limit: number; offset: number; total: number }
+  }> => {
+    const searchParams = new URLSearchParams()
+    if (params?.isActive !== undefined) searchParams.append('isActive', String(params.isActive))
+    if (params?.targetType) searchParams.append('targetType', params.targetType)
+    const response = await authFetch(`${API_BASE}/schedules?${searchParams}`)
+    return handleResponse(response)
+  },
+
+  get: async (id: string): Promise<ApiResponse<Schedule>> => {
+    const response = await authFetch(`${API_BASE}/schedules/${id}`)
+    return handleResponse(response)
+  },
+
+  create: async (data: Partial<Schedule>): Promise<ApiResponse<Schedule>> => {
+    const response = await authFetch(`${API_BASE}/schedules`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    return handleResponse(response)
+  },
+
+  update: async (id: string, data: Partial<Schedule>): Promise<ApiResponse<Schedule>> => {
+    const response = await authFetch(`${API_BASE}/schedules/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    return handleResponse(response)
+  },
+
+  delete: async (id: string): Promise<ApiResponse<void>> => {
+    const response = await authFetch(`${API_BASE}/schedules/${id}`, {
+      method: 'DELETE',
+    })
+    return handleResponse(response)
+  },
+
+  runNow: async (id: string): Promise<ApiResponse<ScheduleRun>> => {
+    const response = await authFetch(`${API_BASE}/schedules/${id}/run`, {
+      method: 'POST',
+    })
+    return handleResponse(response)
+  },
+
+  getRuns: async (
+    id: string,
+    params?: { status?: ScheduleRunStatus; limit?: number; offset?: number }
+  ): Promise<{ data: ScheduleRun[]; pagination: { limit: number; offset: number; total: number } }> => {
+    const searchParams = new URLSearchParams()
+    if (params?.status) searchParams.append('status', params.status)
+    if (params?.limit) searchParams.append('limit', String(params.limit))
+    if (params?.offset) searchParams.append('offset', String(params.offset))
+    const response = await authFetch(`${API_BASE}/schedules/${id}/runs?${searchParams}`)
+    return handleResponse(response)
+  },
+
+  preview: async (cronExpression: string, timezone: string, count = 5): Promise<ApiResponse<{ nextRuns: string[] }>> => {
+    const response = await authFetch(`${API_BASE}/schedules/preview`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ cronExpression, timezone, count }),
+    })
+    return handleResponse(response)
+  },
+}
@@ -207,6 +207,8 @@ export const TASK_MODAL_TAB_KEY = 'task-modal-last-tab'
 export const TASK_MODAL_TABS = {
   TYPE_CONFIG: 'type-config',
   SUBTASKS: 'subtasks',
+  DEPENDENCIES: 'dependencies',
+  ATTACHMENTS: 'attachments',
   METADATA: 'metadata',
   ACTIVITY: 'activity',
 } as const
@@ -181,6 +181,11 @@ db.tasks.createIndex({ workflowRunId: 1, status: 1 });
 db.tasks.createIndex({ parentId: 1, createdAt: 1 });
 // For filtered subtask queries (parent + status + sort)
 db.tasks.createIndex({ parentId: 1, status: 1, createdAt: 1 });
+// For finding open workflow step tasks whose timeout has passed
+db.tasks.createIndex({ status: 1, timeoutAt: 1 });
+// Task dependencies - dependents of a task, and leaving blocked tasks out of views
+db.tasks.createIndex({ blockedBy: 1 });
+db.tasks.createIndex({ isBlocked: 1, status: 1 });
 
 // ============================================================================
 // FIELD CONFIGURATIONS - Dynamic field definitions
@@ -235,6 +240,15 @@ db.createCollection('workflows');
 
 db.workflows.createIndex({ name: 1 });
 db.workflows.createIndex({ isActive: 1 });
+db.workflows.createIndex({ 'steps.triggerConfig.eventTypes': 1 });  // Event triggers matching a task event
+db.workflows.createIndex({ 'steps.triggerConfig.webhookToken': 1 }, { sparse: true });  // Webhook trigger lookup
+
+// ============================================================================
+// WORKFLOW REVISIONS - Immutable snapshot of a workflow on every save
+// ============================================================================
+db.createCollection('workflow_revisions');
+
+db.workflow_revisions.createIndex({ workflowId: 1, version: -1 }, { unique: true });
 
 // ============================================================================
 // WORKFLOW RUNS - Workflow execution instances
@@ -373,6 +387,9 @@ db.createCollection('external_jobs');
 db.external_jobs.createIndex({ status: 1, createdAt: 1 });
 db.external_jobs.createIndex({ taskId: 1 });
 db.external_jobs.createIndex({ type: 1 });
+// For the lease reaper and claim-next
+db.external_jobs.createIndex({ status: 1, leaseExpiresAt: 1 });
+db.external_jobs.createIndex({ status: 1, type: 1, createdAt: 1 });
 
 // ============================================================================
 // ACTIVITY LOGS - Task activity/comment history
@@ -391,7 +408,8 @@ db.createCollection('activity_logs', {
           bsonType: 'string',
           enum: ['task.created', 'task.updated', 'task.deleted', 'task.status.changed',
                  'task.assignee.changed', 'task.priority.changed', 'task.metadata.changed',
-                 'task.moved', 'task.comment.added'],
+                 'task.moved', 'task.comment.added', 'task.attachment.added', 'task.attachment.deleted',
+                 'task.blocked', 'task.unblocked'],
           description: 'Type of event'
         },
         actorId: {
@@ -419,6 +437,19 @@ db.createCollection('activity_logs', {
           bsonType: 'string',
           description: 'Optional comment or note'
         },
+        parentId: {
+          bsonType: ['objectId', 'null'],
+          description: 'Top-level comment this comment replies to'
+        },
+        mentions: {
+          bsonType: 'array',
+          items: { bsonType: 'objectId' },
+          description: 'Users @mentioned in the comment'
+        },
+        editHistory: {
+          bsonType: 'array',
+          description: 'Earlier versions of the comment'
+        },
         timestamp: {
           bsonType: 'date',
           description: 'When the event occurred'
@@ -436,6 +467,10 @@ db.activity_logs.createIndex({ taskId: 1, timestamp: -1 });
 db.activity_logs.createIndex({ actorId: 1 });
 db.activity_logs.createIndex({ eventType: 1 });
 db.activity_logs.createIndex({ timestamp: -1 });
+db.activity_logs.createIndex({ parentId: 1 }, { sparse: true });
+db.activity_logs.createIndex({ mentions: 1, timestamp: -1 });
+db.activity_logs.createIndex({ eventType: 1, timestamp: 1 });
+db.activity_logs.createIndex({ actorId: 1, timestamp: 1 });
 
 // ============================================================================
 // WEBHOOKS - Outbound webhook configurations
@@ -499,6 +534,7 @@ db.createCollection('webhooks', {
 db.webhooks.createIndex({ isActive: 1 });
 db.webhooks.createIndex({ triggers: 1 });
 db.webhooks.createIndex({ savedSearchId: 1 });
+db.webhooks.createIndex({ circuitState: 1, nextProbeAt: 1 });  // Open circuits due for a probe
 
 // ============================================================================
 // WEBHOOK DELIVERIES - Track webhook delivery attempts
@@ -572,6 +608,7 @@ db.createCollection('webhook_deliveries', {
 db.webhook_deliveries.createIndex({ webhookId: 1, createdAt: -1 });
 db.webhook_deliveries.createIndex({ status: 1, nextRetryAt: 1 });
 db.webhook_deliveries.createIndex({ eventId: 1 });
+db.webhook_deliveries.createIndex({ status: 1, createdAt: -1 });  // Dead-letter listing
 
 // ============================================================================
 // DAEMON EXECUTIONS - Track automation daemon executions
@@ -989,4 +1026,72 @@ db.tags.createIndex({ name: 1 }, { unique: true });
 // Index for active tags
 db.tags.createIndex({ isActive: 1 });
 
+// ============================================================================
+// EVENT OUTBOX - Task/workflow run events shared between processes
+// ============================================================================
+db.createCollection('event_outbox');
+db.createCollection('event_consumers');
+db.createCollection('counters');
+
+db.event_outbox.createIndex({ seq: 1 }, { unique: true });
+// Outbox events are kept for 7 days
+db.event_outbox.createIndex({ createdAt: 1 }, { expireAfterSeconds: 604800 });
+
+// ============================================================================
+// BULK OPERATIONS - Background bulk task operations
+// ============================================================================
+db.createCollection('bulk_operations');
+
+db.bulk_operations.createIndex({ status: 1 });
+db.bulk_operations.createIndex({ createdById: 1, createdAt: -1 });
+// Finished operations are kept for 30 days
+db.bulk_operations.createIndex({ completedAt: 1 }, { expireAfterSeconds: 2592000 });
+
+// ============================================================================
+// SCHEDULES - Cron-scheduled tasks and workflow runs
+// ============================================================================
+db.createCollection('schedules');
+db.schedules.createIndex({ isActive: 1, nextRunAt: 1 });
+db.schedules.createIndex({ 'workflowTrigger.workflowId': 1, 'workflowTrigger.stepId': 1 });  // Schedules behind workflow cron triggers
+
+db.createCollection('schedule_runs');
+db.schedule_runs.createIndex({ scheduleId: 1, scheduledFor: -1 });
+// Run history is kept for 90 days
+db.schedule_runs.createIndex({ startedAt: 1 }, { expireAfterSeconds: 7776000 });
+
+// ============================================================================
+// INBOUND ENDPOINTS - Signed inbound webhooks that create tasks or start workflows
+// ============================================================================
+db.createCollection('inbound_endpoints');
+db.inbound_endpoints.createIndex({ slug: 1 }, { unique: true });
+
+db.createCollection('inbound_deliveries');
+db.inbound_deliveries.createIndex({ endpointId: 1, receivedAt: -1 });
+db.inbound_deliveries.createIndex({ dedupeKey: 1 }, { unique: true, sparse: true });  // One delivery per external ID
+// Delivery log is kept for 30 days
+db.inbound_deliveries.createIndex({ receivedAt: 1 }, { expireAfterSeconds: 2592000 });
+
+// ============================================================================
+// NOTIFICATIONS - In-app notifications (subscriptions in users.preferences.notifications)
+// ============================================================================
+db.createCollection('notifications');
+db.notifications.createIndex({ userId: 1, createdAt: -1 });
+db.notifications.createIndex({ userId: 1, readAt: 1 });  // Unread counts
+// Notifications are kept for 90 days
+db.notifications.createIndex({ createdAt: 1 }, { expireAfterSeconds: 7776000 });
+
+// ============================================================================
+// ATTACHMENTS - Files attached to tasks (bytes live in attachment storage)
+// ============================================================================
+db.createCollection('attachments');
+db.attachments.createIndex({ taskId: 1, createdAt: -1 });
+
+// ============================================================================
+// AUDIT LOGS - Changes to workflows, settings, users and API keys
+// ============================================================================
+db.createCollection('audit_logs');
+db.audit_logs.createIndex({ entityType: 1, entityId: 1, timestamp: -1 });
+db.audit_logs.createIndex({ entityType: 1, timestamp: -1 });
+db.audit_logs.createIndex({ actorId: 1, timestamp: -1 });
+
 print('Database initialization complete!');
@@ -972,6 +972,9 @@ const tags = [
   { name: 'customer-feedback', displayName: 'Customer Feedback', color: '#FB923C', description: 'Customer feedback tasks', isActive: true, createdAt: new Date() },
   { name: 'migration', displayName: 'Migration', color: '#A78BFA', description: 'Migration tasks', isActive: true, createdAt: new Date() },
   { name: 'cancelled', displayName: 'Cancelled', color: '#9CA3AF', description: 'Cancelled items', isActive: true, createdAt: new Date() },
+
+  // System tags
+  { name: 'webhook-alert', displayName: 'Webhook Alert', color: '#DC2626', description: 'Webhooks disabled by their circuit breaker', isActive: true, createdAt: new Date() },
 ];
 
 db.tags.insertMany(tags);